@@ -2,16 +2,21 @@ import { useState } from "react";
 import { 
   Swords, Plus, Trash2, Play, Pause, Check, RefreshCw, 
   ChevronDown, ChevronRight, Users, Settings, AlertTriangle,
-  Shuffle, Trophy, Calendar
+  Shuffle, Trophy, Calendar, Flag
 } from "lucide-react";
 import { 
   useBattleRounds, useBattleMatches, useCreateRound, useUpdateRound, 
-  useDeleteRound, useCreateMatch, useDeleteMatch, useBulkCreateMatches,
-  useApproveReport, useBattleReports,
-  type BattleRound, type BattleMatch, type MatchParticipant, type ScoringConfig
+  useDeleteRound, useCreateMatch, useUpdateMatch, useDeleteMatch, useBulkCreateMatches,
+  useApproveReport, useBattleReports, useCampaignMatches,
+  type BattleRound, type BattleMatch, type MatchParticipant, type MatchResult, type ScoringConfig
 } from "@/hooks/useBattleTracker";
 import { useCampaignPlayers } from "@/hooks/useCampaignPlayers";
-import { generatePairings, validatePairings, type PairingSystem, type Player, type PairingResult } from "@/lib/pairingAlgorithms";
+import { useWarbandLegality } from "@/hooks/useWarbandRules";
+import { useCampaignMap } from "@/hooks/useMapData";
+import type { MapMarker, MapTerritory } from "@/components/map/types";
+import { DEFAULT_TERRITORY_RULES, type TerritoryRules } from "@/lib/territoryTransfer";
+import { generatePairings, validatePairings, expandMeetings, groupParticipantsBySide, type PairingSystem, type Player, type PairingResult, type MatchHistory } from "@/lib/pairingAlgorithms";
+import { computeStandings, resultsFromPlacements } from "@/lib/standings";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { TerminalInput } from "@/components/ui/TerminalInput";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -32,18 +37,82 @@ interface BattlesManagerProps {
 const pairingSystems: { value: PairingSystem; label: string; description: string }[] = [
   { value: 'manual', label: 'Manual', description: 'Create pairings by hand' },
   { value: 'random', label: 'Random', description: 'Randomized pairings with anti-repeat' },
-  { value: 'swiss', label: 'Swiss', description: 'Pair players with similar scores' },
+  { value: 'swiss', label: 'Swiss', description: 'Optimal pairing within score groups' },
   { value: 'round-robin', label: 'Round Robin', description: 'Everyone plays everyone' },
+  { value: 'pods', label: 'Free-for-All Pods', description: 'Multiplayer pods of 3 or 4' },
+  { value: 'teams', label: 'Teams (2v2)', description: 'Two-player teams, balanced by points' },
 ];
 
+const PLACE_LABELS = ['1st', '2nd', '3rd', '4th'];
+
+const NO_CONTEST = "__none__";
+
+interface ContestedGround {
+  territoryId: string | null;
+  markerId: string | null;
+}
+
+/** Pick the territory or map location a match is fought over */
+function ContestedSelect({ value, onChange, territories, markers }: {
+  value: ContestedGround;
+  onChange: (value: ContestedGround) => void;
+  territories: MapTerritory[];
+  markers: MapMarker[];
+}) {
+  // Only named locations are worth fighting over
+  const locations = markers.filter(m => m.label || m.legend_item);
+  const selected = value.territoryId ? `territory:${value.territoryId}` : value.markerId ? `marker:${value.markerId}` : NO_CONTEST;
+  
+  return (
+    <Select
+      value={selected}
+      onValueChange={(v) => {
+        const [kind, id] = v.split(':');
+        onChange({ territoryId: kind === 'territory' ? id : null, markerId: kind === 'marker' ? id : null });
+      }}
+    >
+      <SelectTrigger className="flex-1 h-8 text-xs">
+        <SelectValue placeholder="Contested ground" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CONTEST}>No contested ground</SelectItem>
+        {territories.map(t => (
+          <SelectItem key={t.id} value={`territory:${t.id}`}>Territory: {t.name}</SelectItem>
+        ))}
+        {locations.map(m => (
+          <SelectItem key={m.id} value={`marker:${m.id}`}>Location: {m.label || m.legend_item?.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function MatchupLabel({ participants }: { participants: MatchParticipant[] }) {
+  return (
+    <>
+      {groupParticipantsBySide(participants).map((side, i) => (
+        <span key={side[0].playerId}>
+          {i > 0 && <span className="text-muted-foreground mx-1">vs</span>}
+          {side.map(p => p.playerName).join(' & ')}
+        </span>
+      ))}
+    </>
+  );
+}
+
 export function BattlesManager({ campaignId }: BattlesManagerProps) {
   const { data: rounds = [], isLoading: roundsLoading } = useBattleRounds(campaignId);
   const { data: players = [] } = useCampaignPlayers(campaignId);
+  const { data: mapData } = useCampaignMap(campaignId);
+  const legality = useWarbandLegality(campaignId);
+  const territories = mapData?.territories ?? [];
+  const mapMarkers = mapData?.markers ?? [];
   
   const [selectedRoundId, setSelectedRoundId] = useState<string | undefined>();
   const [showPairingPreview, setShowPairingPreview] = useState(false);
   const [previewPairings, setPreviewPairings] = useState<PairingResult[]>([]);
   const [previewWarnings, setPreviewWarnings] = useState<string[]>([]);
+  const [pairingAttempt, setPairingAttempt] = useState(0);
   
   const createRound = useCreateRound();
   const updateRound = useUpdateRound();
@@ -53,6 +122,7 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
   
   const activeRound = rounds.find(r => r.id === selectedRoundId) || rounds[rounds.length - 1];
   const { data: matches = [] } = useBattleMatches(activeRound?.id);
+  const { data: campaignMatches = [] } = useCampaignMatches(campaignId);
   
   // Get disputed matches across all rounds
   const { data: allMatches = [] } = useBattleMatches(undefined); // Will need campaign-wide query
@@ -78,37 +148,58 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
   const handleGeneratePairings = () => {
     if (!activeRound) return;
     
+    // Rank players by standings from every other round
+    const previousRounds = rounds.filter(r => r.id !== activeRound.id);
+    const previousMatches = campaignMatches.filter(m => m.round_id !== activeRound.id);
+    const standings = computeStandings(previousRounds, previousMatches);
+    const standingsById = new Map(standings.map(s => [s.playerId, s]));
+    
+    // With legal lists required, players whose warbands all break a rule sit the round out
+    const blocked = players.filter(p => legality.isBlocked(p.user_id));
+    const blockedWarnings = blocked.map(p => {
+      const warband = legality.warbands.find(w => w.owner_id === p.user_id);
+      return `${p.profile?.display_name || 'Unknown'} left out: ${warband?.name} is not legal (${warband?.violations[0]?.message})`;
+    });
+    
     // Convert campaign players to pairing format
-    const pairingPlayers: Player[] = players.map(p => ({
-      id: p.user_id,
-      name: p.profile?.display_name || 'Unknown',
-      warbandId: undefined,
-      warbandName: undefined,
-      points: 0,
-    }));
+    const pairingPlayers: Player[] = players.filter(p => !blocked.includes(p)).map(p => {
+      const warband = legality.requireLegal ? legality.legalWarbandFor(p.user_id) : undefined;
+      return {
+        id: p.user_id,
+        name: p.profile?.display_name || 'Unknown',
+        warbandId: warband?.id,
+        warbandName: warband?.name,
+        points: standingsById.get(p.user_id)?.points || 0,
+        rank: standingsById.get(p.user_id)?.rank,
+      };
+    });
     
-    // Build match history from previous rounds
-    const matchHistory = matches.flatMap(m => {
-      if (m.participants.length < 2) return [];
-      return [{
-        roundIndex: activeRound.round_index,
-        playerAId: m.participants[0].playerId,
-        playerBId: m.participants[1].playerId,
-      }];
+    // Build match and bye history from previous rounds
+    const matchHistory: MatchHistory[] = previousMatches.flatMap(m => {
+      if (m.is_bye || m.participants.length < 2) return [];
+      return expandMeetings(m.round.round_index, m.participants.map(p => p.playerId));
     });
+    const byeHistory = previousMatches
+      .filter(m => m.is_bye)
+      .flatMap(m => m.participants.map(p => p.playerId));
+    
+    // Each Generate click re-rolls the seed; the same seed reproduces the same pairings
+    const seed = `${activeRound.id}:${pairingAttempt}`;
+    setPairingAttempt(a => a + 1);
     
     const pairings = generatePairings(
       activeRound.pairing_system as PairingSystem,
       pairingPlayers,
       activeRound.constraints_config,
       matchHistory,
-      activeRound.round_index
+      activeRound.round_index,
+      { seed, byeHistory }
     );
     
-    const validation = validatePairings(pairings, activeRound.constraints_config, matchHistory);
+    const validation = validatePairings(pairings, activeRound.constraints_config, matchHistory, { byeHistory });
     
     setPreviewPairings(pairings);
-    setPreviewWarnings(validation.warnings);
+    setPreviewWarnings([...blockedWarnings, ...validation.warnings]);
     setShowPairingPreview(true);
   };
   
@@ -209,9 +300,33 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
                   <p className="text-xs text-muted-foreground">{players.length} players available</p>
                 </div>
                 <div className="flex items-center gap-2">
+                  {activeRound.pairing_system === 'pods' && (
+                    <Select
+                      value={String(activeRound.constraints_config.podSize ?? 4)}
+                      onValueChange={(v) => updateRound.mutate({
+                        roundId: activeRound.id,
+                        updates: { constraints_config: { ...activeRound.constraints_config, podSize: Number(v) as 3 | 4 } },
+                      })}
+                    >
+                      <SelectTrigger className="w-[110px] h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="3">Pods of 3</SelectItem>
+                        <SelectItem value="4">Pods of 4</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  
                   <Select
                     value={activeRound.pairing_system}
-                    onValueChange={(v) => updateRound.mutate({ roundId: activeRound.id, updates: { pairing_system: v } })}
+                    onValueChange={(v) => updateRound.mutate({
+                      roundId: activeRound.id,
+                      // Team games are co-op by definition
+                      updates: v === 'teams'
+                        ? { pairing_system: v, constraints_config: { ...activeRound.constraints_config, allowCoop: true } }
+                        : { pairing_system: v },
+                    })}
                   >
                     <SelectTrigger className="w-[140px] h-8 text-xs">
                       <SelectValue />
@@ -272,7 +387,7 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
                           <span>{p.participants[0]?.playerName} <Badge variant="outline" className="text-[9px]">BYE</Badge></span>
                         ) : (
                           <span>
-                            {p.participants[0]?.playerName} <span className="text-muted-foreground">vs</span> {p.participants[1]?.playerName}
+                            <MatchupLabel participants={p.participants} />
                           </span>
                         )}
                       </div>
@@ -314,6 +429,8 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
                         key={match.id}
                         match={match}
                         index={i}
+                        territories={territories}
+                        markers={mapMarkers}
                         onDelete={() => deleteMatch.mutate({ matchId: match.id, roundId: activeRound.id, campaignId })}
                       />
                     ))}
@@ -327,7 +444,10 @@ export function BattlesManager({ campaignId }: BattlesManagerProps) {
                   campaignId={campaignId}
                   roundId={activeRound.id}
                   players={players}
+                  blockedPlayerIds={players.filter(p => legality.isBlocked(p.user_id)).map(p => p.user_id)}
                   existingMatchCount={matches.length}
+                  territories={territories}
+                  markers={mapMarkers}
                 />
               )}
             </>
@@ -439,43 +559,134 @@ function RoundCard({ round, isSelected, onSelect, onUpdateStatus, onDelete, matc
 }
 
 // Match Row Component
-function MatchRow({ match, index, onDelete }: { match: BattleMatch; index: number; onDelete: () => void }) {
+interface MatchRowProps {
+  match: BattleMatch;
+  index: number;
+  territories: MapTerritory[];
+  markers: MapMarker[];
+  onDelete: () => void;
+}
+
+function MatchRow({ match, index, territories, markers, onDelete }: MatchRowProps) {
+  const updateMatch = useUpdateMatch();
+  const [editingContest, setEditingContest] = useState(false);
+  
+  const contested = match.territory_id
+    ? territories.find(t => t.id === match.territory_id)?.name
+    : match.contested_marker_id
+      ? (() => {
+          const marker = markers.find(m => m.id === match.contested_marker_id);
+          return marker ? marker.label || marker.legend_item?.name : undefined;
+        })()
+      : undefined;
+  const canContest = !match.is_bye && match.status !== 'approved' && (territories.length > 0 || markers.length > 0);
+  
   return (
-    <div className="flex items-center justify-between py-1 px-2 border border-border/30 rounded text-xs">
-      <div className="flex items-center gap-2">
-        <span className="text-muted-foreground w-5">{index + 1}.</span>
-        {match.participants.map((p, i) => (
-          <span key={p.playerId}>
-            {i > 0 && <span className="text-muted-foreground mx-1">vs</span>}
-            {p.playerName}
-          </span>
-        ))
-        }
-        {match.is_bye && <Badge variant="outline" className="text-[9px]">BYE</Badge>}
-      </div>
-      <div className="flex items-center gap-2">
-        <Badge variant="secondary" className="text-[9px]">{match.status}</Badge>
-        <button onClick={onDelete} className="p-1 text-destructive hover:bg-destructive/10 rounded">
-          <Trash2 className="w-3 h-3" />
-        </button>
+    <div className="py-1 px-2 border border-border/30 rounded text-xs space-y-1">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground w-5">{index + 1}.</span>
+          <MatchupLabel participants={match.participants} />
+          {match.is_bye && <Badge variant="outline" className="text-[9px]">BYE</Badge>}
+          {contested && (
+            <Badge variant="outline" className="text-[9px] gap-1">
+              <Flag className="w-2.5 h-2.5" />
+              {contested}
+              {match.attacker_side && ` · ${match.attacker_side.toUpperCase()} attacks`}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="text-[9px]">{match.status}</Badge>
+          {canContest && (
+            <button
+              onClick={() => setEditingContest(!editingContest)}
+              className={cn("p-1 rounded hover:bg-muted", editingContest && "text-primary")}
+              title="Set contested ground"
+            >
+              <Flag className="w-3 h-3" />
+            </button>
+          )}
+          <button onClick={onDelete} className="p-1 text-destructive hover:bg-destructive/10 rounded">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
       </div>
+      
+      {editingContest && canContest && (
+        <div className="flex gap-2 pl-7">
+          <ContestedSelect
+            value={{ territoryId: match.territory_id, markerId: match.contested_marker_id }}
+            onChange={({ territoryId, markerId }) => updateMatch.mutate({
+              matchId: match.id,
+              updates: {
+                territory_id: territoryId,
+                contested_marker_id: markerId,
+                attacker_side: territoryId || markerId ? match.attacker_side : null,
+              },
+            })}
+            territories={territories}
+            markers={markers}
+          />
+          {(match.territory_id || match.contested_marker_id) && (
+            <AttackerSelect
+              participants={match.participants}
+              value={match.attacker_side}
+              onChange={(side) => updateMatch.mutate({ matchId: match.id, updates: { attacker_side: side } })}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
+const NO_ATTACKER = "__none__";
+
+function AttackerSelect({ participants, value, onChange }: {
+  participants: MatchParticipant[];
+  value: MatchParticipant['side'] | null;
+  onChange: (side: MatchParticipant['side'] | null) => void;
+}) {
+  return (
+    <Select
+      value={value ?? NO_ATTACKER}
+      onValueChange={(v) => onChange(v === NO_ATTACKER ? null : v as MatchParticipant['side'])}
+    >
+      <SelectTrigger className="w-40 h-8 text-xs">
+        <SelectValue placeholder="Attacker" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ATTACKER}>No attacker</SelectItem>
+        {groupParticipantsBySide(participants).map(side => (
+          <SelectItem key={side[0].side} value={side[0].side}>
+            {side.map(p => p.playerName).join(' & ')} attacks
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 // Manual Match Creator
 interface ManualMatchCreatorProps {
   campaignId: string;
   roundId: string;
   players: { user_id: string; profile?: { display_name: string | null } | null }[];
+  /** Players with no legal warband while the GM requires one */
+  blockedPlayerIds: string[];
   existingMatchCount: number;
+  territories: MapTerritory[];
+  markers: MapMarker[];
 }
 
 const BYE_VALUE = "__bye__";
 
-function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }: ManualMatchCreatorProps) {
+function ManualMatchCreator({ campaignId, roundId, players, blockedPlayerIds, existingMatchCount, territories, markers }: ManualMatchCreatorProps) {
   const [playerA, setPlayerA] = useState("");
   const [playerB, setPlayerB] = useState(BYE_VALUE);
+  const [contested, setContested] = useState<ContestedGround>({ territoryId: null, markerId: null });
+  const [attackerSide, setAttackerSide] = useState<MatchParticipant['side'] | null>(null);
   const createMatch = useCreateMatch();
   
   const handleCreate = () => {
@@ -501,10 +712,15 @@ function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }
       participants,
       matchIndex: existingMatchCount,
       isBye,
+      territoryId: isBye ? null : contested.territoryId,
+      contestedMarkerId: isBye ? null : contested.markerId,
+      attackerSide: isBye ? null : attackerSide,
     }, {
       onSuccess: () => {
         setPlayerA("");
         setPlayerB(BYE_VALUE);
+        setContested({ territoryId: null, markerId: null });
+        setAttackerSide(null);
       },
     });
   };
@@ -519,8 +735,9 @@ function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }
           </SelectTrigger>
           <SelectContent>
             {players.map(p => (
-              <SelectItem key={p.user_id} value={p.user_id}>
+              <SelectItem key={p.user_id} value={p.user_id} disabled={blockedPlayerIds.includes(p.user_id)}>
                 {p.profile?.display_name || 'Unknown'}
+                {blockedPlayerIds.includes(p.user_id) && ' (illegal warband)'}
               </SelectItem>
             ))}
           </SelectContent>
@@ -535,8 +752,9 @@ function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }
           <SelectContent>
             <SelectItem value={BYE_VALUE}>BYE</SelectItem>
             {players.filter(p => p.user_id !== playerA).map(p => (
-              <SelectItem key={p.user_id} value={p.user_id}>
+              <SelectItem key={p.user_id} value={p.user_id} disabled={blockedPlayerIds.includes(p.user_id)}>
                 {p.profile?.display_name || 'Unknown'}
+                {blockedPlayerIds.includes(p.user_id) && ' (illegal warband)'}
               </SelectItem>
             ))}
           </SelectContent>
@@ -546,6 +764,23 @@ function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }
           <Plus className="w-3 h-3" />
         </TerminalButton>
       </div>
+      
+      {/* Contested ground (optional) */}
+      {playerB !== BYE_VALUE && (territories.length > 0 || markers.length > 0) && (
+        <div className="flex gap-2">
+          <ContestedSelect value={contested} onChange={setContested} territories={territories} markers={markers} />
+          {(contested.territoryId || contested.markerId) && (
+            <AttackerSelect
+              participants={[
+                { playerId: playerA, playerName: players.find(p => p.user_id === playerA)?.profile?.display_name || 'Player A', side: 'a' },
+                { playerId: playerB, playerName: players.find(p => p.user_id === playerB)?.profile?.display_name || 'Player B', side: 'b' },
+              ]}
+              value={attackerSide}
+              onChange={setAttackerSide}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -553,6 +788,7 @@ function ManualMatchCreator({ campaignId, roundId, players, existingMatchCount }
 // Scoring Config Component
 function ScoringConfig({ round, onUpdate }: { round: BattleRound; onUpdate: (updates: Partial<BattleRound>) => void }) {
   const [scoring, setScoring] = useState<ScoringConfig>(round.scoring_config);
+  const territoryRules = { ...DEFAULT_TERRITORY_RULES, ...scoring.territoryRules };
   
   const handleSave = () => {
     onUpdate({ scoring_config: scoring });
@@ -589,6 +825,26 @@ function ScoringConfig({ round, onUpdate }: { round: BattleRound; onUpdate: (upd
         </div>
       </div>
       
+      <div className="space-y-1">
+        <Label className="text-xs">Placement Points</Label>
+        <p className="text-[10px] text-muted-foreground">For multiplayer games; leave blank to score by win/draw/loss</p>
+        <div className="grid grid-cols-4 gap-2">
+          {PLACE_LABELS.map((place, i) => (
+            <TerminalInput
+              key={place}
+              type="number"
+              placeholder={place}
+              value={scoring.placementPoints?.[i] ?? ''}
+              onChange={(e) => {
+                const next = PLACE_LABELS.map((_, j) => scoring.placementPoints?.[j] ?? 0);
+                next[i] = parseInt(e.target.value) || 0;
+                setScoring({ ...scoring, placementPoints: next.some(v => v !== 0) ? next : undefined });
+              }}
+            />
+          ))}
+        </div>
+      </div>
+      
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <div>
@@ -624,6 +880,46 @@ function ScoringConfig({ round, onUpdate }: { round: BattleRound; onUpdate: (upd
         </div>
       </div>
       
+      <div className="space-y-3">
+        <div>
+          <Label className="text-xs">Territory Control</Label>
+          <p className="text-[10px] text-muted-foreground">What approving a battle over a territory or map location does</p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">Ownership passes to</Label>
+            <Select
+              value={territoryRules.transfer}
+              onValueChange={(v) => setScoring({ ...scoring, territoryRules: { ...territoryRules, transfer: v as TerritoryRules['transfer'] } })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="winner">The winner</SelectItem>
+                <SelectItem value="attacker">The attacker, if they win</SelectItem>
+                <SelectItem value="off">Nobody (manual only)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">On a draw</Label>
+            <Select
+              value={territoryRules.onDraw}
+              onValueChange={(v) => setScoring({ ...scoring, territoryRules: { ...territoryRules, onDraw: v as TerritoryRules['onDraw'] } })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">Holder keeps it</SelectItem>
+                <SelectItem value="unclaim">It becomes unclaimed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+      
       <TerminalButton onClick={handleSave} className="w-full">
         Save Scoring Settings
       </TerminalButton>
@@ -667,17 +963,30 @@ function DisputeCard({ match, campaignId, roundId }: { match: BattleMatch; campa
   const { data: reports = [] } = useBattleReports(match.id);
   const approveReport = useApproveReport();
   const [selectedOutcome, setSelectedOutcome] = useState<Record<string, 'win' | 'loss' | 'draw'>>({});
+  const [selectedPlacement, setSelectedPlacement] = useState<Record<string, number>>({});
+  
+  const sides = groupParticipantsBySide(match.participants);
+  // Free-for-all games are resolved by finishing position rather than win/loss
+  const byPlacement = sides.length > 2;
   
   const handleResolve = () => {
     if (!roundId || reports.length === 0) return;
     
-    const finalResults: Record<string, { outcome: 'win' | 'loss' | 'draw'; points: number }> = {};
-    match.participants.forEach(p => {
-      finalResults[p.playerId] = {
-        outcome: selectedOutcome[p.playerId] || 'draw',
-        points: 0,
-      };
-    });
+    let finalResults: Record<string, MatchResult> = {};
+    if (byPlacement) {
+      const placements: Record<string, number> = {};
+      match.participants.forEach(p => {
+        placements[p.playerId] = selectedPlacement[p.playerId] || match.participants.length;
+      });
+      finalResults = resultsFromPlacements(placements);
+    } else {
+      match.participants.forEach(p => {
+        finalResults[p.playerId] = {
+          outcome: selectedOutcome[p.side] || 'draw',
+          points: 0,
+        };
+      });
+    }
     
     approveReport.mutate({
       reportId: reports[0].id,
@@ -693,12 +1002,7 @@ function DisputeCard({ match, campaignId, roundId }: { match: BattleMatch; campa
       <div className="flex items-center gap-2">
         <AlertTriangle className="w-4 h-4 text-destructive" />
         <span className="font-medium text-sm">
-          {match.participants.map((p, i) => (
-            <span key={p.playerId}>
-              {i > 0 && " vs "}
-              {p.playerName}
-            </span>
-          ))}
+          <MatchupLabel participants={match.participants} />
         </span>
       </div>
       
@@ -723,16 +1027,33 @@ function DisputeCard({ match, campaignId, roundId }: { match: BattleMatch; campa
       
       {/* Resolution */}
       <div className="space-y-2">
-        <div className="text-[10px] uppercase tracking-wider text-muted-foreground">Set Final Outcome</div>
-        <div className="flex gap-2">
-          {match.participants.map(p => (
+        <div className="text-[10px] uppercase tracking-wider text-muted-foreground">
+          {byPlacement ? 'Set Final Placings' : 'Set Final Outcome'}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {byPlacement ? match.participants.map(p => (
             <Select
               key={p.playerId}
-              value={selectedOutcome[p.playerId] || ''}
-              onValueChange={(v) => setSelectedOutcome({ ...selectedOutcome, [p.playerId]: v as 'win' | 'loss' | 'draw' })}
+              value={selectedPlacement[p.playerId] ? String(selectedPlacement[p.playerId]) : ''}
+              onValueChange={(v) => setSelectedPlacement({ ...selectedPlacement, [p.playerId]: Number(v) })}
+            >
+              <SelectTrigger className="flex-1 min-w-[120px] h-8 text-xs">
+                <SelectValue placeholder={`${p.playerName} place`} />
+              </SelectTrigger>
+              <SelectContent>
+                {match.participants.map((_, i) => (
+                  <SelectItem key={i} value={String(i + 1)}>{PLACE_LABELS[i] ?? `${i + 1}th`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )) : sides.map(side => (
+            <Select
+              key={side[0].side}
+              value={selectedOutcome[side[0].side] || ''}
+              onValueChange={(v) => setSelectedOutcome({ ...selectedOutcome, [side[0].side]: v as 'win' | 'loss' | 'draw' })}
             >
               <SelectTrigger className="flex-1 h-8 text-xs">
-                <SelectValue placeholder={`${p.playerName} result`} />
+                <SelectValue placeholder={`${side.map(p => p.playerName).join(' & ')} result`} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="win">Win</SelectItem>
@@ -14,6 +14,9 @@ import { useEntitlements } from "@/hooks/useEntitlements";
 import { LockedFeature } from "@/components/ui/LockedFeature";
 import { THEMES } from "@/lib/themes";
 import { PermissionsTab } from "@/components/settings/PermissionsTab";
+import { EconomyTab } from "@/components/settings/EconomyTab";
+import { WarbandRulesTab } from "@/components/settings/WarbandRulesTab";
+import { GameSystemTab } from "@/components/settings/GameSystemTab";
 import { 
   Settings2, 
   Copy, 
@@ -24,6 +27,9 @@ import {
   CalendarIcon,
   Lock,
   Users,
+  Coins,
+  Swords,
+  Library,
 } from "lucide-react";
 import { toast } from "sonner";
 import { format, parse, isValid } from "date-fns";
@@ -184,7 +190,7 @@ export function CampaignSettingsModal({ open, onClose, campaignId }: CampaignSet
         </DialogHeader>
 
         <Tabs defaultValue="general" className="flex-1 flex flex-col min-h-0">
-          <TabsList className="grid w-full grid-cols-4 mb-4">
+          <TabsList className="grid w-full grid-cols-7 mb-4">
             <TabsTrigger value="general" className="text-xs">
               <Info className="w-3 h-3 mr-1.5" />
               General
@@ -197,6 +203,18 @@ export function CampaignSettingsModal({ open, onClose, campaignId }: CampaignSet
               <Users className="w-3 h-3 mr-1.5" />
               Permissions
             </TabsTrigger>
+            <TabsTrigger value="economy" className="text-xs">
+              <Coins className="w-3 h-3 mr-1.5" />
+              Economy
+            </TabsTrigger>
+            <TabsTrigger value="rules" className="text-xs">
+              <Swords className="w-3 h-3 mr-1.5" />
+              Rules
+            </TabsTrigger>
+            <TabsTrigger value="system" className="text-xs">
+              <Library className="w-3 h-3 mr-1.5" />
+              System
+            </TabsTrigger>
             <TabsTrigger value="security" className="text-xs">
               <Shield className="w-3 h-3 mr-1.5" />
               Security
@@ -618,6 +636,21 @@ export function CampaignSettingsModal({ open, onClose, campaignId }: CampaignSet
             <TabsContent value="permissions" className="mt-0">
               <PermissionsTab campaignId={campaignId} />
             </TabsContent>
+
+            {/* Economy Tab */}
+            <TabsContent value="economy" className="mt-0">
+              <EconomyTab campaignId={campaignId} />
+            </TabsContent>
+
+            {/* Warband Rules Tab */}
+            <TabsContent value="rules" className="mt-0">
+              <WarbandRulesTab campaignId={campaignId} />
+            </TabsContent>
+
+            {/* Game System Tab */}
+            <TabsContent value="system" className="mt-0">
+              <GameSystemTab campaignId={campaignId} />
+            </TabsContent>
           </div>
         </Tabs>
 
@@ -11,11 +11,13 @@ import { Label } from "@/components/ui/label";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { useCreateCampaign, DisplaySettings } from "@/hooks/useCampaigns";
+import { useCreateCampaign, useCloneCampaign, useCampaigns, DisplaySettings, type CreateCampaignInput } from "@/hooks/useCampaigns";
+import { useCampaignTemplates, useDeleteCampaignTemplate } from "@/hooks/useCampaignTemplates";
+import { useAuth } from "@/hooks/useAuth";
 import { useCreateComponent } from "@/hooks/useDashboardComponents";
 import { useEntitlements } from "@/hooks/useEntitlements";
 import { getConsoleSpawnPosition } from "@/lib/canvasPlacement";
-import { ChevronDown, ChevronRight, CalendarIcon } from "lucide-react";
+import { ChevronDown, ChevronRight, CalendarIcon, Trash2 } from "lucide-react";
 import { HelpButton } from "@/components/help/HelpButton";
 import { CampaignLimitModal } from "./CampaignLimitModal";
 import { format, parse, isValid } from "date-fns";
@@ -69,9 +71,19 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showDisplaySettings, setShowDisplaySettings] = useState(false);
   const [showLimitModal, setShowLimitModal] = useState(false);
+  // "blank", "template:<id>" or "campaign:<id>"
+  const [startFrom, setStartFrom] = useState("blank");
+  const [include, setInclude] = useState({ players: false, messages: false, battles: false });
   
   const navigate = useNavigate();
+  const { user } = useAuth();
   const createCampaign = useCreateCampaign();
+  const cloneCampaign = useCloneCampaign();
+  const { data: campaigns = [] } = useCampaigns();
+  const { data: templates = [] } = useCampaignTemplates();
+  const deleteTemplate = useDeleteCampaignTemplate();
+  const ownedCampaigns = campaigns.filter((c) => c.owner_id === user?.id);
+  const isPending = createCampaign.isPending || cloneCampaign.isPending;
   const createComponent = useCreateComponent();
   const { entitlements, canCreateCampaign, refetch: refetchEntitlements } = useEntitlements();
 
@@ -91,7 +103,7 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       return;
     }
     
-    const campaign = await createCampaign.mutateAsync({
+    const input: CreateCampaignInput = {
       name,
       description: description || undefined,
       points_limit: parseInt(pointsLimit) || 1000,
@@ -106,7 +118,27 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
       title_color: titleColor,
       border_color: borderColor,
       display_settings: displaySettings,
-    });
+    };
+
+    // Templates and clones bring their own dashboard, console included
+    if (startFrom !== "blank") {
+      const [type, id] = startFrom.split(":");
+      try {
+        const campaignId = await cloneCampaign.mutateAsync({
+          ...input,
+          source: type === "template" ? { type: "template", templateId: id } : { type: "campaign", campaignId: id },
+          include: type === "campaign" ? include : { players: false, messages: false, battles: false },
+        });
+        resetForm();
+        onClose();
+        navigate(`/campaign/${campaignId}`);
+      } catch {
+        // Error is handled by the mutation
+      }
+      return;
+    }
+
+    const campaign = await createCampaign.mutateAsync(input);
     
     // Campaign Console dimensions
     const CONSOLE_WIDTH = 560;
@@ -159,6 +191,44 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
     });
     setShowAdvanced(false);
     setShowDisplaySettings(false);
+    setStartFrom("blank");
+    setInclude({ players: false, messages: false, battles: false });
+  };
+
+  // Start the form from the source's settings; dates are left for the new season
+  const handleStartFromChange = (value: string) => {
+    setStartFrom(value);
+    const [type, id] = value.split(":");
+    const source =
+      type === "template"
+        ? templates.find((t) => t.id === id)?.snapshot.campaign
+        : type === "campaign"
+          ? ownedCampaigns.find((c) => c.id === id)
+          : null;
+    if (!source) return;
+
+    const text = (key: string) => (typeof source[key] === "string" ? (source[key] as string) : "");
+    const number = (key: string, fallback: string) =>
+      typeof source[key] === "number" ? String(source[key]) : fallback;
+    setName(type === "campaign" ? `${text("name")} (copy)` : text("name"));
+    setDescription(text("description"));
+    setPointsLimit(number("points_limit", "1000"));
+    setMaxPlayers(number("max_players", "8"));
+    setTotalRounds(number("total_rounds", "10"));
+    setRoundLength(text("round_length") || "weekly");
+    setGameSystem(text("game_system"));
+    setTitleColor(text("title_color") || "#22c55e");
+    setBorderColor(text("border_color") || "#22c55e");
+    if (source.display_settings && typeof source.display_settings === "object") {
+      setDisplaySettings(source.display_settings as DisplaySettings);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    const [type, id] = startFrom.split(":");
+    if (type !== "template") return;
+    await deleteTemplate.mutateAsync(id);
+    setStartFrom("blank");
   };
 
   const handleClose = () => {
@@ -186,6 +256,72 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Start from a template or an existing campaign */}
+          {(templates.length > 0 || ownedCampaigns.length > 0) && (
+            <div className="space-y-1.5">
+              <label className="text-xs uppercase tracking-wider text-muted-foreground font-medium">
+                Start From
+              </label>
+              <div className="flex gap-2">
+                <Select value={startFrom} onValueChange={handleStartFromChange}>
+                  <SelectTrigger className="bg-input border-border flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blank">Blank campaign</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={`template:${template.id}`}>
+                        Template: {template.name}
+                      </SelectItem>
+                    ))}
+                    {ownedCampaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={`campaign:${campaign.id}`}>
+                        Copy of {campaign.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {startFrom.startsWith("template:") && (
+                  <TerminalButton
+                    type="button"
+                    variant="outline"
+                    className="px-3"
+                    onClick={handleDeleteTemplate}
+                    disabled={deleteTemplate.isPending}
+                    aria-label="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </TerminalButton>
+                )}
+              </div>
+              {startFrom !== "blank" && (
+                <p className="text-xs text-muted-foreground">
+                  Widgets, rules, units, map legend and the calendar (without dates) are copied.
+                </p>
+              )}
+              {startFrom.startsWith("campaign:") && (
+                <div className="grid grid-cols-3 gap-2 pt-1">
+                  {([
+                    { key: "players", label: "Players" },
+                    { key: "messages", label: "Messages" },
+                    { key: "battles", label: "Battles" },
+                  ] as const).map((item) => (
+                    <div key={item.key} className="flex items-center gap-2">
+                      <Switch
+                        id={`include-${item.key}`}
+                        checked={include[item.key]}
+                        onCheckedChange={(checked) => setInclude((prev) => ({ ...prev, [item.key]: checked }))}
+                      />
+                      <Label htmlFor={`include-${item.key}`} className="text-xs">
+                        {item.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Basic Fields */}
           <TerminalInput
             label="Campaign Name"
@@ -463,16 +599,16 @@ export function CreateCampaignModal({ open, onClose }: CreateCampaignModalProps)
               variant="outline"
               onClick={handleClose}
               className="flex-1"
-              disabled={createCampaign.isPending}
+              disabled={isPending}
             >
               Cancel
             </TerminalButton>
             <TerminalButton
               type="submit"
               className="flex-1"
-              disabled={!name.trim() || createCampaign.isPending}
+              disabled={!name.trim() || isPending}
             >
-              {createCampaign.isPending ? (
+              {isPending ? (
                 <TerminalLoader text="Creating" size="sm" />
               ) : (
                 "Create Campaign"
@@ -0,0 +1,221 @@
+import { useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { useAuth } from "@/hooks/useAuth";
+import { useImportCampaign } from "@/hooks/useCampaigns";
+import {
+  parseCampaignExport,
+  planCampaignImport,
+  CampaignImportError,
+  type CampaignExportFile,
+} from "@/lib/campaignImport";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, FileJson, Ghost, Upload, XCircle } from "lucide-react";
+
+interface ImportCampaignModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ImportCampaignModal({ open, onClose }: ImportCampaignModalProps) {
+  const { user } = useAuth();
+  const importCampaign = useImportCampaign();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [exportFile, setExportFile] = useState<CampaignExportFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  // Dry run: everything the import would write, worked out before anything is sent
+  const plan = useMemo(
+    () => (exportFile && user ? planCampaignImport(exportFile, { userId: user.id, name }) : null),
+    [exportFile, user, name]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setExportFile(null);
+    setParseError(null);
+    try {
+      const parsed = parseCampaignExport(await file.text());
+      setExportFile(parsed);
+      setName(typeof parsed.campaign?.name === "string" ? parsed.campaign.name : "");
+    } catch (error) {
+      setParseError(error instanceof CampaignImportError ? error.message : "Failed to read file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan?.canImport) return;
+    try {
+      const campaignId = await importCampaign.mutateAsync(plan.bundle);
+      resetForm();
+      onClose();
+      navigate(`/campaign/${campaignId}`);
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const resetForm = () => {
+    setFileName(null);
+    setExportFile(null);
+    setParseError(null);
+    setName("");
+  };
+
+  const handleClose = () => {
+    if (!importCampaign.isPending) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  const errors = plan?.issues.filter((issue) => issue.level === "error") ?? [];
+  const warnings = plan?.issues.filter((issue) => issue.level === "warning") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="bg-background border-primary/50 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-primary tracking-wider">
+            [ IMPORT CAMPAIGN ]
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5 mt-2">
+          <div className="space-y-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <TerminalButton
+              type="button"
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importCampaign.isPending}
+            >
+              <Upload className="w-4 h-4" />
+              {fileName ? "Choose a different file" : "Choose backup file"}
+            </TerminalButton>
+            {fileName && (
+              <p className="text-xs text-muted-foreground font-mono flex items-center gap-1.5 truncate">
+                <FileJson className="w-3 h-3 flex-shrink-0" />
+                {fileName}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Use a JSON backup made with Export Campaign Data. The import creates a new campaign; nothing
+              is written until you confirm below.
+            </p>
+          </div>
+
+          {parseError && (
+            <div className="border border-destructive/50 bg-destructive/10 rounded p-3 text-center">
+              <p className="text-sm text-destructive font-mono">{parseError}</p>
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-4 animate-fade-in">
+              <div className="space-y-2">
+                <label className="text-sm text-muted-foreground font-mono uppercase tracking-wider">
+                  Campaign Name
+                </label>
+                <TerminalInput
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Imported Campaign"
+                  disabled={importCampaign.isPending}
+                />
+              </div>
+
+              <div className="border border-primary/50 bg-primary/5 rounded p-3 space-y-2">
+                <p className="text-xs text-primary font-mono uppercase tracking-wider">Dry run</p>
+                {plan.sections.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Only the campaign settings will be imported.</p>
+                ) : (
+                  <table className="w-full text-xs font-mono">
+                    <tbody>
+                      {plan.sections.map((section) => (
+                        <tr key={section.section} className="border-b border-primary/10 last:border-0">
+                          <td className="py-1 text-muted-foreground">{section.label}</td>
+                          <td className="py-1 text-right text-foreground">{section.imported}</td>
+                          <td className="py-1 pl-3 text-right text-muted-foreground w-20">
+                            {section.skipped > 0 && `${section.skipped} skipped`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {plan.ghostPlayers > 0 && (
+                  <p className="text-xs text-muted-foreground flex items-start gap-1.5 pt-1">
+                    <Ghost className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {plan.ghostPlayers} player{plan.ghostPlayers === 1 ? "" : "s"} will be added as ghost
+                    players until they join the new campaign.
+                  </p>
+                )}
+              </div>
+
+              {(errors.length > 0 || warnings.length > 0) && (
+                <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+                  {errors.map((issue, index) => (
+                    <li key={`error-${index}`} className="text-xs text-destructive flex items-start gap-1.5">
+                      <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                  {warnings.map((issue, index) => (
+                    <li key={`warning-${index}`} className="text-xs text-yellow-500 flex items-start gap-1.5">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <TerminalButton
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={importCampaign.isPending}
+            >
+              [ Cancel ]
+            </TerminalButton>
+            <TerminalButton
+              type="button"
+              onClick={handleImport}
+              disabled={!plan?.canImport || importCampaign.isPending}
+            >
+              {importCampaign.isPending ? (
+                <TerminalLoader text="Importing" size="sm" />
+              ) : (
+                "[ Import Campaign ]"
+              )}
+            </TerminalButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import {
   Lock,
   Swords,
   Layers,
+  Trophy,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
@@ -52,6 +53,7 @@ const COMPONENT_TYPES: ComponentTypeConfig[] = [
   { type: "custom_card", label: "Custom Card", icon: LayoutList, description: "Blank card for manual entry", usesPasteWizard: true, isCustom: true, saveToRules: true },
   { type: "narrative_table", label: "Narrative", icon: LayoutList, description: "Display narrative events" },
   { type: "battle_tracker", label: "Battles", icon: Swords, description: "Track rounds, pairings & reports" },
+  { type: "standings", label: "Standings", icon: Trophy, description: "League table ranked across all rounds" },
   { type: "counter", label: "Counter", icon: Hash, description: "Numeric tracker with +/- controls" },
   { type: "image", label: "Image", icon: Image, description: "Display an image or map" },
   { type: "dice_roller", label: "Dice Roller", icon: Dices, description: "Roll dice with history log" },
@@ -164,6 +166,9 @@ export function AddComponentModal({ open, onOpenChange, campaignId }: AddCompone
     } else if (selectedType === "battle_tracker") {
       width = 420;
       height = 450;
+    } else if (selectedType === "standings") {
+      width = 420;
+      height = 380;
     } else if (selectedType === "card_deck") {
       width = 350;
       height = 400;
@@ -360,6 +365,12 @@ export function AddComponentModal({ open, onOpenChange, campaignId }: AddCompone
                 </p>
               )}
 
+              {selectedType === "standings" && (
+                <p className="text-xs text-muted-foreground bg-muted/30 p-3 rounded">
+                  Ranks players by points from approved battle results across every round, using each round's scoring settings. Ties are broken by strength of schedule, opponents' win rate, then head-to-head.
+                </p>
+              )}
+
               {selectedType === "card_deck" && (
                 <p className="text-xs text-muted-foreground bg-muted/30 p-3 rounded">
                   Create decks of cards (text or images) and draw randomly. GMs configure decks via the widget's settings button. Build custom decks by copying cards from multiple sources.
@@ -12,8 +12,11 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { TerminalButton } from "@/components/ui/TerminalButton";
-import { Download, Loader2, FileJson, Check } from "lucide-react";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { Download, Loader2, FileJson, Check, LayoutTemplate } from "lucide-react";
 import { toast } from "sonner";
+import { useSaveCampaignTemplate } from "@/hooks/useCampaignTemplates";
+import { fetchCampaignSnapshot, type SnapshotSections } from "@/lib/campaignSnapshot";
 
 interface CampaignExportModalProps {
   open: boolean;
@@ -21,17 +24,7 @@ interface CampaignExportModalProps {
   campaignId: string;
 }
 
-interface ExportOptions {
-  campaign: boolean;
-  players: boolean;
-  components: boolean;
-  rules: boolean;
-  warbands: boolean;
-  messages: boolean;
-  narrative: boolean;
-  schedule: boolean;
-  map: boolean;
-}
+type ExportOptions = Omit<SnapshotSections, "mapLegendOnly">;
 
 export function CampaignExportModal({ open, onClose, campaignId }: CampaignExportModalProps) {
   const [options, setOptions] = useState<ExportOptions>({
@@ -39,14 +32,18 @@ export function CampaignExportModal({ open, onClose, campaignId }: CampaignExpor
     players: true,
     components: true,
     rules: true,
+    units: true,
     warbands: true,
     messages: false,
     narrative: true,
     schedule: true,
     map: true,
+    battles: true,
   });
   const [isExporting, setIsExporting] = useState(false);
   const [exportComplete, setExportComplete] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const saveTemplate = useSaveCampaignTemplate();
 
   const { data: campaign } = useQuery({
     queryKey: ["campaign", campaignId],
@@ -71,115 +68,7 @@ export function CampaignExportModal({ open, onClose, campaignId }: CampaignExpor
     setExportComplete(false);
 
     try {
-      const exportData: Record<string, unknown> = {
-        exportedAt: new Date().toISOString(),
-        version: "1.0",
-      };
-
-      // Campaign metadata
-      if (options.campaign) {
-        const { data } = await supabase
-          .from("campaigns")
-          .select("*")
-          .eq("id", campaignId)
-          .single();
-        exportData.campaign = data;
-      }
-
-      // Players
-      if (options.players) {
-        const { data } = await supabase
-          .from("campaign_players")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.players = data;
-      }
-
-      // Dashboard components
-      if (options.components) {
-        const { data } = await supabase
-          .from("dashboard_components")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.components = data;
-      }
-
-      // Rules
-      if (options.rules) {
-        const { data } = await supabase
-          .from("wargame_rules")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.rules = data;
-      }
-
-      // Warbands
-      if (options.warbands) {
-        const { data } = await supabase
-          .from("warbands")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.warbands = data;
-      }
-
-      // Messages
-      if (options.messages) {
-        const { data } = await supabase
-          .from("messages")
-          .select("*")
-          .eq("campaign_id", campaignId)
-          .order("created_at", { ascending: true });
-        exportData.messages = data;
-      }
-
-      // Narrative events
-      if (options.narrative) {
-        const { data } = await supabase
-          .from("narrative_events")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.narrativeEvents = data;
-
-        const { data: playerNarratives } = await supabase
-          .from("player_narrative_entries")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.playerNarratives = playerNarratives;
-      }
-
-      // Schedule
-      if (options.schedule) {
-        const { data } = await supabase
-          .from("schedule_entries")
-          .select("*")
-          .eq("campaign_id", campaignId);
-        exportData.schedule = data;
-      }
-
-      // Map data
-      if (options.map) {
-        const { data: mapData } = await supabase
-          .from("campaign_maps")
-          .select("*")
-          .eq("campaign_id", campaignId)
-          .single();
-        
-        if (mapData) {
-          exportData.map = mapData;
-
-          const { data: markers } = await supabase
-            .from("map_markers")
-            .select("*")
-            .eq("map_id", mapData.id);
-          exportData.mapMarkers = markers;
-
-          const { data: legendItems } = await supabase
-            .from("map_legend_items")
-            .select("*")
-            .eq("map_id", mapData.id);
-          exportData.mapLegend = legendItems;
-        }
-      }
+      const exportData = await fetchCampaignSnapshot(campaignId, options);
 
       // Generate and download file
       const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -206,6 +95,16 @@ export function CampaignExportModal({ open, onClose, campaignId }: CampaignExpor
     }
   };
 
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim() || (campaign?.name ? `${campaign.name} template` : "Campaign template");
+    try {
+      await saveTemplate.mutateAsync({ campaignId, name, description: campaign?.description || undefined });
+      setTemplateName("");
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
   const selectedCount = Object.values(options).filter(Boolean).length;
 
   const exportOptions: { key: keyof ExportOptions; label: string; description: string }[] = [
@@ -213,10 +112,12 @@ export function CampaignExportModal({ open, onClose, campaignId }: CampaignExpor
     { key: "players", label: "Players", description: "Player list, factions, points" },
     { key: "components", label: "Dashboard Widgets", description: "All widget configurations and positions" },
     { key: "rules", label: "Campaign Rules", description: "Custom rules and reference tables" },
+    { key: "units", label: "Unit Library", description: "Campaign units, costs and stats" },
     { key: "warbands", label: "Warbands", description: "Player warbands and rosters" },
     { key: "narrative", label: "Narrative Content", description: "Story events and player narratives" },
     { key: "schedule", label: "Calendar", description: "Events and scheduled rounds" },
     { key: "map", label: "Map Data", description: "Map markers and legend items" },
+    { key: "battles", label: "Battles", description: "Rounds, pairings and results" },
     { key: "messages", label: "Messages", description: "All campaign messages (may be large)" },
   ];
 
@@ -255,6 +156,33 @@ export function CampaignExportModal({ open, onClose, campaignId }: CampaignExpor
           ))}
         </div>
 
+        {/* Save as template */}
+        <div className="border-t border-border pt-4 space-y-2">
+          <Label htmlFor="template-name" className="text-sm font-medium flex items-center gap-2">
+            <LayoutTemplate className="w-4 h-4" />
+            Save as Template
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Keeps widgets, rules, units, map legend and the calendar (without dates) for starting new campaigns.
+          </p>
+          <div className="flex gap-2">
+            <TerminalInput
+              id="template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder={campaign?.name ? `${campaign.name} template` : "Template name"}
+              className="flex-1"
+            />
+            <TerminalButton
+              variant="outline"
+              onClick={handleSaveTemplate}
+              disabled={saveTemplate.isPending}
+            >
+              {saveTemplate.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+            </TerminalButton>
+          </div>
+        </div>
+
         <DialogFooter className="flex-col gap-2 sm:flex-row">
           <div className="text-xs text-muted-foreground mr-auto">
             {selectedCount} section{selectedCount !== 1 ? "s" : ""} selected
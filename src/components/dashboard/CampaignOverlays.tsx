@@ -1,4 +1,4 @@
-import { Users, Swords, Scroll, Map, BookOpen, MessageSquare, Calendar, Settings, Database, UserCog, Mail } from "lucide-react";
+import { Users, Swords, Scroll, Map, BookOpen, MessageSquare, Calendar, Settings, Database, UserCog, Mail, Hourglass } from "lucide-react";
 import { OverlayPanel, OverlayEmpty } from "@/components/ui/OverlayPanel";
 import { PlayersWidget } from "./widgets/PlayersWidget";
 import { PlayersManagerWidget } from "./widgets/PlayersManagerWidget";
@@ -14,6 +14,7 @@ import { PlayerSettingsOverlay } from "@/components/players/PlayerSettingsOverla
 import { PlayerMessagesOverlay } from "@/components/players/PlayerMessagesOverlay";
 import { RulesManager } from "@/components/rules/RulesManager";
 import { BattlesManager } from "@/components/battles/BattlesManager";
+import { TurnManager } from "@/components/turns/TurnManager";
 import type { OverlayType } from "@/hooks/useOverlayState";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { Link } from "react-router-dom";
@@ -104,6 +105,12 @@ const overlayConfigs: Record<Exclude<OverlayType, null>, OverlayConfig> = {
     size: "xl",
     gmOnly: true,
   },
+  turns: {
+    title: "Turns",
+    subtitle: "Phases, orders and deadlines for each round",
+    icon: <Hourglass className="w-4 h-4" />,
+    size: "lg",
+  },
 };
 
 interface CampaignOverlaysProps {
@@ -260,6 +267,13 @@ export function CampaignOverlays({ activeOverlay, onClose, campaignId, isGM }: C
         </OverlayPanel>
       );
 
+    case "turns":
+      return (
+        <OverlayPanel open={true} onClose={onClose} title={config.title} subtitle={config.subtitle} icon={config.icon} size={config.size}>
+          <TurnManager campaignId={campaignId} isGM={isGM} />
+        </OverlayPanel>
+      );
+
     default:
       return null;
   }
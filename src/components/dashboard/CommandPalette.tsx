@@ -29,6 +29,7 @@ import {
   LayoutGrid,
   Download,
   Sparkles,
+  Hourglass,
 } from "lucide-react";
 import { OverlayType } from "@/hooks/useOverlayState";
 
@@ -84,6 +85,7 @@ export function CommandPalette({
     { id: "map", label: "Open Map", icon: Map, category: "navigation", action: () => { onOpenOverlay("map"); onClose(); } },
     { id: "narrative", label: "Open Narrative", icon: BookOpen, category: "navigation", action: () => { onOpenOverlay("narrative"); onClose(); } },
     { id: "messages", label: "Open Messages", icon: MessageSquare, category: "navigation", action: () => { onOpenOverlay("messages"); onClose(); } },
+    { id: "turns", label: "Open Turns", icon: Hourglass, category: "navigation", action: () => { onOpenOverlay("turns"); onClose(); } },
     { id: "calendar", label: "Open Calendar", icon: Calendar, category: "navigation", action: () => { onOpenOverlay("calendar"); onClose(); } },
     { id: "settings", label: "Open Settings", icon: Settings, category: "navigation", action: () => { onOpenOverlay("settings"); onClose(); } },
     
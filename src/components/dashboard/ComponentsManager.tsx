@@ -5,8 +5,6 @@ import {
   Hash, 
   Image, 
   Dices, 
-  Eye, 
-  EyeOff, 
   Trash2, 
   GripVertical,
   Loader2,
@@ -15,7 +13,9 @@ import {
   Unlock,
 } from "lucide-react";
 import { useDashboardComponents, useUpdateComponent, useDeleteComponent, useCreateComponent, type DashboardComponent } from "@/hooks/useDashboardComponents";
-import { Switch } from "@/components/ui/switch";
+import { useCampaignPlayers } from "@/hooks/useCampaignPlayers";
+import { widgetVisibilityOf } from "@/lib/widgetVisibility";
+import { WidgetAudiencePicker, type WidgetAudienceUpdate } from "./WidgetAudiencePicker";
 import { Button } from "@/components/ui/button";
 import { OverlayLoading, OverlayEmpty } from "@/components/ui/OverlayPanel";
 import {
@@ -53,6 +53,7 @@ interface ComponentsManagerProps {
 
 export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
   const { data: components, isLoading, error } = useDashboardComponents(campaignId);
+  const { data: players = [] } = useCampaignPlayers(campaignId);
   const updateComponent = useUpdateComponent();
   const deleteComponent = useDeleteComponent();
   const createComponent = useCreateComponent();
@@ -83,17 +84,8 @@ export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
     );
   }
 
-  const handleVisibilityToggle = (component: DashboardComponent) => {
-    const currentVisibility = (component.config as { visibility?: string })?.visibility ?? "all";
-    const newVisibility = currentVisibility === "gm" ? "all" : "gm";
-    
-    updateComponent.mutate({
-      id: component.id,
-      config: {
-        ...(component.config as object),
-        visibility: newVisibility,
-      },
-    });
+  const handleAudienceChange = (component: DashboardComponent, update: WidgetAudienceUpdate) => {
+    updateComponent.mutate({ id: component.id, ...update });
   };
 
   const handleLockToggle = (component: DashboardComponent) => {
@@ -121,6 +113,9 @@ export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
       position_y: component.position_y + 50,
       width: component.width,
       height: component.height,
+      visibility: widgetVisibilityOf(component),
+      visible_roles: component.visible_roles,
+      visible_player_ids: component.visible_player_ids,
     });
     toast.success(`Duplicated "${component.name}"`);
   };
@@ -134,10 +129,6 @@ export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
     }
   };
 
-  const isGMOnly = (component: DashboardComponent) => {
-    return (component.config as { visibility?: string })?.visibility === "gm";
-  };
-
   const isLocked = (component: DashboardComponent) => {
     return (component.config as { locked?: boolean })?.locked ?? false;
   };
@@ -145,7 +136,7 @@ export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
   return (
     <div className="space-y-2">
       <div className="text-xs text-muted-foreground mb-4">
-        Toggle visibility to control which components players can see. Lock widgets to prevent accidental movement.
+        Choose who can see each component: everyone, the GM team, or chosen roles and players. Hidden components are never sent to anyone outside their audience. Lock widgets to prevent accidental movement.
       </div>
       
       <div className="divide-y divide-border border border-border rounded-md bg-card">
@@ -177,25 +168,13 @@ export function ComponentsManager({ campaignId }: ComponentsManagerProps) {
               </div>
             </div>
 
-            {/* Visibility toggle */}
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-muted-foreground">
-                {isGMOnly(component) ? (
-                  <span className="flex items-center gap-1">
-                    <EyeOff className="w-3 h-3" /> GM Only
-                  </span>
-                ) : (
-                  <span className="flex items-center gap-1">
-                    <Eye className="w-3 h-3" /> All Players
-                  </span>
-                )}
-              </span>
-              <Switch
-                checked={!isGMOnly(component)}
-                onCheckedChange={() => handleVisibilityToggle(component)}
-                disabled={updateComponent.isPending}
-              />
-            </div>
+            {/* Audience */}
+            <WidgetAudiencePicker
+              component={component}
+              players={players}
+              onChange={(update) => handleAudienceChange(component, update)}
+              disabled={updateComponent.isPending}
+            />
 
             {/* Lock button */}
             <Button
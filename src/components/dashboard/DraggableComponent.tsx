@@ -20,6 +20,7 @@ import { TextWidget } from "./widgets/TextWidget";
 import { StickerWidget } from "./widgets/StickerWidget";
 import { CardDeckWidget } from "./widgets/CardDeckWidget";
 import { BattleTrackerWidget } from "./widgets/BattleTrackerWidget";
+import { StandingsWidget } from "./widgets/StandingsWidget";
 import { WidgetDragPreview } from "./WidgetDragPreview";
 import { getWidgetIcon } from "./widgetIcons";
 
@@ -265,6 +266,8 @@ function DraggableComponentInner({
         return <StickerWidget component={component} isGM={isGM} />;
       case "battle_tracker":
         return <BattleTrackerWidget campaignId={campaignId} isGM={isGM} />;
+      case "standings":
+        return <StandingsWidget campaignId={campaignId} isGM={isGM} />;
       case "card_deck":
         return <CardDeckWidget component={component} isGM={isGM} campaignId={campaignId} />;
       default:
@@ -16,6 +16,7 @@ import { RollRecorderWidget } from "./widgets/RollRecorderWidget";
 import { AnnouncementsWidget } from "./widgets/AnnouncementsWidget";
 import { TextWidget } from "./widgets/TextWidget";
 import { StickerWidget } from "./widgets/StickerWidget";
+import { StandingsWidget } from "./widgets/StandingsWidget";
 
 interface MobileWidgetSheetProps {
   component: DashboardComponent | null;
@@ -64,6 +65,8 @@ function renderWidgetContent(component: DashboardComponent, campaignId: string,
       return <TextWidget component={component} isGM={isGM} />;
     case "sticker":
       return <StickerWidget component={component} isGM={isGM} />;
+    case "standings":
+      return <StandingsWidget campaignId={campaignId} isGM={isGM} />;
     default:
       return (
         <div className="text-muted-foreground text-sm p-4">
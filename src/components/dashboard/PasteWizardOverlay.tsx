@@ -226,6 +226,7 @@ export function PasteWizardOverlay({
         title: name.trim(),
         category,
         content: ruleContent,
+        source: isCustom ? 'manual' : 'smart_paste',
       });
 
       // Also add to dashboard with linked rule_id
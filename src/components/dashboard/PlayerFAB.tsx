@@ -9,7 +9,8 @@ import {
   Calendar,
   Map,
   BookOpen,
-  HelpCircle
+  HelpCircle,
+  Hourglass
 } from "lucide-react";
 import { OverlayType } from "@/hooks/useOverlayState";
 import { supabase } from "@/integrations/supabase/client";
@@ -33,6 +34,7 @@ const fabItems: FABItem[] = [
   { id: "player-messages", label: "Messages", icon: MessageSquare },
   { id: "rules", label: "Rules", icon: Scroll },
   { id: "calendar", label: "Calendar", icon: Calendar },
+  { id: "turns", label: "Turns", icon: Hourglass },
   { id: "map", label: "Map", icon: Map },
   { id: "narrative", label: "Narrative", icon: BookOpen },
 ];
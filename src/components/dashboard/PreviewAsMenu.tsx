@@ -0,0 +1,80 @@
+import { Check, Eye } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ROLE_LABELS, type CampaignRole } from "@/hooks/usePlayerRole";
+import type { CampaignPlayer } from "@/hooks/useCampaignPlayers";
+import type { WidgetViewer } from "@/lib/widgetVisibility";
+
+/** Who the GM is previewing the dashboard as */
+export interface DashboardPreview {
+  viewer: WidgetViewer;
+  name: string;
+}
+
+interface PreviewAsMenuProps {
+  players: CampaignPlayer[];
+  preview: DashboardPreview | null;
+  onChange: (preview: DashboardPreview | null) => void;
+}
+
+const ANY_PLAYER: DashboardPreview = { viewer: { role: "player", playerId: null }, name: "Player" };
+
+/** The GM's role badge, which doubles as the "preview as" switcher */
+export function PreviewAsMenu({ players, preview, onChange }: PreviewAsMenuProps) {
+  // The gm sees everything, so previewing as them shows nothing new
+  const previewable = players.filter((p) => p.role !== "gm");
+  const activeId = preview ? preview.viewer.playerId ?? "any" : null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`px-4 py-1.5 rounded font-mono text-xs font-bold uppercase tracking-wider transition-all cursor-pointer hover:opacity-90 max-w-[16rem] truncate ${
+            preview
+              ? "bg-primary text-primary-foreground ring-2 ring-secondary ring-offset-2 ring-offset-background"
+              : "bg-secondary text-secondary-foreground"
+          }`}
+          title={preview ? "Previewing the dashboard. Click to switch back to GM view." : "Click to preview as a player"}
+        >
+          {preview ? `${preview.name} (Preview)` : "Games Master"}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuItem onClick={() => onChange(null)}>
+          <Check className={`w-3 h-3 mr-2 ${activeId === null ? "opacity-100" : "opacity-0"}`} />
+          Games Master view
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground flex items-center gap-1">
+          <Eye className="w-3 h-3" /> Preview as
+        </DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => onChange(ANY_PLAYER)}>
+          <Check className={`w-3 h-3 mr-2 ${activeId === "any" ? "opacity-100" : "opacity-0"}`} />
+          Any player
+        </DropdownMenuItem>
+        {previewable.map((player) => {
+          const name = player.profile?.display_name || "Unknown player";
+          const role = player.role as CampaignRole;
+          return (
+            <DropdownMenuItem
+              key={player.id}
+              onClick={() => onChange({ viewer: { role, playerId: player.id }, name })}
+            >
+              <Check className={`w-3 h-3 mr-2 ${activeId === player.id ? "opacity-100" : "opacity-0"}`} />
+              <span className="truncate flex-1">{name}</span>
+              {role !== "player" && (
+                <span className="text-[10px] text-muted-foreground ml-2">{ROLE_LABELS[role] ?? role}</span>
+              )}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
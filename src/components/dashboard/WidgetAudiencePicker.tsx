@@ -0,0 +1,135 @@
+import { Eye, EyeOff, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ROLE_LABELS } from "@/hooks/usePlayerRole";
+import type { CampaignPlayer } from "@/hooks/useCampaignPlayers";
+import type { DashboardComponent } from "@/hooks/useDashboardComponents";
+import {
+  AUDIENCE_ROLES,
+  describeAudience,
+  widgetVisibilityOf,
+  type WidgetVisibility,
+} from "@/lib/widgetVisibility";
+
+export interface WidgetAudienceUpdate {
+  visibility: WidgetVisibility;
+  visible_roles: string[];
+  visible_player_ids: string[];
+}
+
+interface WidgetAudiencePickerProps {
+  component: DashboardComponent;
+  players: CampaignPlayer[];
+  onChange: (update: WidgetAudienceUpdate) => void;
+  disabled?: boolean;
+}
+
+const VISIBILITY_OPTIONS: { value: WidgetVisibility; label: string; description: string }[] = [
+  { value: "all", label: "All players", description: "Everyone in the campaign" },
+  { value: "gm", label: "GM only", description: "The owner, GM, Co-GMs and moderators" },
+  { value: "custom", label: "Custom", description: "The owner and GM, plus the roles and players ticked below" },
+];
+
+function playerNameMap(players: CampaignPlayer[]): Record<string, string> {
+  return Object.fromEntries(players.map((p) => [p.id, p.profile?.display_name || "Unknown player"]));
+}
+
+/** Choose who can see a widget. The server only sends widgets to their audience. */
+export function WidgetAudiencePicker({ component, players, onChange, disabled }: WidgetAudiencePickerProps) {
+  const visibility = widgetVisibilityOf(component);
+  const roles = component.visible_roles ?? [];
+  const playerIds = component.visible_player_ids ?? [];
+  // The gm sees everything already
+  const pickable = players.filter((p) => p.role !== "gm");
+
+  const update = (changes: Partial<WidgetAudienceUpdate>) => {
+    onChange({ visibility, visible_roles: roles, visible_player_ids: playerIds, ...changes });
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const Icon = visibility === "all" ? Eye : visibility === "gm" ? EyeOff : Users;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 text-xs text-muted-foreground hover:text-foreground max-w-[10rem]"
+          disabled={disabled}
+          title="Who can see this widget"
+        >
+          <Icon className="w-3 h-3 mr-1 shrink-0" />
+          <span className="truncate">{describeAudience(component, ROLE_LABELS, playerNameMap(players))}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="space-y-3">
+          <h4 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Visible To</h4>
+          <RadioGroup
+            value={visibility}
+            onValueChange={(value) => update({ visibility: value as WidgetVisibility })}
+            className="gap-2"
+          >
+            {VISIBILITY_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-start gap-2">
+                <RadioGroupItem value={option.value} id={`visibility-${component.id}-${option.value}`} className="mt-0.5" />
+                <Label htmlFor={`visibility-${component.id}-${option.value}`} className="text-xs cursor-pointer">
+                  {option.label}
+                  <span className="block text-[10px] text-muted-foreground font-normal">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {visibility === "custom" && (
+            <div className="space-y-3 pt-2 border-t border-border">
+              <div className="space-y-2">
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Roles</p>
+                {AUDIENCE_ROLES.map((role) => (
+                  <div key={role} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`audience-${component.id}-${role}`}
+                      checked={roles.includes(role)}
+                      onCheckedChange={() => update({ visible_roles: toggle(roles, role) })}
+                    />
+                    <Label htmlFor={`audience-${component.id}-${role}`} className="text-xs cursor-pointer">
+                      {role === "player" ? "Every player" : ROLE_LABELS[role]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Players</p>
+                {pickable.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No one else has joined yet.</p>
+                ) : (
+                  <div className="space-y-2 max-h-40 overflow-y-auto pr-1">
+                    {pickable.map((player) => (
+                      <div key={player.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`audience-${component.id}-${player.id}`}
+                          checked={playerIds.includes(player.id)}
+                          onCheckedChange={() => update({ visible_player_ids: toggle(playerIds, player.id) })}
+                        />
+                        <Label htmlFor={`audience-${component.id}-${player.id}`} className="text-xs cursor-pointer truncate">
+                          {player.profile?.display_name || "Unknown player"}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
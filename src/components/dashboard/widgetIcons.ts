@@ -21,6 +21,7 @@ export const WIDGET_ICONS: Record<string, string> = {
   text: "📝",
   sticker: "⭐",
   battle_tracker: "⚔️",
+  standings: "🏆",
   card_deck: "🃏",
 };
 
@@ -36,7 +36,7 @@ import {
  * 3. WARBAND - When a warband is created or updated
  * 4. SCHEDULE - When a schedule entry is added
  * 5. NARRATIVE - When a narrative event is posted
- * 6. BATTLE - When a battle report is approved
+ * 6. BATTLE - When a battle report is approved, or a territory changes hands
  * 
  * GMs can toggle which event types appear in the feed via the settings panel.
  */
@@ -307,6 +307,34 @@ export function ActivityFeedWidget({
         }
       }
 
+      // Territories captured in approved battles
+      if (localConfig.enabledEvents.battle) {
+        const { data: transfers } = await supabase
+          .from("battle_audit_trail")
+          .select("id, changes, reason, created_at")
+          .eq("campaign_id", campaignId)
+          .eq("entity_type", "territory")
+          .eq("action", "transfer")
+          .order("created_at", { ascending: false })
+          .limit(10);
+
+        if (transfers) {
+          transfers.forEach((t) => {
+            const changes = (t.changes || {}) as { territory_name?: string; from_name?: string | null; to_name?: string | null };
+            const territory = changes.territory_name || "A territory";
+            events.push({
+              id: `territory-${t.id}`,
+              type: "battle",
+              title: changes.to_name ? "Territory Captured" : "Territory Lost",
+              description: changes.to_name
+                ? `${changes.to_name} took ${territory}${changes.from_name ? ` from ${changes.from_name}` : ""}`
+                : `${territory} is unclaimed${t.reason ? ` - ${t.reason}` : ""}`,
+              timestamp: t.created_at,
+            });
+          });
+        }
+      }
+
       // Sort all events by timestamp descending
       events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
@@ -2,6 +2,8 @@ import { useState } from "react";
 import { X, FileText, Trophy, Minus, Plus, Trash2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useBattleMatches, useBattleReports, useSubmitBattleReport, type BattleReport } from "@/hooks/useBattleTracker";
+import { useCurrencies } from "@/hooks/useResourceLedger";
+import { useRosterUnitNames } from "@/hooks/useWarbandProgression";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { TerminalInput } from "@/components/ui/TerminalInput";
 import { Textarea } from "@/components/ui/textarea";
@@ -22,6 +24,8 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
   const { data: matches = [] } = useBattleMatches(roundId);
   const match = matches.find(m => m.id === matchId);
   const submitReport = useSubmitBattleReport();
+  const { data: currencies = [] } = useCurrencies(campaignId);
+  const { data: unitNames = [] } = useRosterUnitNames(campaignId, userId);
   
   const playerParticipant = match?.participants.find(p => p.playerId === userId);
   const playerSide = playerParticipant?.side || 'a';
@@ -30,9 +34,10 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
   const [pointsEarned, setPointsEarned] = useState(0);
   const [narrative, setNarrative] = useState("");
   const [injuries, setInjuries] = useState<{ unitName: string; injury: string; notes?: string }[]>([]);
+  const [experience, setExperience] = useState<BattleReport['experience']>([]);
   const [notableEvents, setNotableEvents] = useState<{ tag: string; description: string }[]>([]);
   const [lootFound, setLootFound] = useState<{ item: string; quantity?: number; notes?: string }[]>([]);
-  const [resources, setResources] = useState<{ gained?: number; spent?: number }>({});
+  const [resources, setResources] = useState<BattleReport['resources']>({});
   
   const handleSubmit = () => {
     submitReport.mutate({
@@ -45,6 +50,7 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
         points_earned: pointsEarned,
         narrative: narrative || null,
         injuries,
+        experience,
         notable_events: notableEvents,
         loot_found: lootFound,
         resources,
@@ -63,6 +69,11 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
     setInjuries(updated);
   };
   
+  const addExperience = () => setExperience([...experience, { unitName: "", xp: 1 }]);
+  const removeExperience = (i: number) => setExperience(experience.filter((_, idx) => idx !== i));
+  const updateExperience = (i: number, update: Partial<BattleReport['experience'][number]>) =>
+    setExperience(experience.map((line, idx) => idx === i ? { ...line, ...update } : line));
+  
   const addEvent = () => setNotableEvents([...notableEvents, { tag: "", description: "" }]);
   const removeEvent = (i: number) => setNotableEvents(notableEvents.filter((_, idx) => idx !== i));
   const updateEvent = (i: number, field: string, value: string) => {
@@ -182,6 +193,7 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
                       placeholder="Unit name"
                       value={injury.unitName}
                       onChange={(e) => updateInjury(i, 'unitName', e.target.value)}
+                      list="report-unit-names"
                       className="flex-1"
                     />
                     <TerminalInput
@@ -197,6 +209,40 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
                 ))}
               </div>
               
+              {/* Experience */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs uppercase tracking-wider">Experience</Label>
+                  <button onClick={addExperience} className="text-xs text-primary hover:underline flex items-center gap-1">
+                    <Plus className="w-3 h-3" /> Add
+                  </button>
+                </div>
+                {experience.map((line, i) => (
+                  <div key={i} className="flex gap-2 items-start">
+                    <TerminalInput
+                      placeholder="Unit name"
+                      value={line.unitName}
+                      onChange={(e) => updateExperience(i, { unitName: e.target.value })}
+                      list="report-unit-names"
+                      className="flex-1"
+                    />
+                    <TerminalInput
+                      type="number"
+                      placeholder="XP"
+                      value={line.xp || ''}
+                      onChange={(e) => updateExperience(i, { xp: parseInt(e.target.value) || 0 })}
+                      className="w-16"
+                    />
+                    <button onClick={() => removeExperience(i)} className="p-1 text-destructive hover:bg-destructive/10 rounded">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                <datalist id="report-unit-names">
+                  {unitNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              
               {/* Notable Events */}
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -259,7 +305,22 @@ export function BattleReportOverlay({ matchId, campaignId, roundId, userId, onCl
               {/* Resources */}
               <div className="space-y-2">
                 <Label className="text-xs uppercase tracking-wider">Resources</Label>
-                <div className="flex gap-4">
+                <div className="flex flex-wrap gap-4">
+                  {currencies.length > 1 && (
+                    <Select
+                      value={resources.currencyId || currencies[0].id}
+                      onValueChange={(v) => setResources({ ...resources, currencyId: v })}
+                    >
+                      <SelectTrigger className="w-28 h-9 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencies.map(c => (
+                          <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <div className="flex items-center gap-2">
                     <span className="text-xs text-muted-foreground">Gained:</span>
                     <TerminalInput
@@ -10,6 +10,8 @@ import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import { groupParticipantsBySide } from "@/lib/pairingAlgorithms";
+import { resultsFromPlacements } from "@/lib/standings";
 import { BattleReportOverlay } from "./BattleReportOverlay";
 import { ViewReportOverlay } from "./ViewReportOverlay";
 
@@ -79,13 +81,14 @@ export function BattleTrackerWidget({ campaignId, isGM = false }: BattleTrackerW
     const newResults = { ...match.provisional_results };
     newResults[playerId] = { outcome, points: 0 };
     
-    // Auto-set opponent's outcome for 1v1
-    if (match.participants.length === 2) {
-      const opponent = match.participants.find(p => p.playerId !== playerId);
-      if (opponent) {
-        const oppositeOutcome = outcome === 'win' ? 'loss' : outcome === 'loss' ? 'win' : 'draw';
-        newResults[opponent.playerId] = { outcome: oppositeOutcome, points: 0 };
-      }
+    // Auto-set teammates to the same outcome and the other side to the opposite (1v1 and 2v2)
+    const side = match.participants.find(p => p.playerId === playerId)?.side;
+    if (groupParticipantsBySide(match.participants).length === 2) {
+      const oppositeOutcome = outcome === 'win' ? 'loss' : outcome === 'loss' ? 'win' : 'draw';
+      match.participants.forEach(p => {
+        if (p.playerId === playerId) return;
+        newResults[p.playerId] = { outcome: p.side === side ? outcome : oppositeOutcome, points: 0 };
+      });
     }
     
     updateMatch.mutate({
@@ -94,6 +97,19 @@ export function BattleTrackerWidget({ campaignId, isGM = false }: BattleTrackerW
     });
   };
   
+  const handlePlacementChange = (match: BattleMatch, playerId: string, placement: number) => {
+    const placements: Record<string, number> = {};
+    Object.entries(match.provisional_results).forEach(([id, result]) => {
+      if (result.placement) placements[id] = result.placement;
+    });
+    placements[playerId] = placement;
+    
+    updateMatch.mutate({
+      matchId: match.id,
+      updates: { provisional_results: resultsFromPlacements(placements) },
+    });
+  };
+  
   const toggleHistoryRound = (roundId: string) => {
     const newExpanded = new Set(expandedHistory);
     if (newExpanded.has(roundId)) {
@@ -192,6 +208,7 @@ export function BattleTrackerWidget({ campaignId, isGM = false }: BattleTrackerW
                     canEdit={canEdit(match)}
                     onTogglePlayed={() => handleTogglePlayed(match)}
                     onOutcomeChange={(playerId, outcome) => handleOutcomeChange(match, playerId, outcome)}
+                    onPlacementChange={(playerId, placement) => handlePlacementChange(match, playerId, placement)}
                     onReportBattle={() => setReportMatchId(match.id)}
                     onViewReport={() => setViewReportMatchId(match.id)}
                   />
@@ -238,6 +255,7 @@ export function BattleTrackerWidget({ campaignId, isGM = false }: BattleTrackerW
       {viewReportMatchId && (
         <ViewReportOverlay
           matchId={viewReportMatchId}
+          campaignId={campaignId}
           onClose={() => setViewReportMatchId(null)}
         />
       )}
@@ -254,17 +272,22 @@ interface MatchCardProps {
   canEdit: boolean;
   onTogglePlayed: () => void;
   onOutcomeChange: (playerId: string, outcome: 'win' | 'loss' | 'draw') => void;
+  onPlacementChange: (playerId: string, placement: number) => void;
   onReportBattle: () => void;
   onViewReport: () => void;
 }
 
-function MatchCard({ match, round, isGM, userId, canEdit, onTogglePlayed, onOutcomeChange, onReportBattle, onViewReport }: MatchCardProps) {
+function MatchCard({ match, round, isGM, userId, canEdit, onTogglePlayed, onOutcomeChange, onPlacementChange, onReportBattle, onViewReport }: MatchCardProps) {
   const status = statusConfig[match.status];
   const StatusIcon = status.icon;
   
   const isParticipant = match.participants.some(p => p.playerId === userId);
   const playerSide = match.participants.find(p => p.playerId === userId)?.side;
   
+  const sides = groupParticipantsBySide(match.participants);
+  // Free-for-all pods record finishing positions instead of win/loss
+  const byPlacement = sides.length > 2;
+  
   const canReport = (isParticipant || isGM) && match.status === 'played' && round?.status === 'open';
   const hasReport = match.status === 'submitted' || match.status === 'approved';
   
@@ -275,19 +298,24 @@ function MatchCard({ match, round, isGM, userId, canEdit, onTogglePlayed, onOutc
       match.is_bye && "opacity-60"
     )}>
       {/* Participants */}
-      <div className="flex items-center gap-2 text-sm">
-        {match.participants.map((p, i) => (
-          <div key={p.playerId} className="flex items-center gap-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {sides.map((side, i) => (
+          <div key={side[0].side} className="flex items-center gap-1">
             {i > 0 && <span className="text-muted-foreground text-xs">vs</span>}
-            <span className={cn(
-              "font-medium",
-              p.playerId === userId && "text-primary"
-            )}>
-              {p.playerName}
-            </span>
-            {p.warbandName && (
-              <span className="text-[10px] text-muted-foreground">({p.warbandName})</span>
-            )}
+            {side.map((p, j) => (
+              <span key={p.playerId} className="flex items-center gap-1">
+                {j > 0 && <span className="text-muted-foreground text-xs">&</span>}
+                <span className={cn(
+                  "font-medium",
+                  p.playerId === userId && "text-primary"
+                )}>
+                  {p.playerName}
+                </span>
+                {p.warbandName && (
+                  <span className="text-[10px] text-muted-foreground">({p.warbandName})</span>
+                )}
+              </span>
+            ))}
           </div>
         ))}
         {match.is_bye && <Badge variant="outline" className="text-[10px]">BYE</Badge>}
@@ -302,19 +330,19 @@ function MatchCard({ match, round, isGM, userId, canEdit, onTogglePlayed, onOutc
           </Badge>
           
           {/* Outcome display */}
-          {match.status !== 'unplayed' && match.participants.length === 2 && (
+          {match.status !== 'unplayed' && !match.is_bye && (
             <div className="flex items-center gap-1 text-[10px]">
-              {match.participants.map((p, i) => {
-                const result = match.final_results[p.playerId] || match.provisional_results[p.playerId];
+              {sides.map(side => {
+                const result = match.final_results[side[0].playerId] || match.provisional_results[side[0].playerId];
                 if (!result) return null;
                 return (
-                  <span key={p.playerId} className={cn(
+                  <span key={side[0].side} className={cn(
                     "px-1 rounded",
                     result.outcome === 'win' && "bg-green-500/20 text-green-400",
                     result.outcome === 'loss' && "bg-red-500/20 text-red-400",
                     result.outcome === 'draw' && "bg-yellow-500/20 text-yellow-400"
                   )}>
-                    {i === 0 ? 'A' : 'B'}: {result.outcome.charAt(0).toUpperCase()}
+                    {side[0].side.toUpperCase()}: {result.placement ? `#${result.placement}` : result.outcome.charAt(0).toUpperCase()}
                   </span>
                 );
               })}
@@ -337,7 +365,23 @@ function MatchCard({ match, round, isGM, userId, canEdit, onTogglePlayed, onOutc
           
           {canEdit && match.status === 'played' && !match.is_bye && (
             <div className="flex items-center gap-1">
-              {match.participants.filter(p => isGM || p.playerId === userId).map(p => (
+              {byPlacement && match.participants.filter(p => isGM || p.playerId === userId).map(p => (
+                <Select
+                  key={p.playerId}
+                  value={match.provisional_results[p.playerId]?.placement ? String(match.provisional_results[p.playerId].placement) : ''}
+                  onValueChange={(v) => onPlacementChange(p.playerId, Number(v))}
+                >
+                  <SelectTrigger className="h-6 text-[10px] w-[70px]" title={p.playerName}>
+                    <SelectValue placeholder="Place" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {match.participants.map((_, i) => (
+                      <SelectItem key={i} value={String(i + 1)}>#{i + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+              {!byPlacement && match.participants.filter(p => isGM || p.playerId === userId).map(p => (
                 <Select
                   key={p.playerId}
                   value={match.provisional_results[p.playerId]?.outcome || ''}
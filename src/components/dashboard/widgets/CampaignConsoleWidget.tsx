@@ -2,6 +2,7 @@ import { memo, useMemo, useState, useEffect } from "react";
 import { useCampaign, DisplaySettings } from "@/hooks/useCampaigns";
 import { useCampaignPlayers } from "@/hooks/useCampaignPlayers";
 import { useSubscription } from "@/hooks/useSubscription";
+import { useCampaignPhases, useTurnState } from "@/hooks/useCampaignTurn";
 import { format } from "date-fns";
 import { Users, Swords, CalendarDays, Target, Hash } from "lucide-react";
 import donatorBadge from "@/assets/donator-badge.png";
@@ -16,6 +17,8 @@ export const CampaignConsoleWidget = memo(function CampaignConsoleWidget({
 }: CampaignConsoleWidgetProps) {
   const { data: campaign } = useCampaign(campaignId);
   const { data: players = [] } = useCampaignPlayers(campaignId);
+  const { data: phases = [] } = useCampaignPhases(campaignId);
+  const { data: turnState } = useTurnState(campaignId);
   const { hasDonated } = useSubscription();
 
   const displaySettings = useMemo((): DisplaySettings => {
@@ -66,6 +69,7 @@ export const CampaignConsoleWidget = memo(function CampaignConsoleWidget({
   const startDate = campaign.start_date;
   const endDate = campaign.end_date;
   const joinCode = campaign.join_code;
+  const currentPhase = phases.find(p => p.id === turnState?.current_phase_id);
 
   const formatDate = (date: string) => format(new Date(date), "dd/MM/yy");
 
@@ -187,7 +191,7 @@ export const CampaignConsoleWidget = memo(function CampaignConsoleWidget({
           {displaySettings.showRound && (
             <IconField
               icon={<CalendarDays className="w-4 h-4" />}
-              value={`${currentRound}/${totalRounds}`}
+              value={`${currentRound}/${totalRounds}${currentPhase ? ` · ${currentPhase.name}` : ""}`}
               valueColor="hsl(142, 76%, 60%)"
               iconColor="hsl(142, 76%, 60%)"
             />
@@ -1,8 +1,9 @@
 import { useState, useEffect } from "react";
 import { Dices, History, Trash2 } from "lucide-react";
 import { DashboardComponent, useUpdateComponent } from "@/hooks/useDashboardComponents";
-import { useRecordRoll } from "@/hooks/useRollHistory";
+import { useServerRoll } from "@/hooks/useRollHistory";
 import { supabase } from "@/integrations/supabase/client";
+import { parseDiceExpression, keptDiceValues, DiceNotationError } from "@/lib/diceNotation";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Popover,
@@ -34,6 +35,8 @@ interface DiceRollerWidgetProps {
 interface DiceConfig {
   sides?: number;
   count?: number;
+  /** Dice notation (e.g. "4d6dl1"); overrides count/sides when set */
+  expression?: string;
   lastRolls?: number[];
   lastTotal?: number;
 }
@@ -61,7 +64,7 @@ const DICE_TYPES = [
 
 export function DiceRollerWidget({ component, campaignId, isGM }: DiceRollerWidgetProps) {
   const updateComponent = useUpdateComponent();
-  const { recordRoll } = useRecordRoll(campaignId);
+  const { rollOnServer } = useServerRoll(campaignId);
   const [isRolling, setIsRolling] = useState(false);
   const [rollHistory, setRollHistory] = useState<DiceRoll[]>([]);
   const [showHistory, setShowHistory] = useState(false);
@@ -69,6 +72,8 @@ export function DiceRollerWidget({ component, campaignId, isGM }: DiceRollerWidg
   const config = (component.config as DiceConfig) || {};
   const sides = config.sides ?? 6;
   const count = config.count ?? 1;
+  const [expressionDraft, setExpressionDraft] = useState(config.expression ?? "");
+  const [expressionError, setExpressionError] = useState<string | null>(null);
 
   // Fetch roll history
   useEffect(() => {
@@ -129,7 +134,7 @@ export function DiceRollerWidget({ component, campaignId, isGM }: DiceRollerWidg
     const newCount = parseInt(value);
     updateComponent.mutate({
       id: component.id,
-      config: { ...config, count: newCount },
+      config: { ...config, count: newCount, expression: undefined },
     });
   };
 
@@ -137,31 +142,55 @@ export function DiceRollerWidget({ component, campaignId, isGM }: DiceRollerWidg
     const newSides = parseInt(value);
     updateComponent.mutate({
       id: component.id,
-      config: { ...config, sides: newSides },
+      config: { ...config, sides: newSides, expression: undefined },
+    });
+  };
+
+  const handleExpressionCommit = () => {
+    const expression = expressionDraft.trim() || undefined;
+    setExpressionError(null);
+    if (expression === config.expression) return;
+    updateComponent.mutate({
+      id: component.id,
+      config: { ...config, expression },
     });
   };
 
   const rollDice = async () => {
+    const notation = expressionDraft.trim() || `${count}d${sides}`;
+    // Check the notation locally first so typos don't cost a round trip
+    try {
+      parseDiceExpression(notation);
+    } catch (error) {
+      if (error instanceof DiceNotationError) {
+        setExpressionError(error.message);
+        return;
+      }
+      throw error;
+    }
+
+    setExpressionError(null);
     setIsRolling(true);
 
-    setTimeout(async () => {
-      const rolls: number[] = [];
-      for (let i = 0; i < count; i++) {
-        rolls.push(Math.floor(Math.random() * sides) + 1);
-      }
-      const total = rolls.reduce((a, b) => a + b, 0);
+    try {
+      // The server rolls and records the verified history row
+      const breakdown = await rollOnServer(notation);
 
       // Update widget state
       updateComponent.mutate({
         id: component.id,
-        config: { ...config, lastRolls: rolls, lastTotal: total },
+        config: {
+          ...config,
+          expression: expressionDraft.trim() || undefined,
+          lastRolls: keptDiceValues(breakdown),
+          lastTotal: breakdown.total,
+        },
       });
-
-      // Record roll to history
-      await recordRoll(`${count}d${sides}`, rolls, total);
-
+    } catch (error) {
+      setExpressionError(error instanceof Error ? error.message : "Roll failed");
+    } finally {
       setIsRolling(false);
-    }, 500);
+    }
   };
 
   const handleClearAll = async () => {
@@ -225,6 +254,22 @@ export function DiceRollerWidget({ component, campaignId, isGM }: DiceRollerWidg
           </Select>
         </div>
 
+        {/* Dice notation, e.g. 4d6dl1 or 10d6>=3 then >=4 */}
+        <input
+          value={expressionDraft}
+          onChange={(e) => setExpressionDraft(e.target.value)}
+          onBlur={handleExpressionCommit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") rollDice();
+          }}
+          placeholder={`${count}d${sides}`}
+          className="w-32 h-7 px-2 text-xs font-mono text-center bg-background border border-primary/50 rounded-md focus:outline-none focus:border-primary"
+          title="Dice notation: 3d6+2, 2d20kh1, 4d6dl1, d6!, d6r1, 10d6>=4, 10d6>=3 then >=4"
+        />
+        {expressionError && (
+          <p className="text-[9px] font-mono text-destructive text-center max-w-full px-1">{expressionError}</p>
+        )}
+
         <button
           onClick={rollDice}
           disabled={isRolling}
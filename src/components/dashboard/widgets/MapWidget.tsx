@@ -1,18 +1,49 @@
-import { Map as MapIcon, ZoomIn, ZoomOut } from "lucide-react";
+import { Map as MapIcon, ZoomIn, ZoomOut, CornerDownRight, ArrowLeft } from "lucide-react";
 import { useState } from "react";
-import { DashboardComponent } from "@/hooks/useDashboardComponents";
-import { useCampaignMap, useMapRealtime } from "@/hooks/useMapData";
+import { DashboardComponent, useUpdateComponent } from "@/hooks/useDashboardComponents";
+import { useCampaignMap, useCampaignMaps, useMapRealtime, useTerritoryOwners } from "@/hooks/useMapData";
 import { MarkerIcon } from "@/components/map/MarkerIcon";
+import { TerritoryOverlay } from "@/components/map/TerritoryOverlay";
+import { FogOverlay } from "@/components/map/FogOverlay";
+import { GridOverlay } from "@/components/map/GridOverlay";
+import { TerritoryControlSummary } from "@/components/map/TerritoryEditor";
+import { MapPicker, MapBreadcrumbs } from "@/components/map/MapPicker";
 
 interface MapWidgetProps {
   component: DashboardComponent;
   isGM: boolean;
 }
 
+interface MapWidgetConfig {
+  // Unset shows the campaign's first map
+  map_id?: string;
+}
+
 export function MapWidget({ component, isGM }: MapWidgetProps) {
   const campaignId = component.campaign_id;
-  const { data, isLoading } = useCampaignMap(campaignId);
+  const updateComponent = useUpdateComponent();
+  const config = (component.config as MapWidgetConfig) || {};
+  const { data: maps = [] } = useCampaignMaps(campaignId);
+  // Drill-down from linked markers is local to this viewer
+  const [openedMapId, setOpenedMapId] = useState<string | null>(null);
+
+  const exists = (mapId: string | null | undefined) => !!mapId && maps.some(m => m.id === mapId);
+  const configuredMapId = config.map_id && (maps.length === 0 || exists(config.map_id)) ? config.map_id : null;
+  const viewedMapId = exists(openedMapId) ? openedMapId : configuredMapId;
+
+  const { data, isLoading } = useCampaignMap(campaignId, viewedMapId);
+  const { owners, ownerColors } = useTerritoryOwners(campaignId);
   const [zoom, setZoom] = useState(1);
+  // Image height / width, for the grid
+  const [aspect, setAspect] = useState(1);
+
+  const handleSelectMap = (mapId: string | null) => {
+    setOpenedMapId(null);
+    updateComponent.mutate({
+      id: component.id,
+      config: { ...config, map_id: mapId ?? undefined },
+    });
+  };
 
   // Enable real-time updates
   useMapRealtime(campaignId, data?.map?.id);
@@ -27,7 +58,8 @@ export function MapWidget({ component, isGM }: MapWidgetProps) {
     );
   }
 
-  const { map, legendItems, markers, fogRegions } = data || { map: null, legendItems: [], markers: [], fogRegions: [] };
+  const { map, legendItems, markers, fogRegions, territories } =
+    data || { map: null, legendItems: [], markers: [], fogRegions: [], territories: [], territoryLinks: [], movementPaths: [] };
 
   // No map - show placeholder
   if (!map || !map.image_url) {
@@ -44,15 +76,36 @@ export function MapWidget({ component, isGM }: MapWidgetProps) {
   // Create legend lookup
   const legendLookup = new Map(legendItems.map(l => [l.id, l]));
   
-  // Filter markers and fog for player view
+  // Filter markers for player view
   const visibleMarkers = isGM ? markers : markers.filter(m => m.visibility === 'all');
-  const visibleFog = fogRegions;
 
   return (
     <div className="flex flex-col h-full">
-      {/* Title */}
-      <div className="pb-2 border-b border-border mb-2">
-        <p className="text-xs font-mono text-primary">{map.title}</p>
+      {/* Title, or the map choice for GMs */}
+      <div className="pb-2 border-b border-border mb-2 space-y-1">
+        <div className="flex items-center gap-2">
+          {openedMapId && (
+            <button
+              onClick={() => setOpenedMapId(null)}
+              className="p-1 hover:bg-accent rounded"
+              title="Back to widget map"
+            >
+              <ArrowLeft className="w-3 h-3" />
+            </button>
+          )}
+          {isGM && maps.length > 1 && !openedMapId ? (
+            <MapPicker
+              maps={maps}
+              value={config.map_id ?? null}
+              onChange={handleSelectMap}
+              noneLabel="First map"
+              className="flex-1"
+            />
+          ) : (
+            <p className="text-xs font-mono text-primary truncate">{map.title}</p>
+          )}
+        </div>
+        {openedMapId && <MapBreadcrumbs maps={maps} mapId={map.id} onNavigate={setOpenedMapId} />}
       </div>
 
       {/* Map Image with Markers */}
@@ -68,33 +121,44 @@ export function MapWidget({ component, isGM }: MapWidgetProps) {
               alt={map.title}
               className="transition-transform origin-top-left"
               style={{ transform: `scale(${zoom})`, minWidth: "100%", minHeight: "100%" }}
+              onLoad={(e) => {
+                const img = e.currentTarget;
+                if (img.naturalWidth > 0) setAspect(img.naturalHeight / img.naturalWidth);
+              }}
               onError={(e) => {
                 (e.target as HTMLImageElement).src = "/placeholder.svg";
               }}
             />
             
-            {/* Fog of War Regions */}
-            {visibleFog.map((region) => {
-              // Players see unrevealed regions as opaque fog
-              const showAsFog = !isGM && !region.revealed;
-              
-              if (!isGM && region.revealed) return null;
-              
-              return (
-                <div
-                  key={region.id}
-                  className={`absolute ${showAsFog ? 'bg-black/90' : 'bg-black/40 border border-dashed border-amber-500/30'}`}
-                  style={{
-                    left: `${region.position_x}%`,
-                    top: `${region.position_y}%`,
-                    width: `${region.width}%`,
-                    height: `${region.height}%`,
-                    transform: `scale(${zoom})`,
-                    transformOrigin: 'top left',
-                  }}
-                />
-              );
-            })}
+            {/* Grid, scaled with the image */}
+            {map.grid_type !== "none" && (
+              <div
+                className="absolute inset-0 pointer-events-none"
+                style={{ transform: `scale(${zoom})`, transformOrigin: "top left" }}
+              >
+                <GridOverlay grid={map} aspect={aspect} />
+              </div>
+            )}
+            
+            {/* Territory ownership, scaled with the image */}
+            {territories.length > 0 && (
+              <div
+                className="absolute inset-0 pointer-events-none"
+                style={{ transform: `scale(${zoom})`, transformOrigin: "top left" }}
+              >
+                <TerritoryOverlay territories={territories} ownerColors={ownerColors} showLabels={zoom >= 1} />
+              </div>
+            )}
+            
+            {/* Fog of War Regions, scaled with the image */}
+            {fogRegions.length > 0 && (
+              <div
+                className="absolute inset-0 pointer-events-none"
+                style={{ transform: `scale(${zoom})`, transformOrigin: "top left" }}
+              >
+                <FogOverlay regions={fogRegions} isGM={isGM} showLabels={false} />
+              </div>
+            )}
             
             {/* Markers */}
             {visibleMarkers.map((marker) => {
@@ -102,18 +166,23 @@ export function MapWidget({ component, isGM }: MapWidgetProps) {
               if (!legend) return null;
               
               const isGmOnly = marker.visibility === 'gm_only';
+              const linkedMap = marker.linked_map_id ? maps.find(m => m.id === marker.linked_map_id) : null;
               
               return (
                 <div
                   key={marker.id}
-                  className={`absolute transform -translate-x-1/2 -translate-y-1/2 ${isGmOnly ? 'opacity-60' : ''}`}
+                  className={`absolute transform -translate-x-1/2 -translate-y-1/2 ${isGmOnly ? 'opacity-60' : ''} ${linkedMap ? 'cursor-pointer' : ''}`}
                   style={{
                     left: `${marker.position_x * zoom}%`,
                     top: `${marker.position_y * zoom}%`,
                   }}
-                  title={marker.label || undefined}
+                  title={linkedMap ? `${marker.label || legend.name} → ${linkedMap.title}` : marker.label || undefined}
+                  onClick={linkedMap ? () => setOpenedMapId(linkedMap.id) : undefined}
                 >
                   <MarkerIcon shape={legend.shape} color={legend.color} size={20} />
+                  {linkedMap && (
+                    <CornerDownRight className="absolute -bottom-1 -right-1 w-2.5 h-2.5 text-primary bg-background rounded-full" />
+                  )}
                 </div>
               );
             })}
@@ -140,6 +209,13 @@ export function MapWidget({ component, isGM }: MapWidgetProps) {
         </div>
       </div>
       
+      {/* Territory counts per player */}
+      {territories.length > 0 && (
+        <div className="pt-2 border-t border-border mt-2">
+          <TerritoryControlSummary territories={territories} owners={owners} ownerColors={ownerColors} compact />
+        </div>
+      )}
+      
       {/* Legend (condensed) */}
       {legendItems.length > 0 && (
         <div className="flex flex-wrap gap-2 pt-2 border-t border-border mt-2">
@@ -27,8 +27,11 @@ import {
   UserPlus,
   Bot,
   Trash2,
+  GitMerge,
 } from "lucide-react";
 import { AddPlayerModal } from "@/components/players/AddPlayerModal";
+import { MergeGhostDialog } from "@/components/players/MergeGhostDialog";
+import { ResourceLedgerPanel } from "@/components/players/ResourceLedgerPanel";
 import { useAuth } from "@/hooks/useAuth";
 import {
   AlertDialog,
@@ -51,7 +54,7 @@ interface PlayersManagerWidgetProps {
   campaignId: string;
 }
 
-type PlayerWithProfile = PlayerSettings & { profile_display_name: string | null };
+type PlayerWithProfile = PlayerSettings & { profile_display_name: string | null; is_ghost?: boolean };
 
 function PlayerCard({ 
   player, 
@@ -66,6 +69,7 @@ function PlayerCard({
 }) {
   const [isOpen, setIsOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
   const queryClient = useQueryClient();
 
   // Local form state
@@ -121,7 +125,7 @@ function PlayerCard({
               <span className="text-sm font-mono text-foreground truncate">
                 {displayName}
               </span>
-              {(player as any).is_ghost && (
+              {player.is_ghost && (
                 <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-mono uppercase tracking-wider bg-secondary/20 text-secondary border border-secondary/30">
                   <Bot className="w-2.5 h-2.5" />
                   AI
@@ -182,6 +186,15 @@ function PlayerCard({
             </div>
           </div>
 
+          {/* Resources Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-primary/80">
+              <Coins className="w-3.5 h-3.5" />
+              <span className="text-[10px] font-mono uppercase tracking-wider">Resources</span>
+            </div>
+            <ResourceLedgerPanel campaignId={campaignId} playerId={player.id} canManage={isGM} />
+          </div>
+
           {/* Faction Section */}
           <div className="space-y-3">
             <div className="flex items-center gap-2 text-primary/80">
@@ -246,8 +259,8 @@ function PlayerCard({
           </div>
 
           {/* Actions */}
-          <div className="flex justify-between pt-2 border-t border-border">
-            {isGM && (player as any).is_ghost && (
+          <div className="flex gap-2 pt-2 border-t border-border">
+            {isGM && player.is_ghost && (
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <TerminalButton variant="destructive" size="sm">
@@ -286,6 +299,17 @@ function PlayerCard({
                 </AlertDialogContent>
               </AlertDialog>
             )}
+            {isGM && player.is_ghost && (
+              <TerminalButton
+                variant="outline"
+                size="sm"
+                onClick={() => setMergeOpen(true)}
+                title="Hand this ghost's history to the player who joined in their place"
+              >
+                <GitMerge className="w-3 h-3 mr-1" />
+                Merge into Player
+              </TerminalButton>
+            )}
             <div className="ml-auto">
               <TerminalButton
                 size="sm"
@@ -308,6 +332,15 @@ function PlayerCard({
           </div>
         </div>
       </CollapsibleContent>
+
+      {isGM && player.is_ghost && (
+        <MergeGhostDialog
+          open={mergeOpen}
+          onClose={() => setMergeOpen(false)}
+          campaignId={campaignId}
+          ghost={{ id: player.id, name: displayName }}
+        />
+      )}
     </Collapsible>
   );
 }
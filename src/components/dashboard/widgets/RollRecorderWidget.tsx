@@ -1,10 +1,12 @@
-import { memo, useEffect, useState } from "react";
-import { History, Trash2, Dices } from "lucide-react";
+import { memo, useEffect, useMemo, useState } from "react";
+import { History, Trash2, Dices, ShieldCheck, ShieldAlert } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { format } from "date-fns";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { DashboardComponent } from "@/hooks/useDashboardComponents";
+import { replayMatchesTotal, type DiceRollBreakdown, type RolledDie } from "@/lib/diceNotation";
+import type { TableRollContext } from "@/lib/rollTables";
 
 interface RollRecorderWidgetProps {
   component: DashboardComponent;
@@ -20,6 +22,12 @@ interface DiceRoll {
   rolls: number[];
   total: number;
   rolled_at: string;
+  breakdown?: DiceRollBreakdown | null;
+  /** Rolled and recorded by the roll-dice edge function */
+  verified?: boolean;
+  seed?: string | null;
+  /** Set when the roll was made on a rules table */
+  context?: TableRollContext | null;
 }
 
 export const RollRecorderWidget = memo(function RollRecorderWidget({
@@ -41,7 +49,7 @@ export const RollRecorderWidget = memo(function RollRecorderWidget({
         .limit(50);
 
       if (!error && data) {
-        setRolls(data as DiceRoll[]);
+        setRolls(data as unknown as DiceRoll[]);
       }
       setIsLoading(false);
     };
@@ -175,6 +183,11 @@ interface RollEntryProps {
 
 function RollEntry({ roll, isGM, isCurrentUser, onDelete }: RollEntryProps) {
   const formattedDate = format(new Date(roll.rolled_at), "MMM d, HH:mm");
+  // Replaying the stored seed guards against a verified row being edited afterwards
+  const replayMatches = useMemo(
+    () => !!roll.verified && !!roll.seed && replayMatchesTotal(roll.dice_config, roll.seed, roll.total),
+    [roll.verified, roll.seed, roll.dice_config, roll.total]
+  );
   
   return (
     <div
@@ -200,26 +213,31 @@ function RollEntry({ roll, isGM, isCurrentUser, onDelete }: RollEntryProps) {
             <span className="text-[10px] text-muted-foreground font-mono">
               {roll.dice_config}
             </span>
+            <VerificationBadge verified={!!roll.verified} replayMatches={replayMatches} />
           </div>
           
+          {/* Table result */}
+          {roll.context && (
+            <div className="text-[10px] mb-0.5 truncate" title={roll.context.result ?? undefined}>
+              <span className="text-muted-foreground font-mono">
+                {roll.context.dice} on {roll.context.table} → {roll.context.value}:
+              </span>{" "}
+              <span className="text-foreground">{roll.context.result ?? "no matching row"}</span>
+            </div>
+          )}
+
           {/* Rolls and total */}
           <div className="flex items-center gap-2">
-            <div className="flex gap-1 flex-wrap">
-              {roll.rolls.map((r, i) => (
-                <span
-                  key={i}
-                  className="w-5 h-5 rounded text-[10px] font-mono flex items-center justify-center"
-                  style={{
-                    backgroundColor: "hsl(142, 76%, 55%, 0.15)",
-                    border: "1px solid hsl(142, 76%, 55%, 0.3)",
-                    color: "hsl(142, 76%, 65%)",
-                  }}
-                >
-                  {r}
-                </span>
-              ))}
-            </div>
-            {roll.rolls.length > 1 && (
+            {roll.breakdown ? (
+              <BreakdownDice breakdown={roll.breakdown} />
+            ) : (
+              <div className="flex gap-1 flex-wrap">
+                {roll.rolls.map((r, i) => (
+                  <DieChip key={i} value={r} />
+                ))}
+              </div>
+            )}
+            {(roll.rolls.length > 1 || !!roll.breakdown) && (
               <span 
                 className="text-xs font-mono font-bold"
                 style={{ 
@@ -251,3 +269,91 @@ function RollEntry({ roll, isGM, isCurrentUser, onDelete }: RollEntryProps) {
     </div>
   );
 }
+
+function DieChip({ value, die, countsSuccesses = false }: { value: number; die?: RolledDie; countsSuccesses?: boolean }) {
+  const inactive = die && die.status !== "kept";
+  const missed = countsSuccesses && die?.status === "kept" && !die.success;
+  const title = die && [
+    die.status === "dropped" && "Dropped",
+    die.status === "rerolled" && "Rerolled",
+    die.exploded && "Exploded",
+    die.success && "Success",
+  ].filter(Boolean).join(", ");
+
+  return (
+    <span
+      className={`min-w-5 h-5 px-0.5 rounded text-[10px] font-mono flex items-center justify-center ${inactive ? "line-through opacity-40" : ""} ${missed ? "opacity-60" : ""}`}
+      style={{
+        backgroundColor: die?.success ? "hsl(45, 100%, 50%, 0.15)" : "hsl(142, 76%, 55%, 0.15)",
+        border: `1px ${die?.status === "rerolled" ? "dashed" : "solid"} ${die?.success ? "hsl(45, 100%, 55%, 0.5)" : "hsl(142, 76%, 55%, 0.3)"}`,
+        color: die?.success ? "hsl(45, 100%, 65%)" : "hsl(142, 76%, 65%)",
+      }}
+      title={title || undefined}
+    >
+      {value}
+      {die?.exploded && <span className="text-[8px] ml-px">!</span>}
+    </span>
+  );
+}
+
+/** Dice grouped by step and term, showing which were kept, dropped, rerolled or exploded */
+function BreakdownDice({ breakdown }: { breakdown: DiceRollBreakdown }) {
+  return (
+    <div className="flex flex-col gap-0.5 min-w-0">
+      {breakdown.steps.map((step, s) => (
+        <div key={s} className="flex gap-1 flex-wrap items-center">
+          {s > 0 && <span className="text-[9px] text-muted-foreground font-mono">then</span>}
+          {step.terms.map((term, t) => (
+            term.kind === "dice" ? (
+              <span key={t} className="flex gap-1 flex-wrap items-center">
+                {(t > 0 || term.sign < 0) && (
+                  <span className="text-[10px] text-muted-foreground font-mono">{term.sign < 0 ? "-" : "+"}</span>
+                )}
+                {term.dice.map((die, i) => (
+                  <DieChip key={i} value={die.value} die={die} countsSuccesses={term.countsSuccesses} />
+                ))}
+              </span>
+            ) : (
+              <span key={t} className="text-[10px] text-muted-foreground font-mono">
+                {term.sign < 0 ? "-" : "+"}{term.value}
+              </span>
+            )
+          ))}
+          {breakdown.steps.length > 1 && (
+            <span className="text-[9px] text-muted-foreground font-mono">
+              ({step.total}{step.countsSuccesses ? " hits" : ""})
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function VerificationBadge({ verified, replayMatches }: { verified: boolean; replayMatches: boolean }) {
+  if (verified && replayMatches) {
+    return (
+      <span
+        className="flex items-center gap-0.5 text-[9px] font-mono uppercase shrink-0"
+        style={{ color: "hsl(142, 76%, 60%)" }}
+        title="Rolled on the server; the stored seed replays to this result"
+      >
+        <ShieldCheck className="w-3 h-3" />
+        Verified
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="flex items-center gap-0.5 text-[9px] font-mono uppercase shrink-0"
+      style={{ color: "hsl(45, 100%, 60%)" }}
+      title={verified
+        ? "Marked as a server roll, but the stored seed does not replay to this result"
+        : "Recorded by the player's browser, not rolled on the server"}
+    >
+      <ShieldAlert className="w-3 h-3" />
+      {verified ? "Mismatch" : "Client"}
+    </span>
+  );
+}
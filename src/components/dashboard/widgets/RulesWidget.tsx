@@ -1,8 +1,13 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { ChevronDown, ChevronUp, Search, BookOpen } from "lucide-react";
+import { ChevronDown, ChevronUp, Search, BookOpen, Dices } from "lucide-react";
 import { Json } from "@/integrations/supabase/types";
+import type { TableRuleContent } from "@/hooks/useWargameRules";
+import { useTableRoll } from "@/hooks/useTableRoll";
+import { analyzeRollTable } from "@/lib/rollTables";
+import { cn } from "@/lib/utils";
+import { TableRollResults } from "./TableRollResults";
 
 interface RulesWidgetProps {
   campaignId: string;
@@ -24,6 +29,8 @@ export function RulesWidget({ campaignId, isGM }: RulesWidgetProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [rolledRuleId, setRolledRuleId] = useState<string | null>(null);
+  const { rollOnTable, results, isRolling, clearResults } = useTableRoll(campaignId);
 
   const { data: rules = [], isLoading } = useQuery({
     queryKey: ["wargame_rules", campaignId],
@@ -54,6 +61,62 @@ export function RulesWidget({ campaignId, isGM }: RulesWidgetProps) {
     return matchesSearch && matchesCategory;
   });
 
+  const asTable = (content: Json): TableRuleContent | null => {
+    const table = content as unknown as TableRuleContent | null;
+    return table?.type === "table" && Array.isArray(table.columns) && Array.isArray(table.rows) ? table : null;
+  };
+
+  const handleRollOnTable = (rule: WargameRule, table: TableRuleContent) => {
+    setRolledRuleId(rule.id);
+    rollOnTable({ name: rule.title, ruleId: rule.id, columns: table.columns, rows: table.rows });
+  };
+
+  const renderTable = (rule: WargameRule, table: TableRuleContent) => {
+    const rollable = analyzeRollTable(table.columns, table.rows);
+    const highlightedRowId = rolledRuleId === rule.id ? results[0]?.rowId : undefined;
+
+    return (
+      <div className="mt-2 space-y-2">
+        {rollable && (
+          <button
+            onClick={() => handleRollOnTable(rule, table)}
+            disabled={isRolling}
+            className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            <Dices className={cn("w-3 h-3", isRolling && rolledRuleId === rule.id && "animate-spin")} />
+            Roll {rollable.dice.label} on this table
+          </button>
+        )}
+        <div className="overflow-auto max-h-48 bg-muted/30 rounded">
+          <table className="w-full text-[10px] border-collapse">
+            <thead>
+              <tr className="border-b border-primary/30">
+                {table.columns.map((col) => (
+                  <th key={col} className="text-left p-1 text-primary font-mono uppercase">{col}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row) => (
+                <tr
+                  key={row.id}
+                  className={cn("border-b border-border/30", row.id === highlightedRowId && "bg-primary/20 text-foreground")}
+                >
+                  {table.columns.map((col) => (
+                    <td key={col} className="p-1 align-top">{row[col]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {rolledRuleId === rule.id && (
+          <TableRollResults results={results} onClear={clearResults} />
+        )}
+      </div>
+    );
+  };
+
   const renderContent = (content: Json): string => {
     if (typeof content === "string") return content;
     if (typeof content === "object" && content !== null) {
@@ -143,9 +206,13 @@ export function RulesWidget({ campaignId, isGM }: RulesWidgetProps) {
               </button>
               {expandedId === rule.id && (
                 <div className="px-2 pb-2 text-xs text-muted-foreground border-t border-border/50">
-                  <pre className="mt-2 whitespace-pre-wrap font-mono text-[10px] bg-muted/30 p-2 rounded overflow-auto max-h-48">
-                    {renderContent(rule.content)}
-                  </pre>
+                  {asTable(rule.content) ? (
+                    renderTable(rule, asTable(rule.content)!)
+                  ) : (
+                    <pre className="mt-2 whitespace-pre-wrap font-mono text-[10px] bg-muted/30 p-2 rounded overflow-auto max-h-48">
+                      {renderContent(rule.content)}
+                    </pre>
+                  )}
                 </div>
               )}
             </div>
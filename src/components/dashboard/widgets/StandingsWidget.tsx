@@ -0,0 +1,104 @@
+import { Trophy, Clock, Settings } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useCampaignStandings } from "@/hooks/useStandings";
+import { useOverlayState } from "@/hooks/useOverlayState";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+interface StandingsWidgetProps {
+  campaignId: string;
+  isGM?: boolean;
+}
+
+export function StandingsWidget({ campaignId, isGM = false }: StandingsWidgetProps) {
+  const { user } = useAuth();
+  const { openOverlay } = useOverlayState();
+  const { standings, isLoading } = useCampaignStandings(campaignId);
+
+  if (isLoading) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+        <Clock className="w-5 h-5 animate-spin mr-2" />
+        Loading...
+      </div>
+    );
+  }
+
+  if (standings.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
+        <Trophy className="w-12 h-12 text-muted-foreground/30 mb-3" />
+        <p className="text-sm text-muted-foreground mb-2">No standings yet</p>
+        {isGM && (
+          <TerminalButton size="sm" onClick={() => openOverlay("battles")}>
+            <Settings className="w-3 h-3 mr-1" />
+            Setup Battles
+          </TerminalButton>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center gap-2 p-2 border-b border-primary/30 shrink-0">
+        <Trophy className="w-4 h-4 text-primary" />
+        <span className="text-xs font-mono uppercase tracking-wider text-primary">League Table</span>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow className="border-primary/20">
+              <TableHead className="h-7 w-8 text-[10px] font-mono uppercase">#</TableHead>
+              <TableHead className="h-7 text-[10px] font-mono uppercase">Player</TableHead>
+              <TableHead className="h-7 text-[10px] font-mono uppercase text-center" title="Wins / Draws / Losses">W-D-L</TableHead>
+              <TableHead className="h-7 text-[10px] font-mono uppercase text-right">Pts</TableHead>
+              <TableHead className="h-7 text-[10px] font-mono uppercase text-right" title="Strength of schedule">SoS</TableHead>
+              <TableHead className="h-7 text-[10px] font-mono uppercase text-right" title="Opponents' win rate">OWR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {standings.map(row => (
+              <TableRow
+                key={row.playerId}
+                className={cn(
+                  "border-border/30",
+                  row.playerId === user?.id && "bg-primary/5 text-primary"
+                )}
+              >
+                <TableCell className="py-1.5 font-mono">{row.rank}</TableCell>
+                <TableCell className="py-1.5 font-medium">
+                  {row.playerName}
+                  {row.byes > 0 && (
+                    <span className="ml-1 text-[10px] text-muted-foreground">({row.byes} bye{row.byes > 1 ? "s" : ""})</span>
+                  )}
+                </TableCell>
+                <TableCell className="py-1.5 text-center font-mono">
+                  {row.wins}-{row.draws}-{row.losses}
+                </TableCell>
+                <TableCell className="py-1.5 text-right font-mono font-bold">{row.points}</TableCell>
+                <TableCell className="py-1.5 text-right font-mono text-muted-foreground">
+                  {row.strengthOfSchedule.toFixed(1)}
+                </TableCell>
+                <TableCell className="py-1.5 text-right font-mono text-muted-foreground">
+                  {Math.round(row.opponentsWinRate * 100)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+}
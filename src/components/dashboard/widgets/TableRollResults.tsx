@@ -0,0 +1,45 @@
+import { CornerDownRight, Dices, X } from "lucide-react";
+import type { TableRollStep } from "@/hooks/useTableRoll";
+
+interface TableRollResultsProps {
+  results: TableRollStep[];
+  onClear: () => void;
+}
+
+/** The chain of table rolls, one line per table followed */
+export function TableRollResults({ results, onClear }: TableRollResultsProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="border border-primary/40 bg-primary/5 rounded p-2 space-y-1 text-xs">
+      {results.map((step, i) => (
+        <div key={i} className="flex items-start gap-1.5">
+          {i === 0 ? (
+            <Dices className="w-3 h-3 mt-0.5 text-primary shrink-0" />
+          ) : (
+            <CornerDownRight className="w-3 h-3 mt-0.5 text-muted-foreground shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            {i > 0 && <span className="text-muted-foreground">{step.table}: </span>}
+            <span className="font-mono text-primary">{step.dice} → {step.value}</span>
+            {step.result ? (
+              <span className="ml-1">{step.result}</span>
+            ) : (
+              <span className="ml-1 text-muted-foreground italic">No matching row</span>
+            )}
+            {step.unresolvedReference && (
+              <div className="text-[10px] text-muted-foreground">
+                Couldn't find a "{step.unresolvedReference}" table in this campaign's rules
+              </div>
+            )}
+          </div>
+          {i === 0 && (
+            <button onClick={onClear} className="text-muted-foreground hover:text-foreground" title="Clear">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
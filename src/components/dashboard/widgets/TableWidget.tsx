@@ -1,8 +1,12 @@
 import { useState, useCallback } from "react";
-import { Plus, Trash2, Pencil, X, Check, FileText } from "lucide-react";
+import { Plus, Trash2, Pencil, X, Check, FileText, Dices } from "lucide-react";
 import { DashboardComponent, useUpdateComponent } from "@/hooks/useDashboardComponents";
 import { useRuleSync } from "@/hooks/useRuleSync";
+import { useTableRoll } from "@/hooks/useTableRoll";
+import { analyzeRollTable } from "@/lib/rollTables";
 import type { Json } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import { TableRollResults } from "./TableRollResults";
 import {
   Collapsible,
   CollapsibleContent,
@@ -28,7 +32,7 @@ interface TableConfig {
   rule_id?: string;
 }
 
-export function TableWidget({ component, isGM }: TableWidgetProps) {
+export function TableWidget({ component, isGM, campaignId }: TableWidgetProps) {
   const updateComponent = useUpdateComponent();
   const { syncTableToRule } = useRuleSync();
   const config = (component.config as TableConfig) || {};
@@ -43,6 +47,15 @@ export function TableWidget({ component, isGM }: TableWidgetProps) {
   const [headerValue, setHeaderValue] = useState("");
   const [showRawText, setShowRawText] = useState(false);
 
+  // Tables with a roll column (1-2, 3-4, 11-16...) can be rolled on directly
+  const rollable = analyzeRollTable(columns, rows);
+  const { rollOnTable, results, isRolling, clearResults } = useTableRoll(campaignId);
+  const highlightedRowId = results[0]?.rowId;
+
+  const handleRollOnTable = () => {
+    rollOnTable({ name: component.name, ruleId, columns, rows });
+  };
+
   // Helper to update component and sync to rule
   const updateAndSync = useCallback((newColumns: string[], newRows: TableRow[]) => {
     const newConfig = { ...config, columns: newColumns, rows: newRows };
@@ -137,9 +150,24 @@ export function TableWidget({ component, isGM }: TableWidgetProps) {
   return (
     <div className="h-full flex flex-col">
       {/* Source label */}
-      {sourceLabel && (
-        <div className="text-[10px] text-muted-foreground mb-1 truncate">
-          Source: {sourceLabel}
+      {(sourceLabel || rollable) && (
+        <div className="flex items-center gap-2 mb-1">
+          {sourceLabel && (
+            <div className="text-[10px] text-muted-foreground truncate">
+              Source: {sourceLabel}
+            </div>
+          )}
+          {rollable && (
+            <button
+              onClick={handleRollOnTable}
+              disabled={isRolling}
+              className="ml-auto flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50 shrink-0"
+              title="Roll on this table"
+            >
+              <Dices className={cn("w-3 h-3", isRolling && "animate-spin")} />
+              Roll {rollable.dice.label}
+            </button>
+          )}
         </div>
       )}
 
@@ -210,7 +238,13 @@ export function TableWidget({ component, isGM }: TableWidgetProps) {
               </tr>
             ) : (
               rows.map((row) => (
-                <tr key={row.id} className="border-b border-border/50 hover:bg-accent/30">
+                <tr
+                  key={row.id}
+                  className={cn(
+                    "border-b border-border/50 hover:bg-accent/30",
+                    row.id === highlightedRowId && "bg-primary/20 hover:bg-primary/25"
+                  )}
+                >
                   {columns.map((col) => (
                     <td key={col} className="p-2">
                       {isGM && editingCell?.rowId === row.id && editingCell?.col === col ? (
@@ -251,6 +285,12 @@ export function TableWidget({ component, isGM }: TableWidgetProps) {
         </table>
       </div>
 
+      {results.length > 0 && (
+        <div className="pt-2">
+          <TableRollResults results={results} onClear={clearResults} />
+        </div>
+      )}
+
       {isGM && (
         <div className="flex gap-2 pt-2 border-t border-border mt-auto flex-wrap">
           <button
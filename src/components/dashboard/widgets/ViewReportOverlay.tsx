@@ -1,17 +1,22 @@
 import { X, Trophy, Minus, FileText, CheckCircle2, Clock } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useBattleReports, type BattleReport } from "@/hooks/useBattleTracker";
+import { useCurrencies } from "@/hooks/useResourceLedger";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 
 interface ViewReportOverlayProps {
   matchId: string;
+  campaignId: string;
   onClose: () => void;
 }
 
-export function ViewReportOverlay({ matchId, onClose }: ViewReportOverlayProps) {
+export function ViewReportOverlay({ matchId, campaignId, onClose }: ViewReportOverlayProps) {
   const { data: reports = [], isLoading } = useBattleReports(matchId);
+  const { data: currencies = [] } = useCurrencies(campaignId);
+  const currencyName = (report: BattleReport) =>
+    (currencies.find(c => c.id === report.resources.currencyId) ?? currencies[0])?.name ?? "resources";
 
   return (
     <AnimatePresence>
@@ -55,7 +60,7 @@ export function ViewReportOverlay({ matchId, onClose }: ViewReportOverlayProps)
             ) : (
               <div className="space-y-4">
                 {reports.map(report => (
-                  <ReportCard key={report.id} report={report} />
+                  <ReportCard key={report.id} report={report} currency={currencyName(report)} />
                 ))}
               </div>
             )}
@@ -66,7 +71,7 @@ export function ViewReportOverlay({ matchId, onClose }: ViewReportOverlayProps)
   );
 }
 
-function ReportCard({ report }: { report: BattleReport }) {
+function ReportCard({ report, currency }: { report: BattleReport; currency: string }) {
   const outcomeColors = {
     win: "bg-green-500/20 text-green-400 border-green-500/50",
     loss: "bg-red-500/20 text-red-400 border-red-500/50",
@@ -123,7 +128,22 @@ function ReportCard({ report }: { report: BattleReport }) {
           </div>
         </div>
       )}
-      
+
+      {/* Experience */}
+      {report.experience && report.experience.length > 0 && (
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">Experience</div>
+          <div className="flex flex-wrap gap-2">
+            {report.experience.map((line, i) => (
+              <span key={i} className="text-xs">
+                <span className="font-medium">{line.unitName}</span>
+                <span className="text-primary"> +{line.xp} XP</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Notable Events */}
       {report.notable_events && report.notable_events.length > 0 && (
         <div>
@@ -156,10 +176,10 @@ function ReportCard({ report }: { report: BattleReport }) {
       {report.resources && (report.resources.gained || report.resources.spent) && (
         <div className="flex gap-4 text-xs">
           {report.resources.gained && (
-            <span className="text-green-400">+{report.resources.gained} resources</span>
+            <span className="text-green-400">+{report.resources.gained} {currency}</span>
           )}
           {report.resources.spent && (
-            <span className="text-red-400">-{report.resources.spent} resources</span>
+            <span className="text-red-400">-{report.resources.spent} {currency}</span>
           )}
         </div>
       )}
@@ -98,8 +98,8 @@ const STEPS: Step[] = [
   {
     icon: Eye,
     title: "Preview the Player View",
-    description: "Click the 'Games Master' badge in the header to toggle 'Preview as Player' mode. This shows exactly what players see.",
-    tip: "GM-only widgets and controls are hidden in preview mode.",
+    description: "Click the 'Games Master' badge in the header and pick a player to preview the dashboard as them. This shows exactly what they see.",
+    tip: "Widgets outside that player's audience and GM controls are hidden in preview mode.",
   },
 ];
 
@@ -114,7 +114,7 @@ const faqSections: FAQSection[] = [
       },
       {
         question: 'What is "Preview as Player"?',
-        answer: "A GM toggle that shows exactly what players see. GM-only items and controls are hidden while this mode is active.",
+        answer: "Click the 'Games Master' badge and pick a player (or 'Any player') to see the dashboard through their eyes. Widgets outside their audience and GM controls are hidden while this mode is active.",
       },
     ],
   },
@@ -156,7 +156,7 @@ const faqSections: FAQSection[] = [
       },
       {
         question: "How do I hide components from players? (GM only)",
-        answer: "Toggle visibility to GM-only in the Components manager (sidebar → Components).",
+        answer: "Open the Components manager (sidebar → Components) and set the widget's audience: all players, GM only, or chosen roles and players. Hidden widgets are never sent to players outside the audience.",
       },
       {
         question: "What component types are available?",
@@ -0,0 +1,182 @@
+import type { MapFogRegion, TerritoryPoint } from './types';
+
+interface FogOverlayProps {
+  regions: MapFogRegion[];
+  isGM: boolean;
+  selectedRegionId?: string | null;
+  showLabels?: boolean;
+  // In-progress shapes while the GM is drawing
+  draftRect?: { x: number; y: number; width: number; height: number } | null;
+  draftPoints?: TerritoryPoint[];
+  draftCursor?: TerritoryPoint | null;
+  draftStroke?: TerritoryPoint[];
+  brushSize?: number;
+  onRegionClick?: (regionId: string) => void;
+  onRegionContextMenu?: (regionId: string) => void;
+}
+
+const toPath = (points: TerritoryPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+type FogStatus = 'hidden' | 'partial' | 'revealed';
+
+// Players only ever get their own reveal rows back, so any entry in
+// revealed_to means the region is open to them
+const fogStatus = (region: MapFogRegion): FogStatus =>
+  region.revealed ? 'revealed' : region.revealed_to.length > 0 ? 'partial' : 'hidden';
+
+const GM_COLORS: Record<FogStatus, { fill: string; opacity: number; stroke: string }> = {
+  hidden: { fill: '#000000', opacity: 0.6, stroke: '#f59e0b' },
+  partial: { fill: '#0ea5e9', opacity: 0.25, stroke: '#0ea5e9' },
+  revealed: { fill: '#10b981', opacity: 0.2, stroke: '#10b981' },
+};
+
+/**
+ * Fog of war drawn over the map in its percentage coordinate space. Players
+ * see solid fog wherever a region is still hidden from them; GMs see every
+ * region tinted by who it's been revealed to.
+ */
+export function FogOverlay({
+  regions,
+  isGM,
+  selectedRegionId,
+  showLabels = true,
+  draftRect,
+  draftPoints = [],
+  draftCursor,
+  draftStroke = [],
+  brushSize = 0,
+  onRegionClick,
+  onRegionContextMenu,
+}: FogOverlayProps) {
+  const visible = isGM ? regions : regions.filter(r => fogStatus(r) === 'hidden');
+
+  const labelOf = (region: MapFogRegion) => {
+    const status = fogStatus(region);
+    if (status === 'revealed') return '✓ Revealed';
+    if (status === 'partial') return `Revealed to ${region.revealed_to.length}`;
+    return 'Hidden';
+  };
+
+  return (
+    <>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {visible.map((region) => {
+          const colors = isGM ? GM_COLORS[fogStatus(region)] : { fill: '#000000', opacity: 0.9, stroke: 'none' };
+          const isSelected = region.id === selectedRegionId;
+          const interactive = {
+            className: onRegionClick || onRegionContextMenu ? 'pointer-events-auto cursor-pointer' : undefined,
+            onClick: onRegionClick ? (e: React.MouseEvent) => {
+              e.stopPropagation();
+              onRegionClick(region.id);
+            } : undefined,
+            onContextMenu: onRegionContextMenu ? (e: React.MouseEvent) => {
+              e.preventDefault();
+              onRegionContextMenu(region.id);
+            } : undefined,
+          };
+          const outline = isGM ? {
+            stroke: colors.stroke,
+            strokeWidth: isSelected ? 3 : 1.5,
+            strokeDasharray: isSelected ? undefined : '4 3',
+            vectorEffect: 'non-scaling-stroke' as const,
+          } : {};
+
+          if (region.shape === 'brush' && region.points.length > 0) {
+            return (
+              <polyline
+                key={region.id}
+                points={toPath(region.points.length === 1 ? [region.points[0], region.points[0]] : region.points)}
+                fill="none"
+                stroke={colors.fill}
+                strokeOpacity={isSelected ? Math.min(1, colors.opacity + 0.25) : colors.opacity}
+                strokeWidth={region.brush_size}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                {...interactive}
+              />
+            );
+          }
+
+          if (region.shape === 'polygon' && region.points.length >= 3) {
+            return (
+              <polygon
+                key={region.id}
+                points={toPath(region.points)}
+                fill={colors.fill}
+                fillOpacity={colors.opacity}
+                {...outline}
+                {...interactive}
+              />
+            );
+          }
+
+          return (
+            <rect
+              key={region.id}
+              x={region.position_x}
+              y={region.position_y}
+              width={region.width}
+              height={region.height}
+              fill={colors.fill}
+              fillOpacity={colors.opacity}
+              {...outline}
+              {...interactive}
+            />
+          );
+        })}
+
+        {/* Shapes being drawn */}
+        {draftRect && (
+          <rect
+            {...draftRect}
+            fill="#000000"
+            fillOpacity={0.4}
+            stroke="#f59e0b"
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {draftPoints.length > 0 && (
+          <polyline
+            points={toPath(draftCursor ? [...draftPoints, draftCursor] : draftPoints)}
+            fill="rgba(0,0,0,0.4)"
+            stroke="#f59e0b"
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {draftStroke.length > 0 && (
+          <polyline
+            points={toPath(draftStroke.length === 1 ? [draftStroke[0], draftStroke[0]] : draftStroke)}
+            fill="none"
+            stroke="#000000"
+            strokeOpacity={0.5}
+            strokeWidth={brushSize}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+      </svg>
+
+      {/* GM status labels, outside the stretched SVG so the text isn't distorted */}
+      {isGM && showLabels && visible.map((region) => (
+        <div
+          key={region.id}
+          className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none text-[10px] text-white/70 whitespace-nowrap"
+          style={{
+            left: `${region.position_x + region.width / 2}%`,
+            top: `${region.position_y + region.height / 2}%`,
+          }}
+        >
+          {labelOf(region)}
+        </div>
+      ))}
+    </>
+  );
+}
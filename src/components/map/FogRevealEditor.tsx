@@ -0,0 +1,92 @@
+import { Trash2, X } from 'lucide-react';
+import { TerminalButton } from '@/components/ui/TerminalButton';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { MapFogRegion } from './types';
+import type { TerritoryOwnerOption } from './TerritoryEditor';
+
+interface FogRevealEditorProps {
+  region: MapFogRegion;
+  label: string;
+  players: TerritoryOwnerOption[];
+  ownerColors: Record<string, string>;
+  onSetRevealed: (regionId: string, revealed: boolean) => void;
+  onSetRevealedTo: (regionId: string, playerIds: string[]) => void;
+  onDelete: (regionId: string) => void;
+  onClose: () => void;
+}
+
+/** Choose who can see under one fog region: everyone, or just some players */
+export function FogRevealEditor({
+  region,
+  label,
+  players,
+  ownerColors,
+  onSetRevealed,
+  onSetRevealedTo,
+  onDelete,
+  onClose,
+}: FogRevealEditorProps) {
+  const revealedTo = new Set(region.revealed_to);
+
+  const togglePlayer = (playerId: string, revealed: boolean) => {
+    const next = new Set(revealedTo);
+    if (revealed) next.add(playerId);
+    else next.delete(playerId);
+    onSetRevealedTo(region.id, [...next]);
+  };
+
+  return (
+    <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-amber-400 font-mono">{label}</h4>
+        <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <Checkbox
+          checked={region.revealed}
+          onCheckedChange={(checked) => onSetRevealed(region.id, checked === true)}
+        />
+        Revealed to everyone
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider">Revealed to</p>
+        {players.length === 0 ? (
+          <p className="text-xs text-muted-foreground italic">No players in this campaign yet.</p>
+        ) : (
+          <div className={`grid grid-cols-2 gap-1 max-h-40 overflow-y-auto ${region.revealed ? 'opacity-50' : ''}`}>
+            {players.map((player) => (
+              <label key={player.id} className="flex items-center gap-2 text-xs cursor-pointer p-1 rounded hover:bg-muted/50">
+                <Checkbox
+                  checked={region.revealed || revealedTo.has(player.id)}
+                  disabled={region.revealed}
+                  onCheckedChange={(checked) => togglePlayer(player.id, checked === true)}
+                />
+                <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: ownerColors[player.id] }} />
+                <span className="truncate">{player.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-[10px] text-muted-foreground">
+          Players only receive markers and territories under fog once it's revealed to them.
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <TerminalButton
+          variant="outline"
+          size="sm"
+          onClick={() => onDelete(region.id)}
+          className="text-destructive hover:bg-destructive/10 gap-1"
+        >
+          <Trash2 className="w-3 h-3" />
+          Delete Region
+        </TerminalButton>
+      </div>
+    </div>
+  );
+}
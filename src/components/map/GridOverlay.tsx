@@ -0,0 +1,43 @@
+import { useId } from 'react';
+import type { MapGridSettings } from './types';
+import { gridPatternTile } from '@/lib/mapGrid';
+
+interface GridOverlayProps {
+  grid: MapGridSettings;
+  // Image height / width, so cells stay square
+  aspect: number;
+}
+
+/**
+ * Square or hex grid over the map image. Unlike the other overlays it works
+ * in map units (100 wide, 100 * aspect tall) so the repeating tile isn't
+ * stretched on non-square images.
+ */
+export function GridOverlay({ grid, aspect }: GridOverlayProps) {
+  // useId's colons aren't safe inside url(#...)
+  const patternId = `map-grid-${useId().replace(/:/g, '')}`;
+  const tile = gridPatternTile(grid);
+  if (!tile || !(aspect > 0)) return null;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 100 ${100 * aspect}`}
+      preserveAspectRatio="none"
+    >
+      <defs>
+        <pattern
+          id={patternId}
+          patternUnits="userSpaceOnUse"
+          x={grid.grid_offset_x}
+          y={grid.grid_offset_y}
+          width={tile.width}
+          height={tile.height}
+        >
+          <path d={tile.path} fill="none" stroke={grid.grid_color} strokeWidth={0.15} strokeLinecap="round" />
+        </pattern>
+      </defs>
+      <rect width="100" height={100 * aspect} fill={`url(#${patternId})`} opacity={grid.grid_opacity} />
+    </svg>
+  );
+}
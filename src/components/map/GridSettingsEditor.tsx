@@ -0,0 +1,175 @@
+import { X } from 'lucide-react';
+import { TerminalButton } from '@/components/ui/TerminalButton';
+import { TerminalInput } from '@/components/ui/TerminalInput';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MapGridSettings, MapGridType } from './types';
+
+const GRID_TYPES: { type: MapGridType; label: string }[] = [
+  { type: 'none', label: 'No grid' },
+  { type: 'square', label: 'Squares' },
+  { type: 'hex_pointy', label: 'Hexes (pointy top)' },
+  { type: 'hex_flat', label: 'Hexes (flat top)' },
+];
+
+interface GridSettingsEditorProps {
+  grid: MapGridSettings;
+  isDirty: boolean;
+  isSaving: boolean;
+  onChange: (updates: Partial<MapGridSettings>) => void;
+  onSave: () => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function SliderField({ label, value, min, max, step, format = (v) => v.toFixed(2), onChange }: SliderFieldProps) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground uppercase tracking-wider">{label}</span>
+        <span className="font-mono">{format(value)}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([v]) => onChange(v)} />
+    </div>
+  );
+}
+
+/**
+ * Calibrate a map's grid against its image. Changes preview on the canvas
+ * straight away and are only stored on save.
+ */
+export function GridSettingsEditor({ grid, isDirty, isSaving, onChange, onSave, onReset, onClose }: GridSettingsEditorProps) {
+  const hasGrid = grid.grid_type !== 'none';
+  const parseNumber = (text: string, fallback: number) => {
+    const value = parseFloat(text);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return (
+    <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-primary font-mono">Grid &amp; Scale</h4>
+        <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground uppercase tracking-wider">Grid</p>
+          <Select value={grid.grid_type} onValueChange={(v) => onChange({ grid_type: v as MapGridType })}>
+            <SelectTrigger className="bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRID_TYPES.map(({ type, label }) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-[1fr_4rem] gap-2">
+          <TerminalInput
+            key={`distance-${grid.cell_distance}`}
+            label="One cell is"
+            type="number"
+            min={0}
+            step="any"
+            defaultValue={grid.cell_distance}
+            onBlur={(e) => onChange({ cell_distance: parseNumber(e.target.value, grid.cell_distance) })}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          />
+          <TerminalInput
+            key={`unit-${grid.distance_unit}`}
+            label="Unit"
+            defaultValue={grid.distance_unit}
+            onBlur={(e) => onChange({ distance_unit: e.target.value.trim() || grid.distance_unit })}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          />
+        </div>
+      </div>
+
+      {/* Cell size also sets the ruler's scale, so it stays editable without a visible grid */}
+      <SliderField
+        label="Cell size (% of map width)"
+        value={grid.grid_size}
+        min={0.5}
+        max={25}
+        step={0.05}
+        onChange={(grid_size) => onChange({ grid_size })}
+      />
+
+      {hasGrid && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <SliderField
+              label="Offset X"
+              value={grid.grid_offset_x}
+              min={0}
+              max={grid.grid_size * 2}
+              step={0.01}
+              onChange={(grid_offset_x) => onChange({ grid_offset_x })}
+            />
+            <SliderField
+              label="Offset Y"
+              value={grid.grid_offset_y}
+              min={0}
+              max={grid.grid_size * 2}
+              step={0.01}
+              onChange={(grid_offset_y) => onChange({ grid_offset_y })}
+            />
+          </div>
+
+          <div className="grid grid-cols-[auto_1fr] gap-3 items-end">
+            <label className="space-y-1.5 text-xs">
+              <span className="block text-muted-foreground uppercase tracking-wider">Colour</span>
+              <input
+                type="color"
+                value={grid.grid_color}
+                onChange={(e) => onChange({ grid_color: e.target.value })}
+                className="w-10 h-8 bg-transparent border border-border rounded cursor-pointer"
+              />
+            </label>
+            <SliderField
+              label="Opacity"
+              value={grid.grid_opacity}
+              min={0.05}
+              max={1}
+              step={0.05}
+              format={(v) => `${Math.round(v * 100)}%`}
+              onChange={(grid_opacity) => onChange({ grid_opacity })}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={grid.snap_to_grid}
+              onCheckedChange={(checked) => onChange({ snap_to_grid: checked === true })}
+            />
+            Snap markers and moves to cell centres
+          </label>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <TerminalButton variant="outline" size="sm" onClick={onReset} disabled={!isDirty || isSaving}>
+          Reset
+        </TerminalButton>
+        <TerminalButton size="sm" onClick={onSave} disabled={!isDirty || isSaving}>
+          Save Grid
+        </TerminalButton>
+      </div>
+    </div>
+  );
+}
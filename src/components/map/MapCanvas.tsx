@@ -1,45 +1,101 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
-import { ZoomIn, ZoomOut, RotateCcw, Trash2, X, Move } from 'lucide-react';
+import { ZoomIn, ZoomOut, RotateCcw, Trash2, X, Move, CornerDownRight, Footprints } from 'lucide-react';
+import { toast } from 'sonner';
 import { MarkerIcon } from './MarkerIcon';
-import type { MapMarker, MapLegendItem, MarkerVisibility, MapFogRegion } from './types';
+import { TerritoryOverlay } from './TerritoryOverlay';
+import { FogOverlay } from './FogOverlay';
+import { GridOverlay } from './GridOverlay';
+import { MovementOverlay } from './MovementOverlay';
+import { MapPicker } from './MapPicker';
+import type { TerritoryOwnerOption } from './TerritoryEditor';
+import type { CampaignMap, MapMarker, MapLegendItem, MarkerVisibility, MapFogRegion, MapGridSettings, MapMovementPath, MapPlacementMode, MapTerritory, TerritoryPoint, FogTool, FogRegionDraft } from './types';
+import { simplifyStroke } from '@/lib/fog';
+import { formatDistance, measurePath, snapToGrid } from '@/lib/mapGrid';
 import { TerminalInput } from '@/components/ui/TerminalInput';
 import { TerminalButton } from '@/components/ui/TerminalButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface MapCanvasProps {
   imageUrl: string;
+  // Image height / width as last recorded for the map
+  imageAspect: number | null;
   markers: MapMarker[];
   legendItems: MapLegendItem[];
   fogRegions: MapFogRegion[];
+  territories: MapTerritory[];
+  ownerColors: Record<string, string>;
+  // Other maps in the campaign that markers can drill down into
+  linkableMaps: CampaignMap[];
+  grid: MapGridSettings;
+  movementPaths: MapMovementPath[];
+  selectedPathId?: string | null;
+  // Players who can be given markers to move
+  players: TerritoryOwnerOption[];
+  // The viewer's campaign_players.id, if they're a player
+  currentPlayerId: string | null;
   isGM: boolean;
   // Placement state
-  placementMode: 'select' | 'place' | 'fog';
+  placementMode: MapPlacementMode;
+  selectedTerritoryId: string | null;
+  selectedFogRegionId: string | null;
+  fogTool: FogTool;
+  brushSize: number;
   selectedLegendItemId: string | null;
   gmOnlyMode: boolean;
   // Callbacks
   onAddMarker: (posX: number, posY: number, legendItemId: string, visibility: MarkerVisibility) => void;
-  onUpdateMarker: (markerId: string, updates: { label?: string | null; positionX?: number; positionY?: number; visibility?: MarkerVisibility }) => void;
+  onUpdateMarker: (markerId: string, updates: { label?: string | null; positionX?: number; positionY?: number; visibility?: MarkerVisibility; linkedMapId?: string | null; ownerPlayerId?: string | null; movementAllowance?: number | null }) => void;
   onDeleteMarker: (markerId: string) => void;
-  onAddFogRegion: (posX: number, posY: number, width: number, height: number) => void;
-  onToggleFogRegion: (regionId: string, revealed: boolean) => void;
+  onAddFogRegion: (region: FogRegionDraft) => void;
+  onSelectFogRegion: (regionId: string | null) => void;
   onDeleteFogRegion: (regionId: string) => void;
+  onAddTerritory: (points: TerritoryPoint[]) => void;
+  onSelectTerritory: (territoryId: string | null) => void;
+  onOpenMap: (mapId: string) => void;
+  // The database measures the route itself
+  onSubmitMove: (markerId: string, points: TerritoryPoint[]) => void;
+  onImageAspect?: (aspect: number) => void;
 }
 
+// How close (in % of the map) a click must be to the first corner to close a polygon
+const CLOSE_DISTANCE = 1.5;
+
+const NO_OWNER = 'none';
+
 export function MapCanvas({
   imageUrl,
+  imageAspect,
   markers,
   legendItems,
   fogRegions,
+  territories,
+  ownerColors,
+  linkableMaps,
+  grid,
+  movementPaths,
+  selectedPathId,
+  players,
+  currentPlayerId,
   isGM,
   placementMode,
+  selectedTerritoryId,
+  selectedFogRegionId,
+  fogTool,
+  brushSize,
   selectedLegendItemId,
   gmOnlyMode,
   onAddMarker,
   onUpdateMarker,
   onDeleteMarker,
   onAddFogRegion,
-  onToggleFogRegion,
+  onSelectFogRegion,
   onDeleteFogRegion,
+  onAddTerritory,
+  onSelectTerritory,
+  onOpenMap,
+  onSubmitMove,
+  onImageAspect,
 }: MapCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -55,8 +111,117 @@ export function MapCanvas({
   // Fog drawing state
   const [fogDrawStart, setFogDrawStart] = useState<{ x: number; y: number } | null>(null);
   const [fogDrawCurrent, setFogDrawCurrent] = useState<{ x: number; y: number } | null>(null);
+  const [brushStroke, setBrushStroke] = useState<TerritoryPoint[]>([]);
+  
+  // Polygon drawing state, shared by territories and polygon fog
+  const [draftPoints, setDraftPoints] = useState<TerritoryPoint[]>([]);
+  const [draftCursor, setDraftCursor] = useState<TerritoryPoint | null>(null);
+  const drawingPolygon = placementMode === 'territory' || (placementMode === 'fog' && fogTool === 'polygon');
+  
+  // Ruler and move routes. Moves start at the marker being moved.
+  const [routePoints, setRoutePoints] = useState<TerritoryPoint[]>([]);
+  const [routeCursor, setRouteCursor] = useState<TerritoryPoint | null>(null);
+  const [movingMarkerId, setMovingMarkerId] = useState<string | null>(null);
+  const routing = placementMode === 'measure' || placementMode === 'move';
+  
+  // Image height / width, for keeping grid cells square
+  const [aspect, setAspect] = useState(imageAspect ?? 1);
 
   const legendMap = new Map(legendItems.map(l => [l.id, l]));
+  const linkedMapTitles = new Map(linkableMaps.map(m => [m.id, m.title]));
+  const playerNames = new Map(players.map(p => [p.id, p.name]));
+  const canMove = (marker: MapMarker) => isGM || (!!currentPlayerId && marker.owner_player_id === currentPlayerId);
+  const movingMarker = movingMarkerId ? markers.find(m => m.id === movingMarkerId) ?? null : null;
+  
+  const snap = useCallback(
+    (point: TerritoryPoint) => (grid.snap_to_grid ? snapToGrid(grid, point, aspect) : point),
+    [grid, aspect]
+  );
+  
+  const routeMeasure = measurePath(grid, routeCursor ? [...routePoints, routeCursor] : routePoints, aspect);
+  const allowance = movingMarker?.movement_allowance ?? null;
+  const overAllowance = allowance !== null && routeMeasure.distance > allowance + 1e-6;
+  const routeLabel = routePoints.length === 0
+    ? null
+    : `${formatDistance(grid, routeMeasure)}${placementMode === 'move' && allowance !== null ? ` / ${allowance} ${grid.distance_unit}` : ''}`;
+  
+  const cancelRoute = useCallback(() => {
+    setRoutePoints([]);
+    setRouteCursor(null);
+    setMovingMarkerId(null);
+  }, []);
+  
+  const finishMove = useCallback(() => {
+    if (!movingMarkerId || routePoints.length < 2) return;
+    const { distance } = measurePath(grid, routePoints, aspect);
+    const limit = markers.find(m => m.id === movingMarkerId)?.movement_allowance ?? null;
+    // Players can't ask for more than the allowance; GMs may overrule it
+    if (!isGM && limit !== null && distance > limit + 1e-6) {
+      toast.error(`That route is ${formatDistance(grid, measurePath(grid, routePoints, aspect))}, more than the ${limit} ${grid.distance_unit} allowed`);
+      return;
+    }
+    onSubmitMove(movingMarkerId, routePoints);
+    cancelRoute();
+  }, [movingMarkerId, routePoints, grid, aspect, markers, isGM, onSubmitMove, cancelRoute]);
+  
+  const finishPolygon = useCallback(() => {
+    if (draftPoints.length >= 3) {
+      if (placementMode === 'territory') {
+        onAddTerritory(draftPoints);
+      } else {
+        onAddFogRegion({ shape: 'polygon', points: draftPoints });
+      }
+    }
+    setDraftPoints([]);
+    setDraftCursor(null);
+  }, [draftPoints, placementMode, onAddTerritory, onAddFogRegion]);
+  
+  // Drop a half-drawn shape when switching tools
+  useEffect(() => {
+    setDraftPoints([]);
+    setDraftCursor(null);
+    setBrushStroke([]);
+    cancelRoute();
+  }, [placementMode, fogTool, cancelRoute]);
+  
+  // Keyboard shortcuts while drawing: Enter closes, Backspace undoes a corner, Escape cancels
+  useEffect(() => {
+    if (!drawingPolygon || draftPoints.length === 0) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        finishPolygon();
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        setDraftPoints(points => points.slice(0, -1));
+      } else if (e.key === 'Escape') {
+        setDraftPoints([]);
+        setDraftCursor(null);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawingPolygon, draftPoints.length, finishPolygon]);
+  
+  // Same keys for routes; a move keeps its starting point
+  useEffect(() => {
+    if (!routing || routePoints.length === 0) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && placementMode === 'move') {
+        finishMove();
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        setRoutePoints(points => (placementMode === 'move' && points.length <= 1 ? points : points.slice(0, -1)));
+      } else if (e.key === 'Escape') {
+        cancelRoute();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [routing, routePoints.length, placementMode, finishMove, cancelRoute]);
   
   // Calculate position from mouse event relative to image
   const getRelativePosition = useCallback((e: React.MouseEvent | MouseEvent) => {
@@ -99,14 +264,34 @@ export function MapCanvas({
         setFogDrawCurrent(pos);
       }
     }
-  }, [draggingMarkerId, dragStart, fogDrawStart, placementMode, getRelativePosition, markers]);
+    
+    // Extend the brush stroke
+    if (brushStroke.length > 0 && placementMode === 'fog') {
+      const pos = getRelativePosition(e);
+      if (pos) {
+        setBrushStroke(points => [...points, pos]);
+      }
+    }
+    
+    // Rubber-band the next polygon edge
+    if (drawingPolygon && draftPoints.length > 0) {
+      setDraftCursor(getRelativePosition(e));
+    }
+    
+    // And the next leg of a route
+    if (routing && routePoints.length > 0) {
+      const pos = getRelativePosition(e);
+      setRouteCursor(pos ? snap(pos) : null);
+    }
+  }, [draggingMarkerId, dragStart, fogDrawStart, brushStroke.length, placementMode, drawingPolygon, draftPoints.length, routing, routePoints.length, getRelativePosition, snap, markers]);
   
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     // Finish marker drag
     if (draggingMarkerId && dragStart) {
       const pos = getRelativePosition(e);
       if (pos) {
-        onUpdateMarker(draggingMarkerId, { positionX: pos.x, positionY: pos.y });
+        const snapped = snap(pos);
+        onUpdateMarker(draggingMarkerId, { positionX: snapped.x, positionY: snapped.y });
       }
       setDraggingMarkerId(null);
       setDragStart(null);
@@ -120,19 +305,28 @@ export function MapCanvas({
       if (width > 2 && height > 2) {
         const posX = Math.min(fogDrawStart.x, fogDrawCurrent.x);
         const posY = Math.min(fogDrawStart.y, fogDrawCurrent.y);
-        onAddFogRegion(posX, posY, width, height);
+        onAddFogRegion({ shape: 'rect', positionX: posX, positionY: posY, width, height });
       }
       setFogDrawStart(null);
       setFogDrawCurrent(null);
     }
-  }, [draggingMarkerId, dragStart, fogDrawStart, fogDrawCurrent, placementMode, getRelativePosition, onUpdateMarker, onAddFogRegion]);
+    
+    // Finish a brush stroke
+    if (brushStroke.length > 0 && placementMode === 'fog') {
+      onAddFogRegion({ shape: 'brush', points: simplifyStroke(brushStroke), brushSize });
+      setBrushStroke([]);
+    }
+  }, [draggingMarkerId, dragStart, fogDrawStart, fogDrawCurrent, brushStroke, brushSize, placementMode, getRelativePosition, snap, onUpdateMarker, onAddFogRegion]);
 
   const handleMapMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!isGM) return;
     
-    if (placementMode === 'fog') {
+    if (placementMode === 'fog' && fogTool !== 'polygon') {
       const pos = getRelativePosition(e);
-      if (pos) {
+      if (!pos) return;
+      if (fogTool === 'brush') {
+        setBrushStroke([pos]);
+      } else {
         setFogDrawStart(pos);
         setFogDrawCurrent(pos);
       }
@@ -140,16 +334,76 @@ export function MapCanvas({
   };
   
   const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isGM || placementMode !== 'place' || !selectedLegendItemId) return;
+    // Ruler and moves are open to everyone
+    if (routing) {
+      // A move starts by clicking the marker
+      if (placementMode === 'move' && !movingMarkerId) return;
+      const pos = getRelativePosition(e);
+      if (!pos) return;
+      const point = snap(pos);
+      
+      // Ignore the repeat click of a double-click
+      const last = routePoints[routePoints.length - 1];
+      if (last && Math.hypot(point.x - last.x, point.y - last.y) < 0.5) return;
+      
+      setRoutePoints(points => [...points, point]);
+      return;
+    }
+    
+    if (!isGM) return;
+    
+    if (drawingPolygon) {
+      const pos = getRelativePosition(e);
+      if (!pos) return;
+      
+      const first = draftPoints[0];
+      if (first && draftPoints.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) <= CLOSE_DISTANCE) {
+        finishPolygon();
+        return;
+      }
+      
+      // Ignore the repeat click of a double-click
+      const last = draftPoints[draftPoints.length - 1];
+      if (last && Math.hypot(pos.x - last.x, pos.y - last.y) < 0.5) return;
+      
+      setDraftPoints(points => [...points, pos]);
+      return;
+    }
+    
+    if (placementMode === 'select') {
+      onSelectTerritory(null);
+      onSelectFogRegion(null);
+      return;
+    }
+    
+    if (placementMode !== 'place' || !selectedLegendItemId) return;
     
     const pos = getRelativePosition(e);
     if (pos) {
-      onAddMarker(pos.x, pos.y, selectedLegendItemId, gmOnlyMode ? 'gm_only' : 'all');
+      const snapped = snap(pos);
+      onAddMarker(snapped.x, snapped.y, selectedLegendItemId, gmOnlyMode ? 'gm_only' : 'all');
     }
   };
 
   const handleMarkerClick = (e: React.MouseEvent, marker: MapMarker) => {
     e.stopPropagation();
+    // Pick up a marker to move, or measure from/to one
+    if (placementMode === 'move') {
+      if (!movingMarkerId && canMove(marker)) {
+        setMovingMarkerId(marker.id);
+        setRoutePoints([{ x: marker.position_x, y: marker.position_y }]);
+      }
+      return;
+    }
+    if (placementMode === 'measure') {
+      setRoutePoints(points => [...points, { x: marker.position_x, y: marker.position_y }]);
+      return;
+    }
+    // Players drill straight into linked maps; GMs get the edit popover
+    if (!isGM && marker.linked_map_id && linkedMapTitles.has(marker.linked_map_id)) {
+      onOpenMap(marker.linked_map_id);
+      return;
+    }
     if (!isGM || draggingMarkerId) return;
     
     if (placementMode === 'select') {
@@ -185,9 +439,11 @@ export function MapCanvas({
   };
 
   const getCursor = () => {
+    if (routing) return 'crosshair';
     if (!isGM) return 'default';
     if (placementMode === 'place') return 'crosshair';
     if (placementMode === 'fog') return 'crosshair';
+    if (placementMode === 'territory') return 'crosshair';
     return 'default';
   };
 
@@ -199,7 +455,8 @@ export function MapCanvas({
         maxScale={4}
         centerOnInit
         wheel={{ step: 0.1 }}
-        panning={{ disabled: (placementMode === 'place' || placementMode === 'fog' || !!draggingMarkerId) && isGM }}
+        panning={{ disabled: placementMode !== 'select' || !!draggingMarkerId }}
+        doubleClick={{ disabled: drawingPolygon || routing }}
       >
         {({ zoomIn, zoomOut, resetTransform }) => (
           <>
@@ -224,6 +481,10 @@ export function MapCanvas({
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseUp}
+                onDoubleClick={() => {
+                  if (drawingPolygon) finishPolygon();
+                  else if (placementMode === 'move') finishMove();
+                }}
                 style={{ cursor: getCursor() }}
               >
                 <img
@@ -232,62 +493,57 @@ export function MapCanvas({
                   alt="Campaign map"
                   className="max-w-full h-auto"
                   draggable={false}
+                  onLoad={(e) => {
+                    const img = e.currentTarget;
+                    if (img.naturalWidth > 0) {
+                      const loaded = img.naturalHeight / img.naturalWidth;
+                      setAspect(loaded);
+                      onImageAspect?.(loaded);
+                    }
+                  }}
+                />
+                
+                {/* Grid */}
+                <GridOverlay grid={grid} aspect={aspect} />
+                
+                {/* Territory ownership */}
+                <TerritoryOverlay
+                  territories={territories}
+                  ownerColors={ownerColors}
+                  selectedTerritoryId={selectedTerritoryId}
+                  draftPoints={placementMode === 'territory' ? draftPoints : []}
+                  draftCursor={draftCursor}
+                  onTerritoryClick={isGM && placementMode === 'select' ? onSelectTerritory : undefined}
                 />
                 
                 {/* Fog of War Regions */}
-                {fogRegions.map((region) => {
-                  // Players see unrevealed regions as opaque fog
-                  // GM sees all regions with visual indicator
-                  const showAsFog = !isGM && !region.revealed;
-                  const gmUnrevealed = isGM && !region.revealed;
-                  
-                  if (!isGM && region.revealed) return null; // Don't show revealed regions to players
-                  
-                  return (
-                    <div
-                      key={region.id}
-                      className={`absolute ${showAsFog ? 'bg-black/90' : gmUnrevealed ? 'bg-black/60 border-2 border-dashed border-amber-500/50' : 'bg-emerald-500/20 border-2 border-emerald-500/50'}`}
-                      style={{
-                        left: `${region.position_x}%`,
-                        top: `${region.position_y}%`,
-                        width: `${region.width}%`,
-                        height: `${region.height}%`,
-                      }}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (isGM && placementMode === 'select') {
-                          // Toggle reveal on click
-                          onToggleFogRegion(region.id, !region.revealed);
-                        }
-                      }}
-                      onContextMenu={(e) => {
-                        e.preventDefault();
-                        if (isGM) {
-                          onDeleteFogRegion(region.id);
-                        }
-                      }}
-                    >
-                      {isGM && (
-                        <div className="absolute inset-0 flex items-center justify-center text-xs text-white/70">
-                          {region.revealed ? '✓ Revealed' : 'Hidden'}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
+                <FogOverlay
+                  regions={fogRegions}
+                  isGM={isGM}
+                  selectedRegionId={selectedFogRegionId}
+                  draftRect={fogDrawStart && fogDrawCurrent ? {
+                    x: Math.min(fogDrawStart.x, fogDrawCurrent.x),
+                    y: Math.min(fogDrawStart.y, fogDrawCurrent.y),
+                    width: Math.abs(fogDrawCurrent.x - fogDrawStart.x),
+                    height: Math.abs(fogDrawCurrent.y - fogDrawStart.y),
+                  } : null}
+                  draftPoints={placementMode === 'fog' ? draftPoints : []}
+                  draftCursor={draftCursor}
+                  draftStroke={brushStroke}
+                  brushSize={brushSize}
+                  onRegionClick={isGM && placementMode === 'select' ? onSelectFogRegion : undefined}
+                  onRegionContextMenu={isGM ? onDeleteFogRegion : undefined}
+                />
                 
-                {/* Fog drawing preview */}
-                {fogDrawStart && fogDrawCurrent && (
-                  <div
-                    className="absolute bg-black/40 border-2 border-dashed border-amber-500"
-                    style={{
-                      left: `${Math.min(fogDrawStart.x, fogDrawCurrent.x)}%`,
-                      top: `${Math.min(fogDrawStart.y, fogDrawCurrent.y)}%`,
-                      width: `${Math.abs(fogDrawCurrent.x - fogDrawStart.x)}%`,
-                      height: `${Math.abs(fogDrawCurrent.y - fogDrawStart.y)}%`,
-                    }}
-                  />
-                )}
+                {/* Pending moves and the route being drawn */}
+                <MovementOverlay
+                  paths={movementPaths.filter(p => p.status === 'pending' || p.id === selectedPathId)}
+                  selectedPathId={selectedPathId}
+                  draftPoints={routePoints}
+                  draftCursor={routeCursor}
+                  draftLabel={routeLabel}
+                  draftTone={placementMode === 'measure' ? 'ruler' : overAllowance ? 'over' : 'move'}
+                />
                 
                 {/* Markers */}
                 {markers.map((marker) => {
@@ -298,6 +554,7 @@ export function MapCanvas({
                   const isHovered = hoveredMarkerId === marker.id;
                   const isGmOnly = marker.visibility === 'gm_only';
                   const isDragging = draggingMarkerId === marker.id;
+                  const linkedTitle = marker.linked_map_id ? linkedMapTitles.get(marker.linked_map_id) : undefined;
                   
                   // Calculate display position (original + drag offset if dragging)
                   const displayX = isDragging ? marker.position_x + dragOffset.x : marker.position_x;
@@ -307,8 +564,10 @@ export function MapCanvas({
                     <div
                       key={marker.id}
                       className={`absolute transform -translate-x-1/2 -translate-y-1/2 transition-transform ${
-                        isGM && placementMode === 'select' ? 'cursor-grab active:cursor-grabbing hover:scale-110' : isGM ? 'cursor-pointer' : 'hover:scale-105'
-                      } ${isGmOnly ? 'opacity-60' : ''} ${isDragging ? 'z-50 scale-110' : ''}`}
+                        placementMode === 'move'
+                          ? canMove(marker) ? 'cursor-pointer hover:scale-110' : 'opacity-50'
+                          : isGM && placementMode === 'select' ? 'cursor-grab active:cursor-grabbing hover:scale-110' : isGM || linkedTitle ? 'cursor-pointer' : 'hover:scale-105'
+                      } ${isGmOnly ? 'opacity-60' : ''} ${isDragging || marker.id === movingMarkerId ? 'z-50 scale-110' : ''}`}
                       style={{
                         left: `${displayX}%`,
                         top: `${displayY}%`,
@@ -320,6 +579,13 @@ export function MapCanvas({
                     >
                       <MarkerIcon shape={legend.shape} color={legend.color} size={32} iconUrl={legend.icon_url} />
                       
+                      {/* Drill-down badge */}
+                      {linkedTitle && (
+                        <div className="absolute -bottom-1 -right-1 bg-primary text-primary-foreground rounded-full p-0.5 pointer-events-none">
+                          <CornerDownRight className="w-2.5 h-2.5" />
+                        </div>
+                      )}
+                      
                       {/* Drag indicator for GM */}
                       {isGM && placementMode === 'select' && isHovered && !isDragging && !isEditing && (
                         <div className="absolute -top-6 left-1/2 -translate-x-1/2 bg-background/90 rounded px-1.5 py-0.5 text-[10px] flex items-center gap-1 whitespace-nowrap z-10 border border-border shadow-sm">
@@ -341,6 +607,23 @@ export function MapCanvas({
                               {marker.label}
                             </div>
                           )}
+                          {/* Who moves it and how far */}
+                          {(marker.owner_player_id || marker.movement_allowance !== null) && (
+                            <div className="text-muted-foreground text-[10px] mt-0.5 flex items-center gap-1">
+                              <Footprints className="w-2.5 h-2.5" />
+                              {[
+                                marker.owner_player_id ? playerNames.get(marker.owner_player_id) : null,
+                                marker.movement_allowance !== null ? `${marker.movement_allowance} ${grid.distance_unit}` : null,
+                              ].filter(Boolean).join(' • ')}
+                            </div>
+                          )}
+                          {/* Drill-down target */}
+                          {linkedTitle && (
+                            <div className="text-primary/80 text-[10px] mt-0.5 flex items-center gap-1">
+                              <CornerDownRight className="w-2.5 h-2.5" />
+                              {isGM ? linkedTitle : `Click to open ${linkedTitle}`}
+                            </div>
+                          )}
                           {/* GM-only indicator */}
                           {isGmOnly && (
                             <div className="text-amber-400 text-[10px] mt-0.5 flex items-center gap-1">
@@ -356,6 +639,7 @@ export function MapCanvas({
                         <div 
                           className="absolute left-1/2 -translate-x-1/2 top-10 bg-background border border-border rounded-lg p-3 shadow-xl z-20 min-w-[200px]"
                           onClick={(e) => e.stopPropagation()}
+                          onMouseDown={(e) => e.stopPropagation()}
                         >
                           <div className="flex items-center justify-between mb-2">
                             <span className="text-xs text-muted-foreground">Edit Marker</span>
@@ -373,6 +657,62 @@ export function MapCanvas({
                             onKeyDown={(e) => e.key === 'Enter' && handleSaveLabel()}
                           />
                           
+                          <div className="flex gap-1 items-center mb-2">
+                            <Select
+                              value={marker.owner_player_id ?? NO_OWNER}
+                              onValueChange={(v) => onUpdateMarker(marker.id, { ownerPlayerId: v === NO_OWNER ? null : v })}
+                            >
+                              <SelectTrigger className="bg-input border-border h-8 text-xs flex-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                                {players.map((player) => (
+                                  <SelectItem key={player.id} value={player.id}>{player.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <input
+                              key={`${marker.id}-${marker.movement_allowance}`}
+                              type="number"
+                              min={0}
+                              step="any"
+                              defaultValue={marker.movement_allowance ?? ''}
+                              placeholder="Move"
+                              title={`Movement allowance in ${grid.distance_unit}; empty for unlimited`}
+                              className="w-16 h-8 bg-input border border-border rounded px-2 text-xs font-mono"
+                              onBlur={(e) => {
+                                const value = e.target.value.trim() === '' ? null : Math.max(0, parseFloat(e.target.value));
+                                const allowance = value === null || Number.isNaN(value) ? null : value;
+                                if (allowance !== marker.movement_allowance) onUpdateMarker(marker.id, { movementAllowance: allowance });
+                              }}
+                              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                            />
+                          </div>
+                          
+                          {linkableMaps.length > 0 && (
+                            <div className="flex gap-1 items-center mb-2">
+                              <MapPicker
+                                maps={linkableMaps}
+                                value={linkedTitle ? marker.linked_map_id : null}
+                                onChange={(mapId) => onUpdateMarker(marker.id, { linkedMapId: mapId })}
+                                noneLabel="No linked map"
+                                className="flex-1"
+                              />
+                              {linkedTitle && (
+                                <TerminalButton
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => onOpenMap(marker.linked_map_id!)}
+                                  className="text-xs px-2"
+                                  title={`Open ${linkedTitle}`}
+                                >
+                                  <CornerDownRight className="w-3 h-3" />
+                                </TerminalButton>
+                              )}
+                            </div>
+                          )}
+                          
                           <div className="flex gap-1 justify-between">
                             <div className="flex gap-1">
                               <TerminalButton 
@@ -424,7 +764,39 @@ export function MapCanvas({
       {/* Fog mode indicator */}
       {isGM && placementMode === 'fog' && (
         <div className="absolute bottom-2 left-2 z-10 bg-amber-600/90 text-white px-3 py-1.5 rounded-lg text-sm">
-          Draw rectangle to add fog region • Click fog to reveal/hide • Right-click to delete
+          {fogTool === 'rect' && 'Drag a rectangle to add fog'}
+          {fogTool === 'brush' && 'Paint to add fog'}
+          {fogTool === 'polygon' && (draftPoints.length === 0
+            ? 'Click to place the first corner of the fog'
+            : `${draftPoints.length} corner${draftPoints.length === 1 ? '' : 's'} • Click the first corner or double-click to close`)}
+          {' • Right-click fog to delete'}
+        </div>
+      )}
+      
+      {/* Ruler indicator */}
+      {placementMode === 'measure' && (
+        <div className="absolute bottom-2 left-2 z-10 bg-sky-600/90 text-white px-3 py-1.5 rounded-lg text-sm">
+          {routePoints.length === 0
+            ? 'Click the map or a marker to start measuring'
+            : `${routeLabel} • Click to add a waypoint • Backspace to undo • Esc to clear`}
+        </div>
+      )}
+      
+      {/* Move indicator */}
+      {placementMode === 'move' && (
+        <div className={`absolute bottom-2 left-2 z-10 ${overAllowance ? 'bg-destructive/90' : 'bg-green-700/90'} text-white px-3 py-1.5 rounded-lg text-sm`}>
+          {!movingMarker
+            ? isGM ? 'Click a marker to plan its move' : 'Click one of your markers to plan its move'
+            : `${routeLabel} • Click to add waypoints • Double-click or Enter to ${isGM ? 'move' : 'submit'} • Esc to cancel`}
+        </div>
+      )}
+      
+      {/* Territory mode indicator */}
+      {isGM && placementMode === 'territory' && (
+        <div className="absolute bottom-2 left-2 z-10 bg-amber-600/90 text-white px-3 py-1.5 rounded-lg text-sm">
+          {draftPoints.length === 0
+            ? 'Click to place the first corner of a territory'
+            : `${draftPoints.length} corner${draftPoints.length === 1 ? '' : 's'} • Click the first corner or double-click to close • Backspace to undo • Esc to cancel`}
         </div>
       )}
     </div>
@@ -1,22 +1,32 @@
 import { useState, useEffect, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Trash2, Plus, HelpCircle, X, Loader2 } from 'lucide-react';
+import { Trash2, Plus, HelpCircle, X, Loader2, CornerDownRight, Check, Ban, Eye } from 'lucide-react';
 import { OverlayLoading, OverlayEmpty } from '@/components/ui/OverlayPanel';
 import { MapUploader } from './MapUploader';
 import { MapCanvas } from './MapCanvas';
 import { LegendEditor } from './LegendEditor';
 import { MarkerPalette } from './MarkerPalette';
 import { MarkerIcon } from './MarkerIcon';
+import { TerritoryEditor, TerritoryControlSummary } from './TerritoryEditor';
+import { FogRevealEditor } from './FogRevealEditor';
+import { MapPicker, MapBreadcrumbs } from './MapPicker';
+import { GridSettingsEditor } from './GridSettingsEditor';
 import { TerminalButton } from '@/components/ui/TerminalButton';
+import { TerminalInput } from '@/components/ui/TerminalInput';
 import { useCreateComponent } from '@/hooks/useDashboardComponents';
+import { useCampaignPlayers } from '@/hooks/useCampaignPlayers';
+import { useAuth } from '@/hooks/useAuth';
 import { getSpawnPosition } from '@/lib/canvasPlacement';
 import { toast } from 'sonner';
 import { uploadCampaignImage, ImageUploadError } from '@/lib/imageStorage';
+import { mapDescendants } from '@/lib/mapHierarchy';
 import {
   useCampaignMap,
+  useCampaignMaps,
   useMapRealtime,
   useCreateMap,
   useUpdateMap,
+  useRecordMapAspect,
   useDeleteMap,
   useCreateLegendItem,
   useUpdateLegendItem,
@@ -27,8 +37,17 @@ import {
   useCreateFogRegion,
   useUpdateFogRegion,
   useDeleteFogRegion,
+  useSetFogReveals,
+  useCreateTerritory,
+  useUpdateTerritory,
+  useDeleteTerritory,
+  useSetTerritoryAdjacency,
+  useTerritoryOwners,
+  useSubmitMove,
+  useReviewMove,
+  useDeleteMove,
 } from '@/hooks/useMapData';
-import type { MarkerShape, MarkerVisibility } from './types';
+import type { CampaignMap, FogTool, MapFogRegion, MapGridSettings, MapMovementPath, MapPlacementMode, MapTerritory, MarkerShape, MovementStatus } from './types';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -61,10 +80,34 @@ function markMapInstructionsSeen(campaignId: string): void {
   localStorage.setItem(`campaign-${campaignId}-map-instructions-seen`, 'true');
 }
 
+const MOVE_STATUS_CLASSES: Record<MovementStatus, string> = {
+  pending: 'text-amber-400',
+  approved: 'text-green-400',
+  rejected: 'text-destructive',
+};
+
+function gridSettings(map: CampaignMap): MapGridSettings {
+  return {
+    grid_type: map.grid_type,
+    grid_size: map.grid_size,
+    grid_offset_x: map.grid_offset_x,
+    grid_offset_y: map.grid_offset_y,
+    grid_color: map.grid_color,
+    grid_opacity: map.grid_opacity,
+    snap_to_grid: map.snap_to_grid,
+    cell_distance: map.cell_distance,
+    distance_unit: map.distance_unit,
+  };
+}
+
 export function MapManager({ campaignId, isGM }: MapManagerProps) {
-  const { data, isLoading, error } = useCampaignMap(campaignId);
+  // null shows the campaign's first map
+  const [selectedMapId, setSelectedMapId] = useState<string | null>(null);
+  const { data, isLoading, error } = useCampaignMap(campaignId, selectedMapId);
+  const { data: maps = [] } = useCampaignMaps(campaignId);
   const createMap = useCreateMap();
   const updateMap = useUpdateMap();
+  const recordMapAspect = useRecordMapAspect();
   const deleteMap = useDeleteMap();
   const createLegendItem = useCreateLegendItem();
   const updateLegendItem = useUpdateLegendItem();
@@ -75,18 +118,59 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
   const createFogRegion = useCreateFogRegion();
   const updateFogRegion = useUpdateFogRegion();
   const deleteFogRegion = useDeleteFogRegion();
+  const setFogReveals = useSetFogReveals();
+  const createTerritory = useCreateTerritory();
+  const updateTerritory = useUpdateTerritory();
+  const deleteTerritory = useDeleteTerritory();
+  const setTerritoryAdjacency = useSetTerritoryAdjacency();
+  const { owners, ownerColors } = useTerritoryOwners(campaignId);
+  const submitMove = useSubmitMove();
+  const reviewMove = useReviewMove();
+  const deleteMove = useDeleteMove();
   const createComponent = useCreateComponent();
+  const { user } = useAuth();
+  const { data: players = [] } = useCampaignPlayers(campaignId);
+  const currentPlayerId = players.find(p => p.user_id === user?.id)?.id ?? null;
 
   // Enable real-time updates
   useMapRealtime(campaignId, data?.map?.id);
 
-  const [placementMode, setPlacementMode] = useState<'select' | 'place' | 'fog'>('select');
+  const [placementMode, setPlacementMode] = useState<MapPlacementMode>('select');
+  const [selectedTerritoryId, setSelectedTerritoryId] = useState<string | null>(null);
+  const [selectedFogRegionId, setSelectedFogRegionId] = useState<string | null>(null);
+  const [fogTool, setFogTool] = useState<FogTool>('rect');
+  const [brushSize, setBrushSize] = useState(6);
   const [selectedLegendItemId, setSelectedLegendItemId] = useState<string | null>(null);
   const [gmOnlyMode, setGmOnlyMode] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [isReplacingMap, setIsReplacingMap] = useState(false);
+  const [isAddingMap, setIsAddingMap] = useState(false);
+  const [newMapTitle, setNewMapTitle] = useState('');
+  const [newMapParentId, setNewMapParentId] = useState<string | null>(null);
   const replaceMapInputRef = useRef<HTMLInputElement>(null);
+  const [tab, setTab] = useState('map');
+  // Unsaved grid changes, previewed on the canvas
+  const [gridDraft, setGridDraft] = useState<Partial<MapGridSettings> | null>(null);
+  const [showGridSettings, setShowGridSettings] = useState(false);
+  const [selectedPathId, setSelectedPathId] = useState<string | null>(null);
+
+  // Fall back to the first map if the one being viewed is deleted
+  useEffect(() => {
+    if (selectedMapId && data && !data.map) setSelectedMapId(null);
+  }, [selectedMapId, data]);
+
+  // Selections and tools belong to the map they were made on
+  const currentMapId = data?.map?.id;
+  useEffect(() => {
+    setSelectedTerritoryId(null);
+    setSelectedFogRegionId(null);
+    setSelectedLegendItemId(null);
+    setPlacementMode('select');
+    setGridDraft(null);
+    setShowGridSettings(false);
+    setSelectedPathId(null);
+  }, [currentMapId]);
 
   // Show instructions on first open per campaign (for GMs only)
   useEffect(() => {
@@ -96,14 +180,14 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
     }
   }, [isGM, data?.map?.image_url, campaignId]);
 
-  const handleAddMapToDashboard = async () => {
+  const handleAddMapToDashboard = async (map: CampaignMap) => {
     const placement = getSpawnPosition(450, 400);
     try {
       await createComponent.mutateAsync({
         campaign_id: campaignId,
-        name: 'Campaign Map',
+        name: map.title || 'Campaign Map',
         component_type: 'map',
-        config: {},
+        config: { map_id: map.id },
         position_x: placement.position_x,
         position_y: placement.position_y,
         width: 450,
@@ -129,7 +213,10 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
     );
   }
 
-  const { map, legendItems, markers, fogRegions } = data || { map: null, legendItems: [], markers: [], fogRegions: [] };
+  const { map, legendItems, markers, fogRegions, territories, territoryLinks, movementPaths } =
+    data || { map: null, legendItems: [], markers: [], fogRegions: [], territories: [], territoryLinks: [], movementPaths: [] };
+  const selectedTerritory = territories.find(t => t.id === selectedTerritoryId) ?? null;
+  const selectedFogRegion = fogRegions.find(r => r.id === selectedFogRegionId) ?? null;
 
   // No map uploaded yet
   if (!map || !map.image_url) {
@@ -152,18 +239,140 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
     );
   }
 
+  const renderTerritoryEditor = (territory: MapTerritory) => (
+    <TerritoryEditor
+      key={territory.id}
+      territory={territory}
+      territories={territories}
+      territoryLinks={territoryLinks}
+      owners={owners}
+      ownerColors={ownerColors}
+      onUpdate={(territoryId, updates) => updateTerritory.mutate({ territoryId, ...updates, campaignId })}
+      onSetAdjacency={(territoryId, adjacentIds) => {
+        setTerritoryAdjacency.mutate({ mapId: map.id, territoryId, adjacentIds, campaignId });
+      }}
+      onDelete={(territoryId) => {
+        deleteTerritory.mutate({ territoryId, campaignId });
+        setSelectedTerritoryId(null);
+      }}
+      onClose={() => setSelectedTerritoryId(null)}
+    />
+  );
+
+  const renderFogRevealEditor = (region: MapFogRegion) => (
+    <FogRevealEditor
+      key={region.id}
+      region={region}
+      label={`Fog Region ${fogRegions.indexOf(region) + 1}`}
+      players={owners}
+      ownerColors={ownerColors}
+      onSetRevealed={(regionId, revealed) => updateFogRegion.mutate({ regionId, revealed, campaignId })}
+      onSetRevealedTo={(regionId, playerIds) => setFogReveals.mutate({ regionId, mapId: map.id, playerIds, campaignId })}
+      onDelete={(regionId) => {
+        deleteFogRegion.mutate({ regionId, campaignId });
+        setSelectedFogRegionId(null);
+      }}
+      onClose={() => setSelectedFogRegionId(null)}
+    />
+  );
+
+  const savedGrid = gridSettings(map);
+  const grid: MapGridSettings = { ...savedGrid, ...gridDraft };
+  const isGridDirty = !!gridDraft && Object.entries(gridDraft).some(([key, value]) => savedGrid[key as keyof MapGridSettings] !== value);
+
+  const markerName = (markerId: string) => {
+    const marker = markers.find(m => m.id === markerId);
+    if (!marker) return 'Hidden marker';
+    return marker.label || legendItems.find(l => l.id === marker.legend_item_id)?.name || 'Marker';
+  };
+
+  const showPath = (path: MapMovementPath) => {
+    setSelectedPathId(path.id);
+    setTab('map');
+  };
+
+  const startNewMap = () => {
+    setNewMapTitle('');
+    setNewMapParentId(map.id);
+    setIsAddingMap(true);
+  };
+
+  // New sub-map or separate map
+  if (isGM && isAddingMap) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-primary font-mono">New Map</h4>
+          <TerminalButton variant="outline" size="sm" onClick={() => setIsAddingMap(false)}>
+            Cancel
+          </TerminalButton>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <TerminalInput
+            label="Title"
+            value={newMapTitle}
+            onChange={(e) => setNewMapTitle(e.target.value)}
+            placeholder="Region, city, dungeon..."
+          />
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">Inside</p>
+            <MapPicker maps={maps} value={newMapParentId} onChange={setNewMapParentId} noneLabel="Top level" />
+          </div>
+        </div>
+        <MapUploader
+          campaignId={campaignId}
+          onUpload={(imageUrl) => createMap.mutate(
+            { campaignId, imageUrl, title: newMapTitle.trim() || undefined, parentMapId: newMapParentId },
+            {
+              onSuccess: (created) => {
+                setSelectedMapId(created.id);
+                setIsAddingMap(false);
+              },
+            }
+          )}
+          isLoading={createMap.isPending}
+        />
+      </div>
+    );
+  }
+
   // Map exists - show map with controls
   return (
     <div className="space-y-4">
-      <Tabs defaultValue="map" className="w-full">
+      {/* Map picker and where this map sits */}
+      {(maps.length > 1 || isGM) && (
+        <div className="flex items-center gap-3 flex-wrap">
+          {maps.length > 1 && (
+            <MapPicker maps={maps} value={map.id} onChange={(mapId) => mapId && setSelectedMapId(mapId)} className="w-56" />
+          )}
+          <MapBreadcrumbs maps={maps} mapId={map.id} onNavigate={setSelectedMapId} />
+          {isGM && (
+            <TerminalButton variant="outline" size="sm" onClick={startNewMap} className="gap-1 ml-auto">
+              <Plus className="w-3 h-3" />
+              New Map
+            </TerminalButton>
+          )}
+        </div>
+      )}
+
+      <Tabs value={tab} onValueChange={setTab} className="w-full">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-2">
             <TabsList>
               <TabsTrigger value="map">Map</TabsTrigger>
               <TabsTrigger value="legend">Legend ({legendItems.length})</TabsTrigger>
+              {isGM && maps.length > 1 && (
+                <TabsTrigger value="maps">Maps ({maps.length})</TabsTrigger>
+              )}
+              {(isGM || territories.length > 0) && (
+                <TabsTrigger value="territories">Territories ({territories.length})</TabsTrigger>
+              )}
               {isGM && fogRegions.length > 0 && (
                 <TabsTrigger value="fog">Fog ({fogRegions.length})</TabsTrigger>
               )}
+              {(isGM || movementPaths.length > 0) && (
+                <TabsTrigger value="moves">Moves ({movementPaths.length})</TabsTrigger>
+              )}
             </TabsList>
             
             {/* Help button */}
@@ -181,7 +390,7 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
               <TerminalButton
                 variant="outline"
                 size="sm"
-                onClick={handleAddMapToDashboard}
+                onClick={() => handleAddMapToDashboard(map)}
                 disabled={createComponent.isPending}
                 className="gap-1"
               >
@@ -243,27 +452,45 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
         </div>
 
         <TabsContent value="map" className="space-y-4">
-          {/* GM Marker Palette */}
-          {isGM && (
-            <MarkerPalette
-              legendItems={legendItems}
-              selectedItemId={selectedLegendItemId}
-              onSelectItem={setSelectedLegendItemId}
-              placementMode={placementMode}
-              onModeChange={setPlacementMode}
-              gmOnlyMode={gmOnlyMode}
-              onGmOnlyModeChange={setGmOnlyMode}
-            />
-          )}
+          {/* Marker Palette; players get the ruler and move tools */}
+          <MarkerPalette
+            isGM={isGM}
+            legendItems={legendItems}
+            selectedItemId={selectedLegendItemId}
+            onSelectItem={setSelectedLegendItemId}
+            placementMode={placementMode}
+            onModeChange={setPlacementMode}
+            gmOnlyMode={gmOnlyMode}
+            onGmOnlyModeChange={setGmOnlyMode}
+            fogTool={fogTool}
+            onFogToolChange={setFogTool}
+            brushSize={brushSize}
+            onBrushSizeChange={setBrushSize}
+            showGridSettings={showGridSettings}
+            onToggleGridSettings={() => setShowGridSettings(!showGridSettings)}
+          />
 
           {/* Map Canvas */}
           <MapCanvas
             imageUrl={map.image_url}
+            imageAspect={map.image_aspect}
             markers={isGM ? markers : markers.filter(m => m.visibility === 'all')}
             legendItems={legendItems}
             fogRegions={fogRegions}
+            territories={territories}
+            ownerColors={ownerColors}
+            linkableMaps={maps.filter(m => m.id !== map.id)}
+            grid={grid}
+            movementPaths={movementPaths}
+            selectedPathId={selectedPathId}
+            players={owners}
+            currentPlayerId={currentPlayerId}
             isGM={isGM}
             placementMode={placementMode}
+            selectedTerritoryId={selectedTerritoryId}
+            selectedFogRegionId={selectedFogRegionId}
+            fogTool={fogTool}
+            brushSize={brushSize}
             selectedLegendItemId={selectedLegendItemId}
             gmOnlyMode={gmOnlyMode}
             onAddMarker={(posX, posY, legendItemId, visibility) => {
@@ -286,24 +513,82 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
             onDeleteMarker={(markerId) => {
               deleteMarker.mutate({ markerId, campaignId });
             }}
-            onAddFogRegion={(posX, posY, width, height) => {
-              createFogRegion.mutate({
-                mapId: map.id,
-                positionX: posX,
-                positionY: posY,
-                width,
-                height,
-                campaignId,
-              });
+            onAddFogRegion={(region) => {
+              createFogRegion.mutate({ mapId: map.id, ...region, campaignId });
             }}
-            onToggleFogRegion={(regionId, revealed) => {
-              updateFogRegion.mutate({ regionId, revealed, campaignId });
+            onSelectFogRegion={(regionId) => {
+              setSelectedFogRegionId(regionId);
+              if (regionId) setSelectedTerritoryId(null);
             }}
             onDeleteFogRegion={(regionId) => {
               deleteFogRegion.mutate({ regionId, campaignId });
+              if (regionId === selectedFogRegionId) setSelectedFogRegionId(null);
+            }}
+            onAddTerritory={(points) => {
+              createTerritory.mutate(
+                { mapId: map.id, name: `Territory ${territories.length + 1}`, points, campaignId },
+                {
+                  onSuccess: (territory) => {
+                    setPlacementMode('select');
+                    setSelectedTerritoryId(territory.id);
+                  },
+                }
+              );
+            }}
+            onSelectTerritory={setSelectedTerritoryId}
+            onOpenMap={setSelectedMapId}
+            onSubmitMove={(markerId, points) => {
+              // A GM moving a player's marker records the move against that player
+              const ownerId = markers.find(m => m.id === markerId)?.owner_player_id ?? null;
+              submitMove.mutate({
+                mapId: map.id,
+                markerId,
+                playerId: isGM ? ownerId : currentPlayerId,
+                points,
+                approve: isGM,
+                campaignId,
+              });
+            }}
+            onImageAspect={(aspect) => {
+              // Keeps the database's route measurements in step with the image
+              if (isGM && (map.image_aspect === null || Math.abs(map.image_aspect - aspect) > 1e-4)) {
+                recordMapAspect.mutate({ mapId: map.id, aspect, campaignId });
+              }
             }}
           />
 
+          {/* Grid calibration */}
+          {isGM && showGridSettings && (
+            <GridSettingsEditor
+              grid={grid}
+              isDirty={isGridDirty}
+              isSaving={updateMap.isPending}
+              onChange={(updates) => setGridDraft({ ...gridDraft, ...updates })}
+              onSave={() => {
+                if (!gridDraft) return;
+                updateMap.mutate({ mapId: map.id, grid: gridDraft }, { onSuccess: () => setGridDraft(null) });
+              }}
+              onReset={() => setGridDraft(null)}
+              onClose={() => {
+                setShowGridSettings(false);
+                setGridDraft(null);
+              }}
+            />
+          )}
+
+          {/* Selected territory */}
+          {isGM && selectedTerritory && renderTerritoryEditor(selectedTerritory)}
+
+          {/* Selected fog region */}
+          {isGM && selectedFogRegion && renderFogRevealEditor(selectedFogRegion)}
+
+          {/* Territory control */}
+          {territories.length > 0 && (
+            <div className="p-3 bg-muted/30 border border-border rounded-lg">
+              <TerritoryControlSummary territories={territories} owners={owners} ownerColors={ownerColors} />
+            </div>
+          )}
+
           {/* Legend Reference (always visible) */}
           {legendItems.length > 0 && (
             <div className="flex flex-wrap gap-3 p-3 bg-muted/30 border border-border rounded-lg">
@@ -341,6 +626,188 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
           />
         </TabsContent>
 
+        {/* Map list: titles and nesting */}
+        {isGM && (
+          <TabsContent value="maps">
+            <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+              <h4 className="text-sm font-semibold text-primary">Campaign Maps</h4>
+              <p className="text-xs text-muted-foreground">
+                Nest region and dungeon maps inside the map they zoom in from, then link markers to them so players can drill down.
+              </p>
+              <div className="space-y-2">
+                {maps.map((m) => (
+                  <div
+                    key={m.id}
+                    className={`grid grid-cols-[1fr_12rem_auto] gap-2 items-center p-2 bg-background/50 border rounded ${
+                      m.id === map.id ? 'border-primary' : 'border-border'
+                    }`}
+                  >
+                    <TerminalInput
+                      key={`${m.id}-${m.title}`}
+                      defaultValue={m.title}
+                      className="h-8 text-xs"
+                      onBlur={(e) => {
+                        const title = e.target.value.trim();
+                        if (title && title !== m.title) updateMap.mutate({ mapId: m.id, title });
+                      }}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    />
+                    <MapPicker
+                      maps={maps}
+                      value={m.parent_map_id}
+                      onChange={(parentMapId) => updateMap.mutate({ mapId: m.id, parentMapId })}
+                      noneLabel="Top level"
+                      exclude={new Set([m.id, ...mapDescendants(maps, m.id)])}
+                    />
+                    <TerminalButton
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSelectedMapId(m.id)}
+                      disabled={m.id === map.id}
+                      title="Open map"
+                    >
+                      <CornerDownRight className="w-3 h-3" />
+                    </TerminalButton>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </TabsContent>
+        )}
+
+        {/* Territory Management Tab */}
+        <TabsContent value="territories">
+          <div className="space-y-4">
+            <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+              <h4 className="text-sm font-semibold text-primary">Territory Control</h4>
+              {territories.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">
+                  No territories yet. Use the "Territory" tool on the Map tab to outline regions.
+                </p>
+              ) : (
+                <>
+                  <TerritoryControlSummary territories={territories} owners={owners} ownerColors={ownerColors} />
+                  <div className="space-y-2">
+                    {territories.map((territory) => {
+                      const ownerName = owners.find(o => o.id === territory.owner_player_id)?.name;
+                      return (
+                        <button
+                          key={territory.id}
+                          onClick={() => isGM && setSelectedTerritoryId(territory.id)}
+                          className={`w-full flex items-center justify-between p-3 bg-background/50 border rounded text-left ${
+                            territory.id === selectedTerritoryId ? 'border-primary' : 'border-border'
+                          } ${isGM ? 'hover:bg-muted/50' : 'cursor-default'}`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div
+                              className="w-4 h-4 rounded"
+                              style={{ backgroundColor: territory.owner_player_id ? ownerColors[territory.owner_player_id] : undefined }}
+                            />
+                            <div>
+                              <p className="text-sm font-mono">{territory.name}</p>
+                              <p className="text-xs text-muted-foreground">{ownerName ?? 'Unclaimed'}</p>
+                            </div>
+                          </div>
+                          <span className="text-xs text-muted-foreground font-mono">Value {territory.value}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {isGM && selectedTerritory && renderTerritoryEditor(selectedTerritory)}
+          </div>
+        </TabsContent>
+
+        {/* Movement Tab */}
+        <TabsContent value="moves">
+          <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+            <h4 className="text-sm font-semibold text-primary">Movement</h4>
+            <p className="text-xs text-muted-foreground">
+              {isGM
+                ? 'Players plot routes for their markers with the Move tool. Approving a move puts the marker at the end of its route.'
+                : 'Plot a route for one of your markers with the Move tool. The GM approves it before the marker moves.'}
+            </p>
+            {movementPaths.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">No moves yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {movementPaths.map((path) => {
+                  const allowance = markers.find(m => m.id === path.marker_id)?.movement_allowance ?? null;
+                  const playerName = path.player_id ? owners.find(o => o.id === path.player_id)?.name ?? 'Unknown player' : 'GM';
+                  const isPending = path.status === 'pending';
+                  const canWithdraw = isPending && !!currentPlayerId && path.player_id === currentPlayerId;
+                  return (
+                    <div
+                      key={path.id}
+                      className={`flex items-center justify-between gap-3 p-3 bg-background/50 border rounded ${
+                        path.id === selectedPathId ? 'border-primary' : 'border-border'
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-mono truncate">{markerName(path.marker_id)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {/* Measured by the database from the route and the map's grid */}
+                          {playerName} •{' '}
+                          <span className={allowance !== null && path.distance > allowance + 1e-6 ? 'text-destructive' : undefined}>
+                            {Math.round(path.distance * 10) / 10}
+                            {allowance !== null && ` of ${allowance}`} {map.distance_unit}
+                          </span>{' '}
+                          •{' '}
+                          <span className={MOVE_STATUS_CLASSES[path.status]}>{path.status}</span>
+                        </p>
+                        {path.gm_note && <p className="text-xs text-muted-foreground italic mt-1">{path.gm_note}</p>}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <TerminalButton variant="outline" size="sm" onClick={() => showPath(path)} title="Show on map">
+                          <Eye className="w-3 h-3" />
+                        </TerminalButton>
+                        {isGM && isPending && (
+                          <>
+                            <TerminalButton
+                              size="sm"
+                              onClick={() => reviewMove.mutate({ path, status: 'approved', campaignId })}
+                              disabled={reviewMove.isPending}
+                              title="Approve and move the marker"
+                            >
+                              <Check className="w-3 h-3" />
+                            </TerminalButton>
+                            <TerminalButton
+                              variant="outline"
+                              size="sm"
+                              onClick={() => reviewMove.mutate({ path, status: 'rejected', campaignId })}
+                              disabled={reviewMove.isPending}
+                              className="text-destructive hover:bg-destructive/10"
+                              title="Reject"
+                            >
+                              <Ban className="w-3 h-3" />
+                            </TerminalButton>
+                          </>
+                        )}
+                        {(isGM || canWithdraw) && (
+                          <TerminalButton
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              deleteMove.mutate({ pathId: path.id, campaignId });
+                              if (path.id === selectedPathId) setSelectedPathId(null);
+                            }}
+                            title={isGM ? 'Delete' : 'Withdraw'}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </TerminalButton>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
         {/* Fog of War Management Tab */}
         {isGM && (
           <TabsContent value="fog">
@@ -348,7 +815,7 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
               <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4">
                 <h4 className="text-sm font-semibold text-amber-400 mb-2">Fog of War Regions</h4>
                 <p className="text-xs text-muted-foreground mb-4">
-                  Manage hidden areas on your map. Click to reveal/hide, or delete regions you no longer need.
+                  Manage hidden areas on your map. Reveal a region to everyone, or pick the players whose warbands have explored it.
                 </p>
                 
                 {fogRegions.length === 0 ? (
@@ -357,42 +824,38 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
                   </p>
                 ) : (
                   <div className="space-y-2">
-                    {fogRegions.map((region, index) => (
-                      <div
-                        key={region.id}
-                        className="flex items-center justify-between p-3 bg-background/50 border border-border rounded"
-                      >
-                        <div className="flex items-center gap-3">
-                          <div className={`w-4 h-4 rounded ${region.revealed ? 'bg-emerald-500' : 'bg-amber-500'}`} />
-                          <div>
-                            <p className="text-sm font-mono">Region {index + 1}</p>
-                            <p className="text-xs text-muted-foreground">
-                              {Math.round(region.width)}% × {Math.round(region.height)}% • {region.revealed ? 'Revealed' : 'Hidden'}
-                            </p>
+                    {fogRegions.map((region, index) => {
+                      const status = region.revealed
+                        ? 'Revealed'
+                        : region.revealed_to.length > 0
+                          ? `Revealed to ${region.revealed_to.length}`
+                          : 'Hidden';
+                      return (
+                        <button
+                          key={region.id}
+                          onClick={() => setSelectedFogRegionId(region.id)}
+                          className={`w-full flex items-center justify-between p-3 bg-background/50 border rounded text-left hover:bg-muted/50 ${
+                            region.id === selectedFogRegionId ? 'border-amber-500' : 'border-border'
+                          }`}
+                        >
+                          <div className="flex items-center gap-3">
+                            <div className={`w-4 h-4 rounded ${region.revealed ? 'bg-emerald-500' : region.revealed_to.length > 0 ? 'bg-sky-500' : 'bg-amber-500'}`} />
+                            <div>
+                              <p className="text-sm font-mono">Region {index + 1}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {region.shape === 'rect' ? 'Rectangle' : region.shape === 'polygon' ? 'Polygon' : 'Brush'}
+                                {' '}• {Math.round(region.width)}% × {Math.round(region.height)}% • {status}
+                              </p>
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <TerminalButton
-                            variant="outline"
-                            size="sm"
-                            onClick={() => updateFogRegion.mutate({ regionId: region.id, revealed: !region.revealed, campaignId })}
-                          >
-                            {region.revealed ? 'Hide' : 'Reveal'}
-                          </TerminalButton>
-                          <TerminalButton
-                            variant="outline"
-                            size="sm"
-                            onClick={() => deleteFogRegion.mutate({ regionId: region.id, campaignId })}
-                            className="text-destructive hover:bg-destructive/10"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </TerminalButton>
-                        </div>
-                      </div>
-                    ))}
+                        </button>
+                      );
+                    })}
                   </div>
                 )}
               </div>
+
+              {selectedFogRegion && renderFogRevealEditor(selectedFogRegion)}
             </div>
           </TabsContent>
         )}
@@ -404,8 +867,8 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Campaign Map?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the map, all legend items, and all markers.
-              This action cannot be undone.
+              This will permanently delete "{map.title}", its legend items, and all markers.
+              Maps inside it become top-level maps. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -413,6 +876,7 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
             <AlertDialogAction
               onClick={() => {
                 deleteMap.mutate({ mapId: map.id, campaignId });
+                setSelectedMapId(null);
                 setShowDeleteConfirm(false);
               }}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
@@ -462,7 +926,21 @@ export function MapManager({ campaignId, isGM }: MapManagerProps) {
               <div className="p-3 bg-amber-500/10 rounded-lg border border-amber-500/20">
                 <h4 className="text-sm font-semibold text-amber-400 mb-1">🌫️ Fog of War</h4>
                 <p className="text-xs text-muted-foreground">
-                  Select "Fog" mode and draw rectangles to hide areas. Click fog regions to reveal/hide. Right-click to delete, or use the Fog tab for management.
+                  Select "Fog" mode and draw a rectangle, polygon or brush stroke to hide an area. In Select mode, click fog to reveal it to everyone or to chosen players. Right-click to delete, or use the Fog tab for management.
+                </p>
+              </div>
+
+              <div className="p-3 bg-muted/30 rounded-lg">
+                <h4 className="text-sm font-semibold text-foreground mb-1">🏴 Territories</h4>
+                <p className="text-xs text-muted-foreground">
+                  Select "Territory" mode and click to outline a region; click the first corner or double-click to close it. In Select mode, click a territory to set its owner, value and neighbours.
+                </p>
+              </div>
+
+              <div className="p-3 bg-muted/30 rounded-lg">
+                <h4 className="text-sm font-semibold text-foreground mb-1">📏 Grid, Ruler &amp; Moves</h4>
+                <p className="text-xs text-muted-foreground">
+                  Use "Grid" to line a square or hex grid up with the map and set how far one cell is. "Ruler" measures routes; "Move" plots a marker's route, which players submit for approval in the Moves tab.
                 </p>
               </div>
 
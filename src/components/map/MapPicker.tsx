@@ -0,0 +1,77 @@
+import { ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CampaignMap } from './types';
+import { flattenMapTree, mapBreadcrumbs } from '@/lib/mapHierarchy';
+
+const NONE = 'none';
+
+interface MapPickerProps {
+  maps: CampaignMap[];
+  value: string | null;
+  onChange: (mapId: string | null) => void;
+  // Offer an empty choice (e.g. "Top level" or "First map") that maps to null
+  noneLabel?: string;
+  // Maps that can't be picked, like a map's own descendants when choosing its parent
+  exclude?: Set<string>;
+  placeholder?: string;
+  className?: string;
+}
+
+/** Map select with nested maps indented under their parent */
+export function MapPicker({ maps, value, onChange, noneLabel, exclude, placeholder = 'Select map', className }: MapPickerProps) {
+  const options = flattenMapTree(maps).filter(({ map }) => !exclude?.has(map.id));
+
+  return (
+    <Select
+      value={value ?? (noneLabel ? NONE : undefined)}
+      onValueChange={(v) => onChange(v === NONE ? null : v)}
+    >
+      <SelectTrigger className={`bg-input border-border h-8 text-xs ${className ?? ''}`}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {noneLabel && <SelectItem value={NONE}>{noneLabel}</SelectItem>}
+        {options.map(({ map, depth }) => (
+          <SelectItem key={map.id} value={map.id}>
+            <span style={{ paddingLeft: `${depth * 0.75}rem` }}>
+              {depth > 0 && <span className="text-muted-foreground">↳ </span>}
+              {map.title}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface MapBreadcrumbsProps {
+  maps: CampaignMap[];
+  mapId: string | null | undefined;
+  onNavigate: (mapId: string) => void;
+}
+
+/** Path from the top-level map to the current one; hidden for top-level maps */
+export function MapBreadcrumbs({ maps, mapId, onNavigate }: MapBreadcrumbsProps) {
+  const chain = mapBreadcrumbs(maps, mapId);
+  if (chain.length < 2) return null;
+
+  return (
+    <nav className="flex items-center gap-1 text-xs font-mono min-w-0" aria-label="Map breadcrumbs">
+      {chain.map((map, index) => {
+        const isCurrent = index === chain.length - 1;
+        return (
+          <span key={map.id} className="flex items-center gap-1 min-w-0">
+            {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground shrink-0" />}
+            {isCurrent ? (
+              <span className="text-primary truncate">{map.title}</span>
+            ) : (
+              <button onClick={() => onNavigate(map.id)} className="text-muted-foreground hover:text-foreground hover:underline truncate">
+                {map.title}
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
@@ -1,18 +1,40 @@
-import { MousePointer2, Eye, EyeOff, Cloud } from 'lucide-react';
+import { MousePointer2, Eye, EyeOff, Cloud, Hexagon, Square, Pentagon, Brush, Ruler, Footprints, Grid3x3 } from 'lucide-react';
 import { MarkerIcon } from './MarkerIcon';
-import type { MapLegendItem } from './types';
+import type { FogTool, MapLegendItem, MapPlacementMode } from './types';
 
 interface MarkerPaletteProps {
+  // Players only get the select, ruler and move tools
+  isGM: boolean;
   legendItems: MapLegendItem[];
   selectedItemId: string | null;
   onSelectItem: (itemId: string | null) => void;
-  placementMode: 'select' | 'place' | 'fog';
-  onModeChange: (mode: 'select' | 'place' | 'fog') => void;
+  placementMode: MapPlacementMode;
+  onModeChange: (mode: MapPlacementMode) => void;
   gmOnlyMode: boolean;
   onGmOnlyModeChange: (gmOnly: boolean) => void;
+  fogTool: FogTool;
+  onFogToolChange: (tool: FogTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  showGridSettings: boolean;
+  onToggleGridSettings: () => void;
 }
 
+const FOG_TOOLS: { tool: FogTool; label: string; icon: typeof Square }[] = [
+  { tool: 'rect', label: 'Rectangle', icon: Square },
+  { tool: 'polygon', label: 'Polygon', icon: Pentagon },
+  { tool: 'brush', label: 'Brush', icon: Brush },
+];
+
+// Brush widths in % of the map
+const BRUSH_SIZES = [
+  { size: 3, label: 'S' },
+  { size: 6, label: 'M' },
+  { size: 12, label: 'L' },
+];
+
 export function MarkerPalette({
+  isGM,
   legendItems,
   selectedItemId,
   onSelectItem,
@@ -20,6 +42,12 @@ export function MarkerPalette({
   onModeChange,
   gmOnlyMode,
   onGmOnlyModeChange,
+  fogTool,
+  onFogToolChange,
+  brushSize,
+  onBrushSizeChange,
+  showGridSettings,
+  onToggleGridSettings,
 }: MarkerPaletteProps) {
   return (
     <div className="flex items-center gap-2 p-2 bg-muted/50 border border-border rounded-lg flex-wrap">
@@ -27,61 +55,135 @@ export function MarkerPalette({
       <button
         onClick={() => onModeChange('select')}
         className={`p-2 rounded ${placementMode === 'select' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
-        title="Select mode - click markers to edit, drag to move"
+        title={isGM ? 'Select mode - click markers to edit, drag to move' : 'Select mode - click linked markers to open their map'}
       >
         <MousePointer2 className="w-4 h-4" />
       </button>
       
-      <div className="w-px h-6 bg-border" />
+      {/* Ruler and movement */}
+      <button
+        onClick={() => onModeChange('measure')}
+        className={`p-2 rounded flex items-center gap-1 text-xs ${
+          placementMode === 'measure' ? 'bg-sky-500/20 text-sky-400 border border-sky-500' : 'hover:bg-muted'
+        }`}
+        title="Ruler - click to measure a route in campaign units"
+      >
+        <Ruler className="w-4 h-4" />
+        <span className="hidden sm:inline">Ruler</span>
+      </button>
+      <button
+        onClick={() => onModeChange('move')}
+        className={`p-2 rounded flex items-center gap-1 text-xs ${
+          placementMode === 'move' ? 'bg-green-500/20 text-green-400 border border-green-500' : 'hover:bg-muted'
+        }`}
+        title={isGM ? 'Move - click a marker, then plot its route' : 'Move - plot a route for one of your markers for the GM to approve'}
+      >
+        <Footprints className="w-4 h-4" />
+        <span className="hidden sm:inline">Move</span>
+      </button>
+      
+      {isGM && (
+        <>
+          <div className="w-px h-6 bg-border" />
+      
+          {/* Legend Items as Placeable Markers */}
+          {legendItems.length === 0 ? (
+            <span className="text-xs text-muted-foreground px-2">Add legend items first</span>
+          ) : (
+            legendItems.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => {
+                  onModeChange('place');
+                  onSelectItem(item.id);
+                }}
+                className={`p-1.5 rounded border transition-colors ${
+                  placementMode === 'place' && selectedItemId === item.id 
+                    ? 'border-primary bg-primary/10' 
+                    : 'border-transparent hover:bg-muted'
+                }`}
+                title={`Place ${item.name}`}
+              >
+                <MarkerIcon shape={item.shape} color={item.color} size={24} iconUrl={item.icon_url} />
+              </button>
+            ))
+          )}
       
-      {/* Legend Items as Placeable Markers */}
-      {legendItems.length === 0 ? (
-        <span className="text-xs text-muted-foreground px-2">Add legend items first</span>
-      ) : (
-        legendItems.map((item) => (
+          <div className="w-px h-6 bg-border" />
+      
+          {/* Fog of War Tool */}
           <button
-            key={item.id}
-            onClick={() => {
-              onModeChange('place');
-              onSelectItem(item.id);
-            }}
-            className={`p-1.5 rounded border transition-colors ${
-              placementMode === 'place' && selectedItemId === item.id 
-                ? 'border-primary bg-primary/10' 
-                : 'border-transparent hover:bg-muted'
+            onClick={() => onModeChange('fog')}
+            className={`p-2 rounded flex items-center gap-1 text-xs ${
+              placementMode === 'fog' ? 'bg-amber-500/20 text-amber-400 border border-amber-500' : 'hover:bg-muted'
             }`}
-            title={`Place ${item.name}`}
+            title="Fog of war - draw regions to hide from players"
           >
-            <MarkerIcon shape={item.shape} color={item.color} size={24} iconUrl={item.icon_url} />
+            <Cloud className="w-4 h-4" />
+            <span className="hidden sm:inline">Fog</span>
           </button>
-        ))
-      )}
       
-      <div className="w-px h-6 bg-border" />
+          {/* Fog shape and brush size */}
+          {placementMode === 'fog' && (
+            <div className="flex items-center gap-1 px-1 border border-amber-500/30 rounded">
+              {FOG_TOOLS.map(({ tool, label, icon: Icon }) => (
+                <button
+                  key={tool}
+                  onClick={() => onFogToolChange(tool)}
+                  className={`p-1.5 rounded ${fogTool === tool ? 'bg-amber-500/20 text-amber-400' : 'hover:bg-muted'}`}
+                  title={`${label} fog`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                </button>
+              ))}
+              {fogTool === 'brush' && BRUSH_SIZES.map(({ size, label }) => (
+                <button
+                  key={size}
+                  onClick={() => onBrushSizeChange(size)}
+                  className={`px-1.5 py-1 rounded text-[10px] font-mono ${brushSize === size ? 'bg-amber-500/20 text-amber-400' : 'hover:bg-muted'}`}
+                  title={`Brush size ${label}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
       
-      {/* Fog of War Tool */}
-      <button
-        onClick={() => onModeChange('fog')}
-        className={`p-2 rounded flex items-center gap-1 text-xs ${
-          placementMode === 'fog' ? 'bg-amber-500/20 text-amber-400 border border-amber-500' : 'hover:bg-muted'
-        }`}
-        title="Fog of war - draw regions to hide from players"
-      >
-        <Cloud className="w-4 h-4" />
-        <span className="hidden sm:inline">Fog</span>
-      </button>
+          {/* Territory Tool */}
+          <button
+            onClick={() => onModeChange('territory')}
+            className={`p-2 rounded flex items-center gap-1 text-xs ${
+              placementMode === 'territory' ? 'bg-amber-500/20 text-amber-400 border border-amber-500' : 'hover:bg-muted'
+            }`}
+            title="Territory - click to add corners, click the first corner to close"
+          >
+            <Hexagon className="w-4 h-4" />
+            <span className="hidden sm:inline">Territory</span>
+          </button>
       
-      <div className="w-px h-6 bg-border" />
+          <div className="w-px h-6 bg-border" />
       
-      {/* Visibility Toggle */}
-      <button
-        onClick={() => onGmOnlyModeChange(!gmOnlyMode)}
-        className={`p-2 rounded flex items-center gap-1 text-xs ${gmOnlyMode ? 'bg-amber-500/20 text-amber-400' : 'hover:bg-muted'}`}
-        title={gmOnlyMode ? 'New markers: GM only' : 'New markers: Visible to all'}
-      >
-        {gmOnlyMode ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-        <span className="hidden sm:inline">{gmOnlyMode ? 'GM Only' : 'All'}</span>
-      </button>
+          {/* Visibility Toggle */}
+          <button
+            onClick={() => onGmOnlyModeChange(!gmOnlyMode)}
+            className={`p-2 rounded flex items-center gap-1 text-xs ${gmOnlyMode ? 'bg-amber-500/20 text-amber-400' : 'hover:bg-muted'}`}
+            title={gmOnlyMode ? 'New markers: GM only' : 'New markers: Visible to all'}
+          >
+            {gmOnlyMode ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            <span className="hidden sm:inline">{gmOnlyMode ? 'GM Only' : 'All'}</span>
+          </button>
+      
+          {/* Grid and scale */}
+          <button
+            onClick={onToggleGridSettings}
+            className={`p-2 rounded flex items-center gap-1 text-xs ${showGridSettings ? 'bg-primary/10 text-primary' : 'hover:bg-muted'}`}
+            title="Grid & scale - calibrate the grid and the distance one cell covers"
+          >
+            <Grid3x3 className="w-4 h-4" />
+            <span className="hidden sm:inline">Grid</span>
+          </button>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import type { MapMovementPath, TerritoryPoint } from './types';
+
+export type RouteTone = 'ruler' | 'move' | 'over';
+
+interface MovementOverlayProps {
+  // Submitted moves to draw; pending ones are dashed
+  paths: MapMovementPath[];
+  selectedPathId?: string | null;
+  // Route being drawn with the ruler or move tool
+  draftPoints?: TerritoryPoint[];
+  draftCursor?: TerritoryPoint | null;
+  draftLabel?: string | null;
+  draftTone?: RouteTone;
+}
+
+const TONE_COLORS: Record<RouteTone, string> = {
+  ruler: '#38bdf8',
+  move: '#22c55e',
+  over: '#ef4444',
+};
+
+const STATUS_COLORS: Record<MapMovementPath['status'], string> = {
+  pending: '#f59e0b',
+  approved: '#22c55e',
+  rejected: '#ef4444',
+};
+
+const toPath = (points: TerritoryPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+/** Movement routes and the ruler, in the map's percentage coordinates */
+export function MovementOverlay({
+  paths,
+  selectedPathId,
+  draftPoints = [],
+  draftCursor,
+  draftLabel,
+  draftTone = 'ruler',
+}: MovementOverlayProps) {
+  const draft = draftCursor ? [...draftPoints, draftCursor] : draftPoints;
+  const draftEnd = draft[draft.length - 1];
+  const draftColor = TONE_COLORS[draftTone];
+
+  return (
+    <>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {paths.filter(p => p.points.length >= 2).map((path) => {
+          const isSelected = path.id === selectedPathId;
+          const color = STATUS_COLORS[path.status];
+          const end = path.points[path.points.length - 1];
+          return (
+            <g key={path.id} opacity={isSelected ? 1 : 0.75}>
+              <polyline
+                points={toPath(path.points)}
+                fill="none"
+                stroke={color}
+                strokeWidth={isSelected ? 3 : 2}
+                strokeDasharray={path.status === 'pending' ? '6 4' : undefined}
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+              />
+              <circle cx={end.x} cy={end.y} r={0.7} fill={color} stroke="#000" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+            </g>
+          );
+        })}
+
+        {draft.length >= 1 && (
+          <>
+            <polyline
+              points={toPath(draft)}
+              fill="none"
+              stroke={draftColor}
+              strokeWidth={2.5}
+              strokeDasharray="5 3"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+            {draftPoints.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x}
+                cy={p.y}
+                r={i === 0 ? 0.8 : 0.5}
+                fill={i === 0 ? draftColor : '#fff'}
+                stroke={draftColor}
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </>
+        )}
+      </svg>
+
+      {/* Distance label follows the end of the route */}
+      {draftLabel && draftEnd && (
+        <div
+          className="absolute -translate-x-1/2 -translate-y-[160%] pointer-events-none px-1.5 py-0.5 rounded bg-background/90 border text-[11px] font-mono whitespace-nowrap"
+          style={{ left: `${draftEnd.x}%`, top: `${draftEnd.y}%`, color: draftColor, borderColor: draftColor }}
+        >
+          {draftLabel}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Trash2, X, Link2 } from 'lucide-react';
+import { TerminalButton } from '@/components/ui/TerminalButton';
+import { TerminalInput } from '@/components/ui/TerminalInput';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MapTerritory, MapTerritoryLink } from './types';
+import { buildAdjacency, suggestAdjacency, summarizeTerritoryControl, UNCLAIMED_COLOR } from '@/lib/territories';
+
+export interface TerritoryOwnerOption {
+  // campaign_players.id
+  id: string;
+  name: string;
+}
+
+const UNCLAIMED = 'unclaimed';
+
+interface TerritoryEditorProps {
+  territory: MapTerritory;
+  territories: MapTerritory[];
+  territoryLinks: MapTerritoryLink[];
+  owners: TerritoryOwnerOption[];
+  ownerColors: Record<string, string>;
+  onUpdate: (territoryId: string, updates: { name?: string; ownerPlayerId?: string | null; value?: number }) => void;
+  onSetAdjacency: (territoryId: string, adjacentIds: string[]) => void;
+  onDelete: (territoryId: string) => void;
+  onClose: () => void;
+}
+
+/** Edit one territory: name, holder, value and which territories border it */
+export function TerritoryEditor({
+  territory,
+  territories,
+  territoryLinks,
+  owners,
+  ownerColors,
+  onUpdate,
+  onSetAdjacency,
+  onDelete,
+  onClose,
+}: TerritoryEditorProps) {
+  const [name, setName] = useState(territory.name);
+  const [value, setValue] = useState(String(territory.value));
+
+  useEffect(() => {
+    setName(territory.name);
+    setValue(String(territory.value));
+  }, [territory.id, territory.name, territory.value]);
+
+  const adjacent = useMemo(
+    () => buildAdjacency(territoryLinks).get(territory.id) ?? new Set<string>(),
+    [territoryLinks, territory.id]
+  );
+
+  // Neighbours that look like they share a border but aren't linked yet
+  const suggested = useMemo(() => {
+    const ids = new Set<string>();
+    for (const [a, b] of suggestAdjacency(territories)) {
+      if (a === territory.id) ids.add(b);
+      if (b === territory.id) ids.add(a);
+    }
+    return [...ids].filter(id => !adjacent.has(id));
+  }, [territories, territory.id, adjacent]);
+
+  const others = territories.filter(t => t.id !== territory.id);
+
+  const saveDetails = () => {
+    const parsedValue = parseInt(value, 10);
+    const updates: { name?: string; value?: number } = {};
+    if (name.trim() && name.trim() !== territory.name) updates.name = name.trim();
+    if (!Number.isNaN(parsedValue) && parsedValue !== territory.value) updates.value = parsedValue;
+    if (Object.keys(updates).length > 0) onUpdate(territory.id, updates);
+  };
+
+  const toggleAdjacent = (otherId: string, linked: boolean) => {
+    const next = new Set(adjacent);
+    if (linked) next.add(otherId);
+    else next.delete(otherId);
+    onSetAdjacency(territory.id, [...next]);
+  };
+
+  return (
+    <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-primary font-mono">Territory</h4>
+        <button onClick={onClose} className="p-1 hover:bg-muted rounded" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_6rem] gap-3">
+        <TerminalInput
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveDetails}
+          onKeyDown={(e) => e.key === 'Enter' && saveDetails()}
+        />
+        <TerminalInput
+          label="Value"
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={saveDetails}
+          onKeyDown={(e) => e.key === 'Enter' && saveDetails()}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground uppercase tracking-wider">Held by</p>
+        <Select
+          value={territory.owner_player_id ?? UNCLAIMED}
+          onValueChange={(v) => onUpdate(territory.id, { ownerPlayerId: v === UNCLAIMED ? null : v })}
+        >
+          <SelectTrigger className="bg-input border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNCLAIMED}>Unclaimed</SelectItem>
+            {owners.map((owner) => (
+              <SelectItem key={owner.id} value={owner.id}>
+                <span className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: ownerColors[owner.id] }} />
+                  {owner.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground uppercase tracking-wider">Adjacent to</p>
+          {suggested.length > 0 && (
+            <button
+              onClick={() => onSetAdjacency(territory.id, [...adjacent, ...suggested])}
+              className="text-xs text-primary hover:underline flex items-center gap-1"
+            >
+              <Link2 className="w-3 h-3" />
+              Link {suggested.length} bordering
+            </button>
+          )}
+        </div>
+        {others.length === 0 ? (
+          <p className="text-xs text-muted-foreground italic">Draw more territories to connect them.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-1 max-h-40 overflow-y-auto">
+            {others.map((other) => (
+              <label key={other.id} className="flex items-center gap-2 text-xs cursor-pointer p-1 rounded hover:bg-muted/50">
+                <Checkbox
+                  checked={adjacent.has(other.id)}
+                  onCheckedChange={(checked) => toggleAdjacent(other.id, checked === true)}
+                />
+                <span className="truncate">{other.name}</span>
+                {suggested.includes(other.id) && <span className="text-[10px] text-amber-400">borders</span>}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <TerminalButton
+          variant="outline"
+          size="sm"
+          onClick={() => onDelete(territory.id)}
+          className="text-destructive hover:bg-destructive/10 gap-1"
+        >
+          <Trash2 className="w-3 h-3" />
+          Delete Territory
+        </TerminalButton>
+      </div>
+    </div>
+  );
+}
+
+interface TerritoryControlSummaryProps {
+  territories: MapTerritory[];
+  owners: TerritoryOwnerOption[];
+  ownerColors: Record<string, string>;
+  compact?: boolean;
+}
+
+/** Territories and total value held per player */
+export function TerritoryControlSummary({ territories, owners, ownerColors, compact = false }: TerritoryControlSummaryProps) {
+  const ownerNames = new Map(owners.map(o => [o.id, o.name]));
+  const control = summarizeTerritoryControl(territories);
+
+  if (control.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap ${compact ? 'gap-2' : 'gap-3'}`}>
+      {control.map((entry) => (
+        <div
+          key={entry.ownerId ?? UNCLAIMED}
+          className={`flex items-center gap-1 ${compact ? 'text-[10px]' : 'text-sm'}`}
+          title={`${entry.count} territor${entry.count === 1 ? 'y' : 'ies'}, value ${entry.value}`}
+        >
+          <div
+            className={`${compact ? 'w-2 h-2' : 'w-3 h-3'} rounded-sm`}
+            style={{ backgroundColor: entry.ownerId ? ownerColors[entry.ownerId] : UNCLAIMED_COLOR }}
+          />
+          <span className={`truncate ${compact ? 'max-w-[60px]' : ''}`}>
+            {entry.ownerId ? ownerNames.get(entry.ownerId) ?? 'Unknown' : 'Unclaimed'}
+          </span>
+          <span className="text-muted-foreground font-mono">
+            {entry.count}{!compact && entry.value > 0 ? ` (${entry.value})` : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
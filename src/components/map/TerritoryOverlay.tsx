@@ -0,0 +1,105 @@
+import type { MapTerritory, TerritoryPoint } from './types';
+import { polygonCentroid, UNCLAIMED_COLOR } from '@/lib/territories';
+
+interface TerritoryOverlayProps {
+  territories: MapTerritory[];
+  // campaign_players.id -> faction colour
+  ownerColors: Record<string, string>;
+  selectedTerritoryId?: string | null;
+  showLabels?: boolean;
+  // In-progress polygon while the GM is drawing
+  draftPoints?: TerritoryPoint[];
+  draftCursor?: TerritoryPoint | null;
+  onTerritoryClick?: (territoryId: string) => void;
+}
+
+const toPath = (points: TerritoryPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+/**
+ * Ownership overlay for map territories. Sits over the map image and shares
+ * its percentage coordinate space, so it lines up at any size.
+ */
+export function TerritoryOverlay({
+  territories,
+  ownerColors,
+  selectedTerritoryId,
+  showLabels = true,
+  draftPoints = [],
+  draftCursor,
+  onTerritoryClick,
+}: TerritoryOverlayProps) {
+  const colorOf = (territory: MapTerritory) =>
+    (territory.owner_player_id && ownerColors[territory.owner_player_id]) || UNCLAIMED_COLOR;
+
+  return (
+    <>
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {territories.filter(t => t.points.length >= 3).map((territory) => {
+          const color = colorOf(territory);
+          const isSelected = territory.id === selectedTerritoryId;
+          return (
+            <polygon
+              key={territory.id}
+              points={toPath(territory.points)}
+              fill={color}
+              fillOpacity={isSelected ? 0.45 : 0.25}
+              stroke={color}
+              strokeWidth={isSelected ? 3 : 1.5}
+              strokeDasharray={territory.owner_player_id ? undefined : '4 3'}
+              vectorEffect="non-scaling-stroke"
+              className={onTerritoryClick ? 'pointer-events-auto cursor-pointer' : undefined}
+              onClick={onTerritoryClick ? (e) => {
+                e.stopPropagation();
+                onTerritoryClick(territory.id);
+              } : undefined}
+            />
+          );
+        })}
+
+        {/* Polygon being drawn */}
+        {draftPoints.length > 0 && (
+          <>
+            <polyline
+              points={toPath(draftCursor ? [...draftPoints, draftCursor] : draftPoints)}
+              fill="rgba(255,255,255,0.1)"
+              stroke="#f59e0b"
+              strokeWidth={2}
+              strokeDasharray="5 3"
+              vectorEffect="non-scaling-stroke"
+            />
+            {draftPoints.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x}
+                cy={p.y}
+                r={i === 0 ? 0.9 : 0.6}
+                fill={i === 0 ? '#f59e0b' : '#fff'}
+                stroke="#f59e0b"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </>
+        )}
+      </svg>
+
+      {/* Labels live outside the stretched SVG so the text isn't distorted */}
+      {showLabels && territories.filter(t => t.points.length >= 3).map((territory) => {
+        const center = polygonCentroid(territory.points);
+        return (
+          <div
+            key={territory.id}
+            className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none px-1 rounded bg-background/70 text-[10px] font-mono whitespace-nowrap"
+            style={{ left: `${center.x}%`, top: `${center.y}%`, color: colorOf(territory) }}
+          >
+            {territory.name}
+          </div>
+        );
+      })}
+    </>
+  );
+}
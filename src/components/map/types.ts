@@ -1,15 +1,39 @@
 export type MarkerShape = 'circle' | 'square' | 'triangle' | 'diamond' | 'star' | 'custom';
 export type MarkerVisibility = 'all' | 'gm_only';
+export type MapGridType = 'none' | 'square' | 'hex_pointy' | 'hex_flat';
 
 export interface CampaignMap {
   id: string;
   campaign_id: string;
   image_url: string | null;
+  // Image height / width, recorded by the GM's client so the database can
+  // measure routes the same way the map does
+  image_aspect: number | null;
   title: string;
+  // Map this one zooms in from, for breadcrumbs
+  parent_map_id: string | null;
+  // Grid calibration in map units: 100 is the image width, and heights use
+  // the same scale so cells stay square
+  grid_type: MapGridType;
+  grid_size: number;
+  grid_offset_x: number;
+  grid_offset_y: number;
+  grid_color: string;
+  grid_opacity: number;
+  snap_to_grid: boolean;
+  // What one cell measures, e.g. 6 mi per hex
+  cell_distance: number;
+  distance_unit: string;
   created_at: string;
   updated_at: string;
 }
 
+// Everything the GM calibrates about a map's grid
+export type MapGridSettings = Pick<
+  CampaignMap,
+  'grid_type' | 'grid_size' | 'grid_offset_x' | 'grid_offset_y' | 'grid_color' | 'grid_opacity' | 'snap_to_grid' | 'cell_distance' | 'distance_unit'
+>;
+
 export interface MapLegendItem {
   id: string;
   map_id: string;
@@ -29,25 +53,107 @@ export interface MapMarker {
   position_x: number;
   position_y: number;
   visibility: MarkerVisibility;
+  // Map opened when the marker is clicked ("drill down")
+  linked_map_id: string | null;
+  // campaign_players.id of the player who may submit moves for it
+  owner_player_id: string | null;
+  // How far it may move per move, in the map's distance unit; null is unlimited
+  movement_allowance: number | null;
   created_at: string;
   // Joined from legend item
   legend_item?: MapLegendItem;
 }
 
+export type FogShape = 'rect' | 'polygon' | 'brush';
+
 export interface MapFogRegion {
   id: string;
   map_id: string;
+  shape: FogShape;
+  // Polygon vertices or brush stroke path, as percentages of the map image
+  points: TerritoryPoint[];
+  // Brush stroke width, in the same units
+  brush_size: number;
+  // Bounding box (including the brush radius for strokes)
   position_x: number;
   position_y: number;
   width: number;
   height: number;
+  // Lifted for everyone
   revealed: boolean;
+  // campaign_players.id of players it's lifted for. GMs get the full list;
+  // players only ever see themselves here.
+  revealed_to: string[];
+  created_at: string;
+}
+
+// A fog region as drawn on the canvas, before it has an id
+export interface FogRegionDraft {
+  shape: FogShape;
+  positionX?: number;
+  positionY?: number;
+  width?: number;
+  height?: number;
+  points?: TerritoryPoint[];
+  brushSize?: number;
+}
+
+export interface TerritoryPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapTerritory {
+  id: string;
+  map_id: string;
+  name: string;
+  // Polygon vertices as percentages of the map image
+  points: TerritoryPoint[];
+  // campaign_players.id of the holder, null when unclaimed
+  owner_player_id: string | null;
+  value: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MapTerritoryLink {
+  id: string;
+  map_id: string;
+  territory_a: string;
+  territory_b: string;
   created_at: string;
 }
 
+export type MovementStatus = 'pending' | 'approved' | 'rejected';
+
+export interface MapMovementPath {
+  id: string;
+  map_id: string;
+  marker_id: string;
+  // campaign_players.id of the submitting player; null for GM moves
+  player_id: string | null;
+  // The marker's starting position followed by each waypoint
+  points: TerritoryPoint[];
+  // In the map's distance unit
+  distance: number;
+  status: MovementStatus;
+  gm_note: string | null;
+  created_by: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MapPlacementMode = 'select' | 'place' | 'fog' | 'territory' | 'measure' | 'move';
+export type FogTool = FogShape;
+
 export interface MapData {
   map: CampaignMap | null;
   legendItems: MapLegendItem[];
   markers: MapMarker[];
   fogRegions: MapFogRegion[];
+  territories: MapTerritory[];
+  territoryLinks: MapTerritoryLink[];
+  movementPaths: MapMovementPath[];
 }
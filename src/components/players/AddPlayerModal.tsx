@@ -96,7 +96,7 @@ export function AddPlayerModal({ open, onClose, campaignId }: AddPlayerModalProp
 
         <div className="space-y-5 mt-2">
           <p className="text-[10px] text-muted-foreground font-mono">
-            Create an AI / ghost player for solo play or placeholder slots. This player won't be tied to a real account.
+            Create an AI / ghost player for solo play or placeholder slots. This player won't be tied to a real account; if the person joins later, merge the ghost into their account from Player Management.
           </p>
 
           {/* Player Info */}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCampaignPlayers, useMergeGhostPlayer } from "@/hooks/useCampaignPlayers";
+import { GitMerge, Loader2 } from "lucide-react";
+
+interface MergeGhostDialogProps {
+  open: boolean;
+  onClose: () => void;
+  campaignId: string;
+  ghost: { id: string; name: string };
+}
+
+export function MergeGhostDialog({ open, onClose, campaignId, ghost }: MergeGhostDialogProps) {
+  const { data: players = [] } = useCampaignPlayers(campaignId);
+  const mergeGhost = useMergeGhostPlayer();
+  const [playerId, setPlayerId] = useState("");
+
+  const candidates = players.filter((p) => !p.is_ghost);
+  const target = candidates.find((p) => p.id === playerId);
+
+  const handleClose = () => {
+    setPlayerId("");
+    onClose();
+  };
+
+  const handleMerge = () => {
+    if (!playerId) return;
+    mergeGhost.mutate(
+      { campaignId, ghostPlayerId: ghost.id, playerId },
+      { onSuccess: handleClose }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) handleClose(); }}>
+      <DialogContent className="bg-background border-primary/50 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-primary tracking-wider flex items-center gap-2">
+            <GitMerge className="w-4 h-4" />
+            Merge Ghost Player
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <p className="text-[10px] text-muted-foreground font-mono">
+            Once "{ghost.name}" has joined with their own account, merge the ghost into it. Their matches and results,
+            warband, narrative, dice rolls, map holdings, orders and resources move to the account and the ghost is removed.
+            Settings the player has already filled in are kept.
+          </p>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Merge into</Label>
+            <Select value={playerId} onValueChange={setPlayerId} disabled={mergeGhost.isPending}>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue placeholder={candidates.length === 0 ? "Nobody has joined yet" : "Choose a player"} />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((player) => (
+                  <SelectItem key={player.id} value={player.id}>
+                    {player.profile?.display_name || `Player ${player.user_id.slice(0, 8)}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target && (
+            <p className="text-xs text-yellow-500">
+              This can't be undone. "{ghost.name}" will become {target.profile?.display_name || "this player"}.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2 border-t border-border">
+            <TerminalButton variant="outline" size="sm" onClick={handleClose} disabled={mergeGhost.isPending}>
+              Cancel
+            </TerminalButton>
+            <TerminalButton size="sm" onClick={handleMerge} disabled={!playerId || mergeGhost.isPending}>
+              {mergeGhost.isPending ? (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              ) : (
+                <GitMerge className="w-3 h-3 mr-1" />
+              )}
+              Merge
+            </TerminalButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
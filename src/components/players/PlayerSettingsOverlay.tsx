@@ -13,6 +13,7 @@ import {
   useLeaveCampaign,
 } from "@/hooks/usePlayerSettings";
 import { useAutoSavePlayerSettings } from "@/hooks/useAutoSavePlayerSettings";
+import { ResourceLedgerPanel } from "@/components/players/ResourceLedgerPanel";
 import { useNavigate } from "react-router-dom";
 import { 
   User, 
@@ -26,6 +27,7 @@ import {
   LogOut,
   ExternalLink,
   CheckCircle2,
+  Coins,
 } from "lucide-react";
 import { format } from "date-fns";
 import {
@@ -179,6 +181,18 @@ export function PlayerSettingsOverlay({ campaignId }: PlayerSettingsOverlayProps
           </div>
         </section>
 
+        {/* Resources Section */}
+        {!isGMPreview && (
+          <section className="space-y-4">
+            <div className="flex items-center gap-2 text-primary">
+              <Coins className="w-4 h-4" />
+              <h3 className="text-xs font-mono uppercase tracking-wider">Resources</h3>
+            </div>
+
+            <ResourceLedgerPanel campaignId={campaignId} playerId={settings.id} />
+          </section>
+        )}
+
         {/* Faction Section */}
         <section className="space-y-4">
           <div className="flex items-center gap-2 text-primary">
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Coins, ExternalLink, RotateCcw, Undo2 } from "lucide-react";
+import { useCurrencies, useLedgerEntries, useAdjustResources, useUndoLedgerEntry, useResourceLedgerRealtime } from "@/hooks/useResourceLedger";
+import { useCampaign } from "@/hooks/useCampaigns";
+import { LEDGER_SOURCES, ledgerBalances, ledgerHistory, type LedgerEntry } from "@/lib/resourceLedger";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface ResourceLedgerPanelProps {
+  campaignId: string;
+  playerId: string;
+  /** GMs can record adjustments and undo entries */
+  canManage?: boolean;
+}
+
+// Where an entry's source can be looked at
+function sourceLink(entry: LedgerEntry, campaignId: string, canManage: boolean): string | null {
+  if (!entry.source_id) return null;
+  switch (entry.source_type) {
+    case "warband_purchase":
+      return `/campaign/${campaignId}/warband-builder?warband=${entry.source_id}`;
+    case "territory_income":
+      return `/campaign/${campaignId}?overlay=map`;
+    case "battle_report":
+      return canManage ? `/campaign/${campaignId}?overlay=battles` : null;
+    default:
+      return null;
+  }
+}
+
+export function ResourceLedgerPanel({ campaignId, playerId, canManage = false }: ResourceLedgerPanelProps) {
+  const { data: campaign } = useCampaign(campaignId);
+  const { data: currencies = [], isLoading: currenciesLoading } = useCurrencies(campaignId);
+  const { data: entries = [], isLoading: entriesLoading } = useLedgerEntries(campaignId, playerId);
+  const adjust = useAdjustResources();
+  const undo = useUndoLedgerEntry();
+  useResourceLedgerRealtime(campaignId);
+
+  const [currencyId, setCurrencyId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  if (currenciesLoading || entriesLoading) {
+    return <TerminalLoader text="Loading ledger" size="sm" />;
+  }
+
+  if (currencies.length === 0) {
+    return (
+      <p className="text-[10px] text-muted-foreground">
+        {canManage
+          ? "Add currencies in Campaign Settings → Economy to start a ledger."
+          : "This campaign doesn't track resources."}
+      </p>
+    );
+  }
+
+  const balances = ledgerBalances(entries);
+  const history = ledgerHistory(entries);
+  const currencyName = (id: string) => currencies.find(c => c.id === id)?.name ?? "Unknown";
+  const selectedCurrency = currencyId || currencies[0].id;
+  const parsedAmount = parseInt(amount, 10);
+
+  const handleAdjust = () => {
+    if (!parsedAmount || !reason.trim()) return;
+    adjust.mutate(
+      {
+        campaignId,
+        playerId,
+        currencyId: selectedCurrency,
+        amount: parsedAmount,
+        reason: reason.trim(),
+        roundNumber: campaign?.current_round ?? null,
+      },
+      {
+        onSuccess: () => {
+          setAmount("");
+          setReason("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Balances */}
+      <div className="flex flex-wrap gap-2">
+        {currencies.map((currency) => (
+          <div
+            key={currency.id}
+            className="flex items-center gap-1.5 px-2 py-1 rounded border border-border bg-card text-xs font-mono"
+            style={currency.color ? { borderColor: currency.color } : undefined}
+          >
+            <Coins className="w-3 h-3" style={currency.color ? { color: currency.color } : undefined} />
+            <span className="text-muted-foreground">{currency.name}</span>
+            <span className="text-foreground">{balances[currency.id] ?? 0}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* GM adjustment */}
+      {canManage && (
+        <div className="grid grid-cols-[7rem_5rem_1fr_auto] gap-2 items-end">
+          <Select value={selectedCurrency} onValueChange={setCurrencyId}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <TerminalInput
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.replace(/[^\d-]/g, ""))}
+            placeholder="±0"
+          />
+          <TerminalInput
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason..."
+            onKeyDown={(e) => e.key === "Enter" && handleAdjust()}
+          />
+          <TerminalButton
+            size="sm"
+            onClick={handleAdjust}
+            disabled={!parsedAmount || !reason.trim() || adjust.isPending}
+          >
+            Adjust
+          </TerminalButton>
+        </div>
+      )}
+
+      {/* History */}
+      {history.length === 0 ? (
+        <p className="text-[10px] text-muted-foreground">No entries yet</p>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+          {history.map(({ entry, balance }) => {
+            const link = sourceLink(entry, campaignId, canManage);
+            return (
+              <div
+                key={entry.id}
+                className={cn(
+                  "flex items-center gap-2 p-2 rounded border border-border bg-card text-xs",
+                  entry.undone_at && "opacity-50"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={cn("font-mono truncate", entry.undone_at && "line-through")}>{entry.reason}</p>
+                  <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+                    {format(new Date(entry.created_at), "MMM d")}
+                    {entry.round_number != null && ` · Round ${entry.round_number}`}
+                    {" · "}
+                    {link ? (
+                      <Link to={link} className="inline-flex items-center gap-0.5 text-primary hover:underline">
+                        {LEDGER_SOURCES[entry.source_type]}
+                        <ExternalLink className="w-2.5 h-2.5" />
+                      </Link>
+                    ) : (
+                      LEDGER_SOURCES[entry.source_type]
+                    )}
+                    {entry.undone_at && " · undone"}
+                  </p>
+                </div>
+                <div className="text-right shrink-0 font-mono">
+                  <p className={entry.amount > 0 ? "text-green-400" : "text-red-400"}>
+                    {entry.amount > 0 ? "+" : ""}{entry.amount} {currencyName(entry.currency_id)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">= {balance}</p>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={() => undo.mutate({ entryId: entry.id, campaignId, restore: !!entry.undone_at })}
+                    disabled={undo.isPending}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted shrink-0"
+                    title={entry.undone_at ? "Restore entry" : "Undo entry"}
+                  >
+                    {entry.undone_at ? <RotateCcw className="w-3 h-3" /> : <Undo2 className="w-3 h-3" />}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
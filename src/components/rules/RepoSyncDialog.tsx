@@ -0,0 +1,270 @@
+/**
+ * RepoSyncDialog - Pull rules from the campaign's rules repository.
+ * The GM reviews every added/changed/removed rule before anything is written.
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { useCampaign } from "@/hooks/useCampaigns";
+import { useRepoRulesDiff, useSyncRepoRules, type RepoRulesDiffResult } from "@/hooks/useWargameRules";
+import type { RuleChange, RuleChangeKind } from "@/lib/rulesRepo";
+import { AlertTriangle, GitBranch, Minus, Pencil, Plus } from "lucide-react";
+
+interface RepoSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+}
+
+const KIND_LABELS: Record<RuleChangeKind, string> = {
+  added: "New in repository",
+  changed: "Changed in repository",
+  removed: "Removed from repository",
+};
+
+const KIND_ICONS: Record<RuleChangeKind, typeof Plus> = {
+  added: Plus,
+  changed: Pencil,
+  removed: Minus,
+};
+
+function describeContent(content: unknown): string {
+  const c = content as { type?: string; rows?: unknown[]; sections?: unknown[] } | null;
+  if (c?.type === "table") return `${c.rows?.length ?? 0} rows`;
+  if (c?.type === "card") return `${c.sections?.length ?? 0} sections`;
+  return "no content";
+}
+
+function describeChange(change: RuleChange): string {
+  if (change.kind === "added") return describeContent(change.after?.content);
+  if (change.kind === "removed") return describeContent(change.before?.content);
+
+  const parts: string[] = [];
+  if (change.before?.title !== change.after?.title) {
+    parts.push(`renamed from "${change.before?.title}"`);
+  }
+  const before = describeContent(change.before?.content);
+  const after = describeContent(change.after?.content);
+  parts.push(before === after ? `content updated (${after})` : `${before} → ${after}`);
+  return parts.join(", ");
+}
+
+export function RepoSyncDialog({ open, onOpenChange, campaignId }: RepoSyncDialogProps) {
+  const { data: campaign } = useCampaign(campaignId);
+  const checkRepo = useRepoRulesDiff();
+  const syncRules = useSyncRepoRules();
+
+  const [repoUrl, setRepoUrl] = useState("");
+  const [ref, setRef] = useState("");
+  const [review, setReview] = useState<RepoRulesDiffResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Start from the campaign's pinned repository
+  useEffect(() => {
+    if (open) {
+      setRepoUrl(campaign?.rules_repo_url || "");
+      setRef(campaign?.rules_repo_ref || "");
+      setReview(null);
+      setSelected(new Set());
+    }
+  }, [open, campaign?.rules_repo_url, campaign?.rules_repo_ref]);
+
+  const handleCheck = async () => {
+    if (!repoUrl.trim()) return;
+    try {
+      const result = await checkRepo.mutateAsync({ repoUrl: repoUrl.trim(), ref: ref.trim() || undefined, campaignId });
+      setReview(result);
+      // Upstream changes are ticked; anything that would replace the GM's own edits is not
+      setSelected(new Set(result.diff.changes.filter((c) => !c.locallyEdited).map((c) => c.key)));
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!review) return;
+    const accepted = review.diff.changes.filter((c) => selected.has(c.key));
+    try {
+      await syncRules.mutateAsync({
+        repoUrl: repoUrl.trim(),
+        ref: ref.trim() || undefined,
+        campaignId,
+        sha: review.sha,
+        keys: accepted.map((c) => c.key),
+        overwrite: accepted.filter((c) => c.locallyEdited).map((c) => c.key),
+      });
+      onOpenChange(false);
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const isBusy = checkRepo.isPending || syncRules.isPending;
+  const changes = review?.diff.changes ?? [];
+  const overwriteCount = changes.filter((c) => c.locallyEdited && selected.has(c.key)).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isBusy && onOpenChange(isOpen)}>
+      <DialogContent className="bg-background border-primary/50 max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-primary tracking-wider flex items-center gap-2">
+            <GitBranch className="w-4 h-4" />
+            [ SYNC RULES REPOSITORY ]
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 overflow-y-auto flex-1 pr-1">
+          <div className="grid grid-cols-[1fr_10rem] gap-2">
+            <TerminalInput
+              label="Repository"
+              value={repoUrl}
+              onChange={(e) => {
+                setRepoUrl(e.target.value);
+                setReview(null);
+              }}
+              placeholder="https://github.com/owner/rules-repo"
+              disabled={isBusy}
+            />
+            <TerminalInput
+              label="Branch, tag or commit"
+              value={ref}
+              onChange={(e) => {
+                setRef(e.target.value);
+                setReview(null);
+              }}
+              placeholder="main"
+              disabled={isBusy}
+            />
+          </div>
+
+          <TerminalButton
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleCheck}
+            disabled={!repoUrl.trim() || isBusy}
+          >
+            {checkRepo.isPending ? <TerminalLoader text="Reading repository" size="sm" /> : "[ Check for Changes ]"}
+          </TerminalButton>
+
+          {review && (
+            <div className="space-y-3 animate-fade-in">
+              <p className="text-xs text-muted-foreground font-mono">
+                {review.manifest?.name ?? "Rules repository"}
+                {review.manifest?.version && ` v${review.manifest.version}`}
+                {" @ "}
+                {review.sha.slice(0, 7)}
+                {" — "}
+                {review.diff.unchanged} unchanged
+              </p>
+
+              {review.issues.length > 0 && (
+                <ul className="space-y-1 max-h-24 overflow-y-auto">
+                  {review.issues.map((issue, index) => (
+                    <li key={index} className="text-xs text-yellow-500 flex items-start gap-1.5">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>
+                        <span className="font-mono">{issue.path}</span>: {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {changes.length === 0 ? (
+                <div className="border border-primary/30 rounded p-4 text-center">
+                  <p className="text-sm text-muted-foreground">Your rules already match the repository.</p>
+                </div>
+              ) : (
+                (["added", "changed", "removed"] as RuleChangeKind[]).map((kind) => {
+                  const group = changes.filter((c) => c.kind === kind);
+                  if (group.length === 0) return null;
+                  const Icon = KIND_ICONS[kind];
+
+                  return (
+                    <div key={kind} className="space-y-1">
+                      <h4 className="text-xs font-mono uppercase tracking-wider text-primary flex items-center gap-1.5">
+                        <Icon className="w-3 h-3" />
+                        {KIND_LABELS[kind]} ({group.length})
+                      </h4>
+                      {group.map((change) => (
+                        <label
+                          key={change.key}
+                          htmlFor={`repo-change-${change.key}`}
+                          className={`flex items-start gap-3 p-2 rounded border cursor-pointer ${
+                            change.locallyEdited ? "border-yellow-500/40 bg-yellow-500/5" : "border-border bg-card/50"
+                          }`}
+                        >
+                          <Checkbox
+                            id={`repo-change-${change.key}`}
+                            checked={selected.has(change.key)}
+                            onCheckedChange={() => toggle(change.key)}
+                            disabled={isBusy}
+                            className="mt-0.5"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-xs font-mono truncate">
+                              {change.title}
+                              <span className="text-muted-foreground"> · {change.key}</span>
+                            </p>
+                            <p className="text-[10px] text-muted-foreground">{describeChange(change)}</p>
+                            {change.locallyEdited && (
+                              <p className="text-[10px] text-yellow-500 flex items-center gap-1 mt-0.5">
+                                <AlertTriangle className="w-3 h-3" />
+                                {kind === "removed"
+                                  ? "You edited this rule. Tick to delete it anyway."
+                                  : "You edited this rule. Tick to overwrite your edits."}
+                              </p>
+                            )}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t border-border">
+          <p className="text-xs text-muted-foreground">
+            {review && changes.length > 0 && (
+              <>
+                {selected.size} of {changes.length} selected
+                {overwriteCount > 0 && (
+                  <span className="text-yellow-500"> · replaces {overwriteCount} of your edits</span>
+                )}
+              </>
+            )}
+          </p>
+          <div className="flex gap-2">
+            <TerminalButton type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>
+              [ Cancel ]
+            </TerminalButton>
+            <TerminalButton
+              type="button"
+              onClick={handleApply}
+              disabled={!review || selected.size === 0 || isBusy}
+            >
+              {syncRules.isPending ? <TerminalLoader text="Applying" size="sm" /> : "[ Apply Selected ]"}
+            </TerminalButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
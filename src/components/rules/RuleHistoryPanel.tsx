@@ -0,0 +1,270 @@
+/**
+ * RuleHistoryPanel - A rule's revisions, each compared side by side with the
+ * current version, with one-click revert.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import {
+  useRuleRevisions,
+  useUpdateRule,
+  type RuleChangeSource,
+  type RuleContent,
+  type WargameRule,
+  type WargameRuleRevision,
+} from "@/hooks/useWargameRules";
+import {
+  diffRuleContent,
+  summarizeRuleDiff,
+  type CardSectionDiff,
+  type DiffStatus,
+  type TableRowDiff,
+} from "@/lib/ruleDiff";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+interface RuleHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule: WargameRule;
+}
+
+const SOURCE_LABELS: Record<RuleChangeSource, string> = {
+  manual: "Edited",
+  widget_sync: "Widget edit",
+  repo_sync: "Repo sync",
+  smart_paste: "Smart paste",
+  revert: "Revert",
+  pdf_import: "PDF import",
+  library_sync: "Library update",
+};
+
+const STATUS_CLASSES: Record<DiffStatus, { before: string; after: string }> = {
+  same: { before: "", after: "" },
+  added: { before: "", after: "bg-green-500/10 border-green-500/40" },
+  removed: { before: "bg-destructive/10 border-destructive/40 line-through", after: "" },
+  changed: { before: "bg-yellow-500/5 border-yellow-500/30", after: "bg-yellow-500/10 border-yellow-500/40" },
+};
+
+function TableRowPair({ pair, columns }: { pair: TableRowDiff; columns: string[] }) {
+  const renderSide = (row: TableRowDiff["before"], side: "before" | "after") => {
+    if (!row) return <div className="border border-dashed border-border/40 rounded min-h-[1.75rem]" />;
+    return (
+      <div className={`flex gap-1 border rounded px-1.5 py-1 ${STATUS_CLASSES[pair.status][side] || "border-border/50"}`}>
+        {columns.map((column) => (
+          <span
+            key={column}
+            title={String(row[column] ?? "")}
+            className={`flex-1 min-w-0 truncate ${
+              pair.changedColumns.includes(column) ? "text-foreground font-semibold" : "text-muted-foreground"
+            }`}
+          >
+            {String(row[column] ?? "")}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+      {renderSide(pair.before, "before")}
+      {renderSide(pair.after, "after")}
+    </div>
+  );
+}
+
+function CardSectionPair({ pair }: { pair: CardSectionDiff }) {
+  const renderSide = (section: CardSectionDiff["before"], side: "before" | "after") => {
+    if (!section) return <div className="border border-dashed border-border/40 rounded min-h-[2.5rem]" />;
+    return (
+      <div className={`border rounded p-1.5 space-y-0.5 ${STATUS_CLASSES[pair.status][side] || "border-border/50"}`}>
+        <p className={`text-[10px] font-mono ${pair.headerChanged ? "text-foreground font-semibold" : "text-primary"}`}>
+          {String(section.header ?? "")}
+        </p>
+        <p className={`text-[10px] whitespace-pre-wrap ${pair.contentChanged ? "text-foreground" : "text-muted-foreground"}`}>
+          {String(section.content ?? "")}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {renderSide(pair.before, "before")}
+      {renderSide(pair.after, "after")}
+    </div>
+  );
+}
+
+export function RuleHistoryPanel({ open, onOpenChange, rule }: RuleHistoryPanelProps) {
+  const { data: revisions = [], isLoading } = useRuleRevisions(rule.id);
+  const updateRule = useUpdateRule();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Default to the version before the current one, the likeliest to revert to
+  useEffect(() => {
+    if (!selectedId && revisions.length > 0) {
+      setSelectedId((revisions[1] ?? revisions[0]).id);
+    }
+  }, [revisions, selectedId]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+  const diff = useMemo(
+    () => (selected ? diffRuleContent(selected.content, rule.content) : null),
+    [selected, rule.content]
+  );
+  const isCurrent = (revision: WargameRuleRevision) =>
+    revision.title === rule.title && JSON.stringify(revision.content) === JSON.stringify(rule.content);
+
+  const handleRevert = async () => {
+    if (!selected) return;
+    try {
+      await updateRule.mutateAsync({
+        id: rule.id,
+        title: selected.title,
+        content: selected.content as unknown as RuleContent,
+        source: "revert",
+      });
+      toast.success(`Reverted "${selected.title}" to ${format(new Date(selected.created_at), "MMM d, HH:mm")}`);
+      setSelectedId(null);
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const summary = diff ? summarizeRuleDiff(diff) : null;
+  const unchanged = selected ? isCurrent(selected) : false;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-background border-primary/50 max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-primary tracking-wider flex items-center gap-2">
+            <History className="w-4 h-4" />
+            [ HISTORY: {rule.title.toUpperCase()} ]
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <TerminalLoader text="Loading history" size="sm" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No revisions recorded for this rule yet.</p>
+        ) : (
+          <div className="grid grid-cols-[14rem_1fr] gap-4 flex-1 min-h-0">
+            {/* Revision list */}
+            <div className="overflow-y-auto space-y-1 pr-1">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-2 rounded border text-xs transition-colors ${
+                    revision.id === selectedId ? "border-primary bg-primary/10" : "border-border hover:bg-accent/30"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono">{format(new Date(revision.created_at), "MMM d, HH:mm")}</span>
+                    {index === 0 && <span className="text-[10px] text-primary">latest</span>}
+                  </div>
+                  <div className="text-[10px] text-muted-foreground truncate">
+                    {SOURCE_LABELS[revision.source] ?? revision.source}
+                    {" · "}
+                    {revision.author_name || (revision.source === "repo_sync" ? "Repository" : "Unknown")}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side comparison */}
+            <div className="overflow-y-auto space-y-2 min-w-0">
+              {selected && diff && (
+                <>
+                  <div className="grid grid-cols-2 gap-2 text-[10px] font-mono uppercase tracking-wider text-muted-foreground sticky top-0 bg-background pb-1">
+                    <span className="truncate">Revision · {selected.title}</span>
+                    <span className="truncate">Current · {rule.title}</span>
+                  </div>
+
+                  {unchanged ? (
+                    <p className="text-xs text-muted-foreground text-center py-6">This revision matches the current rule.</p>
+                  ) : diff.type === "replaced" ? (
+                    <p className="text-xs text-muted-foreground text-center py-6">
+                      The rule changed between a table and a card, so the versions can't be lined up.
+                    </p>
+                  ) : diff.type === "table" ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-2 text-[10px] font-mono text-primary">
+                        {[selected.content, rule.content].map((content, side) => {
+                          const sideColumns = ((content as { columns?: string[] })?.columns) ?? [];
+                          return (
+                            <div key={side} className="flex gap-1 px-1.5">
+                              {diff.columns.map((column) => (
+                                <span
+                                  key={column}
+                                  className={`flex-1 min-w-0 truncate ${sideColumns.includes(column) ? "" : "opacity-30 line-through"}`}
+                                >
+                                  {column}
+                                </span>
+                              ))}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {diff.rows.map((pair, index) => (
+                        <TableRowPair key={pair.after?.id ?? pair.before?.id ?? index} pair={pair} columns={diff.columns} />
+                      ))}
+                    </>
+                  ) : (
+                    <>
+                      {diff.titleChanged && (
+                        <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                          <span className="text-muted-foreground">{String((selected.content as { title?: string })?.title ?? "")}</span>
+                          <span className="text-foreground">{String((rule.content as { title?: string })?.title ?? "")}</span>
+                        </div>
+                      )}
+                      {diff.sections.map((pair, index) => (
+                        <CardSectionPair key={pair.after?.id ?? pair.before?.id ?? index} pair={pair} />
+                      ))}
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t border-border">
+          <p className="text-xs text-muted-foreground">
+            {summary && !unchanged && diff?.type !== "replaced" && (
+              <>Since this revision: {summary.added} added, {summary.changed} changed, {summary.removed} removed</>
+            )}
+          </p>
+          <div className="flex gap-2">
+            <TerminalButton type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              [ Close ]
+            </TerminalButton>
+            <TerminalButton
+              type="button"
+              onClick={handleRevert}
+              disabled={!selected || unchanged || updateRule.isPending}
+              className="flex items-center gap-1"
+            >
+              {updateRule.isPending ? (
+                <TerminalLoader text="Reverting" size="sm" />
+              ) : (
+                <>
+                  <RotateCcw className="w-3 h-3" />
+                  Revert to This Version
+                </>
+              )}
+            </TerminalButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
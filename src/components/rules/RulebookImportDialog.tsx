@@ -0,0 +1,360 @@
+/**
+ * RulebookImportDialog - Upload a rulebook PDF and review what was found in it.
+ * Each upload runs an extraction job; the GM ticks the detected sections and
+ * tables worth keeping and promotes them into rules (and widgets) in bulk.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import {
+  useCampaignDocuments,
+  useDeleteCampaignDocument,
+  useDismissReviewItems,
+  useExtractionJobs,
+  useIngestRulebook,
+  usePromoteReviewItems,
+  type ExtractionJob,
+} from "@/hooks/useRulebookIngestion";
+import { reviewSummary, type ExtractionJobStatus, type ReviewItem } from "@/lib/rulebookIngestion";
+import { ocrConfidenceLevel } from "@/lib/pdfOcr";
+import { AlertTriangle, FileText, LayoutList, Table, Trash2, Upload } from "lucide-react";
+
+interface RulebookImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+}
+
+const STATUS_LABELS: Record<ExtractionJobStatus, string> = {
+  pending: "Queued",
+  processing: "Extracting",
+  review: "Ready for review",
+  completed: "Done",
+  failed: "Failed",
+};
+
+const CONFIDENCE_CLASSES: Record<ReviewItem["confidence"], string> = {
+  high: "border-primary/50 text-primary",
+  medium: "border-border text-muted-foreground",
+  low: "border-yellow-500/50 text-yellow-500",
+};
+
+function describeItem(item: ReviewItem): string {
+  if (item.kind === "table") return `${item.rows?.length ?? 0} rows`;
+  const preview = item.text.replace(/\s+/g, " ").slice(0, 90);
+  return preview.length < item.text.length ? `${preview}…` : preview;
+}
+
+export function RulebookImportDialog({ open, onOpenChange, campaignId }: RulebookImportDialogProps) {
+  const { data: jobs = [], isLoading } = useExtractionJobs(campaignId);
+  const { data: documents = [] } = useCampaignDocuments(campaignId);
+  const ingest = useIngestRulebook();
+  const promote = usePromoteReviewItems();
+  const dismiss = useDismissReviewItems();
+  const deleteDocument = useDeleteCampaignDocument();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [category, setCategory] = useState("Rulebook");
+  const [addWidgets, setAddWidgets] = useState(false);
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const job = jobs.find((j) => j.id === jobId) ?? null;
+  const visibleItems = (job?.items ?? []).filter((i) => i.status === "pending" || (showDismissed && i.status === "dismissed"));
+  const pendingSelected = visibleItems.filter((i) => selected.has(i.id) && i.status === "pending");
+
+  // Open the newest job needing review when nothing is picked
+  useEffect(() => {
+    if (!jobId && jobs.length > 0) {
+      setJobId((jobs.find((j) => j.status === "review") ?? jobs[0]).id);
+    }
+  }, [jobId, jobs]);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [jobId]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await ingest.mutateAsync({ campaignId, file });
+      setJobId(null);
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    const pending = visibleItems.filter((i) => i.status === "pending");
+    setSelected(pendingSelected.length === pending.length ? new Set() : new Set(pending.map((i) => i.id)));
+  };
+
+  const handlePromote = async (currentJob: ExtractionJob) => {
+    try {
+      await promote.mutateAsync({
+        job: currentJob,
+        itemIds: pendingSelected.map((i) => i.id),
+        category: category.trim() || "Rulebook",
+        addWidgets,
+      });
+      setSelected(new Set());
+    } catch {
+      // Error is handled by the mutation
+    }
+  };
+
+  const handleDeleteJob = (currentJob: ExtractionJob) => {
+    const document = documents.find((d) => d.id === currentJob.document_id);
+    if (!document) return;
+    if (confirm(`Delete "${document.name}"? Rules already promoted from it are kept.`)) {
+      deleteDocument.mutate(document);
+      setJobId(null);
+    }
+  };
+
+  const isBusy = promote.isPending || dismiss.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-background border-primary/50 max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-primary tracking-wider flex items-center gap-2">
+            <FileText className="w-4 h-4" />
+            [ IMPORT RULEBOOK ]
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[14rem_1fr] gap-4 flex-1 min-h-0">
+          {/* Uploads and their extraction jobs */}
+          <div className="flex flex-col gap-2 min-h-0">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,application/pdf"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            <TerminalButton
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={ingest.isPending}
+            >
+              {ingest.isPending ? (
+                <TerminalLoader text="Reading PDF" size="sm" />
+              ) : (
+                <>
+                  <Upload className="w-3 h-3 mr-1" />
+                  Upload PDF
+                </>
+              )}
+            </TerminalButton>
+
+            <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+              {isLoading ? (
+                <TerminalLoader text="Loading" size="sm" />
+              ) : jobs.length === 0 ? (
+                <p className="text-xs text-muted-foreground p-2">No rulebooks uploaded yet.</p>
+              ) : (
+                jobs.map((j) => {
+                  const summary = reviewSummary(j.items);
+                  const progress = j.total_sections > 0 ? (j.completed_sections / j.total_sections) * 100 : 0;
+                  return (
+                    <button
+                      key={j.id}
+                      type="button"
+                      onClick={() => setJobId(j.id)}
+                      className={`w-full text-left p-2 rounded border space-y-1 ${
+                        j.id === jobId ? "border-primary bg-primary/10" : "border-border bg-card/50 hover:bg-accent/30"
+                      }`}
+                    >
+                      <p className="text-xs font-mono truncate">{j.source_name || "Untitled PDF"}</p>
+                      <p className={`text-[10px] ${j.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {STATUS_LABELS[j.status] ?? j.status}
+                        {j.status === "review" && ` · ${summary.pending} to review`}
+                        {j.status === "completed" && summary.promoted > 0 && ` · ${summary.promoted} promoted`}
+                      </p>
+                      {j.status === "processing" && (
+                        <>
+                          <Progress value={progress} className="h-1" />
+                          <p className="text-[10px] text-muted-foreground">
+                            {j.completed_sections} of {j.total_sections || "?"} pages read
+                          </p>
+                        </>
+                      )}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          {/* Review of the selected job */}
+          <div className="flex flex-col gap-3 min-h-0">
+            {!job ? (
+              <div className="border border-primary/30 rounded p-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Upload a rulebook PDF. Its sections and tables are detected page by page for you to review.
+                </p>
+              </div>
+            ) : (
+              <>
+                {job.error_message && (
+                  <p className="text-xs text-yellow-500 flex items-start gap-1.5">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {job.error_message}
+                  </p>
+                )}
+
+                <div className="flex items-center gap-3 text-xs">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <Checkbox
+                      checked={pendingSelected.length > 0 && pendingSelected.length === visibleItems.filter((i) => i.status === "pending").length}
+                      onCheckedChange={toggleAll}
+                      disabled={isBusy}
+                    />
+                    Select all
+                  </label>
+                  <div className="flex items-center gap-2 ml-auto">
+                    <Switch id="show-dismissed" checked={showDismissed} onCheckedChange={setShowDismissed} />
+                    <Label htmlFor="show-dismissed" className="text-xs">Show dismissed</Label>
+                  </div>
+                  {job.document_id && (
+                    <TerminalButton
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDeleteJob(job)}
+                      disabled={deleteDocument.isPending}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </TerminalButton>
+                  )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+                  {job.status === "processing" ? (
+                    <TerminalLoader text={`Reading ${job.completed_sections} of ${job.total_sections || "?"} pages`} size="sm" />
+                  ) : visibleItems.length === 0 ? (
+                    <p className="text-xs text-muted-foreground p-2">
+                      {job.items.length === 0 ? "Nothing was detected in this PDF." : "Everything in this PDF has been reviewed."}
+                    </p>
+                  ) : (
+                    visibleItems.map((item) => (
+                      <label
+                        key={item.id}
+                        htmlFor={`review-item-${item.id}`}
+                        className={`flex items-start gap-3 p-2 rounded border cursor-pointer ${
+                          item.status === "dismissed" ? "border-border/50 opacity-60" : "border-border bg-card/50"
+                        }`}
+                      >
+                        <Checkbox
+                          id={`review-item-${item.id}`}
+                          checked={selected.has(item.id)}
+                          onCheckedChange={() => toggle(item.id)}
+                          disabled={isBusy}
+                          className="mt-0.5"
+                        />
+                        {item.kind === "table" ? (
+                          <Table className="w-3 h-3 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        ) : (
+                          <LayoutList className="w-3 h-3 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-mono truncate">
+                            {item.title}
+                            <span className="text-muted-foreground"> · p.{item.pageNumber}</span>
+                          </p>
+                          <p className="text-[10px] text-muted-foreground line-clamp-2">{describeItem(item)}</p>
+                        </div>
+                        {item.ocrConfidence != null && (
+                          <Badge
+                            variant="outline"
+                            className={`text-[10px] ${CONFIDENCE_CLASSES[ocrConfidenceLevel(item.ocrConfidence)]}`}
+                            title="Read from a scanned page; check it against the PDF"
+                          >
+                            OCR {item.ocrConfidence}%
+                          </Badge>
+                        )}
+                        <Badge variant="outline" className={`text-[10px] ${CONFIDENCE_CLASSES[item.confidence]}`}>
+                          {item.confidence}
+                        </Badge>
+                      </label>
+                    ))
+                  )}
+                </div>
+
+                <div className="grid grid-cols-[1fr_auto] items-end gap-3">
+                  <TerminalInput
+                    label="Rule category"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="Rulebook"
+                    disabled={isBusy}
+                  />
+                  <div className="flex items-center gap-2 pb-2">
+                    <Switch id="add-widgets" checked={addWidgets} onCheckedChange={setAddWidgets} />
+                    <Label htmlFor="add-widgets" className="text-xs">Also add widgets</Label>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 pt-2 border-t border-border">
+          <p className="text-xs text-muted-foreground">
+            {job && visibleItems.length > 0 && `${selected.size} selected`}
+          </p>
+          <div className="flex gap-2">
+            {job && showDismissed && (
+              <TerminalButton
+                type="button"
+                variant="outline"
+                onClick={() => dismiss.mutate({ job, itemIds: [...selected], restore: true })}
+                disabled={isBusy || !visibleItems.some((i) => i.status === "dismissed" && selected.has(i.id))}
+              >
+                [ Restore ]
+              </TerminalButton>
+            )}
+            <TerminalButton
+              type="button"
+              variant="outline"
+              onClick={() => job && dismiss.mutate({ job, itemIds: pendingSelected.map((i) => i.id) })}
+              disabled={!job || isBusy || pendingSelected.length === 0}
+            >
+              [ Dismiss ]
+            </TerminalButton>
+            <TerminalButton
+              type="button"
+              onClick={() => job && handlePromote(job)}
+              disabled={!job || isBusy || pendingSelected.length === 0}
+            >
+              {promote.isPending ? <TerminalLoader text="Promoting" size="sm" /> : `[ Promote ${pendingSelected.length || ""} ]`}
+            </TerminalButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState } from "react";
 import { useWargameRules, useDeleteRule, WargameRule, TableRuleContent, CardRuleContent } from "@/hooks/useWargameRules";
-import { Plus, Search, Table, LayoutList, Trash2, Edit2, ChevronDown, ChevronUp, LayoutDashboard } from "lucide-react";
+import { Plus, Search, Table, LayoutList, Trash2, Edit2, ChevronDown, ChevronUp, LayoutDashboard, GitBranch, History, FileText, EyeOff } from "lucide-react";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { PasteWizardOverlay } from "@/components/dashboard/PasteWizardOverlay";
 import { RuleEditorModal } from "./RuleEditorModal";
-import { useCreateComponent } from "@/hooks/useDashboardComponents";
+import { RepoSyncDialog } from "./RepoSyncDialog";
+import { RuleHistoryPanel } from "./RuleHistoryPanel";
+import { RulebookImportDialog } from "./RulebookImportDialog";
+import { useCreateComponent, useDashboardComponents } from "@/hooks/useDashboardComponents";
+import { canViewLinkedRule } from "@/lib/widgetVisibility";
 import { getSpawnPosition } from "@/lib/canvasPlacement";
 import { toast } from "sonner";
 import type { Json } from "@/integrations/supabase/types";
@@ -18,6 +22,7 @@ type CreateMode = "rules_table" | "rules_card" | "custom_table" | "custom_card"
 
 export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
   const { data: rules = [], isLoading } = useWargameRules(campaignId);
+  const { data: components = [] } = useDashboardComponents(campaignId);
   const deleteRule = useDeleteRule();
   const createComponent = useCreateComponent();
 
@@ -26,6 +31,11 @@ export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [createMode, setCreateMode] = useState<CreateMode>(null);
   const [editingRule, setEditingRule] = useState<WargameRule | null>(null);
+  const [showRepoSync, setShowRepoSync] = useState(false);
+  const [showPdfImport, setShowPdfImport] = useState(false);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  // Looked up live so the panel follows the rule after a revert
+  const historyRule = rules.find((r) => r.id === historyRuleId) ?? null;
 
   // Get unique categories
   const categories = [...new Set(rules.map((r) => r.category))];
@@ -178,6 +188,25 @@ export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
             <Plus className="w-3 h-3" />
             Custom Card
           </TerminalButton>
+          <div className="h-4 w-px bg-border" />
+          <TerminalButton
+            size="sm"
+            variant="outline"
+            onClick={() => setShowRepoSync(true)}
+            className="flex items-center gap-1"
+          >
+            <GitBranch className="w-3 h-3" />
+            Sync Repo
+          </TerminalButton>
+          <TerminalButton
+            size="sm"
+            variant="outline"
+            onClick={() => setShowPdfImport(true)}
+            className="flex items-center gap-1"
+          >
+            <FileText className="w-3 h-3" />
+            Import PDF
+          </TerminalButton>
         </div>
       )}
 
@@ -235,6 +264,11 @@ export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
                       <div className="flex items-center gap-2 flex-1 min-w-0">
                         {getRuleTypeIcon(rule)}
                         <span className="text-xs font-mono truncate">{rule.title}</span>
+                        {isGM && !canViewLinkedRule(rule.id, components, { role: "player", playerId: null }) && (
+                          <span title="Only the audience of its dashboard widgets can read this rule">
+                            <EyeOff className="w-3 h-3 text-muted-foreground shrink-0" />
+                          </span>
+                        )}
                         {renderRulePreview(rule)}
                       </div>
                       <div className="flex items-center gap-1">
@@ -274,6 +308,15 @@ export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
                               <Edit2 className="w-3 h-3" />
                               Edit
                             </TerminalButton>
+                            <TerminalButton
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setHistoryRuleId(rule.id)}
+                              className="flex items-center gap-1"
+                            >
+                              <History className="w-3 h-3" />
+                              History
+                            </TerminalButton>
                             <TerminalButton
                               size="sm"
                               variant="outline"
@@ -320,6 +363,33 @@ export function RulesManager({ campaignId, isGM }: RulesManagerProps) {
           rule={editingRule}
         />
       )}
+
+      {/* Revision history */}
+      {historyRule && (
+        <RuleHistoryPanel
+          open={true}
+          onOpenChange={(open) => !open && setHistoryRuleId(null)}
+          rule={historyRule}
+        />
+      )}
+
+      {/* Rules repository sync */}
+      {showRepoSync && (
+        <RepoSyncDialog
+          open={true}
+          onOpenChange={(open) => !open && setShowRepoSync(false)}
+          campaignId={campaignId}
+        />
+      )}
+
+      {/* Rulebook PDF import */}
+      {showPdfImport && (
+        <RulebookImportDialog
+          open={true}
+          onOpenChange={(open) => !open && setShowPdfImport(false)}
+          campaignId={campaignId}
+        />
+      )}
     </div>
   );
 }
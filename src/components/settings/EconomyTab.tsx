@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useCurrencies, useCreateCurrency, useUpdateCurrency, useDeleteCurrency } from "@/hooks/useResourceLedger";
+import { DEFAULT_CURRENCIES } from "@/lib/resourceLedger";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Info, Plus, Trash2 } from "lucide-react";
+
+interface EconomyTabProps {
+  campaignId: string;
+}
+
+export function EconomyTab({ campaignId }: EconomyTabProps) {
+  const { data: currencies = [], isLoading } = useCurrencies(campaignId);
+  const createCurrency = useCreateCurrency();
+  const updateCurrency = useUpdateCurrency();
+  const deleteCurrency = useDeleteCurrency();
+  const [newName, setNewName] = useState("");
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <TerminalLoader text="Loading currencies" />
+      </div>
+    );
+  }
+
+  const nextIndex = currencies.length > 0 ? currencies[currencies.length - 1].order_index + 1 : 0;
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    createCurrency.mutate({ campaignId, name, order_index: nextIndex }, { onSuccess: () => setNewName("") });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-muted/30 border border-border/50 rounded">
+        <div className="flex items-start gap-2">
+          <Info className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Each player has a balance in every currency, built from ledger entries you can review and undo in the Players panel.</p>
+            <p><strong className="text-foreground">Income:</strong> territory income is paid in this currency when a new round starts.</p>
+            <p><strong className="text-foreground">Purchases:</strong> units added in the warband builder are paid for in this currency.</p>
+          </div>
+        </div>
+      </div>
+
+      {currencies.length === 0 ? (
+        <div className="flex items-center justify-between p-3 border border-dashed border-border rounded">
+          <span className="text-xs text-muted-foreground">{DEFAULT_CURRENCIES.join(", ")}</span>
+          <TerminalButton
+            size="sm"
+            onClick={() => DEFAULT_CURRENCIES.forEach((name, order_index) =>
+              createCurrency.mutate({ campaignId, name, order_index })
+            )}
+            disabled={createCurrency.isPending}
+          >
+            Use These
+          </TerminalButton>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {currencies.map((currency) => (
+            <div key={currency.id} className="flex items-center gap-3 p-2 border border-border rounded bg-card">
+              <input
+                type="color"
+                value={currency.color || "#facc15"}
+                onChange={(e) => updateCurrency.mutate({ currencyId: currency.id, campaignId, color: e.target.value })}
+                className="w-8 h-8 rounded border border-border bg-transparent cursor-pointer shrink-0"
+                title="Colour"
+              />
+              <TerminalInput
+                key={`${currency.id}-${currency.name}`}
+                defaultValue={currency.name}
+                className="h-9 text-xs"
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== currency.name) updateCurrency.mutate({ currencyId: currency.id, campaignId, name });
+                }}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+              />
+              <div className="flex items-center gap-1.5 shrink-0">
+                <Switch
+                  id={`income-${currency.id}`}
+                  checked={currency.receives_income}
+                  onCheckedChange={(checked) => updateCurrency.mutate({ currencyId: currency.id, campaignId, receives_income: checked })}
+                />
+                <Label htmlFor={`income-${currency.id}`} className="text-[10px] uppercase">Income</Label>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0">
+                <Switch
+                  id={`purchases-${currency.id}`}
+                  checked={currency.pays_for_units}
+                  onCheckedChange={(checked) => updateCurrency.mutate({ currencyId: currency.id, campaignId, pays_for_units: checked })}
+                />
+                <Label htmlFor={`purchases-${currency.id}`} className="text-[10px] uppercase">Purchases</Label>
+              </div>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete ${currency.name}? Every ledger entry in it is deleted too.`)) {
+                    deleteCurrency.mutate({ currencyId: currency.id, campaignId });
+                  }
+                }}
+                className="p-1 rounded text-destructive hover:bg-destructive/10 shrink-0"
+                title="Delete currency"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <TerminalInput
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New currency..."
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        />
+        <TerminalButton size="sm" onClick={handleAdd} disabled={!newName.trim() || createCurrency.isPending} className="gap-1 shrink-0">
+          <Plus className="w-3 h-3" />
+          Add
+        </TerminalButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import {
+  useApplyLibraryUpdates,
+  useAttachGameSystem,
+  useCampaignLibrary,
+  useGameSystems,
+  useInstantiateFactions,
+} from "@/hooks/useGameSystems";
+import { factionContents, type LibraryChangeKind } from "@/lib/gameSystemLibrary";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Info, Plus, RefreshCw } from "lucide-react";
+
+interface GameSystemTabProps {
+  campaignId: string;
+}
+
+const KIND_LABELS: Record<LibraryChangeKind, string> = {
+  added: "New",
+  changed: "Changed",
+  removed: "Removed",
+};
+
+const changeKey = (change: { entity: string; ref: string }) => `${change.entity}:${change.ref}`;
+
+export function GameSystemTab({ campaignId }: GameSystemTabProps) {
+  const { data: systems = [], isLoading: systemsLoading } = useGameSystems();
+  const { campaign, gameSystemId, gameSystem, content, instantiated, diff, isLoading } = useCampaignLibrary(campaignId);
+  const attach = useAttachGameSystem();
+  const instantiate = useInstantiateFactions();
+  const applyUpdates = useApplyLibraryUpdates();
+
+  const [factionIds, setFactionIds] = useState<Set<string>>(new Set());
+  const [includeCoreRules, setIncludeCoreRules] = useState(true);
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
+
+  // Updates are ticked unless they would replace the GM's own edits
+  useEffect(() => {
+    setSelectedChanges(new Set(diff.changes.filter((c) => !c.locallyEdited).map(changeKey)));
+  }, [diff.changes]);
+
+  if (systemsLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <TerminalLoader text="Loading game systems" />
+      </div>
+    );
+  }
+
+  const toggleFaction = (id: string) => {
+    setFactionIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleChange = (key: string) => {
+    setSelectedChanges((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleInstantiate = () => {
+    if (!content) return;
+    instantiate.mutate(
+      { campaignId, content, factionIds: [...factionIds], includeCoreRules },
+      { onSuccess: () => setFactionIds(new Set()) }
+    );
+  };
+
+  const handleApply = () => {
+    if (!content) return;
+    applyUpdates.mutate({
+      campaignId,
+      content,
+      changes: diff.changes.filter((c) => selectedChanges.has(changeKey(c))),
+    });
+  };
+
+  const coreRules = content?.rules.filter((r) => !r.faction_id).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-muted/30 border border-border/50 rounded">
+        <div className="flex items-start gap-2">
+          <Info className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+          <p className="text-xs text-muted-foreground">
+            Pick a game system from the shared library, then add its factions to the campaign. Their units go into the
+            warband builder and their rules into the rules library. Copies remember where they came from, so changes to
+            the system are offered here as updates.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Game system</Label>
+        <Select
+          value={gameSystemId ?? "__none__"}
+          onValueChange={(value) =>
+            attach.mutate({
+              campaignId,
+              system: systems.find((s) => s.id === value) ?? null,
+              currentName: campaign?.game_system,
+            })
+          }
+          disabled={attach.isPending}
+        >
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__">{systems.length === 0 ? "No game systems in the library" : "None"}</SelectItem>
+            {systems.map((system) => (
+              <SelectItem key={system.id} value={system.id}>
+                {system.name}
+                {system.version && ` v${system.version}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {gameSystem && (
+          <div className="flex items-start gap-2 text-xs text-muted-foreground">
+            <p className="flex-1">{gameSystem.description || "No description."}</p>
+            {gameSystem.status !== "active" && <Badge variant="outline" className="text-[10px]">{gameSystem.status}</Badge>}
+          </div>
+        )}
+      </div>
+
+      {gameSystemId && (isLoading || !content ? (
+        <div className="flex justify-center py-4">
+          <TerminalLoader text="Loading library" size="sm" />
+        </div>
+      ) : (
+        <>
+          {diff.changes.length > 0 && (
+            <div className="space-y-2 p-3 border border-primary/40 rounded bg-primary/5">
+              <div className="flex items-center gap-2">
+                <RefreshCw className="w-3.5 h-3.5 text-primary" />
+                <span className="text-sm flex-1">
+                  {gameSystem?.name ?? "The game system"} has {diff.changes.length} update{diff.changes.length === 1 ? "" : "s"}
+                </span>
+                <TerminalButton
+                  size="sm"
+                  onClick={handleApply}
+                  disabled={selectedChanges.size === 0 || applyUpdates.isPending}
+                >
+                  Apply {selectedChanges.size}
+                </TerminalButton>
+              </div>
+              <div className="space-y-1 max-h-56 overflow-y-auto pr-1">
+                {diff.changes.map((change) => {
+                  const key = changeKey(change);
+                  return (
+                    <label
+                      key={key}
+                      htmlFor={`library-change-${key}`}
+                      className={`flex items-start gap-2 p-2 rounded border cursor-pointer text-xs ${
+                        change.locallyEdited ? "border-yellow-500/40 bg-yellow-500/5" : "border-border bg-card/50"
+                      }`}
+                    >
+                      <Checkbox
+                        id={`library-change-${key}`}
+                        checked={selectedChanges.has(key)}
+                        onCheckedChange={() => toggleChange(key)}
+                        disabled={applyUpdates.isPending}
+                        className="mt-0.5"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-mono truncate">
+                          {change.title}
+                          <span className="text-muted-foreground">
+                            {" · "}{change.entity}{change.faction && ` · ${change.faction}`}
+                          </span>
+                        </p>
+                        {change.locallyEdited && (
+                          <p className="text-[10px] text-yellow-500 flex items-center gap-1 mt-0.5">
+                            <AlertTriangle className="w-3 h-3" />
+                            {change.kind === "removed"
+                              ? "You edited this copy. Tick to delete it anyway."
+                              : "You edited this copy. Tick to overwrite your edits."}
+                          </p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className="text-[10px] shrink-0">{KIND_LABELS[change.kind]}</Badge>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs">Factions</Label>
+            {content.factions.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-2">This game system has no factions yet.</p>
+            ) : (
+              content.factions.map((faction) => {
+                const counts = factionContents(content, faction.id);
+                const added = content.units.filter((u) => u.faction_id === faction.id && instantiated.has(u.id)).length;
+                const complete = counts.units > 0 && added === counts.units;
+                return (
+                  <label
+                    key={faction.id}
+                    htmlFor={`library-faction-${faction.id}`}
+                    className="flex items-start gap-3 p-2 border border-border rounded bg-card cursor-pointer"
+                  >
+                    <Checkbox
+                      id={`library-faction-${faction.id}`}
+                      checked={factionIds.has(faction.id)}
+                      onCheckedChange={() => toggleFaction(faction.id)}
+                      disabled={instantiate.isPending}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-mono">{faction.name}</p>
+                      {faction.description && (
+                        <p className="text-[10px] text-muted-foreground line-clamp-2">{faction.description}</p>
+                      )}
+                    </div>
+                    <span className="text-[10px] text-muted-foreground shrink-0">
+                      {counts.units} units · {counts.rules} rules
+                    </span>
+                    {added > 0 && (
+                      <Badge variant="outline" className="text-[10px] shrink-0">
+                        {complete ? "In campaign" : `${added} added`}
+                      </Badge>
+                    )}
+                  </label>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Switch id="include-core-rules" checked={includeCoreRules} onCheckedChange={setIncludeCoreRules} />
+              <Label htmlFor="include-core-rules" className="text-xs">Include core rules ({coreRules})</Label>
+            </div>
+            <TerminalButton
+              size="sm"
+              onClick={handleInstantiate}
+              disabled={(factionIds.size === 0 && !(includeCoreRules && coreRules > 0)) || instantiate.isPending}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add to Campaign
+            </TerminalButton>
+          </div>
+        </>
+      ))}
+    </div>
+  );
+}
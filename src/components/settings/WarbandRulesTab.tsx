@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useWarbandRules, useSaveWarbandRules } from "@/hooks/useWarbandRules";
+import { LEADER_RULE, RULE_TYPES, describeRule, type RuleTarget, type WarbandRule, type WarbandRuleType } from "@/lib/warbandValidation";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { TerminalLoader } from "@/components/ui/TerminalLoader";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Info, Plus, Trash2 } from "lucide-react";
+
+interface WarbandRulesTabProps {
+  campaignId: string;
+}
+
+const splitList = (value: string) => value.split(",").map(v => v.trim()).filter(Boolean);
+const optionalNumber = (value: string) => value.trim() === "" ? undefined : Number(value);
+
+export function WarbandRulesTab({ campaignId }: WarbandRulesTabProps) {
+  const { data: ruleSet, isLoading } = useWarbandRules(campaignId);
+  const saveRules = useSaveWarbandRules();
+
+  const [type, setType] = useState<WarbandRuleType>("count");
+  const [targetKind, setTargetKind] = useState<RuleTarget["kind"]>("keyword");
+  const [target, setTarget] = useState("");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [percent, setPercent] = useState("25");
+  const [list, setList] = useState("");
+  const [subList, setSubList] = useState("");
+
+  if (isLoading || !ruleSet) {
+    return (
+      <div className="flex justify-center py-8">
+        <TerminalLoader text="Loading rules" />
+      </div>
+    );
+  }
+
+  const rules = ruleSet.rules;
+  const save = (next: WarbandRule[]) => saveRules.mutate({ campaignId, rules: next });
+
+  const draft = ((): WarbandRule | null => {
+    const id = crypto.randomUUID();
+    const ruleTarget: RuleTarget = { kind: targetKind, value: target.trim() };
+    switch (type) {
+      case "count":
+        if (!ruleTarget.value || (min.trim() === "" && max.trim() === "")) return null;
+        return { id, type, target: ruleTarget, min: optionalNumber(min), max: optionalNumber(max) };
+      case "points_share":
+        if (!ruleTarget.value || !(Number(percent) > 0)) return null;
+        return { id, type, target: ruleTarget, maxPercent: Number(percent) };
+      case "faction":
+        if (splitList(list).length === 0 && splitList(subList).length === 0) return null;
+        return { id, type, factions: splitList(list), subFactions: splitList(subList) };
+      case "equipment_exclusive":
+        if (splitList(list).length < 2) return null;
+        return { id, type, items: splitList(list) };
+    }
+  })();
+
+  const handleAdd = () => {
+    if (!draft) return;
+    save([...rules, draft]);
+    setTarget("");
+    setMin("");
+    setMax("");
+    setList("");
+    setSubList("");
+  };
+
+  const hasLeaderRule = rules.some(r => r.type === "count" && r.target.kind === "keyword" && r.target.value.toLowerCase() === "leader");
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-muted/30 border border-border/50 rounded">
+        <div className="flex items-start gap-2">
+          <Info className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Warbands are checked against these rules in the builder, on top of the points limit, each unit's faction and equipment options, and any limits the unit carries from the game system.</p>
+            <p><strong className="text-foreground">Keyword</strong> rules count every unit with that keyword; <strong className="text-foreground">unit</strong> rules match the unit's name.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-3 border border-border rounded bg-card">
+        <div>
+          <Label htmlFor="require-legal" className="text-sm">Require legal warbands</Label>
+          <p className="text-xs text-muted-foreground">Players whose warbands break a rule are left out of battle round pairings.</p>
+        </div>
+        <Switch
+          id="require-legal"
+          checked={ruleSet.require_legal}
+          onCheckedChange={(checked) => saveRules.mutate({ campaignId, requireLegal: checked })}
+        />
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-2">No composition rules yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center gap-3 p-2 border border-border rounded bg-card">
+              <span className="text-[10px] uppercase text-muted-foreground w-28 shrink-0">
+                {RULE_TYPES.find(t => t.value === rule.type)?.label}
+              </span>
+              <span className="flex-1 text-xs font-mono">{describeRule(rule)}</span>
+              <button
+                onClick={() => save(rules.filter(r => r.id !== rule.id))}
+                className="p-1 rounded text-destructive hover:bg-destructive/10 shrink-0"
+                title="Delete rule"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!hasLeaderRule && (
+        <TerminalButton
+          size="sm"
+          variant="outline"
+          onClick={() => save([...rules, { id: crypto.randomUUID(), ...LEADER_RULE }])}
+          disabled={saveRules.isPending}
+        >
+          Add "0–1 Leader" rule
+        </TerminalButton>
+      )}
+
+      {/* New rule */}
+      <div className="space-y-2 p-3 border border-dashed border-border rounded">
+        <div className="flex gap-2">
+          <Select value={type} onValueChange={(v) => setType(v as WarbandRuleType)}>
+            <SelectTrigger className="h-9 text-xs w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_TYPES.map((t) => (
+                <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(type === "count" || type === "points_share") && (
+            <>
+              <Select value={targetKind} onValueChange={(v) => setTargetKind(v as RuleTarget["kind"])}>
+                <SelectTrigger className="h-9 text-xs w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keyword">Keyword</SelectItem>
+                  <SelectItem value="unit">Unit</SelectItem>
+                </SelectContent>
+              </Select>
+              <TerminalInput
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={targetKind === "keyword" ? "Hero" : "Unit name"}
+                className="h-9 text-xs"
+              />
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {type === "count" && (
+            <>
+              <TerminalInput type="number" value={min} onChange={(e) => setMin(e.target.value)} placeholder="Min" className="h-9 text-xs" />
+              <TerminalInput type="number" value={max} onChange={(e) => setMax(e.target.value)} placeholder="Max" className="h-9 text-xs" />
+            </>
+          )}
+          {type === "points_share" && (
+            <TerminalInput type="number" value={percent} onChange={(e) => setPercent(e.target.value)} placeholder="Max %" className="h-9 text-xs" />
+          )}
+          {type === "faction" && (
+            <>
+              <TerminalInput value={list} onChange={(e) => setList(e.target.value)} placeholder="Allowed factions, comma separated" className="h-9 text-xs" />
+              <TerminalInput value={subList} onChange={(e) => setSubList(e.target.value)} placeholder="Allowed sub-factions" className="h-9 text-xs" />
+            </>
+          )}
+          {type === "equipment_exclusive" && (
+            <TerminalInput value={list} onChange={(e) => setList(e.target.value)} placeholder="Shield, Two-handed weapon" className="h-9 text-xs" />
+          )}
+          <TerminalButton size="sm" onClick={handleAdd} disabled={!draft || saveRules.isPending} className="shrink-0">
+            <Plus className="w-3 h-3 mr-1" />
+            Add
+          </TerminalButton>
+        </div>
+      </div>
+    </div>
+  );
+}
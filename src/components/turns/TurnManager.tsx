@@ -0,0 +1,484 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Check, Clock, Eye, EyeOff, FastForward, Plus, Trash2 } from "lucide-react";
+import { useCampaign } from "@/hooks/useCampaigns";
+import { useCampaignPlayers } from "@/hooks/useCampaignPlayers";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useCampaignPhases, useTurnState, useCampaignOrders, useCreatePhases, useUpdatePhase, useReorderPhases,
+  useDeletePhase, useUpdateUpkeepSteps, useSaveOrders, useDeleteOrders, useAdvancePhase, useCampaignTurnRealtime,
+  type CampaignOrder,
+} from "@/hooks/useCampaignTurn";
+import {
+  useScheduleEntries, useCreateScheduleEntry, useUpdateScheduleEntry, useDeleteScheduleEntry,
+} from "@/hooks/useScheduleEntries";
+import {
+  DEFAULT_PHASES, PHASE_TYPES, UPKEEP_STEPS, describeDeadline, nextTurnPosition, phaseDeadline, sortPhases,
+  type CampaignPhase, type PhaseType, type UpkeepStep,
+} from "@/lib/turnEngine";
+import { OverlayLoading } from "@/components/ui/OverlayPanel";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+interface TurnManagerProps {
+  campaignId: string;
+  isGM: boolean;
+}
+
+const GM_ROLES = new Set(["gm", "co_gm", "assistant"]);
+
+const phaseTypeLabel = (type: PhaseType) => PHASE_TYPES.find(t => t.type === type)?.label ?? type;
+
+function DeadlineBadge({ deadline }: { deadline: Date | null }) {
+  if (!deadline) return null;
+  const { label, overdue } = describeDeadline(deadline);
+  return (
+    <span className={cn("inline-flex items-center gap-1 text-xs", overdue ? "text-destructive" : "text-muted-foreground")}>
+      <Clock className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+export function TurnManager({ campaignId, isGM }: TurnManagerProps) {
+  const { user } = useAuth();
+  const { data: campaign } = useCampaign(campaignId);
+  const { data: players = [] } = useCampaignPlayers(campaignId);
+  const { data: phaseRows = [], isLoading: phasesLoading } = useCampaignPhases(campaignId);
+  const { data: turnState, isLoading: stateLoading } = useTurnState(campaignId);
+  const { data: orders = [] } = useCampaignOrders(campaignId);
+  const { data: scheduleEntries = [] } = useScheduleEntries(campaignId);
+  useCampaignTurnRealtime(campaignId);
+
+  const createPhases = useCreatePhases();
+  const updatePhase = useUpdatePhase();
+  const reorderPhases = useReorderPhases();
+  const deletePhase = useDeletePhase();
+  const updateUpkeep = useUpdateUpkeepSteps();
+  const saveOrders = useSaveOrders();
+  const deleteOrders = useDeleteOrders();
+  const advancePhase = useAdvancePhase();
+  const createEntry = useCreateScheduleEntry();
+  const updateEntry = useUpdateScheduleEntry();
+  const deleteEntry = useDeleteScheduleEntry();
+
+  const [showAdvanceConfirm, setShowAdvanceConfirm] = useState(false);
+
+  const phases = sortPhases(phaseRows);
+  const round = campaign?.current_round || 1;
+  const currentPhase = phases.find(p => p.id === turnState?.current_phase_id) ?? null;
+  const upkeepSteps = turnState?.upkeep_steps ?? [];
+  const next = nextTurnPosition(phases, { round, phaseId: currentPhase?.id ?? null });
+  const nextPhase = phases.find(p => p.id === next.phaseId) ?? null;
+  const deadline = currentPhase ? phaseDeadline(scheduleEntries, currentPhase.id, round) : null;
+
+  const playerName = (playerId: string) =>
+    players.find(p => p.id === playerId)?.profile?.display_name || "Unknown player";
+  const myPlayerId = players.find(p => p.user_id === user?.id)?.id ?? null;
+  const orderWriters = players.filter(p => !GM_ROLES.has(p.role));
+
+  // Orders for the phase in progress
+  const isOrdersPhase = currentPhase?.phase_type === "orders";
+  const currentOrders = isOrdersPhase
+    ? orders.filter(o => o.phase_id === currentPhase.id && o.round_number === round)
+    : [];
+  const myOrder = currentOrders.find(o => o.player_id === myPlayerId) ?? null;
+  const [draft, setDraft] = useState("");
+  useEffect(() => {
+    setDraft(myOrder?.content ?? "");
+  }, [myOrder?.id, myOrder?.content]);
+  const ordersClosed = !!deadline && describeDeadline(deadline).overdue;
+
+  // Past orders, newest round first, grouped by round and phase
+  const revealed = orders.filter(o => o.revealed_at);
+  const revealedGroups = new Map<string, CampaignOrder[]>();
+  for (const order of revealed) {
+    const key = `${order.round_number}:${order.phase_id}`;
+    revealedGroups.set(key, [...(revealedGroups.get(key) ?? []), order]);
+  }
+
+  if (phasesLoading || stateLoading) {
+    return <OverlayLoading />;
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = phases.map(p => p.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderPhases.mutate({ campaignId, phaseIds: ids });
+  };
+
+  const handleAddPhase = (name: string, phase_type: PhaseType) => {
+    const order_index = phases.length > 0 ? phases[phases.length - 1].order_index + 1 : 0;
+    createPhases.mutate({ campaignId, phases: [{ name, phase_type, order_index }] });
+  };
+
+  const toggleUpkeep = (step: UpkeepStep, enabled: boolean) => {
+    const steps = enabled ? [...upkeepSteps, step] : upkeepSteps.filter(s => s !== step);
+    updateUpkeep.mutate({ campaignId, steps });
+  };
+
+  // The deadline lives on a schedule entry, so it also shows on the calendar
+  const handleDeadlineChange = (phase: CampaignPhase, date: string) => {
+    const entry = scheduleEntries.find(e => e.phase_id === phase.id && e.round_number === round);
+    if (!date) {
+      if (entry) deleteEntry.mutate({ id: entry.id, campaignId });
+      return;
+    }
+    if (entry) {
+      updateEntry.mutate({ id: entry.id, start_date: date, end_date: date });
+    } else {
+      createEntry.mutate({
+        campaign_id: campaignId,
+        title: `Round ${round}: ${phase.name} due`,
+        round_number: round,
+        start_date: date,
+        end_date: date,
+        entry_type: "event",
+        status: phase.id === currentPhase?.id ? "active" : "upcoming",
+        phase_id: phase.id,
+      });
+    }
+  };
+
+  const advanceLabel = !currentPhase && phases.length > 0
+    ? `Start ${phases[0].name}`
+    : next.newRound
+      ? `Start Round ${next.round}`
+      : `Advance to ${nextPhase?.name}`;
+
+  const handleAdvance = () => {
+    if (next.newRound) {
+      setShowAdvanceConfirm(true);
+    } else {
+      advancePhase.mutate({ campaignId });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Where the campaign is */}
+      <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">Round {round}</p>
+            <h3 className="text-lg font-semibold text-primary font-mono">
+              {currentPhase ? currentPhase.name : phases.length > 0 ? "Between phases" : "No phases"}
+            </h3>
+            <div className="flex items-center gap-2 mt-1">
+              {currentPhase && <Badge variant="outline">{phaseTypeLabel(currentPhase.phase_type)}</Badge>}
+              <DeadlineBadge deadline={deadline} />
+            </div>
+          </div>
+          {isGM && (
+            <TerminalButton size="sm" onClick={handleAdvance} disabled={advancePhase.isPending} className="gap-1 shrink-0">
+              <FastForward className="w-3 h-3" />
+              {advanceLabel}
+            </TerminalButton>
+          )}
+        </div>
+
+        {phases.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            {phases.map((phase, index) => (
+              <div key={phase.id} className="flex items-center gap-1">
+                {index > 0 && <span className="text-muted-foreground text-xs">→</span>}
+                <span
+                  className={cn(
+                    "px-2 py-0.5 rounded text-xs font-mono border",
+                    phase.id === currentPhase?.id ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground"
+                  )}
+                >
+                  {phase.name}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="orders" className="w-full">
+        <TabsList>
+          <TabsTrigger value="orders">Orders</TabsTrigger>
+          <TabsTrigger value="history">Revealed ({revealed.length})</TabsTrigger>
+          {isGM && <TabsTrigger value="setup">Setup</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="orders" className="space-y-4">
+          {!isOrdersPhase ? (
+            <p className="text-sm text-muted-foreground italic p-4">
+              {phases.some(p => p.phase_type === "orders")
+                ? "Orders can be written during an Orders phase."
+                : "This campaign has no Orders phase."}
+            </p>
+          ) : (
+            <>
+              {/* The viewer's own orders */}
+              {myPlayerId && !GM_ROLES.has(players.find(p => p.id === myPlayerId)?.role ?? "") && (
+                <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-semibold text-primary">Your Orders</h4>
+                    <span className="text-xs text-muted-foreground flex items-center gap-1">
+                      <EyeOff className="w-3 h-3" />
+                      Hidden from other players until the phase ends
+                    </span>
+                  </div>
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Where your warband goes, who it attacks, what it searches for..."
+                    rows={5}
+                    disabled={ordersClosed}
+                    className="bg-input border-border font-mono text-sm"
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">
+                      {ordersClosed ? "The deadline has passed" : myOrder ? "Submitted; you can still change them" : "Not submitted yet"}
+                    </span>
+                    <div className="flex gap-2">
+                      {myOrder && !ordersClosed && (
+                        <TerminalButton
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteOrders.mutate({ orderId: myOrder.id, campaignId })}
+                          disabled={deleteOrders.isPending}
+                        >
+                          Withdraw
+                        </TerminalButton>
+                      )}
+                      <TerminalButton
+                        size="sm"
+                        onClick={() => saveOrders.mutate({
+                          campaignId,
+                          phaseId: currentPhase.id,
+                          roundNumber: round,
+                          playerId: myPlayerId,
+                          content: draft.trim(),
+                        })}
+                        disabled={ordersClosed || !draft.trim() || draft.trim() === myOrder?.content || saveOrders.isPending}
+                      >
+                        {myOrder ? "Update Orders" : "Submit Orders"}
+                      </TerminalButton>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Who has submitted; the GM can read them */}
+              <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-2">
+                <h4 className="text-sm font-semibold text-primary">
+                  Submitted ({currentOrders.length}/{orderWriters.length})
+                </h4>
+                {orderWriters.length === 0 ? (
+                  <p className="text-sm text-muted-foreground italic">No players yet.</p>
+                ) : (
+                  orderWriters.map((player) => {
+                    const order = currentOrders.find(o => o.player_id === player.id);
+                    return (
+                      <div key={player.id} className="p-2 bg-background/50 border border-border rounded">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-mono">{playerName(player.id)}</span>
+                          {order ? (
+                            <span className="text-xs text-green-400 flex items-center gap-1"><Check className="w-3 h-3" />Submitted</span>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Waiting</span>
+                          )}
+                        </div>
+                        {isGM && order && (
+                          <p className="text-xs text-muted-foreground whitespace-pre-wrap mt-1">{order.content}</p>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-3">
+          {revealedGroups.size === 0 ? (
+            <p className="text-sm text-muted-foreground italic p-4">Orders appear here once the GM advances past their phase.</p>
+          ) : (
+            [...revealedGroups.entries()].map(([key, group]) => {
+              const phase = phases.find(p => p.id === group[0].phase_id);
+              return (
+                <div key={key} className="p-4 bg-muted/30 border border-border rounded-lg space-y-2">
+                  <h4 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <Eye className="w-3 h-3" />
+                    Round {group[0].round_number}: {phase?.name ?? "Orders"}
+                  </h4>
+                  {group.map((order) => (
+                    <div key={order.id} className="p-2 bg-background/50 border border-border rounded">
+                      <p className="text-xs font-mono text-primary/80">{playerName(order.player_id)}</p>
+                      <p className="text-sm whitespace-pre-wrap">{order.content}</p>
+                    </div>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </TabsContent>
+
+        {isGM && (
+          <TabsContent value="setup" className="space-y-4">
+            {/* Phases */}
+            <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-primary">Phases</h4>
+                <TerminalButton variant="outline" size="sm" onClick={() => handleAddPhase("New Phase", "other")} className="gap-1">
+                  <Plus className="w-3 h-3" />
+                  Add Phase
+                </TerminalButton>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each round runs through these in order. Deadlines are for round {round} and appear on the calendar.
+              </p>
+
+              {phases.length === 0 ? (
+                <div className="flex items-center justify-between p-3 bg-background/50 border border-dashed border-border rounded">
+                  <span className="text-sm text-muted-foreground">
+                    {DEFAULT_PHASES.map(p => p.name).join(" → ")}
+                  </span>
+                  <TerminalButton
+                    size="sm"
+                    onClick={() => createPhases.mutate({
+                      campaignId,
+                      phases: DEFAULT_PHASES.map((p, order_index) => ({ ...p, order_index })),
+                    })}
+                    disabled={createPhases.isPending}
+                  >
+                    Use These Phases
+                  </TerminalButton>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {phases.map((phase, index) => {
+                    const entry = scheduleEntries.find(e => e.phase_id === phase.id && e.round_number === round);
+                    return (
+                      <div
+                        key={phase.id}
+                        className={cn(
+                          "grid grid-cols-[1fr_8rem_10rem_auto] gap-2 items-center p-2 bg-background/50 border rounded",
+                          phase.id === currentPhase?.id ? "border-primary" : "border-border"
+                        )}
+                      >
+                        <TerminalInput
+                          key={`${phase.id}-${phase.name}`}
+                          defaultValue={phase.name}
+                          className="h-8 text-xs"
+                          onBlur={(e) => {
+                            const name = e.target.value.trim();
+                            if (name && name !== phase.name) updatePhase.mutate({ phaseId: phase.id, campaignId, name });
+                          }}
+                          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                        />
+                        <Select
+                          value={phase.phase_type}
+                          onValueChange={(v) => updatePhase.mutate({ phaseId: phase.id, campaignId, phase_type: v as PhaseType })}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PHASE_TYPES.map(({ type, label, description }) => (
+                              <SelectItem key={type} value={type} title={description}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <input
+                          type="date"
+                          value={entry?.end_date ?? entry?.start_date ?? ""}
+                          onChange={(e) => handleDeadlineChange(phase, e.target.value)}
+                          className="h-8 bg-input border border-border rounded px-2 text-xs font-mono"
+                          title={`Deadline in round ${round}`}
+                        />
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => handleMove(index, -1)}
+                            disabled={index === 0 || reorderPhases.isPending}
+                            className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                            title="Move earlier"
+                          >
+                            <ArrowUp className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => handleMove(index, 1)}
+                            disabled={index === phases.length - 1 || reorderPhases.isPending}
+                            className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                            title="Move later"
+                          >
+                            <ArrowDown className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => deletePhase.mutate({ phaseId: phase.id, campaignId })}
+                            className="p-1 rounded hover:bg-destructive/10 text-destructive"
+                            title="Delete phase and its orders"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Upkeep */}
+            <div className="p-4 bg-muted/30 border border-border rounded-lg space-y-3">
+              <h4 className="text-sm font-semibold text-primary">Upkeep</h4>
+              <p className="text-xs text-muted-foreground">Runs when a new round starts.</p>
+              {UPKEEP_STEPS.map(({ step, label, description }) => (
+                <label key={step} className="flex items-start gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={upkeepSteps.includes(step)}
+                    onCheckedChange={(checked) => toggleUpkeep(step, checked === true)}
+                    disabled={updateUpkeep.isPending}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-sm">{label}</p>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {/* Confirm a new round, which runs upkeep */}
+      <AlertDialog open={showAdvanceConfirm} onOpenChange={setShowAdvanceConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Start Round {next.round}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {currentPhase?.phase_type === "orders" && "Orders for this phase will be revealed. "}
+              {upkeepSteps.length > 0
+                ? `Upkeep will run: ${UPKEEP_STEPS.filter(s => upkeepSteps.includes(s.step)).map(s => s.label.toLowerCase()).join(", ")}.`
+                : "No upkeep steps are switched on."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                advancePhase.mutate({ campaignId });
+                setShowAdvanceConfirm(false);
+              }}
+            >
+              Start Round {next.round}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
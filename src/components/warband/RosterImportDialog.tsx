@@ -0,0 +1,162 @@
+import { useMemo, useRef, useState } from "react";
+import { AlertTriangle, ArrowRight, FileUp, Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { Badge } from "@/components/ui/badge";
+import { usePlayerSettings } from "@/hooks/usePlayerSettings";
+import type { CampaignUnit, RosterUnit } from "@/hooks/useWarbandBuilder";
+import { matchEntries, parseRosterList, toRosterUnits } from "@/lib/rosterImport";
+
+interface RosterImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+  units: CampaignUnit[];
+  faction: string | null;
+  hasRoster: boolean;
+  onImport: (units: RosterUnit[], replace: boolean) => void;
+}
+
+const FORMAT_LABELS = {
+  text: "Text list",
+  battlescribe: "BattleScribe roster",
+  json: "JSON list",
+};
+
+export function RosterImportDialog({ open, onOpenChange, campaignId, units, faction, hasRoster, onImport }: RosterImportDialogProps) {
+  const { data: settings } = usePlayerSettings(campaignId);
+  const [text, setText] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => text.trim() ? parseRosterList(text) : null, [text]);
+  const result = useMemo(
+    () => parsed ? matchEntries(parsed.entries, units, faction ?? parsed.faction) : null,
+    [parsed, units, faction]
+  );
+
+  // Lists players pasted into their player settings before the builder existed
+  const savedLists = [settings?.additional_info, settings?.warband_link]
+    .filter((value): value is string => !!value?.trim() && !/^https?:\/\//i.test(value.trim()));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleImport = (replace: boolean) => {
+    if (!result) return;
+    onImport(toRosterUnits(result.matches), replace);
+    setText("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Import List</DialogTitle>
+          <DialogDescription>
+            Paste a list exported from another list builder: a plain-text army list or a JSON export.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pr-1">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"Captain (60 pts): Sword, Shield\n3x Warrior (75 pts)\n2 Youngbloods"}
+            className="min-h-[160px] font-mono text-xs"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.json,text/plain,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            <TerminalButton size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="w-3 h-3 mr-1" />
+              Load File
+            </TerminalButton>
+            {savedLists.map((list, i) => (
+              <TerminalButton key={i} size="sm" variant="ghost" onClick={() => setText(list)}>
+                Use list from my player settings{savedLists.length > 1 ? ` (${i + 1})` : ""}
+              </TerminalButton>
+            ))}
+          </div>
+
+          {parsed && result && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline">{FORMAT_LABELS[parsed.format]}</Badge>
+                {parsed.faction && <span>{parsed.faction}</span>}
+                <span className="ml-auto">
+                  {result.matches.length} matched · {result.unmatched.length} unmatched
+                </span>
+              </div>
+
+              {result.matches.map(({ entry, unit, score }, i) => (
+                <div key={i} className="flex items-center gap-2 p-2 rounded border border-border bg-card text-xs">
+                  <span className="font-mono w-8 shrink-0 text-muted-foreground">{entry.quantity}×</span>
+                  <span className="truncate">{entry.name}</span>
+                  {score < 1 && (
+                    <>
+                      <ArrowRight className="w-3 h-3 text-muted-foreground shrink-0" />
+                      <span className="truncate text-primary">{unit.name}</span>
+                    </>
+                  )}
+                  <span className="ml-auto shrink-0 text-muted-foreground">
+                    {unit.base_cost * entry.quantity} pts
+                  </span>
+                </div>
+              ))}
+
+              {result.unmatched.length > 0 && (
+                <div className="p-2 rounded border border-destructive/40 bg-destructive/10 space-y-1">
+                  <div className="flex items-center gap-1.5 text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3" />
+                    No campaign unit matches these entries; they won't be imported:
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {result.unmatched.map((entry, i) => (
+                      <Badge key={i} variant="outline" className="text-[10px]">
+                        {entry.quantity > 1 && `${entry.quantity}× `}{entry.name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-border">
+          {hasRoster && (
+            <TerminalButton
+              size="sm"
+              variant="outline"
+              onClick={() => handleImport(true)}
+              disabled={!result || result.matches.length === 0}
+            >
+              Replace Roster
+            </TerminalButton>
+          )}
+          <TerminalButton
+            size="sm"
+            onClick={() => handleImport(false)}
+            disabled={!result || result.matches.length === 0}
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            {hasRoster ? "Add to Roster" : "Import"}
+          </TerminalButton>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
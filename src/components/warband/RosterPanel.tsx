@@ -1,4 +1,4 @@
-import { Trash2, Minus, Plus, Swords, Info } from "lucide-react";
+import { Trash2, Minus, Plus, Swords, Info, ScrollText, Package, AlertTriangle } from "lucide-react";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { TerminalCard } from "@/components/ui/TerminalCard";
 import { Badge } from "@/components/ui/badge";
@@ -9,17 +9,30 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import type { RosterUnit } from "@/hooks/useWarbandBuilder";
+import type { UnitCareer } from "@/lib/warbandProgression";
+import { violationsByUnit, type Violation } from "@/lib/warbandValidation";
+import { cn } from "@/lib/utils";
 
 interface RosterPanelProps {
   roster: RosterUnit[];
   onRemoveUnit: (id: string) => void;
   onUpdateQuantity: (id: string, quantity: number) => void;
+  /** Career per roster unit id, once the warband is saved */
+  careers?: Record<string, UnitCareer>;
+  stash?: { label: string; quantity: number }[];
+  onOpenCareer?: (unit: RosterUnit) => void;
+  /** Rule violations from the campaign's validation rules */
+  violations?: Violation[];
 }
 
 export function RosterPanel({
   roster,
   onRemoveUnit,
   onUpdateQuantity,
+  careers,
+  stash = [],
+  onOpenCareer,
+  violations = [],
 }: RosterPanelProps) {
   if (roster.length === 0) {
     return (
@@ -37,6 +50,8 @@ export function RosterPanel({
 
   // Group roster by unit name for display
   const totalUnitCount = roster.reduce((sum, u) => sum + u.quantity, 0);
+  const unitViolations = violationsByUnit(violations);
+  const listViolations = violations.filter(v => v.unitIds.length === 0);
 
   return (
     <div className="flex flex-col h-full">
@@ -45,11 +60,30 @@ export function RosterPanel({
         <div className="text-sm font-medium">
           Your Roster
         </div>
-        <Badge variant="outline">
-          {totalUnitCount} {totalUnitCount === 1 ? "model" : "models"}
-        </Badge>
+        <div className="flex items-center gap-2">
+          {violations.length > 0 && (
+            <Badge variant="destructive">
+              {violations.length} {violations.length === 1 ? "issue" : "issues"}
+            </Badge>
+          )}
+          <Badge variant="outline">
+            {totalUnitCount} {totalUnitCount === 1 ? "model" : "models"}
+          </Badge>
+        </div>
       </div>
 
+      {/* List-wide rule violations */}
+      {listViolations.length > 0 && (
+        <div className="px-3 py-2 border-b border-destructive/30 bg-destructive/10 space-y-1">
+          {listViolations.map((v, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs text-destructive">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              {v.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Roster list */}
       <ScrollArea className="flex-1">
         <div className="p-3 space-y-2">
@@ -59,8 +93,28 @@ export function RosterPanel({
               unit={unit}
               onRemove={() => onRemoveUnit(unit.id)}
               onQuantityChange={(qty) => onUpdateQuantity(unit.id, qty)}
+              career={careers?.[unit.id]}
+              violations={unitViolations[unit.id]}
+              onOpenCareer={onOpenCareer ? () => onOpenCareer(unit) : undefined}
             />
           ))}
+
+          {/* Stash */}
+          {stash.length > 0 && (
+            <TerminalCard className="p-3">
+              <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+                <Package className="w-4 h-4 text-muted-foreground" />
+                Stash
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {stash.map((item) => (
+                  <Badge key={item.label} variant="secondary" className="text-xs">
+                    {item.label}{item.quantity > 1 && ` ×${item.quantity}`}
+                  </Badge>
+                ))}
+              </div>
+            </TerminalCard>
+          )}
         </div>
       </ScrollArea>
     </div>
@@ -71,13 +125,16 @@ interface RosterUnitCardProps {
   unit: RosterUnit;
   onRemove: () => void;
   onQuantityChange: (quantity: number) => void;
+  career?: UnitCareer;
+  onOpenCareer?: () => void;
+  violations?: Violation[];
 }
 
-function RosterUnitCard({ unit, onRemove, onQuantityChange }: RosterUnitCardProps) {
+function RosterUnitCard({ unit, onRemove, onQuantityChange, career, onOpenCareer, violations = [] }: RosterUnitCardProps) {
   const totalCost = unit.cost * unit.quantity;
 
   return (
-    <TerminalCard className="p-3">
+    <TerminalCard className={cn("p-3", violations.length > 0 && "border-destructive/60")}>
       <div className="flex items-start justify-between gap-2">
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2 mb-1">
@@ -139,6 +196,45 @@ function RosterUnitCard({ unit, onRemove, onQuantityChange }: RosterUnitCardProp
               ))}
             </div>
           )}
+
+          {/* Rule violations */}
+          {violations.length > 0 && (
+            <div className="mt-1 space-y-0.5">
+              {violations.map((v, i) => (
+                <div key={i} className="flex items-center gap-1.5 text-xs text-destructive">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  {v.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Career between battles */}
+          {career && (
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+              <Badge variant="outline" className="text-xs">{career.xp} XP</Badge>
+              {career.pendingAdvances > 0 && (
+                <Badge className="text-xs bg-primary/20 text-primary border-primary/40">
+                  {career.pendingAdvances} advance{career.pendingAdvances === 1 ? "" : "s"}
+                </Badge>
+              )}
+              {career.advancements.map((adv) => (
+                <Badge key={adv.id} variant="outline" className="text-xs text-primary">
+                  {adv.label || `Advance (${adv.roll})`}
+                </Badge>
+              ))}
+              {career.injuries.map((injury) => (
+                <Badge key={injury.id} variant="destructive" className="text-xs font-normal">
+                  {injury.label}
+                </Badge>
+              ))}
+              {career.items.map((item) => (
+                <Badge key={item.id} variant="secondary" className="text-xs">
+                  {item.label}
+                </Badge>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Quantity controls */}
@@ -166,6 +262,18 @@ function RosterUnitCard({ unit, onRemove, onQuantityChange }: RosterUnitCardProp
             </TerminalButton>
           </div>
           
+          {onOpenCareer && (
+            <TerminalButton
+              size="sm"
+              variant="ghost"
+              onClick={onOpenCareer}
+              className="h-7 px-2"
+            >
+              <ScrollText className="w-3 h-3 mr-1" />
+              Career
+            </TerminalButton>
+          )}
+
           <TerminalButton
             size="sm"
             variant="ghost"
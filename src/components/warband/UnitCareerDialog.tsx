@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Dices, RotateCcw, Undo2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TerminalButton } from "@/components/ui/TerminalButton";
+import { TerminalInput } from "@/components/ui/TerminalInput";
+import { Badge } from "@/components/ui/badge";
+import { useRecordProgression, useUndoProgressionEvent } from "@/hooks/useWarbandProgression";
+import { rollDiceExpression } from "@/lib/diceNotation";
+import { ADVANCE_ROLL, type ProgressionEvent, type ProgressionEventType, type UnitCareer } from "@/lib/warbandProgression";
+import type { RosterUnit } from "@/hooks/useWarbandBuilder";
+import { cn } from "@/lib/utils";
+
+interface UnitCareerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignId: string;
+  warbandId: string;
+  unit: RosterUnit;
+  career: UnitCareer;
+  /** GMs record experience and injuries and can undo anything */
+  isGM: boolean;
+  /** The warband's owner rolls advances and hands out equipment */
+  isOwner: boolean;
+}
+
+const EVENT_LABELS: Record<ProgressionEventType, string> = {
+  experience: "Experience",
+  injury: "Injury",
+  advancement: "Advance",
+  item: "Equipment",
+};
+
+function describeEvent(event: ProgressionEvent): string {
+  switch (event.event_type) {
+    case "experience":
+      return `${(event.amount ?? 0) > 0 ? "+" : ""}${event.amount ?? 0} XP`;
+    case "advancement":
+      return `${event.label || "Advance"}${event.roll != null ? ` (rolled ${event.roll})` : ""}`;
+    case "item":
+      return `${event.label}${(event.amount ?? 1) !== 1 ? ` ×${event.amount}` : ""}`;
+    default:
+      return event.label || EVENT_LABELS[event.event_type];
+  }
+}
+
+export function UnitCareerDialog({ open, onOpenChange, campaignId, warbandId, unit, career, isGM, isOwner }: UnitCareerDialogProps) {
+  const record = useRecordProgression();
+  const undo = useUndoProgressionEvent();
+
+  const [roll, setRoll] = useState<number | null>(null);
+  const [advance, setAdvance] = useState("");
+  const [changeType, setChangeType] = useState<ProgressionEventType>(isGM ? "experience" : "item");
+  const [changeLabel, setChangeLabel] = useState("");
+  const [changeAmount, setChangeAmount] = useState("1");
+
+  const canRecord = isGM || isOwner;
+  const changeTypes: ProgressionEventType[] = isGM ? ["experience", "injury", "item"] : ["item"];
+
+  const handleRecordAdvance = () => {
+    record.mutate(
+      {
+        campaignId,
+        warbandId,
+        rosterUnitId: unit.id,
+        eventType: "advancement",
+        label: advance.trim() || null,
+        roll,
+      },
+      {
+        onSuccess: () => {
+          setRoll(null);
+          setAdvance("");
+        },
+      }
+    );
+  };
+
+  const amount = parseInt(changeAmount, 10) || 0;
+  const changeReady = changeType === "experience" ? amount !== 0 : !!changeLabel.trim();
+
+  const handleRecordChange = () => {
+    if (!changeReady) return;
+    record.mutate(
+      {
+        campaignId,
+        warbandId,
+        rosterUnitId: unit.id,
+        eventType: changeType,
+        amount: changeType === "injury" ? null : amount || 1,
+        label: changeType === "experience" ? null : changeLabel.trim(),
+      },
+      {
+        onSuccess: () => {
+          setChangeLabel("");
+          setChangeAmount("1");
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{unit.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{career.xp} XP</Badge>
+            <Badge variant="outline">{career.advancements.length} advances</Badge>
+            {career.pendingAdvances > 0 && (
+              <Badge className="bg-primary/20 text-primary border-primary/40">
+                {career.pendingAdvances} advance{career.pendingAdvances === 1 ? "" : "s"} to roll
+              </Badge>
+            )}
+            {career.injuries.map((injury) => (
+              <Badge key={injury.id} variant="destructive" className="font-normal">{injury.label}</Badge>
+            ))}
+            {career.items.map((item) => (
+              <Badge key={item.id} variant="secondary" className="font-normal">{describeEvent(item)}</Badge>
+            ))}
+          </div>
+
+          {/* Advancement roll */}
+          {canRecord && career.pendingAdvances > 0 && (
+            <div className="p-3 border border-primary/30 rounded bg-primary/5 space-y-2">
+              <div className="flex items-center gap-2">
+                <TerminalButton
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setRoll(rollDiceExpression(ADVANCE_ROLL).total)}
+                  className="gap-1"
+                >
+                  <Dices className="w-3 h-3" />
+                  Roll {ADVANCE_ROLL}
+                </TerminalButton>
+                {roll != null && <span className="font-mono text-primary text-lg">{roll}</span>}
+              </div>
+              <div className="flex gap-2">
+                <TerminalInput
+                  value={advance}
+                  onChange={(e) => setAdvance(e.target.value)}
+                  placeholder="What the roll gives, e.g. +1 Strength"
+                />
+                <TerminalButton
+                  size="sm"
+                  onClick={handleRecordAdvance}
+                  disabled={(roll == null && !advance.trim()) || record.isPending}
+                  className="shrink-0"
+                >
+                  Record
+                </TerminalButton>
+              </div>
+            </div>
+          )}
+
+          {/* Manual changes: GMs override anything, owners add equipment */}
+          {canRecord && (
+            <div className="grid grid-cols-[8rem_1fr_4rem_auto] gap-2 items-center">
+              <Select value={changeType} onValueChange={(v) => setChangeType(v as ProgressionEventType)}>
+                <SelectTrigger className="h-9 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {changeTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{EVENT_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <TerminalInput
+                value={changeType === "experience" ? "" : changeLabel}
+                onChange={(e) => setChangeLabel(e.target.value)}
+                placeholder={changeType === "injury" ? "Injury..." : changeType === "item" ? "Item..." : "—"}
+                disabled={changeType === "experience"}
+              />
+              <TerminalInput
+                value={changeType === "injury" ? "" : changeAmount}
+                onChange={(e) => setChangeAmount(e.target.value.replace(/[^\d-]/g, ""))}
+                disabled={changeType === "injury"}
+              />
+              <TerminalButton size="sm" onClick={handleRecordChange} disabled={!changeReady || record.isPending}>
+                Add
+              </TerminalButton>
+            </div>
+          )}
+
+          {/* History */}
+          <div className="space-y-1">
+            <h4 className="text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Career</h4>
+            {career.history.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nothing yet. Approved battle reports add experience and injuries here.</p>
+            ) : (
+              career.history.map((event) => (
+                <div
+                  key={event.id}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded border border-border bg-card text-xs",
+                    event.undone_at && "opacity-50"
+                  )}
+                >
+                  <Badge variant="outline" className="shrink-0 text-[10px]">{EVENT_LABELS[event.event_type]}</Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("font-mono truncate", event.undone_at && "line-through")}>{describeEvent(event)}</p>
+                    <p className="text-[10px] text-muted-foreground">
+                      {format(new Date(event.created_at), "MMM d, yyyy")}
+                      {" · "}
+                      {event.source_type === "battle_report" ? "Battle report" : "Recorded by hand"}
+                      {event.undone_at && " · undone"}
+                    </p>
+                  </div>
+                  {isGM && (
+                    <button
+                      onClick={() => undo.mutate({ eventId: event.id, warbandId, restore: !!event.undone_at })}
+                      disabled={undo.isPending}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted shrink-0"
+                      title={event.undone_at ? "Restore" : "Undo"}
+                    >
+                      {event.undone_at ? <RotateCcw className="w-3 h-3" /> : <Undo2 className="w-3 h-3" />}
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { ArrowLeft, Save, Trash2 } from "lucide-react";
+import { ArrowLeft, Save, Trash2, Upload } from "lucide-react";
 import { Link } from "react-router-dom";
 import { TerminalButton } from "@/components/ui/TerminalButton";
 import { TerminalInput } from "@/components/ui/TerminalInput";
@@ -31,6 +31,7 @@ interface WarbandHeaderProps {
   onSubFactionChange: (subFaction: string | null) => void;
   onSave: () => void;
   onDelete: () => void;
+  onImport?: () => void;
 }
 
 export function WarbandHeader({
@@ -52,6 +53,7 @@ export function WarbandHeader({
   onSubFactionChange,
   onSave,
   onDelete,
+  onImport,
 }: WarbandHeaderProps) {
   return (
     <div className="border-b border-border bg-card p-4">
@@ -66,6 +68,16 @@ export function WarbandHeader({
         </Link>
 
         <div className="flex items-center gap-2">
+          {onImport && (
+            <TerminalButton
+              variant="outline"
+              size="sm"
+              onClick={onImport}
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </TerminalButton>
+          )}
           {isEditing && (
             <TerminalButton
               variant="destructive"
@@ -4,6 +4,10 @@ import { useAuth } from "./useAuth";
 import { toast } from "sonner";
 import { useEffect } from "react";
 import type { Json } from "@/integrations/supabase/types";
+import { parseTerritoryPoints, pointInPolygon } from "@/lib/territories";
+import { resolveTerritoryTransfer, type TerritoryRules } from "@/lib/territoryTransfer";
+import { reportLedgerLines } from "@/lib/resourceLedger";
+import { reportProgressionEvents } from "@/lib/warbandProgression";
 
 // Types
 export interface BattleRound {
@@ -28,6 +32,8 @@ export interface ConstraintsConfig {
   preferNotRepeatLastN?: number;
   byeScoring?: { win: number; draw: number; loss: number };
   allowCoop?: boolean;
+  /** Preferred pod size for free-for-all pairing */
+  podSize?: 3 | 4;
 }
 
 export interface ScoringConfig {
@@ -37,6 +43,10 @@ export interface ScoringConfig {
   requireNarrative: boolean;
   autoApprove: boolean;
   quickResultAllowed: boolean;
+  /** Points for 1st, 2nd, 3rd, 4th place in multiplayer games; overrides win/draw/loss when set */
+  placementPoints?: number[];
+  /** How approved results over a contested territory change its owner */
+  territoryRules?: TerritoryRules;
 }
 
 export interface ReportFieldsConfig {
@@ -58,6 +68,8 @@ export interface MatchParticipant {
 export interface MatchResult {
   outcome: 'win' | 'loss' | 'draw';
   points: number;
+  /** Finishing position (1 = first) in multiplayer games */
+  placement?: number;
 }
 
 export interface BattleMatch {
@@ -71,10 +83,23 @@ export interface BattleMatch {
   final_results: Record<string, MatchResult>;
   match_index: number;
   notes: string | null;
+  /** Territory being fought over, if any */
+  territory_id: string | null;
+  /** Map location being fought over; the territory it sits in changes hands */
+  contested_marker_id: string | null;
+  attacker_side: MatchParticipant['side'] | null;
   created_at: string;
   updated_at: string;
 }
 
+/** A territory changing hands after an approved battle */
+export interface TerritoryTransferResult {
+  territoryId: string;
+  territoryName: string;
+  fromName: string | null;
+  toName: string | null;
+}
+
 export interface BattleReport {
   id: string;
   match_id: string;
@@ -84,9 +109,11 @@ export interface BattleReport {
   points_earned: number;
   narrative: string | null;
   injuries: { unitName: string; injury: string; notes?: string }[];
+  experience: { unitName: string; xp: number }[];
   notable_events: { tag: string; description: string }[];
   loot_found: { item: string; quantity?: number; notes?: string }[];
-  resources: { gained?: number; spent?: number };
+  /** Paid into the ledger on approval, in the chosen currency or the campaign's first */
+  resources: { gained?: number; spent?: number; currencyId?: string };
   attachments: { url: string; type: string; name: string }[];
   approved_by: string | null;
   approved_at: string | null;
@@ -128,6 +155,9 @@ function parseMatch(data: unknown): BattleMatch {
     final_results: (d.final_results || {}) as Record<string, MatchResult>,
     match_index: d.match_index as number,
     notes: d.notes as string | null,
+    territory_id: (d.territory_id ?? null) as string | null,
+    contested_marker_id: (d.contested_marker_id ?? null) as string | null,
+    attacker_side: (d.attacker_side ?? null) as BattleMatch['attacker_side'],
     created_at: d.created_at as string,
     updated_at: d.updated_at as string,
   };
@@ -144,6 +174,7 @@ function parseReport(data: unknown): BattleReport {
     points_earned: d.points_earned as number,
     narrative: d.narrative as string | null,
     injuries: (d.injuries || []) as BattleReport['injuries'],
+    experience: (d.experience || []) as BattleReport['experience'],
     notable_events: (d.notable_events || []) as BattleReport['notable_events'],
     loot_found: (d.loot_found || []) as BattleReport['loot_found'],
     resources: (d.resources || {}) as BattleReport['resources'],
@@ -337,13 +368,19 @@ export function useCreateMatch() {
       roundId, 
       participants, 
       matchIndex,
-      isBye = false 
+      isBye = false,
+      territoryId = null,
+      contestedMarkerId = null,
+      attackerSide = null,
     }: { 
       campaignId: string; 
       roundId: string; 
       participants: MatchParticipant[];
       matchIndex: number;
       isBye?: boolean;
+      territoryId?: string | null;
+      contestedMarkerId?: string | null;
+      attackerSide?: MatchParticipant['side'] | null;
     }) => {
       const { data, error } = await supabase
         .from("battle_matches")
@@ -353,6 +390,9 @@ export function useCreateMatch() {
           participants: participants as unknown as Json,
           match_index: matchIndex,
           is_bye: isBye,
+          territory_id: territoryId,
+          contested_marker_id: contestedMarkerId,
+          attacker_side: attackerSide,
         })
         .select()
         .single();
@@ -383,6 +423,9 @@ export function useUpdateMatch() {
       if (updates.final_results !== undefined) dbUpdates.final_results = updates.final_results as unknown as Json;
       if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
       if (updates.is_bye !== undefined) dbUpdates.is_bye = updates.is_bye;
+      if (updates.territory_id !== undefined) dbUpdates.territory_id = updates.territory_id;
+      if (updates.contested_marker_id !== undefined) dbUpdates.contested_marker_id = updates.contested_marker_id;
+      if (updates.attacker_side !== undefined) dbUpdates.attacker_side = updates.attacker_side;
       
       const { data, error } = await supabase
         .from("battle_matches")
@@ -456,6 +499,7 @@ export function useSubmitBattleReport() {
           points_earned: report.points_earned,
           narrative: report.narrative,
           injuries: report.injuries as unknown as Json,
+          experience: report.experience as unknown as Json,
           notable_events: report.notable_events as unknown as Json,
           loot_found: report.loot_found as unknown as Json,
           resources: report.resources as unknown as Json,
@@ -486,6 +530,161 @@ export function useSubmitBattleReport() {
   });
 }
 
+/** A territory changing hands, as approve_battle_report applies it */
+interface TerritoryTransferPlan {
+  territory_id: string;
+  territory_name: string;
+  from_player_id: string | null;
+  from_name: string | null;
+  to_player_id: string | null;
+  to_name: string | null;
+  reason: "captured" | "draw";
+}
+
+/**
+ * Work out whether an approved match moves its contested territory to the
+ * winner, following the round's territory rules. Returns null when nothing
+ * changes hands.
+ */
+async function planTerritoryTransfer(
+  matchId: string,
+  finalResults: Record<string, MatchResult>,
+  campaignId: string
+): Promise<TerritoryTransferPlan | null> {
+  const { data: matchRow, error: matchError } = await supabase
+    .from("battle_matches")
+    .select("*, battle_rounds!inner(scoring_config)")
+    .eq("id", matchId)
+    .single();
+
+  if (matchError) throw matchError;
+
+  const match = parseMatch(matchRow);
+  if (!match.territory_id && !match.contested_marker_id) return null;
+
+  // Find the territory, either named directly or the one containing the contested location
+  let territory: { id: string; name: string; owner_player_id: string | null } | null = null;
+  if (match.territory_id) {
+    const { data, error } = await supabase
+      .from("map_territories")
+      .select("id, name, owner_player_id")
+      .eq("id", match.territory_id)
+      .maybeSingle();
+    if (error) throw error;
+    territory = data;
+  } else {
+    const { data: marker, error: markerError } = await supabase
+      .from("map_markers")
+      .select("map_id, position_x, position_y")
+      .eq("id", match.contested_marker_id!)
+      .maybeSingle();
+    if (markerError) throw markerError;
+
+    if (marker) {
+      const { data: territories, error } = await supabase
+        .from("map_territories")
+        .select("id, name, owner_player_id, points")
+        .eq("map_id", marker.map_id);
+      if (error) throw error;
+
+      const point = { x: marker.position_x, y: marker.position_y };
+      territory = (territories || []).find(t => pointInPolygon(point, parseTerritoryPoints(t.points))) ?? null;
+    }
+  }
+
+  if (!territory) return null;
+
+  // Territories are owned by campaign_players rows; match participants are user ids
+  const { data: players, error: playersError } = await supabase
+    .from("campaign_players")
+    .select("id, user_id, player_name")
+    .eq("campaign_id", campaignId);
+
+  if (playersError) throw playersError;
+
+  const playerRows = players || [];
+  const currentOwner = playerRows.find(p => p.id === territory!.owner_player_id) ?? null;
+  const scoring = (matchRow.battle_rounds as unknown as { scoring_config: ScoringConfig | null }).scoring_config;
+
+  const transfer = resolveTerritoryTransfer({
+    participants: match.participants,
+    results: finalResults,
+    attackerSide: match.attacker_side,
+    currentOwnerId: currentOwner?.user_id ?? null,
+    rules: scoring?.territoryRules,
+  });
+
+  if (!transfer) return null;
+
+  const newOwner = transfer.toPlayerId ? playerRows.find(p => p.user_id === transfer.toPlayerId) ?? null : null;
+  if (transfer.toPlayerId && !newOwner) return null;
+
+  const nameOf = (player: typeof currentOwner) =>
+    player
+      ? match.participants.find(p => p.playerId === player.user_id)?.playerName || player.player_name || "Unknown"
+      : null;
+
+  return {
+    territory_id: territory.id,
+    territory_name: territory.name,
+    from_player_id: currentOwner?.id ?? null,
+    from_name: nameOf(currentOwner),
+    to_player_id: newOwner?.id ?? null,
+    to_name: nameOf(newOwner),
+    reason: transfer.reason,
+  };
+}
+
+/**
+ * Ledger lines paying the resources recorded on a report into the reporting
+ * player's ledger, in the chosen currency or the campaign's first.
+ */
+async function planReportResources(
+  report: BattleReport,
+  campaignId: string
+): Promise<{ player_id: string; currency_id: string; amount: number; reason: string }[]> {
+  const resources = report.resources || {};
+  const lines = reportLedgerLines(resources);
+  if (lines.length === 0) return [];
+
+  const [{ data: currencies, error: currencyError }, { data: player, error: playerError }] = await Promise.all([
+    supabase.from("campaign_currencies").select("id").eq("campaign_id", campaignId).order("order_index", { ascending: true }),
+    supabase.from("campaign_players").select("id").eq("campaign_id", campaignId).eq("user_id", report.submitted_by).maybeSingle(),
+  ]);
+
+  if (currencyError) throw currencyError;
+  if (playerError) throw playerError;
+
+  const currency = (currencies || []).find(c => c.id === resources.currencyId) ?? currencies?.[0];
+  if (!currency || !player) return [];
+
+  return lines.map(line => ({ player_id: player.id, currency_id: currency.id, amount: line.amount, reason: line.reason }));
+}
+
+/**
+ * Progression events carrying a report's injuries, experience and loot into
+ * the reporting player's warbands.
+ */
+async function planReportProgression(
+  report: BattleReport,
+  campaignId: string
+): Promise<ReturnType<typeof reportProgressionEvents>> {
+  const { data: warbands, error: warbandsError } = await supabase
+    .from("warbands")
+    .select("id, roster")
+    .eq("campaign_id", campaignId)
+    .eq("owner_id", report.submitted_by)
+    .order("created_at", { ascending: true });
+
+  if (warbandsError) throw warbandsError;
+
+  const rosters = (warbands || []).map(w => ({
+    id: w.id,
+    roster: (Array.isArray(w.roster) ? w.roster : []) as unknown as { id: string; name: string }[],
+  }));
+  return reportProgressionEvents(report, rosters);
+}
+
 export function useApproveReport() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -506,35 +705,75 @@ export function useApproveReport() {
     }) => {
       if (!user) throw new Error("Must be logged in");
       
-      // Update report
-      const { error: reportError } = await supabase
+      const { data: row, error: reportError } = await supabase
         .from("battle_reports")
-        .update({
-          approved_by: user.id,
-          approved_at: new Date().toISOString(),
-        })
-        .eq("id", reportId);
+        .select("*")
+        .eq("id", reportId)
+        .single();
       
       if (reportError) throw reportError;
+      const report = parseReport(row);
       
-      // Update match
-      const { error: matchError } = await supabase
-        .from("battle_matches")
-        .update({ 
-          status: 'approved',
-          final_results: finalResults as unknown as Json,
-        })
-        .eq("id", matchId);
+      const [territory, ledger, progression] = await Promise.all([
+        planTerritoryTransfer(matchId, finalResults, campaignId),
+        planReportResources(report, campaignId),
+        planReportProgression(report, campaignId),
+      ]);
+      
+      // The approval and everything it causes are applied together, and each
+      // consequence only once however often the report is approved
+      const { data, error } = await supabase.rpc("approve_battle_report", {
+        _report_id: reportId,
+        _final_results: finalResults as unknown as Json,
+        _territory: (territory ?? undefined) as unknown as Json,
+        _ledger: ledger as unknown as Json,
+        _progression: progression.events as unknown as Json,
+      });
       
-      if (matchError) throw matchError;
+      if (error) throw error;
+      const applied = data as { transferred: boolean; ledger_entries: number; progression_events: number };
       
-      return { matchId, campaignId, roundId };
+      const transfer: TerritoryTransferResult | null = territory && applied.transferred
+        ? { territoryId: territory.territory_id, territoryName: territory.territory_name, fromName: territory.from_name, toName: territory.to_name }
+        : null;
+      
+      return {
+        matchId,
+        campaignId,
+        roundId,
+        transfer,
+        ledgerEntries: applied.ledger_entries,
+        progression: {
+          applied: applied.progression_events,
+          warbandIds: applied.progression_events > 0 ? [...new Set(progression.events.map(e => e.warband_id))] : [],
+          // Already applied on an earlier approval when nothing new went in
+          unmatched: applied.progression_events > 0 || progression.events.length === 0 ? progression.unmatched : [],
+        },
+      };
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["battle-reports", result.matchId] });
       queryClient.invalidateQueries({ queryKey: ["battle-matches", result.roundId] });
       queryClient.invalidateQueries({ queryKey: ["battle-matches-campaign", result.campaignId] });
       toast.success("Report approved");
+      
+      if (result.ledgerEntries > 0) {
+        queryClient.invalidateQueries({ queryKey: ["resource-ledger", result.campaignId] });
+      }
+      
+      for (const warbandId of result.progression.warbandIds) {
+        queryClient.invalidateQueries({ queryKey: ["warband-progression", warbandId] });
+      }
+      if (result.progression.unmatched.length > 0) {
+        toast.warning(`No roster unit matched: ${result.progression.unmatched.join(", ")}`);
+      }
+      
+      if (result.transfer) {
+        queryClient.invalidateQueries({ queryKey: ["campaign-map", result.campaignId] });
+        queryClient.invalidateQueries({ queryKey: ["campaign-activity", result.campaignId] });
+        const { territoryName, toName } = result.transfer;
+        toast.success(toName ? `${territoryName} captured by ${toName}` : `${territoryName} is now unclaimed`);
+      }
     },
     onError: (error: Error) => {
       toast.error("Failed to approve report: " + error.message);
@@ -1,5 +1,6 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
 
 export interface CampaignPlayer {
   id: string;
@@ -8,6 +9,7 @@ export interface CampaignPlayer {
   role: string;
   joined_at: string;
   warband_link: string | null;
+  is_ghost?: boolean;
   profile: {
     display_name: string | null;
     avatar_url: string | null;
@@ -132,3 +134,50 @@ export function useCampaignOwner(campaignId: string | undefined) {
     enabled: !!campaignId,
   });
 }
+
+/**
+ * Fold a ghost player into the account of the person they stood in for:
+ * their matches, results, warband, narrative, rolls, map holdings and
+ * resources move across and the ghost is removed. Runs as one transaction.
+ */
+export function useMergeGhostPlayer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, ghostPlayerId, playerId }: {
+      campaignId: string;
+      ghostPlayerId: string;
+      playerId: string;
+    }) => {
+      const { error } = await supabase.rpc("merge_ghost_player", {
+        _ghost_player_id: ghostPlayerId,
+        _player_id: playerId,
+      });
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      for (const key of [
+        "campaign-players",
+        "all-player-settings",
+        "battle-matches-campaign",
+        "warbands",
+        "player-narrative-entries",
+        "resource-ledger",
+        "campaign-orders",
+        "campaign-map",
+        "player-messages",
+        "dashboard-components",
+      ]) {
+        queryClient.invalidateQueries({ queryKey: [key, campaignId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["battle-matches"] });
+      queryClient.invalidateQueries({ queryKey: ["battle-reports"] });
+      toast.success("Ghost player merged");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to merge player: " + error.message);
+    },
+  });
+}
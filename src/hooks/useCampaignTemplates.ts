@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { fetchCampaignSnapshot, TEMPLATE_SECTIONS } from "@/lib/campaignSnapshot";
+import type { CampaignExportFile } from "@/lib/campaignImport";
+
+export interface CampaignTemplate {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  game_system: string | null;
+  source_campaign_id: string | null;
+  snapshot: CampaignExportFile;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveCampaignTemplateInput {
+  campaignId: string;
+  name: string;
+  description?: string;
+}
+
+export function useCampaignTemplates() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["campaign-templates", user?.id],
+    queryFn: async (): Promise<CampaignTemplate[]> => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("campaign_templates")
+        .select("*")
+        .eq("owner_id", user.id)
+        .order("updated_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((t) => ({ ...t, snapshot: t.snapshot as unknown as CampaignExportFile }));
+    },
+    enabled: !!user,
+  });
+}
+
+export function useSaveCampaignTemplate() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, name, description }: SaveCampaignTemplateInput) => {
+      if (!user) throw new Error("Not authenticated");
+
+      const snapshot = await fetchCampaignSnapshot(campaignId, TEMPLATE_SECTIONS);
+      if (snapshot.campaign) {
+        // Access details stay with the campaign they belong to
+        const { password_hash: _hash, join_code: _code, password: _password, ...campaign } = snapshot.campaign;
+        snapshot.campaign = campaign;
+      }
+
+      const { data, error } = await supabase
+        .from("campaign_templates")
+        .insert({
+          owner_id: user.id,
+          name,
+          description: description || null,
+          game_system: (snapshot.campaign?.game_system as string | null) ?? null,
+          source_campaign_id: campaignId,
+          snapshot: snapshot as unknown as Json,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-templates"] });
+      toast.success("Template saved");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save template: " + error.message);
+    },
+  });
+}
+
+export function useDeleteCampaignTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase
+        .from("campaign_templates")
+        .delete()
+        .eq("id", templateId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-templates"] });
+      toast.success("Template deleted");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to delete template: " + error.message);
+    },
+  });
+}
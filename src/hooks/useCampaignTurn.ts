@@ -0,0 +1,347 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import { useEffect } from "react";
+import type { CampaignPhase, PhaseType, UpkeepStep } from "@/lib/turnEngine";
+
+export interface TurnState {
+  campaign_id: string;
+  current_phase_id: string | null;
+  phase_started_at: string | null;
+  upkeep_steps: UpkeepStep[];
+  updated_at: string;
+}
+
+export interface CampaignOrder {
+  id: string;
+  campaign_id: string;
+  phase_id: string;
+  round_number: number;
+  player_id: string;
+  content: string;
+  // Set when the GM advances past the phase; until then only the author and GMs can read it
+  revealed_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AdvanceResult {
+  round: number;
+  phase_id: string | null;
+  new_round: boolean;
+  revealed_orders: number;
+  income: number;
+  battle_round_id: string | null;
+}
+
+// Queries
+export function useCampaignPhases(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["campaign-phases", campaignId],
+    queryFn: async (): Promise<CampaignPhase[]> => {
+      if (!campaignId) return [];
+      const { data, error } = await supabase
+        .from("campaign_phases")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .order("order_index", { ascending: true })
+        .order("id", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(p => ({ ...p, phase_type: p.phase_type as PhaseType }));
+    },
+    enabled: !!campaignId,
+  });
+}
+
+export function useTurnState(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["campaign-turn-state", campaignId],
+    queryFn: async (): Promise<TurnState | null> => {
+      if (!campaignId) return null;
+      const { data, error } = await supabase
+        .from("campaign_turn_state")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? { ...data, upkeep_steps: (data.upkeep_steps || []) as UpkeepStep[] } : null;
+    },
+    enabled: !!campaignId,
+  });
+}
+
+/** Every order the viewer may read: their own, revealed ones, and all of them for GMs */
+export function useCampaignOrders(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["campaign-orders", campaignId],
+    queryFn: async (): Promise<CampaignOrder[]> => {
+      if (!campaignId) return [];
+      const { data, error } = await supabase
+        .from("campaign_orders")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .order("round_number", { ascending: false })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!campaignId,
+  });
+}
+
+// Phase configuration
+export function useCreatePhases() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, phases }: {
+      campaignId: string;
+      phases: { name: string; phase_type: PhaseType; order_index: number }[];
+    }) => {
+      const { data, error } = await supabase
+        .from("campaign_phases")
+        .insert(phases.map(p => ({ ...p, campaign_id: campaignId })))
+        .select();
+
+      if (error) throw error;
+      return { data, campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-phases", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add phase: " + error.message);
+    },
+  });
+}
+
+export function useUpdatePhase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ phaseId, campaignId, ...updates }: {
+      phaseId: string;
+      campaignId: string;
+      name?: string;
+      phase_type?: PhaseType;
+    }) => {
+      const { error } = await supabase
+        .from("campaign_phases")
+        .update(updates)
+        .eq("id", phaseId);
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-phases", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update phase: " + error.message);
+    },
+  });
+}
+
+/** Rewrite order_index to match the given order */
+export function useReorderPhases() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, phaseIds }: { campaignId: string; phaseIds: string[] }) => {
+      for (const [index, phaseId] of phaseIds.entries()) {
+        const { error } = await supabase
+          .from("campaign_phases")
+          .update({ order_index: index })
+          .eq("id", phaseId);
+
+        if (error) throw error;
+      }
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-phases", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to reorder phases: " + error.message);
+    },
+  });
+}
+
+export function useDeletePhase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ phaseId, campaignId }: { phaseId: string; campaignId: string }) => {
+      const { error } = await supabase
+        .from("campaign_phases")
+        .delete()
+        .eq("id", phaseId);
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-phases", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaign-turn-state", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaign-orders", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["schedule_entries", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to delete phase: " + error.message);
+    },
+  });
+}
+
+export function useUpdateUpkeepSteps() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, steps }: { campaignId: string; steps: UpkeepStep[] }) => {
+      const { error } = await supabase
+        .from("campaign_turn_state")
+        .upsert({ campaign_id: campaignId, upkeep_steps: steps }, { onConflict: "campaign_id" });
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-turn-state", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update upkeep: " + error.message);
+    },
+  });
+}
+
+// Orders
+export function useSaveOrders() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, phaseId, roundNumber, playerId, content }: {
+      campaignId: string;
+      phaseId: string;
+      roundNumber: number;
+      playerId: string;
+      content: string;
+    }) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { data, error } = await supabase
+        .from("campaign_orders")
+        .upsert(
+          {
+            campaign_id: campaignId,
+            phase_id: phaseId,
+            round_number: roundNumber,
+            player_id: playerId,
+            content,
+            created_by: user.id,
+          },
+          { onConflict: "phase_id,round_number,player_id" }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { ...data, campaignId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-orders", data.campaignId] });
+      toast.success("Orders saved");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save orders: " + error.message);
+    },
+  });
+}
+
+export function useDeleteOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, campaignId }: { orderId: string; campaignId: string }) => {
+      const { error } = await supabase
+        .from("campaign_orders")
+        .delete()
+        .eq("id", orderId);
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-orders", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to withdraw orders: " + error.message);
+    },
+  });
+}
+
+// Advancing
+export function useAdvancePhase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId }: { campaignId: string }) => {
+      const { data, error } = await supabase.rpc("advance_campaign_phase", { _campaign_id: campaignId });
+
+      if (error) throw error;
+      return { result: data as unknown as AdvanceResult, campaignId };
+    },
+    onSuccess: ({ result, campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaign-turn-state", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaign-orders", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["schedule_entries", campaignId] });
+
+      if (!result.new_round) return;
+      queryClient.invalidateQueries({ queryKey: ["campaign-players", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["battle-rounds", campaignId] });
+
+      const upkeep = [
+        result.income > 0 && `${result.income} points of territory income paid`,
+        result.battle_round_id && "battle round created",
+      ].filter(Boolean);
+      toast.success(`Round ${result.round} begins${upkeep.length > 0 ? `: ${upkeep.join(", ")}` : ""}`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to advance turn: " + error.message);
+    },
+  });
+}
+
+// Real-time subscription hook
+export function useCampaignTurnRealtime(campaignId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!campaignId) return;
+
+    const filter = `campaign_id=eq.${campaignId}`;
+    const channel = supabase
+      .channel(`campaign-turn-${campaignId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "campaign_phases", filter }, () => {
+        queryClient.invalidateQueries({ queryKey: ["campaign-phases", campaignId] });
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "campaign_turn_state", filter }, () => {
+        queryClient.invalidateQueries({ queryKey: ["campaign-turn-state", campaignId] });
+        // The round number moves with the phase
+        queryClient.invalidateQueries({ queryKey: ["campaign", campaignId] });
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "campaign_orders", filter }, () => {
+        queryClient.invalidateQueries({ queryKey: ["campaign-orders", campaignId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [campaignId, queryClient]);
+}
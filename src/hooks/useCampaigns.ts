@@ -3,6 +3,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { toast } from "sonner";
 import type { Json } from "@/integrations/supabase/types";
+import { planCampaignImport, type CampaignExportFile, type CampaignImportBundle } from "@/lib/campaignImport";
+import { fetchCampaignSnapshot, TEMPLATE_SECTIONS } from "@/lib/campaignSnapshot";
 
 export interface DisplaySettings {
   showId?: boolean;
@@ -34,6 +36,7 @@ export interface Campaign {
   password?: string | null;
   status?: string | null;
   game_system?: string | null;
+  game_system_id?: string | null;
   start_date?: string | null;
   end_date?: string | null;
   current_round?: number | null;
@@ -174,6 +177,36 @@ export function useCampaign(campaignId: string | undefined) {
   });
 }
 
+/** Campaign columns from the create form, with the defaults for anything left blank */
+function campaignSettingsFromInput(input: CreateCampaignInput) {
+  const displaySettings: DisplaySettings = input.display_settings || {
+    showId: true,
+    showPoints: true,
+    showPlayers: true,
+    showRound: true,
+    showDates: true,
+    showStatus: true,
+    showGameSystem: true,
+  };
+
+  return {
+    name: input.name,
+    description: input.description || null,
+    points_limit: input.points_limit || 1000,
+    rules_repo_url: input.rules_repo_url || null,
+    max_players: input.max_players || 8,
+    total_rounds: input.total_rounds || 10,
+    round_length: input.round_length || "weekly",
+    game_system: input.game_system || null,
+    start_date: input.start_date || null,
+    end_date: input.end_date || null,
+    status: input.status || "active",
+    title_color: input.title_color || "#22c55e",
+    border_color: input.border_color || "#22c55e",
+    display_settings: displaySettings as unknown as Json,
+  };
+}
+
 export function useCreateCampaign() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -182,35 +215,12 @@ export function useCreateCampaign() {
     mutationFn: async (input: CreateCampaignInput): Promise<Campaign> => {
       if (!user) throw new Error("Not authenticated");
 
-      const displaySettings: DisplaySettings = input.display_settings || {
-        showId: true,
-        showPoints: true,
-        showPlayers: true,
-        showRound: true,
-        showDates: true,
-        showStatus: true,
-        showGameSystem: true,
-      };
-
       // Create campaign; password is set via edge function (hash-campaign-password), not stored on row
       const { data, error } = await supabase
         .from("campaigns")
         .insert({
-          name: input.name,
-          description: input.description || null,
-          points_limit: input.points_limit || 1000,
-          rules_repo_url: input.rules_repo_url || null,
+          ...campaignSettingsFromInput(input),
           owner_id: user.id,
-          max_players: input.max_players || 8,
-          total_rounds: input.total_rounds || 10,
-          round_length: input.round_length || "weekly",
-          game_system: input.game_system || null,
-          start_date: input.start_date || null,
-          end_date: input.end_date || null,
-          status: input.status || "active",
-          title_color: input.title_color || "#22c55e",
-          border_color: input.border_color || "#22c55e",
-          display_settings: displaySettings as unknown as Json,
         })
         .select()
         .single();
@@ -347,6 +357,113 @@ export function useJoinCampaign() {
   });
 }
 
+export type CloneSource =
+  | { type: "campaign"; campaignId: string }
+  | { type: "template"; templateId: string };
+
+export interface CloneCampaignInput extends CreateCampaignInput {
+  source: CloneSource;
+  /** What to bring across from a campaign; templates never hold any of these */
+  include: { players: boolean; messages: boolean; battles: boolean };
+}
+
+/**
+ * Create a campaign from a template or an existing campaign: widgets, rules,
+ * units, the map legend and the calendar (without its dates) come across, with
+ * the settings from the create form on top.
+ */
+export function useCloneCampaign() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ source, include, password, ...input }: CloneCampaignInput): Promise<string> => {
+      if (!user) throw new Error("Not authenticated");
+
+      let snapshot: CampaignExportFile;
+      if (source.type === "template") {
+        const { data, error } = await supabase
+          .from("campaign_templates")
+          .select("snapshot")
+          .eq("id", source.templateId)
+          .single();
+        if (error) throw error;
+        snapshot = data.snapshot as unknown as CampaignExportFile;
+      } else {
+        snapshot = await fetchCampaignSnapshot(source.campaignId, {
+          ...TEMPLATE_SECTIONS,
+          players: include.players,
+          warbands: include.players,
+          messages: include.messages,
+          battles: include.battles,
+        });
+      }
+
+      const plan = planCampaignImport(snapshot, { userId: user.id, scheduleSkeleton: true });
+      if (!plan.canImport) {
+        throw new Error(plan.issues.find((issue) => issue.level === "error")?.message);
+      }
+      Object.assign(plan.bundle.campaign, campaignSettingsFromInput(input), { current_round: 1 });
+
+      const { data: campaignId, error } = await supabase.rpc("import_campaign", {
+        bundle: plan.bundle as unknown as Json,
+      });
+      if (error) throw error;
+
+      if (password) {
+        const response = await supabase.functions.invoke("hash-campaign-password", {
+          body: { campaignId, password },
+        });
+
+        if (response.error) {
+          console.error("Failed to set password:", response.error);
+        }
+      }
+
+      return campaignId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["entitlements"] });
+      toast.success("Campaign created successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to create campaign: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * Write a planned import (see planCampaignImport) as a new campaign. The
+ * import_campaign function inserts everything in one transaction, so a failed
+ * import leaves nothing behind.
+ */
+export function useImportCampaign() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (bundle: CampaignImportBundle): Promise<string> => {
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase.rpc("import_campaign", {
+        bundle: bundle as unknown as Json,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["entitlements"] });
+      toast.success("Campaign imported successfully");
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to import campaign: ${error.message}`);
+    },
+  });
+}
+
 export function useArchiveCampaign() {
   const queryClient = useQueryClient();
 
@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useUndoStack } from "@/hooks/useUndoStack";
 import { toast } from "sonner";
 import type { Json } from "@/integrations/supabase/types";
+import type { WidgetVisibility } from "@/lib/widgetVisibility";
 
 export interface DashboardComponent {
   id: string;
@@ -16,6 +17,8 @@ export interface DashboardComponent {
   width: number;
   height: number;
   visibility: string;
+  visible_roles: string[];
+  visible_player_ids: string[];
   created_at: string;
   updated_at: string;
 }
@@ -30,6 +33,9 @@ export interface CreateComponentInput {
   position_y?: number;
   width?: number;
   height?: number;
+  visibility?: WidgetVisibility;
+  visible_roles?: string[];
+  visible_player_ids?: string[];
 }
 
 export interface UpdateComponentInput {
@@ -40,6 +46,9 @@ export interface UpdateComponentInput {
   position_y?: number;
   width?: number;
   height?: number;
+  visibility?: WidgetVisibility;
+  visible_roles?: string[];
+  visible_player_ids?: string[];
 }
 
 export function useDashboardComponents(campaignId: string | undefined) {
@@ -79,6 +88,9 @@ export function useCreateComponent() {
           position_y: input.position_y ?? 100,
           width: input.width ?? 300,
           height: input.height ?? 200,
+          visibility: input.visibility ?? "all",
+          visible_roles: input.visible_roles ?? [],
+          visible_player_ids: input.visible_player_ids ?? [],
         })
         .select()
         .single();
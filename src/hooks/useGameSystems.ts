@@ -0,0 +1,293 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { useCampaign } from "./useCampaigns";
+import {
+  diffLibrary,
+  factionNames,
+  toCampaignRule,
+  toCampaignUnit,
+  type LibraryChange,
+  type LibraryContent,
+  type LocalRule,
+  type LocalUnit,
+} from "@/lib/gameSystemLibrary";
+
+export interface GameSystem {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  icon_url: string | null;
+  version: string | null;
+  status: string;
+  repo_url: string | null;
+  last_synced_at: string | null;
+}
+
+export function useGameSystems() {
+  return useQuery({
+    queryKey: ["game-systems"],
+    queryFn: async (): Promise<GameSystem[]> => {
+      const { data, error } = await supabase
+        .from("game_systems")
+        .select("id, name, slug, description, icon_url, version, status, repo_url, last_synced_at")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+/** A game system's master factions, units and rules */
+export function useGameSystemContent(gameSystemId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["game-system-content", gameSystemId],
+    queryFn: async (): Promise<LibraryContent> => {
+      if (!gameSystemId) return { factions: [], units: [], rules: [] };
+
+      const [factions, units, rules] = await Promise.all([
+        supabase
+          .from("master_factions")
+          .select("id, game_system_id, name, slug, description")
+          .eq("game_system_id", gameSystemId)
+          .order("name", { ascending: true }),
+        supabase
+          .from("master_units")
+          .select("id, game_system_id, faction_id, name, base_cost, stats, abilities, keywords, equipment_options")
+          .eq("game_system_id", gameSystemId)
+          .order("name", { ascending: true }),
+        supabase
+          .from("master_rules")
+          .select("id, game_system_id, faction_id, category, rule_key, title, content")
+          .eq("game_system_id", gameSystemId)
+          .order("category", { ascending: true })
+          .order("title", { ascending: true }),
+      ]);
+
+      if (factions.error) throw factions.error;
+      if (units.error) throw units.error;
+      if (rules.error) throw rules.error;
+      return { factions: factions.data || [], units: units.data || [], rules: rules.data || [] };
+    },
+    enabled: !!gameSystemId,
+  });
+}
+
+async function fetchLocalLibrary(campaignId: string): Promise<{ units: LocalUnit[]; rules: LocalRule[] }> {
+  const [units, rules] = await Promise.all([
+    supabase
+      .from("campaign_units")
+      .select("id, name, faction, base_cost, stats, abilities, keywords, equipment_options, source, source_ref, source_hash")
+      .eq("campaign_id", campaignId),
+    supabase
+      .from("wargame_rules")
+      .select("id, category, rule_key, title, content, metadata")
+      .eq("campaign_id", campaignId),
+  ]);
+
+  if (units.error) throw units.error;
+  if (rules.error) throw rules.error;
+  return { units: units.data || [], rules: rules.data || [] };
+}
+
+/**
+ * The campaign's game system, its master content and the updates waiting
+ * for the campaign's copies of it
+ */
+export function useCampaignLibrary(campaignId: string | undefined) {
+  const { data: campaign } = useCampaign(campaignId);
+  const gameSystemId = campaign?.game_system_id ?? null;
+  const { data: systems = [] } = useGameSystems();
+  const content = useGameSystemContent(gameSystemId);
+
+  const local = useQuery({
+    queryKey: ["campaign-library", campaignId],
+    queryFn: () => fetchLocalLibrary(campaignId!),
+    enabled: !!campaignId,
+  });
+
+  const diff = useMemo(
+    () => content.data && local.data ? diffLibrary(local.data, content.data) : { changes: [], unchanged: 0 },
+    [content.data, local.data]
+  );
+
+  const instantiated = useMemo(
+    () => new Set((local.data?.units ?? []).map((u) => u.source_ref).filter(Boolean) as string[]),
+    [local.data]
+  );
+
+  return {
+    campaign,
+    gameSystemId,
+    gameSystem: systems.find((s) => s.id === gameSystemId) ?? null,
+    content: content.data ?? null,
+    instantiated,
+    diff,
+    isLoading: content.isLoading || local.isLoading,
+  };
+}
+
+function invalidateLibrary(queryClient: ReturnType<typeof useQueryClient>, campaignId: string) {
+  queryClient.invalidateQueries({ queryKey: ["campaign-library", campaignId] });
+  queryClient.invalidateQueries({ queryKey: ["campaign-units", campaignId] });
+  queryClient.invalidateQueries({ queryKey: ["unit-definitions", campaignId] });
+  queryClient.invalidateQueries({ queryKey: ["wargame_rules", campaignId] });
+}
+
+export function useAttachGameSystem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, system, currentName }: {
+      campaignId: string;
+      system: GameSystem | null;
+      /** The campaign's free-text game system; filled in only when blank */
+      currentName?: string | null;
+    }) => {
+      const updates: { game_system_id: string | null; game_system?: string } = { game_system_id: system?.id ?? null };
+      if (system && !currentName?.trim()) updates.game_system = system.name;
+
+      const { error } = await supabase
+        .from("campaigns")
+        .update(updates)
+        .eq("id", campaignId);
+
+      if (error) throw error;
+      return { campaignId, system };
+    },
+    onSuccess: ({ campaignId, system }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+      toast.success(system ? `Using ${system.name}` : "Game system detached");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to set game system: " + error.message);
+    },
+  });
+}
+
+/**
+ * Copy factions from the library into the campaign: their units, their
+ * faction rules and (optionally) the system's core rules. Anything already
+ * copied is skipped.
+ */
+export function useInstantiateFactions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, content, factionIds, includeCoreRules }: {
+      campaignId: string;
+      content: LibraryContent;
+      factionIds: string[];
+      includeCoreRules: boolean;
+    }) => {
+      const local = await fetchLocalLibrary(campaignId);
+      const names = factionNames(content.factions);
+      const haveUnits = new Set(local.units.map((u) => u.source_ref).filter(Boolean));
+      const haveRules = new Set(local.rules.map((r) => `${r.category}/${r.rule_key}`));
+      const syncedAt = new Date().toISOString();
+
+      const units = content.units
+        .filter((u) => factionIds.includes(u.faction_id) && !haveUnits.has(u.id))
+        .map((u) => toCampaignUnit(u, names[u.faction_id] ?? "Unknown", campaignId));
+      const rules = content.rules
+        .filter((r) => r.faction_id ? factionIds.includes(r.faction_id) : includeCoreRules)
+        .filter((r) => !haveRules.has(`${r.category}/${r.rule_key}`))
+        .map((r) => toCampaignRule(r, campaignId, syncedAt));
+
+      if (units.length > 0) {
+        const { error } = await supabase
+          .from("campaign_units")
+          .insert(units.map((u) => ({ ...u, stats: u.stats as Json, abilities: u.abilities as Json, keywords: u.keywords as Json, equipment_options: u.equipment_options as Json })));
+        if (error) throw error;
+      }
+      if (rules.length > 0) {
+        const { error } = await supabase
+          .from("wargame_rules")
+          .insert(rules.map((r) => ({
+            ...r,
+            content: r.content as Json,
+            metadata: r.metadata as unknown as Json,
+            last_change_source: "library_sync",
+          })));
+        if (error) throw error;
+      }
+
+      return { campaignId, units: units.length, rules: rules.length };
+    },
+    onSuccess: ({ campaignId, units, rules }) => {
+      invalidateLibrary(queryClient, campaignId);
+      toast.success(units + rules > 0 ? `Added ${units} units and ${rules} rules` : "Everything selected is already in the campaign");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add factions: " + error.message);
+    },
+  });
+}
+
+/** Apply accepted library updates to the campaign's copies */
+export function useApplyLibraryUpdates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, content, changes }: {
+      campaignId: string;
+      content: LibraryContent;
+      changes: LibraryChange[];
+    }) => {
+      const names = factionNames(content.factions);
+      const unitsById = new Map(content.units.map((u) => [u.id, u]));
+      const rulesById = new Map(content.rules.map((r) => [r.id, r]));
+      const syncedAt = new Date().toISOString();
+
+      for (const change of changes) {
+        if (change.entity === "unit") {
+          const master = unitsById.get(change.ref);
+          if (change.kind === "removed") {
+            const { error } = await supabase.from("campaign_units").delete().eq("id", change.localId!);
+            if (error) throw error;
+          } else if (master) {
+            const row = toCampaignUnit(master, names[master.faction_id] ?? "Unknown", campaignId);
+            const payload = { ...row, stats: row.stats as Json, abilities: row.abilities as Json, keywords: row.keywords as Json, equipment_options: row.equipment_options as Json };
+            const { error } = change.kind === "added"
+              ? await supabase.from("campaign_units").insert(payload)
+              : await supabase.from("campaign_units").update(payload).eq("id", change.localId!);
+            if (error) throw error;
+          }
+        } else {
+          const master = rulesById.get(change.ref);
+          if (change.kind === "removed") {
+            const { error } = await supabase.from("wargame_rules").delete().eq("id", change.localId!);
+            if (error) throw error;
+          } else if (master) {
+            const row = toCampaignRule(master, campaignId, syncedAt);
+            const payload = {
+              ...row,
+              content: row.content as Json,
+              metadata: row.metadata as unknown as Json,
+              last_change_source: "library_sync",
+            };
+            const { error } = change.kind === "added"
+              ? await supabase.from("wargame_rules").insert(payload)
+              : await supabase.from("wargame_rules").update(payload).eq("id", change.localId!);
+            if (error) throw error;
+          }
+        }
+      }
+
+      return { campaignId, count: changes.length };
+    },
+    onSuccess: ({ campaignId, count }) => {
+      invalidateLibrary(queryClient, campaignId);
+      queryClient.invalidateQueries({ queryKey: ["wargame_rule_revisions"] });
+      toast.success(`Applied ${count} library update${count === 1 ? "" : "s"}`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to apply library updates: " + error.message);
+    },
+  });
+}
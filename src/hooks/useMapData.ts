@@ -1,25 +1,52 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import type { CampaignMap, MapLegendItem, MapMarker, MarkerShape, MarkerVisibility, MapFogRegion } from '@/components/map/types';
+import type { CampaignMap, FogShape, MapGridSettings, MapGridType, MapLegendItem, MapMarker, MarkerShape, MarkerVisibility, MapFogRegion, MapMovementPath, MapTerritory, MapTerritoryLink, MovementStatus, TerritoryPoint } from '@/components/map/types';
+import type { Json } from '@/integrations/supabase/types';
+import { orderedTerritoryPair, parseTerritoryPoints, territoryOwnerColors } from '@/lib/territories';
+import { fogBounds } from '@/lib/fog';
+import { useCampaignPlayers } from '@/hooks/useCampaignPlayers';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
 // ============ Fetch Map Data ============
-export function useCampaignMap(campaignId: string) {
+// All of a campaign's maps, oldest first, for pickers and drill-down links
+export function useCampaignMaps(campaignId: string) {
   return useQuery({
-    queryKey: ['campaign-map', campaignId],
+    queryKey: ['campaign-maps', campaignId],
     queryFn: async () => {
-      // Fetch map
-      const { data: map, error: mapError } = await supabase
+      const { data, error } = await supabase
         .from('campaign_maps')
         .select('*')
         .eq('campaign_id', campaignId)
-        .maybeSingle();
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as CampaignMap[];
+    },
+    enabled: !!campaignId,
+  });
+}
+
+// One map with everything on it. Without a mapId this is the campaign's
+// first map, which is the world map for campaigns that predate sub-maps.
+export function useCampaignMap(campaignId: string, mapId?: string | null) {
+  return useQuery({
+    queryKey: ['campaign-map', campaignId, mapId ?? null],
+    queryFn: async () => {
+      // Fetch map
+      let mapQuery = supabase
+        .from('campaign_maps')
+        .select('*')
+        .eq('campaign_id', campaignId);
+      mapQuery = mapId ? mapQuery.eq('id', mapId) : mapQuery.order('created_at').limit(1);
+
+      const { data: map, error: mapError } = await mapQuery.maybeSingle();
 
       if (mapError) throw mapError;
 
       if (!map) {
-        return { map: null, legendItems: [], markers: [], fogRegions: [] };
+        return { map: null, legendItems: [], markers: [], fogRegions: [], territories: [], territoryLinks: [], movementPaths: [] };
       }
 
       // Fetch legend items
@@ -47,6 +74,44 @@ export function useCampaignMap(campaignId: string) {
 
       if (fogError) throw fogError;
 
+      // Per-player reveals. RLS only returns the caller's own rows to players.
+      const { data: fogReveals, error: revealsError } = await supabase
+        .from('map_fog_reveals')
+        .select('region_id, player_id')
+        .eq('map_id', map.id);
+
+      if (revealsError) throw revealsError;
+
+      const revealedTo = new Map<string, string[]>();
+      for (const reveal of fogReveals || []) {
+        revealedTo.set(reveal.region_id, [...(revealedTo.get(reveal.region_id) || []), reveal.player_id]);
+      }
+
+      // Fetch territories and their adjacency
+      const { data: territories, error: territoriesError } = await supabase
+        .from('map_territories')
+        .select('*')
+        .eq('map_id', map.id)
+        .order('name');
+
+      if (territoriesError) throw territoriesError;
+
+      const { data: territoryLinks, error: linksError } = await supabase
+        .from('map_territory_links')
+        .select('*')
+        .eq('map_id', map.id);
+
+      if (linksError) throw linksError;
+
+      // Moves. RLS only returns players the moves they submitted.
+      const { data: movementPaths, error: movesError } = await supabase
+        .from('map_movement_paths')
+        .select('*')
+        .eq('map_id', map.id)
+        .order('created_at', { ascending: false });
+
+      if (movesError) throw movesError;
+
       // Join legend items to markers
       const legendMap = new Map((legendItems || []).map(l => [l.id, l]));
       const enrichedMarkers = (markers || []).map(m => ({
@@ -56,10 +121,22 @@ export function useCampaignMap(campaignId: string) {
       }));
 
       return {
-        map: map as CampaignMap,
+        map: { ...map, grid_type: map.grid_type as MapGridType } as CampaignMap,
         legendItems: (legendItems || []).map(l => ({ ...l, shape: l.shape as MarkerShape })) as MapLegendItem[],
         markers: enrichedMarkers as MapMarker[],
-        fogRegions: (fogRegions || []) as MapFogRegion[],
+        fogRegions: (fogRegions || []).map(f => ({
+          ...f,
+          shape: f.shape as FogShape,
+          points: parseTerritoryPoints(f.points),
+          revealed_to: revealedTo.get(f.id) || [],
+        })) as MapFogRegion[],
+        territories: (territories || []).map(t => ({ ...t, points: parseTerritoryPoints(t.points) })) as MapTerritory[],
+        territoryLinks: (territoryLinks || []) as MapTerritoryLink[],
+        movementPaths: (movementPaths || []).map(m => ({
+          ...m,
+          status: m.status as MovementStatus,
+          points: parseTerritoryPoints(m.points),
+        })) as MapMovementPath[],
       };
     },
     enabled: !!campaignId,
@@ -85,10 +162,11 @@ export function useMapRealtime(campaignId: string, mapId: string | null | undefi
           event: '*',
           schema: 'public',
           table: 'campaign_maps',
-          filter: `id=eq.${mapId}`,
+          filter: `campaign_id=eq.${campaignId}`,
         },
         () => {
           queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+          queryClient.invalidateQueries({ queryKey: ['campaign-maps', campaignId] });
         }
       )
       .on(
@@ -127,6 +205,54 @@ export function useMapRealtime(campaignId: string, mapId: string | null | undefi
           queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'map_fog_reveals',
+          filter: `map_id=eq.${mapId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'map_territories',
+          filter: `map_id=eq.${mapId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'map_territory_links',
+          filter: `map_id=eq.${mapId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'map_movement_paths',
+          filter: `map_id=eq.${mapId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+        }
+      )
       .subscribe();
 
     channelRef.current = channel;
@@ -145,13 +271,19 @@ export function useCreateMap() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ campaignId, imageUrl, title }: { campaignId: string; imageUrl: string; title?: string }) => {
+    mutationFn: async ({ campaignId, imageUrl, title, parentMapId }: {
+      campaignId: string;
+      imageUrl: string;
+      title?: string;
+      parentMapId?: string | null;
+    }) => {
       const { data, error } = await supabase
         .from('campaign_maps')
         .insert({
           campaign_id: campaignId,
           image_url: imageUrl,
           title: title || 'Campaign Map',
+          parent_map_id: parentMapId ?? null,
         })
         .select()
         .single();
@@ -161,6 +293,7 @@ export function useCreateMap() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaign_id] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-maps', data.campaign_id] });
       toast.success('Map created');
     },
     onError: (error: Error) => {
@@ -173,10 +306,17 @@ export function useUpdateMap() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ mapId, imageUrl, title }: { mapId: string; imageUrl?: string; title?: string }) => {
-      const updates: Partial<CampaignMap> = {};
+    mutationFn: async ({ mapId, imageUrl, title, parentMapId, grid }: {
+      mapId: string;
+      imageUrl?: string;
+      title?: string;
+      parentMapId?: string | null;
+      grid?: Partial<MapGridSettings>;
+    }) => {
+      const updates: Partial<CampaignMap> = { ...grid };
       if (imageUrl !== undefined) updates.image_url = imageUrl;
       if (title !== undefined) updates.title = title;
+      if (parentMapId !== undefined) updates.parent_map_id = parentMapId;
       
       const { data, error } = await supabase
         .from('campaign_maps')
@@ -190,6 +330,7 @@ export function useUpdateMap() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaign_id] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-maps', data.campaign_id] });
       toast.success('Map updated');
     },
     onError: (error: Error) => {
@@ -198,6 +339,29 @@ export function useUpdateMap() {
   });
 }
 
+/**
+ * Record a map image's height / width. Runs quietly when a GM opens the map;
+ * the database uses it to measure movement routes.
+ */
+export function useRecordMapAspect() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ mapId, aspect }: { mapId: string; aspect: number; campaignId: string }) => {
+      const { error } = await supabase
+        .from('campaign_maps')
+        .update({ image_aspect: aspect })
+        .eq('id', mapId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-maps', campaignId] });
+    },
+  });
+}
+
 export function useDeleteMap() {
   const queryClient = useQueryClient();
   
@@ -213,6 +377,7 @@ export function useDeleteMap() {
     },
     onSuccess: ({ campaignId }) => {
       queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-maps', campaignId] });
       toast.success('Map deleted');
     },
     onError: (error: Error) => {
@@ -335,13 +500,14 @@ export function useCreateMarker() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ mapId, legendItemId, label, positionX, positionY, visibility, campaignId }: { 
+    mutationFn: async ({ mapId, legendItemId, label, positionX, positionY, visibility, linkedMapId, campaignId }: { 
       mapId: string;
       legendItemId?: string;
       label?: string;
       positionX: number;
       positionY: number;
       visibility?: MarkerVisibility;
+      linkedMapId?: string | null;
       campaignId: string;
     }) => {
       const { data, error } = await supabase
@@ -353,6 +519,7 @@ export function useCreateMarker() {
           position_x: positionX,
           position_y: positionY,
           visibility: visibility || 'all',
+          linked_map_id: linkedMapId ?? null,
         })
         .select()
         .single();
@@ -373,13 +540,16 @@ export function useUpdateMarker() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ markerId, legendItemId, label, positionX, positionY, visibility, campaignId }: { 
+    mutationFn: async ({ markerId, legendItemId, label, positionX, positionY, visibility, linkedMapId, ownerPlayerId, movementAllowance, campaignId }: { 
       markerId: string;
       legendItemId?: string | null;
       label?: string | null;
       positionX?: number;
       positionY?: number;
       visibility?: MarkerVisibility;
+      linkedMapId?: string | null;
+      ownerPlayerId?: string | null;
+      movementAllowance?: number | null;
       campaignId: string;
     }) => {
       const updates: Record<string, unknown> = {};
@@ -388,6 +558,9 @@ export function useUpdateMarker() {
       if (positionX !== undefined) updates.position_x = positionX;
       if (positionY !== undefined) updates.position_y = positionY;
       if (visibility !== undefined) updates.visibility = visibility;
+      if (linkedMapId !== undefined) updates.linked_map_id = linkedMapId;
+      if (ownerPlayerId !== undefined) updates.owner_player_id = ownerPlayerId;
+      if (movementAllowance !== undefined) updates.movement_allowance = movementAllowance;
       
       const { data, error } = await supabase
         .from('map_markers')
@@ -435,22 +608,30 @@ export function useCreateFogRegion() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ mapId, positionX, positionY, width, height, campaignId }: { 
+    mutationFn: async ({ mapId, shape = 'rect', positionX, positionY, width, height, points = [], brushSize = 0, campaignId }: { 
       mapId: string;
-      positionX: number;
-      positionY: number;
-      width: number;
-      height: number;
+      shape?: FogShape;
+      // Rectangles pass their box; polygons and brush strokes pass points
+      positionX?: number;
+      positionY?: number;
+      width?: number;
+      height?: number;
+      points?: TerritoryPoint[];
+      brushSize?: number;
       campaignId: string;
     }) => {
+      const bounds = shape === 'rect'
+        ? { position_x: positionX, position_y: positionY, width, height }
+        : fogBounds(points, shape === 'brush' ? brushSize : 0);
+
       const { data, error } = await supabase
         .from('map_fog_regions')
         .insert({
           map_id: mapId,
-          position_x: positionX,
-          position_y: positionY,
-          width,
-          height,
+          shape,
+          points: points as unknown as Json,
+          brush_size: shape === 'brush' ? brushSize : 0,
+          ...bounds,
           revealed: false,
         })
         .select()
@@ -521,3 +702,306 @@ export function useDeleteFogRegion() {
     },
   });
 }
+
+// Replace the set of players a fog region is lifted for
+export function useSetFogReveals() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ regionId, mapId, playerIds, campaignId }: {
+      regionId: string;
+      mapId: string;
+      playerIds: string[];
+      campaignId: string;
+    }) => {
+      const { error: deleteError } = await supabase
+        .from('map_fog_reveals')
+        .delete()
+        .eq('region_id', regionId);
+      
+      if (deleteError) throw deleteError;
+      
+      if (playerIds.length > 0) {
+        const { error } = await supabase
+          .from('map_fog_reveals')
+          .insert(playerIds.map(playerId => ({ region_id: regionId, map_id: mapId, player_id: playerId })));
+        
+        if (error) throw error;
+      }
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update fog reveals: ${error.message}`);
+    },
+  });
+}
+
+// ============ Territories ============
+/** Players who can hold territory, with a stable faction colour each */
+export function useTerritoryOwners(campaignId: string) {
+  const { data: players = [] } = useCampaignPlayers(campaignId);
+
+  return useMemo(() => ({
+    owners: players.map(p => ({ id: p.id, name: p.profile?.display_name || 'Unknown player' })),
+    ownerColors: territoryOwnerColors(players.map(p => p.id)),
+  }), [players]);
+}
+
+export function useCreateTerritory() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ mapId, name, points, ownerPlayerId, value, campaignId }: { 
+      mapId: string;
+      name: string;
+      points: TerritoryPoint[];
+      ownerPlayerId?: string | null;
+      value?: number;
+      campaignId: string;
+    }) => {
+      const { data, error } = await supabase
+        .from('map_territories')
+        .insert({
+          map_id: mapId,
+          name,
+          points: points as unknown as Json,
+          owner_player_id: ownerPlayerId || null,
+          value: value ?? 0,
+        })
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return { ...data, campaignId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaignId] });
+      toast.success('Territory added');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to add territory: ${error.message}`);
+    },
+  });
+}
+
+export function useUpdateTerritory() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ territoryId, name, points, ownerPlayerId, value, campaignId }: { 
+      territoryId: string;
+      name?: string;
+      points?: TerritoryPoint[];
+      ownerPlayerId?: string | null;
+      value?: number;
+      campaignId: string;
+    }) => {
+      const updates: Record<string, unknown> = {};
+      if (name !== undefined) updates.name = name;
+      if (points !== undefined) updates.points = points;
+      if (ownerPlayerId !== undefined) updates.owner_player_id = ownerPlayerId;
+      if (value !== undefined) updates.value = value;
+      
+      const { data, error } = await supabase
+        .from('map_territories')
+        .update(updates)
+        .eq('id', territoryId)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return { ...data, campaignId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update territory: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteTerritory() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ territoryId, campaignId }: { territoryId: string; campaignId: string }) => {
+      const { error } = await supabase
+        .from('map_territories')
+        .delete()
+        .eq('id', territoryId);
+      
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+      toast.success('Territory removed');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to remove territory: ${error.message}`);
+    },
+  });
+}
+
+/** Replace the full set of territories adjacent to one territory */
+export function useSetTerritoryAdjacency() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ mapId, territoryId, adjacentIds, campaignId }: { 
+      mapId: string;
+      territoryId: string;
+      adjacentIds: string[];
+      campaignId: string;
+    }) => {
+      const { error: deleteError } = await supabase
+        .from('map_territory_links')
+        .delete()
+        .or(`territory_a.eq.${territoryId},territory_b.eq.${territoryId}`);
+      
+      if (deleteError) throw deleteError;
+
+      const rows = adjacentIds
+        .filter(id => id !== territoryId)
+        .map(id => {
+          const [a, b] = orderedTerritoryPair(territoryId, id);
+          return { map_id: mapId, territory_a: a, territory_b: b };
+        });
+
+      if (rows.length > 0) {
+        const { error } = await supabase.from('map_territory_links').insert(rows);
+        if (error) throw error;
+      }
+      
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update adjacency: ${error.message}`);
+    },
+  });
+}
+
+// ============ Movement ============
+/**
+ * Submit a marker's route. Players' moves wait for a GM; a GM's own move is
+ * recorded as approved and applied straight away. A player's earlier pending
+ * move for the same marker is replaced. The database measures the distance.
+ */
+export function useSubmitMove() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  
+  return useMutation({
+    mutationFn: async ({ mapId, markerId, playerId, points, approve, campaignId }: {
+      mapId: string;
+      markerId: string;
+      playerId: string | null;
+      points: TerritoryPoint[];
+      approve: boolean;
+      campaignId: string;
+    }) => {
+      if (!user) throw new Error('Must be logged in');
+      
+      // A GM's move is recorded as approved and moves the marker in one go
+      if (approve) {
+        const { error } = await supabase.rpc('move_map_marker', {
+          _marker_id: markerId,
+          _points: points as unknown as Json,
+        });
+
+        if (error) throw error;
+        return { campaignId, approve };
+      }
+
+      const { error: withdrawError } = await supabase
+        .from('map_movement_paths')
+        .delete()
+        .eq('marker_id', markerId)
+        .eq('status', 'pending');
+
+      if (withdrawError) throw withdrawError;
+
+      const { error } = await supabase
+        .from('map_movement_paths')
+        .insert({
+          map_id: mapId,
+          marker_id: markerId,
+          player_id: playerId,
+          points: points as unknown as Json,
+        });
+
+      if (error) throw error;
+      return { campaignId, approve };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaignId] });
+      toast.success(data.approve ? 'Marker moved' : 'Move submitted for GM approval');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to submit move: ${error.message}`);
+    },
+  });
+}
+
+/** Approve (moving the marker to the end of the route) or reject a pending move */
+export function useReviewMove() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  
+  return useMutation({
+    mutationFn: async ({ path, status, gmNote, campaignId }: {
+      path: MapMovementPath;
+      status: Exclude<MovementStatus, 'pending'>;
+      gmNote?: string | null;
+      campaignId: string;
+    }) => {
+      if (!user) throw new Error('Must be logged in');
+      
+      // Approving moves the marker in the same transaction
+      const { error } = await supabase.rpc('review_movement_path', {
+        _path_id: path.id,
+        _status: status,
+        _gm_note: gmNote ?? undefined,
+      });
+      
+      if (error) throw error;
+      return { status, campaignId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', data.campaignId] });
+      toast.success(data.status === 'approved' ? 'Move approved' : 'Move rejected');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to review move: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteMove() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ pathId, campaignId }: { pathId: string; campaignId: string }) => {
+      const { error } = await supabase
+        .from('map_movement_paths')
+        .delete()
+        .eq('id', pathId);
+      
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-map', campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to remove move: ${error.message}`);
+    },
+  });
+}
@@ -14,6 +14,7 @@ export type OverlayType =
   | "calendar" 
   | "settings"
   | "battles"
+  | "turns"
   | null;
 
 interface UseOverlayStateReturn {
@@ -0,0 +1,229 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import { useEffect } from "react";
+import type { CampaignCurrency, LedgerEntry, LedgerSourceType } from "@/lib/resourceLedger";
+
+// Currencies
+export function useCurrencies(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["campaign-currencies", campaignId],
+    queryFn: async (): Promise<CampaignCurrency[]> => {
+      if (!campaignId) return [];
+      const { data, error } = await supabase
+        .from("campaign_currencies")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .order("order_index", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!campaignId,
+  });
+}
+
+export function useCreateCurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, name, order_index }: { campaignId: string; name: string; order_index: number }) => {
+      const { data, error } = await supabase
+        .from("campaign_currencies")
+        .insert({ campaign_id: campaignId, name, order_index })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { ...data, campaignId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-currencies", data.campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add currency: " + error.message);
+    },
+  });
+}
+
+export function useUpdateCurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ currencyId, campaignId, ...updates }: {
+      currencyId: string;
+      campaignId: string;
+      name?: string;
+      color?: string | null;
+      receives_income?: boolean;
+      pays_for_units?: boolean;
+    }) => {
+      // Income and purchases each use one currency, so taking the role clears it elsewhere
+      if (updates.receives_income || updates.pays_for_units) {
+        const flag = updates.receives_income ? "receives_income" : "pays_for_units";
+        const { error } = await supabase
+          .from("campaign_currencies")
+          .update({ [flag]: false })
+          .eq("campaign_id", campaignId)
+          .neq("id", currencyId);
+
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from("campaign_currencies")
+        .update(updates)
+        .eq("id", currencyId);
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-currencies", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update currency: " + error.message);
+    },
+  });
+}
+
+export function useDeleteCurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ currencyId, campaignId }: { currencyId: string; campaignId: string }) => {
+      const { error } = await supabase
+        .from("campaign_currencies")
+        .delete()
+        .eq("id", currencyId);
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-currencies", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["resource-ledger", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to delete currency: " + error.message);
+    },
+  });
+}
+
+// Ledger
+/** A player's entries, or every entry the viewer may read when no player is given */
+export function useLedgerEntries(campaignId: string | undefined, playerId?: string) {
+  return useQuery({
+    queryKey: ["resource-ledger", campaignId, playerId ?? "all"],
+    queryFn: async (): Promise<LedgerEntry[]> => {
+      if (!campaignId) return [];
+      let query = supabase
+        .from("resource_ledger_entries")
+        .select("*")
+        .eq("campaign_id", campaignId);
+      if (playerId) query = query.eq("player_id", playerId);
+
+      const { data, error } = await query.order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(e => ({ ...e, source_type: e.source_type as LedgerSourceType }));
+    },
+    enabled: !!campaignId,
+  });
+}
+
+export function useAdjustResources() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, playerId, currencyId, amount, reason, roundNumber }: {
+      campaignId: string;
+      playerId: string;
+      currencyId: string;
+      amount: number;
+      reason: string;
+      roundNumber?: number | null;
+    }) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { error } = await supabase
+        .from("resource_ledger_entries")
+        .insert({
+          campaign_id: campaignId,
+          player_id: playerId,
+          currency_id: currencyId,
+          amount,
+          reason,
+          source_type: "gm_adjustment",
+          round_number: roundNumber ?? null,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["resource-ledger", campaignId] });
+      toast.success("Adjustment recorded");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to adjust resources: " + error.message);
+    },
+  });
+}
+
+/** Undo one entry; it stays in the history, struck out */
+export function useUndoLedgerEntry() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ entryId, campaignId, restore = false }: { entryId: string; campaignId: string; restore?: boolean }) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { error } = await supabase
+        .from("resource_ledger_entries")
+        .update(restore
+          ? { undone_at: null, undone_by: null }
+          : { undone_at: new Date().toISOString(), undone_by: user.id })
+        .eq("id", entryId);
+
+      if (error) throw error;
+      return { campaignId, restore };
+    },
+    onSuccess: ({ campaignId, restore }) => {
+      queryClient.invalidateQueries({ queryKey: ["resource-ledger", campaignId] });
+      toast.success(restore ? "Entry restored" : "Entry undone");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to undo entry: " + error.message);
+    },
+  });
+}
+
+// Real-time subscription hook
+export function useResourceLedgerRealtime(campaignId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!campaignId) return;
+
+    const filter = `campaign_id=eq.${campaignId}`;
+    const channel = supabase
+      .channel(`resource-ledger-${campaignId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "campaign_currencies", filter }, () => {
+        queryClient.invalidateQueries({ queryKey: ["campaign-currencies", campaignId] });
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "resource_ledger_entries", filter }, () => {
+        queryClient.invalidateQueries({ queryKey: ["resource-ledger", campaignId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [campaignId, queryClient]);
+}
@@ -1,4 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { DiceRollBreakdown } from "@/lib/diceNotation";
+import type { RollTableRow, TableRollContext } from "@/lib/rollTables";
 import { useAuth } from "./useAuth";
 import { useEffect, useState } from "react";
 
@@ -19,7 +22,7 @@ export function useRecordRoll(campaignId: string) {
       });
   }, [user]);
 
-  const recordRoll = async (diceConfig: string, rolls: number[], total: number) => {
+  const recordRoll = async (diceConfig: string, rolls: number[], total: number, breakdown?: DiceRollBreakdown) => {
     if (!user) return;
 
     const playerName = displayName || user.email?.split("@")[0] || "Unknown";
@@ -31,8 +34,56 @@ export function useRecordRoll(campaignId: string) {
       dice_config: diceConfig,
       rolls,
       total,
+      breakdown: (breakdown ?? null) as unknown as Json,
     });
   };
 
   return { recordRoll };
 }
+
+export interface TableRollRequest {
+  name: string;
+  ruleId?: string;
+  columns?: string[];
+  rows?: RollTableRow[];
+}
+
+/**
+ * Roll on the server via the roll-dice edge function. The function writes the
+ * history row itself (marked verified, with the seed it rolled from), so the
+ * caller only gets the result back.
+ */
+export function useServerRoll(campaignId: string) {
+  const invokeRoll = async (body: { expression?: string; table?: TableRollRequest }) => {
+    const { data, error } = await supabase.functions.invoke("roll-dice", {
+      body: { campaignId, ...body },
+    });
+
+    if (error) {
+      // Non-2xx responses carry the function's own error message in the body
+      let message = error.message;
+      try {
+        const body = await error.context?.json();
+        if (body?.error) message = body.error;
+      } catch {
+        // Keep the generic message
+      }
+      throw new Error(message);
+    }
+
+    return data.roll as { breakdown: DiceRollBreakdown; context: TableRollContext | null };
+  };
+
+  const rollOnServer = async (expression: string): Promise<DiceRollBreakdown> => {
+    const roll = await invokeRoll({ expression });
+    return roll.breakdown;
+  };
+
+  /** Roll on a table; the server works out the dice and resolves the row */
+  const rollTableOnServer = async (table: TableRollRequest): Promise<TableRollContext> => {
+    const roll = await invokeRoll({ table });
+    return roll.context!;
+  };
+
+  return { rollOnServer, rollTableOnServer };
+}
@@ -50,7 +50,7 @@ export function useRuleSync() {
 
     const { data, error } = await supabase
       .from("wargame_rules")
-      .update({ content: content as unknown as Json })
+      .update({ content: content as unknown as Json, last_change_source: "widget_sync" })
       .eq("id", ruleId)
       .select("campaign_id")
       .single();
@@ -64,6 +64,7 @@ export function useRuleSync() {
     if (data?.campaign_id) {
       queryClient.invalidateQueries({ queryKey: ["wargame_rules", data.campaign_id] });
       queryClient.invalidateQueries({ queryKey: ["wargame_rule", ruleId] });
+      queryClient.invalidateQueries({ queryKey: ["wargame_rule_revisions", ruleId] });
     }
   }, [queryClient]);
 
@@ -79,7 +80,7 @@ export function useRuleSync() {
 
     const { data, error } = await supabase
       .from("wargame_rules")
-      .update({ content: content as unknown as Json })
+      .update({ content: content as unknown as Json, last_change_source: "widget_sync" })
       .eq("id", ruleId)
       .select("campaign_id")
       .single();
@@ -93,6 +94,7 @@ export function useRuleSync() {
     if (data?.campaign_id) {
       queryClient.invalidateQueries({ queryKey: ["wargame_rules", data.campaign_id] });
       queryClient.invalidateQueries({ queryKey: ["wargame_rule", ruleId] });
+      queryClient.invalidateQueries({ queryKey: ["wargame_rule_revisions", ruleId] });
     }
   }, [queryClient]);
 
@@ -0,0 +1,359 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useAuth } from "./useAuth";
+import type { Json } from "@/integrations/supabase/types";
+import { extractPdfText, getOcrPageNumbers } from "@/lib/pdfExtractor";
+import { ocrPdfPages } from "@/lib/pdfOcr";
+import { getSpawnPosition } from "@/lib/canvasPlacement";
+import {
+  buildReviewItems,
+  parseReviewItems,
+  reviewItemContent,
+  type ExtractionJobStatus,
+  type ReviewItem,
+} from "@/lib/rulebookIngestion";
+
+const BUCKET_NAME = "campaign-documents";
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+export interface CampaignDocument {
+  id: string;
+  campaign_id: string;
+  name: string;
+  file_path: string;
+  file_size: number | null;
+  file_type: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+export interface ExtractionJob {
+  id: string;
+  campaign_id: string;
+  document_id: string | null;
+  source_name: string | null;
+  status: ExtractionJobStatus;
+  completed_sections: number;
+  total_sections: number;
+  error_message: string | null;
+  items: ReviewItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export function useCampaignDocuments(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["campaign-documents", campaignId],
+    queryFn: async (): Promise<CampaignDocument[]> => {
+      if (!campaignId) return [];
+
+      const { data, error } = await supabase
+        .from("campaign_documents")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!campaignId,
+  });
+}
+
+export function useExtractionJobs(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["extraction-jobs", campaignId],
+    queryFn: async (): Promise<ExtractionJob[]> => {
+      if (!campaignId) return [];
+
+      const { data, error } = await supabase
+        .from("extraction_jobs")
+        .select("*")
+        .eq("campaign_id", campaignId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(job => ({
+        id: job.id,
+        campaign_id: job.campaign_id,
+        document_id: job.document_id,
+        source_name: job.source_name,
+        status: job.status as ExtractionJobStatus,
+        completed_sections: job.completed_sections ?? 0,
+        total_sections: job.total_sections ?? 0,
+        error_message: job.error_message,
+        items: parseReviewItems(job.detected_sections),
+        created_at: job.created_at,
+        updated_at: job.updated_at,
+      }));
+    },
+    enabled: !!campaignId,
+  });
+}
+
+async function saveJobItems(jobId: string, items: ReviewItem[]) {
+  const status: ExtractionJobStatus = items.some(i => i.status === "pending") ? "review" : "completed";
+  const { error } = await supabase
+    .from("extraction_jobs")
+    .update({ detected_sections: items as unknown as Json, status })
+    .eq("id", jobId);
+
+  if (error) throw error;
+}
+
+/**
+ * Upload a rulebook PDF and run an extraction job over it. Text is pulled
+ * out page by page in the browser, with progress written to the job; pages
+ * of a scanned PDF are then read with OCR. The detected sections and tables
+ * are stored on the job for review.
+ */
+export function useIngestRulebook() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, file }: { campaignId: string; file: File }) => {
+      if (!user) throw new Error("Must be logged in");
+      if (file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+        throw new Error("Only PDF files can be imported");
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        throw new Error(`File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+      }
+
+      const filePath = `${campaignId}/${Date.now()}-${crypto.randomUUID()}.pdf`;
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .upload(filePath, file, { contentType: "application/pdf", upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { data: document, error: documentError } = await supabase
+        .from("campaign_documents")
+        .insert({
+          campaign_id: campaignId,
+          name: file.name,
+          file_path: filePath,
+          file_size: file.size,
+          file_type: "pdf",
+          uploaded_by: user.id,
+        })
+        .select()
+        .single();
+      if (documentError) throw documentError;
+
+      const { data: job, error: jobError } = await supabase
+        .from("extraction_jobs")
+        .insert({
+          campaign_id: campaignId,
+          document_id: document.id,
+          source_name: file.name,
+          status: "processing",
+          completed_sections: 0,
+        })
+        .select()
+        .single();
+      if (jobError) throw jobError;
+
+      queryClient.invalidateQueries({ queryKey: ["campaign-documents", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+
+      try {
+        let lastReported = 0;
+        const result = await extractPdfText(file, (page, total) => {
+          // Every few pages is enough for the progress bar
+          if (page - lastReported < 5 && page !== total) return;
+          lastReported = page;
+          supabase
+            .from("extraction_jobs")
+            .update({ completed_sections: page, total_sections: total })
+            .eq("id", job.id)
+            .then(() => queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] }));
+        });
+
+        // Scanned rulebooks: read the near-empty pages again with OCR
+        const ocrPageNumbers = getOcrPageNumbers(result.pages);
+        const ocrConfidence: Record<number, number> = {};
+        const notes: string[] = [];
+        let pages = result.pages;
+        if (ocrPageNumbers.length > 0) {
+          const total = result.totalPages + ocrPageNumbers.length;
+          try {
+            const ocrPages = await ocrPdfPages(file, ocrPageNumbers, (done) => {
+              supabase
+                .from("extraction_jobs")
+                .update({ completed_sections: result.totalPages + done, total_sections: total })
+                .eq("id", job.id)
+                .then(() => queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] }));
+            });
+            const byPage = new Map(ocrPages.map(p => [p.pageNumber, p]));
+            pages = pages.map(p => byPage.get(p.pageNumber) ?? p);
+            for (const page of ocrPages) ocrConfidence[page.pageNumber] = page.confidence;
+            notes.push(`Scanned PDF: ${ocrPages.length} page${ocrPages.length === 1 ? "" : "s"} read with OCR`);
+          } catch (error) {
+            notes.push(`Scanned PDF, but OCR failed: ${(error as Error).message}`);
+          }
+        }
+        if (result.pageErrors.length > 0) {
+          notes.push(`Could not read page${result.pageErrors.length > 1 ? "s" : ""} ${result.pageErrors.join(", ")}`);
+        }
+
+        const items = buildReviewItems(pages, ocrConfidence);
+        const { error } = await supabase
+          .from("extraction_jobs")
+          .update({
+            status: items.length > 0 ? "review" : "completed",
+            completed_sections: result.totalPages + ocrPageNumbers.length,
+            total_sections: result.totalPages + ocrPageNumbers.length,
+            detected_sections: items as unknown as Json,
+            error_message: notes.length > 0 ? notes.join(". ") : null,
+          })
+          .eq("id", job.id);
+        if (error) throw error;
+
+        return { campaignId, itemCount: items.length };
+      } catch (error) {
+        await supabase
+          .from("extraction_jobs")
+          .update({ status: "failed", error_message: (error as Error).message })
+          .eq("id", job.id);
+        throw error;
+      }
+    },
+    onSuccess: ({ campaignId, itemCount }) => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+      toast.success(itemCount > 0 ? `Found ${itemCount} sections and tables to review` : "No sections or tables found");
+    },
+    onError: (error: Error, { campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+      toast.error("Failed to import rulebook: " + error.message);
+    },
+  });
+}
+
+/**
+ * Promote reviewed items into campaign rules, optionally dropping each one
+ * onto the dashboard as a rules table or card widget.
+ */
+export function usePromoteReviewItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ job, itemIds, category, addWidgets }: {
+      job: ExtractionJob;
+      itemIds: string[];
+      category: string;
+      addWidgets: boolean;
+    }) => {
+      const selected = job.items.filter(i => itemIds.includes(i.id) && i.status === "pending");
+      if (selected.length === 0) throw new Error("Nothing selected to promote");
+
+      const { data: rules, error } = await supabase
+        .from("wargame_rules")
+        .insert(selected.map((item, i) => ({
+          campaign_id: job.campaign_id,
+          title: item.title,
+          category,
+          rule_key: `${category.toLowerCase().replace(/\s+/g, "_")}_${Date.now()}_${i}`,
+          content: reviewItemContent(item) as unknown as Json,
+          extraction_job_id: job.id,
+          source_section: `p.${item.pageNumber} ${item.title}`,
+          last_change_source: "pdf_import",
+        })))
+        .select();
+      if (error) throw error;
+
+      if (addWidgets) {
+        const { error: widgetError } = await supabase
+          .from("dashboard_components")
+          .insert(rules.map((rule, i) => {
+            const content = rule.content as unknown as ReturnType<typeof reviewItemContent>;
+            const width = content.type === "table" ? 400 : 350;
+            const placement = getSpawnPosition(width, 300, { x: (i % 5) * 40, y: (i % 5) * 40 });
+            return {
+              campaign_id: job.campaign_id,
+              name: rule.title,
+              component_type: content.type === "table" ? "rules_table" : "rules_card",
+              data_source: "none",
+              config: (content.type === "table"
+                ? { rule_id: rule.id, sourceLabel: rule.title, columns: content.columns, rows: content.rows, rawText: content.rawText }
+                : { rule_id: rule.id, sourceLabel: rule.title, title: content.title, sections: content.sections, rawText: content.rawText }
+              ) as unknown as Json,
+              position_x: placement.position_x,
+              position_y: placement.position_y,
+              width,
+              height: 300,
+            };
+          }));
+        if (widgetError) throw widgetError;
+      }
+
+      const ruleByItem = new Map(selected.map((item, i) => [item.id, rules[i]?.id ?? null]));
+      await saveJobItems(job.id, job.items.map(item =>
+        ruleByItem.has(item.id) ? { ...item, status: "promoted", ruleId: ruleByItem.get(item.id) } : item
+      ));
+
+      return { campaignId: job.campaign_id, count: rules.length, addWidgets };
+    },
+    onSuccess: ({ campaignId, count, addWidgets }) => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["wargame_rules", campaignId] });
+      if (addWidgets) queryClient.invalidateQueries({ queryKey: ["dashboard-components", campaignId] });
+      toast.success(`Promoted ${count} item${count === 1 ? "" : "s"} to rules`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to promote items: " + error.message);
+    },
+  });
+}
+
+/** Dismiss items (or bring dismissed ones back) without creating rules */
+export function useDismissReviewItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ job, itemIds, restore = false }: { job: ExtractionJob; itemIds: string[]; restore?: boolean }) => {
+      await saveJobItems(job.id, job.items.map(item => {
+        if (!itemIds.includes(item.id)) return item;
+        if (restore && item.status === "dismissed") return { ...item, status: "pending" };
+        if (!restore && item.status === "pending") return { ...item, status: "dismissed" };
+        return item;
+      }));
+      return { campaignId: job.campaign_id };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update review: " + error.message);
+    },
+  });
+}
+
+/** Delete an uploaded rulebook and its extraction jobs; promoted rules stay */
+export function useDeleteCampaignDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (document: CampaignDocument) => {
+      const { error } = await supabase
+        .from("campaign_documents")
+        .delete()
+        .eq("id", document.id);
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage.from(BUCKET_NAME).remove([document.file_path]);
+      if (storageError) console.error("Failed to delete document file:", storageError);
+
+      return { campaignId: document.campaign_id };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["campaign-documents", campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", campaignId] });
+      toast.success("Document deleted");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to delete document: " + error.message);
+    },
+  });
+}
@@ -13,6 +13,8 @@ export interface ScheduleEntry {
   color: string | null;
   entry_type: string | null;
   status: string | null;
+  // Turn phase this entry sets the deadline for
+  phase_id: string | null;
   created_at: string;
 }
 
@@ -25,6 +27,7 @@ export interface CreateScheduleEntryInput {
   color?: string;
   entry_type?: string;
   status?: string;
+  phase_id?: string | null;
 }
 
 export interface UpdateScheduleEntryInput {
@@ -36,6 +39,7 @@ export interface UpdateScheduleEntryInput {
   color?: string;
   entry_type?: string;
   status?: string;
+  phase_id?: string | null;
 }
 
 export function useScheduleEntries(campaignId: string | undefined) {
@@ -74,6 +78,7 @@ export function useCreateScheduleEntry() {
           color: input.color || "#3b82f6",
           entry_type: input.entry_type || "round",
           status: input.status || "upcoming",
+          phase_id: input.phase_id ?? null,
         })
         .select()
         .single();
@@ -0,0 +1,20 @@
+import { useMemo } from "react";
+import { useBattleRounds, useCampaignMatches } from "./useBattleTracker";
+import { useCampaignPlayers } from "./useCampaignPlayers";
+import { computeStandings, standingsRoster } from "@/lib/standings";
+
+export function useCampaignStandings(campaignId: string | undefined) {
+  const { data: rounds = [], isLoading: roundsLoading } = useBattleRounds(campaignId);
+  const { data: matches = [], isLoading: matchesLoading } = useCampaignMatches(campaignId);
+  const { data: players = [], isLoading: playersLoading } = useCampaignPlayers(campaignId);
+
+  const standings = useMemo(
+    () => computeStandings(rounds, matches, standingsRoster(players)),
+    [rounds, matches, players]
+  );
+
+  return {
+    standings,
+    isLoading: roundsLoading || matchesLoading || playersLoading,
+  };
+}
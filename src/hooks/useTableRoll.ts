@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { useServerRoll, type TableRollRequest } from "./useRollHistory";
+import { useWargameRules, type TableRuleContent } from "./useWargameRules";
+import { findTableReference, matchTableByName, type TableRollContext } from "@/lib/rollTables";
+
+/** Stop following "roll again on table X" after this many rolls */
+const MAX_TABLE_CHAIN = 5;
+
+export interface TableRollStep extends TableRollContext {
+  ruleId?: string;
+  /** A referenced table that couldn't be found among the campaign's rules */
+  unresolvedReference?: string;
+}
+
+/**
+ * Roll on a table and follow any nested "roll again on table X" results
+ * through the campaign's table rules. Every roll is made (and recorded) by the
+ * roll-dice edge function.
+ */
+export function useTableRoll(campaignId: string) {
+  const { rollTableOnServer } = useServerRoll(campaignId);
+  const { data: rules = [] } = useWargameRules(campaignId);
+  const [results, setResults] = useState<TableRollStep[]>([]);
+  const [isRolling, setIsRolling] = useState(false);
+
+  const tableRules = rules.filter(
+    (rule) => (rule.content as unknown as TableRuleContent | null)?.type === "table"
+  );
+
+  const rollOnTable = async (table: TableRollRequest) => {
+    setIsRolling(true);
+    const chain: TableRollStep[] = [];
+    setResults([]);
+
+    try {
+      let current: TableRollRequest | null = table;
+      while (current && chain.length < MAX_TABLE_CHAIN) {
+        const context = await rollTableOnServer(current);
+        const step: TableRollStep = { ...context, ruleId: current.ruleId };
+        chain.push(step);
+        setResults([...chain]);
+
+        const reference = context.result ? findTableReference(context.result) : null;
+        if (!reference) break;
+        if (reference.sameTable) continue;
+
+        const rule = matchTableByName(reference.name!, tableRules);
+        if (!rule) {
+          step.unresolvedReference = reference.name;
+          setResults([...chain]);
+          break;
+        }
+        current = { name: rule.title, ruleId: rule.id };
+      }
+    } catch (error) {
+      toast.error("Failed to roll on table: " + (error instanceof Error ? error.message : "Unknown error"));
+    } finally {
+      setIsRolling(false);
+    }
+  };
+
+  return { rollOnTable, results, isRolling, clearResults: () => setResults([]) };
+}
@@ -3,8 +3,10 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 import { useCampaign } from "./useCampaigns";
+import { useUnitDefinitions, useWarbandRules } from "./useWarbandRules";
 import { toast } from "sonner";
 import type { Json } from "@/integrations/supabase/types";
+import { validateWarband } from "@/lib/warbandValidation";
 
 export interface RosterUnit {
   id: string;
@@ -52,6 +54,8 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const { data: campaign } = useCampaign(campaignId);
+  const { data: ruleSet } = useWarbandRules(campaignId);
+  const { data: unitDefinitions } = useUnitDefinitions(campaignId);
 
   // Local state for unsaved changes
   const [localRoster, setLocalRoster] = useState<RosterUnit[]>([]);
@@ -167,6 +171,14 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
   const pointsRemaining = pointsLimit - totalPoints;
   const isOverLimit = totalPoints > pointsLimit;
 
+  // Check the list against the campaign's composition rules
+  const violations = useMemo(() => validateWarband(localRoster, ruleSet?.rules ?? [], {
+    faction: localFaction,
+    subFaction: localSubFaction,
+    pointsLimit,
+    units: unitDefinitions ?? {},
+  }), [localRoster, ruleSet, localFaction, localSubFaction, pointsLimit, unitDefinitions]);
+
   // Add unit to roster
   const addUnit = useCallback((unit: CampaignUnit) => {
     const rosterUnit: RosterUnit = {
@@ -186,6 +198,23 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
     setHasUnsavedChanges(true);
   }, []);
 
+  // Add units from an imported list, optionally replacing the current roster
+  const importUnits = useCallback((imported: RosterUnit[], replace: boolean) => {
+    if (imported.length === 0) return;
+    setLocalRoster(prev => replace ? imported : [...prev, ...imported]);
+    if (!localFaction || replace) {
+      // Take the faction most of the imported units belong to
+      const counts = new Map<string, number>();
+      for (const unit of imported) counts.set(unit.faction, (counts.get(unit.faction) ?? 0) + unit.quantity);
+      const [faction] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+      if (faction) {
+        setLocalFaction(faction);
+        setLocalSubFaction(null);
+      }
+    }
+    setHasUnsavedChanges(true);
+  }, [localFaction]);
+
   // Remove unit from roster
   const removeUnit = useCallback((rosterUnitId: string) => {
     setLocalRoster(prev => prev.filter(u => u.id !== rosterUnitId));
@@ -244,38 +273,31 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
         quantity: unit.quantity,
       }));
 
-      const warbandData = {
-        campaign_id: campaignId,
-        owner_id: user.id,
-        name: localName,
-        faction: localFaction,
-        sub_faction: localSubFaction,
-        points_total: totalPoints,
-        roster: rosterJson,
-      };
-
-      if (warbandId) {
-        // Update existing
-        const { error } = await supabase
-          .from("warbands")
-          .update(warbandData)
-          .eq("id", warbandId);
-
-        if (error) throw error;
-      } else {
-        // Create new
-        const { error } = await supabase
-          .from("warbands")
-          .insert(warbandData);
+      // Saves the roster and charges the warband's owner for units added since
+      // the last save, in one transaction
+      const { data, error } = await supabase.rpc("save_warband", {
+        _campaign_id: campaignId,
+        _name: localName,
+        _roster: rosterJson,
+        _warband_id: warbandId,
+        _faction: localFaction ?? undefined,
+        _sub_faction: localSubFaction ?? undefined,
+      });
 
-        if (error) throw error;
-      }
+      if (error) throw error;
+      const result = data as { id: string; paid: number; currency: string | null };
+      return result.paid > 0 ? { paid: result.paid, currency: result.currency } : null;
     },
-    onSuccess: () => {
+    onSuccess: (purchase) => {
       queryClient.invalidateQueries({ queryKey: ["warbands", campaignId] });
       queryClient.invalidateQueries({ queryKey: ["warband", warbandId] });
       setHasUnsavedChanges(false);
-      toast.success("Warband saved successfully");
+      if (purchase) {
+        queryClient.invalidateQueries({ queryKey: ["resource-ledger", campaignId] });
+        toast.success(`Warband saved, paid ${purchase.paid} ${purchase.currency}`);
+      } else {
+        toast.success("Warband saved successfully");
+      }
     },
     onError: (error: Error) => {
       toast.error(`Failed to save warband: ${error.message}`);
@@ -309,6 +331,7 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
     faction: localFaction,
     subFaction: localSubFaction,
     roster: localRoster,
+    ownerId: existingWarband?.owner_id ?? null,
     hasUnsavedChanges,
     
     // Computed
@@ -316,8 +339,11 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
     pointsLimit,
     pointsRemaining,
     isOverLimit,
+    violations,
+    isLegal: violations.length === 0,
     factions,
     subFactions,
+    units,
     availableUnits,
     
     // Loading states
@@ -330,6 +356,7 @@ export function useWarbandBuilder(campaignId: string, warbandId?: string) {
     setFaction,
     setSubFaction,
     addUnit,
+    importUnits,
     removeUnit,
     updateQuantity,
     save: () => saveMutation.mutate(),
@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import type { ProgressionEvent, ProgressionEventType } from "@/lib/warbandProgression";
+
+export function useProgressionEvents(warbandId: string | undefined) {
+  return useQuery({
+    queryKey: ["warband-progression", warbandId],
+    queryFn: async (): Promise<ProgressionEvent[]> => {
+      if (!warbandId) return [];
+      const { data, error } = await supabase
+        .from("warband_progression_events")
+        .select("*")
+        .eq("warband_id", warbandId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(e => ({
+        ...e,
+        event_type: e.event_type as ProgressionEventType,
+        source_type: e.source_type as ProgressionEvent["source_type"],
+      }));
+    },
+    enabled: !!warbandId,
+  });
+}
+
+export function useRecordProgression() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, warbandId, rosterUnitId, eventType, amount, label, roll, notes }: {
+      campaignId: string;
+      warbandId: string;
+      rosterUnitId: string | null;
+      eventType: ProgressionEventType;
+      amount?: number | null;
+      label?: string | null;
+      roll?: number | null;
+      notes?: string | null;
+    }) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { error } = await supabase
+        .from("warband_progression_events")
+        .insert({
+          campaign_id: campaignId,
+          warband_id: warbandId,
+          roster_unit_id: rosterUnitId,
+          event_type: eventType,
+          amount: amount ?? null,
+          label: label ?? null,
+          roll: roll ?? null,
+          notes: notes ?? null,
+          source_type: "manual",
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      return { warbandId };
+    },
+    onSuccess: ({ warbandId }) => {
+      queryClient.invalidateQueries({ queryKey: ["warband-progression", warbandId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to record progress: " + error.message);
+    },
+  });
+}
+
+/** GM override: undo one event, or restore one that was undone */
+export function useUndoProgressionEvent() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ eventId, warbandId, restore = false }: { eventId: string; warbandId: string; restore?: boolean }) => {
+      if (!user) throw new Error("Must be logged in");
+
+      const { error } = await supabase
+        .from("warband_progression_events")
+        .update(restore
+          ? { undone_at: null, undone_by: null }
+          : { undone_at: new Date().toISOString(), undone_by: user.id })
+        .eq("id", eventId);
+
+      if (error) throw error;
+      return { warbandId, restore };
+    },
+    onSuccess: ({ warbandId, restore }) => {
+      queryClient.invalidateQueries({ queryKey: ["warband-progression", warbandId] });
+      toast.success(restore ? "Change restored" : "Change undone");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to undo change: " + error.message);
+    },
+  });
+}
+
+/** Unit names across a player's warbands, for naming units in battle reports */
+export function useRosterUnitNames(campaignId: string | undefined, ownerId: string | undefined) {
+  return useQuery({
+    queryKey: ["roster-unit-names", campaignId, ownerId],
+    queryFn: async (): Promise<string[]> => {
+      if (!campaignId || !ownerId) return [];
+      const { data, error } = await supabase
+        .from("warbands")
+        .select("roster")
+        .eq("campaign_id", campaignId)
+        .eq("owner_id", ownerId);
+
+      if (error) throw error;
+      const names = (data || []).flatMap(w =>
+        (Array.isArray(w.roster) ? w.roster : []).map(u => String((u as Record<string, unknown>)?.name ?? ""))
+      );
+      return [...new Set(names.filter(Boolean))].sort();
+    },
+    enabled: !!campaignId && !!ownerId,
+  });
+}
@@ -0,0 +1,187 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useCampaign } from "./useCampaigns";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  parseUnitConstraints,
+  parseWarbandRules,
+  validateWarband,
+  type UnitDefinition,
+  type ValidatedUnit,
+  type Violation,
+  type WarbandRule,
+} from "@/lib/warbandValidation";
+
+export interface WarbandRuleSet {
+  rules: WarbandRule[];
+  require_legal: boolean;
+}
+
+export function useWarbandRules(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["warband-rules", campaignId],
+    queryFn: async (): Promise<WarbandRuleSet> => {
+      if (!campaignId) return { rules: [], require_legal: false };
+      const { data, error } = await supabase
+        .from("campaign_warband_rules")
+        .select("rules, require_legal")
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return {
+        rules: parseWarbandRules(data?.rules),
+        require_legal: data?.require_legal ?? false,
+      };
+    },
+    enabled: !!campaignId,
+  });
+}
+
+export function useSaveWarbandRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ campaignId, rules, requireLegal }: {
+      campaignId: string;
+      rules?: WarbandRule[];
+      requireLegal?: boolean;
+    }) => {
+      const row: { campaign_id: string; rules?: Json; require_legal?: boolean } = { campaign_id: campaignId };
+      if (rules !== undefined) row.rules = rules as unknown as Json;
+      if (requireLegal !== undefined) row.require_legal = requireLegal;
+
+      const { error } = await supabase
+        .from("campaign_warband_rules")
+        .upsert(row, { onConflict: "campaign_id" });
+
+      if (error) throw error;
+      return { campaignId };
+    },
+    onSuccess: ({ campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ["warband-rules", campaignId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save warband rules: " + error.message);
+    },
+  });
+}
+
+/** Campaign units with the constraints of the master units they came from */
+export function useUnitDefinitions(campaignId: string | undefined) {
+  return useQuery({
+    queryKey: ["unit-definitions", campaignId],
+    queryFn: async (): Promise<Record<string, UnitDefinition>> => {
+      if (!campaignId) return {};
+      const { data: units, error } = await supabase
+        .from("campaign_units")
+        .select("id, name, faction, sub_faction, keywords, equipment_options, source_ref")
+        .eq("campaign_id", campaignId);
+
+      if (error) throw error;
+
+      const masterIds = [...new Set((units || []).map(u => u.source_ref).filter(Boolean))] as string[];
+      const constraints: Record<string, Json | null> = {};
+      if (masterIds.length > 0) {
+        const { data: masters, error: mastersError } = await supabase
+          .from("master_units")
+          .select("id, constraints")
+          .in("id", masterIds);
+        if (mastersError) throw mastersError;
+        for (const master of masters || []) constraints[master.id] = master.constraints;
+      }
+
+      const definitions: Record<string, UnitDefinition> = {};
+      for (const unit of units || []) {
+        definitions[unit.id] = {
+          name: unit.name,
+          faction: unit.faction,
+          sub_faction: unit.sub_faction,
+          keywords: Array.isArray(unit.keywords) ? unit.keywords.map(String) : [],
+          equipment_options: Array.isArray(unit.equipment_options)
+            ? unit.equipment_options.map(o => typeof o === "string" ? o : String((o as Record<string, unknown>)?.name ?? ""))
+            : [],
+          constraints: unit.source_ref ? parseUnitConstraints(constraints[unit.source_ref]) : null,
+        };
+      }
+      return definitions;
+    },
+    enabled: !!campaignId,
+  });
+}
+
+function rosterUnits(roster: Json): ValidatedUnit[] {
+  if (!Array.isArray(roster)) return [];
+  return roster.map(item => {
+    const unit = (item || {}) as Record<string, unknown>;
+    return {
+      id: String(unit.id || ""),
+      unitId: String(unit.unitId || ""),
+      name: String(unit.name || ""),
+      cost: Number(unit.cost || 0),
+      faction: String(unit.faction || ""),
+      keywords: Array.isArray(unit.keywords) ? unit.keywords.map(String) : [],
+      equipment: Array.isArray(unit.equipment) ? unit.equipment.map(String) : [],
+      quantity: Number(unit.quantity || 1),
+    };
+  });
+}
+
+export interface WarbandLegality {
+  id: string;
+  name: string;
+  owner_id: string;
+  violations: Violation[];
+}
+
+/** Every warband in the campaign, validated against the campaign's rules */
+export function useWarbandLegality(campaignId: string | undefined) {
+  const { data: campaign } = useCampaign(campaignId);
+  const { data: ruleSet } = useWarbandRules(campaignId);
+  const { data: definitions } = useUnitDefinitions(campaignId);
+
+  const { data: warbands } = useQuery({
+    queryKey: ["warbands", campaignId, "rosters"],
+    queryFn: async () => {
+      if (!campaignId) return [];
+      const { data, error } = await supabase
+        .from("warbands")
+        .select("id, name, owner_id, faction, sub_faction, roster, created_at")
+        .eq("campaign_id", campaignId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!campaignId,
+  });
+
+  return useMemo(() => {
+    const pointsLimit = campaign?.points_limit || 1000;
+    const results: WarbandLegality[] = (warbands ?? []).map(w => ({
+      id: w.id,
+      name: w.name,
+      owner_id: w.owner_id,
+      violations: validateWarband(
+        rosterUnits(w.roster),
+        ruleSet?.rules ?? [],
+        { faction: w.faction, subFaction: w.sub_faction, pointsLimit, units: definitions ?? {} }
+      ),
+    }));
+
+    return {
+      requireLegal: ruleSet?.require_legal ?? false,
+      warbands: results,
+      /** The player's first legal warband, if they have one */
+      legalWarbandFor: (ownerId: string) => results.find(w => w.owner_id === ownerId && w.violations.length === 0),
+      /** True when the GM requires legal lists and none of the player's warbands is legal */
+      isBlocked: (ownerId: string) => {
+        if (!ruleSet?.require_legal) return false;
+        const owned = results.filter(w => w.owner_id === ownerId);
+        return owned.length > 0 && owned.every(w => w.violations.length > 0);
+      },
+    };
+  }, [campaign?.points_limit, ruleSet, definitions, warbands]);
+}
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { Json } from "@/integrations/supabase/types";
+import type { RulesRepoDiff, RulesRepoManifest, RepoParseIssue } from "@/lib/rulesRepo";
 
 export interface WargameRule {
   id: string;
@@ -39,6 +40,22 @@ export interface CardRuleContent {
 
 export type RuleContent = TableRuleContent | CardRuleContent;
 
+/** Where a rule change came from; recorded on each revision */
+export type RuleChangeSource = "manual" | "widget_sync" | "repo_sync" | "smart_paste" | "revert" | "pdf_import" | "library_sync";
+
+export interface WargameRuleRevision {
+  id: string;
+  rule_id: string;
+  campaign_id: string;
+  title: string;
+  category: string;
+  content: Json;
+  source: RuleChangeSource;
+  author_id: string | null;
+  created_at: string;
+  author_name?: string | null;
+}
+
 export function useWargameRules(campaignId: string | undefined) {
   return useQuery({
     queryKey: ["wargame_rules", campaignId],
@@ -104,11 +121,13 @@ export function useCreateRule() {
       title,
       category,
       content,
+      source = "manual",
     }: {
       campaignId: string;
       title: string;
       category: string;
       content: RuleContent;
+      source?: RuleChangeSource;
     }): Promise<WargameRule> => {
       const ruleKey = `${category.toLowerCase().replace(/\s+/g, "_")}_${Date.now()}`;
       
@@ -120,6 +139,7 @@ export function useCreateRule() {
           category,
           rule_key: ruleKey,
           content: content as unknown as Json,
+          last_change_source: source,
         })
         .select()
         .single();
@@ -146,13 +166,15 @@ export function useUpdateRule() {
       title,
       category,
       content,
+      source = "manual",
     }: {
       id: string;
       title?: string;
       category?: string;
       content?: RuleContent;
+      source?: RuleChangeSource;
     }): Promise<WargameRule> => {
-      const updates: Record<string, unknown> = {};
+      const updates: Record<string, unknown> = { last_change_source: source };
       if (title !== undefined) updates.title = title;
       if (category !== undefined) updates.category = category;
       if (content !== undefined) updates.content = content as unknown as Json;
@@ -218,6 +240,7 @@ export function useUpdateRule() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["wargame_rules", data.campaign_id] });
       queryClient.invalidateQueries({ queryKey: ["wargame_rule", data.id] });
+      queryClient.invalidateQueries({ queryKey: ["wargame_rule_revisions", data.id] });
       // Also invalidate dashboard components to reflect sync
       queryClient.invalidateQueries({ queryKey: ["dashboard-components", data.campaign_id] });
     },
@@ -227,6 +250,38 @@ export function useUpdateRule() {
   });
 }
 
+export function useRuleRevisions(ruleId: string | undefined) {
+  return useQuery({
+    queryKey: ["wargame_rule_revisions", ruleId],
+    queryFn: async (): Promise<WargameRuleRevision[]> => {
+      if (!ruleId) return [];
+
+      const { data, error } = await supabase
+        .from("wargame_rule_revisions")
+        .select("*")
+        .eq("rule_id", ruleId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      if (!data || data.length === 0) return [];
+
+      // Display names for the authors
+      const authorIds = [...new Set(data.map((r) => r.author_id).filter(Boolean))] as string[];
+      const { data: profiles } = authorIds.length
+        ? await supabase.from("profiles_public").select("id, display_name").in("id", authorIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((p) => [p.id, p.display_name]));
+
+      return data.map((revision) => ({
+        ...revision,
+        source: revision.source as RuleChangeSource,
+        author_name: revision.author_id ? names.get(revision.author_id) ?? null : null,
+      }));
+    },
+    enabled: !!ruleId,
+  });
+}
+
 export function useDeleteRule() {
   const queryClient = useQueryClient();
 
@@ -250,16 +305,48 @@ export function useDeleteRule() {
   });
 }
 
-export function useDiscoverRepoRules() {
-  return useMutation({
-    mutationFn: async (repoUrl: string): Promise<RuleCategory[]> => {
-      const { data, error } = await supabase.functions.invoke("fetch-rules-repo", {
-        body: { repoUrl, action: "discover" },
-      });
+/** Call fetch-rules-repo; non-2xx responses carry the function's own error message */
+async function invokeRulesRepo<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("fetch-rules-repo", { body });
+
+  if (error) {
+    let message = error.message;
+    try {
+      const errorBody = await error.context?.json();
+      if (errorBody?.error) message = errorBody.error;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message);
+  }
+  if (!data.success) throw new Error(data.error || "Rules repository request failed");
 
-      if (error) throw error;
-      if (!data.success) throw new Error(data.error || "Failed to discover rules");
+  return data as T;
+}
+
+export interface RepoRulesDiffResult {
+  sha: string;
+  manifest: RulesRepoManifest | null;
+  diff: RulesRepoDiff;
+  issues: RepoParseIssue[];
+}
+
+export interface ApplyRepoRulesInput {
+  repoUrl: string;
+  ref?: string;
+  campaignId: string;
+  /** The commit the GM reviewed */
+  sha: string;
+  /** category/rule_key of each accepted change */
+  keys: string[];
+  /** Accepted changes allowed to replace the GM's own edits */
+  overwrite: string[];
+}
 
+export function useDiscoverRepoRules() {
+  return useMutation({
+    mutationFn: async ({ repoUrl, ref }: { repoUrl: string; ref?: string }): Promise<RuleCategory[]> => {
+      const data = await invokeRulesRepo<{ categories: RuleCategory[] }>({ repoUrl, ref, action: "discover" });
       return data.categories;
     },
     onError: (error: Error) => {
@@ -268,28 +355,36 @@ export function useDiscoverRepoRules() {
   });
 }
 
-export function useSyncRepoRules() {
-  const queryClient = useQueryClient();
-
+/** Work out what a sync would change, for the GM to review; writes nothing */
+export function useRepoRulesDiff() {
   return useMutation({
-    mutationFn: async ({
+    mutationFn: ({
       repoUrl,
+      ref,
       campaignId,
     }: {
       repoUrl: string;
+      ref?: string;
       campaignId: string;
-    }): Promise<{ message: string; categories: string[] }> => {
-      const { data, error } = await supabase.functions.invoke("fetch-rules-repo", {
-        body: { repoUrl, campaignId, action: "sync" },
-      });
+    }): Promise<RepoRulesDiffResult> =>
+      invokeRulesRepo<RepoRulesDiffResult>({ repoUrl, ref, campaignId, action: "diff" }),
+    onError: (error: Error) => {
+      toast.error(`Failed to check rules repository: ${error.message}`);
+    },
+  });
+}
 
-      if (error) throw error;
-      if (!data.success) throw new Error(data.error || "Failed to sync rules");
+export function useSyncRepoRules() {
+  const queryClient = useQueryClient();
 
-      return data;
-    },
+  return useMutation({
+    mutationFn: (input: ApplyRepoRulesInput): Promise<{ message: string; categories: string[] }> =>
+      invokeRulesRepo({ ...input, action: "apply" }),
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["wargame_rules", variables.campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-components", variables.campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["campaign", variables.campaignId] });
+      queryClient.invalidateQueries({ queryKey: ["wargame_rule_revisions"] });
       toast.success(data.message);
     },
     onError: (error: Error) => {
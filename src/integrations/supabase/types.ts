@@ -67,7 +67,9 @@ export type Database = {
       }
       battle_matches: {
         Row: {
+          attacker_side: string | null
           campaign_id: string
+          contested_marker_id: string | null
           created_at: string
           final_results: Json | null
           id: string
@@ -78,10 +80,13 @@ export type Database = {
           provisional_results: Json | null
           round_id: string
           status: string
+          territory_id: string | null
           updated_at: string
         }
         Insert: {
+          attacker_side?: string | null
           campaign_id: string
+          contested_marker_id?: string | null
           created_at?: string
           final_results?: Json | null
           id?: string
@@ -92,10 +97,13 @@ export type Database = {
           provisional_results?: Json | null
           round_id: string
           status?: string
+          territory_id?: string | null
           updated_at?: string
         }
         Update: {
+          attacker_side?: string | null
           campaign_id?: string
+          contested_marker_id?: string | null
           created_at?: string
           final_results?: Json | null
           id?: string
@@ -106,6 +114,7 @@ export type Database = {
           provisional_results?: Json | null
           round_id?: string
           status?: string
+          territory_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -123,6 +132,13 @@ export type Database = {
             referencedRelation: "campaigns_safe"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "battle_matches_contested_marker_id_fkey"
+            columns: ["contested_marker_id"]
+            isOneToOne: false
+            referencedRelation: "map_markers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "battle_matches_round_id_fkey"
             columns: ["round_id"]
@@ -130,6 +146,13 @@ export type Database = {
             referencedRelation: "battle_rounds"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "battle_matches_territory_id_fkey"
+            columns: ["territory_id"]
+            isOneToOne: false
+            referencedRelation: "map_territories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       battle_reports: {
@@ -138,6 +161,7 @@ export type Database = {
           approved_by: string | null
           attachments: Json | null
           created_at: string
+          experience: Json
           id: string
           injuries: Json | null
           loot_found: Json | null
@@ -157,6 +181,7 @@ export type Database = {
           approved_by?: string | null
           attachments?: Json | null
           created_at?: string
+          experience: Json
           id?: string
           injuries?: Json | null
           loot_found?: Json | null
@@ -176,6 +201,7 @@ export type Database = {
           approved_by?: string | null
           attachments?: Json | null
           created_at?: string
+          experience?: Json
           id?: string
           injuries?: Json | null
           loot_found?: Json | null
@@ -263,6 +289,57 @@ export type Database = {
           },
         ]
       }
+      campaign_currencies: {
+        Row: {
+          campaign_id: string
+          color: string | null
+          created_at: string
+          id: string
+          name: string
+          order_index: number
+          pays_for_units: boolean
+          receives_income: boolean
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          color?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          order_index?: number
+          pays_for_units?: boolean
+          receives_income?: boolean
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          color?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          order_index?: number
+          pays_for_units?: boolean
+          receives_income?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_currencies_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_currencies_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaign_documents: {
         Row: {
           campaign_id: string
@@ -314,25 +391,58 @@ export type Database = {
       campaign_maps: {
         Row: {
           campaign_id: string
+          cell_distance: number
           created_at: string
+          distance_unit: string
+          grid_color: string
+          grid_offset_x: number
+          grid_offset_y: number
+          grid_opacity: number
+          grid_size: number
+          grid_type: string
           id: string
+          image_aspect: number | null
           image_url: string | null
+          parent_map_id: string | null
+          snap_to_grid: boolean
           title: string
           updated_at: string
         }
         Insert: {
           campaign_id: string
+          cell_distance?: number
           created_at?: string
+          distance_unit?: string
+          grid_color?: string
+          grid_offset_x?: number
+          grid_offset_y?: number
+          grid_opacity?: number
+          grid_size?: number
+          grid_type?: string
           id?: string
+          image_aspect?: number | null
           image_url?: string | null
+          parent_map_id?: string | null
+          snap_to_grid?: boolean
           title?: string
           updated_at?: string
         }
         Update: {
           campaign_id?: string
+          cell_distance?: number
           created_at?: string
+          distance_unit?: string
+          grid_color?: string
+          grid_offset_x?: number
+          grid_offset_y?: number
+          grid_opacity?: number
+          grid_size?: number
+          grid_type?: string
           id?: string
+          image_aspect?: number | null
           image_url?: string | null
+          parent_map_id?: string | null
+          snap_to_grid?: boolean
           title?: string
           updated_at?: string
         }
@@ -340,14 +450,134 @@ export type Database = {
           {
             foreignKeyName: "campaign_maps_campaign_id_fkey"
             columns: ["campaign_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "campaigns"
             referencedColumns: ["id"]
           },
           {
             foreignKeyName: "campaign_maps_campaign_id_fkey"
             columns: ["campaign_id"]
-            isOneToOne: true
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_maps_parent_map_id_fkey"
+            columns: ["parent_map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_orders: {
+        Row: {
+          campaign_id: string
+          content: string
+          created_at: string
+          created_by: string
+          id: string
+          phase_id: string
+          player_id: string
+          revealed_at: string | null
+          round_number: number
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          content?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          phase_id: string
+          player_id: string
+          revealed_at?: string | null
+          round_number: number
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          content?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          phase_id?: string
+          player_id?: string
+          revealed_at?: string | null
+          round_number?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_orders_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_orders_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_orders_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_orders_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_phases: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          id: string
+          name: string
+          order_index: number
+          phase_type: string
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          id?: string
+          name: string
+          order_index?: number
+          phase_type?: string
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          order_index?: number
+          phase_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_phases_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_phases_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
             referencedRelation: "campaigns_safe"
             referencedColumns: ["id"]
           },
@@ -413,6 +643,103 @@ export type Database = {
           },
         ]
       }
+      campaign_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          game_system: string | null
+          id: string
+          name: string
+          owner_id: string
+          snapshot: Json
+          source_campaign_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          game_system?: string | null
+          id?: string
+          name: string
+          owner_id: string
+          snapshot: Json
+          source_campaign_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          game_system?: string | null
+          id?: string
+          name?: string
+          owner_id?: string
+          snapshot?: Json
+          source_campaign_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_templates_source_campaign_id_fkey"
+            columns: ["source_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_templates_source_campaign_id_fkey"
+            columns: ["source_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_turn_state: {
+        Row: {
+          campaign_id: string
+          current_phase_id: string | null
+          phase_started_at: string | null
+          updated_at: string
+          upkeep_steps: string[]
+        }
+        Insert: {
+          campaign_id: string
+          current_phase_id?: string | null
+          phase_started_at?: string | null
+          updated_at?: string
+          upkeep_steps?: string[]
+        }
+        Update: {
+          campaign_id?: string
+          current_phase_id?: string | null
+          phase_started_at?: string | null
+          updated_at?: string
+          upkeep_steps?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_turn_state_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: true
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_turn_state_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_turn_state_current_phase_id_fkey"
+            columns: ["current_phase_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_phases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaign_units: {
         Row: {
           abilities: Json
@@ -425,6 +752,7 @@ export type Database = {
           keywords: Json
           name: string
           source: string
+          source_hash: string | null
           source_ref: string | null
           stats: Json
           sub_faction: string | null
@@ -441,6 +769,7 @@ export type Database = {
           keywords?: Json
           name: string
           source?: string
+          source_hash?: string | null
           source_ref?: string | null
           stats?: Json
           sub_faction?: string | null
@@ -457,6 +786,7 @@ export type Database = {
           keywords?: Json
           name?: string
           source?: string
+          source_hash?: string | null
           source_ref?: string | null
           stats?: Json
           sub_faction?: string | null
@@ -479,6 +809,45 @@ export type Database = {
           },
         ]
       }
+      campaign_warband_rules: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          require_legal: boolean
+          rules: Json
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          require_legal?: boolean
+          rules?: Json
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          require_legal?: boolean
+          rules?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_warband_rules_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: true
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_warband_rules_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaigns: {
         Row: {
           banner_url: string | null
@@ -660,6 +1029,8 @@ export type Database = {
           position_y: number
           updated_at: string
           visibility: string
+          visible_player_ids: string[]
+          visible_roles: string[]
           width: number
         }
         Insert: {
@@ -675,6 +1046,8 @@ export type Database = {
           position_y?: number
           updated_at?: string
           visibility?: string
+          visible_player_ids?: string[]
+          visible_roles?: string[]
           width?: number
         }
         Update: {
@@ -690,6 +1063,8 @@ export type Database = {
           position_y?: number
           updated_at?: string
           visibility?: string
+          visible_player_ids?: string[]
+          visible_roles?: string[]
           width?: number
         }
         Relationships: [
@@ -711,34 +1086,49 @@ export type Database = {
       }
       dice_roll_history: {
         Row: {
+          breakdown: Json | null
           campaign_id: string
+          context: Json | null
           dice_config: string
           id: string
           player_id: string
           player_name: string
           rolled_at: string
           rolls: number[]
+          rule_id: string | null
+          seed: string | null
           total: number
+          verified: boolean
         }
         Insert: {
+          breakdown?: Json | null
           campaign_id: string
+          context?: Json | null
           dice_config: string
           id?: string
           player_id: string
           player_name: string
           rolled_at?: string
           rolls: number[]
+          rule_id?: string | null
+          seed?: string | null
           total: number
+          verified?: boolean
         }
         Update: {
+          breakdown?: Json | null
           campaign_id?: string
+          context?: Json | null
           dice_config?: string
           id?: string
           player_id?: string
           player_name?: string
           rolled_at?: string
           rolls?: number[]
+          rule_id?: string | null
+          seed?: string | null
           total?: number
+          verified?: boolean
         }
         Relationships: [
           {
@@ -755,6 +1145,13 @@ export type Database = {
             referencedRelation: "campaigns_safe"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "dice_roll_history_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "wargame_rules"
+            referencedColumns: ["id"]
+          },
         ]
       }
       donations: {
@@ -880,6 +1277,7 @@ export type Database = {
           completed_sections: number | null
           created_at: string
           detected_sections: Json | null
+          document_id: string | null
           error_message: string | null
           id: string
           source_name: string | null
@@ -892,6 +1290,7 @@ export type Database = {
           completed_sections?: number | null
           created_at?: string
           detected_sections?: Json | null
+          document_id?: string | null
           error_message?: string | null
           id?: string
           source_name?: string | null
@@ -904,6 +1303,7 @@ export type Database = {
           completed_sections?: number | null
           created_at?: string
           detected_sections?: Json | null
+          document_id?: string | null
           error_message?: string | null
           id?: string
           source_name?: string | null
@@ -975,33 +1375,42 @@ export type Database = {
       }
       map_fog_regions: {
         Row: {
+          brush_size: number
           created_at: string
           height: number
           id: string
           map_id: string
+          points: Json
           position_x: number
           position_y: number
           revealed: boolean
+          shape: string
           width: number
         }
         Insert: {
+          brush_size?: number
           created_at?: string
           height?: number
           id?: string
           map_id: string
+          points?: Json
           position_x?: number
           position_y?: number
           revealed?: boolean
+          shape?: string
           width?: number
         }
         Update: {
+          brush_size?: number
           created_at?: string
           height?: number
           id?: string
           map_id?: string
+          points?: Json
           position_x?: number
           position_y?: number
           revealed?: boolean
+          shape?: string
           width?: number
         }
         Relationships: [
@@ -1014,6 +1423,52 @@ export type Database = {
           },
         ]
       }
+      map_fog_reveals: {
+        Row: {
+          created_at: string
+          id: string
+          map_id: string
+          player_id: string
+          region_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          map_id: string
+          player_id: string
+          region_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          map_id?: string
+          player_id?: string
+          region_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "map_fog_reveals_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_fog_reveals_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_fog_reveals_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "map_fog_regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       map_legend_items: {
         Row: {
           color: string
@@ -1061,7 +1516,10 @@ export type Database = {
           id: string
           label: string | null
           legend_item_id: string | null
+          linked_map_id: string | null
           map_id: string
+          movement_allowance: number | null
+          owner_player_id: string | null
           position_x: number
           position_y: number
           visibility: string
@@ -1071,7 +1529,10 @@ export type Database = {
           id?: string
           label?: string | null
           legend_item_id?: string | null
+          linked_map_id?: string | null
           map_id: string
+          movement_allowance?: number | null
+          owner_player_id?: string | null
           position_x?: number
           position_y?: number
           visibility?: string
@@ -1081,7 +1542,10 @@ export type Database = {
           id?: string
           label?: string | null
           legend_item_id?: string | null
+          linked_map_id?: string | null
           map_id?: string
+          movement_allowance?: number | null
+          owner_player_id?: string | null
           position_x?: number
           position_y?: number
           visibility?: string
@@ -1094,6 +1558,13 @@ export type Database = {
             referencedRelation: "map_legend_items"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "map_markers_linked_map_id_fkey"
+            columns: ["linked_map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "map_markers_map_id_fkey"
             columns: ["map_id"]
@@ -1101,6 +1572,177 @@ export type Database = {
             referencedRelation: "campaign_maps"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "map_markers_owner_player_id_fkey"
+            columns: ["owner_player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      map_movement_paths: {
+        Row: {
+          created_at: string
+          created_by: string
+          distance: number
+          gm_note: string | null
+          id: string
+          map_id: string
+          marker_id: string
+          player_id: string | null
+          points: Json
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          distance?: number
+          gm_note?: string | null
+          id?: string
+          map_id: string
+          marker_id: string
+          player_id?: string | null
+          points?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          distance?: number
+          gm_note?: string | null
+          id?: string
+          map_id?: string
+          marker_id?: string
+          player_id?: string | null
+          points?: Json
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "map_movement_paths_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_movement_paths_marker_id_fkey"
+            columns: ["marker_id"]
+            isOneToOne: false
+            referencedRelation: "map_markers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_movement_paths_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      map_territories: {
+        Row: {
+          created_at: string
+          id: string
+          map_id: string
+          name: string
+          owner_player_id: string | null
+          points: Json
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          map_id: string
+          name: string
+          owner_player_id?: string | null
+          points?: Json
+          updated_at?: string
+          value?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          map_id?: string
+          name?: string
+          owner_player_id?: string | null
+          points?: Json
+          updated_at?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "map_territories_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_territories_owner_player_id_fkey"
+            columns: ["owner_player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      map_territory_links: {
+        Row: {
+          created_at: string
+          id: string
+          map_id: string
+          territory_a: string
+          territory_b: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          map_id: string
+          territory_a: string
+          territory_b: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          map_id?: string
+          territory_a?: string
+          territory_b?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "map_territory_links_map_id_fkey"
+            columns: ["map_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_maps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_territory_links_territory_a_fkey"
+            columns: ["territory_a"]
+            isOneToOne: false
+            referencedRelation: "map_territories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "map_territory_links_territory_b_fkey"
+            columns: ["territory_b"]
+            isOneToOne: false
+            referencedRelation: "map_territories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       master_factions: {
@@ -1450,6 +2092,83 @@ export type Database = {
         }
         Relationships: []
       }
+      resource_ledger_entries: {
+        Row: {
+          amount: number
+          campaign_id: string
+          created_at: string
+          created_by: string | null
+          currency_id: string
+          id: string
+          player_id: string
+          reason: string
+          round_number: number | null
+          source_id: string | null
+          source_type: string
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          amount: number
+          campaign_id: string
+          created_at?: string
+          created_by?: string | null
+          currency_id: string
+          id?: string
+          player_id: string
+          reason: string
+          round_number?: number | null
+          source_id?: string | null
+          source_type: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          amount?: number
+          campaign_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency_id?: string
+          id?: string
+          player_id?: string
+          reason?: string
+          round_number?: number | null
+          source_id?: string | null
+          source_type?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resource_ledger_entries_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_ledger_entries_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_ledger_entries_currency_id_fkey"
+            columns: ["currency_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_currencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "resource_ledger_entries_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       schedule_entries: {
         Row: {
           campaign_id: string
@@ -1458,6 +2177,7 @@ export type Database = {
           end_date: string | null
           entry_type: string | null
           id: string
+          phase_id: string | null
           round_number: number
           scenario: string | null
           scheduled_date: string | null
@@ -1472,6 +2192,7 @@ export type Database = {
           end_date?: string | null
           entry_type?: string | null
           id?: string
+          phase_id?: string | null
           round_number: number
           scenario?: string | null
           scheduled_date?: string | null
@@ -1486,6 +2207,7 @@ export type Database = {
           end_date?: string | null
           entry_type?: string | null
           id?: string
+          phase_id?: string | null
           round_number?: number
           scenario?: string | null
           scheduled_date?: string | null
@@ -1508,6 +2230,13 @@ export type Database = {
             referencedRelation: "campaigns_safe"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "schedule_entries_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_phases"
+            referencedColumns: ["id"]
+          },
         ]
       }
       subscriber_interest: {
@@ -1549,6 +2278,82 @@ export type Database = {
         }
         Relationships: []
       }
+      warband_progression_events: {
+        Row: {
+          amount: number | null
+          campaign_id: string
+          created_at: string
+          created_by: string | null
+          event_type: string
+          id: string
+          label: string | null
+          notes: string | null
+          roll: number | null
+          roster_unit_id: string | null
+          source_id: string | null
+          source_type: string
+          undone_at: string | null
+          undone_by: string | null
+          warband_id: string
+        }
+        Insert: {
+          amount?: number | null
+          campaign_id: string
+          created_at?: string
+          created_by?: string | null
+          event_type: string
+          id?: string
+          label?: string | null
+          notes?: string | null
+          roll?: number | null
+          roster_unit_id?: string | null
+          source_id?: string | null
+          source_type?: string
+          undone_at?: string | null
+          undone_by?: string | null
+          warband_id: string
+        }
+        Update: {
+          amount?: number | null
+          campaign_id?: string
+          created_at?: string
+          created_by?: string | null
+          event_type?: string
+          id?: string
+          label?: string | null
+          notes?: string | null
+          roll?: number | null
+          roster_unit_id?: string | null
+          source_id?: string | null
+          source_type?: string
+          undone_at?: string | null
+          undone_by?: string | null
+          warband_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warband_progression_events_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warband_progression_events_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warband_progression_events_warband_id_fkey"
+            columns: ["warband_id"]
+            isOneToOne: false
+            referencedRelation: "warbands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       warbands: {
         Row: {
           campaign_id: string
@@ -1606,6 +2411,64 @@ export type Database = {
           },
         ]
       }
+      wargame_rule_revisions: {
+        Row: {
+          author_id: string | null
+          campaign_id: string
+          category: string
+          content: Json
+          created_at: string
+          id: string
+          rule_id: string
+          source: string
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          campaign_id: string
+          category: string
+          content: Json
+          created_at?: string
+          id?: string
+          rule_id: string
+          source: string
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          campaign_id?: string
+          category?: string
+          content?: Json
+          created_at?: string
+          id?: string
+          rule_id?: string
+          source?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wargame_rule_revisions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wargame_rule_revisions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_safe"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wargame_rule_revisions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "wargame_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wargame_rules: {
         Row: {
           campaign_id: string
@@ -1614,6 +2477,8 @@ export type Database = {
           created_at: string
           extraction_job_id: string | null
           id: string
+          last_change_source: string
+          last_changed_by: string | null
           metadata: Json | null
           rule_key: string
           source_section: string | null
@@ -1628,6 +2493,8 @@ export type Database = {
           created_at?: string
           extraction_job_id?: string | null
           id?: string
+          last_change_source?: string
+          last_changed_by?: string | null
           metadata?: Json | null
           rule_key: string
           source_section?: string | null
@@ -1642,6 +2509,8 @@ export type Database = {
           created_at?: string
           extraction_job_id?: string | null
           id?: string
+          last_change_source?: string
+          last_changed_by?: string | null
           metadata?: Json | null
           rule_key?: string
           source_section?: string | null
@@ -1793,8 +2662,49 @@ export type Database = {
       }
     }
     Functions: {
+      advance_campaign_phase: { Args: { _campaign_id: string }; Returns: Json }
+      approve_battle_report: {
+        Args: {
+          _final_results: Json
+          _ledger?: Json
+          _progression?: Json
+          _report_id: string
+          _territory?: Json
+        }
+        Returns: Json
+      }
       can_create_campaign: { Args: { _user_id: string }; Returns: boolean }
+      can_submit_orders: {
+        Args: { _campaign_id: string; _phase_id: string; _round_number: number }
+        Returns: boolean
+      }
+      can_view_dashboard_component: {
+        Args: {
+          _campaign_id: string
+          _user_id: string
+          _visibility: string
+          _visible_player_ids: string[]
+          _visible_roles: string[]
+        }
+        Returns: boolean
+      }
+      can_view_wargame_rule: {
+        Args: { _campaign_id: string; _rule_id: string; _user_id: string }
+        Returns: boolean
+      }
       count_active_campaigns: { Args: { _user_id: string }; Returns: number }
+      fog_hides_point: {
+        Args: { _map_id: string; _user_id: string; _x: number; _y: number }
+        Returns: boolean
+      }
+      fog_hides_polygon: {
+        Args: { _map_id: string; _points: Json; _user_id: string }
+        Returns: boolean
+      }
+      fog_revealed_to: {
+        Args: { _region_id: string; _user_id: string }
+        Returns: boolean
+      }
       generate_join_code: { Args: never; Returns: string }
       get_public_profiles: {
         Args: never
@@ -1816,6 +2726,7 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_campaign: { Args: { bundle: Json }; Returns: string }
       is_campaign_gm: {
         Args: { _campaign_id: string; _user_id: string }
         Returns: boolean
@@ -1840,6 +2751,44 @@ export type Database = {
           player_count: number
         }[]
       }
+      map_hex_at: {
+        Args: {
+          _grid_size: number
+          _grid_type: string
+          _offset_x: number
+          _offset_y: number
+          _x: number
+          _y: number
+        }
+        Returns: number[]
+      }
+      measure_map_path: {
+        Args: { _map_id: string; _points: Json }
+        Returns: number
+      }
+      merge_ghost_player: {
+        Args: { _ghost_player_id: string; _player_id: string }
+        Returns: string
+      }
+      move_map_marker: {
+        Args: { _marker_id: string; _points: Json }
+        Returns: string
+      }
+      review_movement_path: {
+        Args: { _gm_note?: string; _path_id: string; _status: string }
+        Returns: string
+      }
+      save_warband: {
+        Args: {
+          _campaign_id: string
+          _faction?: string
+          _name: string
+          _roster: Json
+          _sub_faction?: string
+          _warband_id?: string
+        }
+        Returns: Json
+      }
       set_campaign_password: {
         Args: { campaign_id: string; new_password: string }
         Returns: undefined
@@ -0,0 +1,680 @@
+/**
+ * Campaign import - turn a CampaignExportModal backup into a fresh campaign.
+ *
+ * Every row gets a new id and every reference is re-pointed at the new ids
+ * (components → rules, markers → legend items, matches → rounds, people →
+ * players). Nothing is written here: planCampaignImport produces the rows plus
+ * a summary for the dry run, and the import_campaign database function writes
+ * the whole bundle in one transaction.
+ */
+
+import type { Json } from "@/integrations/supabase/types";
+
+/** The export format this build writes and understands */
+export const CAMPAIGN_EXPORT_VERSION = "1.1";
+
+type ExportRow = Record<string, unknown>;
+
+export interface CampaignExportFile {
+  exportedAt?: string;
+  version?: string;
+  campaign?: ExportRow | null;
+  players?: ExportRow[] | null;
+  components?: ExportRow[] | null;
+  rules?: ExportRow[] | null;
+  units?: ExportRow[] | null;
+  warbands?: ExportRow[] | null;
+  messages?: ExportRow[] | null;
+  narrativeEvents?: ExportRow[] | null;
+  playerNarratives?: ExportRow[] | null;
+  schedule?: ExportRow[] | null;
+  /** The first of `maps`, kept for files read by older versions */
+  map?: ExportRow | null;
+  maps?: ExportRow[] | null;
+  mapMarkers?: ExportRow[] | null;
+  mapLegend?: ExportRow[] | null;
+  battleRounds?: ExportRow[] | null;
+  battleMatches?: ExportRow[] | null;
+}
+
+export type ImportSection =
+  | "players"
+  | "components"
+  | "rules"
+  | "units"
+  | "warbands"
+  | "messages"
+  | "narrativeEvents"
+  | "playerNarratives"
+  | "schedule"
+  | "maps"
+  | "mapLegend"
+  | "mapMarkers"
+  | "battleRounds"
+  | "battleMatches";
+
+/** Rows ready for import_campaign, keyed like the export file */
+export interface CampaignImportBundle {
+  campaign: ExportRow;
+  players: ExportRow[];
+  components: ExportRow[];
+  rules: ExportRow[];
+  units: ExportRow[];
+  warbands: ExportRow[];
+  messages: ExportRow[];
+  narrativeEvents: ExportRow[];
+  playerNarratives: ExportRow[];
+  schedule: ExportRow[];
+  maps: ExportRow[];
+  mapLegend: ExportRow[];
+  mapMarkers: ExportRow[];
+  battleRounds: ExportRow[];
+  battleMatches: ExportRow[];
+}
+
+export interface ImportIssue {
+  /** Errors block the import; warnings are shown in the dry run */
+  level: "error" | "warning";
+  message: string;
+}
+
+export interface ImportSectionSummary {
+  section: ImportSection;
+  label: string;
+  imported: number;
+  skipped: number;
+}
+
+export interface CampaignImportPlan {
+  bundle: CampaignImportBundle;
+  sections: ImportSectionSummary[];
+  /** Players created as ghosts because their accounts don't come with the file */
+  ghostPlayers: number;
+  issues: ImportIssue[];
+  canImport: boolean;
+}
+
+export interface PlanImportOptions {
+  /** The importing user; becomes the owner of the new campaign */
+  userId: string;
+  /** Overrides the campaign name from the file */
+  name?: string;
+  /** Keep calendar entries' titles and rounds but drop their dates and status */
+  scheduleSkeleton?: boolean;
+  newId?: () => string;
+}
+
+export class CampaignImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CampaignImportError";
+  }
+}
+
+const NOW = () => new Date().toISOString();
+
+/**
+ * Columns copied for each section, with the value used when the file leaves a
+ * NOT NULL column out. Ids, campaign ids and references are set by the planner.
+ */
+const SECTION_COLUMNS: Record<ImportSection | "campaign", Record<string, unknown>> = {
+  campaign: {
+    name: "Imported Campaign", description: null, points_limit: null, max_players: null, total_rounds: null,
+    round_length: null, game_system: null, game_system_id: null, start_date: null, end_date: null,
+    status: null, current_round: 1, title_color: null, border_color: null, display_settings: null,
+    banner_url: null, theme_id: "dark", rules_repo_url: null, rules_repo_ref: null,
+  },
+  players: {
+    role: "player", player_name: null, faction: null, sub_faction: null, current_points: null,
+    warband_link: null, additional_info: null, joined_at: NOW,
+  },
+  components: {
+    name: "Widget", component_type: "text", data_source: "custom", config: null,
+    position_x: 100, position_y: 100, width: 300, height: 200, visibility: "all", visible_roles: [],
+    visible_player_ids: [], created_at: NOW, updated_at: NOW,
+  },
+  rules: {
+    category: "custom", rule_key: null, title: "Untitled rule", content: {}, metadata: null,
+    source_section: null, validation_status: null, created_at: NOW, updated_at: NOW,
+  },
+  units: {
+    name: "Unit", faction: "Unaligned", sub_faction: null, base_cost: 0, stats: {}, abilities: [], keywords: [],
+    equipment_options: [], source: "custom", source_ref: null, created_at: NOW, updated_at: NOW,
+  },
+  warbands: {
+    name: "Warband", faction: null, sub_faction: null, narrative: null, points_total: null, roster: null,
+    created_at: NOW, updated_at: NOW,
+  },
+  messages: { content: "", priority: null, is_read: null, created_at: NOW },
+  narrativeEvents: {
+    title: "Untitled event", content: "", event_date: null, event_type: null, image_url: null,
+    visibility: null, created_at: NOW,
+  },
+  playerNarratives: { title: "", content: "", created_at: NOW, updated_at: NOW },
+  schedule: {
+    title: "Untitled", round_number: 0, scenario: null, scheduled_date: null, start_date: null, end_date: null,
+    entry_type: null, status: null, color: null, created_at: NOW,
+  },
+  maps: {
+    title: "Campaign Map", image_url: null, grid_type: "none", grid_size: 5, grid_offset_x: 0, grid_offset_y: 0,
+    grid_color: "#ffffff", grid_opacity: 0.35, snap_to_grid: false, cell_distance: 1, distance_unit: "mi",
+    created_at: NOW, updated_at: NOW,
+  },
+  mapLegend: { name: "Legend item", shape: "circle", color: "#ef4444", order_index: 0, created_at: NOW },
+  mapMarkers: { label: null, position_x: 50, position_y: 50, visibility: "all", movement_allowance: null, created_at: NOW },
+  battleRounds: {
+    round_index: 1, name: "Round 1", status: "open", pairing_system: "manual", starts_at: null, ends_at: null,
+    constraints_config: null, scoring_config: null, report_fields_config: null, created_at: NOW, updated_at: NOW,
+  },
+  battleMatches: {
+    status: "unplayed", is_bye: false, match_index: 0, notes: null, participants: [],
+    provisional_results: null, final_results: null, created_at: NOW, updated_at: NOW,
+  },
+};
+
+/** Columns the planner fills in itself, so they're never reported as unknown */
+const MANAGED_COLUMNS = new Set([
+  "id", "campaign_id", "owner_id", "user_id", "is_ghost", "author_id", "recipient_id", "player_id",
+  "map_id", "legend_item_id", "round_id", "rule_id", "parent_map_id", "linked_map_id", "owner_player_id",
+]);
+
+/** Exported columns that are deliberately left behind */
+const DROPPED_COLUMNS = new Set([
+  "password", "password_hash", "join_code", "is_archived", "extraction_job_id",
+  "last_change_source", "last_changed_by", "phase_id",
+]);
+
+const SECTION_LABELS: Record<ImportSection, string> = {
+  players: "Players",
+  components: "Dashboard widgets",
+  rules: "Rules",
+  units: "Units",
+  warbands: "Warbands",
+  messages: "Messages",
+  narrativeEvents: "Narrative events",
+  playerNarratives: "Player narratives",
+  schedule: "Calendar entries",
+  maps: "Maps",
+  mapLegend: "Map legend items",
+  mapMarkers: "Map markers",
+  battleRounds: "Battle rounds",
+  battleMatches: "Battle matches",
+};
+
+const KNOWN_KEYS = new Set([
+  "exportedAt", "version", "campaign", "players", "components", "rules", "units", "warbands", "messages",
+  "narrativeEvents", "playerNarratives", "schedule", "map", "maps", "mapMarkers", "mapLegend",
+  "battleRounds", "battleMatches",
+]);
+
+const isRecord = (value: unknown): value is ExportRow =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const rowsOf = (value: unknown): ExportRow[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+const idOf = (row: ExportRow, key = "id"): string | null =>
+  typeof row[key] === "string" && row[key] ? (row[key] as string) : null;
+
+/** Parse a backup file, rejecting anything that isn't a campaign export */
+export function parseCampaignExport(text: string): CampaignExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CampaignImportError("The file isn't valid JSON");
+  }
+  if (!isRecord(data)) {
+    throw new CampaignImportError("The file isn't a campaign export");
+  }
+  if (!isRecord(data.campaign)) {
+    throw new CampaignImportError("The export doesn't include campaign settings; re-export with Campaign Settings selected");
+  }
+  return data as CampaignExportFile;
+}
+
+/** Compare the file's format version with the one this build writes */
+export function checkExportVersion(version: unknown): ImportIssue | null {
+  if (typeof version !== "string" || !version) {
+    return { level: "warning", message: `The file has no format version; reading it as version ${CAMPAIGN_EXPORT_VERSION}` };
+  }
+  const [major, minor = 0] = version.split(".").map(Number);
+  const [currentMajor, currentMinor] = CAMPAIGN_EXPORT_VERSION.split(".").map(Number);
+  if (!Number.isFinite(major) || major !== currentMajor) {
+    return {
+      level: "error",
+      message: `Export format ${version} can't be imported by this version (expects ${CAMPAIGN_EXPORT_VERSION})`,
+    };
+  }
+  if (minor > currentMinor) {
+    return {
+      level: "warning",
+      message: `Export format ${version} is newer than ${CAMPAIGN_EXPORT_VERSION}; fields this version doesn't know are skipped`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Work out everything an import would write without writing it. Players keep
+ * their names and factions but become ghost players (their accounts aren't
+ * part of the file) - except the exporting GM, who becomes the importing user.
+ */
+export function planCampaignImport(file: CampaignExportFile, options: PlanImportOptions): CampaignImportPlan {
+  const newId = options.newId ?? (() => crypto.randomUUID());
+  const issues: ImportIssue[] = [];
+  const skipped = new Map<ImportSection, number>();
+  const skip = (section: ImportSection, count = 1) => skipped.set(section, (skipped.get(section) ?? 0) + count);
+
+  const versionIssue = checkExportVersion(file.version);
+  if (versionIssue) issues.push(versionIssue);
+
+  const unknownSections = Object.keys(file).filter(key => !KNOWN_KEYS.has(key));
+  if (unknownSections.length > 0) {
+    issues.push({ level: "warning", message: `Unrecognised sections will be ignored: ${unknownSections.join(", ")}` });
+  }
+
+  const unknownColumns = new Map<string, Set<string>>();
+  const copyColumns = (section: ImportSection | "campaign", row: ExportRow): ExportRow => {
+    const spec = SECTION_COLUMNS[section];
+    const copy: ExportRow = {};
+    for (const [column, fallback] of Object.entries(spec)) {
+      const value = row[column];
+      copy[column] = value !== undefined && value !== null
+        ? value
+        : typeof fallback === "function" ? (fallback as () => unknown)() : fallback;
+    }
+    for (const column of Object.keys(row)) {
+      if (!(column in spec) && !MANAGED_COLUMNS.has(column) && !DROPPED_COLUMNS.has(column)) {
+        if (!unknownColumns.has(section)) unknownColumns.set(section, new Set());
+        unknownColumns.get(section)!.add(column);
+      }
+    }
+    return copy;
+  };
+
+  const source = file.campaign ?? {};
+  const campaignId = newId();
+  const campaign = {
+    ...copyColumns("campaign", source),
+    id: campaignId,
+    ...(options.name?.trim() ? { name: options.name.trim() } : {}),
+  };
+  const sourceOwner = idOf(source, "owner_id");
+
+  // ── People ──
+  const userIds = new Map<string, string>();
+  if (sourceOwner) userIds.set(sourceOwner, options.userId);
+
+  // Participants carry a display name, which is the best name a ghost can get
+  const participantNames = new Map<string, string>();
+  for (const match of rowsOf(file.battleMatches)) {
+    for (const participant of rowsOf(match.participants)) {
+      const id = idOf(participant, "playerId");
+      if (id && typeof participant.playerName === "string" && participant.playerName.trim()) {
+        participantNames.set(id, participant.playerName.trim());
+      }
+    }
+  }
+
+  const players: ExportRow[] = [];
+  // campaign_players row ids, for markers owned by a player
+  const playerRowIds = new Map<string, string>();
+  const seenUsers = new Set<string>();
+  for (const row of rowsOf(file.players)) {
+    const oldUser = idOf(row, "user_id");
+    if (oldUser && seenUsers.has(oldUser)) {
+      skip("players");
+      continue;
+    }
+    if (oldUser) seenUsers.add(oldUser);
+    const isOwner = !!oldUser && oldUser === sourceOwner;
+    const userId = isOwner ? options.userId : newId();
+    if (oldUser) userIds.set(oldUser, userId);
+    const copy = copyColumns("players", row);
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) playerRowIds.set(oldId, id);
+    players.push({
+      ...copy,
+      id,
+      campaign_id: campaignId,
+      user_id: userId,
+      is_ghost: !isOwner,
+      player_name: copy.player_name ?? (oldUser ? participantNames.get(oldUser) ?? null : null),
+    });
+  }
+
+  // Someone referenced by content but missing from the player list gets a ghost too
+  let extraGhosts = 0;
+  const resolveUser = (oldId: unknown): string | null => {
+    if (typeof oldId !== "string" || !oldId) return null;
+    const mapped = userIds.get(oldId);
+    if (mapped) return mapped;
+    const userId = newId();
+    userIds.set(oldId, userId);
+    extraGhosts++;
+    players.push({
+      ...copyColumns("players", {}),
+      id: newId(),
+      campaign_id: campaignId,
+      user_id: userId,
+      is_ghost: true,
+      player_name: participantNames.get(oldId) ?? null,
+    });
+    return userId;
+  };
+
+  // warbands, messages and narratives reference real accounts, which ghosts
+  // don't have - their content comes across as the importer's
+  let reassigned = 0;
+  const resolveAccount = (oldId: unknown): string | null => {
+    if (typeof oldId !== "string" || !oldId) return null;
+    if (userIds.get(oldId) === options.userId) return options.userId;
+    reassigned++;
+    return options.userId;
+  };
+
+  let unnamed = 0;
+  const nameGhosts = () => {
+    for (const player of players) {
+      if (player.is_ghost && !player.player_name) player.player_name = `Imported player ${++unnamed}`;
+    }
+  };
+
+  // ── Rules and widgets ──
+  const ruleIds = new Map<string, string>();
+  const rules = rowsOf(file.rules).map(row => {
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) ruleIds.set(oldId, id);
+    const copy = copyColumns("rules", row);
+    if (!copy.rule_key) copy.rule_key = `imported-${id.slice(0, 8)}`;
+    return { ...copy, id, campaign_id: campaignId };
+  });
+
+  let danglingRuleLinks = 0;
+  const components = rowsOf(file.components).map(row => {
+    const copy = copyColumns("components", row);
+    if (isRecord(copy.config) && typeof copy.config.rule_id === "string") {
+      const ruleId = ruleIds.get(copy.config.rule_id);
+      const config = { ...copy.config };
+      if (ruleId) {
+        config.rule_id = ruleId;
+      } else {
+        delete config.rule_id;
+        danglingRuleLinks++;
+      }
+      copy.config = config;
+    }
+    // Older exports kept GM-only visibility in the config
+    if (isRecord(copy.config) && "visibility" in copy.config) {
+      const { visibility, ...config } = copy.config;
+      if (visibility === "gm" && row.visibility == null) copy.visibility = "gm";
+      copy.config = config;
+    }
+    const audience = Array.isArray(copy.visible_player_ids) ? copy.visible_player_ids : [];
+    copy.visible_player_ids = audience
+      .map(id => typeof id === "string" ? playerRowIds.get(id) : undefined)
+      .filter((id): id is string => !!id);
+    return { ...copy, id: newId(), campaign_id: campaignId };
+  });
+  if (danglingRuleLinks > 0) {
+    issues.push({
+      level: "warning",
+      message: `${danglingRuleLinks} widget${danglingRuleLinks === 1 ? " is" : "s are"} linked to rules that aren't in the file and will be unlinked`,
+    });
+  }
+
+  const unitIds = new Map<string, string>();
+  const units = rowsOf(file.units).map(row => {
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) unitIds.set(oldId, id);
+    return { ...copyColumns("units", row), id, campaign_id: campaignId };
+  });
+
+  // ── Player content ──
+  const warbandIds = new Map<string, string>();
+  const warbands = rowsOf(file.warbands).flatMap(row => {
+    const ownerId = resolveAccount(row.owner_id);
+    if (!ownerId) {
+      skip("warbands");
+      return [];
+    }
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) warbandIds.set(oldId, id);
+    const copy = copyColumns("warbands", row);
+    // Roster entries point at the unit library when it comes along
+    if (Array.isArray(copy.roster)) {
+      copy.roster = copy.roster.map(entry =>
+        isRecord(entry) && typeof entry.unitId === "string" && unitIds.has(entry.unitId)
+          ? { ...entry, unitId: unitIds.get(entry.unitId) }
+          : entry
+      );
+    }
+    return [{ ...copy, id, campaign_id: campaignId, owner_id: ownerId }];
+  });
+
+  const messages = rowsOf(file.messages).flatMap(row => {
+    const authorId = resolveAccount(row.author_id);
+    if (!authorId) {
+      skip("messages");
+      return [];
+    }
+    return [{
+      ...copyColumns("messages", row),
+      id: newId(),
+      campaign_id: campaignId,
+      author_id: authorId,
+      recipient_id: resolveAccount(row.recipient_id),
+    }];
+  });
+
+  const narrativeEvents = rowsOf(file.narrativeEvents).flatMap(row => {
+    const authorId = resolveAccount(row.author_id);
+    if (!authorId) {
+      skip("narrativeEvents");
+      return [];
+    }
+    return [{ ...copyColumns("narrativeEvents", row), id: newId(), campaign_id: campaignId, author_id: authorId }];
+  });
+
+  const playerNarratives = rowsOf(file.playerNarratives).flatMap(row => {
+    const playerId = resolveAccount(row.player_id);
+    if (!playerId) {
+      skip("playerNarratives");
+      return [];
+    }
+    return [{ ...copyColumns("playerNarratives", row), id: newId(), campaign_id: campaignId, player_id: playerId }];
+  });
+
+  const schedule = rowsOf(file.schedule).map(row => ({
+    ...copyColumns("schedule", row),
+    ...(options.scheduleSkeleton ? { scheduled_date: null, start_date: null, end_date: null, status: null } : {}),
+    id: newId(),
+    campaign_id: campaignId,
+  }));
+
+  // ── Maps ──
+  // Files from before multiple maps only have `map`
+  const sourceMaps = rowsOf(file.maps).length > 0 ? rowsOf(file.maps) : isRecord(file.map) ? [file.map] : [];
+  const mapIds = new Map<string, string>();
+  const maps: ExportRow[] = sourceMaps.map(row => {
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) mapIds.set(oldId, id);
+    return { ...copyColumns("maps", row), id, campaign_id: campaignId };
+  });
+  sourceMaps.forEach((row, index) => {
+    maps[index].parent_map_id = mapIds.get(idOf(row, "parent_map_id") ?? "") ?? null;
+  });
+  // With a single map, rows are placed on it even if their map_id doesn't match
+  const mapFor = (row: ExportRow): string | null =>
+    mapIds.get(idOf(row, "map_id") ?? "") ?? (maps.length === 1 ? (maps[0].id as string) : null);
+
+  const mapLegend: ExportRow[] = [];
+  const mapMarkers: ExportRow[] = [];
+  if (maps.length > 0) {
+    const legendIds = new Map<string, string>();
+    for (const row of rowsOf(file.mapLegend)) {
+      const mapId = mapFor(row);
+      if (!mapId) {
+        skip("mapLegend");
+        continue;
+      }
+      const id = newId();
+      const oldId = idOf(row);
+      if (oldId) legendIds.set(oldId, id);
+      mapLegend.push({ ...copyColumns("mapLegend", row), id, map_id: mapId });
+    }
+
+    let orphanMarkers = 0;
+    for (const row of rowsOf(file.mapMarkers)) {
+      const mapId = mapFor(row);
+      if (!mapId) {
+        skip("mapMarkers");
+        continue;
+      }
+      const oldLegend = idOf(row, "legend_item_id");
+      const legendItemId = oldLegend ? legendIds.get(oldLegend) ?? null : null;
+      if (oldLegend && !legendItemId) orphanMarkers++;
+      mapMarkers.push({
+        ...copyColumns("mapMarkers", row),
+        id: newId(),
+        map_id: mapId,
+        legend_item_id: legendItemId,
+        linked_map_id: mapIds.get(idOf(row, "linked_map_id") ?? "") ?? null,
+        owner_player_id: playerRowIds.get(idOf(row, "owner_player_id") ?? "") ?? null,
+      });
+    }
+    if (orphanMarkers > 0) {
+      issues.push({
+        level: "warning",
+        message: `${orphanMarkers} map marker${orphanMarkers === 1 ? " uses a legend item" : "s use legend items"} missing from the file and will show without one`,
+      });
+    }
+    const strayRows = (skipped.get("mapLegend") ?? 0) + (skipped.get("mapMarkers") ?? 0);
+    if (strayRows > 0) {
+      issues.push({
+        level: "warning",
+        message: `${strayRows} legend item${strayRows === 1 ? " or marker belongs" : "s or markers belong"} to maps missing from the file and will be skipped`,
+      });
+    }
+  } else if (rowsOf(file.mapMarkers).length + rowsOf(file.mapLegend).length > 0) {
+    skip("mapMarkers", rowsOf(file.mapMarkers).length);
+    skip("mapLegend", rowsOf(file.mapLegend).length);
+    issues.push({ level: "warning", message: "Map markers and legend items were exported without their map and will be skipped" });
+  }
+
+  // ── Battles ──
+  const roundIds = new Map<string, string>();
+  const battleRounds = rowsOf(file.battleRounds).map(row => {
+    const id = newId();
+    const oldId = idOf(row);
+    if (oldId) roundIds.set(oldId, id);
+    return { ...copyColumns("battleRounds", row), id, campaign_id: campaignId };
+  });
+
+  const remapResults = (results: unknown): Json | null => {
+    if (!isRecord(results)) return null;
+    const remapped: Record<string, unknown> = {};
+    for (const [oldUser, result] of Object.entries(results)) {
+      const userId = resolveUser(oldUser);
+      if (userId) remapped[userId] = result;
+    }
+    return remapped as Json;
+  };
+
+  const battleMatches = rowsOf(file.battleMatches).flatMap(row => {
+    const roundId = roundIds.get(idOf(row, "round_id") ?? "");
+    if (!roundId) {
+      skip("battleMatches");
+      return [];
+    }
+    const copy = copyColumns("battleMatches", row);
+    const participants = rowsOf(row.participants).map(participant => {
+      const remapped: ExportRow = { ...participant, playerId: resolveUser(participant.playerId) };
+      const warbandId = idOf(participant, "warbandId");
+      if (warbandId) {
+        if (warbandIds.has(warbandId)) remapped.warbandId = warbandIds.get(warbandId);
+        else delete remapped.warbandId;
+      }
+      return remapped;
+    });
+    return [{
+      ...copy,
+      id: newId(),
+      campaign_id: campaignId,
+      round_id: roundId,
+      participants,
+      provisional_results: remapResults(row.provisional_results),
+      final_results: remapResults(row.final_results),
+    }];
+  });
+  if (skipped.get("battleMatches")) {
+    issues.push({
+      level: "warning",
+      message: `${skipped.get("battleMatches")} match${skipped.get("battleMatches") === 1 ? " belongs" : "es belong"} to rounds missing from the file and will be skipped`,
+    });
+  }
+
+  nameGhosts();
+
+  if (!sourceOwner) {
+    issues.push({ level: "warning", message: "The export doesn't say who ran the campaign; every player will be imported as a ghost" });
+  }
+  if (extraGhosts > 0) {
+    issues.push({
+      level: "warning",
+      message: `${extraGhosts} ghost player${extraGhosts === 1 ? " was" : "s were"} added for people in battles but missing from the player list`,
+    });
+  }
+  if (reassigned > 0) {
+    issues.push({
+      level: "warning",
+      message: `${reassigned} warband, message or narrative reference${reassigned === 1 ? " points" : "s point"} at players who will be ghosts; those are credited to you`,
+    });
+  }
+  for (const [section, columns] of unknownColumns) {
+    issues.push({
+      level: "warning",
+      message: `Fields not in this version's ${section === "campaign" ? "campaign settings" : SECTION_LABELS[section as ImportSection].toLowerCase()} will be skipped: ${[...columns].join(", ")}`,
+    });
+  }
+
+  const bundle: CampaignImportBundle = {
+    campaign,
+    players,
+    components,
+    rules,
+    units,
+    warbands,
+    messages,
+    narrativeEvents,
+    playerNarratives,
+    schedule,
+    maps,
+    mapLegend,
+    mapMarkers,
+    battleRounds,
+    battleMatches,
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as ImportSection[])
+    .map(section => ({
+      section,
+      label: SECTION_LABELS[section],
+      imported: bundle[section].length,
+      skipped: skipped.get(section) ?? 0,
+    }))
+    .filter(summary => summary.imported > 0 || summary.skipped > 0);
+
+  return {
+    bundle,
+    sections,
+    ghostPlayers: players.filter(p => p.is_ghost).length,
+    issues,
+    canImport: !issues.some(issue => issue.level === "error"),
+  };
+}
@@ -0,0 +1,185 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CAMPAIGN_EXPORT_VERSION, type CampaignExportFile } from "./campaignImport";
+
+export interface SnapshotSections {
+  campaign: boolean;
+  players: boolean;
+  components: boolean;
+  rules: boolean;
+  units: boolean;
+  warbands: boolean;
+  messages: boolean;
+  narrative: boolean;
+  schedule: boolean;
+  map: boolean;
+  /** Only the maps' legends, not the markers placed on them */
+  mapLegendOnly?: boolean;
+  battles: boolean;
+}
+
+/** A campaign's setup without anything that happened in it */
+export const TEMPLATE_SECTIONS: SnapshotSections = {
+  campaign: true,
+  players: false,
+  components: true,
+  rules: true,
+  units: true,
+  warbands: false,
+  messages: false,
+  narrative: false,
+  schedule: true,
+  map: true,
+  mapLegendOnly: true,
+  battles: false,
+};
+
+/**
+ * Read a campaign in the export file format. Used for JSON backups, templates
+ * and clones, which all go back in through planCampaignImport.
+ */
+export async function fetchCampaignSnapshot(
+  campaignId: string,
+  sections: SnapshotSections
+): Promise<CampaignExportFile> {
+  const snapshot: CampaignExportFile = {
+    exportedAt: new Date().toISOString(),
+    version: CAMPAIGN_EXPORT_VERSION,
+  };
+
+  // Campaign metadata
+  if (sections.campaign) {
+    const { data } = await supabase
+      .from("campaigns")
+      .select("*")
+      .eq("id", campaignId)
+      .single();
+    snapshot.campaign = data;
+  }
+
+  // Players
+  if (sections.players) {
+    const { data } = await supabase
+      .from("campaign_players")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.players = data;
+  }
+
+  // Dashboard components
+  if (sections.components) {
+    const { data } = await supabase
+      .from("dashboard_components")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.components = data;
+  }
+
+  // Rules
+  if (sections.rules) {
+    const { data } = await supabase
+      .from("wargame_rules")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.rules = data;
+  }
+
+  // Unit library
+  if (sections.units) {
+    const { data } = await supabase
+      .from("campaign_units")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.units = data;
+  }
+
+  // Warbands
+  if (sections.warbands) {
+    const { data } = await supabase
+      .from("warbands")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.warbands = data;
+  }
+
+  // Messages
+  if (sections.messages) {
+    const { data } = await supabase
+      .from("messages")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .order("created_at", { ascending: true });
+    snapshot.messages = data;
+  }
+
+  // Narrative events
+  if (sections.narrative) {
+    const { data } = await supabase
+      .from("narrative_events")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.narrativeEvents = data;
+
+    const { data: playerNarratives } = await supabase
+      .from("player_narrative_entries")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.playerNarratives = playerNarratives;
+  }
+
+  // Schedule
+  if (sections.schedule) {
+    const { data } = await supabase
+      .from("schedule_entries")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.schedule = data;
+  }
+
+  // Map data
+  if (sections.map) {
+    const { data: maps } = await supabase
+      .from("campaign_maps")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .order("created_at", { ascending: true });
+
+    if (maps && maps.length > 0) {
+      const mapIds = maps.map(m => m.id);
+      snapshot.maps = maps;
+      // Files from before multiple maps only read `map`
+      snapshot.map = maps[0];
+
+      if (!sections.mapLegendOnly) {
+        const { data: markers } = await supabase
+          .from("map_markers")
+          .select("*")
+          .in("map_id", mapIds);
+        snapshot.mapMarkers = markers;
+      }
+
+      const { data: legendItems } = await supabase
+        .from("map_legend_items")
+        .select("*")
+        .in("map_id", mapIds);
+      snapshot.mapLegend = legendItems;
+    }
+  }
+
+  // Battle rounds and matches
+  if (sections.battles) {
+    const { data: rounds } = await supabase
+      .from("battle_rounds")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .order("round_index", { ascending: true });
+    snapshot.battleRounds = rounds;
+
+    const { data: matches } = await supabase
+      .from("battle_matches")
+      .select("*")
+      .eq("campaign_id", campaignId);
+    snapshot.battleMatches = matches;
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,2 @@
+// Lives with the edge functions so roll-dice can import it under Deno
+export * from "../../supabase/functions/_shared/diceNotation";
@@ -0,0 +1,85 @@
+import type { MapFogRegion } from "@/components/map/types";
+import { pointInPolygon, type MapPoint } from "@/lib/territories";
+
+export interface FogBounds {
+  position_x: number;
+  position_y: number;
+  width: number;
+  height: number;
+}
+
+type FogShapeFields = Pick<MapFogRegion, "shape" | "points" | "brush_size">;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+/**
+ * Bounding box of a polygon or brush stroke, padded by the brush radius and
+ * clipped to the map. Stored alongside the shape so rectangles and quick
+ * server-side checks don't need the points.
+ */
+export function fogBounds(points: MapPoint[], brushSize = 0): FogBounds {
+  if (points.length === 0) return { position_x: 0, position_y: 0, width: 0, height: 0 };
+
+  const pad = brushSize / 2;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const left = clamp(Math.min(...xs) - pad);
+  const top = clamp(Math.min(...ys) - pad);
+
+  return {
+    position_x: left,
+    position_y: top,
+    width: clamp(Math.max(...xs) + pad) - left,
+    height: clamp(Math.max(...ys) + pad) - top,
+  };
+}
+
+function distanceToSegment(p: MapPoint, a: MapPoint, b: MapPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+}
+
+/**
+ * Whether a fog region covers a point. Kept in step with the
+ * fog_region_contains SQL function that enforces fog in RLS.
+ */
+export function fogRegionContains(region: FogShapeFields & FogBounds, point: MapPoint): boolean {
+  if (
+    point.x < region.position_x ||
+    point.x > region.position_x + region.width ||
+    point.y < region.position_y ||
+    point.y > region.position_y + region.height
+  ) {
+    return false;
+  }
+
+  if (region.shape === "rect") return true;
+  if (region.points.length === 0) return false;
+  if (region.shape === "polygon") return pointInPolygon(point, region.points);
+
+  const radius = region.brush_size / 2;
+  return region.points.some((a, i) => {
+    const b = region.points[Math.min(i + 1, region.points.length - 1)];
+    return distanceToSegment(point, a, b) <= radius;
+  });
+}
+
+/**
+ * Thin out a freehand stroke so each point is at least `minSpacing` from the
+ * last one kept. The final point always survives so the stroke ends where
+ * the pointer did.
+ */
+export function simplifyStroke(points: MapPoint[], minSpacing = 0.75): MapPoint[] {
+  if (points.length <= 2) return points;
+
+  const kept = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const last = kept[kept.length - 1];
+    if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= minSpacing) kept.push(points[i]);
+  }
+  kept.push(points[points.length - 1]);
+  return kept;
+}
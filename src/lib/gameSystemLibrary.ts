@@ -0,0 +1,297 @@
+/**
+ * The shared game-system library: systems with their master factions, units
+ * and rules, copied into campaigns on demand. Each copy remembers where it
+ * came from (campaign_units.source/source_ref, wargame_rules.metadata.library)
+ * and a hash of the master content at the time, so later changes to the
+ * master data can be offered to the campaign without trampling GM edits.
+ */
+
+import { hashRuleContent } from "@/lib/rulesRepo";
+
+/** campaign_units.source for units copied from a game system */
+export const LIBRARY_SOURCE = "game_system";
+
+export interface MasterFaction {
+  id: string;
+  game_system_id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+}
+
+export interface MasterUnit {
+  id: string;
+  game_system_id: string;
+  faction_id: string;
+  name: string;
+  base_cost: number;
+  stats: unknown;
+  abilities: unknown;
+  keywords: unknown;
+  equipment_options: unknown;
+}
+
+export interface MasterRule {
+  id: string;
+  game_system_id: string;
+  faction_id: string | null;
+  category: string;
+  rule_key: string;
+  title: string;
+  content: unknown;
+}
+
+export interface LibraryContent {
+  factions: MasterFaction[];
+  units: MasterUnit[];
+  rules: MasterRule[];
+}
+
+/** A campaign unit, as far as the library cares */
+export interface LocalUnit {
+  id: string;
+  name: string;
+  faction: string;
+  base_cost: number;
+  stats: unknown;
+  abilities: unknown;
+  keywords: unknown;
+  equipment_options: unknown;
+  source: string;
+  source_ref: string | null;
+  source_hash: string | null;
+}
+
+export interface LocalRule {
+  id: string;
+  category: string;
+  rule_key: string;
+  title: string;
+  content: unknown;
+  metadata: unknown;
+}
+
+/** Where a library rule came from, kept in wargame_rules.metadata.library */
+export interface LibraryRuleSource {
+  gameSystemId: string;
+  masterRuleId: string;
+  contentHash: string;
+  syncedAt: string;
+}
+
+export type LibraryEntity = "unit" | "rule";
+export type LibraryChangeKind = "added" | "changed" | "removed";
+
+export interface LibraryChange {
+  kind: LibraryChangeKind;
+  entity: LibraryEntity;
+  /** The master row id, the identity shared by the library and the campaign */
+  ref: string;
+  title: string;
+  /** Faction name for units and faction rules */
+  faction: string | null;
+  /** The campaign row, for changed and removed entries */
+  localId?: string;
+  /** The GM has edited the campaign copy since it was made */
+  locallyEdited: boolean;
+}
+
+export interface LibraryDiff {
+  changes: LibraryChange[];
+  unchanged: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function unitHash(unit: Pick<LocalUnit, "name" | "faction" | "base_cost" | "stats" | "abilities" | "keywords" | "equipment_options">): string {
+  return hashRuleContent(unit.name, {
+    faction: unit.faction,
+    base_cost: Number(unit.base_cost),
+    stats: unit.stats ?? {},
+    abilities: unit.abilities ?? [],
+    keywords: unit.keywords ?? [],
+    equipment_options: unit.equipment_options ?? [],
+  });
+}
+
+export function factionNames(factions: MasterFaction[]): Record<string, string> {
+  return Object.fromEntries(factions.map((f) => [f.id, f.name]));
+}
+
+/** The campaign_units row for a master unit */
+export function toCampaignUnit(unit: MasterUnit, factionName: string, campaignId: string) {
+  const row = {
+    campaign_id: campaignId,
+    name: unit.name,
+    faction: factionName,
+    base_cost: unit.base_cost,
+    stats: unit.stats ?? {},
+    abilities: unit.abilities ?? [],
+    keywords: unit.keywords ?? [],
+    equipment_options: unit.equipment_options ?? [],
+    source: LIBRARY_SOURCE,
+    source_ref: unit.id,
+  };
+  return { ...row, source_hash: unitHash(row) };
+}
+
+/** The wargame_rules row for a master rule */
+export function toCampaignRule(rule: MasterRule, campaignId: string, syncedAt: string) {
+  const library: LibraryRuleSource = {
+    gameSystemId: rule.game_system_id,
+    masterRuleId: rule.id,
+    contentHash: hashRuleContent(rule.title, rule.content),
+    syncedAt,
+  };
+  return {
+    campaign_id: campaignId,
+    category: rule.category,
+    rule_key: rule.rule_key,
+    title: rule.title,
+    content: rule.content,
+    metadata: { library },
+  };
+}
+
+export function librarySourceOf(rule: Pick<LocalRule, "metadata">): LibraryRuleSource | null {
+  if (!isPlainObject(rule.metadata) || !isPlainObject(rule.metadata.library)) return null;
+  const source = rule.metadata.library as unknown as LibraryRuleSource;
+  return typeof source.masterRuleId === "string" && typeof source.contentHash === "string" ? source : null;
+}
+
+/** Factions the campaign has taken units from, by master faction id */
+export function instantiatedFactionIds(units: LocalUnit[], library: LibraryContent): Set<string> {
+  const masterById = new Map(library.units.map((u) => [u.id, u]));
+  const ids = new Set<string>();
+  for (const unit of units) {
+    if (unit.source !== LIBRARY_SOURCE || !unit.source_ref) continue;
+    const master = masterById.get(unit.source_ref);
+    if (master) ids.add(master.faction_id);
+  }
+  return ids;
+}
+
+/**
+ * Compare a campaign's library copies with the current master data. New
+ * units and rules are only offered for factions the campaign already uses
+ * (core rules always); units and rules the campaign made itself are never
+ * touched.
+ */
+export function diffLibrary(local: { units: LocalUnit[]; rules: LocalRule[] }, library: LibraryContent): LibraryDiff {
+  const changes: LibraryChange[] = [];
+  let unchanged = 0;
+  const names = factionNames(library.factions);
+  const inUse = instantiatedFactionIds(local.units, library);
+  const hasRules = local.rules.some((r) => librarySourceOf(r));
+  if (inUse.size === 0 && !hasRules) return { changes, unchanged };
+
+  const localUnits = new Map(
+    local.units.filter((u) => u.source === LIBRARY_SOURCE && u.source_ref).map((u) => [u.source_ref as string, u])
+  );
+  for (const master of library.units) {
+    const existing = localUnits.get(master.id);
+    const faction = names[master.faction_id] ?? null;
+    if (!existing) {
+      if (inUse.has(master.faction_id)) {
+        changes.push({ kind: "added", entity: "unit", ref: master.id, title: master.name, faction, locallyEdited: false });
+      }
+      continue;
+    }
+
+    const masterHash = toCampaignUnit(master, faction ?? existing.faction, "").source_hash;
+    const localHash = unitHash(existing);
+    if (masterHash === localHash || masterHash === existing.source_hash) {
+      unchanged++;
+      continue;
+    }
+    changes.push({
+      kind: "changed",
+      entity: "unit",
+      ref: master.id,
+      title: master.name,
+      faction,
+      localId: existing.id,
+      locallyEdited: existing.source_hash !== localHash,
+    });
+  }
+
+  const masterUnitIds = new Set(library.units.map((u) => u.id));
+  for (const [ref, unit] of localUnits) {
+    if (masterUnitIds.has(ref)) continue;
+    changes.push({
+      kind: "removed",
+      entity: "unit",
+      ref,
+      title: unit.name,
+      faction: unit.faction,
+      localId: unit.id,
+      locallyEdited: unit.source_hash !== unitHash(unit),
+    });
+  }
+
+  const localRules = new Map<string, LocalRule & { source: LibraryRuleSource }>();
+  for (const rule of local.rules) {
+    const source = librarySourceOf(rule);
+    if (source) localRules.set(source.masterRuleId, { ...rule, source });
+  }
+  for (const master of library.rules) {
+    const existing = localRules.get(master.id);
+    const faction = master.faction_id ? names[master.faction_id] ?? null : null;
+    if (!existing) {
+      if (!master.faction_id || inUse.has(master.faction_id)) {
+        changes.push({ kind: "added", entity: "rule", ref: master.id, title: master.title, faction, locallyEdited: false });
+      }
+      continue;
+    }
+
+    const masterHash = hashRuleContent(master.title, master.content);
+    const localHash = hashRuleContent(existing.title, existing.content);
+    if (masterHash === localHash || masterHash === existing.source.contentHash) {
+      unchanged++;
+      continue;
+    }
+    changes.push({
+      kind: "changed",
+      entity: "rule",
+      ref: master.id,
+      title: master.title,
+      faction,
+      localId: existing.id,
+      locallyEdited: existing.source.contentHash !== localHash,
+    });
+  }
+
+  const masterRuleIds = new Set(library.rules.map((r) => r.id));
+  for (const [ref, rule] of localRules) {
+    if (masterRuleIds.has(ref)) continue;
+    changes.push({
+      kind: "removed",
+      entity: "rule",
+      ref,
+      title: rule.title,
+      faction: null,
+      localId: rule.id,
+      locallyEdited: rule.source.contentHash !== hashRuleContent(rule.title, rule.content),
+    });
+  }
+
+  const order: Record<LibraryChangeKind, number> = { added: 0, changed: 1, removed: 2 };
+  changes.sort((a, b) =>
+    order[a.kind] - order[b.kind] ||
+    a.entity.localeCompare(b.entity) ||
+    (a.faction ?? "").localeCompare(b.faction ?? "") ||
+    a.title.localeCompare(b.title)
+  );
+
+  return { changes, unchanged };
+}
+
+/** Count of units and rules a faction would bring into a campaign */
+export function factionContents(library: LibraryContent, factionId: string): { units: number; rules: number } {
+  return {
+    units: library.units.filter((u) => u.faction_id === factionId).length,
+    rules: library.rules.filter((r) => r.faction_id === factionId).length,
+  };
+}
@@ -0,0 +1,167 @@
+import type { CampaignMap, MapGridType } from "@/components/map/types";
+import type { MapPoint } from "@/lib/territories";
+
+export type MapGrid = Pick<
+  CampaignMap,
+  "grid_type" | "grid_size" | "grid_offset_x" | "grid_offset_y" | "cell_distance" | "distance_unit"
+>;
+
+export interface GridMeasure {
+  cells: number;
+  distance: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/*
+ * Positions on the map are percentages of the image's width and height. The
+ * grid works in map units instead, where y is scaled by the image's
+ * height / width so both axes share the width's scale and cells stay square.
+ */
+const toUnits = (p: MapPoint, aspect: number): MapPoint => ({ x: p.x, y: p.y * aspect });
+const fromUnits = (p: MapPoint, aspect: number): MapPoint => ({ x: p.x, y: p.y / aspect });
+
+export const isHexGrid = (type: MapGridType) => type === "hex_pointy" || type === "hex_flat";
+
+interface Hex {
+  q: number;
+  r: number;
+}
+
+// Flat-topped hexes are pointy-topped hexes with x and y swapped
+const swapFor = (grid: MapGrid) => (p: MapPoint): MapPoint =>
+  grid.grid_type === "hex_flat" ? { x: p.y, y: p.x } : p;
+
+/** Centre of hex (0, 0), in swapped map units */
+function hexOrigin(grid: MapGrid): MapPoint {
+  const offset = swapFor(grid)({ x: grid.grid_offset_x, y: grid.grid_offset_y });
+  return { x: offset.x + grid.grid_size / 2, y: offset.y + grid.grid_size / SQRT3 };
+}
+
+function roundHex(q: number, r: number): Hex {
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+  return { q: rq, r: rr };
+}
+
+/** Axial coordinates of the hex containing a point in map units */
+function hexAt(grid: MapGrid, units: MapPoint): Hex {
+  const p = swapFor(grid)(units);
+  const origin = hexOrigin(grid);
+  const radius = grid.grid_size / SQRT3;
+  const x = p.x - origin.x;
+  const y = p.y - origin.y;
+  return roundHex(((SQRT3 / 3) * x - y / 3) / radius, ((2 / 3) * y) / radius);
+}
+
+function hexCentre(grid: MapGrid, hex: Hex): MapPoint {
+  const origin = hexOrigin(grid);
+  const size = grid.grid_size;
+  return swapFor(grid)({
+    x: origin.x + size * (hex.q + hex.r / 2),
+    y: origin.y + ((size * SQRT3) / 2) * hex.r,
+  });
+}
+
+/** Centre of the grid cell under a point; the point itself when there's no grid */
+export function snapToGrid(grid: MapGrid, point: MapPoint, aspect: number): MapPoint {
+  if (grid.grid_type === "none" || grid.grid_size <= 0) return point;
+
+  const units = toUnits(point, aspect);
+  const size = grid.grid_size;
+  const centre = isHexGrid(grid.grid_type)
+    ? hexCentre(grid, hexAt(grid, units))
+    : {
+        x: grid.grid_offset_x + (Math.floor((units.x - grid.grid_offset_x) / size) + 0.5) * size,
+        y: grid.grid_offset_y + (Math.floor((units.y - grid.grid_offset_y) / size) + 0.5) * size,
+      };
+
+  const snapped = fromUnits(centre, aspect);
+  return { x: clamp(snapped.x), y: clamp(snapped.y) };
+}
+
+/**
+ * Length of a path of waypoints. Hex grids count the hexes stepped through
+ * between the cells each waypoint sits in; square grids and maps without a
+ * grid measure straight lines, with one cell as the scale.
+ */
+export function measurePath(grid: MapGrid, points: MapPoint[], aspect: number): GridMeasure {
+  if (grid.grid_size <= 0) return { cells: 0, distance: 0 };
+
+  let cells = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = toUnits(points[i - 1], aspect);
+    const b = toUnits(points[i], aspect);
+    if (isHexGrid(grid.grid_type)) {
+      const from = hexAt(grid, a);
+      const to = hexAt(grid, b);
+      const dq = to.q - from.q;
+      const dr = to.r - from.r;
+      cells += (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2;
+    } else {
+      cells += Math.hypot(b.x - a.x, b.y - a.y) / grid.grid_size;
+    }
+  }
+  return { cells, distance: cells * grid.cell_distance };
+}
+
+const CELL_NAMES: Record<MapGridType, [string, string]> = {
+  none: ["cell", "cells"],
+  square: ["square", "squares"],
+  hex_pointy: ["hex", "hexes"],
+  hex_flat: ["hex", "hexes"],
+};
+
+/** e.g. "18 mi (3 hexes)" */
+export function formatDistance(grid: MapGrid, measure: GridMeasure): string {
+  const cells = round1(measure.cells);
+  const [one, many] = CELL_NAMES[grid.grid_type] ?? CELL_NAMES.none;
+  return `${round1(measure.distance)} ${grid.distance_unit} (${cells} ${cells === 1 ? one : many})`;
+}
+
+export interface GridPatternTile {
+  width: number;
+  height: number;
+  // Lines drawn in one tile, in map units from the grid offset
+  path: string;
+}
+
+/** One repeating tile of grid lines, for an SVG pattern; null without a grid */
+export function gridPatternTile(grid: MapGrid): GridPatternTile | null {
+  const size = grid.grid_size;
+  if (grid.grid_type === "none" || size <= 0) return null;
+
+  if (grid.grid_type === "square") {
+    return { width: size, height: size, path: `M ${size} 0 H 0 V ${size}` };
+  }
+
+  // A pointy-topped tile holds one hex and the upper halves of the two below
+  const radius = size / SQRT3;
+  const swap = swapFor(grid);
+  const line = (points: [number, number][]) =>
+    points
+      .map(([x, y], i) => {
+        const p = swap({ x, y });
+        return `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`;
+      })
+      .join(" ");
+  const path = [
+    line([[0, radius / 2], [size / 2, 0], [size, radius / 2]]),
+    line([[0, radius / 2], [0, (3 * radius) / 2]]),
+    line([[0, (3 * radius) / 2], [size / 2, 2 * radius], [size, (3 * radius) / 2]]),
+    line([[size / 2, 2 * radius], [size / 2, 3 * radius]]),
+  ].join(" ");
+  const tile = swap({ x: size, y: 3 * radius });
+  return { width: tile.x, height: tile.y, path };
+}
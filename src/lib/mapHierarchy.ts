@@ -0,0 +1,73 @@
+import type { CampaignMap } from "@/components/map/types";
+
+type MapNode = Pick<CampaignMap, "id" | "parent_map_id">;
+
+/**
+ * The chain of maps from the top-level map down to `mapId`, for breadcrumbs.
+ * Parents missing from the list end the chain, and a loop stops at the first
+ * repeat.
+ */
+export function mapBreadcrumbs<T extends MapNode>(maps: T[], mapId: string | null | undefined): T[] {
+  const byId = new Map(maps.map((m) => [m.id, m]));
+  const chain: T[] = [];
+  const seen = new Set<string>();
+
+  let current = mapId ? byId.get(mapId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    current = current.parent_map_id ? byId.get(current.parent_map_id) : undefined;
+  }
+  return chain;
+}
+
+/** Every map nested under `mapId`, at any depth */
+export function mapDescendants(maps: MapNode[], mapId: string): Set<string> {
+  const found = new Set<string>();
+  const queue = [mapId];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    for (const map of maps) {
+      if (map.parent_map_id === parentId && map.id !== mapId && !found.has(map.id)) {
+        found.add(map.id);
+        queue.push(map.id);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Maps in picker order: each top-level map followed by the maps nested in it,
+ * keeping the input order among siblings. Maps whose parent is gone are
+ * treated as top-level.
+ */
+export function flattenMapTree<T extends MapNode>(maps: T[]): Array<{ map: T; depth: number }> {
+  const ids = new Set(maps.map((m) => m.id));
+  const childrenOf = new Map<string | null, T[]>();
+  for (const map of maps) {
+    const parentId = map.parent_map_id && ids.has(map.parent_map_id) ? map.parent_map_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), map]);
+  }
+
+  const result: Array<{ map: T; depth: number }> = [];
+  const visited = new Set<string>();
+  const walk = (parentId: string | null, depth: number) => {
+    for (const map of childrenOf.get(parentId) ?? []) {
+      if (visited.has(map.id)) continue;
+      visited.add(map.id);
+      result.push({ map, depth });
+      walk(map.id, depth + 1);
+    }
+  };
+  walk(null, 0);
+
+  // Maps caught in a parent loop never hang off the top level
+  for (const map of maps) {
+    if (!visited.has(map.id)) {
+      visited.add(map.id);
+      result.push({ map, depth: 0 });
+    }
+  }
+  return result;
+}
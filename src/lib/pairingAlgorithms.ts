@@ -1,6 +1,8 @@
 import type { MatchParticipant, BattleMatch, ConstraintsConfig } from "@/hooks/useBattleTracker";
+import { createSeededRandom, shuffleWith, type RandomSource } from "@/lib/seededRandom";
+import { minCostPerfectMatching } from "@/lib/weightedMatching";
 
-export type PairingSystem = 'manual' | 'random' | 'swiss' | 'round-robin';
+export type PairingSystem = 'manual' | 'random' | 'swiss' | 'round-robin' | 'pods' | 'teams';
 
 export interface Player {
   id: string;
@@ -8,6 +10,7 @@ export interface Player {
   warbandId?: string;
   warbandName?: string;
   points?: number; // For Swiss pairing
+  rank?: number; // Standings position, breaks Swiss ties on points
 }
 
 export interface PairingResult {
@@ -15,12 +18,23 @@ export interface PairingResult {
   isBye: boolean;
 }
 
+/**
+ * One meeting between two players. Multiplayer games are recorded as one
+ * entry per pair of players in the same pod (see `expandMeetings`).
+ */
 export interface MatchHistory {
   roundIndex: number;
   playerAId: string;
   playerBId: string;
 }
 
+export interface PairingOptions {
+  /** Same players, history and seed always produce the same pairings */
+  seed?: string | number;
+  /** One entry per bye already received, by player id */
+  byeHistory?: string[];
+}
+
 /**
  * Generate pairings based on the selected system
  */
@@ -29,15 +43,20 @@ export function generatePairings(
   players: Player[],
   constraints: ConstraintsConfig,
   matchHistory: MatchHistory[] = [],
-  roundIndex: number = 1
+  roundIndex: number = 1,
+  options: PairingOptions = {}
 ): PairingResult[] {
   switch (system) {
     case 'random':
-      return generateRandomPairings(players, constraints, matchHistory);
+      return generateRandomPairings(players, constraints, matchHistory, options);
     case 'swiss':
-      return generateSwissPairings(players, constraints, matchHistory);
+      return generateSwissPairings(players, constraints, matchHistory, options);
     case 'round-robin':
       return generateRoundRobinPairings(players, roundIndex);
+    case 'pods':
+      return generatePodPairings(players, constraints, matchHistory, options);
+    case 'teams':
+      return generateTeamPairings(players, constraints, matchHistory, options);
     case 'manual':
     default:
       return [];
@@ -50,9 +69,11 @@ export function generatePairings(
 function generateRandomPairings(
   players: Player[],
   constraints: ConstraintsConfig,
-  matchHistory: MatchHistory[]
+  matchHistory: MatchHistory[],
+  options: PairingOptions
 ): PairingResult[] {
-  const shuffled = [...players].sort(() => Math.random() - 0.5);
+  const random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+  const shuffled = shuffleWith(players, random);
   const pairings: PairingResult[] = [];
   const paired = new Set<string>();
   
@@ -125,83 +146,312 @@ function generateRandomPairings(
 }
 
 /**
- * Swiss pairing - pair players with similar scores
+ * Pairing cost tiers. Each tier outweighs any realistic sum of the tiers
+ * below it, so the matcher only breaks a stronger preference when every
+ * alternative breaks a stronger one.
+ */
+const PAIRING_COST = {
+  rematchCap: 1_000_000,
+  backToBack: 100_000,
+  recentRepeat: 1_000,
+  perPreviousMeeting: 200,
+  floatPerGroup: 10, // multiplied by the squared score-group distance
+  jitter: 10, // seeded tie-break noise, always below one float step
+};
+
+/**
+ * Swiss pairing - minimum-cost perfect matching across score groups
+ *
+ * Players are ranked by points (then `rank`), the bye goes to the
+ * lowest-ranked player without one, and the rest are paired so that the total
+ * cost of rematches, back-to-backs and floats between score groups is as low
+ * as possible. Ties are broken by the seed, so the same inputs always give the
+ * same pairings.
  */
 function generateSwissPairings(
   players: Player[],
   constraints: ConstraintsConfig,
-  matchHistory: MatchHistory[]
+  matchHistory: MatchHistory[],
+  options: PairingOptions
 ): PairingResult[] {
-  // Sort by points (highest first)
-  const sorted = [...players].sort((a, b) => (b.points || 0) - (a.points || 0));
+  const random = createSeededRandom(options.seed ?? 'swiss');
+  const pool = rankPlayers(players, random);
   const pairings: PairingResult[] = [];
-  const paired = new Set<string>();
-  
-  const opponentCounts = buildOpponentCounts(matchHistory);
-  const recentOpponents = buildRecentOpponents(matchHistory, constraints.preferNotRepeatLastN || 3);
-  
-  for (let i = 0; i < sorted.length; i++) {
-    const playerA = sorted[i];
-    if (paired.has(playerA.id)) continue;
-    
-    // Find best opponent from remaining players
-    let bestOpponent: Player | null = null;
-    let bestScore = Infinity;
-    
-    for (let j = i + 1; j < sorted.length; j++) {
-      const playerB = sorted[j];
-      if (paired.has(playerB.id)) continue;
-      
-      let score = 0;
-      const pairKey = getPairKey(playerA.id, playerB.id);
-      
-      // Prefer similar points
-      score += Math.abs((playerA.points || 0) - (playerB.points || 0));
-      
-      // Penalize rematches
-      const timesPlayed = opponentCounts.get(pairKey) || 0;
-      if (constraints.maxRematchCount && timesPlayed >= constraints.maxRematchCount) {
-        score += 2000;
-      }
-      
-      // Penalize recent opponents
-      if (constraints.noBackToBack && recentOpponents.get(playerA.id)?.has(playerB.id)) {
-        score += 1000;
-      }
-      
-      if (score < bestScore) {
-        bestScore = score;
-        bestOpponent = playerB;
-      }
+
+  let byePlayer: Player | null = null;
+  if (pool.length % 2 === 1) {
+    byePlayer = selectByePlayer(pool, options.byeHistory || []);
+    pool.splice(pool.indexOf(byePlayer), 1);
+  }
+
+  const scoreGroups = [...new Set(pool.map(p => p.points || 0))].sort((a, b) => b - a);
+  const groupIndex = new Map(scoreGroups.map((points, i) => [points, i]));
+  const history = buildHistoryLookups(matchHistory, constraints);
+
+  const jitter = new Map<string, number>();
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      jitter.set(`${i}:${j}`, Math.floor(random() * PAIRING_COST.jitter));
     }
-    
-    if (bestOpponent) {
-      paired.add(playerA.id);
-      paired.add(bestOpponent.id);
+  }
+
+  const mate = minCostPerfectMatching(pool.length, (i, j) => {
+    const a = pool[i];
+    const b = pool[j];
+    const distance = Math.abs(groupIndex.get(a.points || 0)! - groupIndex.get(b.points || 0)!);
+    return (
+      meetingCost(a.id, b.id, constraints, history) +
+      PAIRING_COST.floatPerGroup * distance * distance +
+      jitter.get(`${i}:${j}`)!
+    );
+  });
+
+  // Pool is in rank order, so the first index of each pair is the higher-ranked player
+  for (let i = 0; i < pool.length; i++) {
+    const j = mate[i];
+    if (j > i) {
       pairings.push({
-        participants: [
-          { playerId: playerA.id, playerName: playerA.name, warbandId: playerA.warbandId, warbandName: playerA.warbandName, side: 'a' },
-          { playerId: bestOpponent.id, playerName: bestOpponent.name, warbandId: bestOpponent.warbandId, warbandName: bestOpponent.warbandName, side: 'b' },
-        ],
+        participants: [toParticipant(pool[i], 'a'), toParticipant(pool[j], 'b')],
         isBye: false,
       });
     }
   }
-  
-  // Handle odd player - assign BYE
-  const unpairedPlayers = sorted.filter(p => !paired.has(p.id));
-  if (unpairedPlayers.length === 1) {
+
+  if (byePlayer) {
+    pairings.push({ participants: [toParticipant(byePlayer, 'a')], isBye: true });
+  }
+
+  return pairings;
+}
+
+/**
+ * Order players by points (highest first), then by explicit rank. Players
+ * still tied are ordered by the seeded shuffle.
+ */
+function rankPlayers(players: Player[], random: RandomSource): Player[] {
+  return shuffleWith(players, random).sort(
+    (a, b) => (b.points || 0) - (a.points || 0) || (a.rank ?? Infinity) - (b.rank ?? Infinity)
+  );
+}
+
+/**
+ * The bye goes to the lowest-ranked player who has not had one yet. When
+ * everyone has, it goes to the lowest-ranked player with the fewest byes.
+ */
+function selectByePlayer(ranked: Player[], byeHistory: string[]): Player {
+  const byeCounts = countByes(byeHistory);
+  let selected = ranked[ranked.length - 1];
+  for (let i = ranked.length - 1; i >= 0; i--) {
+    const count = byeCounts.get(ranked[i].id) || 0;
+    if (count === 0) return ranked[i];
+    if (count < (byeCounts.get(selected.id) || 0)) selected = ranked[i];
+  }
+  return selected;
+}
+
+/**
+ * Cost of two players meeting again, whether as 1v1 opponents or in the same pod
+ */
+function meetingCost(aId: string, bId: string, constraints: ConstraintsConfig, history: HistoryLookups): number {
+  let cost = 0;
+  const timesPlayed = history.opponentCounts.get(getPairKey(aId, bId)) || 0;
+
+  if (constraints.maxRematchCount && timesPlayed >= constraints.maxRematchCount) {
+    cost += PAIRING_COST.rematchCap;
+  }
+  if (constraints.noBackToBack && history.lastRoundOpponents.get(aId)?.has(bId)) {
+    cost += PAIRING_COST.backToBack;
+  }
+  if (history.recentOpponents.get(aId)?.has(bId)) {
+    cost += PAIRING_COST.recentRepeat;
+  }
+  cost += timesPlayed * PAIRING_COST.perPreviousMeeting;
+
+  return cost;
+}
+
+/**
+ * Free-for-all pods of 3 or 4 players (`constraints.podSize`, default 4)
+ *
+ * Every pair of players sharing a pod counts as a meeting, so anti-repeat
+ * rules spread players across different pods from round to round.
+ */
+function generatePodPairings(
+  players: Player[],
+  constraints: ConstraintsConfig,
+  matchHistory: MatchHistory[],
+  options: PairingOptions
+): PairingResult[] {
+  const random = createSeededRandom(options.seed ?? 'pods');
+  const pool = rankPlayers(players, random);
+  const pairings: PairingResult[] = [];
+
+  if (pool.length === 1) {
+    return [{ participants: [toParticipant(pool[0], 'a')], isBye: true }];
+  }
+
+  const pods = groupIntoPods(pool, planPodSizes(pool.length, constraints.podSize ?? 4), constraints, matchHistory, random);
+  for (const pod of pods) {
+    pairings.push({
+      participants: pod.map((player, i) => toParticipant(player, POD_SIDES[i])),
+      isBye: false,
+    });
+  }
+
+  return pairings;
+}
+
+/**
+ * 2v2 team games: pods of four split into two teams of two (sides 'a' and 'b')
+ *
+ * Teams are split to balance campaign points. Leftover players play a 1v1,
+ * and a single leftover player gets the bye.
+ */
+function generateTeamPairings(
+  players: Player[],
+  constraints: ConstraintsConfig,
+  matchHistory: MatchHistory[],
+  options: PairingOptions
+): PairingResult[] {
+  const random = createSeededRandom(options.seed ?? 'teams');
+  const pool = rankPlayers(players, random);
+  const pairings: PairingResult[] = [];
+
+  let byePlayer: Player | null = null;
+  if (pool.length % 2 === 1) {
+    byePlayer = selectByePlayer(pool, options.byeHistory || []);
+    pool.splice(pool.indexOf(byePlayer), 1);
+  }
+
+  const sizes = new Array(Math.floor(pool.length / 4)).fill(4);
+  if (pool.length % 4 === 2) sizes.push(2);
+
+  for (const pod of groupIntoPods(pool, sizes, constraints, matchHistory, random)) {
+    if (pod.length < 4) {
+      pairings.push({ participants: [toParticipant(pod[0], 'a'), toParticipant(pod[1], 'b')], isBye: false });
+      continue;
+    }
+
+    const points = (p: Player) => p.points || 0;
+    const splits = TEAM_SPLITS.map(([[a1, a2], [b1, b2]]) => ({
+      teamA: [pod[a1], pod[a2]],
+      teamB: [pod[b1], pod[b2]],
+      imbalance: Math.abs(points(pod[a1]) + points(pod[a2]) - points(pod[b1]) - points(pod[b2])),
+      tieBreak: random(),
+    }));
+    const best = splits.sort((x, y) => x.imbalance - y.imbalance || x.tieBreak - y.tieBreak)[0];
+
     pairings.push({
       participants: [
-        { playerId: unpairedPlayers[0].id, playerName: unpairedPlayers[0].name, warbandId: unpairedPlayers[0].warbandId, warbandName: unpairedPlayers[0].warbandName, side: 'a' },
+        ...best.teamA.map(p => toParticipant(p, 'a')),
+        ...best.teamB.map(p => toParticipant(p, 'b')),
       ],
-      isBye: true,
+      isBye: false,
     });
   }
-  
+
+  if (byePlayer) {
+    pairings.push({ participants: [toParticipant(byePlayer, 'a')], isBye: true });
+  }
+
   return pairings;
 }
 
+const POD_SIDES: MatchParticipant['side'][] = ['a', 'b', 'c', 'd'];
+
+// The three ways to split four players into two teams of two
+const TEAM_SPLITS: [[number, number], [number, number]][] = [
+  [[0, 3], [1, 2]],
+  [[0, 2], [1, 3]],
+  [[0, 1], [2, 3]],
+];
+
+/**
+ * Split `count` players into pods of the preferred size, topping up with pods
+ * of the other size (3 or 4). A single 1v1 covers counts neither size fits.
+ */
+export function planPodSizes(count: number, preferred: 3 | 4): number[] {
+  const other = preferred === 4 ? 3 : 4;
+
+  const fill = (total: number): number[] | null => {
+    for (let a = Math.floor(total / preferred); a >= 0; a--) {
+      const rest = total - a * preferred;
+      if (rest % other === 0) {
+        return [...new Array(a).fill(preferred), ...new Array(rest / other).fill(other)];
+      }
+    }
+    return null;
+  };
+
+  if (count < 3) return count === 2 ? [2] : [];
+  return fill(count) ?? [...(fill(count - 2) ?? []), 2];
+}
+
+/**
+ * Assign ranked players to pods of the given sizes, then improve the split
+ * with pairwise swaps until no swap lowers the total meeting cost. Pods are
+ * seeded in rank order, so similarly ranked players start together.
+ */
+function groupIntoPods(
+  ranked: Player[],
+  sizes: number[],
+  constraints: ConstraintsConfig,
+  matchHistory: MatchHistory[],
+  random: RandomSource
+): Player[][] {
+  const history = buildHistoryLookups(matchHistory, constraints);
+  const index = new Map(ranked.map((p, i) => [p.id, i]));
+
+  // Seeded tie-break noise per pair, fixed up front so the search is deterministic
+  const jitter: number[][] = ranked.map(() => new Array(ranked.length).fill(0));
+  for (let i = 0; i < ranked.length; i++) {
+    for (let j = i + 1; j < ranked.length; j++) {
+      jitter[i][j] = jitter[j][i] = Math.floor(random() * PAIRING_COST.jitter);
+    }
+  }
+
+  const pairCost = (a: Player, b: Player) =>
+    meetingCost(a.id, b.id, constraints, history) + jitter[index.get(a.id)!][index.get(b.id)!];
+
+  const costWith = (pod: Player[], player: Player, skip: Player) =>
+    pod.reduce((sum, other) => (other === skip ? sum : sum + pairCost(player, other)), 0);
+
+  const pods: Player[][] = [];
+  let next = 0;
+  for (const size of sizes) {
+    pods.push(ranked.slice(next, next + size));
+    next += size;
+  }
+
+  const MAX_SWAPS = 1000;
+  for (let swaps = 0; swaps < MAX_SWAPS; swaps++) {
+    let best: { p: number; i: number; q: number; j: number; gain: number } | null = null;
+
+    for (let p = 0; p < pods.length; p++) {
+      for (let q = p + 1; q < pods.length; q++) {
+        for (let i = 0; i < pods[p].length; i++) {
+          for (let j = 0; j < pods[q].length; j++) {
+            const a = pods[p][i];
+            const b = pods[q][j];
+            const before = costWith(pods[p], a, a) + costWith(pods[q], b, b);
+            const after = costWith(pods[p], b, a) + costWith(pods[q], a, b);
+            const gain = before - after;
+            if (gain > 0 && (!best || gain > best.gain)) best = { p, i, q, j, gain };
+          }
+        }
+      }
+    }
+
+    if (!best) break;
+    const moved = pods[best.p][best.i];
+    pods[best.p][best.i] = pods[best.q][best.j];
+    pods[best.q][best.j] = moved;
+  }
+
+  // Keep each pod in rank order so side 'a' is the highest-ranked player
+  return pods.map(pod => [...pod].sort((a, b) => index.get(a.id)! - index.get(b.id)!));
+}
+
 /**
  * Round Robin pairing for a specific round
  */
@@ -263,6 +513,33 @@ function getPairKey(id1: string, id2: string): string {
   return [id1, id2].sort().join('-');
 }
 
+/**
+ * Group a game's participants by side, in side order. 1v1 and free-for-all
+ * games have one player per side; team games have several.
+ */
+export function groupParticipantsBySide(participants: MatchParticipant[]): MatchParticipant[][] {
+  const sides = new Map<string, MatchParticipant[]>();
+  for (const participant of [...participants].sort((a, b) => a.side.localeCompare(b.side))) {
+    if (!sides.has(participant.side)) sides.set(participant.side, []);
+    sides.get(participant.side)!.push(participant);
+  }
+  return Array.from(sides.values());
+}
+
+/**
+ * Turn one game into pairwise history entries. Everyone in the same pod (or
+ * team game) counts as having met everyone else in it.
+ */
+export function expandMeetings(roundIndex: number, playerIds: string[]): MatchHistory[] {
+  const meetings: MatchHistory[] = [];
+  for (let i = 0; i < playerIds.length; i++) {
+    for (let j = i + 1; j < playerIds.length; j++) {
+      meetings.push({ roundIndex, playerAId: playerIds[i], playerBId: playerIds[j] });
+    }
+  }
+  return meetings;
+}
+
 function buildOpponentCounts(history: MatchHistory[]): Map<string, number> {
   const counts = new Map<string, number>();
   for (const match of history) {
@@ -293,37 +570,134 @@ function buildRecentOpponents(history: MatchHistory[], lookback: number): Map<st
   return recent;
 }
 
+interface HistoryLookups {
+  opponentCounts: Map<string, number>;
+  lastRoundOpponents: Map<string, Set<string>>;
+  recentOpponents: Map<string, Set<string>>;
+}
+
+function buildHistoryLookups(history: MatchHistory[], constraints: ConstraintsConfig): HistoryLookups {
+  return {
+    opponentCounts: buildOpponentCounts(history),
+    lastRoundOpponents: buildRecentOpponents(history, 1),
+    recentOpponents: buildRecentOpponents(history, constraints.preferNotRepeatLastN || 3),
+  };
+}
+
+function countByes(byeHistory: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const playerId of byeHistory) {
+    counts.set(playerId, (counts.get(playerId) || 0) + 1);
+  }
+  return counts;
+}
+
+function toParticipant(player: Player, side: MatchParticipant['side']): MatchParticipant {
+  return { playerId: player.id, playerName: player.name, warbandId: player.warbandId, warbandName: player.warbandName, side };
+}
+
+/**
+ * Hard constraints broken by pairing two players, as human-readable reasons
+ */
+function describeViolations(
+  aId: string,
+  bId: string,
+  constraints: ConstraintsConfig,
+  history: HistoryLookups
+): string[] {
+  const violations: string[] = [];
+
+  if (constraints.noBackToBack && history.lastRoundOpponents.get(aId)?.has(bId)) {
+    violations.push('played last round (back-to-back)');
+  }
+
+  const timesPlayed = history.opponentCounts.get(getPairKey(aId, bId)) || 0;
+  if (constraints.maxRematchCount && timesPlayed >= constraints.maxRematchCount) {
+    violations.push(`have played ${timesPlayed} times (max: ${constraints.maxRematchCount})`);
+  }
+
+  return violations;
+}
+
 /**
  * Validate pairings against constraints
+ *
+ * Each warning names the broken constraint and why it could not be met: a
+ * player had no compliant opponent left, the field as a whole could not be
+ * paired without breaks, or a compliant pairing exists and these pairings
+ * should be regenerated.
  */
 export function validatePairings(
   pairings: PairingResult[],
   constraints: ConstraintsConfig,
-  matchHistory: MatchHistory[]
+  matchHistory: MatchHistory[],
+  options: Pick<PairingOptions, 'byeHistory'> = {}
 ): { valid: boolean; warnings: string[] } {
   const warnings: string[] = [];
-  const opponentCounts = buildOpponentCounts(matchHistory);
-  const recentOpponents = buildRecentOpponents(matchHistory, 1); // Last round only for back-to-back
-  
-  for (const pairing of pairings) {
-    if (pairing.isBye || pairing.participants.length < 2) continue;
-    
-    const playerA = pairing.participants[0];
-    const playerB = pairing.participants[1];
-    const pairKey = getPairKey(playerA.playerId, playerB.playerId);
-    
-    // Check back-to-back
-    if (constraints.noBackToBack && recentOpponents.get(playerA.playerId)?.has(playerB.playerId)) {
-      warnings.push(`${playerA.playerName} and ${playerB.playerName} played last round (back-to-back)`);
+  const history = buildHistoryLookups(matchHistory, constraints);
+
+  const games = pairings.filter(p => !p.isBye && p.participants.length >= 2);
+  const playerIds = games.flatMap(p => p.participants.map(pp => pp.playerId));
+  const breaks = (aId: string, bId: string) => describeViolations(aId, bId, constraints, history).length > 0;
+
+  // Every pair of players in the same game is a meeting, including pod and team games
+  const violating = games.flatMap(game =>
+    game.participants.flatMap((a, i) =>
+      game.participants.slice(i + 1).filter(b => breaks(a.playerId, b.playerId)).map(b => [a, b] as const)
+    )
+  );
+  const allOneOnOne = games.every(g => g.participants.length === 2);
+
+  // Fewest constraint breaks any 1v1 pairing of this field could achieve
+  let minimumBreaks = 0;
+  if (violating.length > 0 && allOneOnOne && playerIds.length % 2 === 0) {
+    const mate = minCostPerfectMatching(playerIds.length, (i, j) => (breaks(playerIds[i], playerIds[j]) ? 1 : 0));
+    minimumBreaks = mate.filter((j, i) => j > i && breaks(playerIds[i], playerIds[j])).length;
+  }
+
+  for (const [playerA, playerB] of violating) {
+    const violations = describeViolations(playerA.playerId, playerB.playerId, constraints, history);
+
+    const hasAlternative = (id: string, excluded: string) =>
+      playerIds.some(other => other !== id && other !== excluded && !breaks(id, other));
+
+    let reason: string;
+    if (!hasAlternative(playerA.playerId, playerB.playerId)) {
+      reason = `${playerA.playerName} has no other opponent left who satisfies the constraints`;
+    } else if (!hasAlternative(playerB.playerId, playerA.playerId)) {
+      reason = `${playerB.playerName} has no other opponent left who satisfies the constraints`;
+    } else if (!allOneOnOne) {
+      reason = `no pod arrangement avoiding it was found, regenerate or re-pair by hand`;
+    } else if (violating.length > minimumBreaks) {
+      reason = `a pairing with fewer breaks exists (${minimumBreaks}), regenerate or re-pair by hand`;
+    } else {
+      reason = `the remaining players cannot all be paired with fewer than ${minimumBreaks} break${minimumBreaks === 1 ? '' : 's'}`;
     }
-    
-    // Check max rematch
-    const timesPlayed = opponentCounts.get(pairKey) || 0;
-    if (constraints.maxRematchCount && timesPlayed >= constraints.maxRematchCount) {
-      warnings.push(`${playerA.playerName} and ${playerB.playerName} have played ${timesPlayed} times (max: ${constraints.maxRematchCount})`);
+
+    for (const violation of violations) {
+      warnings.push(`${playerA.playerName} and ${playerB.playerName} ${violation}: ${reason}`);
     }
   }
-  
+
+  if (options.byeHistory) {
+    const byeCounts = countByes(options.byeHistory);
+    const fieldIds = pairings.flatMap(p => p.participants.map(pp => pp.playerId));
+
+    for (const pairing of pairings) {
+      if (!pairing.isBye || pairing.participants.length === 0) continue;
+      const player = pairing.participants[0];
+      const previousByes = byeCounts.get(player.playerId) || 0;
+      if (previousByes === 0) continue;
+
+      const withoutBye = fieldIds.filter(id => !byeCounts.get(id));
+      warnings.push(
+        withoutBye.length === 0
+          ? `${player.playerName} receives bye #${previousByes + 1}: every player has already had a bye`
+          : `${player.playerName} receives bye #${previousByes + 1} while ${withoutBye.length} player(s) have not had one`
+      );
+    }
+  }
+
   return {
     valid: warnings.length === 0,
     warnings,
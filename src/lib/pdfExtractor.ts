@@ -3,7 +3,7 @@
 
 import type { DetectedTable, DetectedSection, EnhancedExtractionResult } from "@/types/rules";
 
-interface PDFPage {
+export interface PDFPage {
   pageNumber: number;
   text: string;
   charCount: number;
@@ -28,6 +28,13 @@ interface PdfDocument {
 
 interface PdfPageProxy {
   getTextContent: () => Promise<PdfTextContent>;
+  getViewport: (options: { scale: number }) => PdfViewport;
+  render: (options: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }) => { promise: Promise<void> };
+}
+
+interface PdfViewport {
+  width: number;
+  height: number;
 }
 
 interface PdfTextContent {
@@ -105,13 +112,7 @@ async function loadPdfJsLegacy(): Promise<PdfjsLib> {
   });
 }
 
-/**
- * Extract text from a PDF file
- */
-export async function extractPdfText(
-  file: File,
-  onProgress?: (page: number, total: number) => void
-): Promise<ExtractionResult> {
+async function loadPdfDocument(file: File): Promise<PdfDocument> {
   // Load pdf.js dynamically
   const pdfjsLib = await loadPdfJsLegacy();
   
@@ -120,7 +121,50 @@ export async function extractPdfText(
   
   // Load PDF document
   const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-  const pdf = await loadingTask.promise;
+  return loadingTask.promise;
+}
+
+/**
+ * Render the given pages of a PDF to canvases, one at a time, for OCR.
+ * Each canvas is released once the callback has finished with it.
+ */
+export async function rasterisePdfPages(
+  file: File,
+  pageNumbers: number[],
+  onPage: (pageNumber: number, canvas: HTMLCanvasElement) => Promise<void>,
+  scale = 2
+): Promise<void> {
+  const pdf = await loadPdfDocument(file);
+
+  for (const pageNumber of pageNumbers) {
+    if (pageNumber < 1 || pageNumber > pdf.numPages) continue;
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not available for OCR");
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    try {
+      await onPage(pageNumber, canvas);
+    } finally {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+}
+
+/**
+ * Extract text from a PDF file
+ */
+export async function extractPdfText(
+  file: File,
+  onProgress?: (page: number, total: number) => void
+): Promise<ExtractionResult> {
+  const pdf = await loadPdfDocument(file);
   
   const totalPages = pdf.numPages;
   const pages: PDFPage[] = [];
@@ -203,36 +247,9 @@ export async function extractPdfTextEnhanced(
   const extractionStats = getExtractionStats(baseResult.pages);
 
   for (const page of baseResult.pages) {
-    // Detect dice roll tables
-    const diceRollTables = detectDiceRollTables(page.text, page.pageNumber);
-    detectedTables.push(...diceRollTables);
-
-    // Detect whitespace-aligned tables
-    const whitespaceTables = detectWhitespaceAlignedTables(page.text, page.pageNumber);
-    // Avoid duplicates with dice tables
-    for (const wsTable of whitespaceTables) {
-      const isDuplicate = diceRollTables.some(
-        dt => Math.abs(dt.startLine - wsTable.startLine) < 3
-      );
-      if (!isDuplicate) {
-        detectedTables.push(wsTable);
-      }
-    }
-
-    // Detect pipe tables (existing pattern)
-    const pipeTables = detectPipeTables(page.text, page.pageNumber);
-    for (const pipeTable of pipeTables) {
-      const isDuplicate = detectedTables.some(
-        t => Math.abs(t.startLine - pipeTable.startLine) < 3
-      );
-      if (!isDuplicate) {
-        detectedTables.push(pipeTable);
-      }
-    }
-
-    // Detect sections
-    const pageSections = detectSections(page.text, page.pageNumber);
-    detectedSections.push(...pageSections);
+    const { tables, sections } = detectPageContent(page.text, page.pageNumber);
+    detectedTables.push(...tables);
+    detectedSections.push(...sections);
   }
 
   return {
@@ -247,6 +264,45 @@ export async function extractPdfTextEnhanced(
   };
 }
 
+/**
+ * Detect the tables and section headers on one page of text
+ */
+export function detectPageContent(
+  text: string,
+  pageNumber: number
+): { tables: DetectedTable[]; sections: DetectedSection[] } {
+  const tables: DetectedTable[] = [];
+
+  // Detect dice roll tables
+  const diceRollTables = detectDiceRollTables(text, pageNumber);
+  tables.push(...diceRollTables);
+
+  // Detect whitespace-aligned tables
+  const whitespaceTables = detectWhitespaceAlignedTables(text, pageNumber);
+  // Avoid duplicates with dice tables
+  for (const wsTable of whitespaceTables) {
+    const isDuplicate = diceRollTables.some(
+      dt => Math.abs(dt.startLine - wsTable.startLine) < 3
+    );
+    if (!isDuplicate) {
+      tables.push(wsTable);
+    }
+  }
+
+  // Detect pipe tables (existing pattern)
+  const pipeTables = detectPipeTables(text, pageNumber);
+  for (const pipeTable of pipeTables) {
+    const isDuplicate = tables.some(
+      t => Math.abs(t.startLine - pipeTable.startLine) < 3
+    );
+    if (!isDuplicate) {
+      tables.push(pipeTable);
+    }
+  }
+
+  return { tables, sections: detectSections(text, pageNumber) };
+}
+
 /**
  * Detect D6, D66, 2D6 roll tables with roll ranges
  */
@@ -747,7 +803,7 @@ export function detectSections(text: string, pageNumber: number): DetectedSectio
 /**
  * Clean up extracted PDF text
  */
-function cleanPdfText(text: string): string {
+export function cleanPdfText(text: string): string {
   const normalized = text
     .replace(/[ \t]+/g, " ")
     .replace(/\r/g, "")
@@ -763,7 +819,7 @@ function cleanPdfText(text: string): string {
     .trim();
 }
 
-function mergeSoftLineBreaks(text: string): string {
+export function mergeSoftLineBreaks(text: string): string {
   const lines = text.split("\n");
   const result: string[] = [];
 
@@ -817,6 +873,19 @@ export function shouldUseOcrFallback(pages: PDFPage[]) {
   return highEmptyRatio || lowTextAverage || lowTotal;
 }
 
+/** Pages with less text than this in a scanned PDF are sent to OCR */
+const OCR_PAGE_MIN_CHARS = 45;
+
+/**
+ * Pages to run OCR on: the near-empty pages of a PDF flagged as scanned
+ */
+export function getOcrPageNumbers(pages: PDFPage[]): number[] {
+  if (!shouldUseOcrFallback(pages)) return [];
+  return pages
+    .filter((page) => page.text.trim().length < OCR_PAGE_MIN_CHARS)
+    .map((page) => page.pageNumber);
+}
+
 /**
  * Detect and remove repeated headers/footers
  */
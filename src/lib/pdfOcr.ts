@@ -0,0 +1,138 @@
+// OCR fallback for scanned PDFs using Tesseract.js
+// Recognition runs in Tesseract's own web worker. The worker, its WebAssembly
+// core and the English model are fetched from this app's own assets; the PDF
+// and its page images are never uploaded anywhere.
+
+import { cleanPdfText, rasterisePdfPages, type PDFPage } from "@/lib/pdfExtractor";
+
+export interface OcrWord {
+  text: string;
+  /** 0-100, as reported by Tesseract */
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrLine {
+  words: OcrWord[];
+}
+
+export interface OcrPage extends PDFPage {
+  /** Mean word confidence for the page, 0-100 */
+  confidence: number;
+}
+
+export type OcrConfidenceLevel = "high" | "medium" | "low";
+
+/** A gap this many characters wide between words starts a new table column */
+const COLUMN_GAP_CHARS = 3;
+
+/**
+ * Where the worker, core and language data are served from. The build copies
+ * them out of node_modules (see vite.config.ts), so pages never touch a CDN.
+ * The worker is started from a blob, so the URL has to be absolute.
+ */
+function tesseractAssetsUrl(): string {
+  return new URL(`${import.meta.env.BASE_URL}tesseract/`, window.location.href).href;
+}
+
+/**
+ * Rebuild one recognised line as text. Words separated by a wide gap are
+ * table cells, so lines with three or more of them are written as pipe rows
+ * for the pipe table detector; everything else is plain text.
+ */
+export function layoutOcrLine(words: OcrWord[]): string {
+  const sorted = [...words].filter((w) => w.text.trim()).sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  if (sorted.length === 0) return "";
+
+  const chars = sorted.reduce((acc, w) => acc + w.text.length, 0);
+  const width = sorted.reduce((acc, w) => acc + (w.bbox.x1 - w.bbox.x0), 0);
+  const charWidth = chars > 0 ? width / chars : 0;
+
+  const cells: string[][] = [[sorted[0].text]];
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i].bbox.x0 - sorted[i - 1].bbox.x1;
+    if (charWidth > 0 && gap >= charWidth * COLUMN_GAP_CHARS) {
+      cells.push([sorted[i].text]);
+    } else {
+      cells[cells.length - 1].push(sorted[i].text);
+    }
+  }
+
+  if (cells.length >= 3) {
+    return `| ${cells.map((cell) => cell.join(" ")).join(" | ")} |`;
+  }
+  return cells.map((cell) => cell.join(" ")).join(" ");
+}
+
+/**
+ * Mean word confidence, weighted by word length so stray marks count for little
+ */
+export function ocrPageConfidence(lines: OcrLine[]): number {
+  let weighted = 0;
+  let chars = 0;
+  for (const line of lines) {
+    for (const word of line.words) {
+      const length = word.text.trim().length;
+      weighted += word.confidence * length;
+      chars += length;
+    }
+  }
+  return chars > 0 ? Math.round(weighted / chars) : 0;
+}
+
+export function ocrConfidenceLevel(confidence: number): OcrConfidenceLevel {
+  if (confidence >= 85) return "high";
+  if (confidence >= 65) return "medium";
+  return "low";
+}
+
+/**
+ * Turn recognised lines into page text, cleaned the same way as text pulled
+ * straight from the PDF
+ */
+export function ocrPageText(lines: OcrLine[]): string {
+  return cleanPdfText(lines.map((line) => layoutOcrLine(line.words)).join("\n"));
+}
+
+/**
+ * OCR the given pages of a PDF
+ */
+export async function ocrPdfPages(
+  file: File,
+  pageNumbers: number[],
+  onProgress?: (done: number, total: number) => void
+): Promise<OcrPage[]> {
+  if (pageNumbers.length === 0) return [];
+
+  const { createWorker } = await import("tesseract.js");
+  const assets = tesseractAssetsUrl();
+  const worker = await createWorker("eng", undefined, {
+    workerPath: `${assets}worker.min.js`,
+    corePath: assets,
+    langPath: assets,
+  });
+  const pages: OcrPage[] = [];
+
+  try {
+    await rasterisePdfPages(file, pageNumbers, async (pageNumber, canvas) => {
+      const { data } = await worker.recognize(canvas);
+      const lines = data.lines ?? [];
+      const text = lines.length > 0 ? ocrPageText(lines) : cleanPdfText(data.text);
+
+      pages.push({
+        pageNumber,
+        text,
+        charCount: text.length,
+        confidence: lines.length > 0 ? ocrPageConfidence(lines) : Math.round(data.confidence),
+      });
+
+      if (onProgress) {
+        onProgress(pages.length, pageNumbers.length);
+      }
+    });
+  } finally {
+    await worker.terminate();
+  }
+
+  return pages;
+}
@@ -0,0 +1,119 @@
+/**
+ * Campaign resource ledger: every change to a player's currencies is an
+ * entry with a reason and a source. Balances are never stored; they are the
+ * sum of the entries that haven't been undone.
+ */
+
+export type LedgerSourceType = "battle_report" | "territory_income" | "gm_adjustment" | "warband_purchase";
+
+export interface CampaignCurrency {
+  id: string;
+  campaign_id: string;
+  name: string;
+  color: string | null;
+  order_index: number;
+  receives_income: boolean;
+  pays_for_units: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  campaign_id: string;
+  player_id: string;
+  currency_id: string;
+  amount: number;
+  source_type: LedgerSourceType;
+  source_id: string | null;
+  round_number: number | null;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  undone_at: string | null;
+  undone_by: string | null;
+}
+
+export const LEDGER_SOURCES: Record<LedgerSourceType, string> = {
+  battle_report: "Battle report",
+  territory_income: "Territory income",
+  gm_adjustment: "GM adjustment",
+  warband_purchase: "Warband purchase",
+};
+
+export const DEFAULT_CURRENCIES = ["Gold", "Glory", "Supplies"];
+
+/** Current balance per currency id, ignoring undone entries */
+export function ledgerBalances(entries: Pick<LedgerEntry, "currency_id" | "amount" | "undone_at">[]): Record<string, number> {
+  const balances: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.undone_at) continue;
+    balances[entry.currency_id] = (balances[entry.currency_id] ?? 0) + entry.amount;
+  }
+  return balances;
+}
+
+export interface LedgerHistoryRow<T> {
+  entry: T;
+  /** Balance in the entry's currency once it applied */
+  balance: number;
+}
+
+/**
+ * Entries newest first, each with the running balance of its currency at
+ * that point. Undone entries keep their place but don't move the balance.
+ */
+export function ledgerHistory<T extends Pick<LedgerEntry, "currency_id" | "amount" | "undone_at" | "created_at">>(
+  entries: T[]
+): LedgerHistoryRow<T>[] {
+  const running: Record<string, number> = {};
+  const oldestFirst = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const rows = oldestFirst.map((entry) => {
+    if (!entry.undone_at) {
+      running[entry.currency_id] = (running[entry.currency_id] ?? 0) + entry.amount;
+    }
+    return { entry, balance: running[entry.currency_id] ?? 0 };
+  });
+  return rows.reverse();
+}
+
+interface RosterLine {
+  id: string;
+  unitId?: string;
+  name: string;
+  cost: number;
+  quantity: number;
+}
+
+export interface RosterPurchase {
+  name: string;
+  quantity: number;
+  cost: number;
+}
+
+/**
+ * What a roster save buys: lines that are new, and extra models on lines
+ * that were already there. A line whose unit was swapped counts as new.
+ * Removing units is not a refund. The database's save_warband charges by the
+ * same rule.
+ */
+export function rosterPurchases(before: RosterLine[], after: RosterLine[]): RosterPurchase[] {
+  const previous = new Map(before.map(line => [line.id, line]));
+  const purchases: RosterPurchase[] = [];
+  for (const line of after) {
+    const owned = previous.get(line.id);
+    const added = line.quantity - (owned && owned.unitId === line.unitId ? owned.quantity : 0);
+    if (added > 0 && line.cost > 0) {
+      purchases.push({ name: line.name, quantity: added, cost: line.cost * added });
+    }
+  }
+  return purchases;
+}
+
+/** Ledger lines for the resources recorded on a battle report */
+export function reportLedgerLines(resources: { gained?: number; spent?: number }): { amount: number; reason: string }[] {
+  const lines: { amount: number; reason: string }[] = [];
+  if (resources.gained && resources.gained > 0) lines.push({ amount: resources.gained, reason: "Gained in battle" });
+  if (resources.spent && resources.spent > 0) lines.push({ amount: -resources.spent, reason: "Spent after battle" });
+  return lines;
+}
@@ -0,0 +1,307 @@
+/**
+ * Importing lists built in other tools. Players paste a plain-text army list
+ * or a JSON export (BattleScribe-style rosters or a simple array of units);
+ * each entry is matched to a campaign unit by fuzzy name so the result can be
+ * dropped straight into the warband builder.
+ */
+
+export interface ImportedEntry {
+  name: string;
+  quantity: number;
+  /** Points as written in the list, if it gave any */
+  cost: number | null;
+  equipment: string[];
+}
+
+export interface ParsedList {
+  format: "text" | "battlescribe" | "json";
+  name: string | null;
+  faction: string | null;
+  entries: ImportedEntry[];
+}
+
+export interface ImportableUnit {
+  id: string;
+  name: string;
+  faction: string;
+  base_cost: number;
+  stats: Record<string, unknown>;
+  abilities: unknown[];
+  keywords: unknown[];
+}
+
+export interface ImportedRosterUnit {
+  id: string;
+  unitId: string;
+  name: string;
+  cost: number;
+  faction: string;
+  stats: Record<string, unknown>;
+  abilities: string[];
+  keywords: string[];
+  equipment: string[];
+  quantity: number;
+}
+
+export interface UnitMatch {
+  entry: ImportedEntry;
+  unit: ImportableUnit;
+  /** 1 for an exact (normalised) name match, lower for fuzzy ones */
+  score: number;
+}
+
+/** Matches scoring below this are reported as unmatched */
+export const MATCH_THRESHOLD = 0.75;
+
+export function parseRosterList(input: string): ParsedList {
+  const text = input.trim();
+  if (text.startsWith("{") || text.startsWith("[")) {
+    try {
+      return parseJsonList(JSON.parse(text));
+    } catch {
+      // Not JSON after all; read it as text
+    }
+  }
+  return parseTextList(text);
+}
+
+const META_LINE = /^(total|points|army|faction|detachment|warband|roster|list|game ?system|size|battle size)\b.*[:=]/i;
+const HEADER_LINE = /^(\+{1,2}|={2,}|#{1,}|-{3,}).*$/;
+const POINTS = /[([]\s*(?:[^)\]]*?,\s*)?(\d+)\s*(?:pts?|points|gc|gold crowns|gold)?\s*[)\]]/i;
+const BULLET = /^[•*·◦▪-]\s*/;
+
+function splitEquipment(text: string): string[] {
+  return text
+    .split(/,|;|\band\b/)
+    .map(e => e.replace(/^\s*\d+\s*x\s*/i, "").replace(POINTS, "").trim())
+    .filter(Boolean);
+}
+
+export function parseTextList(text: string): ParsedList {
+  const entries: ImportedEntry[] = [];
+  let name: string | null = null;
+  let faction: string | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    const indented = /^\s+/.test(raw);
+    let line = raw.trim();
+
+    if (META_LINE.test(line)) {
+      const [key, ...rest] = line.split(/[:=]/);
+      const value = rest.join(":").trim();
+      if (/^faction$/i.test(key.trim()) && value) faction = value;
+      if (/^(warband|list|army|roster)$/i.test(key.trim()) && value) name = value;
+      continue;
+    }
+    if (HEADER_LINE.test(line)) continue;
+
+    // Indented or dotted lines under an entry are its wargear
+    const previous = entries[entries.length - 1];
+    if (previous && (indented || /^[•·◦▪]/.test(line))) {
+      previous.equipment.push(...splitEquipment(line.replace(BULLET, "")));
+      continue;
+    }
+    line = line.replace(BULLET, "");
+
+    let cost: number | null = null;
+    const points = line.match(POINTS);
+    if (points) {
+      cost = Number(points[1]);
+      line = line.replace(POINTS, " ").trim();
+    }
+
+    // "Captain: Sword, Shield", "Warrior - Sword" or "Warrior with Sword"
+    const [head, ...gear] = line.split(/\s*:\s*|\s+[-–—]\s+|\s+with\s+/i);
+    let unitName = head;
+    let quantity = 1;
+    const leading = head.match(/^(\d+)\s*(?:x|×)?\s+(.*)$/i);
+    const trailing = head.match(/^(.*?)\s+(?:x|×)\s*(\d+)$/i);
+    if (leading) {
+      quantity = Number(leading[1]);
+      unitName = leading[2];
+    } else if (trailing) {
+      quantity = Number(trailing[2]);
+      unitName = trailing[1];
+    }
+
+    const cleanName = unitName.replace(/[.,;]+$/, "").trim();
+    if (!cleanName || /^\d+$/.test(cleanName)) continue;
+
+    entries.push({
+      name: cleanName,
+      quantity: Math.max(1, quantity),
+      cost,
+      equipment: gear.length > 0 ? splitEquipment(gear.join(", ")) : [],
+    });
+  }
+
+  return { format: "text", name, faction, entries };
+}
+
+interface BattleScribeSelection {
+  name?: string;
+  type?: string;
+  number?: number;
+  costs?: { name?: string; value?: number }[];
+  selections?: BattleScribeSelection[];
+}
+
+interface BattleScribeForce {
+  catalogueName?: string;
+  selections?: BattleScribeSelection[];
+  forces?: BattleScribeForce[];
+}
+
+function selectionCost(selection: BattleScribeSelection): number | null {
+  const points = (selection.costs ?? []).find(c => /^(pts|points)$/i.test(c.name ?? ""));
+  return points?.value != null ? Number(points.value) : null;
+}
+
+function upgradeNames(selections: BattleScribeSelection[] = []): string[] {
+  return selections.flatMap(s => [
+    ...(s.type === "upgrade" && s.name ? [s.name] : []),
+    ...upgradeNames(s.selections),
+  ]);
+}
+
+function forceEntries(force: BattleScribeForce): ImportedEntry[] {
+  const own = (force.selections ?? [])
+    .filter(s => s.name && (s.type === "unit" || s.type === "model"))
+    .map(s => ({
+      name: s.name!,
+      quantity: s.type === "model" ? Math.max(1, Number(s.number) || 1) : 1,
+      cost: selectionCost(s),
+      equipment: [...new Set(upgradeNames(s.selections))],
+    }));
+  return [...own, ...(force.forces ?? []).flatMap(forceEntries)];
+}
+
+function pickNumber(record: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const value = Number(record[key]);
+    if (record[key] != null && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+export function parseJsonList(data: unknown): ParsedList {
+  const root = (data && typeof data === "object" && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+  const roster = (root.roster ?? root) as Record<string, unknown>;
+
+  if (Array.isArray(roster.forces)) {
+    const forces = roster.forces as BattleScribeForce[];
+    return {
+      format: "battlescribe",
+      name: typeof roster.name === "string" ? roster.name : null,
+      faction: forces[0]?.catalogueName ?? null,
+      entries: forces.flatMap(forceEntries),
+    };
+  }
+
+  // A plain array of units, or an object holding one
+  const list = Array.isArray(data) ? data : Array.isArray(root.units) ? root.units : Array.isArray(root.roster) ? root.roster : [];
+  const entries = (list as unknown[])
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    .filter(item => typeof item.name === "string" && item.name.trim())
+    .map(item => ({
+      name: String(item.name).trim(),
+      quantity: Math.max(1, pickNumber(item, ["quantity", "count", "number", "qty"]) ?? 1),
+      cost: pickNumber(item, ["cost", "points", "pts"]),
+      equipment: Array.isArray(item.equipment)
+        ? item.equipment.map(e => typeof e === "string" ? e : String((e as Record<string, unknown>)?.name ?? "")).filter(Boolean)
+        : [],
+    }));
+
+  return {
+    format: "json",
+    name: typeof root.name === "string" ? root.name : null,
+    faction: typeof root.faction === "string" ? root.faction : null,
+    entries,
+  };
+}
+
+export function normalizeUnitName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map(word => word.length > 3 && word.endsWith("ies") ? word.slice(0, -3) + "y"
+      : word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1)
+      : word)
+    .join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** How alike two unit names are, from 0 to 1 */
+export function nameSimilarity(a: string, b: string): number {
+  const x = normalizeUnitName(a);
+  const y = normalizeUnitName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const longest = Math.max(x.length, y.length);
+  // "Reikland Captain" for "Captain": one name wholly inside the other
+  if (x.includes(y) || y.includes(x)) return 0.8 + 0.15 * (Math.min(x.length, y.length) / longest);
+  return 1 - editDistance(x, y) / longest;
+}
+
+export function matchUnit<T extends ImportableUnit>(
+  name: string,
+  units: T[],
+  preferFaction?: string | null
+): { unit: T; score: number } | null {
+  let best: { unit: T; score: number } | null = null;
+  for (const unit of units) {
+    let score = nameSimilarity(name, unit.name);
+    // Break ties in favour of the warband's own faction
+    if (preferFaction && unit.faction === preferFaction) score += 0.001;
+    if (!best || score > best.score) best = { unit, score };
+  }
+  return best && best.score >= MATCH_THRESHOLD ? { unit: best.unit, score: Math.min(1, best.score) } : null;
+}
+
+export function matchEntries(
+  entries: ImportedEntry[],
+  units: ImportableUnit[],
+  preferFaction?: string | null
+): { matches: UnitMatch[]; unmatched: ImportedEntry[] } {
+  const matches: UnitMatch[] = [];
+  const unmatched: ImportedEntry[] = [];
+  for (const entry of entries) {
+    const match = matchUnit(entry.name, units, preferFaction);
+    if (match) matches.push({ entry, ...match });
+    else unmatched.push(entry);
+  }
+  return { matches, unmatched };
+}
+
+/** Roster lines for the matched entries, costed from the campaign's units */
+export function toRosterUnits(matches: UnitMatch[]): ImportedRosterUnit[] {
+  return matches.map(({ entry, unit }) => ({
+    id: crypto.randomUUID(),
+    unitId: unit.id,
+    name: unit.name,
+    cost: unit.base_cost,
+    faction: unit.faction,
+    stats: unit.stats,
+    abilities: (unit.abilities as string[]) || [],
+    keywords: (unit.keywords as string[]) || [],
+    equipment: entry.equipment,
+    quantity: entry.quantity,
+  }));
+}
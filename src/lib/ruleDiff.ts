@@ -0,0 +1,133 @@
+/**
+ * Side-by-side diffs of rule content for the revision history.
+ * Table rows and card sections are matched by id, so an edited row lines up
+ * with its earlier self instead of showing as a removal plus an addition.
+ */
+
+export type DiffStatus = "same" | "added" | "removed" | "changed";
+
+type TableRow = { id?: string; [key: string]: unknown };
+type CardSection = { id?: string; header?: unknown; content?: unknown };
+type AnyContent = { type?: string; title?: string; columns?: string[]; rows?: TableRow[]; sections?: CardSection[] };
+
+export interface TableRowDiff {
+  status: DiffStatus;
+  before: TableRow | null;
+  after: TableRow | null;
+  /** Columns whose value differs (changed rows only) */
+  changedColumns: string[];
+}
+
+export interface CardSectionDiff {
+  status: DiffStatus;
+  before: CardSection | null;
+  after: CardSection | null;
+  headerChanged: boolean;
+  contentChanged: boolean;
+}
+
+export type RuleContentDiff =
+  | { type: "table"; columns: string[]; addedColumns: string[]; removedColumns: string[]; rows: TableRowDiff[] }
+  | { type: "card"; titleChanged: boolean; sections: CardSectionDiff[] }
+  /** The rule switched between table and card; nothing lines up */
+  | { type: "replaced" };
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Pair up items by id, keeping the order of `after` and slotting removed items
+ * in after whatever preceded them before.
+ */
+function alignById<T extends { id?: string }>(before: T[], after: T[]): Array<[T | null, T | null]> {
+  const keyOf = (item: T, index: number) => item.id ?? `#${index}`;
+  const afterKeys = new Set(after.map(keyOf));
+  const beforeByKey = new Map(before.map((item, index) => [keyOf(item, index), item]));
+
+  const pairs: Array<[T | null, T | null]> = after.map((item, index) => [beforeByKey.get(keyOf(item, index)) ?? null, item]);
+
+  before.forEach((item, index) => {
+    const key = keyOf(item, index);
+    if (afterKeys.has(key)) return;
+
+    // Insert just after the nearest earlier neighbour that survived
+    let at = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const neighbour = before[i];
+      const found = pairs.findIndex(([b]) => b === neighbour);
+      if (found !== -1) {
+        at = found + 1;
+        break;
+      }
+    }
+    pairs.splice(at, 0, [item, null]);
+  });
+
+  return pairs;
+}
+
+function diffTable(
+  before: { columns?: string[]; rows?: TableRow[] },
+  after: { columns?: string[]; rows?: TableRow[] }
+): RuleContentDiff {
+  const beforeColumns = before.columns ?? [];
+  const afterColumns = after.columns ?? [];
+  const columns = [...afterColumns, ...beforeColumns.filter((c) => !afterColumns.includes(c))];
+
+  const rows = alignById(before.rows ?? [], after.rows ?? []).map(([b, a]): TableRowDiff => {
+    if (!b) return { status: "added", before: null, after: a, changedColumns: [] };
+    if (!a) return { status: "removed", before: b, after: null, changedColumns: [] };
+    const changedColumns = columns.filter((column) => text(b[column]) !== text(a[column]));
+    return { status: changedColumns.length ? "changed" : "same", before: b, after: a, changedColumns };
+  });
+
+  return {
+    type: "table",
+    columns,
+    addedColumns: afterColumns.filter((c) => !beforeColumns.includes(c)),
+    removedColumns: beforeColumns.filter((c) => !afterColumns.includes(c)),
+    rows,
+  };
+}
+
+function diffCard(
+  before: { title?: string; sections?: CardSection[] },
+  after: { title?: string; sections?: CardSection[] }
+): RuleContentDiff {
+  const sections = alignById(before.sections ?? [], after.sections ?? []).map(([b, a]): CardSectionDiff => {
+    if (!b) return { status: "added", before: null, after: a, headerChanged: false, contentChanged: false };
+    if (!a) return { status: "removed", before: b, after: null, headerChanged: false, contentChanged: false };
+    const headerChanged = text(b.header) !== text(a.header);
+    const contentChanged = text(b.content) !== text(a.content);
+    return {
+      status: headerChanged || contentChanged ? "changed" : "same",
+      before: b,
+      after: a,
+      headerChanged,
+      contentChanged,
+    };
+  });
+
+  return { type: "card", titleChanged: text(before.title) !== text(after.title), sections };
+}
+
+export function diffRuleContent(before: unknown, after: unknown): RuleContentDiff {
+  const b = (before ?? {}) as AnyContent;
+  const a = (after ?? {}) as AnyContent;
+
+  if (b.type === "table" && a.type === "table") return diffTable(b, a);
+  if (b.type === "card" && a.type === "card") return diffCard(b, a);
+  return { type: "replaced" };
+}
+
+/** Counts for a one-line summary of a diff */
+export function summarizeRuleDiff(diff: RuleContentDiff): { added: number; removed: number; changed: number } {
+  if (diff.type === "replaced") return { added: 0, removed: 0, changed: 1 };
+  const items: Array<{ status: DiffStatus }> = diff.type === "table" ? diff.rows : diff.sections;
+  return {
+    added: items.filter((i) => i.status === "added").length,
+    removed: items.filter((i) => i.status === "removed").length,
+    changed: items.filter((i) => i.status === "changed").length,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Rulebook ingestion: turns the pages of an uploaded PDF into review items,
+ * the sections and tables a GM can promote into campaign rules. Items are
+ * kept on the extraction job (`extraction_jobs.detected_sections`) until
+ * they are promoted or dismissed.
+ */
+
+import { detectPageContent, removeHeadersFooters, type PDFPage } from "@/lib/pdfExtractor";
+import type { DetectedSection } from "@/types/rules";
+import type { RuleContent } from "@/hooks/useWargameRules";
+import { ocrConfidenceLevel } from "@/lib/pdfOcr";
+
+export type ReviewItemKind = "section" | "table";
+export type ReviewItemStatus = "pending" | "promoted" | "dismissed";
+
+export interface ReviewItem {
+  id: string;
+  kind: ReviewItemKind;
+  title: string;
+  pageNumber: number;
+  confidence: "high" | "medium" | "low";
+  /** Section body, or the table's raw text */
+  text: string;
+  columns?: string[];
+  rows?: string[][];
+  status: ReviewItemStatus;
+  /** Confidence (0-100) of the OCR that read its page; unset for text pages */
+  ocrConfidence?: number | null;
+  /** The wargame_rules row it was promoted into */
+  ruleId?: string | null;
+}
+
+export type ExtractionJobStatus = "pending" | "processing" | "review" | "completed" | "failed";
+
+/** Longest section body kept; anything longer is cut at a paragraph */
+const MAX_SECTION_CHARS = 6000;
+
+interface PageSection {
+  section: DetectedSection;
+  body: string;
+}
+
+/**
+ * The text under each section header, up to the next header. A section
+ * running off the end of a page continues onto the following pages.
+ */
+export function sectionBodies(pages: PDFPage[], sections: DetectedSection[]): PageSection[] {
+  const pageLines = new Map(pages.map(p => [p.pageNumber, p.text.split("\n")]));
+  const ordered = [...sections].sort((a, b) => a.pageNumber - b.pageNumber || a.lineNumber - b.lineNumber);
+
+  return ordered.map((section, i) => {
+    const next = ordered[i + 1];
+    const parts: string[] = [];
+    for (const page of pages) {
+      if (page.pageNumber < section.pageNumber) continue;
+      if (next && page.pageNumber > next.pageNumber) break;
+      const lines = pageLines.get(page.pageNumber) ?? [];
+      const start = page.pageNumber === section.pageNumber ? section.lineNumber + 1 : 0;
+      const end = next && page.pageNumber === next.pageNumber ? next.lineNumber : lines.length;
+      parts.push(...lines.slice(start, end));
+    }
+
+    let body = parts.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    if (body.length > MAX_SECTION_CHARS) {
+      const cut = body.lastIndexOf("\n\n", MAX_SECTION_CHARS);
+      body = body.slice(0, cut > 0 ? cut : MAX_SECTION_CHARS).trim();
+    }
+    return { section, body };
+  });
+}
+
+const CONFIDENCE_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+/** An item read by OCR is never more certain than the OCR itself */
+function withOcrConfidence<T extends Pick<ReviewItem, "confidence" | "pageNumber">>(
+  item: T,
+  ocrConfidence: Record<number, number>
+): T & { ocrConfidence?: number } {
+  const confidence = ocrConfidence[item.pageNumber];
+  if (confidence == null) return item;
+  const level = ocrConfidenceLevel(confidence);
+  return {
+    ...item,
+    ocrConfidence: confidence,
+    confidence: CONFIDENCE_RANK[level] < CONFIDENCE_RANK[item.confidence] ? level : item.confidence,
+  };
+}
+
+/**
+ * Detect the sections and tables in a rulebook's pages, ready for review.
+ * `ocrConfidence` holds the OCR score of each page that was read by OCR.
+ */
+export function buildReviewItems(rawPages: PDFPage[], ocrConfidence: Record<number, number> = {}): ReviewItem[] {
+  const pages = removeHeadersFooters(rawPages);
+  const items: (ReviewItem & { line: number })[] = [];
+  const sections: DetectedSection[] = [];
+
+  for (const page of pages) {
+    const detected = detectPageContent(page.text, page.pageNumber);
+    sections.push(...detected.sections);
+    for (const table of detected.tables) {
+      items.push({
+        id: crypto.randomUUID(),
+        kind: "table",
+        title: table.title,
+        pageNumber: table.pageNumber,
+        confidence: table.confidence,
+        text: table.rawText,
+        columns: table.columns,
+        rows: table.rows,
+        status: "pending",
+        line: table.startLine,
+      });
+    }
+  }
+
+  for (const { section, body } of sectionBodies(pages, sections)) {
+    // A header straight after another header has nothing of its own to keep
+    if (!body) continue;
+    items.push({
+      id: crypto.randomUUID(),
+      kind: "section",
+      title: section.title,
+      pageNumber: section.pageNumber,
+      confidence: section.type === "chapter" ? "high" : section.level <= 2 ? "medium" : "low",
+      text: body,
+      status: "pending",
+      line: section.lineNumber,
+    });
+  }
+
+  return items
+    .sort((a, b) => a.pageNumber - b.pageNumber || a.line - b.line)
+    .map(({ line: _line, ...item }) => withOcrConfidence(item, ocrConfidence));
+}
+
+export function parseReviewItems(raw: unknown): ReviewItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((item): item is ReviewItem =>
+    !!item && typeof item === "object" && typeof (item as ReviewItem).id === "string" &&
+    ((item as ReviewItem).kind === "section" || (item as ReviewItem).kind === "table")
+  );
+}
+
+/** Rule content for a review item: tables become table rules, sections cards */
+export function reviewItemContent(item: ReviewItem): RuleContent {
+  if (item.kind === "table") {
+    const width = Math.max(item.columns?.length ?? 0, ...(item.rows ?? []).map(r => r.length));
+    const columns = Array.from({ length: width }, (_, i) => item.columns?.[i]?.trim() || `Column ${i + 1}`);
+    return {
+      type: "table",
+      columns,
+      rows: (item.rows ?? []).map(cells => {
+        const row: { id: string; [key: string]: string } = { id: crypto.randomUUID() };
+        columns.forEach((column, i) => {
+          row[column] = cells[i] ?? "";
+        });
+        return row;
+      }),
+      rawText: item.text,
+    };
+  }
+
+  return {
+    type: "card",
+    title: item.title,
+    sections: item.text
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph, i) => ({ id: crypto.randomUUID(), header: i === 0 ? item.title : "", content: paragraph })),
+    rawText: item.text,
+  };
+}
+
+/** Tally of a job's items by status, for progress badges */
+export function reviewSummary(items: ReviewItem[]): Record<ReviewItemStatus, number> {
+  const summary: Record<ReviewItemStatus, number> = { pending: 0, promoted: 0, dismissed: 0 };
+  for (const item of items) summary[item.status] += 1;
+  return summary;
+}
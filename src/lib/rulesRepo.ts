@@ -0,0 +1,2 @@
+// Lives with the edge functions so fetch-rules-repo can import it under Deno
+export * from "../../supabase/functions/_shared/rulesRepo";
@@ -0,0 +1,243 @@
+import type { BattleMatch, BattleRound, MatchResult } from "@/hooks/useBattleTracker";
+import type { CampaignPlayer } from "@/hooks/useCampaignPlayers";
+
+export interface StandingsPlayer {
+  id: string;
+  name: string;
+}
+
+export interface StandingsRow {
+  playerId: string;
+  playerName: string;
+  rank: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  /** Average campaign points of every opponent faced (one entry per game) */
+  strengthOfSchedule: number;
+  /** Average win rate of every opponent faced, draws counting as half a win */
+  opponentsWinRate: number;
+  /** Points earned against other players on the same points/SoS/OWR; 0 when untied */
+  headToHead: number;
+}
+
+interface PlayerTally {
+  playerId: string;
+  playerName: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  opponents: string[];
+}
+
+interface ScoredGame {
+  playerId: string;
+  opponentIds: string[];
+  points: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * A match counts towards standings once it has final (approved) results.
+ * Byes have no results to approve, so they count as soon as their round is open.
+ */
+function isCountedMatch(match: BattleMatch, round: BattleRound): boolean {
+  if (match.is_bye) return round.status !== 'draft';
+  return match.status === 'approved' && Object.keys(match.final_results).length > 0;
+}
+
+/**
+ * Placement points take over from win/draw/loss when the round defines them
+ * and the result records a finishing position.
+ */
+function scoreResult(result: MatchResult, round: BattleRound): number {
+  const placementPoints = round.scoring_config.placementPoints;
+  if (result.placement && placementPoints?.length) {
+    return placementPoints[result.placement - 1] ?? 0;
+  }
+  return round.scoring_config[result.outcome] ?? 0;
+}
+
+/**
+ * Points awarded for a bye. Byes score as a win, using the round's
+ * byeScoring table when the GM configured one.
+ */
+function scoreBye(round: BattleRound): number {
+  return round.constraints_config.byeScoring?.win ?? round.scoring_config.win ?? 0;
+}
+
+function winRate(tally: PlayerTally): number {
+  if (tally.played === 0) return 0;
+  return (tally.wins + tally.draws / 2) / tally.played;
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) < EPSILON;
+}
+
+/**
+ * Fold approved match results across every round into ranked standings.
+ *
+ * Each round is scored with its own ScoringConfig, so changing win/draw/loss
+ * points mid-campaign only affects the rounds it was changed on.
+ * Ranking order: points, strength of schedule, opponents' win rate, then
+ * head-to-head points among the players still tied. Players tied on all four
+ * share a rank.
+ */
+export function computeStandings(
+  rounds: BattleRound[],
+  matches: BattleMatch[],
+  players: StandingsPlayer[] = []
+): StandingsRow[] {
+  const roundsById = new Map(rounds.map(r => [r.id, r]));
+  const tallies = new Map<string, PlayerTally>();
+  const games: ScoredGame[] = [];
+
+  const getTally = (playerId: string, playerName: string): PlayerTally => {
+    let tally = tallies.get(playerId);
+    if (!tally) {
+      tally = { playerId, playerName, played: 0, wins: 0, draws: 0, losses: 0, byes: 0, points: 0, opponents: [] };
+      tallies.set(playerId, tally);
+    }
+    return tally;
+  };
+
+  // Seed with the current roster so players without games still appear
+  for (const player of players) {
+    getTally(player.id, player.name);
+  }
+
+  for (const match of matches) {
+    const round = roundsById.get(match.round_id);
+    if (!round || !isCountedMatch(match, round)) continue;
+
+    if (match.is_bye) {
+      for (const participant of match.participants) {
+        const tally = getTally(participant.playerId, participant.playerName);
+        tally.byes += 1;
+        tally.points += scoreBye(round);
+      }
+      continue;
+    }
+
+    for (const participant of match.participants) {
+      const result = match.final_results[participant.playerId];
+      if (!result) continue;
+
+      const tally = getTally(participant.playerId, participant.playerName);
+      const points = scoreResult(result, round);
+      // Teammates share a side; everyone on another side is an opponent
+      const opponentIds = match.participants
+        .filter(p => p.playerId !== participant.playerId && p.side !== participant.side)
+        .map(p => p.playerId);
+
+      tally.played += 1;
+      tally.points += points;
+      if (result.outcome === 'win') tally.wins += 1;
+      else if (result.outcome === 'draw') tally.draws += 1;
+      else tally.losses += 1;
+      tally.opponents.push(...opponentIds);
+
+      games.push({ playerId: participant.playerId, opponentIds, points });
+    }
+  }
+
+  const rows: StandingsRow[] = Array.from(tallies.values()).map(tally => {
+    const opponents = tally.opponents
+      .map(id => tallies.get(id))
+      .filter((t): t is PlayerTally => !!t);
+
+    return {
+      playerId: tally.playerId,
+      playerName: tally.playerName,
+      rank: 0,
+      played: tally.played,
+      wins: tally.wins,
+      draws: tally.draws,
+      losses: tally.losses,
+      byes: tally.byes,
+      points: tally.points,
+      strengthOfSchedule: average(opponents.map(o => o.points)),
+      opponentsWinRate: average(opponents.map(winRate)),
+      headToHead: 0,
+    };
+  });
+
+  const compareTiebreakers = (a: StandingsRow, b: StandingsRow): number => {
+    if (!nearlyEqual(a.points, b.points)) return b.points - a.points;
+    if (!nearlyEqual(a.strengthOfSchedule, b.strengthOfSchedule)) return b.strengthOfSchedule - a.strengthOfSchedule;
+    if (!nearlyEqual(a.opponentsWinRate, b.opponentsWinRate)) return b.opponentsWinRate - a.opponentsWinRate;
+    return 0;
+  };
+
+  rows.sort(compareTiebreakers);
+
+  // Head-to-head only applies within groups still tied after the other tiebreakers
+  const ranked: StandingsRow[] = [];
+  let groupStart = 0;
+  while (groupStart < rows.length) {
+    let groupEnd = groupStart + 1;
+    while (groupEnd < rows.length && compareTiebreakers(rows[groupStart], rows[groupEnd]) === 0) {
+      groupEnd++;
+    }
+
+    const group = rows.slice(groupStart, groupEnd);
+    if (group.length > 1) {
+      const groupIds = new Set(group.map(r => r.playerId));
+      for (const row of group) {
+        row.headToHead = games
+          .filter(g => g.playerId === row.playerId && g.opponentIds.some(id => groupIds.has(id)))
+          .reduce((sum, g) => sum + g.points, 0);
+      }
+      group.sort((a, b) => b.headToHead - a.headToHead || a.playerName.localeCompare(b.playerName));
+    }
+
+    ranked.push(...group);
+    groupStart = groupEnd;
+  }
+
+  ranked.forEach((row, i) => {
+    const prev = ranked[i - 1];
+    row.rank = prev && compareTiebreakers(prev, row) === 0 && prev.headToHead === row.headToHead
+      ? prev.rank
+      : i + 1;
+  });
+
+  return ranked;
+}
+
+/**
+ * The roster that seeds the table. Only players get a row up front; the owner,
+ * GMs, Co-GMs and moderators appear only once they have a counted game.
+ */
+export function standingsRoster(players: Pick<CampaignPlayer, 'user_id' | 'role' | 'profile'>[]): StandingsPlayer[] {
+  return players
+    .filter(p => p.role === 'player')
+    .map(p => ({ id: p.user_id, name: p.profile?.display_name || 'Unknown' }));
+}
+
+/**
+ * Build match results from finishing positions (1 = first). A sole first
+ * place is a win, a shared first place a draw, and every other place a loss.
+ */
+export function resultsFromPlacements(placements: Record<string, number>): Record<string, MatchResult> {
+  const firstPlaces = Object.values(placements).filter(p => p === 1).length;
+  const results: Record<string, MatchResult> = {};
+  for (const [playerId, placement] of Object.entries(placements)) {
+    const outcome: MatchResult['outcome'] = placement !== 1 ? 'loss' : firstPlaces > 1 ? 'draw' : 'win';
+    results[playerId] = { outcome, points: 0, placement };
+  }
+  return results;
+}
@@ -0,0 +1,174 @@
+/**
+ * Geometry and bookkeeping for map territories. Points are percentages of the
+ * map image (0-100 on both axes), the same space marker positions use.
+ */
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+interface TerritoryLike {
+  id: string;
+  points: MapPoint[];
+  owner_player_id: string | null;
+  value: number;
+}
+
+/** Read stored points, dropping anything that isn't a finite x/y pair */
+export function parseTerritoryPoints(raw: unknown): MapPoint[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((p): p is MapPoint =>
+      typeof p === "object" && p !== null && Number.isFinite((p as MapPoint).x) && Number.isFinite((p as MapPoint).y))
+    .map((p) => ({ x: p.x, y: p.y }));
+}
+
+/** Signed shoelace area; positive when the points run clockwise on screen */
+function signedArea(points: MapPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+export function polygonArea(points: MapPoint[]): number {
+  return Math.abs(signedArea(points));
+}
+
+/** Where to put a territory's label; falls back to the vertex average for slivers */
+export function polygonCentroid(points: MapPoint[]): MapPoint {
+  if (points.length === 0) return { x: 50, y: 50 };
+
+  const area = signedArea(points);
+  if (Math.abs(area) < 1e-6) {
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  }
+
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+export function pointInPolygon(point: MapPoint, polygon: MapPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function distanceToSegment(p: MapPoint, a: MapPoint, b: MapPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function nearOutline(point: MapPoint, polygon: MapPoint[], tolerance: number): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    if (distanceToSegment(point, polygon[i], polygon[(i + 1) % polygon.length]) <= tolerance) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether two hand-drawn territories share a border. Outlines drawn by eye
+ * rarely meet exactly, so vertices within `tolerance` of the other outline
+ * count as touching; it takes two such spots apart from each other to make a
+ * shared edge rather than corners meeting at a point.
+ */
+export function territoriesTouch(a: MapPoint[], b: MapPoint[], tolerance = 1.5): boolean {
+  if (a.length < 3 || b.length < 3) return false;
+  const touching = [...a.filter((p) => nearOutline(p, b, tolerance)), ...b.filter((p) => nearOutline(p, a, tolerance))];
+  return touching.some((p, i) => touching.slice(i + 1).some((q) => Math.hypot(p.x - q.x, p.y - q.y) > tolerance));
+}
+
+/** Store each adjacency once, lower id first, matching the table's check */
+export function orderedTerritoryPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/** Pairs of territories that look adjacent, for the GM to confirm */
+export function suggestAdjacency(territories: Pick<TerritoryLike, "id" | "points">[], tolerance = 1.5): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (let i = 0; i < territories.length; i++) {
+    for (let j = i + 1; j < territories.length; j++) {
+      if (territoriesTouch(territories[i].points, territories[j].points, tolerance)) {
+        pairs.push(orderedTerritoryPair(territories[i].id, territories[j].id));
+      }
+    }
+  }
+  return pairs;
+}
+
+export function buildAdjacency(links: Array<{ territory_a: string; territory_b: string }>): Map<string, Set<string>> {
+  const adjacency = new Map<string, Set<string>>();
+  const add = (from: string, to: string) => {
+    if (!adjacency.has(from)) adjacency.set(from, new Set());
+    adjacency.get(from)!.add(to);
+  };
+  for (const link of links) {
+    add(link.territory_a, link.territory_b);
+    add(link.territory_b, link.territory_a);
+  }
+  return adjacency;
+}
+
+export interface TerritoryControl {
+  /** campaign_players.id, or null for unclaimed territory */
+  ownerId: string | null;
+  count: number;
+  value: number;
+}
+
+/** Territories and total value held by each owner, largest holding first */
+export function summarizeTerritoryControl(territories: Pick<TerritoryLike, "owner_player_id" | "value">[]): TerritoryControl[] {
+  const byOwner = new Map<string | null, TerritoryControl>();
+  for (const territory of territories) {
+    const ownerId = territory.owner_player_id ?? null;
+    const entry = byOwner.get(ownerId) ?? { ownerId, count: 0, value: 0 };
+    entry.count++;
+    entry.value += territory.value || 0;
+    byOwner.set(ownerId, entry);
+  }
+  return [...byOwner.values()].sort((a, b) => {
+    // Unclaimed always last
+    if (a.ownerId === null) return 1;
+    if (b.ownerId === null) return -1;
+    return b.count - a.count || b.value - a.value;
+  });
+}
+
+const OWNER_PALETTE = [
+  "#ef4444", "#3b82f6", "#22c55e", "#eab308", "#a855f7", "#f97316",
+  "#06b6d4", "#ec4899", "#84cc16", "#6366f1", "#14b8a6", "#f43f5e",
+];
+
+export const UNCLAIMED_COLOR = "#9ca3af";
+
+/**
+ * Give each player a faction colour for the ownership overlay. Players are
+ * coloured in join order so the colours don't shuffle between views.
+ */
+export function territoryOwnerColors(playerIds: string[]): Record<string, string> {
+  return Object.fromEntries(playerIds.map((id, index) => [id, OWNER_PALETTE[index % OWNER_PALETTE.length]]));
+}
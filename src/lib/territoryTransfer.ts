@@ -0,0 +1,72 @@
+import type { MatchParticipant, MatchResult } from "@/hooks/useBattleTracker";
+import { groupParticipantsBySide } from "@/lib/pairingAlgorithms";
+
+/** How an approved battle over a territory changes who holds it */
+export interface TerritoryRules {
+  /**
+   * Who can take the territory: whichever side wins, only the attacking side
+   * (a defender's win changes nothing), or nobody.
+   */
+  transfer: "winner" | "attacker" | "off";
+  /** A draw either leaves the holder in place or knocks the territory back to unclaimed */
+  onDraw: "keep" | "unclaim";
+}
+
+export const DEFAULT_TERRITORY_RULES: TerritoryRules = {
+  transfer: "winner",
+  onDraw: "keep",
+};
+
+export interface TerritoryTransfer {
+  /** Participant playerId of the previous holder, null if unclaimed */
+  fromPlayerId: string | null;
+  /** Participant playerId of the new holder, null if the territory becomes unclaimed */
+  toPlayerId: string | null;
+  reason: "captured" | "draw";
+}
+
+interface ResolveTransferInput {
+  participants: MatchParticipant[];
+  results: Record<string, MatchResult>;
+  /** Side that declared the attack; without one, any winner counts as attacking */
+  attackerSide?: MatchParticipant["side"] | null;
+  /** User id of whoever holds the territory now (in the battle or not), null if unclaimed */
+  currentOwnerId: string | null;
+  rules?: Partial<TerritoryRules>;
+}
+
+/**
+ * Work out whether a territory changes hands after a battle. Returns null
+ * when the holder stays the same.
+ */
+export function resolveTerritoryTransfer({
+  participants,
+  results,
+  attackerSide,
+  currentOwnerId,
+  rules: partialRules,
+}: ResolveTransferInput): TerritoryTransfer | null {
+  const rules = { ...DEFAULT_TERRITORY_RULES, ...partialRules };
+  if (rules.transfer === "off" || participants.length < 2) return null;
+
+  const winningSide = groupParticipantsBySide(participants).find((side) =>
+    side.some((p) => results[p.playerId]?.outcome === "win")
+  );
+
+  if (!winningSide) {
+    if (rules.onDraw === "unclaim" && currentOwnerId !== null) {
+      return { fromPlayerId: currentOwnerId, toPlayerId: null, reason: "draw" };
+    }
+    return null;
+  }
+
+  if (rules.transfer === "attacker" && attackerSide && winningSide[0].side !== attackerSide) {
+    return null;
+  }
+
+  // The holder fought on the winning side and keeps it
+  if (currentOwnerId && winningSide.some((p) => p.playerId === currentOwnerId)) return null;
+
+  const newOwner = winningSide.find((p) => results[p.playerId]?.outcome === "win") ?? winningSide[0];
+  return { fromPlayerId: currentOwnerId, toPlayerId: newOwner.playerId, reason: "captured" };
+}
@@ -0,0 +1,120 @@
+/**
+ * Campaign turn engine: each round runs through the campaign's phases in
+ * order, and the GM advances one phase at a time. The database function
+ * advance_campaign_phase does the advancing; these helpers describe the same
+ * rules for the UI (what "Advance" will do, when a phase is due).
+ */
+
+export type PhaseType = "orders" | "movement" | "battles" | "upkeep" | "other";
+
+export type UpkeepStep = "territory_income" | "battle_round";
+
+export interface CampaignPhase {
+  id: string;
+  campaign_id: string;
+  name: string;
+  phase_type: PhaseType;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export const PHASE_TYPES: { type: PhaseType; label: string; description: string }[] = [
+  { type: "orders", label: "Orders", description: "Players write orders, hidden until the phase ends" },
+  { type: "movement", label: "Movement", description: "Warbands move on the campaign map" },
+  { type: "battles", label: "Battles", description: "Matches are played and reported" },
+  { type: "upkeep", label: "Upkeep", description: "Income, recovery and bookkeeping" },
+  { type: "other", label: "Other", description: "Anything else the campaign needs" },
+];
+
+export const UPKEEP_STEPS: { step: UpkeepStep; label: string; description: string }[] = [
+  {
+    step: "territory_income",
+    label: "Territory income",
+    description: "Each player is paid the value of the territories they hold, in the income currency or as points",
+  },
+  {
+    step: "battle_round",
+    label: "Create battle round",
+    description: "A draft battle round is added for the new round, ready for pairings",
+  },
+];
+
+export const DEFAULT_PHASES: { name: string; phase_type: PhaseType }[] = [
+  { name: "Orders", phase_type: "orders" },
+  { name: "Movement", phase_type: "movement" },
+  { name: "Battles", phase_type: "battles" },
+  { name: "Upkeep", phase_type: "upkeep" },
+];
+
+/** Phases in play order; ties on order_index fall back to id, as on the server */
+export function sortPhases<T extends Pick<CampaignPhase, "id" | "order_index">>(phases: T[]): T[] {
+  return [...phases].sort((a, b) => a.order_index - b.order_index || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+export interface TurnPosition {
+  round: number;
+  phaseId: string | null;
+}
+
+export interface TurnAdvance extends TurnPosition {
+  /** Advancing ends the round, so upkeep runs */
+  newRound: boolean;
+}
+
+/**
+ * Where advancing from a position leads. A round that hasn't started its
+ * first phase starts it; the last phase rolls over into the next round's
+ * first. Without phases every advance is a new round.
+ */
+export function nextTurnPosition(phases: CampaignPhase[], position: TurnPosition): TurnAdvance {
+  const ordered = sortPhases(phases);
+  const first = ordered[0]?.id ?? null;
+
+  if (!position.phaseId || !ordered.some(p => p.id === position.phaseId)) {
+    return first
+      ? { round: position.round, phaseId: first, newRound: false }
+      : { round: position.round + 1, phaseId: null, newRound: true };
+  }
+
+  const index = ordered.findIndex(p => p.id === position.phaseId);
+  const next = ordered[index + 1];
+  return next
+    ? { round: position.round, phaseId: next.id, newRound: false }
+    : { round: position.round + 1, phaseId: first, newRound: true };
+}
+
+interface DeadlineEntry {
+  round_number: number;
+  phase_id: string | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+/**
+ * A phase's deadline in a round: the last day of the schedule entry tied to
+ * it. Schedule dates are whole days, so the phase is due at the end of that day.
+ */
+export function phaseDeadline(entries: DeadlineEntry[], phaseId: string, round: number): Date | null {
+  const entry = entries.find(e => e.phase_id === phaseId && e.round_number === round);
+  const day = entry?.end_date ?? entry?.start_date;
+  if (!day) return null;
+  const deadline = new Date(`${day.slice(0, 10)}T23:59:59`);
+  return Number.isNaN(deadline.getTime()) ? null : deadline;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** e.g. "Due today", "Due in 3 days", "1 day overdue" */
+export function describeDeadline(deadline: Date, now: Date = new Date()): { label: string; overdue: boolean } {
+  const startOf = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const days = Math.round((startOf(deadline) - startOf(now)) / DAY_MS);
+  const plural = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+
+  if (deadline.getTime() < now.getTime()) {
+    return { label: days === 0 ? "Due earlier today" : `${plural(-days)} overdue`, overdue: true };
+  }
+  if (days === 0) return { label: "Due today", overdue: false };
+  if (days === 1) return { label: "Due tomorrow", overdue: false };
+  return { label: `Due in ${plural(days)}`, overdue: false };
+}
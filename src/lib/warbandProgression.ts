@@ -0,0 +1,177 @@
+/**
+ * Warband progression between battles. Every change to a unit is an event:
+ * experience, an injury, an advancement roll or a piece of equipment.
+ * A unit's career is the list of its events that haven't been undone.
+ */
+
+export type ProgressionEventType = "experience" | "injury" | "advancement" | "item";
+
+export interface ProgressionEvent {
+  id: string;
+  campaign_id: string;
+  warband_id: string;
+  /** RosterUnit.id, or null for the warband's stash */
+  roster_unit_id: string | null;
+  event_type: ProgressionEventType;
+  amount: number | null;
+  label: string | null;
+  roll: number | null;
+  notes: string | null;
+  source_type: "battle_report" | "manual";
+  source_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  undone_at: string | null;
+  undone_by: string | null;
+}
+
+export type ProgressionDraft = Pick<
+  ProgressionEvent,
+  "warband_id" | "roster_unit_id" | "event_type" | "amount" | "label" | "notes"
+>;
+
+/** Experience totals at which a unit earns an advance (Mordheim hero table) */
+export const ADVANCE_THRESHOLDS = [2, 4, 6, 8, 11, 14, 17, 20, 24, 28, 32, 36, 41, 46, 51, 57, 63, 69, 76, 83, 90];
+
+export const ADVANCE_ROLL = "2D6";
+
+export function advancesEarned(xp: number, thresholds: number[] = ADVANCE_THRESHOLDS): number {
+  return thresholds.filter(t => t <= xp).length;
+}
+
+export interface UnitCareer {
+  xp: number;
+  injuries: ProgressionEvent[];
+  advancements: ProgressionEvent[];
+  items: ProgressionEvent[];
+  /** Advances earned by experience but not rolled yet */
+  pendingAdvances: number;
+  /** Everything, undone events included, newest first */
+  history: ProgressionEvent[];
+}
+
+export function unitCareer(events: ProgressionEvent[], rosterUnitId: string | null): UnitCareer {
+  const history = events
+    .filter(e => e.roster_unit_id === rosterUnitId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const active = history.filter(e => !e.undone_at);
+  const xp = active
+    .filter(e => e.event_type === "experience")
+    .reduce((sum, e) => sum + (e.amount ?? 0), 0);
+  const advancements = active.filter(e => e.event_type === "advancement");
+
+  return {
+    xp,
+    injuries: active.filter(e => e.event_type === "injury"),
+    advancements,
+    items: active.filter(e => e.event_type === "item"),
+    pendingAdvances: Math.max(0, advancesEarned(xp) - advancements.length),
+    history,
+  };
+}
+
+/** Items held in the warband's stash, totalled by name */
+export function warbandStash(events: ProgressionEvent[]): { label: string; quantity: number }[] {
+  const totals = new Map<string, { label: string; quantity: number }>();
+  for (const event of events) {
+    if (event.undone_at || event.event_type !== "item" || event.roster_unit_id !== null || !event.label) continue;
+    const key = event.label.trim().toLowerCase();
+    const current = totals.get(key) ?? { label: event.label.trim(), quantity: 0 };
+    current.quantity += event.amount ?? 1;
+    totals.set(key, current);
+  }
+  return [...totals.values()].filter(item => item.quantity > 0);
+}
+
+interface RosterLine {
+  id: string;
+  name: string;
+}
+
+interface WarbandRoster {
+  id: string;
+  roster: RosterLine[];
+}
+
+/** The roster unit a report means by name, looking through each warband in turn */
+export function matchRosterUnit(warbands: WarbandRoster[], unitName: string): { warbandId: string; unitId: string } | null {
+  const wanted = unitName.trim().toLowerCase();
+  if (!wanted) return null;
+  for (const warband of warbands) {
+    const unit = warband.roster.find(u => u.name.trim().toLowerCase() === wanted);
+    if (unit) return { warbandId: warband.id, unitId: unit.id };
+  }
+  return null;
+}
+
+interface ReportProgress {
+  injuries: { unitName: string; injury: string; notes?: string }[];
+  experience: { unitName: string; xp: number }[];
+  loot_found: { item: string; quantity?: number; notes?: string }[];
+}
+
+/**
+ * The events an approved report adds to the reporting player's warbands.
+ * Injuries and experience go to the unit with the same name; loot goes to
+ * the first warband's stash. Names that match no unit come back unmatched.
+ */
+export function reportProgressionEvents(
+  report: ReportProgress,
+  warbands: WarbandRoster[]
+): { events: ProgressionDraft[]; unmatched: string[] } {
+  const events: ProgressionDraft[] = [];
+  const unmatched: string[] = [];
+
+  for (const injury of report.injuries) {
+    if (!injury.injury?.trim()) continue;
+    const match = matchRosterUnit(warbands, injury.unitName);
+    if (!match) {
+      unmatched.push(injury.unitName);
+      continue;
+    }
+    events.push({
+      warband_id: match.warbandId,
+      roster_unit_id: match.unitId,
+      event_type: "injury",
+      amount: null,
+      label: injury.injury.trim(),
+      notes: injury.notes?.trim() || null,
+    });
+  }
+
+  for (const line of report.experience) {
+    if (!line.xp) continue;
+    const match = matchRosterUnit(warbands, line.unitName);
+    if (!match) {
+      unmatched.push(line.unitName);
+      continue;
+    }
+    events.push({
+      warband_id: match.warbandId,
+      roster_unit_id: match.unitId,
+      event_type: "experience",
+      amount: line.xp,
+      label: null,
+      notes: null,
+    });
+  }
+
+  const stash = warbands[0];
+  for (const loot of report.loot_found) {
+    if (!loot.item?.trim()) continue;
+    if (!stash) {
+      unmatched.push(loot.item);
+      continue;
+    }
+    events.push({
+      warband_id: stash.id,
+      roster_unit_id: null,
+      event_type: "item",
+      amount: loot.quantity ?? 1,
+      label: loot.item.trim(),
+      notes: loot.notes?.trim() || null,
+    });
+  }
+
+  return { events, unmatched: [...new Set(unmatched.filter(Boolean))] };
+}
@@ -0,0 +1,264 @@
+/**
+ * Declarative warband validation. A campaign keeps a list of composition
+ * rules; each unit may also carry its own constraints from the master unit
+ * it was copied from. Validating a roster returns every violation, with the
+ * roster units it concerns so they can be flagged inline.
+ */
+
+export type RuleTarget =
+  | { kind: "unit"; value: string }
+  | { kind: "keyword"; value: string };
+
+export type WarbandRule =
+  | { id: string; type: "count"; target: RuleTarget; min?: number; max?: number }
+  | { id: string; type: "points_share"; target: RuleTarget; maxPercent: number }
+  | { id: string; type: "faction"; factions: string[]; subFactions?: string[] }
+  | { id: string; type: "equipment_exclusive"; items: string[] };
+
+export type WarbandRuleType = WarbandRule["type"];
+
+/** Per-unit limits stored on `master_units.constraints` */
+export interface UnitConstraints {
+  min?: number;
+  max?: number;
+  /** Share of the points limit this unit may take up */
+  maxPercent?: number;
+  /** Keywords another unit in the roster must have for this one to be taken */
+  requires?: string[];
+}
+
+export interface UnitDefinition {
+  name: string;
+  faction: string;
+  sub_faction: string | null;
+  keywords: string[];
+  equipment_options: string[];
+  constraints: UnitConstraints | null;
+}
+
+export interface ValidatedUnit {
+  id: string;
+  unitId: string;
+  name: string;
+  cost: number;
+  faction: string;
+  keywords: string[];
+  equipment: string[];
+  quantity: number;
+}
+
+export interface ValidationContext {
+  faction: string | null;
+  subFaction: string | null;
+  pointsLimit: number;
+  /** Campaign unit definitions by campaign unit id */
+  units: Record<string, UnitDefinition>;
+}
+
+export interface Violation {
+  /** The campaign rule broken, or a built-in check name */
+  ruleId: string;
+  message: string;
+  /** Roster units the violation is about; empty for the list as a whole */
+  unitIds: string[];
+}
+
+export const RULE_TYPES: { value: WarbandRuleType; label: string }[] = [
+  { value: "count", label: "Unit count" },
+  { value: "points_share", label: "Points cap" },
+  { value: "faction", label: "Factions" },
+  { value: "equipment_exclusive", label: "Incompatible equipment" },
+];
+
+/** A leader rule most skirmish games share: at most one unit with the Leader keyword */
+export const LEADER_RULE: Omit<Extract<WarbandRule, { type: "count" }>, "id"> = {
+  type: "count",
+  target: { kind: "keyword", value: "Leader" },
+  min: 0,
+  max: 1,
+};
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function matchesTarget(unit: ValidatedUnit, target: RuleTarget): boolean {
+  if (target.kind === "unit") return same(unit.name, target.value);
+  return unit.keywords.some(k => same(k, target.value));
+}
+
+export function describeTarget(target: RuleTarget): string {
+  return target.kind === "unit" ? target.value : `${target.value} units`;
+}
+
+export function describeRule(rule: WarbandRule): string {
+  switch (rule.type) {
+    case "count": {
+      const label = describeTarget(rule.target);
+      if (rule.min != null && rule.max != null) return `${rule.min}–${rule.max} ${label}`;
+      if (rule.max != null) return `At most ${rule.max} ${label}`;
+      return `At least ${rule.min ?? 0} ${label}`;
+    }
+    case "points_share":
+      return `${describeTarget(rule.target)}: up to ${rule.maxPercent}% of the points`;
+    case "faction":
+      return [
+        rule.factions.length > 0 && `Factions: ${rule.factions.join(", ")}`,
+        rule.subFactions?.length && `Sub-factions: ${rule.subFactions.join(", ")}`,
+      ].filter(Boolean).join(" · ");
+    case "equipment_exclusive":
+      return `Only one of: ${rule.items.join(", ")}`;
+  }
+}
+
+/** Reads `master_units.constraints`, ignoring anything it doesn't recognise */
+export function parseUnitConstraints(raw: unknown): UnitConstraints | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const source = raw as Record<string, unknown>;
+  const constraints: UnitConstraints = {};
+  for (const key of ["min", "max", "maxPercent"] as const) {
+    const value = Number(source[key]);
+    if (source[key] != null && Number.isFinite(value)) constraints[key] = value;
+  }
+  if (Array.isArray(source.requires)) constraints.requires = source.requires.map(String);
+  return Object.keys(constraints).length > 0 ? constraints : null;
+}
+
+export function parseWarbandRules(raw: unknown): WarbandRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((rule): rule is WarbandRule =>
+    !!rule && typeof rule === "object" && typeof (rule as WarbandRule).id === "string" &&
+    RULE_TYPES.some(t => t.value === (rule as WarbandRule).type)
+  );
+}
+
+function countRule(
+  ruleId: string,
+  label: string,
+  matching: ValidatedUnit[],
+  min: number | undefined,
+  max: number | undefined
+): Violation | null {
+  const count = matching.reduce((sum, u) => sum + u.quantity, 0);
+  if (min != null && count < min) {
+    return { ruleId, message: `Needs at least ${min} ${label} (has ${count})`, unitIds: matching.map(u => u.id) };
+  }
+  if (max != null && count > max) {
+    return { ruleId, message: `At most ${max} ${label} allowed (has ${count})`, unitIds: matching.map(u => u.id) };
+  }
+  return null;
+}
+
+function pointsRule(
+  ruleId: string,
+  label: string,
+  matching: ValidatedUnit[],
+  maxPercent: number,
+  pointsLimit: number
+): Violation | null {
+  const points = matching.reduce((sum, u) => sum + u.cost * u.quantity, 0);
+  const cap = Math.floor((pointsLimit * maxPercent) / 100);
+  if (points <= cap) return null;
+  return {
+    ruleId,
+    message: `${label} may take up ${maxPercent}% of the points (${cap} pts), not ${points} pts`,
+    unitIds: matching.map(u => u.id),
+  };
+}
+
+export function validateWarband(
+  roster: ValidatedUnit[],
+  rules: WarbandRule[],
+  context: ValidationContext
+): Violation[] {
+  const violations: Violation[] = [];
+  const push = (violation: Violation | null) => violation && violations.push(violation);
+
+  const totalPoints = roster.reduce((sum, u) => sum + u.cost * u.quantity, 0);
+  if (totalPoints > context.pointsLimit) {
+    push({ ruleId: "points_limit", message: `Over the points limit by ${totalPoints - context.pointsLimit} pts`, unitIds: [] });
+  }
+
+  // Built-in checks against each unit's own definition
+  for (const unit of roster) {
+    const definition = context.units[unit.unitId];
+
+    if (context.faction && unit.faction && !same(unit.faction, context.faction)) {
+      push({ ruleId: "faction", message: `${unit.name} is not a ${context.faction} unit`, unitIds: [unit.id] });
+    }
+    if (context.subFaction && definition?.sub_faction && !same(definition.sub_faction, context.subFaction)) {
+      push({ ruleId: "sub_faction", message: `${unit.name} is only available to ${definition.sub_faction}`, unitIds: [unit.id] });
+    }
+
+    const options = definition?.equipment_options ?? [];
+    const invalid = options.length > 0 ? unit.equipment.filter(e => !options.some(o => same(o, e))) : [];
+    if (invalid.length > 0) {
+      push({ ruleId: "equipment", message: `${unit.name} cannot take ${invalid.join(", ")}`, unitIds: [unit.id] });
+    }
+  }
+
+  // Constraints carried by the master units, checked once per unit type
+  const byUnitId = new Map<string, ValidatedUnit[]>();
+  for (const unit of roster) byUnitId.set(unit.unitId, [...(byUnitId.get(unit.unitId) ?? []), unit]);
+  for (const [unitId, units] of byUnitId) {
+    const constraints = context.units[unitId]?.constraints;
+    if (!constraints) continue;
+    const name = units[0].name;
+    push(countRule(`unit:${unitId}`, name, units, constraints.min, constraints.max));
+    if (constraints.maxPercent != null) {
+      push(pointsRule(`unit:${unitId}`, name, units, constraints.maxPercent, context.pointsLimit));
+    }
+    const missing = (constraints.requires ?? []).filter(keyword =>
+      !roster.some(other => other.unitId !== unitId && other.keywords.some(k => same(k, keyword)))
+    );
+    if (missing.length > 0) {
+      push({ ruleId: `unit:${unitId}`, message: `${name} needs a ${missing.join(" or ")} in the warband`, unitIds: units.map(u => u.id) });
+    }
+  }
+
+  // Campaign rules
+  for (const rule of rules) {
+    switch (rule.type) {
+      case "count": {
+        const matching = roster.filter(u => matchesTarget(u, rule.target));
+        push(countRule(rule.id, describeTarget(rule.target), matching, rule.min, rule.max));
+        break;
+      }
+      case "points_share": {
+        const matching = roster.filter(u => matchesTarget(u, rule.target));
+        push(pointsRule(rule.id, describeTarget(rule.target), matching, rule.maxPercent, context.pointsLimit));
+        break;
+      }
+      case "faction": {
+        if (rule.factions.length > 0 && context.faction && !rule.factions.some(f => same(f, context.faction!))) {
+          push({ ruleId: rule.id, message: `${context.faction} is not allowed in this campaign`, unitIds: [] });
+        }
+        const subFactions = rule.subFactions ?? [];
+        if (subFactions.length > 0 && context.subFaction && !subFactions.some(f => same(f, context.subFaction!))) {
+          push({ ruleId: rule.id, message: `${context.subFaction} is not allowed in this campaign`, unitIds: [] });
+        }
+        break;
+      }
+      case "equipment_exclusive": {
+        for (const unit of roster) {
+          const carried = rule.items.filter(item => unit.equipment.some(e => same(e, item)));
+          if (carried.length > 1) {
+            push({ ruleId: rule.id, message: `${unit.name} cannot combine ${carried.join(" and ")}`, unitIds: [unit.id] });
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return violations;
+}
+
+/** Violations grouped by the roster unit they concern */
+export function violationsByUnit(violations: Violation[]): Record<string, Violation[]> {
+  const grouped: Record<string, Violation[]> = {};
+  for (const violation of violations) {
+    for (const unitId of violation.unitIds) {
+      (grouped[unitId] ??= []).push(violation);
+    }
+  }
+  return grouped;
+}
@@ -0,0 +1,482 @@
+/**
+ * Maximum-weight matching on general graphs (Edmonds' blossom algorithm with
+ * dual variables), O(n^3). Port of Joris van Rantwijk's public-domain
+ * mwmatching reference implementation.
+ *
+ * Use integer weights: the dual updates halve slack values, and integer
+ * weights keep every intermediate value exact.
+ */
+
+/** Undirected edge `[i, j, weight]` between vertices `i` and `j` */
+export type WeightedEdge = [number, number, number];
+
+/** Python-style index into a blossom's cyclic child list (negative indices wrap) */
+function cyc<T>(list: T[], index: number): T {
+  const n = list.length;
+  return list[((index % n) + n) % n];
+}
+
+/**
+ * Compute a maximum-weight matching.
+ *
+ * When `maxCardinality` is true, only maximum-cardinality matchings are
+ * considered, so a complete graph with an even number of vertices always
+ * yields a perfect matching.
+ *
+ * Returns `mate` where `mate[i]` is the vertex matched to `i`, or -1.
+ */
+export function maxWeightMatching(edges: WeightedEdge[], maxCardinality = false): number[] {
+  if (edges.length === 0) return [];
+
+  const nedge = edges.length;
+  let nvertex = 0;
+  for (const [i, j] of edges) {
+    if (i >= nvertex) nvertex = i + 1;
+    if (j >= nvertex) nvertex = j + 1;
+  }
+
+  const maxweight = Math.max(0, ...edges.map(e => e[2]));
+
+  // endpoint[p] is the vertex at endpoint p; edge k has endpoints 2k and 2k+1
+  const endpoint: number[] = [];
+  for (let p = 0; p < 2 * nedge; p++) endpoint.push(edges[p >> 1][p % 2]);
+
+  // neighbend[v] lists the remote endpoints of the edges attached to v
+  const neighbend: number[][] = Array.from({ length: nvertex }, () => []);
+  edges.forEach(([i, j], k) => {
+    neighbend[i].push(2 * k + 1);
+    neighbend[j].push(2 * k);
+  });
+
+  const mate: number[] = new Array(nvertex).fill(-1);
+  const label: number[] = new Array(2 * nvertex).fill(0);
+  const labelend: number[] = new Array(2 * nvertex).fill(-1);
+  const inblossom: number[] = Array.from({ length: nvertex }, (_, i) => i);
+  const blossomparent: number[] = new Array(2 * nvertex).fill(-1);
+  const blossomchilds: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const blossombase: number[] = [...Array.from({ length: nvertex }, (_, i) => i), ...new Array(nvertex).fill(-1)];
+  const blossomendps: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const bestedge: number[] = new Array(2 * nvertex).fill(-1);
+  const blossombestedges: (number[] | null)[] = new Array(2 * nvertex).fill(null);
+  const unusedblossoms: number[] = Array.from({ length: nvertex }, (_, i) => nvertex + i);
+  const dualvar: number[] = [...new Array(nvertex).fill(maxweight), ...new Array(nvertex).fill(0)];
+  const allowedge: boolean[] = new Array(nedge).fill(false);
+  let queue: number[] = [];
+
+  const slack = (k: number): number => {
+    const [i, j, wt] = edges[k];
+    return dualvar[i] + dualvar[j] - 2 * wt;
+  };
+
+  const blossomLeaves = (b: number): number[] => {
+    if (b < nvertex) return [b];
+    const leaves: number[] = [];
+    for (const t of blossomchilds[b]!) {
+      if (t < nvertex) leaves.push(t);
+      else leaves.push(...blossomLeaves(t));
+    }
+    return leaves;
+  };
+
+  // Label vertex w (and its top-level blossom) as S (1) or T (2), reached via endpoint p
+  const assignLabel = (w: number, t: number, p: number): void => {
+    const b = inblossom[w];
+    label[w] = label[b] = t;
+    labelend[w] = labelend[b] = p;
+    bestedge[w] = bestedge[b] = -1;
+    if (t === 1) {
+      queue.push(...blossomLeaves(b));
+    } else if (t === 2) {
+      const base = blossombase[b];
+      assignLabel(endpoint[mate[base]], 1, mate[base] ^ 1);
+    }
+  };
+
+  // Trace back from v and w to find a new blossom base, or -1 for an augmenting path
+  const scanBlossom = (vStart: number, wStart: number): number => {
+    const path: number[] = [];
+    let base = -1;
+    let v = vStart;
+    let w = wStart;
+    while (v !== -1 || w !== -1) {
+      let b = inblossom[v];
+      if (label[b] & 4) {
+        base = blossombase[b];
+        break;
+      }
+      path.push(b);
+      label[b] = 5;
+      if (labelend[b] === -1) {
+        v = -1;
+      } else {
+        v = endpoint[labelend[b]];
+        b = inblossom[v];
+        v = endpoint[labelend[b]];
+      }
+      if (w !== -1) {
+        [v, w] = [w, v];
+      }
+    }
+    for (const b of path) label[b] = 1;
+    return base;
+  };
+
+  // Construct a new blossom with the given base, closed by edge k
+  const addBlossom = (base: number, k: number): void => {
+    let [v, w] = edges[k];
+    const bb = inblossom[base];
+    let bv = inblossom[v];
+    let bw = inblossom[w];
+    const b = unusedblossoms.pop()!;
+    blossombase[b] = base;
+    blossomparent[b] = -1;
+    blossomparent[bb] = b;
+    const path: number[] = [];
+    const endps: number[] = [];
+    blossomchilds[b] = path;
+    blossomendps[b] = endps;
+    while (bv !== bb) {
+      blossomparent[bv] = b;
+      path.push(bv);
+      endps.push(labelend[bv]);
+      v = endpoint[labelend[bv]];
+      bv = inblossom[v];
+    }
+    path.push(bb);
+    path.reverse();
+    endps.reverse();
+    endps.push(2 * k);
+    while (bw !== bb) {
+      blossomparent[bw] = b;
+      path.push(bw);
+      endps.push(labelend[bw] ^ 1);
+      w = endpoint[labelend[bw]];
+      bw = inblossom[w];
+    }
+    label[b] = 1;
+    labelend[b] = labelend[bb];
+    dualvar[b] = 0;
+    for (const leaf of blossomLeaves(b)) {
+      if (label[inblossom[leaf]] === 2) queue.push(leaf);
+      inblossom[leaf] = b;
+    }
+
+    // Compute the least-slack edges from the new blossom to neighbouring S-blossoms
+    const bestedgeto: number[] = new Array(2 * nvertex).fill(-1);
+    for (const sub of path) {
+      const nblists: number[][] = blossombestedges[sub] === null
+        ? blossomLeaves(sub).map(leaf => neighbend[leaf].map(p => p >> 1))
+        : [blossombestedges[sub]!];
+      for (const nblist of nblists) {
+        for (const ek of nblist) {
+          let [i, j] = edges[ek];
+          if (inblossom[j] === b) [i, j] = [j, i];
+          const bj = inblossom[j];
+          if (bj !== b && label[bj] === 1 && (bestedgeto[bj] === -1 || slack(ek) < slack(bestedgeto[bj]))) {
+            bestedgeto[bj] = ek;
+          }
+        }
+      }
+      blossombestedges[sub] = null;
+      bestedge[sub] = -1;
+    }
+    blossombestedges[b] = bestedgeto.filter(ek => ek !== -1);
+    bestedge[b] = -1;
+    for (const ek of blossombestedges[b]!) {
+      if (bestedge[b] === -1 || slack(ek) < slack(bestedge[b])) bestedge[b] = ek;
+    }
+  };
+
+  // Expand the given top-level blossom
+  const expandBlossom = (b: number, endstage: boolean): void => {
+    const childs = blossomchilds[b]!;
+    for (const s of childs) {
+      blossomparent[s] = -1;
+      if (s < nvertex) {
+        inblossom[s] = s;
+      } else if (endstage && dualvar[s] === 0) {
+        expandBlossom(s, endstage);
+      } else {
+        for (const leaf of blossomLeaves(s)) inblossom[leaf] = s;
+      }
+    }
+
+    // A T-blossom expanded mid-stage must relabel its children along the even path
+    if (!endstage && label[b] === 2) {
+      const endps = blossomendps[b]!;
+      const entrychild = inblossom[endpoint[labelend[b] ^ 1]];
+      let j = childs.indexOf(entrychild);
+      let jstep: number;
+      let endptrick: number;
+      if (j & 1) {
+        j -= childs.length;
+        jstep = 1;
+        endptrick = 0;
+      } else {
+        jstep = -1;
+        endptrick = 1;
+      }
+      let p = labelend[b];
+      while (j !== 0) {
+        label[endpoint[p ^ 1]] = 0;
+        label[endpoint[cyc(endps, j - endptrick) ^ endptrick ^ 1]] = 0;
+        assignLabel(endpoint[p ^ 1], 2, p);
+        allowedge[cyc(endps, j - endptrick) >> 1] = true;
+        j += jstep;
+        p = cyc(endps, j - endptrick) ^ endptrick;
+        allowedge[p >> 1] = true;
+        j += jstep;
+      }
+      let bv = cyc(childs, j);
+      label[endpoint[p ^ 1]] = label[bv] = 2;
+      labelend[endpoint[p ^ 1]] = labelend[bv] = p;
+      bestedge[bv] = -1;
+      j += jstep;
+      while (cyc(childs, j) !== entrychild) {
+        bv = cyc(childs, j);
+        if (label[bv] === 1) {
+          j += jstep;
+          continue;
+        }
+        let labelled = -1;
+        for (const leaf of blossomLeaves(bv)) {
+          if (label[leaf] !== 0) {
+            labelled = leaf;
+            break;
+          }
+        }
+        if (labelled !== -1) {
+          label[labelled] = 0;
+          label[endpoint[mate[blossombase[bv]]]] = 0;
+          assignLabel(labelled, 2, labelend[labelled]);
+        }
+        j += jstep;
+      }
+    }
+
+    label[b] = labelend[b] = -1;
+    blossomchilds[b] = blossomendps[b] = null;
+    blossombase[b] = -1;
+    blossombestedges[b] = null;
+    bestedge[b] = -1;
+    unusedblossoms.push(b);
+  };
+
+  // Swap matched/unmatched edges along the even path from vertex v to the base of blossom b
+  const augmentBlossom = (b: number, v: number): void => {
+    let t = v;
+    while (blossomparent[t] !== b) t = blossomparent[t];
+    if (t >= nvertex) augmentBlossom(t, v);
+
+    const childs = blossomchilds[b]!;
+    const endps = blossomendps[b]!;
+    const i = childs.indexOf(t);
+    let j = i;
+    let jstep: number;
+    let endptrick: number;
+    if (i & 1) {
+      j -= childs.length;
+      jstep = 1;
+      endptrick = 0;
+    } else {
+      jstep = -1;
+      endptrick = 1;
+    }
+    while (j !== 0) {
+      j += jstep;
+      t = cyc(childs, j);
+      const p = cyc(endps, j - endptrick) ^ endptrick;
+      if (t >= nvertex) augmentBlossom(t, endpoint[p]);
+      j += jstep;
+      t = cyc(childs, j);
+      if (t >= nvertex) augmentBlossom(t, endpoint[p ^ 1]);
+      mate[endpoint[p]] = p ^ 1;
+      mate[endpoint[p ^ 1]] = p;
+    }
+    // Rotate so the new base comes first
+    blossomchilds[b] = [...childs.slice(i), ...childs.slice(0, i)];
+    blossomendps[b] = [...endps.slice(i), ...endps.slice(0, i)];
+    blossombase[b] = blossombase[blossomchilds[b]![0]];
+  };
+
+  // Swap matched/unmatched edges along the augmenting path through edge k
+  const augmentMatching = (k: number): void => {
+    const [v, w] = edges[k];
+    for (const [start, startP] of [[v, 2 * k + 1], [w, 2 * k]]) {
+      let s = start;
+      let p = startP;
+      for (;;) {
+        const bs = inblossom[s];
+        if (bs >= nvertex) augmentBlossom(bs, s);
+        mate[s] = p;
+        if (labelend[bs] === -1) break;
+        const t = endpoint[labelend[bs]];
+        const bt = inblossom[t];
+        s = endpoint[labelend[bt]];
+        const j = endpoint[labelend[bt] ^ 1];
+        if (bt >= nvertex) augmentBlossom(bt, j);
+        mate[j] = labelend[bt];
+        p = labelend[bt] ^ 1;
+      }
+    }
+  };
+
+  // Each stage either augments the matching by one edge or proves it is optimal
+  for (let stage = 0; stage < nvertex; stage++) {
+    label.fill(0);
+    bestedge.fill(-1);
+    for (let b = nvertex; b < 2 * nvertex; b++) blossombestedges[b] = null;
+    allowedge.fill(false);
+    queue = [];
+
+    for (let v = 0; v < nvertex; v++) {
+      if (mate[v] === -1 && label[inblossom[v]] === 0) assignLabel(v, 1, -1);
+    }
+
+    let augmented = false;
+    for (;;) {
+      while (queue.length > 0 && !augmented) {
+        const v = queue.pop()!;
+        for (const p of neighbend[v]) {
+          const k = p >> 1;
+          const w = endpoint[p];
+          if (inblossom[v] === inblossom[w]) continue;
+          let kslack = 0;
+          if (!allowedge[k]) {
+            kslack = slack(k);
+            if (kslack <= 0) allowedge[k] = true;
+          }
+          if (allowedge[k]) {
+            if (label[inblossom[w]] === 0) {
+              assignLabel(w, 2, p ^ 1);
+            } else if (label[inblossom[w]] === 1) {
+              const base = scanBlossom(v, w);
+              if (base >= 0) {
+                addBlossom(base, k);
+              } else {
+                augmentMatching(k);
+                augmented = true;
+                break;
+              }
+            } else if (label[w] === 0) {
+              label[w] = 2;
+              labelend[w] = p ^ 1;
+            }
+          } else if (label[inblossom[w]] === 1) {
+            const b = inblossom[v];
+            if (bestedge[b] === -1 || kslack < slack(bestedge[b])) bestedge[b] = k;
+          } else if (label[w] === 0) {
+            if (bestedge[w] === -1 || kslack < slack(bestedge[w])) bestedge[w] = k;
+          }
+        }
+      }
+
+      if (augmented) break;
+
+      // No augmenting path yet: find the smallest dual adjustment that makes progress
+      let deltatype = -1;
+      let delta = 0;
+      let deltaedge = -1;
+      let deltablossom = -1;
+
+      if (!maxCardinality) {
+        deltatype = 1;
+        delta = Math.min(...dualvar.slice(0, nvertex));
+      }
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 0 && bestedge[v] !== -1) {
+          const d = slack(bestedge[v]);
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 2;
+            deltaedge = bestedge[v];
+          }
+        }
+      }
+      for (let b = 0; b < 2 * nvertex; b++) {
+        if (blossomparent[b] === -1 && label[b] === 1 && bestedge[b] !== -1) {
+          const d = slack(bestedge[b]) / 2;
+          if (deltatype === -1 || d < delta) {
+            delta = d;
+            deltatype = 3;
+            deltaedge = bestedge[b];
+          }
+        }
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1 && label[b] === 2 && (deltatype === -1 || dualvar[b] < delta)) {
+          delta = dualvar[b];
+          deltatype = 4;
+          deltablossom = b;
+        }
+      }
+      if (deltatype === -1) {
+        // Only reachable with maxCardinality: no further augmenting paths exist
+        deltatype = 1;
+        delta = Math.max(0, Math.min(...dualvar.slice(0, nvertex)));
+      }
+
+      for (let v = 0; v < nvertex; v++) {
+        if (label[inblossom[v]] === 1) dualvar[v] -= delta;
+        else if (label[inblossom[v]] === 2) dualvar[v] += delta;
+      }
+      for (let b = nvertex; b < 2 * nvertex; b++) {
+        if (blossombase[b] >= 0 && blossomparent[b] === -1) {
+          if (label[b] === 1) dualvar[b] += delta;
+          else if (label[b] === 2) dualvar[b] -= delta;
+        }
+      }
+
+      if (deltatype === 1) {
+        break;
+      } else if (deltatype === 2) {
+        allowedge[deltaedge] = true;
+        let [i, j] = edges[deltaedge];
+        if (label[inblossom[i]] === 0) [i, j] = [j, i];
+        queue.push(i);
+      } else if (deltatype === 3) {
+        allowedge[deltaedge] = true;
+        queue.push(edges[deltaedge][0]);
+      } else if (deltatype === 4) {
+        expandBlossom(deltablossom, false);
+      }
+    }
+
+    if (!augmented) break;
+
+    // End of stage: expand S-blossoms whose dual variable dropped to zero
+    for (let b = nvertex; b < 2 * nvertex; b++) {
+      if (blossomparent[b] === -1 && blossombase[b] >= 0 && label[b] === 1 && dualvar[b] === 0) {
+        expandBlossom(b, true);
+      }
+    }
+  }
+
+  return mate.map(p => (p >= 0 ? endpoint[p] : -1));
+}
+
+/**
+ * Minimum-cost perfect matching on a complete graph of `size` vertices
+ * (`size` must be even). `cost(i, j)` must return a non-negative integer.
+ *
+ * Returns `mate` where `mate[i]` is the vertex paired with `i`.
+ */
+export function minCostPerfectMatching(size: number, cost: (i: number, j: number) => number): number[] {
+  if (size === 0) return [];
+  if (size % 2 !== 0) throw new Error("Perfect matching needs an even number of vertices");
+
+  const costs: WeightedEdge[] = [];
+  let maxCost = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const c = cost(i, j);
+      costs.push([i, j, c]);
+      if (c > maxCost) maxCost = c;
+    }
+  }
+
+  // Every perfect matching has the same number of edges, so maximising
+  // (maxCost + 1 - cost) over maximum-cardinality matchings minimises total cost
+  const edges: WeightedEdge[] = costs.map(([i, j, c]) => [i, j, maxCost + 1 - c]);
+  return maxWeightMatching(edges, true);
+}
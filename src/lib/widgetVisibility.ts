@@ -0,0 +1,87 @@
+/**
+ * Who can see a dashboard widget. The database enforces this through RLS
+ * (public.can_view_dashboard_component); these helpers mirror that check so
+ * the GM can preview the dashboard as a given player and see what the
+ * server would send them.
+ */
+
+import type { CampaignRole } from "@/hooks/usePlayerRole";
+
+export type WidgetVisibility = "all" | "gm" | "custom";
+
+/** Roles a custom audience can name. The owner and the gm always see every widget. */
+export const AUDIENCE_ROLES = ["co_gm", "assistant", "player"] as const;
+
+export interface WidgetAudience {
+  visibility: string | null;
+  visible_roles?: string[] | null;
+  visible_player_ids?: string[] | null;
+}
+
+/** Whose eyes a widget is checked against: their campaign role and campaign_players row */
+export interface WidgetViewer {
+  role: CampaignRole;
+  /** campaign_players.id, null for a generic player preview */
+  playerId: string | null;
+}
+
+const GM_TEAM: CampaignRole[] = ["co_gm", "assistant"];
+
+export function widgetVisibilityOf(widget: WidgetAudience): WidgetVisibility {
+  return widget.visibility === "gm" || widget.visibility === "custom" ? widget.visibility : "all";
+}
+
+export function canViewWidget(widget: WidgetAudience, viewer: WidgetViewer): boolean {
+  if (viewer.role === "owner" || viewer.role === "gm") return true;
+
+  switch (widgetVisibilityOf(widget)) {
+    case "all":
+      return true;
+    case "gm":
+      return GM_TEAM.includes(viewer.role);
+    case "custom":
+      return (widget.visible_roles ?? []).includes(viewer.role) ||
+        (!!viewer.playerId && (widget.visible_player_ids ?? []).includes(viewer.playerId));
+  }
+}
+
+/**
+ * Whether a viewer can read a rule in the rules library. Rules that widgets
+ * link to through config.rule_id follow those widgets' audience
+ * (public.can_view_wargame_rule); rules no widget links to are open to all.
+ */
+export function canViewLinkedRule(
+  ruleId: string,
+  widgets: (WidgetAudience & { config?: unknown })[],
+  viewer: WidgetViewer
+): boolean {
+  const linked = widgets.filter((w) => {
+    const config = w.config as { rule_id?: unknown } | null | undefined;
+    return config?.rule_id === ruleId;
+  });
+  return linked.length === 0 || linked.some((w) => canViewWidget(w, viewer));
+}
+
+/**
+ * A short label for a widget's audience, e.g. "Co-GM + 2 players". Players
+ * are named when there are only a couple of them.
+ */
+export function describeAudience(
+  widget: WidgetAudience,
+  roleLabels: Partial<Record<string, string>>,
+  playerNames: Record<string, string> = {}
+): string {
+  const visibility = widgetVisibilityOf(widget);
+  if (visibility === "all") return "All players";
+  if (visibility === "gm") return "GM only";
+
+  const roles = (widget.visible_roles ?? []).map((r) => roleLabels[r] ?? r);
+  const players = widget.visible_player_ids ?? [];
+  const parts = [...roles];
+  if (players.length > 0 && players.length <= 2) {
+    parts.push(...players.map((id) => playerNames[id] ?? "Unknown player"));
+  } else if (players.length > 2) {
+    parts.push(`${players.length} players`);
+  }
+  return parts.length > 0 ? parts.join(" + ") : "Owner and GM";
+}
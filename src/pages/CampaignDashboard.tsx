@@ -3,6 +3,7 @@ import { useParams, Link, useSearchParams } from "react-router-dom";
 import { useCampaign, useIsGM, useUpdateCampaign } from "@/hooks/useCampaigns";
 import { usePlayerRole } from "@/hooks/usePlayerRole";
 import { useDashboardComponents, DashboardComponent, useDeleteComponent, useUpdateComponent, useCreateComponent } from "@/hooks/useDashboardComponents";
+import { useCampaignPlayers } from "@/hooks/useCampaignPlayers";
 import { useAuth } from "@/hooks/useAuth";
 import { useOverlayState, OverlayType } from "@/hooks/useOverlayState";
 import { useEntitlements } from "@/hooks/useEntitlements";
@@ -22,11 +23,13 @@ import { GettingStartedModal } from "@/components/help/GettingStartedModal";
 import { SupporterWelcomeModal } from "@/components/settings/SupporterWelcomeModal";
 import { SupporterHub } from "@/components/supporter/SupporterHub";
 import { MobileDashboard } from "@/components/dashboard/MobileDashboard";
+import { PreviewAsMenu, type DashboardPreview } from "@/components/dashboard/PreviewAsMenu";
 import { useGMKeyboardShortcuts } from "@/hooks/useGMKeyboardShortcuts";
 import { useUndoDelete } from "@/hooks/useUndoDelete";
 import { useMultiSelect } from "@/hooks/useMultiSelect";
 import { UndoStackProvider } from "@/hooks/useUndoStack";
 import { HelpButton } from "@/components/help/HelpButton";
+import { canViewWidget, widgetVisibilityOf } from "@/lib/widgetVisibility";
 import { 
   ArrowLeft, 
   Settings, 
@@ -42,7 +45,8 @@ import {
   PanelLeftOpen,
   PanelLeftClose,
   Command,
-  Swords
+  Swords,
+  Hourglass
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -56,6 +60,7 @@ const sidebarItems: {
   { id: "home", label: "Home", icon: LayoutGrid },
   { id: "components", label: "Components", icon: Database, gmOnly: true },
   { id: "battles", label: "Battles", icon: Swords, gmOnly: true },
+  { id: "turns", label: "Turns", icon: Hourglass },
   { id: "player-settings", label: "My Settings", icon: UserCog, playerOnly: true },
   { id: "players", label: "Players", icon: Users },
   { id: "rules", label: "Rules", icon: Scroll },
@@ -78,6 +83,7 @@ function CampaignDashboardInner() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { data: campaign, isLoading: campaignLoading, error: campaignError } = useCampaign(campaignId);
   const { data: components = [], isLoading: componentsLoading } = useDashboardComponents(campaignId);
+  const { data: players = [] } = useCampaignPlayers(campaignId);
   const { user, signOut } = useAuth();
   const isGM = useIsGM(campaignId);
   const { hasFullControl, permissions } = usePlayerRole(campaignId);
@@ -102,12 +108,12 @@ function CampaignDashboardInner() {
   
   const { isSupporter } = useEntitlements();
   
-  const [previewAsPlayer, setPreviewAsPlayer] = useState(false);
+  const [preview, setPreview] = useState<DashboardPreview | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(() => {
     const stored = localStorage.getItem("campaign-sidebar-open");
     return stored !== null ? stored === "true" : true;
   });
-  const effectiveIsGM = isGM && !previewAsPlayer;
+  const effectiveIsGM = isGM && !preview;
   
   // Player onboarding
   const { showOnboarding, closeOnboarding } = usePlayerOnboarding(campaignId!, !effectiveIsGM && !isGM);
@@ -279,7 +285,7 @@ function CampaignDashboardInner() {
     selectedComponents.forEach((c) => {
       updateComponent.mutate({
         id: c.id,
-        config: { ...(c.config as object), visibility: "all" },
+        visibility: "all",
       });
     });
     toast.success(`${selectedComponents.length} widgets visible to players`);
@@ -290,7 +296,7 @@ function CampaignDashboardInner() {
     selectedComponents.forEach((c) => {
       updateComponent.mutate({
         id: c.id,
-        config: { ...(c.config as object), visibility: "gm" },
+        visibility: "gm",
       });
     });
     toast.success(`${selectedComponents.length} widgets hidden from players`);
@@ -313,6 +319,9 @@ function CampaignDashboardInner() {
         position_y: c.position_y + 50 + index * 20,
         width: c.width,
         height: c.height,
+        visibility: widgetVisibilityOf(c),
+        visible_roles: c.visible_roles,
+        visible_player_ids: c.visible_player_ids,
       });
     });
     multiSelect.clearSelection();
@@ -325,13 +334,11 @@ function CampaignDashboardInner() {
     localStorage.setItem("campaign-sidebar-open", String(open));
   };
 
-  // Filter components based on visibility for players
-  const visibleComponents = effectiveIsGM 
-    ? components 
-    : components.filter((c) => {
-        const visibility = (c.config as { visibility?: string })?.visibility;
-        return visibility !== "gm";
-      });
+  // Players only ever receive the widgets RLS lets them see. The GM gets
+  // everything, so a preview applies the same check on this side.
+  const visibleComponents = preview
+    ? components.filter((c) => canViewWidget(c, preview.viewer))
+    : components;
 
   const isLoading = campaignLoading || componentsLoading;
 
@@ -438,20 +445,14 @@ function CampaignDashboardInner() {
           
           <div className="flex items-center gap-3">
             {isGM ? (
-              <button
-                onClick={() => {
-                  setPreviewAsPlayer(!previewAsPlayer);
-                  toast.info(previewAsPlayer ? "Returning to GM view" : "Previewing as Player");
+              <PreviewAsMenu
+                players={players}
+                preview={preview}
+                onChange={(next) => {
+                  setPreview(next);
+                  toast.info(next ? `Previewing as ${next.name}` : "Returning to GM view");
                 }}
-                className={`px-4 py-1.5 rounded font-mono text-xs font-bold uppercase tracking-wider transition-all cursor-pointer hover:opacity-90 ${
-                  previewAsPlayer 
-                    ? "bg-primary text-primary-foreground ring-2 ring-secondary ring-offset-2 ring-offset-background" 
-                    : "bg-secondary text-secondary-foreground"
-                }`}
-                title={previewAsPlayer ? "Click to return to GM view" : "Click to preview as Player"}
-              >
-                {previewAsPlayer ? "Player (Preview)" : "Games Master"}
-              </button>
+              />
             ) : (
               <div 
                 className="px-4 py-1.5 rounded font-mono text-xs font-bold uppercase tracking-wider bg-primary text-primary-foreground"
@@ -5,6 +5,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useCampaigns, useArchiveCampaign, Campaign } from "@/hooks/useCampaigns";
 import { CreateCampaignModal } from "@/components/campaigns/CreateCampaignModal";
 import { JoinCampaignModal } from "@/components/campaigns/JoinCampaignModal";
+import { ImportCampaignModal } from "@/components/campaigns/ImportCampaignModal";
 import { EditCampaignModal } from "@/components/campaigns/EditCampaignModal";
 import { DeleteConfirmModal } from "@/components/campaigns/DeleteConfirmModal";
 import { MobileCampaignList } from "@/components/campaigns/MobileCampaignList";
@@ -23,6 +24,7 @@ export default function Campaigns() {
   const isMobile = useIsMobile();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
   const [deletingCampaign, setDeletingCampaign] = useState<Campaign | null>(null);
   const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
@@ -160,12 +162,16 @@ export default function Campaigns() {
             <TerminalButton className="flex-1" variant="secondary" onClick={() => setShowJoinModal(true)}>
               [ Join ]
             </TerminalButton>
+            <TerminalButton className="flex-1" variant="outline" onClick={() => setShowImportModal(true)}>
+              [ Import ]
+            </TerminalButton>
           </div>
         </div>
 
         {/* Modals */}
         <CreateCampaignModal open={showCreateModal} onClose={() => setShowCreateModal(false)} />
         <JoinCampaignModal open={showJoinModal} onClose={() => setShowJoinModal(false)} />
+        <ImportCampaignModal open={showImportModal} onClose={() => setShowImportModal(false)} />
         {editingCampaign && (
           <EditCampaignModal campaign={editingCampaign} open={!!editingCampaign} onClose={() => setEditingCampaign(null)} />
         )}
@@ -364,6 +370,9 @@ export default function Campaigns() {
           <TerminalButton className="w-full sm:w-auto" variant="secondary" onClick={() => setShowJoinModal(true)}>
             [ Join ]
           </TerminalButton>
+          <TerminalButton className="w-full sm:w-auto" variant="outline" onClick={() => setShowImportModal(true)}>
+            [ Import ]
+          </TerminalButton>
           <TerminalButton className="w-full sm:w-auto" variant="outline" onClick={handleOpenCampaign} disabled={!selectedCampaignId}>
             [ Open ]
           </TerminalButton>
@@ -400,6 +409,11 @@ export default function Campaigns() {
           open={showJoinModal}
           onClose={() => setShowJoinModal(false)}
         />
+
+        <ImportCampaignModal
+          open={showImportModal}
+          onClose={() => setShowImportModal(false)}
+        />
         
         {editingCampaign && (
           <EditCampaignModal
@@ -1,8 +1,15 @@
+import { useMemo, useState } from "react";
 import { useParams, useSearchParams, useNavigate } from "react-router-dom";
-import { useWarbandBuilder } from "@/hooks/useWarbandBuilder";
+import { useWarbandBuilder, type RosterUnit } from "@/hooks/useWarbandBuilder";
+import { useProgressionEvents } from "@/hooks/useWarbandProgression";
+import { useIsGM } from "@/hooks/useCampaigns";
+import { useAuth } from "@/hooks/useAuth";
+import { unitCareer, warbandStash, type UnitCareer } from "@/lib/warbandProgression";
 import { WarbandHeader } from "@/components/warband/WarbandHeader";
 import { UnitLibrary } from "@/components/warband/UnitLibrary";
 import { RosterPanel } from "@/components/warband/RosterPanel";
+import { UnitCareerDialog } from "@/components/warband/UnitCareerDialog";
+import { RosterImportDialog } from "@/components/warband/RosterImportDialog";
 import { FullScreenLoader } from "@/components/ui/TerminalLoader";
 import {
   ResizableHandle,
@@ -21,13 +28,16 @@ export default function WarbandBuilder() {
     faction,
     subFaction,
     roster,
+    ownerId,
     hasUnsavedChanges,
     totalPoints,
     pointsLimit,
     pointsRemaining,
     isOverLimit,
+    violations,
     factions,
     subFactions,
+    units,
     availableUnits,
     isLoading,
     isSaving,
@@ -36,12 +46,27 @@ export default function WarbandBuilder() {
     setFaction,
     setSubFaction,
     addUnit,
+    importUnits,
     removeUnit,
     updateQuantity,
     save,
     delete: deleteWarband,
   } = useWarbandBuilder(campaignId!, warbandId);
 
+  const { user } = useAuth();
+  const isGM = !!useIsGM(campaignId);
+  const { data: progression = [] } = useProgressionEvents(warbandId);
+  const [careerUnit, setCareerUnit] = useState<RosterUnit | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Careers only exist for saved warbands
+  const careers = useMemo(() => {
+    if (!warbandId) return undefined;
+    const byUnit: Record<string, UnitCareer> = {};
+    for (const unit of roster) byUnit[unit.id] = unitCareer(progression, unit.id);
+    return byUnit;
+  }, [warbandId, roster, progression]);
+
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this warband? This cannot be undone.")) {
       return;
@@ -84,6 +109,7 @@ export default function WarbandBuilder() {
         onSubFactionChange={setSubFaction}
         onSave={save}
         onDelete={handleDelete}
+        onImport={() => setImportOpen(true)}
       />
 
       {/* Main content: Unit Library | Roster */}
@@ -121,11 +147,38 @@ export default function WarbandBuilder() {
                 roster={roster}
                 onRemoveUnit={removeUnit}
                 onUpdateQuantity={updateQuantity}
+                careers={careers}
+                stash={warbandStash(progression)}
+                onOpenCareer={careers ? setCareerUnit : undefined}
+                violations={violations}
               />
             </div>
           </ResizablePanel>
         </ResizablePanelGroup>
       </div>
+
+      <RosterImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        campaignId={campaignId}
+        units={units}
+        faction={faction}
+        hasRoster={roster.length > 0}
+        onImport={importUnits}
+      />
+
+      {careerUnit && careers && warbandId && (
+        <UnitCareerDialog
+          open
+          onOpenChange={(open) => !open && setCareerUnit(null)}
+          campaignId={campaignId}
+          warbandId={warbandId}
+          unit={careerUnit}
+          career={careers[careerUnit.id] ?? unitCareer(progression, careerUnit.id)}
+          isGM={isGM}
+          isOwner={!!user && ownerId === user.id}
+        />
+      )}
     </div>
   );
 }
@@ -53,6 +53,7 @@ vi.mock('@/hooks/useWargameRules', () => ({
 }));
 
 vi.mock('@/hooks/useDashboardComponents', () => ({
+  useDashboardComponents: vi.fn(() => ({ data: [] })),
   useCreateComponent: vi.fn(() => ({
     mutateAsync: vi.fn(),
     isPending: false,
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCampaignExport,
+  planCampaignImport,
+  checkExportVersion,
+  CampaignImportError,
+  type CampaignExportFile,
+} from '@/lib/campaignImport';
+
+const GM = 'old-gm';
+const ALICE = 'old-alice';
+
+function sequentialIds() {
+  let n = 0;
+  return () => `new-${++n}`;
+}
+
+function exportFile(overrides: Partial<CampaignExportFile> = {}): CampaignExportFile {
+  return {
+    version: '1.0',
+    campaign: { id: 'old-campaign', owner_id: GM, name: 'Mordheim', join_code: 'ABC123', password_hash: 'x' },
+    players: [
+      { id: 'p1', campaign_id: 'old-campaign', user_id: GM, role: 'gm', player_name: null },
+      { id: 'p2', campaign_id: 'old-campaign', user_id: ALICE, role: 'player', player_name: null, faction: 'Reiklanders' },
+    ],
+    rules: [{ id: 'rule-1', campaign_id: 'old-campaign', category: 'tables', rule_key: 'injuries', title: 'Injuries', content: {} }],
+    components: [{ id: 'c1', campaign_id: 'old-campaign', name: 'Injuries', component_type: 'table', config: { rule_id: 'rule-1' } }],
+    warbands: [{ id: 'wb-1', campaign_id: 'old-campaign', owner_id: ALICE, name: 'Alice Band' }],
+    map: { id: 'map-1', campaign_id: 'old-campaign', title: 'Mordheim' },
+    mapLegend: [{ id: 'legend-1', map_id: 'map-1', name: 'Camp' }],
+    mapMarkers: [{ id: 'marker-1', map_id: 'map-1', legend_item_id: 'legend-1', position_x: 10, position_y: 20 }],
+    battleRounds: [{ id: 'round-1', campaign_id: 'old-campaign', round_index: 1, name: 'Round 1' }],
+    battleMatches: [{
+      id: 'match-1',
+      campaign_id: 'old-campaign',
+      round_id: 'round-1',
+      participants: [
+        { playerId: GM, playerName: 'The GM', side: 'a' },
+        { playerId: ALICE, playerName: 'Alice', side: 'b', warbandId: 'wb-1' },
+      ],
+      final_results: { [GM]: { outcome: 'loss', points: 0 }, [ALICE]: { outcome: 'win', points: 3 } },
+    }],
+    ...overrides,
+  };
+}
+
+describe('parseCampaignExport', () => {
+  it('rejects files that are not campaign exports', () => {
+    expect(() => parseCampaignExport('{nope')).toThrow(CampaignImportError);
+    expect(() => parseCampaignExport('[]')).toThrow("isn't a campaign export");
+    expect(() => parseCampaignExport('{"version":"1.0"}')).toThrow('campaign settings');
+  });
+});
+
+describe('checkExportVersion', () => {
+  it('blocks other major versions and warns about newer minors', () => {
+    expect(checkExportVersion('1.0')).toBeNull();
+    expect(checkExportVersion('2.0')?.level).toBe('error');
+    expect(checkExportVersion('1.3')?.level).toBe('warning');
+    expect(checkExportVersion(undefined)?.level).toBe('warning');
+  });
+});
+
+describe('planCampaignImport', () => {
+  it('gives every row a new id and re-points references', () => {
+    const plan = planCampaignImport(exportFile(), { userId: 'me', newId: sequentialIds() });
+    const { bundle } = plan;
+    const campaignId = bundle.campaign.id;
+
+    expect(plan.canImport).toBe(true);
+    expect(bundle.campaign).not.toHaveProperty('join_code');
+    expect(bundle.campaign).not.toHaveProperty('password_hash');
+    expect(bundle.components[0].config).toEqual({ rule_id: bundle.rules[0].id });
+    expect(bundle.mapMarkers[0]).toMatchObject({ map_id: bundle.maps[0].id, legend_item_id: bundle.mapLegend[0].id });
+    expect(bundle.battleMatches[0].round_id).toBe(bundle.battleRounds[0].id);
+    for (const rows of [bundle.players, bundle.rules, bundle.components, bundle.warbands, bundle.battleRounds]) {
+      expect(rows.every(row => row.campaign_id === campaignId)).toBe(true);
+    }
+  });
+
+  it('maps the exporting GM to the importer and everyone else to ghosts', () => {
+    const { bundle, ghostPlayers } = planCampaignImport(exportFile(), { userId: 'me', newId: sequentialIds() });
+    const alice = bundle.players.find(p => p.is_ghost)!;
+
+    expect(ghostPlayers).toBe(1);
+    expect(bundle.players.find(p => !p.is_ghost)?.user_id).toBe('me');
+    expect(alice).toMatchObject({ player_name: 'Alice', faction: 'Reiklanders' });
+    // warbands need a real account, so a ghost's warband comes across as the importer's
+    expect(bundle.warbands[0].owner_id).toBe('me');
+
+    const [match] = bundle.battleMatches;
+    expect(match.participants).toEqual([
+      { playerId: 'me', playerName: 'The GM', side: 'a' },
+      { playerId: alice.user_id, playerName: 'Alice', side: 'b', warbandId: bundle.warbands[0].id },
+    ]);
+    expect(Object.keys(match.final_results as object).sort()).toEqual([alice.user_id, 'me'].sort());
+  });
+
+  it('adds ghosts for battle participants missing from the player list', () => {
+    const plan = planCampaignImport(
+      exportFile({
+        battleMatches: [{ id: 'match-1', round_id: 'round-1', participants: [{ playerId: 'old-bob', side: 'a' }] }],
+      }),
+      { userId: 'me', newId: sequentialIds() }
+    );
+    const [bobId] = (plan.bundle.battleMatches[0].participants as { playerId: string }[]).map(p => p.playerId);
+
+    expect(plan.bundle.players.find(p => p.user_id === bobId)).toMatchObject({ is_ghost: true, player_name: 'Imported player 2' });
+    expect(plan.issues.some(i => i.message.includes('missing from the player list'))).toBe(true);
+  });
+
+  it('clears dates from a schedule skeleton', () => {
+    const plan = planCampaignImport(
+      exportFile({ schedule: [{ id: 's1', title: 'Round 1', round_number: 1, start_date: '2026-01-01', status: 'completed' }] }),
+      { userId: 'me', scheduleSkeleton: true, newId: sequentialIds() }
+    );
+
+    expect(plan.bundle.schedule[0]).toMatchObject({ title: 'Round 1', round_number: 1, start_date: null, status: null });
+  });
+
+  it('keeps sub-maps nested and markers linked to them', () => {
+    const plan = planCampaignImport(
+      exportFile({
+        maps: [
+          { id: 'map-1', title: 'Mordheim', grid_type: 'hex_pointy', cell_distance: 6 },
+          { id: 'map-2', title: 'The Pit', parent_map_id: 'map-1' },
+        ],
+        mapMarkers: [
+          { id: 'marker-1', map_id: 'map-1', legend_item_id: 'legend-1', linked_map_id: 'map-2', owner_player_id: 'p2', movement_allowance: 12 },
+          { id: 'marker-2', map_id: 'map-gone' },
+        ],
+      }),
+      { userId: 'me', newId: sequentialIds() }
+    );
+    const [city, pit] = plan.bundle.maps;
+    const alice = plan.bundle.players.find(p => p.player_name === 'Alice');
+
+    expect(pit).toMatchObject({ title: 'The Pit', parent_map_id: city.id, grid_type: 'none' });
+    expect(city).toMatchObject({ grid_type: 'hex_pointy', cell_distance: 6, parent_map_id: null });
+    expect(plan.bundle.mapMarkers).toHaveLength(1);
+    expect(plan.bundle.mapMarkers[0]).toMatchObject({
+      map_id: city.id,
+      linked_map_id: pit.id,
+      owner_player_id: alice?.id,
+      movement_allowance: 12,
+    });
+    expect(plan.sections.find(s => s.section === 'mapMarkers')).toMatchObject({ imported: 1, skipped: 1 });
+  });
+
+  it('keeps widget audiences, pointing them at the new player rows', () => {
+    const plan = planCampaignImport(
+      exportFile({
+        components: [
+          { id: 'c1', name: 'Secret objectives', component_type: 'card', config: { visibility: 'gm', locked: true } },
+          { id: 'c2', name: 'Scouting', component_type: 'card', visibility: 'custom', visible_roles: ['co_gm'], visible_player_ids: ['p2', 'gone'] },
+        ],
+      }),
+      { userId: GM, newId: sequentialIds() }
+    );
+
+    const alice = plan.bundle.players.find(p => p.user_id !== GM);
+    expect(plan.bundle.components[0]).toMatchObject({ visibility: 'gm', config: { locked: true } });
+    expect(plan.bundle.components[1]).toMatchObject({
+      visibility: 'custom',
+      visible_roles: ['co_gm'],
+      visible_player_ids: [alice?.id],
+    });
+  });
+
+  it('reports what it has to leave out', () => {
+    const plan = planCampaignImport(
+      exportFile({
+        version: '2.0',
+        components: [{ id: 'c1', name: 'Orphan', component_type: 'table', config: { rule_id: 'gone' }, shiny: true }],
+        battleMatches: [{ id: 'match-9', round_id: 'missing-round', participants: [] }],
+      }),
+      { userId: 'me', newId: sequentialIds() }
+    );
+
+    expect(plan.canImport).toBe(false);
+    expect(plan.bundle.components[0].config).toEqual({});
+    expect(plan.sections.find(s => s.section === 'battleMatches')).toMatchObject({ imported: 0, skipped: 1 });
+    expect(plan.issues.map(i => i.message).join('\n')).toMatch(/shiny/);
+  });
+});
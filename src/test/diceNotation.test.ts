@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDiceExpression,
+  rollDiceExpression,
+  keptDiceValues,
+  DiceNotationError,
+  replayMatchesTotal,
+  type DiceTermResult,
+} from '@/lib/diceNotation';
+import { createSeededRandom } from '@/lib/seededRandom';
+
+/** Random source that produces the given face values on dice of `sides` sides */
+function scripted(sides: number, values: number[]) {
+  let i = 0;
+  return () => {
+    if (i >= values.length) throw new Error('Ran out of scripted dice');
+    return (values[i++] - 0.5) / sides;
+  };
+}
+
+function diceOf(breakdown: ReturnType<typeof rollDiceExpression>, step = 0, term = 0) {
+  return (breakdown.steps[step].terms[term] as DiceTermResult).dice;
+}
+
+describe('parseDiceExpression', () => {
+  it('parses counts, sides and modifiers', () => {
+    const [step] = parseDiceExpression('4d6dl1 + 2').steps;
+
+    expect(step.terms).toEqual([
+      { kind: 'dice', sign: 1, count: 4, sides: 6, drop: { highest: false, count: 1 }, notation: '4d6dl1' },
+      { kind: 'constant', sign: 1, value: 2 },
+    ]);
+    expect(parseDiceExpression('D%').steps[0].terms[0]).toMatchObject({ count: 1, sides: 100 });
+  });
+
+  it('rejects invalid notation with a readable error', () => {
+    expect(() => parseDiceExpression('3d')).toThrow(DiceNotationError);
+    expect(() => parseDiceExpression('2d6x')).toThrow('Unexpected "x"');
+    expect(() => parseDiceExpression('d6r<=6')).toThrow('would reroll every result');
+    expect(() => parseDiceExpression('d1!')).toThrow('would explode on every result');
+    expect(() => parseDiceExpression('2d6 then')).toThrow(DiceNotationError);
+  });
+
+  it('rejects oversized dice before doing any work for them', () => {
+    expect(() => parseDiceExpression('d100000000000')).toThrow(DiceNotationError);
+    expect(() => parseDiceExpression('d100000000')).toThrow('has more than 1000 sides');
+    expect(() => parseDiceExpression('d0')).toThrow('needs at least one side');
+  });
+
+  it('only rejects rerolls that cover every face', () => {
+    expect(() => parseDiceExpression('d6r>=1')).toThrow('would reroll every result');
+    expect(() => parseDiceExpression('d1r1')).toThrow('would reroll every result');
+    expect(() => parseDiceExpression('d6r<7')).toThrow('would reroll every result');
+    expect(() => parseDiceExpression('d6r<6')).not.toThrow();
+    expect(() => parseDiceExpression('d6r>1')).not.toThrow();
+    expect(() => parseDiceExpression('d6ro<=6')).not.toThrow();
+  });
+});
+
+describe('rollDiceExpression', () => {
+  it('sums dice and constants', () => {
+    const result = rollDiceExpression('3d6+2', scripted(6, [1, 4, 6]));
+
+    expect(result.total).toBe(13);
+    expect(keptDiceValues(result)).toEqual([1, 4, 6]);
+  });
+
+  it('keeps the highest and drops the lowest', () => {
+    const advantage = rollDiceExpression('2d20kh1', scripted(20, [7, 15]));
+    expect(advantage.total).toBe(15);
+    expect(diceOf(advantage).map(d => d.status)).toEqual(['dropped', 'kept']);
+
+    const stats = rollDiceExpression('4d6dl1', scripted(6, [3, 1, 5, 1]));
+    expect(stats.total).toBe(9);
+    expect(diceOf(stats).map(d => d.status)).toEqual(['kept', 'dropped', 'kept', 'kept']);
+  });
+
+  it('explodes and rerolls', () => {
+    const exploding = rollDiceExpression('d6!', scripted(6, [6, 6, 2]));
+    expect(exploding.total).toBe(14);
+    expect(diceOf(exploding).map(d => !!d.exploded)).toEqual([true, true, false]);
+
+    const reroll = rollDiceExpression('2d6r1', scripted(6, [1, 1, 4, 5]));
+    expect(reroll.total).toBe(9);
+    expect(diceOf(reroll).map(d => d.status)).toEqual(['rerolled', 'rerolled', 'kept', 'kept']);
+
+    const once = rollDiceExpression('d6ro1', scripted(6, [1, 1]));
+    expect(once.total).toBe(1);
+  });
+
+  it('counts successes', () => {
+    const result = rollDiceExpression('5d6>=4', scripted(6, [1, 4, 6, 3, 5]));
+
+    expect(result.total).toBe(3);
+    expect(result.steps[0].countsSuccesses).toBe(true);
+    expect(diceOf(result).map(d => d.success)).toEqual([false, true, true, false, true]);
+  });
+
+  it('chains hits into wounds', () => {
+    // 4 to hit on 3+, the 3 hits wound on 5+
+    const result = rollDiceExpression('4d6>=3 then >=5', scripted(6, [2, 3, 6, 4, 5, 1, 6]));
+
+    expect(result.steps.map(s => s.total)).toEqual([3, 2]);
+    expect(diceOf(result, 1)).toHaveLength(3);
+    expect(result.total).toBe(2);
+  });
+
+  it('is repeatable with a seeded random source', () => {
+    const first = rollDiceExpression('10d6!r1>=4', createSeededRandom('dice'));
+    const second = rollDiceExpression('10d6!r1>=4', createSeededRandom('dice'));
+
+    expect(first).toEqual(second);
+  });
+});
+
+describe('replayMatchesTotal', () => {
+  it('confirms a roll only with the seed it was rolled from', () => {
+    const roll = rollDiceExpression('10d6>=4', createSeededRandom('seed-a'));
+
+    expect(replayMatchesTotal('10d6>=4', 'seed-a', roll.total)).toBe(true);
+    expect(replayMatchesTotal('10d6>=4', 'seed-a', roll.total + 1)).toBe(false);
+    expect(replayMatchesTotal('not dice', 'seed-a', roll.total)).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { fogBounds, fogRegionContains, simplifyStroke } from '@/lib/fog';
+
+const triangle = [{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 10, y: 30 }];
+
+const region = (shape: 'rect' | 'polygon' | 'brush', points = triangle, brushSize = 0) => ({
+  shape,
+  points,
+  brush_size: brushSize,
+  ...(shape === 'rect' ? { position_x: 10, position_y: 10, width: 20, height: 20 } : fogBounds(points, brushSize)),
+});
+
+describe('fogBounds', () => {
+  it('pads brush strokes by their radius and clips to the map', () => {
+    expect(fogBounds([{ x: 2, y: 50 }, { x: 20, y: 50 }], 6)).toEqual({
+      position_x: 0,
+      position_y: 47,
+      width: 23,
+      height: 6,
+    });
+  });
+});
+
+describe('fogRegionContains', () => {
+  it('fills the whole box for rectangles', () => {
+    expect(fogRegionContains(region('rect'), { x: 29, y: 29 })).toBe(true);
+    expect(fogRegionContains(region('rect'), { x: 31, y: 20 })).toBe(false);
+  });
+
+  it('only covers the inside of polygons', () => {
+    expect(fogRegionContains(region('polygon'), { x: 12, y: 12 })).toBe(true);
+    // Inside the bounding box but past the diagonal
+    expect(fogRegionContains(region('polygon'), { x: 28, y: 28 })).toBe(false);
+  });
+
+  it('covers a band around brush strokes', () => {
+    const stroke = region('brush', [{ x: 10, y: 50 }, { x: 40, y: 50 }], 4);
+    expect(fogRegionContains(stroke, { x: 25, y: 51.5 })).toBe(true);
+    expect(fogRegionContains(stroke, { x: 25, y: 52.5 })).toBe(false);
+
+    const dab = region('brush', [{ x: 50, y: 50 }], 4);
+    expect(fogRegionContains(dab, { x: 51, y: 51 })).toBe(true);
+  });
+});
+
+describe('simplifyStroke', () => {
+  it('drops points closer than the spacing but keeps both ends', () => {
+    const points = [{ x: 0, y: 0 }, { x: 0.1, y: 0 }, { x: 1, y: 0 }, { x: 1.2, y: 0 }];
+    expect(simplifyStroke(points)).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1.2, y: 0 }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LIBRARY_SOURCE,
+  diffLibrary,
+  librarySourceOf,
+  toCampaignRule,
+  toCampaignUnit,
+  type LibraryContent,
+  type LocalRule,
+  type LocalUnit,
+  type MasterRule,
+  type MasterUnit,
+} from '@/lib/gameSystemLibrary';
+
+const masterUnit = (id: string, overrides: Partial<MasterUnit> = {}): MasterUnit => ({
+  id,
+  game_system_id: 'sys',
+  faction_id: 'f-reik',
+  name: id,
+  base_cost: 25,
+  stats: { M: 4 },
+  abilities: [],
+  keywords: ['Henchman'],
+  equipment_options: ['Sword'],
+  ...overrides,
+});
+
+const masterRule = (id: string, overrides: Partial<MasterRule> = {}): MasterRule => ({
+  id,
+  game_system_id: 'sys',
+  faction_id: null,
+  category: 'Core',
+  rule_key: id,
+  title: id,
+  content: { type: 'card', title: id, sections: [] },
+  ...overrides,
+});
+
+const library = (units: MasterUnit[], rules: MasterRule[] = []): LibraryContent => ({
+  factions: [
+    { id: 'f-reik', game_system_id: 'sys', name: 'Reiklanders', slug: 'reik', description: null },
+    { id: 'f-orc', game_system_id: 'sys', name: 'Orcs', slug: 'orc', description: null },
+  ],
+  units,
+  rules,
+});
+
+// A campaign copy of a master unit, as instantiate would write it
+const copyUnit = (unit: MasterUnit, faction = 'Reiklanders'): LocalUnit => ({
+  id: `local-${unit.id}`,
+  ...toCampaignUnit(unit, faction, 'c1'),
+});
+
+const copyRule = (rule: MasterRule): LocalRule => ({ id: `local-${rule.id}`, ...toCampaignRule(rule, 'c1', '2026-01-01') });
+
+describe('instantiating', () => {
+  it('marks units and rules with where they came from', () => {
+    const unit = toCampaignUnit(masterUnit('warrior'), 'Reiklanders', 'c1');
+    expect(unit).toMatchObject({ source: LIBRARY_SOURCE, source_ref: 'warrior', faction: 'Reiklanders' });
+    expect(unit.source_hash).toBeTruthy();
+
+    const rule = copyRule(masterRule('movement'));
+    expect(librarySourceOf(rule)).toMatchObject({ gameSystemId: 'sys', masterRuleId: 'movement' });
+    expect(librarySourceOf({ metadata: { repo: {} } })).toBeNull();
+  });
+});
+
+describe('diffLibrary', () => {
+  it('offers nothing to a campaign that has not used the library', () => {
+    const diff = diffLibrary({ units: [], rules: [] }, library([masterUnit('warrior')], [masterRule('movement')]));
+    expect(diff.changes).toEqual([]);
+  });
+
+  it('reports nothing when the copies match the library', () => {
+    const warrior = masterUnit('warrior');
+    const movement = masterRule('movement');
+    const diff = diffLibrary({ units: [copyUnit(warrior)], rules: [copyRule(movement)] }, library([warrior], [movement]));
+    expect(diff).toEqual({ changes: [], unchanged: 2 });
+  });
+
+  it('offers new units for factions in use, core rules, and master changes', () => {
+    const warrior = masterUnit('warrior');
+    const local = { units: [copyUnit(warrior)], rules: [] };
+    const diff = diffLibrary(local, library(
+      [
+        masterUnit('warrior', { base_cost: 30 }),
+        masterUnit('captain'),
+        masterUnit('orc', { faction_id: 'f-orc' }),
+      ],
+      [masterRule('movement'), masterRule('waaagh', { faction_id: 'f-orc' })]
+    ));
+
+    expect(diff.changes.map(c => [c.kind, c.entity, c.ref, c.locallyEdited])).toEqual([
+      ['added', 'rule', 'movement', false],
+      ['added', 'unit', 'captain', false],
+      ['changed', 'unit', 'warrior', false],
+    ]);
+  });
+
+  it('flags copies the GM edited and leaves unchanged masters alone', () => {
+    const warrior = masterUnit('warrior');
+    const movement = masterRule('movement');
+    const edited = { ...copyUnit(warrior), base_cost: 10 };
+    const editedRule = { ...copyRule(movement), title: 'Moving' };
+
+    // Master unchanged: the GM's edits stand
+    expect(diffLibrary({ units: [edited], rules: [editedRule] }, library([warrior], [movement])).changes).toEqual([]);
+
+    // Master changed too: offered, but flagged
+    const diff = diffLibrary(
+      { units: [edited], rules: [editedRule] },
+      library([masterUnit('warrior', { name: 'Swordsman' })], [masterRule('movement', { content: { type: 'card', title: 'x', sections: [] } })])
+    );
+    expect(diff.changes.map(c => [c.kind, c.entity, c.locallyEdited])).toEqual([
+      ['changed', 'rule', true],
+      ['changed', 'unit', true],
+    ]);
+  });
+
+  it('reports copies whose master is gone, but never the campaign\'s own units', () => {
+    const own: LocalUnit = { ...copyUnit(masterUnit('homebrew')), source: 'custom', source_ref: null, source_hash: null };
+    const diff = diffLibrary(
+      { units: [copyUnit(masterUnit('warrior')), copyUnit(masterUnit('captain')), own], rules: [] },
+      library([masterUnit('warrior')])
+    );
+    expect(diff.changes.map(c => [c.kind, c.ref, c.localId])).toEqual([['removed', 'captain', 'local-captain']]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { formatDistance, gridPatternTile, measurePath, snapToGrid, type MapGrid } from '@/lib/mapGrid';
+
+const grid = (overrides: Partial<MapGrid> = {}): MapGrid => ({
+  grid_type: 'square',
+  grid_size: 10,
+  grid_offset_x: 0,
+  grid_offset_y: 0,
+  cell_distance: 5,
+  distance_unit: 'ft',
+  ...overrides,
+});
+
+const HEX_RADIUS = 10 / Math.sqrt(3);
+
+describe('snapToGrid', () => {
+  it('moves points to the centre of their square, keeping squares square on wide images', () => {
+    // The image is twice as wide as it is tall, so one cell is 20% of its height
+    expect(snapToGrid(grid(), { x: 13, y: 13 }, 0.5)).toEqual({ x: 15, y: 10 });
+    expect(snapToGrid(grid({ grid_offset_x: 2 }), { x: 13, y: 13 }, 1)).toEqual({ x: 17, y: 15 });
+  });
+
+  it('finds the hex a point sits in', () => {
+    const snapped = snapToGrid(grid({ grid_type: 'hex_pointy' }), { x: 14, y: 6 }, 1);
+    expect(snapped.x).toBeCloseTo(15);
+    expect(snapped.y).toBeCloseTo(HEX_RADIUS);
+
+    const flat = snapToGrid(grid({ grid_type: 'hex_flat' }), { x: 6, y: 4 }, 1);
+    expect(flat.x).toBeCloseTo(HEX_RADIUS);
+    expect(flat.y).toBeCloseTo(5);
+  });
+
+  it('leaves points alone without a grid', () => {
+    expect(snapToGrid(grid({ grid_type: 'none' }), { x: 13, y: 13 }, 1)).toEqual({ x: 13, y: 13 });
+  });
+});
+
+describe('measurePath', () => {
+  it('adds up straight legs in cells and campaign units', () => {
+    expect(measurePath(grid(), [{ x: 5, y: 5 }, { x: 5, y: 35 }, { x: 45, y: 35 }], 1)).toEqual({ cells: 7, distance: 35 });
+  });
+
+  it('counts hex steps between cells', () => {
+    const hexes = grid({ grid_type: 'hex_pointy', cell_distance: 6, distance_unit: 'mi' });
+    // From hex (0, 0) two rows down, which is also one column right
+    const path = [{ x: 5, y: HEX_RADIUS }, { x: 15, y: HEX_RADIUS + 10 * Math.sqrt(3) }];
+    expect(measurePath(hexes, path, 1)).toEqual({ cells: 2, distance: 12 });
+    expect(formatDistance(hexes, measurePath(hexes, path, 1))).toBe('12 mi (2 hexes)');
+  });
+});
+
+describe('gridPatternTile', () => {
+  it('repeats every cell for squares and every two rows for hexes', () => {
+    expect(gridPatternTile(grid())).toMatchObject({ width: 10, height: 10 });
+    expect(gridPatternTile(grid({ grid_type: 'hex_pointy' }))).toMatchObject({ width: 10, height: expect.closeTo(3 * HEX_RADIUS) });
+    expect(gridPatternTile(grid({ grid_type: 'hex_flat' }))).toMatchObject({ width: expect.closeTo(3 * HEX_RADIUS), height: 10 });
+    expect(gridPatternTile(grid({ grid_type: 'none' }))).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { flattenMapTree, mapBreadcrumbs, mapDescendants } from '@/lib/mapHierarchy';
+
+const maps = [
+  { id: 'world', parent_map_id: null },
+  { id: 'dungeon', parent_map_id: 'city' },
+  { id: 'city', parent_map_id: 'world' },
+  { id: 'islands', parent_map_id: null },
+  { id: 'orphan', parent_map_id: 'deleted' },
+];
+
+describe('mapBreadcrumbs', () => {
+  it('walks up to the top-level map', () => {
+    expect(mapBreadcrumbs(maps, 'dungeon').map(m => m.id)).toEqual(['world', 'city', 'dungeon']);
+    expect(mapBreadcrumbs(maps, 'orphan').map(m => m.id)).toEqual(['orphan']);
+    expect(mapBreadcrumbs(maps, null)).toEqual([]);
+  });
+
+  it('stops on a parent loop', () => {
+    const looped = [{ id: 'a', parent_map_id: 'b' }, { id: 'b', parent_map_id: 'a' }];
+    expect(mapBreadcrumbs(looped, 'a').map(m => m.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('mapDescendants', () => {
+  it('finds nested maps at any depth', () => {
+    expect([...mapDescendants(maps, 'world')].sort()).toEqual(['city', 'dungeon']);
+    expect(mapDescendants(maps, 'islands').size).toBe(0);
+  });
+});
+
+describe('flattenMapTree', () => {
+  it('lists children under their parent with a depth', () => {
+    expect(flattenMapTree(maps).map(({ map, depth }) => `${depth}:${map.id}`)).toEqual([
+      '0:world', '1:city', '2:dungeon', '0:islands', '0:orphan',
+    ]);
+  });
+
+  it('still lists maps caught in a loop', () => {
+    const looped = [{ id: 'a', parent_map_id: 'b' }, { id: 'b', parent_map_id: 'a' }];
+    expect(flattenMapTree(looped).map(({ map }) => map.id)).toEqual(['a', 'b']);
+  });
+});
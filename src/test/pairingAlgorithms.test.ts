@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { generatePairings, validatePairings, planPodSizes, expandMeetings, type Player, type MatchHistory, type PairingResult } from '@/lib/pairingAlgorithms';
+import { minCostPerfectMatching } from '@/lib/weightedMatching';
+import { createSeededRandom } from '@/lib/seededRandom';
+
+function bruteForceMinCost(size: number, cost: (i: number, j: number) => number): number {
+  const solve = (remaining: number[]): number => {
+    if (remaining.length === 0) return 0;
+    const [first, ...rest] = remaining;
+    let best = Infinity;
+    for (let k = 0; k < rest.length; k++) {
+      const others = rest.filter((_, i) => i !== k);
+      best = Math.min(best, cost(first, rest[k]) + solve(others));
+    }
+    return best;
+  };
+  return solve(Array.from({ length: size }, (_, i) => i));
+}
+
+function pairIds(pairings: PairingResult[]): string[][] {
+  return pairings.map(p => p.participants.map(pp => pp.playerId));
+}
+
+const players = (count: number, points: number[] = []): Player[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}`, points: points[i] ?? 0 }));
+
+describe('minCostPerfectMatching', () => {
+  it('matches brute force on random graphs', () => {
+    const random = createSeededRandom('matching');
+    for (let trial = 0; trial < 40; trial++) {
+      const size = 2 + 2 * Math.floor(random() * 4);
+      const costs: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+      for (let i = 0; i < size; i++) {
+        for (let j = i + 1; j < size; j++) {
+          costs[i][j] = costs[j][i] = Math.floor(random() * 50);
+        }
+      }
+
+      const mate = minCostPerfectMatching(size, (i, j) => costs[i][j]);
+      const total = mate.reduce((sum, j, i) => (j > i ? sum + costs[i][j] : sum), 0);
+
+      expect(mate.every((j, i) => mate[j] === i)).toBe(true);
+      expect(total).toBe(bruteForceMinCost(size, (i, j) => costs[i][j]));
+    }
+  });
+});
+
+describe('generatePairings (swiss)', () => {
+  it('is deterministic for the same seed', () => {
+    const field = players(8);
+    const first = generatePairings('swiss', field, {}, [], 1, { seed: 'round-1' });
+    const second = generatePairings('swiss', field, {}, [], 1, { seed: 'round-1' });
+
+    expect(pairIds(first)).toEqual(pairIds(second));
+  });
+
+  it('pairs within score groups when possible', () => {
+    const field = players(4, [6, 0, 6, 0]);
+    const pairings = generatePairings('swiss', field, {}, [], 2, { seed: 1 });
+
+    const sorted = pairIds(pairings).map(ids => [...ids].sort());
+    expect(sorted).toContainEqual(['p1', 'p3']);
+    expect(sorted).toContainEqual(['p2', 'p4']);
+  });
+
+  it('avoids rematches that a greedy top-down pass would force', () => {
+    // Greedy pairs p1-p2 first, leaving p3 and p4 who have already met twice
+    const field = players(4, [9, 6, 6, 3]);
+    const history: MatchHistory[] = [
+      { roundIndex: 1, playerAId: 'p3', playerBId: 'p4' },
+      { roundIndex: 2, playerAId: 'p3', playerBId: 'p4' },
+    ];
+
+    const pairings = generatePairings('swiss', field, { maxRematchCount: 2 }, history, 3, { seed: 'x' });
+    const sorted = pairIds(pairings).map(ids => [...ids].sort());
+
+    expect(sorted).not.toContainEqual(['p3', 'p4']);
+    expect(validatePairings(pairings, { maxRematchCount: 2 }, history).valid).toBe(true);
+  });
+
+  it('gives the bye to the lowest-ranked player without one', () => {
+    const field = players(5, [9, 6, 3, 3, 0]);
+    const pairings = generatePairings('swiss', field, {}, [], 3, { seed: 's', byeHistory: ['p5'] });
+
+    const bye = pairings.find(p => p.isBye)!;
+    expect(bye.participants[0].playerId).not.toBe('p5');
+    expect(['p3', 'p4']).toContain(bye.participants[0].playerId);
+  });
+});
+
+describe('generatePairings (pods)', () => {
+  it('splits uneven fields into pods of three and four', () => {
+    expect(planPodSizes(10, 4)).toEqual([4, 3, 3]);
+    expect(planPodSizes(9, 3)).toEqual([3, 3, 3]);
+    expect(planPodSizes(5, 4)).toEqual([3, 2]);
+    expect(planPodSizes(1, 4)).toEqual([]);
+  });
+
+  it('seats everyone once and keeps previous podmates apart', () => {
+    const field = players(9);
+    const history = [
+      ...expandMeetings(1, ['p1', 'p2', 'p3']),
+      ...expandMeetings(1, ['p4', 'p5', 'p6']),
+      ...expandMeetings(1, ['p7', 'p8', 'p9']),
+    ];
+
+    const pairings = generatePairings('pods', field, { podSize: 3, noBackToBack: true }, history, 2, { seed: 'pods' });
+
+    expect(pairings.flatMap(p => p.participants.map(pp => pp.playerId)).sort()).toEqual(field.map(p => p.id).sort());
+    expect(pairings.every(p => p.participants.length === 3)).toBe(true);
+    expect(new Set(pairings[0].participants.map(pp => pp.side)).size).toBe(3);
+    expect(validatePairings(pairings, { noBackToBack: true }, history).valid).toBe(true);
+  });
+});
+
+describe('generatePairings (teams)', () => {
+  it('builds 2v2 games with balanced teams', () => {
+    const field = players(4, [9, 6, 3, 0]);
+
+    const [game] = generatePairings('teams', field, {}, [], 1, { seed: 't' });
+    const teamPoints = (side: string) => game.participants
+      .filter(p => p.side === side)
+      .reduce((sum, p) => sum + field.find(f => f.id === p.playerId)!.points, 0);
+
+    expect(game.participants).toHaveLength(4);
+    expect(teamPoints('a')).toBe(teamPoints('b'));
+  });
+
+  it('counts everyone sharing a table as having met, teammates included', () => {
+    const history = expandMeetings(1, ['p1', 'p2']);
+    const game: PairingResult = {
+      participants: [
+        { playerId: 'p1', playerName: 'A', side: 'a' },
+        { playerId: 'p2', playerName: 'B', side: 'a' },
+        { playerId: 'p3', playerName: 'C', side: 'b' },
+        { playerId: 'p4', playerName: 'D', side: 'b' },
+      ],
+      isBye: false,
+    };
+
+    expect(validatePairings([game], { noBackToBack: true }, history).valid).toBe(false);
+    expect(expandMeetings(2, ['p1', 'p2', 'p3'])).toHaveLength(3);
+  });
+});
+
+describe('validatePairings', () => {
+  it('explains when a player has no compliant opponent left', () => {
+    const history: MatchHistory[] = [
+      { roundIndex: 1, playerAId: 'p1', playerBId: 'p2' },
+      { roundIndex: 1, playerAId: 'p3', playerBId: 'p4' },
+    ];
+    const pairings = generatePairings('swiss', players(2), { noBackToBack: true }, history.slice(0, 1), 2, { seed: 1 });
+
+    const result = validatePairings(pairings, { noBackToBack: true }, history);
+
+    expect(result.valid).toBe(false);
+    expect(result.warnings[0]).toContain('back-to-back');
+    expect(result.warnings[0]).toContain('has no other opponent left');
+  });
+
+  it('points out when a compliant pairing exists', () => {
+    const history: MatchHistory[] = [{ roundIndex: 1, playerAId: 'p1', playerBId: 'p2' }];
+    const manual: PairingResult[] = [
+      { participants: [{ playerId: 'p1', playerName: 'A', side: 'a' }, { playerId: 'p2', playerName: 'B', side: 'b' }], isBye: false },
+      { participants: [{ playerId: 'p3', playerName: 'C', side: 'a' }, { playerId: 'p4', playerName: 'D', side: 'b' }], isBye: false },
+    ];
+
+    const result = validatePairings(manual, { noBackToBack: true }, history);
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('a pairing with fewer breaks exists');
+  });
+
+  it('reports repeat byes', () => {
+    const pairings: PairingResult[] = [
+      { participants: [{ playerId: 'p1', playerName: 'A', side: 'a' }], isBye: true },
+      { participants: [{ playerId: 'p2', playerName: 'B', side: 'a' }, { playerId: 'p3', playerName: 'C', side: 'b' }], isBye: false },
+    ];
+
+    const result = validatePairings(pairings, {}, [], { byeHistory: ['p1'] });
+
+    expect(result.warnings).toEqual(['A receives bye #2 while 2 player(s) have not had one']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { layoutOcrLine, ocrConfidenceLevel, ocrPageConfidence, ocrPageText, type OcrWord } from "@/lib/pdfOcr";
+import { detectPipeTables, detectDiceRollTables, getOcrPageNumbers } from "@/lib/pdfExtractor";
+
+// Words laid out on a 10px-per-character grid
+const word = (text: string, column: number, confidence = 90): OcrWord => ({
+  text,
+  confidence,
+  bbox: { x0: column * 10, y0: 0, x1: (column + text.length) * 10, y1: 12 },
+});
+
+describe("layoutOcrLine", () => {
+  it("joins words on a line of prose with single spaces", () => {
+    expect(layoutOcrLine([word("Roll", 0), word("a", 5), word("D6.", 7)])).toBe("Roll a D6.");
+  });
+
+  it("writes lines with three or more spaced-out cells as pipe rows", () => {
+    const line = [word("Sword", 0), word("Melee", 12), word("+1", 24), word("Strength", 27)];
+    expect(layoutOcrLine(line)).toBe("| Sword | Melee | +1 Strength |");
+  });
+
+  it("leaves two-cell lines for the dice detector", () => {
+    expect(layoutOcrLine([word("3", 0), word("Robbed", 6)])).toBe("3 Robbed");
+  });
+});
+
+describe("OCR page text", () => {
+  it("cleans recognised lines and feeds the table detectors", () => {
+    const text = ocrPageText([
+      { words: [word("Weapons", 0)] },
+      { words: [word("Name", 0), word("Range", 12), word("Cost", 24)] },
+      { words: [word("Bow", 0), word("24\"", 12), word("10", 24)] },
+      { words: [word("Sling", 0), word("18\"", 12), word("5", 24)] },
+      { words: [word("Injuries", 0)] },
+      { words: [word("1-2", 0), word("Dead", 6)] },
+      { words: [word("3-4", 0), word("Captured", 6)] },
+      { words: [word("5-6", 0), word("Recovered", 6)] },
+    ]);
+
+    const [pipe] = detectPipeTables(text, 1);
+    expect(pipe.columns).toEqual(["Name", "Range", "Cost"]);
+    expect(pipe.rows).toEqual([["Bow", "24\"", "10"], ["Sling", "18\"", "5"]]);
+    expect(detectDiceRollTables(text, 1)[0].rows).toHaveLength(3);
+  });
+
+  it("scores pages by length-weighted word confidence", () => {
+    const confidence = ocrPageConfidence([{ words: [word("Strength", 0, 90), word("x", 10, 10)] }]);
+    expect(confidence).toBe(81);
+    expect(ocrConfidenceLevel(confidence)).toBe("medium");
+    expect(ocrConfidenceLevel(92)).toBe("high");
+    expect(ocrConfidenceLevel(40)).toBe("low");
+    expect(ocrPageConfidence([])).toBe(0);
+  });
+});
+
+describe("getOcrPageNumbers", () => {
+  it("picks the near-empty pages of a scanned PDF", () => {
+    const pages = [
+      { pageNumber: 1, text: "", charCount: 0 },
+      { pageNumber: 2, text: "Cover credits and a copyright notice long enough to count as text.", charCount: 66 },
+      { pageNumber: 3, text: "12", charCount: 2 },
+    ];
+    expect(getOcrPageNumbers(pages)).toEqual([1, 3]);
+  });
+
+  it("leaves text PDFs alone", () => {
+    const text = "A full page of rules text, long enough that nothing here looks scanned.";
+    expect(getOcrPageNumbers([{ pageNumber: 1, text, charCount: text.length }])).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ledgerBalances, ledgerHistory, reportLedgerLines, rosterPurchases } from '@/lib/resourceLedger';
+
+const entry = (id: string, currency_id: string, amount: number, created_at: string, undone_at: string | null = null) => ({
+  id,
+  currency_id,
+  amount,
+  created_at,
+  undone_at,
+});
+
+const entries = [
+  entry('income', 'gold', 10, '2026-04-01T10:00:00Z'),
+  entry('glory', 'glory', 3, '2026-04-02T10:00:00Z'),
+  entry('mistake', 'gold', 50, '2026-04-03T10:00:00Z', '2026-04-03T11:00:00Z'),
+  entry('purchase', 'gold', -4, '2026-04-04T10:00:00Z'),
+];
+
+describe('ledgerBalances', () => {
+  it('sums each currency, skipping undone entries', () => {
+    expect(ledgerBalances(entries)).toEqual({ gold: 6, glory: 3 });
+  });
+});
+
+describe('ledgerHistory', () => {
+  it('lists newest first with the running balance of each currency', () => {
+    expect(ledgerHistory(entries).map(r => [r.entry.id, r.balance])).toEqual([
+      ['purchase', 6],
+      ['mistake', 10],
+      ['glory', 3],
+      ['income', 10],
+    ]);
+  });
+});
+
+describe('rosterPurchases', () => {
+  const before = [
+    { id: 'a', name: 'Swordsman', cost: 5, quantity: 2 },
+    { id: 'b', name: 'Captain', cost: 60, quantity: 1 },
+  ];
+
+  it('charges for new lines and extra models only', () => {
+    const after = [
+      { id: 'a', name: 'Swordsman', cost: 5, quantity: 5 },
+      { id: 'c', name: 'Archer', cost: 8, quantity: 1 },
+    ];
+    expect(rosterPurchases(before, after)).toEqual([
+      { name: 'Swordsman', quantity: 3, cost: 15 },
+      { name: 'Archer', quantity: 1, cost: 8 },
+    ]);
+  });
+
+  it('buys nothing when units are removed or unchanged', () => {
+    expect(rosterPurchases(before, [{ ...before[0], quantity: 1 }, before[1]])).toEqual([]);
+  });
+
+  it('buys the new unit when a line swaps its unit', () => {
+    const owned = [{ id: 'a', unitId: 'sword', name: 'Swordsman', cost: 5, quantity: 2 }];
+    expect(rosterPurchases(owned, [{ id: 'a', unitId: 'captain', name: 'Captain', cost: 60, quantity: 2 }])).toEqual([
+      { name: 'Captain', quantity: 2, cost: 120 },
+    ]);
+  });
+});
+
+describe('reportLedgerLines', () => {
+  it('turns gained and spent into signed entries', () => {
+    expect(reportLedgerLines({ gained: 12, spent: 5 })).toEqual([
+      { amount: 12, reason: 'Gained in battle' },
+      { amount: -5, reason: 'Spent after battle' },
+    ]);
+    expect(reportLedgerLines({})).toEqual([]);
+  });
+});
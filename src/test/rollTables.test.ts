@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeRollTable,
+  parseRollRange,
+  tableValueFromRoll,
+  findRowForValue,
+  describeRow,
+  findTableReference,
+  matchTableByName,
+  type RollTableRow,
+} from '@/lib/rollTables';
+import { rollDiceExpression } from '@/lib/diceNotation';
+
+const table = (ranges: string[]): RollTableRow[] =>
+  ranges.map((range, i) => ({ id: `r${i}`, Roll: range, Result: `Result ${i}` }));
+
+describe('parseRollRange', () => {
+  it('reads single values, ranges and open ends', () => {
+    expect(parseRollRange('3')).toEqual({ min: 3, max: 3 });
+    expect(parseRollRange(' 11–16 ')).toEqual({ min: 11, max: 16 });
+    expect(parseRollRange('96-00')).toEqual({ min: 96, max: 100 });
+    expect(parseRollRange('12+')).toEqual({ min: 12, max: Infinity });
+    expect(parseRollRange('Dead')).toBeNull();
+  });
+});
+
+describe('analyzeRollTable', () => {
+  it('infers D6, 2D6, D66 and D100 from the ranges', () => {
+    expect(analyzeRollTable(['Roll', 'Result'], table(['1-2', '3-4', '5-6']))?.dice.label).toBe('D6');
+    expect(analyzeRollTable(['Roll', 'Result'], table(['2', '3-6', '7-11', '12']))?.dice.label).toBe('2D6');
+    expect(analyzeRollTable(['Roll', 'Result'], table(['11-16', '21-36', '41-66']))?.dice.label).toBe('D66');
+    expect(analyzeRollTable(['Roll', 'Result'], table(['01-50', '51-95', '96-00']))?.dice.label).toBe('D100');
+  });
+
+  it('skips columns that are not all ranges', () => {
+    const rows = [
+      { id: 'a', Name: 'Sword', Roll: '1-3' },
+      { id: 'b', Name: 'Axe', Roll: '4-6' },
+    ];
+    const rollable = analyzeRollTable(['Name', 'Roll'], rows);
+
+    expect(rollable?.rangeColumn).toBe('Roll');
+    expect(analyzeRollTable(['Name'], rows)).toBeNull();
+  });
+
+  it('closes open-ended ranges at the top of the dice', () => {
+    const rollable = analyzeRollTable(['Roll', 'Result'], table(['2-6', '7-9', '10+']))!;
+    expect(findRowForValue(rollable, 12)).toBe('r2');
+  });
+});
+
+describe('tableValueFromRoll', () => {
+  it('reads D66 as tens and units', () => {
+    const rollable = analyzeRollTable(['Roll', 'Result'], table(['11-36', '41-66']))!;
+    const values = [3, 5];
+    const breakdown = rollDiceExpression(rollable.dice.expression, () => (values.shift()! - 0.5) / 6);
+
+    expect(tableValueFromRoll(rollable.dice, breakdown)).toBe(35);
+    expect(findRowForValue(rollable, 35)).toBe('r0');
+  });
+});
+
+describe('nested table references', () => {
+  it('finds named tables and same-table rerolls', () => {
+    expect(findTableReference('Captured! Roll on the Serious Injuries table.')).toEqual({
+      sameTable: false,
+      name: 'Serious Injuries',
+    });
+    expect(findTableReference('Roll again on table: Loot')).toEqual({ sameTable: false, name: 'Loot' });
+    expect(findTableReference('Roll again and add 1')).toEqual({ sameTable: true });
+    expect(findTableReference('May re-roll one die next battle')).toBeNull();
+  });
+
+  it('matches references to rule titles', () => {
+    const rules = [{ title: 'Lasting Injuries' }, { title: 'Serious Injuries Table' }];
+
+    expect(matchTableByName('serious injuries', rules)).toBe(rules[1]);
+    expect(matchTableByName('Lasting', rules)).toBe(rules[0]);
+    expect(matchTableByName('Exploration', rules)).toBeNull();
+  });
+
+  it('describes a row without its roll column', () => {
+    expect(describeRow(['Roll', 'Result', 'Effect'], { id: 'x', Roll: '1', Result: 'Dead', Effect: '' }, 'Roll')).toBe('Dead');
+  });
+});
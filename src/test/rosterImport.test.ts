@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchEntries,
+  matchUnit,
+  nameSimilarity,
+  normalizeUnitName,
+  parseRosterList,
+  toRosterUnits,
+  type ImportableUnit,
+} from '@/lib/rosterImport';
+
+const unit = (id: string, name: string, faction = 'Reiklanders', base_cost = 25): ImportableUnit => ({
+  id,
+  name,
+  faction,
+  base_cost,
+  stats: {},
+  abilities: [],
+  keywords: ['Henchman'],
+});
+
+const units = [
+  unit('u-captain', 'Mercenary Captain', 'Reiklanders', 60),
+  unit('u-warrior', 'Warrior'),
+  unit('u-youngblood', 'Youngblood', 'Reiklanders', 15),
+  unit('u-marksman', 'Marksman'),
+  unit('u-orc', 'Orc Boy', 'Orcs'),
+];
+
+describe('parseRosterList: text', () => {
+  it('reads quantities, points and wargear in the common layouts', () => {
+    const list = parseRosterList([
+      'Warband: The Grey Company',
+      'Faction: Reiklanders',
+      '',
+      'Mercenary Captain (60 pts): Sword, Shield',
+      '3x Warrior [75pts]',
+      'Youngbloods x2 - Dagger and Club',
+      '- Marksman (25 gc)',
+      'Total: 235 pts',
+    ].join('\n'));
+
+    expect(list.format).toBe('text');
+    expect(list.name).toBe('The Grey Company');
+    expect(list.faction).toBe('Reiklanders');
+    expect(list.entries).toEqual([
+      { name: 'Mercenary Captain', quantity: 1, cost: 60, equipment: ['Sword', 'Shield'] },
+      { name: 'Warrior', quantity: 3, cost: 75, equipment: [] },
+      { name: 'Youngbloods', quantity: 2, cost: null, equipment: ['Dagger', 'Club'] },
+      { name: 'Marksman', quantity: 1, cost: 25, equipment: [] },
+    ]);
+  });
+
+  it('treats indented and dotted lines as wargear of the entry above', () => {
+    const list = parseRosterList([
+      '++ Army Roster ++',
+      '+ HQ +',
+      'Captain (80 points)',
+      '  • 1x Bolt pistol',
+      '  • 1x Power weapon',
+      'Intercessor Squad [5 PL, 90pts]: Bolt rifle',
+    ].join('\n'));
+
+    expect(list.entries).toEqual([
+      { name: 'Captain', quantity: 1, cost: 80, equipment: ['Bolt pistol', 'Power weapon'] },
+      { name: 'Intercessor Squad', quantity: 1, cost: 90, equipment: ['Bolt rifle'] },
+    ]);
+  });
+});
+
+describe('parseRosterList: JSON', () => {
+  it('walks BattleScribe-style forces and selections', () => {
+    const list = parseRosterList(JSON.stringify({
+      roster: {
+        name: 'Grey Company',
+        forces: [{
+          catalogueName: 'Reiklanders',
+          selections: [
+            {
+              name: 'Mercenary Captain',
+              type: 'model',
+              number: 1,
+              costs: [{ name: 'pts', value: 60 }],
+              selections: [{ name: 'Sword', type: 'upgrade' }, { name: 'Shield', type: 'upgrade' }],
+            },
+            {
+              name: 'Warriors',
+              type: 'unit',
+              selections: [{ name: 'Warrior', type: 'model', number: 3, selections: [{ name: 'Halberd', type: 'upgrade' }] }],
+            },
+            { name: 'Detachment rules', type: 'upgrade' },
+          ],
+        }],
+      },
+    }));
+
+    expect(list.format).toBe('battlescribe');
+    expect(list.name).toBe('Grey Company');
+    expect(list.faction).toBe('Reiklanders');
+    expect(list.entries).toEqual([
+      { name: 'Mercenary Captain', quantity: 1, cost: 60, equipment: ['Sword', 'Shield'] },
+      { name: 'Warriors', quantity: 1, cost: null, equipment: ['Halberd'] },
+    ]);
+  });
+
+  it('reads a plain array of units', () => {
+    const list = parseRosterList('[{"name":"Warrior","count":4,"points":100,"equipment":[{"name":"Spear"}]},{"nope":1}]');
+    expect(list.format).toBe('json');
+    expect(list.entries).toEqual([{ name: 'Warrior', quantity: 4, cost: 100, equipment: ['Spear'] }]);
+  });
+
+  it('falls back to text when the JSON is broken', () => {
+    expect(parseRosterList('[2x Warrior').format).toBe('text');
+  });
+});
+
+describe('matching', () => {
+  it('normalises case, punctuation and plurals', () => {
+    expect(normalizeUnitName("Youngbloods")).toBe('youngblood');
+    expect(normalizeUnitName("Witch Hunters' Zealots")).toBe('witch hunter zealot');
+    expect(normalizeUnitName('Harpies')).toBe('harpy');
+  });
+
+  it('scores near names highly and different names low', () => {
+    expect(nameSimilarity('Warriors', 'warrior')).toBe(1);
+    expect(nameSimilarity('Captain', 'Mercenary Captain')).toBeGreaterThan(0.8);
+    expect(nameSimilarity('Marksmen', 'Marksman')).toBeGreaterThan(0.75);
+    expect(nameSimilarity('Ogre', 'Warrior')).toBeLessThan(0.5);
+  });
+
+  it('matches entries to units and reports the rest', () => {
+    const { matches, unmatched } = matchEntries(
+      [
+        { name: 'Captain', quantity: 1, cost: 60, equipment: ['Sword'] },
+        { name: 'Warriors', quantity: 3, cost: null, equipment: [] },
+        { name: 'Ogre Bodyguard', quantity: 1, cost: null, equipment: [] },
+      ],
+      units
+    );
+
+    expect(matches.map(m => [m.unit.id, m.score])).toEqual([
+      ['u-captain', expect.any(Number)],
+      ['u-warrior', 1],
+    ]);
+    expect(unmatched.map(e => e.name)).toEqual(['Ogre Bodyguard']);
+  });
+
+  it('prefers the warband faction when names tie', () => {
+    const twins = [unit('a', 'Warrior', 'Orcs'), unit('b', 'Warrior', 'Reiklanders')];
+    expect(matchUnit('Warrior', twins, 'Reiklanders')?.unit.id).toBe('b');
+  });
+
+  it('builds roster units costed from the campaign units', () => {
+    const { matches } = matchEntries([{ name: 'Warriors', quantity: 3, cost: 999, equipment: ['Spear'] }], units);
+    const [rosterUnit] = toRosterUnits(matches);
+    expect(rosterUnit).toMatchObject({
+      unitId: 'u-warrior',
+      name: 'Warrior',
+      cost: 25,
+      quantity: 3,
+      equipment: ['Spear'],
+      keywords: ['Henchman'],
+    });
+    expect(rosterUnit.id).toBeTruthy();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { diffRuleContent, summarizeRuleDiff } from '@/lib/ruleDiff';
+
+const table = (rows: Array<Record<string, string>>, columns = ['D6', 'Result']) => ({ type: 'table', columns, rows });
+const card = (sections: Array<Record<string, string>>, title = 'Card') => ({ type: 'card', title, sections });
+
+describe('diffRuleContent', () => {
+  it('lines table rows up by id and marks the changed cells', () => {
+    const before = table([
+      { id: 'r1', D6: '1-2', Result: 'Dead' },
+      { id: 'r2', D6: '3-4', Result: 'Captured' },
+      { id: 'r3', D6: '5-6', Result: 'Fine' },
+    ]);
+    const after = table([
+      { id: 'r1', D6: '1-2', Result: 'Dead' },
+      { id: 'r3', D6: '5-6', Result: 'Full Recovery' },
+      { id: 'r4', D6: '7', Result: 'Promoted' },
+    ]);
+
+    const diff = diffRuleContent(before, after);
+    if (diff.type !== 'table') throw new Error('expected a table diff');
+
+    expect(diff.rows.map(r => [r.status, r.before?.id ?? null, r.after?.id ?? null])).toEqual([
+      ['same', 'r1', 'r1'],
+      ['removed', 'r2', null],
+      ['changed', 'r3', 'r3'],
+      ['added', null, 'r4'],
+    ]);
+    expect(diff.rows[2].changedColumns).toEqual(['Result']);
+    expect(summarizeRuleDiff(diff)).toEqual({ added: 1, removed: 1, changed: 1 });
+  });
+
+  it('keeps removed columns so both sides can be shown', () => {
+    const diff = diffRuleContent(
+      table([{ id: 'r1', D6: '1', Result: 'Dead' }]),
+      table([{ id: 'r1', Roll: '1', Result: 'Dead' }], ['Roll', 'Result'])
+    );
+    if (diff.type !== 'table') throw new Error('expected a table diff');
+
+    expect(diff.columns).toEqual(['Roll', 'Result', 'D6']);
+    expect(diff.addedColumns).toEqual(['Roll']);
+    expect(diff.removedColumns).toEqual(['D6']);
+    expect(diff.rows[0].changedColumns).toEqual(['Roll', 'D6']);
+  });
+
+  it('compares card sections and the card title', () => {
+    const diff = diffRuleContent(
+      card([{ id: 's1', header: 'When', content: 'Old text' }, { id: 's2', header: 'Then', content: 'Roll' }]),
+      card([{ id: 's1', header: 'When', content: 'New text' }], 'Renamed')
+    );
+    if (diff.type !== 'card') throw new Error('expected a card diff');
+
+    expect(diff.titleChanged).toBe(true);
+    expect(diff.sections.map(s => s.status)).toEqual(['changed', 'removed']);
+    expect(diff.sections[0]).toMatchObject({ headerChanged: false, contentChanged: true });
+  });
+
+  it('falls back to positions when rows have no ids', () => {
+    const diff = diffRuleContent(table([{ D6: '1', Result: 'A' }]), table([{ D6: '1', Result: 'B' }]));
+    if (diff.type !== 'table') throw new Error('expected a table diff');
+
+    expect(diff.rows.map(r => r.status)).toEqual(['changed']);
+  });
+
+  it('reports a switch between table and card as a replacement', () => {
+    expect(diffRuleContent(table([]), card([])).type).toBe('replaced');
+  });
+});
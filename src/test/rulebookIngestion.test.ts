@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReviewItems,
+  parseReviewItems,
+  reviewItemContent,
+  reviewSummary,
+  type ReviewItem,
+} from '@/lib/rulebookIngestion';
+import type { PDFPage } from '@/lib/pdfExtractor';
+
+const page = (pageNumber: number, lines: string[]): PDFPage => {
+  const text = lines.join('\n');
+  return { pageNumber, text, charCount: text.length };
+};
+
+const item = (overrides: Partial<ReviewItem>): ReviewItem => ({
+  id: crypto.randomUUID(),
+  kind: 'section',
+  title: 'Title',
+  pageNumber: 1,
+  confidence: 'medium',
+  text: '',
+  status: 'pending',
+  ...overrides,
+});
+
+describe('buildReviewItems', () => {
+  it('finds sections with their text and dice tables, in page order', () => {
+    const items = buildReviewItems([
+      page(1, [
+        'CAMPAIGN RULES',
+        'Warbands fight a series of battles.',
+        '',
+        'SERIOUS INJURIES',
+        'Roll on this table for each fallen hero.',
+        'D6 Result',
+        '1 Dead',
+        '2 Captured',
+        '3 Robbed',
+        '4 Full Recovery',
+      ]),
+      page(2, [
+        'Injured heroes miss the next battle',
+        'unless the warband pays for a surgeon.',
+      ]),
+    ]);
+
+    expect(items.map(i => [i.kind, i.title, i.pageNumber])).toEqual([
+      ['section', 'CAMPAIGN RULES', 1],
+      ['section', 'SERIOUS INJURIES', 1],
+      ['table', expect.any(String), 1],
+    ]);
+    expect(items[0].text).toBe('Warbands fight a series of battles.');
+    expect(items[1].text).toContain('unless the warband pays for a surgeon.');
+    expect(items[2].rows).toHaveLength(4);
+    expect(items.every(i => i.status === 'pending')).toBe(true);
+  });
+
+  it('never rates items from OCR pages above the page confidence', () => {
+    const lines = ['INJURIES', 'D6 Result', '1 Dead', '2 Captured', '3 Robbed', '4 Fine', '5 Fine', '6 Fine'];
+    const items = buildReviewItems([page(1, lines), page(2, lines)], { 2: 58 });
+
+    const table = (pageNumber: number) => items.find(i => i.kind === 'table' && i.pageNumber === pageNumber);
+    expect(table(1)).toMatchObject({ confidence: 'high' });
+    expect(table(1)?.ocrConfidence).toBeUndefined();
+    expect(table(2)).toMatchObject({ confidence: 'low', ocrConfidence: 58 });
+  });
+
+  it('skips headers with nothing under them', () => {
+    const items = buildReviewItems([page(1, ['CHAPTER 1: Basics', 'MOVEMENT PHASE', 'Models move up to their Move value.'])]);
+    expect(items.map(i => i.title)).toEqual(['MOVEMENT PHASE']);
+  });
+});
+
+describe('reviewItemContent', () => {
+  it('turns tables into table rules keyed by column', () => {
+    const content = reviewItemContent(item({
+      kind: 'table',
+      text: '1 Dead\n2 Captured',
+      columns: ['Roll', ''],
+      rows: [['1', 'Dead'], ['2', 'Captured', 'Ransom']],
+    }));
+
+    expect(content.type).toBe('table');
+    if (content.type !== 'table') return;
+    expect(content.columns).toEqual(['Roll', 'Column 2', 'Column 3']);
+    expect(content.rows.map(({ id: _id, ...cells }) => cells)).toEqual([
+      { Roll: '1', 'Column 2': 'Dead', 'Column 3': '' },
+      { Roll: '2', 'Column 2': 'Captured', 'Column 3': 'Ransom' },
+    ]);
+  });
+
+  it('turns sections into cards, one entry per paragraph', () => {
+    const content = reviewItemContent(item({ title: 'Exploration', text: 'Roll dice.\n\nCount doubles.' }));
+    expect(content.type).toBe('card');
+    if (content.type !== 'card') return;
+    expect(content.title).toBe('Exploration');
+    expect(content.sections.map(s => [s.header, s.content])).toEqual([
+      ['Exploration', 'Roll dice.'],
+      ['', 'Count doubles.'],
+    ]);
+  });
+});
+
+describe('review state', () => {
+  it('drops malformed stored items', () => {
+    expect(parseReviewItems([item({ id: 'a' }), { id: 'b', kind: 'mystery' }, null]).map(i => i.id)).toEqual(['a']);
+    expect(parseReviewItems({})).toEqual([]);
+  });
+
+  it('tallies items by status', () => {
+    expect(reviewSummary([item({}), item({ status: 'promoted' }), item({ status: 'promoted' })]))
+      .toEqual({ pending: 1, promoted: 2, dismissed: 0 });
+  });
+});
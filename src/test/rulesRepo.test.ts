@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+import {
+  parseRepoUrl,
+  parseRulesRepo,
+  readRulesRepo,
+  createFixtureReader,
+  createGitHubReader,
+  diffRepoRules,
+  hashRuleContent,
+  RulesRepoError,
+  type LocalRule,
+  type RepoRule,
+} from '@/lib/rulesRepo';
+
+const FIXTURE_ROOT = join(__dirname, '../../supabase/functions/fetch-rules-repo/fixtures/sample');
+
+function loadFixture(root: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) walk(path);
+      else files[relative(root, path).split(sep).join('/')] = readFileSync(path, 'utf8');
+    }
+  };
+  walk(root);
+  return files;
+}
+
+/** A campaign row as it looks right after syncing a repo rule */
+function synced(rule: RepoRule, id: string, overrides: Partial<LocalRule> = {}): LocalRule {
+  return {
+    id,
+    category: rule.category,
+    rule_key: rule.ruleKey,
+    title: rule.title,
+    content: rule.content,
+    metadata: { repo: { url: 'fixture://sample', ref: 'main', sha: 'old', path: rule.path, contentHash: rule.contentHash } },
+    ...overrides,
+  };
+}
+
+async function sampleRepo() {
+  return readRulesRepo(createFixtureReader(loadFixture(FIXTURE_ROOT), 'fixture-sample'));
+}
+
+describe('parseRepoUrl', () => {
+  it('accepts GitHub and fixture URLs', () => {
+    expect(parseRepoUrl('https://github.com/acme/rules.git')).toEqual({ kind: 'github', owner: 'acme', repo: 'rules' });
+    expect(parseRepoUrl('github.com/acme/rules/')).toEqual({ kind: 'github', owner: 'acme', repo: 'rules' });
+    expect(parseRepoUrl('fixture://sample')).toEqual({ kind: 'fixture', name: 'sample' });
+    expect(() => parseRepoUrl('https://gitlab.com/acme/rules')).toThrow(RulesRepoError);
+  });
+});
+
+describe('readRulesRepo', () => {
+  it('reads the fixture layout into rules keyed by category and rule_key', async () => {
+    const repo = await sampleRepo();
+
+    expect(repo.sha).toBe('fixture-sample');
+    expect(repo.manifest).toMatchObject({ name: 'Sample Skirmish Rules', version: '1.2.0' });
+    expect(repo.rules.map(r => `${r.category}/${r.ruleKey}`).sort()).toEqual([
+      'Injuries/out_of_action',
+      'Injuries/serious_injuries',
+      'Skills/combat_skills',
+    ]);
+
+    // Ids the editors need are filled in when the repo leaves them out
+    const skills = repo.rules.find(r => r.ruleKey === 'combat_skills')!;
+    expect(skills.content).toMatchObject({ type: 'table', rows: [{ id: 'row-1' }, { id: 'row-2' }] });
+    const card = repo.rules.find(r => r.ruleKey === 'out_of_action')!;
+    expect(card.content).toMatchObject({ type: 'card', title: 'Out of Action', sections: [{ id: 'section-1' }, { id: 'section-2' }] });
+    expect(card.metadata).toEqual({ page: 42 });
+
+    // Lore isn't a table or card, so it's reported and left out
+    expect(repo.issues).toEqual([{ path: 'rules/Lore/city_history.json', message: expect.stringContaining('content.type') }]);
+  });
+
+  it('reads GitHub files from the resolved commit, not the branch', async () => {
+    const requested: string[] = [];
+    const fakeFetch = async (url: string) => {
+      requested.push(url);
+      if (url.includes('/git/trees/')) {
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({ sha: 'abc123', tree: [{ path: 'rules/Misc/note.json', type: 'blob', size: 10 }] }),
+          text: async () => '',
+        };
+      }
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({}),
+        text: async () => '{"title":"Note","content":{"type":"card","sections":[]}}',
+      };
+    };
+
+    const repo = await readRulesRepo(createGitHubReader('acme', 'rules', 'main', fakeFetch));
+
+    expect(repo.sha).toBe('abc123');
+    expect(repo.rules).toHaveLength(1);
+    expect(requested[1]).toBe('https://raw.githubusercontent.com/acme/rules/abc123/rules/Misc/note.json');
+  });
+});
+
+describe('parseRulesRepo', () => {
+  it('rejects bad rule files without failing the rest', () => {
+    const { rules, issues } = parseRulesRepo([
+      { path: 'rules/Misc/ok.json', text: '{"title":"Ok","content":{"type":"card","sections":[]}}' },
+      { path: 'rules/Misc/broken.json', text: '{nope' },
+      { path: 'rules/Misc/untitled.json', text: '{"content":{"type":"card","sections":[]}}' },
+      { path: 'rules/Misc/bad key.json', text: '{}' },
+    ]);
+
+    expect(rules.map(r => r.ruleKey)).toEqual(['ok']);
+    expect(issues.map(i => i.path)).toEqual(['rules/Misc/broken.json', 'rules/Misc/untitled.json', 'rules/Misc/bad key.json']);
+  });
+});
+
+describe('hashRuleContent', () => {
+  it('ignores key order and editor-only raw text', () => {
+    const a = hashRuleContent('T', { type: 'card', title: 'T', sections: [] });
+    const b = hashRuleContent('T', { sections: [], title: 'T', type: 'card', rawText: 'pasted' });
+
+    expect(a).toBe(b);
+    expect(hashRuleContent('Other', { type: 'card', title: 'T', sections: [] })).not.toBe(a);
+  });
+});
+
+describe('diffRepoRules', () => {
+  it('adds everything to a campaign with no rules', async () => {
+    const repo = await sampleRepo();
+    const diff = diffRepoRules([], repo.rules);
+
+    expect(diff.changes.map(c => c.kind)).toEqual(['added', 'added', 'added']);
+    expect(diff.changes.every(c => !c.locallyEdited)).toBe(true);
+  });
+
+  it('flags local edits and leaves hand-made rules alone', async () => {
+    const repo = await sampleRepo();
+    const [outOfAction, injuries, skills] = ['out_of_action', 'serious_injuries', 'combat_skills']
+      .map(key => repo.rules.find(r => r.ruleKey === key)!);
+
+    const local: LocalRule[] = [
+      // Synced earlier, the GM has since renamed it, and the repo hasn't changed it
+      synced(outOfAction, 'id-1', { title: 'Taken Out' }),
+      // Synced from an older version of the repo, untouched locally
+      synced(injuries, 'id-2', {
+        content: { ...injuries.content, rows: [] },
+        metadata: { repo: { contentHash: hashRuleContent(injuries.title, { ...injuries.content, rows: [] }) } },
+      }),
+      // Written by hand with the same key the repo now uses
+      { id: 'id-3', category: 'Skills', rule_key: 'combat_skills', title: 'My Skills', content: {}, metadata: {} },
+      // Synced earlier and since deleted from the repo
+      synced({ ...skills, category: 'Skills', ruleKey: 'old_skill' }, 'id-4'),
+      // Never came from the repo, so never removed by it
+      { id: 'id-5', category: 'House Rules', rule_key: 'house_1', title: 'House', content: {}, metadata: {} },
+    ];
+
+    const diff = diffRepoRules(local, repo.rules);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changes.map(c => [c.kind, c.key, c.locallyEdited])).toEqual([
+      ['changed', 'Injuries/serious_injuries', false],
+      ['changed', 'Skills/combat_skills', true],
+      ['removed', 'Skills/old_skill', false],
+    ]);
+    expect(diff.changes[0]).toMatchObject({ ruleId: 'id-2', after: { title: 'Serious Injuries' } });
+  });
+
+  it('treats a local edit to a rule the repo also changed as an edit to protect', async () => {
+    const repo = await sampleRepo();
+    const injuries = repo.rules.find(r => r.ruleKey === 'serious_injuries')!;
+    const local = synced(injuries, 'id-1', {
+      title: 'Injuries (house)',
+      metadata: { repo: { contentHash: 'from-an-older-commit' } },
+    });
+
+    const [change] = diffRepoRules([local], [injuries]).changes;
+
+    expect(change).toMatchObject({ kind: 'changed', locallyEdited: true, before: { title: 'Injuries (house)' } });
+  });
+});
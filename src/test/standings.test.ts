@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { computeStandings, resultsFromPlacements, standingsRoster } from '@/lib/standings';
+import type { BattleMatch, BattleRound, MatchResult } from '@/hooks/useBattleTracker';
+
+function makeRound(id: string, overrides: Partial<BattleRound> = {}): BattleRound {
+  return {
+    id,
+    campaign_id: 'campaign-1',
+    round_index: 1,
+    name: id,
+    status: 'closed',
+    pairing_system: 'manual',
+    starts_at: null,
+    ends_at: null,
+    constraints_config: {},
+    scoring_config: { win: 3, draw: 1, loss: 0, requireNarrative: false, autoApprove: false, quickResultAllowed: true },
+    report_fields_config: { narrative: true, injuries: true, loot: true, events: true, resources: false },
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+let matchCounter = 0;
+
+function makeMatch(roundId: string, results: Record<string, MatchResult['outcome']>, overrides: Partial<BattleMatch> = {}): BattleMatch {
+  const ids = Object.keys(results);
+  return {
+    id: `match-${++matchCounter}`,
+    campaign_id: 'campaign-1',
+    round_id: roundId,
+    participants: ids.map((id, i) => ({ playerId: id, playerName: id.toUpperCase(), side: (['a', 'b', 'c', 'd'] as const)[i] })),
+    status: 'approved',
+    is_bye: false,
+    provisional_results: {},
+    final_results: Object.fromEntries(ids.map(id => [id, { outcome: results[id], points: 0 }])),
+    match_index: 0,
+    notes: null,
+    territory_id: null,
+    contested_marker_id: null,
+    attacker_side: null,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+function makeBye(roundId: string, playerId: string): BattleMatch {
+  return makeMatch(roundId, {}, {
+    is_bye: true,
+    status: 'unplayed',
+    participants: [{ playerId, playerName: playerId.toUpperCase(), side: 'a' }],
+  });
+}
+
+describe('computeStandings', () => {
+  it('scores each round with its own scoring config', () => {
+    const r1 = makeRound('r1');
+    const r2 = makeRound('r2', { scoring_config: { ...r1.scoring_config, win: 5, draw: 2 } });
+
+    const standings = computeStandings([r1, r2], [
+      makeMatch('r1', { alice: 'win', bob: 'loss' }),
+      makeMatch('r2', { alice: 'draw', bob: 'draw' }),
+    ]);
+
+    const alice = standings.find(r => r.playerId === 'alice')!;
+    const bob = standings.find(r => r.playerId === 'bob')!;
+    expect(alice.points).toBe(5);
+    expect(bob.points).toBe(2);
+    expect(alice).toMatchObject({ played: 2, wins: 1, draws: 1, losses: 0, rank: 1 });
+  });
+
+  it('ignores matches that are not approved yet', () => {
+    const r1 = makeRound('r1');
+    const standings = computeStandings([r1], [
+      makeMatch('r1', { alice: 'win', bob: 'loss' }, { status: 'submitted', final_results: {} }),
+    ]);
+
+    expect(standings).toHaveLength(0);
+  });
+
+  it('awards byes using byeScoring when configured', () => {
+    const r1 = makeRound('r1', { constraints_config: { byeScoring: { win: 2, draw: 1, loss: 0 } } });
+    const r2 = makeRound('r2');
+    const draft = makeRound('r3', { status: 'draft' });
+
+    const standings = computeStandings([r1, r2, draft], [
+      makeBye('r1', 'alice'),
+      makeBye('r2', 'alice'),
+      makeBye('r3', 'alice'),
+    ]);
+
+    expect(standings[0]).toMatchObject({ playerId: 'alice', byes: 2, played: 0, points: 5 });
+  });
+
+  it('includes seeded players who have not played', () => {
+    const standings = computeStandings([makeRound('r1')], [], [{ id: 'carol', name: 'Carol' }]);
+
+    expect(standings).toEqual([
+      expect.objectContaining({ playerId: 'carol', playerName: 'Carol', points: 0, rank: 1 }),
+    ]);
+  });
+
+  it('seeds only players, leaving the GM team out until they play', () => {
+    const member = (user_id: string, role: string, display_name: string) => ({ user_id, role, profile: { display_name, avatar_url: null } });
+    const roster = standingsRoster([
+      member('gm', 'gm', 'Gina'),
+      member('co', 'co_gm', 'Cory'),
+      member('carol', 'player', 'Carol'),
+      member('mod', 'assistant', 'Mo'),
+    ]);
+
+    expect(roster).toEqual([{ id: 'carol', name: 'Carol' }]);
+
+    const standings = computeStandings([makeRound('r1')], [makeMatch('r1', { co: 'win', carol: 'loss' })], roster);
+    expect(standings.map(r => r.playerId)).toEqual(['co', 'carol']);
+  });
+
+  it('breaks points ties by strength of schedule', () => {
+    const r1 = makeRound('r1');
+    const r2 = makeRound('r2');
+
+    // alice and carol both finish on 3 points, but alice beat the stronger opponent
+    const standings = computeStandings([r1, r2], [
+      makeMatch('r1', { alice: 'win', bob: 'loss' }),
+      makeMatch('r1', { carol: 'win', dave: 'loss' }),
+      makeMatch('r2', { bob: 'win', erin: 'loss' }),
+      makeMatch('r2', { alice: 'loss', frank: 'win' }),
+      makeMatch('r2', { carol: 'loss', dave: 'win' }),
+    ]);
+
+    const order = standings.map(r => r.playerId);
+    expect(order.indexOf('alice')).toBeLessThan(order.indexOf('carol'));
+    const alice = standings.find(r => r.playerId === 'alice')!;
+    expect(alice.strengthOfSchedule).toBe(3);
+  });
+
+  it('falls back to head-to-head and shares ranks when fully tied', () => {
+    const r1 = makeRound('r1');
+
+    const headToHead = computeStandings([r1], [
+      makeMatch('r1', { alice: 'win', bob: 'loss' }),
+      makeMatch('r1', { bob: 'win', alice: 'loss' }),
+      makeMatch('r1', { alice: 'draw', bob: 'draw' }),
+    ]);
+    expect(headToHead.map(r => r.rank)).toEqual([1, 1]);
+
+    // alice and bob finish level on points, SoS and OWR; alice won their game
+    const decided = computeStandings([r1], [
+      makeMatch('r1', { alice: 'win', bob: 'loss' }),
+      makeMatch('r1', { alice: 'loss', carol: 'win' }),
+      makeMatch('r1', { alice: 'win', dave: 'loss' }),
+      makeMatch('r1', { bob: 'win', carol: 'loss' }),
+      makeMatch('r1', { bob: 'win', dave: 'loss' }),
+    ]);
+    expect(decided[0]).toMatchObject({ playerId: 'alice', rank: 1, headToHead: 3 });
+    expect(decided[1]).toMatchObject({ playerId: 'bob', rank: 2, headToHead: 0 });
+  });
+
+  it('treats every other pod member as an opponent in multiplayer games', () => {
+    const standings = computeStandings([makeRound('r1')], [
+      makeMatch('r1', { alice: 'win', bob: 'loss', carol: 'loss' }),
+    ]);
+
+    const alice = standings.find(r => r.playerId === 'alice')!;
+    expect(alice.opponentsWinRate).toBe(0);
+    expect(standings.find(r => r.playerId === 'bob')!.opponentsWinRate).toBe(0.5);
+  });
+
+  it('scores multiplayer games by placement points', () => {
+    const r1 = makeRound('r1');
+    const scoring = { ...r1.scoring_config, placementPoints: [5, 3, 1, 0] };
+    const round = makeRound('r1', { scoring_config: scoring });
+    const pod = makeMatch('r1', { alice: 'loss', bob: 'loss', carol: 'loss' }, {
+      final_results: resultsFromPlacements({ alice: 2, bob: 1, carol: 3 }),
+    });
+
+    const standings = computeStandings([round], [pod]);
+
+    expect(standings.map(r => [r.playerId, r.points])).toEqual([['bob', 5], ['alice', 3], ['carol', 1]]);
+    expect(standings[0]).toMatchObject({ wins: 1, losses: 0 });
+  });
+
+  it('does not count teammates as opponents', () => {
+    const r1 = makeRound('r1');
+    const teams = makeMatch('r1', { alice: 'win', bob: 'win', carol: 'loss', dave: 'loss' }, {
+      participants: [
+        { playerId: 'alice', playerName: 'ALICE', side: 'a' },
+        { playerId: 'bob', playerName: 'BOB', side: 'a' },
+        { playerId: 'carol', playerName: 'CAROL', side: 'b' },
+        { playerId: 'dave', playerName: 'DAVE', side: 'b' },
+      ],
+    });
+
+    const alice = computeStandings([r1], [teams]).find(r => r.playerId === 'alice')!;
+
+    expect(alice.points).toBe(3);
+    expect(alice.strengthOfSchedule).toBe(0);
+    expect(alice.opponentsWinRate).toBe(0);
+  });
+
+  it('turns placements into outcomes', () => {
+    expect(resultsFromPlacements({ a: 1, b: 1, c: 2 })).toEqual({
+      a: { outcome: 'draw', points: 0, placement: 1 },
+      b: { outcome: 'draw', points: 0, placement: 1 },
+      c: { outcome: 'loss', points: 0, placement: 2 },
+    });
+  });
+});
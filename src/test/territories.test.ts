@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAdjacency,
+  orderedTerritoryPair,
+  parseTerritoryPoints,
+  pointInPolygon,
+  polygonArea,
+  polygonCentroid,
+  suggestAdjacency,
+  summarizeTerritoryControl,
+  territoriesTouch,
+  territoryOwnerColors,
+} from '@/lib/territories';
+
+const square = (x: number, y: number, size = 10) => [
+  { x, y },
+  { x: x + size, y },
+  { x: x + size, y: y + size },
+  { x, y: y + size },
+];
+
+describe('polygon geometry', () => {
+  it('computes area and centroid regardless of winding', () => {
+    const cw = square(10, 20);
+    const ccw = [...cw].reverse();
+
+    expect(polygonArea(cw)).toBe(100);
+    expect(polygonArea(ccw)).toBe(100);
+    expect(polygonCentroid(cw)).toEqual({ x: 15, y: 25 });
+    expect(polygonCentroid(ccw)).toEqual({ x: 15, y: 25 });
+  });
+
+  it('falls back to the vertex average for degenerate shapes', () => {
+    expect(polygonCentroid([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 20, y: 0 }])).toEqual({ x: 10, y: 0 });
+  });
+
+  it('tests points against concave polygons', () => {
+    const l = [
+      { x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 },
+      { x: 10, y: 10 }, { x: 10, y: 20 }, { x: 0, y: 20 },
+    ];
+    expect(pointInPolygon({ x: 5, y: 15 }, l)).toBe(true);
+    expect(pointInPolygon({ x: 15, y: 15 }, l)).toBe(false);
+  });
+
+  it('drops malformed stored points', () => {
+    expect(parseTerritoryPoints([{ x: 1, y: 2 }, { x: 'a', y: 3 }, null, { x: 4 }])).toEqual([{ x: 1, y: 2 }]);
+    expect(parseTerritoryPoints('nope')).toEqual([]);
+  });
+});
+
+describe('adjacency', () => {
+  it('treats roughly shared edges as touching', () => {
+    // Hand-drawn border that misses by a hair
+    expect(territoriesTouch(square(0, 0), square(10.8, 0))).toBe(true);
+    expect(territoriesTouch(square(0, 0), square(20, 0))).toBe(false);
+    // Corners meeting at a single point don't make neighbours
+    expect(territoriesTouch(square(0, 0), square(10, 10))).toBe(false);
+  });
+
+  it('suggests ordered pairs for touching territories', () => {
+    const pairs = suggestAdjacency([
+      { id: 'b', points: square(0, 0) },
+      { id: 'a', points: square(10, 0) },
+      { id: 'c', points: square(50, 50) },
+    ]);
+    expect(pairs).toEqual([['a', 'b']]);
+  });
+
+  it('orders pairs and builds a two-way lookup', () => {
+    expect(orderedTerritoryPair('z', 'a')).toEqual(['a', 'z']);
+
+    const adjacency = buildAdjacency([
+      { territory_a: 'a', territory_b: 'b' },
+      { territory_a: 'b', territory_b: 'c' },
+    ]);
+    expect([...adjacency.get('b')!].sort()).toEqual(['a', 'c']);
+    expect([...adjacency.get('a')!]).toEqual(['b']);
+  });
+});
+
+describe('summarizeTerritoryControl', () => {
+  it('counts territories and value per owner with unclaimed last', () => {
+    const control = summarizeTerritoryControl([
+      { owner_player_id: null, value: 5 },
+      { owner_player_id: 'p1', value: 2 },
+      { owner_player_id: 'p2', value: 1 },
+      { owner_player_id: 'p2', value: 3 },
+    ]);
+
+    expect(control).toEqual([
+      { ownerId: 'p2', count: 2, value: 4 },
+      { ownerId: 'p1', count: 1, value: 2 },
+      { ownerId: null, count: 1, value: 5 },
+    ]);
+  });
+
+  it('gives each player a stable, distinct colour', () => {
+    const colors = territoryOwnerColors(['p1', 'p2', 'p3']);
+    expect(new Set(Object.values(colors)).size).toBe(3);
+    expect(territoryOwnerColors(['p1', 'p2']).p1).toBe(colors.p1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { MatchParticipant, MatchResult } from '@/hooks/useBattleTracker';
+import { resolveTerritoryTransfer } from '@/lib/territoryTransfer';
+
+const participants: MatchParticipant[] = [
+  { playerId: 'alice', playerName: 'Alice', side: 'a' },
+  { playerId: 'bob', playerName: 'Bob', side: 'b' },
+];
+
+const results = (alice: MatchResult['outcome'], bob: MatchResult['outcome']): Record<string, MatchResult> => ({
+  alice: { outcome: alice, points: 0 },
+  bob: { outcome: bob, points: 0 },
+});
+
+describe('resolveTerritoryTransfer', () => {
+  it('hands the territory to the winner by default', () => {
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('win', 'loss'),
+      currentOwnerId: 'bob',
+    })).toEqual({ fromPlayerId: 'bob', toPlayerId: 'alice', reason: 'captured' });
+  });
+
+  it('leaves a holder who wins in place', () => {
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('loss', 'win'),
+      currentOwnerId: 'bob',
+    })).toBeNull();
+  });
+
+  it('claims unclaimed ground and takes it from outsiders', () => {
+    expect(resolveTerritoryTransfer({ participants, results: results('loss', 'win'), currentOwnerId: null }))
+      .toEqual({ fromPlayerId: null, toPlayerId: 'bob', reason: 'captured' });
+    expect(resolveTerritoryTransfer({ participants, results: results('loss', 'win'), currentOwnerId: 'carol' }))
+      .toEqual({ fromPlayerId: 'carol', toPlayerId: 'bob', reason: 'captured' });
+  });
+
+  it('only lets the attacker take ground under attacker rules', () => {
+    const rules = { transfer: 'attacker' as const };
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('loss', 'win'),
+      attackerSide: 'a',
+      currentOwnerId: null,
+      rules,
+    })).toBeNull();
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('win', 'loss'),
+      attackerSide: 'a',
+      currentOwnerId: 'bob',
+      rules,
+    })?.toPlayerId).toBe('alice');
+  });
+
+  it('keeps the status quo on a draw unless told to unclaim', () => {
+    expect(resolveTerritoryTransfer({ participants, results: results('draw', 'draw'), currentOwnerId: 'bob' })).toBeNull();
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('draw', 'draw'),
+      currentOwnerId: 'bob',
+      rules: { onDraw: 'unclaim' },
+    })).toEqual({ fromPlayerId: 'bob', toPlayerId: null, reason: 'draw' });
+  });
+
+  it('does nothing when transfers are off', () => {
+    expect(resolveTerritoryTransfer({
+      participants,
+      results: results('win', 'loss'),
+      currentOwnerId: 'bob',
+      rules: { transfer: 'off' },
+    })).toBeNull();
+  });
+
+  it('gives team wins to a player on the winning side', () => {
+    const teams: MatchParticipant[] = [
+      { playerId: 'alice', playerName: 'Alice', side: 'a' },
+      { playerId: 'amy', playerName: 'Amy', side: 'a' },
+      { playerId: 'bob', playerName: 'Bob', side: 'b' },
+      { playerId: 'ben', playerName: 'Ben', side: 'b' },
+    ];
+    const teamResults: Record<string, MatchResult> = {
+      alice: { outcome: 'loss', points: 0 },
+      amy: { outcome: 'loss', points: 0 },
+      bob: { outcome: 'win', points: 0 },
+      ben: { outcome: 'win', points: 0 },
+    };
+
+    expect(resolveTerritoryTransfer({ participants: teams, results: teamResults, currentOwnerId: 'ben' })).toBeNull();
+    expect(resolveTerritoryTransfer({ participants: teams, results: teamResults, currentOwnerId: 'amy' })?.toPlayerId).toBe('bob');
+  });
+});
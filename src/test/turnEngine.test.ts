@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { describeDeadline, nextTurnPosition, phaseDeadline, sortPhases, type CampaignPhase } from '@/lib/turnEngine';
+
+const phase = (id: string, order_index: number): CampaignPhase => ({
+  id,
+  campaign_id: 'campaign-1',
+  name: id,
+  phase_type: 'other',
+  order_index,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+const phases = [phase('battles', 2), phase('orders', 0), phase('movement', 1)];
+
+describe('sortPhases', () => {
+  it('orders by index, then id', () => {
+    expect(sortPhases([...phases, phase('aaa', 1)]).map(p => p.id)).toEqual(['orders', 'aaa', 'movement', 'battles']);
+  });
+});
+
+describe('nextTurnPosition', () => {
+  it('starts the first phase of a round that has not begun', () => {
+    expect(nextTurnPosition(phases, { round: 3, phaseId: null })).toEqual({ round: 3, phaseId: 'orders', newRound: false });
+  });
+
+  it('steps through phases and rolls the last one into the next round', () => {
+    expect(nextTurnPosition(phases, { round: 3, phaseId: 'orders' })).toEqual({ round: 3, phaseId: 'movement', newRound: false });
+    expect(nextTurnPosition(phases, { round: 3, phaseId: 'battles' })).toEqual({ round: 4, phaseId: 'orders', newRound: true });
+  });
+
+  it('advances whole rounds without phases', () => {
+    expect(nextTurnPosition([], { round: 1, phaseId: null })).toEqual({ round: 2, phaseId: null, newRound: true });
+  });
+});
+
+describe('phaseDeadline', () => {
+  const entries = [
+    { round_number: 3, phase_id: 'orders', start_date: '2026-04-01', end_date: '2026-04-03' },
+    { round_number: 3, phase_id: 'battles', start_date: '2026-04-10', end_date: null },
+    { round_number: 4, phase_id: 'orders', start_date: null, end_date: null },
+  ];
+
+  it('uses the end of the last day of the phase entry for that round', () => {
+    expect(phaseDeadline(entries, 'orders', 3)).toEqual(new Date(2026, 3, 3, 23, 59, 59));
+    expect(phaseDeadline(entries, 'battles', 3)).toEqual(new Date(2026, 3, 10, 23, 59, 59));
+  });
+
+  it('has no deadline without a dated entry', () => {
+    expect(phaseDeadline(entries, 'orders', 4)).toBeNull();
+    expect(phaseDeadline(entries, 'movement', 3)).toBeNull();
+  });
+});
+
+describe('describeDeadline', () => {
+  const deadline = new Date(2026, 3, 3, 23, 59, 59);
+
+  it('counts whole days either side of the deadline', () => {
+    expect(describeDeadline(deadline, new Date(2026, 3, 3, 9))).toEqual({ label: 'Due today', overdue: false });
+    expect(describeDeadline(deadline, new Date(2026, 3, 2, 22))).toEqual({ label: 'Due tomorrow', overdue: false });
+    expect(describeDeadline(deadline, new Date(2026, 2, 30, 12))).toEqual({ label: 'Due in 4 days', overdue: false });
+    expect(describeDeadline(deadline, new Date(2026, 3, 5, 8))).toEqual({ label: '2 days overdue', overdue: true });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advancesEarned,
+  matchRosterUnit,
+  reportProgressionEvents,
+  unitCareer,
+  warbandStash,
+  type ProgressionEvent,
+} from '@/lib/warbandProgression';
+
+const event = (overrides: Partial<ProgressionEvent>): ProgressionEvent => ({
+  id: crypto.randomUUID(),
+  campaign_id: 'campaign-1',
+  warband_id: 'wb-1',
+  roster_unit_id: 'unit-1',
+  event_type: 'experience',
+  amount: null,
+  label: null,
+  roll: null,
+  notes: null,
+  source_type: 'manual',
+  source_id: null,
+  created_by: null,
+  created_at: '2026-04-01T10:00:00Z',
+  undone_at: null,
+  undone_by: null,
+  ...overrides,
+});
+
+const warbands = [
+  { id: 'wb-1', roster: [{ id: 'unit-1', name: 'Captain' }, { id: 'unit-2', name: 'Youngblood' }] },
+  { id: 'wb-2', roster: [{ id: 'unit-3', name: 'Ogre' }] },
+];
+
+describe('advancesEarned', () => {
+  it('counts the thresholds reached', () => {
+    expect(advancesEarned(0)).toBe(0);
+    expect(advancesEarned(4)).toBe(2);
+    expect(advancesEarned(10)).toBe(4);
+  });
+});
+
+describe('unitCareer', () => {
+  const events = [
+    event({ event_type: 'experience', amount: 3, created_at: '2026-04-01T10:00:00Z' }),
+    event({ event_type: 'experience', amount: 2, created_at: '2026-04-02T10:00:00Z' }),
+    event({ event_type: 'experience', amount: 10, created_at: '2026-04-03T10:00:00Z', undone_at: '2026-04-03T11:00:00Z' }),
+    event({ event_type: 'injury', label: 'Old Battle Wound', created_at: '2026-04-04T10:00:00Z' }),
+    event({ event_type: 'advancement', label: '+1 WS', roll: 7, created_at: '2026-04-05T10:00:00Z' }),
+    event({ roster_unit_id: 'unit-2', event_type: 'experience', amount: 8 }),
+  ];
+
+  it('totals experience and lists what still counts', () => {
+    const career = unitCareer(events, 'unit-1');
+    expect(career.xp).toBe(5);
+    expect(career.injuries.map(e => e.label)).toEqual(['Old Battle Wound']);
+    expect(career.advancements).toHaveLength(1);
+    expect(career.history).toHaveLength(5);
+    expect(career.history[0].event_type).toBe('advancement');
+  });
+
+  it('owes an advance for each threshold not yet rolled', () => {
+    expect(unitCareer(events, 'unit-1').pendingAdvances).toBe(1);
+    expect(unitCareer(events, 'unit-2').pendingAdvances).toBe(4);
+  });
+});
+
+describe('warbandStash', () => {
+  it('totals stash items by name, ignoring unit items and undone events', () => {
+    const events = [
+      event({ roster_unit_id: null, event_type: 'item', label: 'Wyrdstone', amount: 2 }),
+      event({ roster_unit_id: null, event_type: 'item', label: 'wyrdstone ', amount: 1 }),
+      event({ roster_unit_id: null, event_type: 'item', label: 'Rope', amount: 1, undone_at: '2026-04-02T00:00:00Z' }),
+      event({ roster_unit_id: 'unit-1', event_type: 'item', label: 'Sword', amount: 1 }),
+    ];
+    expect(warbandStash(events)).toEqual([{ label: 'Wyrdstone', quantity: 3 }]);
+  });
+});
+
+describe('matchRosterUnit', () => {
+  it('matches names case-insensitively across warbands', () => {
+    expect(matchRosterUnit(warbands, ' ogre')).toEqual({ warbandId: 'wb-2', unitId: 'unit-3' });
+    expect(matchRosterUnit(warbands, 'Champion')).toBeNull();
+  });
+});
+
+describe('reportProgressionEvents', () => {
+  it('applies injuries and experience to units and loot to the stash', () => {
+    const { events, unmatched } = reportProgressionEvents(
+      {
+        injuries: [
+          { unitName: 'Captain', injury: 'Leg Wound' },
+          { unitName: 'Champion', injury: 'Dead' },
+        ],
+        experience: [{ unitName: 'youngblood', xp: 2 }],
+        loot_found: [{ item: 'Wyrdstone', quantity: 3 }],
+      },
+      warbands
+    );
+
+    expect(events).toEqual([
+      { warband_id: 'wb-1', roster_unit_id: 'unit-1', event_type: 'injury', amount: null, label: 'Leg Wound', notes: null },
+      { warband_id: 'wb-1', roster_unit_id: 'unit-2', event_type: 'experience', amount: 2, label: null, notes: null },
+      { warband_id: 'wb-1', roster_unit_id: null, event_type: 'item', amount: 3, label: 'Wyrdstone', notes: null },
+    ]);
+    expect(unmatched).toEqual(['Champion']);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRule,
+  parseUnitConstraints,
+  parseWarbandRules,
+  validateWarband,
+  violationsByUnit,
+  type UnitDefinition,
+  type ValidatedUnit,
+  type ValidationContext,
+  type WarbandRule,
+} from '@/lib/warbandValidation';
+
+const definition = (overrides: Partial<UnitDefinition> = {}): UnitDefinition => ({
+  name: 'Unit',
+  faction: 'Reiklanders',
+  sub_faction: null,
+  keywords: [],
+  equipment_options: [],
+  constraints: null,
+  ...overrides,
+});
+
+const unit = (overrides: Partial<ValidatedUnit>): ValidatedUnit => ({
+  id: crypto.randomUUID(),
+  unitId: 'u-warrior',
+  name: 'Warrior',
+  cost: 25,
+  faction: 'Reiklanders',
+  keywords: [],
+  equipment: [],
+  quantity: 1,
+  ...overrides,
+});
+
+const context = (overrides: Partial<ValidationContext> = {}): ValidationContext => ({
+  faction: 'Reiklanders',
+  subFaction: null,
+  pointsLimit: 500,
+  units: {
+    'u-captain': definition({ name: 'Captain', keywords: ['Leader', 'Hero'] }),
+    'u-warrior': definition({ name: 'Warrior', equipment_options: ['Sword', 'Shield', 'Halberd'] }),
+  },
+  ...overrides,
+});
+
+describe('validateWarband', () => {
+  it('passes a list that breaks no rule', () => {
+    const roster = [unit({ unitId: 'u-captain', name: 'Captain', keywords: ['Leader'], cost: 60 }), unit({ quantity: 4 })];
+    expect(validateWarband(roster, [], context())).toEqual([]);
+  });
+
+  it('flags going over the points limit for the whole list', () => {
+    const [violation] = validateWarband([unit({ quantity: 30 })], [], context());
+    expect(violation.ruleId).toBe('points_limit');
+    expect(violation.unitIds).toEqual([]);
+  });
+
+  it('enforces min and max counts by keyword and unit name', () => {
+    const rules: WarbandRule[] = [
+      { id: 'leader', type: 'count', target: { kind: 'keyword', value: 'leader' }, min: 1, max: 1 },
+      { id: 'warriors', type: 'count', target: { kind: 'unit', value: 'Warrior' }, max: 5 },
+    ];
+    const captains = [
+      unit({ unitId: 'u-captain', name: 'Captain', keywords: ['Leader'] }),
+      unit({ unitId: 'u-captain', name: 'Captain', keywords: ['Leader'] }),
+    ];
+
+    expect(validateWarband([unit({})], rules, context()).map(v => v.ruleId)).toEqual(['leader']);
+    expect(validateWarband([...captains, unit({ quantity: 6 })], rules, context()).map(v => v.message)).toEqual([
+      'At most 1 leader units allowed (has 2)',
+      'At most 5 Warrior allowed (has 6)',
+    ]);
+  });
+
+  it('caps the share of points spent on matching units', () => {
+    const rules: WarbandRule[] = [{ id: 'heroes', type: 'points_share', target: { kind: 'keyword', value: 'Hero' }, maxPercent: 25 }];
+    const hero = unit({ name: 'Champion', keywords: ['Hero'], cost: 130 });
+    const [violation] = validateWarband([hero], rules, context());
+    expect(violation.message).toBe('Hero units may take up 25% of the points (125 pts), not 130 pts');
+    expect(violation.unitIds).toEqual([hero.id]);
+  });
+
+  it('checks faction, sub-faction and the campaign faction list', () => {
+    const rules: WarbandRule[] = [{ id: 'factions', type: 'faction', factions: ['Middenheimers'] }];
+    const ctx = context({
+      subFaction: 'Altdorf',
+      units: { 'u-zealot': definition({ name: 'Zealot', sub_faction: 'Sigmarites' }) },
+    });
+    const roster = [unit({ unitId: 'u-zealot', name: 'Zealot' }), unit({ unitId: 'u-orc', name: 'Orc', faction: 'Orcs' })];
+
+    expect(validateWarband(roster, rules, ctx).map(v => v.message)).toEqual([
+      'Zealot is only available to Sigmarites',
+      'Orc is not a Reiklanders unit',
+      'Reiklanders is not allowed in this campaign',
+    ]);
+  });
+
+  it('checks equipment options and incompatible pairs', () => {
+    const rules: WarbandRule[] = [{ id: 'hands', type: 'equipment_exclusive', items: ['Shield', 'Halberd'] }];
+    const roster = [unit({ equipment: ['Sword', 'Crossbow'] }), unit({ equipment: ['shield', 'Halberd'] })];
+
+    expect(validateWarband(roster, rules, context()).map(v => v.message)).toEqual([
+      'Warrior cannot take Crossbow',
+      'Warrior cannot combine Shield and Halberd',
+    ]);
+  });
+
+  it('applies constraints carried by master units', () => {
+    const ctx = context({
+      units: {
+        'u-ogre': definition({ name: 'Ogre', constraints: { max: 1, requires: ['Leader'] } }),
+      },
+    });
+    const violations = validateWarband([unit({ unitId: 'u-ogre', name: 'Ogre', quantity: 2 })], [], ctx);
+    expect(violations.map(v => v.message)).toEqual([
+      'At most 1 Ogre allowed (has 2)',
+      'Ogre needs a Leader in the warband',
+    ]);
+  });
+});
+
+describe('violationsByUnit', () => {
+  it('groups violations under each unit they mention', () => {
+    const grouped = violationsByUnit([
+      { ruleId: 'a', message: 'A', unitIds: ['x', 'y'] },
+      { ruleId: 'b', message: 'B', unitIds: ['x'] },
+      { ruleId: 'c', message: 'C', unitIds: [] },
+    ]);
+    expect(grouped.x.map(v => v.ruleId)).toEqual(['a', 'b']);
+    expect(grouped.y.map(v => v.ruleId)).toEqual(['a']);
+  });
+});
+
+describe('parsing', () => {
+  it('reads known constraint fields and drops the rest', () => {
+    expect(parseUnitConstraints({ max: '2', maxPercent: 20, requires: ['Hero'], note: 'x' }))
+      .toEqual({ max: 2, maxPercent: 20, requires: ['Hero'] });
+    expect(parseUnitConstraints({ note: 'x' })).toBeNull();
+    expect(parseUnitConstraints(null)).toBeNull();
+  });
+
+  it('keeps only rules of a known type', () => {
+    const rules = parseWarbandRules([
+      { id: 'a', type: 'count', target: { kind: 'keyword', value: 'Leader' }, max: 1 },
+      { id: 'b', type: 'mystery' },
+      'nonsense',
+    ]);
+    expect(rules.map(r => r.id)).toEqual(['a']);
+    expect(describeRule(rules[0])).toBe('At most 1 Leader units');
+  });
+});
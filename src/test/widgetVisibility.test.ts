@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { canViewLinkedRule, canViewWidget, describeAudience, widgetVisibilityOf } from '@/lib/widgetVisibility';
+
+const custom = (visible_roles: string[], visible_player_ids: string[] = []) => ({
+  visibility: 'custom',
+  visible_roles,
+  visible_player_ids,
+});
+
+describe('canViewWidget', () => {
+  it('shows everything to the owner and the gm', () => {
+    for (const role of ['owner', 'gm'] as const) {
+      expect(canViewWidget({ visibility: 'gm' }, { role, playerId: null })).toBe(true);
+      expect(canViewWidget(custom([]), { role, playerId: null })).toBe(true);
+    }
+  });
+
+  it('keeps GM-only widgets to the GM team', () => {
+    const widget = { visibility: 'gm' };
+    expect(canViewWidget(widget, { role: 'co_gm', playerId: 'p1' })).toBe(true);
+    expect(canViewWidget(widget, { role: 'assistant', playerId: 'p1' })).toBe(true);
+    expect(canViewWidget(widget, { role: 'player', playerId: 'p1' })).toBe(false);
+  });
+
+  it('shows custom widgets to the listed roles and players only', () => {
+    const widget = custom(['co_gm'], ['p1', 'p2']);
+    expect(canViewWidget(widget, { role: 'co_gm', playerId: 'p9' })).toBe(true);
+    expect(canViewWidget(widget, { role: 'player', playerId: 'p2' })).toBe(true);
+    expect(canViewWidget(widget, { role: 'player', playerId: 'p3' })).toBe(false);
+    expect(canViewWidget(widget, { role: 'assistant', playerId: 'p4' })).toBe(false);
+    expect(canViewWidget(widget, { role: 'player', playerId: null })).toBe(false);
+  });
+
+  it('treats unknown or missing visibility as visible to all', () => {
+    expect(widgetVisibilityOf({ visibility: null })).toBe('all');
+    expect(widgetVisibilityOf({ visibility: 'public' })).toBe('all');
+    expect(canViewWidget({ visibility: null }, { role: 'player', playerId: null })).toBe(true);
+  });
+});
+
+describe('canViewLinkedRule', () => {
+  const player = { role: 'player', playerId: 'p1' } as const;
+  const hidden = { visibility: 'gm', config: { rule_id: 'injuries' } };
+
+  it('hides a rule linked only to widgets the viewer cannot see', () => {
+    expect(canViewLinkedRule('injuries', [hidden], player)).toBe(false);
+    expect(canViewLinkedRule('injuries', [{ ...custom([], ['p2']), config: { rule_id: 'injuries' } }], player)).toBe(false);
+    expect(canViewLinkedRule('injuries', [hidden], { role: 'gm', playerId: null })).toBe(true);
+  });
+
+  it('shows a rule when any linked widget is visible, or when none links to it', () => {
+    const shared = { ...custom([], ['p1']), config: { rule_id: 'injuries' } };
+    expect(canViewLinkedRule('injuries', [hidden, shared], player)).toBe(true);
+    expect(canViewLinkedRule('skills', [hidden], player)).toBe(true);
+    expect(canViewLinkedRule('skills', [], player)).toBe(true);
+  });
+});
+
+describe('describeAudience', () => {
+  const roles = { co_gm: 'Co-GM', player: 'Player' };
+
+  it('names the roles and a couple of players', () => {
+    expect(describeAudience(custom(['co_gm'], ['p1', 'p2']), roles, { p1: 'Ana', p2: 'Bo' })).toBe('Co-GM + Ana + Bo');
+    expect(describeAudience(custom([], ['p1', 'p2', 'p3']), roles)).toBe('3 players');
+    expect(describeAudience(custom([]), roles)).toBe('Owner and GM');
+    expect(describeAudience({ visibility: 'gm' }, roles)).toBe('GM only');
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Dice notation parser and evaluator
+ *
+ * Supported syntax (case-insensitive, whitespace ignored):
+ *   3d6+2        sum of dice plus/minus constants
+ *   d20, d%      count defaults to 1, % means 100 sides
+ *   2d20kh1      keep highest (k, kh) or lowest (kl) N dice
+ *   4d6dl1       drop lowest (dl) or highest (dh) N dice
+ *   d6!  d6!5    explode on the maximum, or on N or higher
+ *   d6r1 d6r<3   reroll matching dice until they miss; ro rerolls only once
+ *   10d6>=4      count successes instead of summing (>=, >, <=, <, =)
+ *   10d6>=3 then d6>=4
+ *                chained steps: dice without a count in a later step roll once
+ *                per success of the previous step ("then >=4" reuses the dice)
+ */
+
+import { createSeededRandom, type RandomSource } from "./seededRandom.ts";
+
+export type CompareOperator = '=' | '<' | '<=' | '>' | '>=';
+
+export interface ComparePoint {
+  op: CompareOperator;
+  value: number;
+}
+
+export interface DiceTerm {
+  kind: 'dice';
+  sign: 1 | -1;
+  /** null in a chained step means "one die per success of the previous step" */
+  count: number | null;
+  sides: number;
+  /** Explode on this value or higher */
+  explode?: number;
+  reroll?: { compare: ComparePoint; once: boolean };
+  keep?: { highest: boolean; count: number };
+  drop?: { highest: boolean; count: number };
+  success?: ComparePoint;
+  notation: string;
+}
+
+export interface ConstantTerm {
+  kind: 'constant';
+  sign: 1 | -1;
+  value: number;
+}
+
+export type ExpressionTerm = DiceTerm | ConstantTerm;
+
+export interface DiceStep {
+  notation: string;
+  terms: ExpressionTerm[];
+}
+
+export interface DiceExpression {
+  source: string;
+  steps: DiceStep[];
+}
+
+export interface RolledDie {
+  value: number;
+  /** rerolled dice were replaced by the die that follows them */
+  status: 'kept' | 'dropped' | 'rerolled';
+  /** This die triggered an extra die */
+  exploded?: boolean;
+  success?: boolean;
+}
+
+export interface DiceTermResult {
+  kind: 'dice';
+  notation: string;
+  sign: 1 | -1;
+  sides: number;
+  dice: RolledDie[];
+  /** Sum of kept dice, or the number of successes when counting them */
+  value: number;
+  countsSuccesses: boolean;
+}
+
+export interface ConstantTermResult {
+  kind: 'constant';
+  sign: 1 | -1;
+  value: number;
+}
+
+export type TermResult = DiceTermResult | ConstantTermResult;
+
+export interface DiceStepResult {
+  notation: string;
+  terms: TermResult[];
+  total: number;
+  countsSuccesses: boolean;
+}
+
+/** Structured breakdown stored alongside each roll */
+export interface DiceRollBreakdown {
+  expression: string;
+  steps: DiceStepResult[];
+  total: number;
+}
+
+export class DiceNotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiceNotationError";
+  }
+}
+
+// Limits
+const MAX_DICE_PER_TERM = 100;
+const MAX_SIDES = 1000;
+const MAX_DICE_PER_ROLL = 500;
+const MAX_EXPLOSIONS_PER_DIE = 20;
+const MAX_REROLLS_PER_DIE = 100;
+
+const COMPARE_OPERATORS: CompareOperator[] = ['>=', '<=', '>', '<', '='];
+
+class Cursor {
+  pos = 0;
+  constructor(readonly text: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  peek(length = 1): string {
+    return this.text.slice(this.pos, this.pos + length);
+  }
+
+  accept(token: string): boolean {
+    if (this.peek(token.length) !== token) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  readInt(): number | null {
+    const match = /^\d+/.exec(this.text.slice(this.pos));
+    if (!match) return null;
+    this.pos += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  fail(message: string): never {
+    throw new DiceNotationError(`${message} at position ${this.pos + 1} in "${this.text}"`);
+  }
+}
+
+function readCompare(cursor: Cursor, allowBare: boolean): ComparePoint | null {
+  const op = COMPARE_OPERATORS.find(o => cursor.accept(o));
+  if (!op && !allowBare) return null;
+  const value = cursor.readInt();
+  if (value === null) {
+    if (op) cursor.fail(`Expected a number after "${op}"`);
+    return null;
+  }
+  return { op: op ?? '=', value };
+}
+
+export function matchesCompare(value: number, compare: ComparePoint): boolean {
+  switch (compare.op) {
+    case '=': return value === compare.value;
+    case '<': return value < compare.value;
+    case '<=': return value <= compare.value;
+    case '>': return value > compare.value;
+    case '>=': return value >= compare.value;
+  }
+}
+
+function parseDiceModifiers(cursor: Cursor, term: DiceTerm): void {
+  while (!cursor.done && !['+', '-'].includes(cursor.peek())) {
+    if (cursor.accept('!')) {
+      if (term.explode !== undefined) cursor.fail('Dice can only explode once');
+      term.explode = cursor.readInt() ?? term.sides;
+    } else if (cursor.peek() === 'r') {
+      const once = cursor.accept('ro') || !cursor.accept('r');
+      if (term.reroll) cursor.fail('Only one reroll rule is allowed per dice term');
+      const compare = readCompare(cursor, true) ?? cursor.fail('Expected a value to reroll');
+      term.reroll = { compare, once };
+    } else if (cursor.peek() === 'k') {
+      if (term.keep || term.drop) cursor.fail('Only one keep or drop rule is allowed per dice term');
+      const highest = !cursor.accept('kl') && (cursor.accept('kh') || cursor.accept('k'));
+      term.keep = { highest, count: cursor.readInt() ?? 1 };
+    } else if (cursor.peek(2) === 'dh' || cursor.peek(2) === 'dl') {
+      if (term.keep || term.drop) cursor.fail('Only one keep or drop rule is allowed per dice term');
+      const highest = cursor.accept('dh') || !cursor.accept('dl');
+      term.drop = { highest, count: cursor.readInt() ?? 1 };
+    } else {
+      const compare = readCompare(cursor, false);
+      if (!compare) cursor.fail(`Unexpected "${cursor.peek()}"`);
+      if (term.success) cursor.fail('Only one success target is allowed per dice term');
+      term.success = compare;
+    }
+  }
+}
+
+function validateDiceTerm(term: DiceTerm): void {
+  if (term.sides < 1) throw new DiceNotationError(`"${term.notation}" needs at least one side`);
+  if (term.sides > MAX_SIDES) throw new DiceNotationError(`"${term.notation}" has more than ${MAX_SIDES} sides`);
+  if (term.count !== null && term.count > MAX_DICE_PER_TERM) {
+    throw new DiceNotationError(`"${term.notation}" rolls more than ${MAX_DICE_PER_TERM} dice`);
+  }
+  if (term.explode !== undefined && term.explode <= 1) {
+    throw new DiceNotationError(`"${term.notation}" would explode on every result`);
+  }
+  // Every comparison matches a run of faces touching one end, so it covers them all when it covers both ends
+  const reroll = term.reroll;
+  if (reroll && !reroll.once && matchesCompare(1, reroll.compare) && matchesCompare(term.sides, reroll.compare)) {
+    throw new DiceNotationError(`"${term.notation}" would reroll every result`);
+  }
+}
+
+function parseStep(text: string, previous: DiceStep | null): DiceStep {
+  const cursor = new Cursor(text);
+  const terms: ExpressionTerm[] = [];
+
+  // "then >=4" rolls the previous step's dice again against a new target
+  if (previous && COMPARE_OPERATORS.some(o => text.startsWith(o))) {
+    const previousDice = previous.terms.find((t): t is DiceTerm => t.kind === 'dice');
+    if (!previousDice) cursor.fail('Nothing to roll again');
+    const term: DiceTerm = { kind: 'dice', sign: 1, count: null, sides: previousDice.sides, notation: '' };
+    parseDiceModifiers(cursor, term);
+    term.notation = `d${term.sides}${text.slice(0, cursor.pos)}`;
+    validateDiceTerm(term);
+    terms.push(term);
+  }
+
+  while (!cursor.done) {
+    let sign: 1 | -1 = 1;
+    if (terms.length > 0) {
+      if (cursor.accept('+')) sign = 1;
+      else if (cursor.accept('-')) sign = -1;
+      else cursor.fail(`Expected "+" or "-" but found "${cursor.peek()}"`);
+    } else if (cursor.accept('-')) {
+      sign = -1;
+    }
+
+    const start = cursor.pos;
+    const count = cursor.readInt();
+    if (!cursor.accept('d')) {
+      if (count === null) cursor.fail('Expected a number or dice');
+      terms.push({ kind: 'constant', sign, value: count });
+      continue;
+    }
+
+    const sides = cursor.accept('%') ? 100 : cursor.readInt();
+    if (sides === null) cursor.fail('Expected the number of sides');
+
+    const term: DiceTerm = {
+      kind: 'dice',
+      sign,
+      count: count ?? (previous ? null : 1),
+      sides,
+      notation: '',
+    };
+    parseDiceModifiers(cursor, term);
+    term.notation = text.slice(start, cursor.pos);
+    validateDiceTerm(term);
+    terms.push(term);
+  }
+
+  if (terms.length === 0) throw new DiceNotationError('Empty dice expression');
+  return { notation: text, terms };
+}
+
+/**
+ * Parse dice notation into an expression that can be rolled repeatedly.
+ * Throws DiceNotationError with a readable message for invalid input.
+ */
+export function parseDiceExpression(input: string): DiceExpression {
+  const source = input.trim();
+  if (!source) throw new DiceNotationError('Empty dice expression');
+
+  const steps: DiceStep[] = [];
+  for (const part of source.toLowerCase().split(/\bthen\b/)) {
+    const text = part.replace(/\s+/g, '');
+    if (!text) throw new DiceNotationError('Each "then" must be followed by dice to roll');
+    steps.push(parseStep(text, steps[steps.length - 1] ?? null));
+  }
+
+  return { source, steps };
+}
+
+function rollTerm(term: DiceTerm, count: number, roll: (sides: number) => number): DiceTermResult {
+  const dice: RolledDie[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let value = roll(term.sides);
+
+    if (term.reroll) {
+      const limit = term.reroll.once ? 1 : MAX_REROLLS_PER_DIE;
+      for (let r = 0; r < limit && matchesCompare(value, term.reroll.compare); r++) {
+        dice.push({ value, status: 'rerolled' });
+        value = roll(term.sides);
+      }
+    }
+    dice.push({ value, status: 'kept' });
+
+    if (term.explode !== undefined) {
+      for (let e = 0; e < MAX_EXPLOSIONS_PER_DIE && value >= term.explode; e++) {
+        dice[dice.length - 1].exploded = true;
+        value = roll(term.sides);
+        dice.push({ value, status: 'kept' });
+      }
+    }
+  }
+
+  const live = dice.filter(d => d.status === 'kept');
+  const rule = term.keep ?? term.drop;
+  if (rule) {
+    // Sort by value (stable, so ties keep roll order) and mark the dice that fall outside the rule
+    const ordered = [...live].sort((a, b) => rule.highest ? b.value - a.value : a.value - b.value);
+    const affected = ordered.slice(0, Math.min(rule.count, ordered.length));
+    const dropped = term.keep ? ordered.filter(d => !affected.includes(d)) : affected;
+    dropped.forEach(d => { d.status = 'dropped'; });
+  }
+
+  const kept = dice.filter(d => d.status === 'kept');
+  if (term.success) {
+    kept.forEach(d => { d.success = matchesCompare(d.value, term.success!); });
+  }
+
+  return {
+    kind: 'dice',
+    notation: term.notation,
+    sign: term.sign,
+    sides: term.sides,
+    dice,
+    value: term.success ? kept.filter(d => d.success).length : kept.reduce((sum, d) => sum + d.value, 0),
+    countsSuccesses: !!term.success,
+  };
+}
+
+/**
+ * Roll a parsed expression. Each chained step rolls one die per success
+ * (or point of total) from the step before it.
+ */
+export function evaluateDiceExpression(expression: DiceExpression, random: RandomSource = Math.random): DiceRollBreakdown {
+  let diceRolled = 0;
+  const roll = (sides: number) => {
+    if (++diceRolled > MAX_DICE_PER_ROLL) {
+      throw new DiceNotationError(`Roll exceeds ${MAX_DICE_PER_ROLL} dice`);
+    }
+    return Math.floor(random() * sides) + 1;
+  };
+
+  const steps: DiceStepResult[] = [];
+  let carried = 0;
+
+  for (const step of expression.steps) {
+    const terms: TermResult[] = step.terms.map(term => {
+      if (term.kind === 'constant') return { ...term };
+      return rollTerm(term, term.count ?? carried, roll);
+    });
+    const total = terms.reduce((sum, t) => sum + t.sign * t.value, 0);
+    steps.push({
+      notation: step.notation,
+      terms,
+      total,
+      countsSuccesses: terms.some(t => t.kind === 'dice' && t.countsSuccesses),
+    });
+    carried = Math.max(0, total);
+  }
+
+  return { expression: expression.source, steps, total: steps[steps.length - 1].total };
+}
+
+/** Parse and roll in one go */
+export function rollDiceExpression(input: string, random: RandomSource = Math.random): DiceRollBreakdown {
+  return evaluateDiceExpression(parseDiceExpression(input), random);
+}
+
+/** Kept die values across every step, for the flat rolls column */
+export function keptDiceValues(breakdown: DiceRollBreakdown): number[] {
+  return breakdown.steps.flatMap(step =>
+    step.terms.flatMap(t => t.kind === 'dice' ? t.dice.filter(d => d.status === 'kept').map(d => d.value) : [])
+  );
+}
+
+/**
+ * Replay a server roll from its stored seed. Returns true when the expression
+ * rolled with that seed produces the recorded total.
+ */
+export function replayMatchesTotal(expression: string, seed: string, total: number): boolean {
+  try {
+    return rollDiceExpression(expression, createSeededRandom(seed)).total === total;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Roll tables - work out which dice a rules table uses from the ranges in
+ * its roll column (D6, 2D6, D66, D100...), and resolve a roll to a row.
+ * Shared with the roll-dice edge function, which resolves table rolls server-side.
+ */
+
+import type { DiceRollBreakdown } from "./diceNotation.ts";
+
+export interface RollTableRow {
+  id: string;
+  [key: string]: string;
+}
+
+export interface TableDice {
+  /** Display label, e.g. "2D6" or "D66" */
+  label: string;
+  /** Dice notation to roll; D66 rolls 2d6 and reads the dice as tens and units */
+  expression: string;
+  min: number;
+  max: number;
+}
+
+export interface RollTableEntry {
+  rowId: string;
+  min: number;
+  max: number;
+}
+
+export interface RollableTable {
+  dice: TableDice;
+  rangeColumn: string;
+  entries: RollTableEntry[];
+}
+
+/** Stored in dice_roll_history.context for a roll made on a table */
+export interface TableRollContext {
+  table: string;
+  dice: string;
+  value: number;
+  rowId: string | null;
+  result: string | null;
+}
+
+export interface TableReference {
+  /** "roll again" without a table name means the same table */
+  sameTable: boolean;
+  name?: string;
+}
+
+const STANDARD_DIE_SIZES = [3, 4, 6, 8, 10, 12, 20, 100];
+
+/**
+ * Parse a roll-column cell: "3", "2-3", "11–16", "96-00" (00 = 100) or "12+".
+ * Open-ended ranges get max = Infinity until the dice are known.
+ */
+export function parseRollRange(text: string): { min: number; max: number } | null {
+  const cell = text.trim().replace(/[–—]/g, '-').replace(/[.:]$/, '');
+  const toValue = (digits: string) => (/^0+$/.test(digits) && digits.length >= 2 ? 100 : parseInt(digits, 10));
+
+  let match = /^(\d+)\s*-\s*(\d+)$/.exec(cell);
+  if (match) {
+    const min = toValue(match[1]);
+    const max = toValue(match[2]);
+    return min <= max ? { min, max } : null;
+  }
+  match = /^(\d+)\+$/.exec(cell);
+  if (match) return { min: toValue(match[1]), max: Infinity };
+  match = /^(\d+)$/.exec(cell);
+  if (match) {
+    const value = toValue(match[1]);
+    return { min: value, max: value };
+  }
+  return null;
+}
+
+const isD66Value = (value: number) => value >= 11 && value <= 66 && value % 10 >= 1 && value % 10 <= 6;
+
+function inferDice(entries: RollTableEntry[]): TableDice | null {
+  const bounds = entries.flatMap(e => (e.max === Infinity ? [e.min] : [e.min, e.max]));
+  const min = Math.min(...bounds);
+  const max = Math.max(...bounds);
+
+  if (min >= 11 && max > 12 && bounds.every(isD66Value)) {
+    return { label: 'D66', expression: '2d6', min: 11, max: 66 };
+  }
+  if (min >= 2 && max <= 12 && max > 6) {
+    return { label: '2D6', expression: '2d6', min: 2, max: 12 };
+  }
+  if (min < 1) return null;
+
+  const sides = STANDARD_DIE_SIZES.find(size => size >= max);
+  if (!sides) return null;
+  return { label: `D${sides}`, expression: `d${sides}`, min: 1, max: sides };
+}
+
+/**
+ * Find the roll column (the first column whose filled cells are all ranges)
+ * and infer the dice. Returns null when the table can't be rolled on.
+ */
+export function analyzeRollTable(columns: string[], rows: RollTableRow[]): RollableTable | null {
+  for (const column of columns) {
+    const filled = rows.filter(row => (row[column] ?? '').trim());
+    if (filled.length < 2) continue;
+
+    const entries: RollTableEntry[] = [];
+    for (const row of filled) {
+      const range = parseRollRange(row[column]);
+      if (!range) break;
+      entries.push({ rowId: row.id, ...range });
+    }
+    if (entries.length !== filled.length) continue;
+
+    const dice = inferDice(entries);
+    if (!dice) continue;
+
+    return {
+      dice,
+      rangeColumn: column,
+      entries: entries.map(e => ({ ...e, max: e.max === Infinity ? dice.max : e.max })),
+    };
+  }
+  return null;
+}
+
+/** Read the table value from a roll: the total, or tens and units for D66 */
+export function tableValueFromRoll(dice: TableDice, breakdown: DiceRollBreakdown): number {
+  if (dice.label !== 'D66') return breakdown.total;
+  const term = breakdown.steps[0]?.terms.find(t => t.kind === 'dice');
+  const kept = term && term.kind === 'dice' ? term.dice.filter(d => d.status === 'kept') : [];
+  return kept.length >= 2 ? kept[0].value * 10 + kept[1].value : breakdown.total;
+}
+
+export function findRowForValue(table: RollableTable, value: number): string | null {
+  return table.entries.find(e => value >= e.min && value <= e.max)?.rowId ?? null;
+}
+
+/** The row's result text: every cell except the roll column */
+export function describeRow(columns: string[], row: RollTableRow, rangeColumn: string): string {
+  return columns
+    .filter(col => col !== rangeColumn)
+    .map(col => (row[col] ?? '').trim())
+    .filter(Boolean)
+    .join(' — ');
+}
+
+/**
+ * Spot "roll again on the Serious Injuries table" style instructions in a result.
+ */
+export function findTableReference(text: string): TableReference | null {
+  const named =
+    /roll\s+(?:again\s+)?on\s+(?:the\s+)?["'“]?([^"'”.,;()]+?)["'”]?\s+table/i.exec(text) ??
+    /roll\s+(?:again\s+)?on\s+table[:\s]+["'“]?([^"'”.,;()]+)/i.exec(text);
+  if (named) {
+    const name = named[1].trim();
+    return /^this$/i.test(name) ? { sameTable: true } : { sameTable: false, name };
+  }
+  if (/\broll\s+again\b(?!\s+on)/i.test(text)) return { sameTable: true };
+  return null;
+}
+
+const normalizeTableName = (name: string) =>
+  name.toLowerCase().replace(/\btable\b/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Match a referenced table name against rule titles, exact match first */
+export function matchTableByName<T extends { title: string }>(name: string, candidates: T[]): T | null {
+  const target = normalizeTableName(name);
+  if (!target) return null;
+  return (
+    candidates.find(c => normalizeTableName(c.title) === target) ??
+    candidates.find(c => {
+      const title = normalizeTableName(c.title);
+      return !!title && (title.includes(target) || target.includes(title));
+    }) ??
+    null
+  );
+}
@@ -0,0 +1,507 @@
+/**
+ * Rules repositories: a git repo laid out as documented in docs/rules-repo.md
+ * that a campaign pins and syncs its wargame_rules from. Shared by the
+ * fetch-rules-repo edge function and the client (through src/lib/rulesRepo.ts).
+ *
+ *   rules-repo.json                     optional manifest
+ *   rules/<category>/<rule_key>.json    { title, content, metadata? }
+ *
+ * Rules are matched to wargame_rules rows by category + rule_key. Each synced
+ * row remembers the hash of what it was synced to, which is how a local edit
+ * is told apart from an upstream change.
+ */
+
+export const RULES_REPO_MANIFEST = "rules-repo.json";
+export const RULES_REPO_SCHEMA_VERSION = 1;
+export const MAX_REPO_RULE_FILES = 500;
+export const MAX_REPO_FILE_BYTES = 256 * 1024;
+
+const RULES_DIR = "rules/";
+const RULE_KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+export type RepoRuleContent =
+  | { type: "table"; columns: string[]; rows: Array<{ id: string; [key: string]: string }> }
+  | { type: "card"; title: string; sections: Array<{ id: string; header: string; content: string }> };
+
+export interface RulesRepoManifest {
+  id?: string;
+  name?: string;
+  version?: string;
+  schemaVersion?: number;
+}
+
+export interface RepoRule {
+  category: string;
+  ruleKey: string;
+  title: string;
+  content: RepoRuleContent;
+  metadata: Record<string, unknown>;
+  path: string;
+  contentHash: string;
+}
+
+export interface RepoParseIssue {
+  path: string;
+  message: string;
+}
+
+export interface ParsedRulesRepo {
+  manifest: RulesRepoManifest | null;
+  rules: RepoRule[];
+  issues: RepoParseIssue[];
+}
+
+export interface RepoFile {
+  path: string;
+  text: string;
+}
+
+export class RulesRepoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RulesRepoError";
+  }
+}
+
+// ============ Reading ============
+
+/** Where a repo's files come from: GitHub in production, a fixture in tests */
+export interface RepoReader {
+  /** Resolve the ref to a commit and list every file path in it */
+  list(): Promise<{ sha: string; paths: string[] }>;
+  read(path: string): Promise<string>;
+}
+
+export type RepoLocation =
+  | { kind: "github"; owner: string; repo: string }
+  | { kind: "fixture"; name: string };
+
+/** Accepts https://github.com/owner/repo(.git), github.com/owner/repo or fixture://name */
+export function parseRepoUrl(url: string): RepoLocation {
+  const trimmed = url.trim();
+
+  const fixture = trimmed.match(/^fixture:\/\/([A-Za-z0-9_-]+)\/?$/);
+  if (fixture) return { kind: "fixture", name: fixture[1] };
+
+  const github = trimmed.match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/i);
+  if (github) return { kind: "github", owner: github[1], repo: github[2] };
+
+  throw new RulesRepoError("Only GitHub repository URLs are supported (https://github.com/owner/repo)");
+}
+
+type FetchLike = (url: string, init?: { headers?: Record<string, string> }) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}>;
+
+/** Read a public GitHub repo at a branch, tag or commit */
+export function createGitHubReader(
+  owner: string,
+  repo: string,
+  ref: string,
+  fetchFn: FetchLike = fetch,
+  token?: string
+): RepoReader {
+  let sha: string | null = null;
+  const headers: Record<string, string> = { Accept: "application/vnd.github+json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  return {
+    async list() {
+      const response = await fetchFn(
+        `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+        { headers }
+      );
+      if (response.status === 404) {
+        throw new RulesRepoError(`Couldn't find ${owner}/${repo} at "${ref}"`);
+      }
+      if (!response.ok) {
+        throw new RulesRepoError(`GitHub returned ${response.status} while listing ${owner}/${repo}`);
+      }
+
+      const tree = await response.json() as {
+        sha: string;
+        truncated?: boolean;
+        tree: Array<{ path: string; type: string; size?: number }>;
+      };
+      if (tree.truncated) {
+        throw new RulesRepoError("Repository is too large to list in one request");
+      }
+
+      sha = tree.sha;
+      return {
+        sha: tree.sha,
+        paths: tree.tree
+          .filter((entry) => entry.type === "blob" && (entry.size ?? 0) <= MAX_REPO_FILE_BYTES)
+          .map((entry) => entry.path),
+      };
+    },
+
+    async read(path) {
+      // Read from the resolved commit so a branch moving mid-sync can't mix versions
+      const at = sha ?? ref;
+      const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+      const response = await fetchFn(`https://raw.githubusercontent.com/${owner}/${repo}/${at}/${encodedPath}`);
+      if (!response.ok) {
+        throw new RulesRepoError(`GitHub returned ${response.status} for ${path}`);
+      }
+      return response.text();
+    },
+  };
+}
+
+/** An in-memory repo, keyed by path */
+export function createFixtureReader(files: Record<string, string>, sha = "fixture"): RepoReader {
+  return {
+    async list() {
+      return { sha, paths: Object.keys(files).sort() };
+    },
+    async read(path) {
+      if (!(path in files)) throw new RulesRepoError(`No such file: ${path}`);
+      return files[path];
+    },
+  };
+}
+
+function isRuleFile(path: string): boolean {
+  return path.startsWith(RULES_DIR) && path.endsWith(".json") && path.split("/").length === 3;
+}
+
+/** Fetch and parse every rule file at the reader's ref */
+export async function readRulesRepo(reader: RepoReader): Promise<ParsedRulesRepo & { sha: string }> {
+  const { sha, paths } = await reader.list();
+
+  const rulePaths = paths.filter(isRuleFile);
+  if (rulePaths.length > MAX_REPO_RULE_FILES) {
+    throw new RulesRepoError(`Repository has ${rulePaths.length} rule files; the limit is ${MAX_REPO_RULE_FILES}`);
+  }
+
+  const wanted = paths.includes(RULES_REPO_MANIFEST) ? [RULES_REPO_MANIFEST, ...rulePaths] : rulePaths;
+  const files: RepoFile[] = [];
+  for (const path of wanted) {
+    files.push({ path, text: await reader.read(path) });
+  }
+
+  return { sha, ...parseRulesRepo(files) };
+}
+
+// ============ Parsing ============
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : String(value);
+}
+
+/** Check a rule's content and fill in the ids the editors rely on */
+function normalizeContent(raw: unknown, title: string): RepoRuleContent | string {
+  if (!isPlainObject(raw)) return "content must be an object";
+
+  if (raw.type === "table") {
+    if (!Array.isArray(raw.columns) || raw.columns.some((c) => typeof c !== "string")) {
+      return "table content needs a columns array of strings";
+    }
+    if (!Array.isArray(raw.rows) || raw.rows.some((r) => !isPlainObject(r))) {
+      return "table content needs a rows array of objects";
+    }
+    const columns = raw.columns as string[];
+    const rows = (raw.rows as Record<string, unknown>[]).map((row, index) => {
+      const normalized: { id: string; [key: string]: string } = { id: asText(row.id) || `row-${index + 1}` };
+      for (const column of columns) normalized[column] = asText(row[column]);
+      return normalized;
+    });
+    return { type: "table", columns, rows };
+  }
+
+  if (raw.type === "card") {
+    if (!Array.isArray(raw.sections) || raw.sections.some((s) => !isPlainObject(s))) {
+      return "card content needs a sections array of objects";
+    }
+    const sections = (raw.sections as Record<string, unknown>[]).map((section, index) => ({
+      id: asText(section.id) || `section-${index + 1}`,
+      header: asText(section.header),
+      content: asText(section.content),
+    }));
+    return { type: "card", title: asText(raw.title) || title, sections };
+  }
+
+  return 'content.type must be "table" or "card"';
+}
+
+function parseManifest(file: RepoFile, issues: RepoParseIssue[]): RulesRepoManifest | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(file.text);
+  } catch {
+    issues.push({ path: file.path, message: "Manifest isn't valid JSON" });
+    return null;
+  }
+  if (!isPlainObject(raw)) {
+    issues.push({ path: file.path, message: "Manifest must be an object" });
+    return null;
+  }
+
+  const manifest: RulesRepoManifest = {
+    id: typeof raw.id === "string" ? raw.id : undefined,
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    version: typeof raw.version === "string" ? raw.version : undefined,
+    schemaVersion: typeof raw.schemaVersion === "number" ? raw.schemaVersion : undefined,
+  };
+  if (manifest.schemaVersion !== undefined && manifest.schemaVersion > RULES_REPO_SCHEMA_VERSION) {
+    issues.push({
+      path: file.path,
+      message: `Schema version ${manifest.schemaVersion} is newer than this app understands (${RULES_REPO_SCHEMA_VERSION}); some fields may be ignored`,
+    });
+  }
+  return manifest;
+}
+
+/**
+ * Turn repo files into rules. Bad files are reported and skipped rather than
+ * failing the whole repo.
+ */
+export function parseRulesRepo(files: RepoFile[]): ParsedRulesRepo {
+  const issues: RepoParseIssue[] = [];
+  const rules: RepoRule[] = [];
+  let manifest: RulesRepoManifest | null = null;
+
+  for (const file of files) {
+    if (file.path === RULES_REPO_MANIFEST) {
+      manifest = parseManifest(file, issues);
+      continue;
+    }
+    if (!isRuleFile(file.path)) continue;
+
+    const [, category, fileName] = file.path.split("/");
+    const ruleKey = fileName.replace(/\.json$/, "");
+    if (!category.trim()) {
+      issues.push({ path: file.path, message: "Category folder name is empty" });
+      continue;
+    }
+    if (!RULE_KEY_PATTERN.test(ruleKey)) {
+      issues.push({ path: file.path, message: "Rule file names may only use letters, numbers, - and _" });
+      continue;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(file.text);
+    } catch {
+      issues.push({ path: file.path, message: "Not valid JSON" });
+      continue;
+    }
+    if (!isPlainObject(raw)) {
+      issues.push({ path: file.path, message: "Rule file must be an object" });
+      continue;
+    }
+
+    const title = asText(raw.title).trim();
+    if (!title) {
+      issues.push({ path: file.path, message: "Rule needs a title" });
+      continue;
+    }
+
+    const content = normalizeContent(raw.content, title);
+    if (typeof content === "string") {
+      issues.push({ path: file.path, message: content });
+      continue;
+    }
+
+    rules.push({
+      category,
+      ruleKey,
+      title,
+      content,
+      metadata: isPlainObject(raw.metadata) ? raw.metadata : {},
+      path: file.path,
+      contentHash: hashRuleContent(title, content),
+    });
+  }
+
+  return { manifest, rules, issues };
+}
+
+// ============ Hashing ============
+
+/** JSON with object keys sorted, so jsonb's key order doesn't change the hash */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** cyrb53: a fast 53-bit string hash, plenty to spot an edited rule */
+function cyrb53(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+/** Hash of what a GM would see: the title and the content, minus editor-only text */
+export function hashRuleContent(title: string, content: unknown): string {
+  const { rawText: _rawText, ...rest } = isPlainObject(content) ? content : { value: content };
+  return cyrb53(stableStringify({ title, content: rest }));
+}
+
+// ============ Diffing ============
+
+/** Where a synced rule came from, kept in wargame_rules.metadata.repo */
+export interface RepoSyncSource {
+  url: string;
+  ref: string;
+  sha: string;
+  path: string;
+  contentHash: string;
+  syncedAt: string;
+}
+
+export interface LocalRule {
+  id: string;
+  category: string;
+  rule_key: string;
+  title: string;
+  content: unknown;
+  metadata: unknown;
+}
+
+export type RuleChangeKind = "added" | "changed" | "removed";
+
+export interface RuleChange {
+  kind: RuleChangeKind;
+  /** category/rule_key, the identity shared by the repo and the table */
+  key: string;
+  category: string;
+  ruleKey: string;
+  title: string;
+  /** The existing row, for changed and removed rules */
+  ruleId?: string;
+  /** The GM has changed this rule since it was last synced (or wrote it by hand) */
+  locallyEdited: boolean;
+  before?: { title: string; content: unknown };
+  after?: { title: string; content: RepoRuleContent };
+}
+
+export interface RulesRepoDiff {
+  changes: RuleChange[];
+  unchanged: number;
+}
+
+export function ruleSyncKey(category: string, ruleKey: string): string {
+  return `${category}/${ruleKey}`;
+}
+
+export function repoSourceOf(rule: Pick<LocalRule, "metadata">): RepoSyncSource | null {
+  if (!isPlainObject(rule.metadata) || !isPlainObject(rule.metadata.repo)) return null;
+  const source = rule.metadata.repo as unknown as RepoSyncSource;
+  return typeof source.contentHash === "string" ? source : null;
+}
+
+/**
+ * Compare a campaign's rules with a repo. Rules the GM created by hand are
+ * never removed; rules they edited since the last sync are flagged so they
+ * aren't overwritten without asking.
+ */
+export function diffRepoRules(local: LocalRule[], repo: RepoRule[]): RulesRepoDiff {
+  const changes: RuleChange[] = [];
+  let unchanged = 0;
+
+  const localByKey = new Map(local.map((rule) => [ruleSyncKey(rule.category, rule.rule_key), rule]));
+  const repoKeys = new Set<string>();
+
+  for (const repoRule of repo) {
+    const key = ruleSyncKey(repoRule.category, repoRule.ruleKey);
+    repoKeys.add(key);
+    const existing = localByKey.get(key);
+    const after = { title: repoRule.title, content: repoRule.content };
+
+    if (!existing) {
+      changes.push({
+        kind: "added",
+        key,
+        category: repoRule.category,
+        ruleKey: repoRule.ruleKey,
+        title: repoRule.title,
+        locallyEdited: false,
+        after,
+      });
+      continue;
+    }
+
+    const source = repoSourceOf(existing);
+    const localHash = hashRuleContent(existing.title, existing.content);
+    // Identical already, or the repo hasn't moved and only the GM has
+    if (localHash === repoRule.contentHash || source?.contentHash === repoRule.contentHash) {
+      unchanged++;
+      continue;
+    }
+
+    changes.push({
+      kind: "changed",
+      key,
+      category: repoRule.category,
+      ruleKey: repoRule.ruleKey,
+      title: repoRule.title,
+      ruleId: existing.id,
+      locallyEdited: !source || source.contentHash !== localHash,
+      before: { title: existing.title, content: existing.content },
+      after,
+    });
+  }
+
+  for (const rule of local) {
+    const key = ruleSyncKey(rule.category, rule.rule_key);
+    const source = repoSourceOf(rule);
+    if (!source || repoKeys.has(key)) continue;
+
+    changes.push({
+      kind: "removed",
+      key,
+      category: rule.category,
+      ruleKey: rule.rule_key,
+      title: rule.title,
+      ruleId: rule.id,
+      locallyEdited: hashRuleContent(rule.title, rule.content) !== source.contentHash,
+      before: { title: rule.title, content: rule.content },
+    });
+  }
+
+  const order: Record<RuleChangeKind, number> = { added: 0, changed: 1, removed: 2 };
+  changes.sort((a, b) => order[a.kind] - order[b.kind] || a.key.localeCompare(b.key));
+
+  return { changes, unchanged };
+}
+
+/** Group repo rules the way the discover action reports them */
+export function summarizeRepoCategories(rules: RepoRule[]): Array<{
+  category: string;
+  ruleCount: number;
+  rules: Array<{ key: string; title: string }>;
+}> {
+  const byCategory = new Map<string, Array<{ key: string; title: string }>>();
+  for (const rule of rules) {
+    const list = byCategory.get(rule.category) ?? [];
+    list.push({ key: rule.ruleKey, title: rule.title });
+    byCategory.set(rule.category, list);
+  }
+  return [...byCategory.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, categoryRules]) => ({ category, ruleCount: categoryRules.length, rules: categoryRules }));
+}
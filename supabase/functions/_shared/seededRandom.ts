@@ -0,0 +1,43 @@
+/**
+ * Small deterministic PRNG helpers. The same seed always produces the same
+ * sequence, so pairings (and anything else built on them) can be reproduced.
+ */
+
+export type RandomSource = () => number;
+
+/** Hash a string seed into a 32-bit integer (FNV-1a) */
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle using the given random source. Returns a new array.
+ */
+export function shuffleWith<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
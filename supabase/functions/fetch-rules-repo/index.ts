@@ -0,0 +1,290 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+// Shared with the client so the review dialog and the apply step agree on the diff
+import {
+  parseRepoUrl,
+  createGitHubReader,
+  createFixtureReader,
+  readRulesRepo,
+  diffRepoRules,
+  summarizeRepoCategories,
+  ruleSyncKey,
+  RulesRepoError,
+  type RepoReader,
+  type RepoRule,
+  type RepoSyncSource,
+  type LocalRule,
+} from "../_shared/rulesRepo.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_REF = "main";
+
+type Action = "discover" | "diff" | "apply";
+
+interface RulesRepoRequest {
+  action?: Action;
+  repoUrl?: string;
+  ref?: string;
+  campaignId?: string;
+  /** apply: the commit the GM reviewed; the repo is re-read at exactly this commit */
+  sha?: string;
+  /** apply: category/rule_key of every change the GM accepted */
+  keys?: string[];
+  /** apply: accepted changes that may replace the GM's own edits */
+  overwrite?: string[];
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** Read fixtures/<name>/ next to this file; only enabled for local development and tests */
+async function readFixtureRepo(name: string): Promise<RepoReader> {
+  if (Deno.env.get("RULES_REPO_FIXTURES") !== "true") {
+    throw new RulesRepoError("Fixture repositories are disabled");
+  }
+
+  const root = new URL(`./fixtures/${name}/`, import.meta.url);
+  const files: Record<string, string> = {};
+  const walk = async (dir: URL, prefix: string) => {
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isDirectory) {
+        await walk(new URL(`${entry.name}/`, dir), `${prefix}${entry.name}/`);
+      } else if (entry.isFile) {
+        files[`${prefix}${entry.name}`] = await Deno.readTextFile(new URL(entry.name, dir));
+      }
+    }
+  };
+
+  try {
+    await walk(root, "");
+  } catch {
+    throw new RulesRepoError(`No fixture repository named "${name}"`);
+  }
+  return createFixtureReader(files, `fixture-${name}`);
+}
+
+function readerFor(repoUrl: string, ref: string): Promise<RepoReader> | RepoReader {
+  const location = parseRepoUrl(repoUrl);
+  if (location.kind === "fixture") {
+    return readFixtureRepo(location.name);
+  }
+  return createGitHubReader(location.owner, location.repo, ref, fetch, Deno.env.get("GITHUB_TOKEN"));
+}
+
+function ruleMetadata(rule: RepoRule, source: Omit<RepoSyncSource, "path" | "contentHash">) {
+  return {
+    ...rule.metadata,
+    repo: { ...source, path: rule.path, contentHash: rule.contentHash },
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const supabaseUser = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: "Invalid or expired token" }, 401);
+    }
+
+    const { action, repoUrl, ref: requestedRef, campaignId, sha, keys, overwrite } =
+      await req.json() as RulesRepoRequest;
+
+    if (!action || !["discover", "diff", "apply"].includes(action)) {
+      return jsonResponse({ success: false, error: 'Action must be "discover", "diff" or "apply"' }, 400);
+    }
+    if (typeof repoUrl !== "string" || !repoUrl.trim()) {
+      return jsonResponse({ success: false, error: "Repository URL is required" }, 400);
+    }
+    const ref = requestedRef?.trim() || DEFAULT_REF;
+
+    // Diff and apply read the campaign's rules, so only its GMs may run them
+    if (action !== "discover") {
+      if (!campaignId) {
+        return jsonResponse({ success: false, error: "Campaign ID is required" }, 400);
+      }
+      const { data: canManage } = await supabaseAdmin.rpc("has_full_gm_access", {
+        _campaign_id: campaignId,
+        _user_id: user.id,
+      });
+      if (!canManage) {
+        return jsonResponse({ success: false, error: "Only the campaign's GMs can sync rules" }, 403);
+      }
+    }
+    if (action === "apply" && (!sha || !Array.isArray(keys))) {
+      return jsonResponse({ success: false, error: "Apply needs the reviewed commit and the accepted changes" }, 400);
+    }
+
+    let repo;
+    try {
+      // Apply re-reads the reviewed commit, not the branch, so nothing unreviewed slips in
+      const reader = await readerFor(repoUrl, action === "apply" ? sha! : ref);
+      repo = await readRulesRepo(reader);
+    } catch (error) {
+      if (error instanceof RulesRepoError) {
+        return jsonResponse({ success: false, error: error.message }, 400);
+      }
+      throw error;
+    }
+
+    if (action === "discover") {
+      return jsonResponse({
+        success: true,
+        sha: repo.sha,
+        manifest: repo.manifest,
+        categories: summarizeRepoCategories(repo.rules),
+        issues: repo.issues,
+      }, 200);
+    }
+
+    const { data: localRules, error: rulesError } = await supabaseAdmin
+      .from("wargame_rules")
+      .select("id, category, rule_key, title, content, metadata")
+      .eq("campaign_id", campaignId);
+
+    if (rulesError) {
+      console.error("Rules fetch error:", rulesError);
+      return jsonResponse({ success: false, error: "Failed to load campaign rules" }, 500);
+    }
+
+    const diff = diffRepoRules((localRules || []) as LocalRule[], repo.rules);
+
+    if (action === "diff") {
+      return jsonResponse({ success: true, sha: repo.sha, manifest: repo.manifest, diff, issues: repo.issues }, 200);
+    }
+
+    if (repo.sha !== sha) {
+      return jsonResponse({ success: false, error: "The repository changed since it was reviewed; review it again" }, 409);
+    }
+
+    // Apply only what the GM ticked, and never replace their own edits unless they said so
+    const accepted = new Set(keys);
+    const overwriteEdits = new Set(overwrite ?? []);
+    const repoByKey = new Map(repo.rules.map((rule) => [ruleSyncKey(rule.category, rule.ruleKey), rule]));
+    const localById = new Map((localRules || []).map((rule) => [rule.id, rule]));
+    const source = { url: repoUrl.trim(), ref, sha: repo.sha, syncedAt: new Date().toISOString() };
+
+    const { data: linkedComponents, error: componentsError } = await supabaseAdmin
+      .from("dashboard_components")
+      .select("id, config")
+      .eq("campaign_id", campaignId)
+      .in("component_type", ["rules_table", "rules_card"]);
+    if (componentsError) throw componentsError;
+
+    let added = 0;
+    let updated = 0;
+    let removed = 0;
+    let keptEdits = 0;
+
+    for (const change of diff.changes) {
+      if (!accepted.has(change.key)) continue;
+      if (change.locallyEdited && !overwriteEdits.has(change.key)) {
+        keptEdits++;
+        continue;
+      }
+
+      if (change.kind === "removed") {
+        const { error } = await supabaseAdmin.from("wargame_rules").delete().eq("id", change.ruleId);
+        if (error) throw error;
+        removed++;
+        continue;
+      }
+
+      const repoRule = repoByKey.get(change.key)!;
+      if (change.kind === "added") {
+        const { error } = await supabaseAdmin.from("wargame_rules").insert({
+          campaign_id: campaignId,
+          category: repoRule.category,
+          rule_key: repoRule.ruleKey,
+          title: repoRule.title,
+          content: repoRule.content,
+          metadata: ruleMetadata(repoRule, source),
+          last_change_source: "repo_sync",
+          last_changed_by: user.id,
+        });
+        if (error) throw error;
+        added++;
+        continue;
+      }
+
+      const existing = localById.get(change.ruleId!);
+      const existingMetadata = (existing?.metadata && typeof existing.metadata === "object") ? existing.metadata : {};
+      const { error } = await supabaseAdmin
+        .from("wargame_rules")
+        .update({
+          title: repoRule.title,
+          content: repoRule.content,
+          metadata: { ...existingMetadata, ...ruleMetadata(repoRule, source) },
+          last_change_source: "repo_sync",
+          last_changed_by: user.id,
+        })
+        .eq("id", change.ruleId);
+      if (error) throw error;
+      updated++;
+
+      // Keep dashboard widgets that show this rule in step, as editing it in the app does
+      for (const component of (linkedComponents || []).filter((c) => c.config?.rule_id === change.ruleId)) {
+        const config = { ...component.config, sourceLabel: repoRule.title, ...repoRule.content };
+        delete config.type;
+        const { error: componentError } = await supabaseAdmin
+          .from("dashboard_components")
+          .update({ config, name: repoRule.title })
+          .eq("id", component.id);
+        if (componentError) throw componentError;
+      }
+    }
+
+    // Pin the campaign to what it was just synced from
+    const { error: pinError } = await supabaseAdmin
+      .from("campaigns")
+      .update({ rules_repo_url: source.url, rules_repo_ref: ref })
+      .eq("id", campaignId);
+    if (pinError) throw pinError;
+
+    const parts = [
+      added && `${added} added`,
+      updated && `${updated} updated`,
+      removed && `${removed} removed`,
+      keptEdits && `${keptEdits} local edit${keptEdits === 1 ? "" : "s"} kept`,
+    ].filter(Boolean);
+
+    return jsonResponse({
+      success: true,
+      message: parts.length ? `Rules synced: ${parts.join(", ")}` : "Rules are already up to date",
+      sha: repo.sha,
+      added,
+      updated,
+      removed,
+      keptEdits,
+      categories: [...new Set(repo.rules.map((rule) => rule.category))],
+    }, 200);
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return jsonResponse({ success: false, error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,204 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+// Shared with the client so a stored seed replays to the same breakdown in the browser
+import { rollDiceExpression, keptDiceValues, DiceNotationError } from "../_shared/diceNotation.ts";
+import { createSeededRandom } from "../_shared/seededRandom.ts";
+import {
+  analyzeRollTable,
+  tableValueFromRoll,
+  findRowForValue,
+  describeRow,
+  type RollTableRow,
+  type TableRollContext,
+} from "../_shared/rollTables.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_TABLE_ROWS = 300;
+
+interface TableRequest {
+  name: string;
+  /** Roll on a wargame_rules table; its stored content wins over columns/rows */
+  ruleId?: string;
+  columns?: string[];
+  rows?: RollTableRow[];
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** 128 bits from the platform CSPRNG, hex encoded */
+function generateSeed(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const supabaseUser = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Invalid or expired token" }, 401);
+    }
+
+    const { campaignId, expression, table } = await req.json() as {
+      campaignId?: string;
+      expression?: string;
+      table?: TableRequest;
+    };
+
+    if (!campaignId || (!table && (typeof expression !== "string" || !expression.trim()))) {
+      return jsonResponse({ error: "Campaign ID and a dice expression or table are required" }, 400);
+    }
+    if (typeof expression === "string" && expression.length > MAX_EXPRESSION_LENGTH) {
+      return jsonResponse({ error: `Dice expression is longer than ${MAX_EXPRESSION_LENGTH} characters` }, 400);
+    }
+
+    // Only campaign members (or the owner) may roll into a campaign's history
+    const [{ data: campaign }, { data: membership }] = await Promise.all([
+      supabaseAdmin.from("campaigns").select("id, owner_id").eq("id", campaignId).maybeSingle(),
+      supabaseAdmin.from("campaign_players").select("id").eq("campaign_id", campaignId).eq("user_id", user.id).maybeSingle(),
+    ]);
+
+    if (!campaign) {
+      return jsonResponse({ error: "Campaign not found" }, 404);
+    }
+    if (campaign.owner_id !== user.id && !membership) {
+      return jsonResponse({ error: "You are not a member of this campaign" }, 403);
+    }
+
+    // Table rolls: work out the dice from the table itself
+    let columns: string[] = [];
+    let rows: RollTableRow[] = [];
+    let ruleId: string | null = null;
+    if (table) {
+      columns = table.columns ?? [];
+      rows = table.rows ?? [];
+
+      if (table.ruleId) {
+        const { data: rule } = await supabaseAdmin
+          .from("wargame_rules")
+          .select("id, campaign_id, content")
+          .eq("id", table.ruleId)
+          .maybeSingle();
+
+        if (!rule || rule.campaign_id !== campaignId) {
+          return jsonResponse({ error: "Rule not found" }, 404);
+        }
+
+        // The service role sees every rule, so apply the widget audience here
+        const { data: canView, error: canViewError } = await supabaseAdmin.rpc("can_view_wargame_rule", {
+          _rule_id: rule.id,
+          _campaign_id: campaignId,
+          _user_id: user.id,
+        });
+        if (canViewError) throw canViewError;
+        if (!canView) {
+          return jsonResponse({ error: "You can't roll on this table" }, 403);
+        }
+
+        const content = rule.content as { type?: string; columns?: string[]; rows?: RollTableRow[] } | null;
+        if (content?.type === "table") {
+          columns = content.columns ?? [];
+          rows = content.rows ?? [];
+        }
+        ruleId = rule.id;
+      }
+
+      if (!Array.isArray(columns) || !Array.isArray(rows) || rows.length > MAX_TABLE_ROWS) {
+        return jsonResponse({ error: "Invalid table" }, 400);
+      }
+    }
+
+    const rollable = table ? analyzeRollTable(columns, rows) : null;
+    if (table && !rollable) {
+      return jsonResponse({ error: "Can't work out which dice this table uses; the roll column needs ranges like 1-2 or 11-16" }, 400);
+    }
+
+    const notation = rollable ? rollable.dice.expression : expression!;
+    const seed = generateSeed();
+    let breakdown;
+    try {
+      breakdown = rollDiceExpression(notation, createSeededRandom(seed));
+    } catch (error) {
+      if (error instanceof DiceNotationError) {
+        return jsonResponse({ error: error.message }, 400);
+      }
+      throw error;
+    }
+
+    let context: TableRollContext | null = null;
+    if (table && rollable) {
+      const value = tableValueFromRoll(rollable.dice, breakdown);
+      const rowId = findRowForValue(rollable, value);
+      const row = rows.find((r) => r.id === rowId);
+      context = {
+        table: String(table.name ?? "").slice(0, 200),
+        dice: rollable.dice.label,
+        value,
+        rowId,
+        result: row ? describeRow(columns, row, rollable.rangeColumn) : null,
+      };
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("display_name")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const { data: roll, error: insertError } = await supabaseAdmin
+      .from("dice_roll_history")
+      .insert({
+        campaign_id: campaignId,
+        player_id: user.id,
+        player_name: profile?.display_name || user.email?.split("@")[0] || "Unknown",
+        dice_config: breakdown.expression,
+        rolls: keptDiceValues(breakdown),
+        total: breakdown.total,
+        breakdown,
+        seed,
+        verified: true,
+        rule_id: ruleId,
+        context,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Roll insert error:", insertError);
+      return jsonResponse({ error: "Failed to record roll" }, 500);
+    }
+
+    return jsonResponse({ roll }, 200);
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,3 @@
+-- Structured dice breakdown (kept, dropped, rerolled and exploded dice per step)
+ALTER TABLE public.dice_roll_history
+  ADD COLUMN breakdown JSONB;
@@ -0,0 +1,21 @@
+-- Server-authoritative dice rolls
+-- The roll-dice edge function rolls from a random seed and writes the row itself
+-- (as service role), storing the seed so anyone can replay the result.
+ALTER TABLE public.dice_roll_history
+  ADD COLUMN verified BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN seed TEXT;
+
+-- Players can still record their own rolls, but never as verified
+DROP POLICY IF EXISTS "Campaign members can record rolls" ON public.dice_roll_history;
+CREATE POLICY "Campaign members can record rolls"
+ON public.dice_roll_history
+FOR INSERT
+WITH CHECK (
+  auth.uid() = player_id
+  AND verified = false
+  AND seed IS NULL
+  AND (
+    is_campaign_member(campaign_id, auth.uid())
+    OR is_campaign_owner(campaign_id, auth.uid())
+  )
+);
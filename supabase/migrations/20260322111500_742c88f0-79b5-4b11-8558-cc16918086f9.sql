@@ -0,0 +1,6 @@
+-- Table rolls: link a roll to the rule it was made on and keep the resolved row
+ALTER TABLE public.dice_roll_history
+  ADD COLUMN rule_id UUID REFERENCES public.wargame_rules(id) ON DELETE SET NULL,
+  ADD COLUMN context JSONB;
+
+CREATE INDEX idx_dice_roll_history_rule ON public.dice_roll_history(rule_id) WHERE rule_id IS NOT NULL;
@@ -0,0 +1,167 @@
+-- Campaign import: write a remapped export bundle (see src/lib/campaignImport.ts)
+-- as a brand new campaign owned by the caller, all in one transaction.
+--
+-- The client assigns every id; this function pins every row to the new campaign
+-- and refuses references that point outside it, so a crafted bundle can't touch
+-- anything the caller doesn't own.
+CREATE OR REPLACE FUNCTION public.import_campaign(bundle jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  new_campaign_id uuid := (bundle->'campaign'->>'id')::uuid;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF new_campaign_id IS NULL THEN
+    RAISE EXCEPTION 'Import bundle has no campaign';
+  END IF;
+  IF NOT public.can_create_campaign(caller) THEN
+    RAISE EXCEPTION 'Campaign limit reached';
+  END IF;
+
+  INSERT INTO public.campaigns (
+    id, owner_id, name, description, points_limit, max_players, total_rounds, round_length,
+    game_system, game_system_id, start_date, end_date, status, current_round, title_color,
+    border_color, display_settings, banner_url, theme_id, rules_repo_url, rules_repo_ref
+  )
+  SELECT
+    new_campaign_id, caller, r.name, r.description, r.points_limit, r.max_players, r.total_rounds, r.round_length,
+    r.game_system, (SELECT gs.id FROM public.game_systems gs WHERE gs.id = r.game_system_id), r.start_date, r.end_date,
+    r.status, r.current_round, r.title_color, r.border_color, r.display_settings, r.banner_url,
+    COALESCE(r.theme_id, 'dark'), r.rules_repo_url, r.rules_repo_ref
+  FROM jsonb_populate_record(NULL::public.campaigns, bundle->'campaign') r;
+
+  -- Players: only the caller may be a real account; everyone else is a ghost
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::public.campaign_players, COALESCE(bundle->'players', '[]')) r
+    WHERE r.user_id <> caller
+      AND (r.is_ghost IS NOT TRUE OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = r.user_id))
+  ) THEN
+    RAISE EXCEPTION 'Imported players must be ghost players';
+  END IF;
+
+  INSERT INTO public.campaign_players (
+    id, campaign_id, user_id, role, player_name, faction, sub_faction, current_points,
+    warband_link, additional_info, is_ghost, joined_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.user_id, r.role, r.player_name, r.faction, r.sub_faction, r.current_points,
+    r.warband_link, r.additional_info, r.user_id <> caller, r.joined_at
+  FROM jsonb_populate_recordset(NULL::public.campaign_players, COALESCE(bundle->'players', '[]')) r;
+
+  INSERT INTO public.wargame_rules (
+    id, campaign_id, category, rule_key, title, content, metadata, source_section,
+    validation_status, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.category, r.rule_key, r.title, r.content, r.metadata, r.source_section,
+    r.validation_status, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.wargame_rules, COALESCE(bundle->'rules', '[]')) r;
+
+  INSERT INTO public.dashboard_components (
+    id, campaign_id, name, component_type, data_source, config, position_x, position_y,
+    width, height, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.name, r.component_type, r.data_source, r.config, r.position_x, r.position_y,
+    r.width, r.height, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.dashboard_components, COALESCE(bundle->'components', '[]')) r;
+
+  INSERT INTO public.warbands (
+    id, campaign_id, owner_id, name, faction, sub_faction, narrative, points_total, roster,
+    created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.owner_id, r.name, r.faction, r.sub_faction, r.narrative, r.points_total, r.roster,
+    r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.warbands, COALESCE(bundle->'warbands', '[]')) r;
+
+  INSERT INTO public.messages (id, campaign_id, author_id, recipient_id, content, priority, is_read, created_at)
+  SELECT r.id, new_campaign_id, r.author_id, r.recipient_id, r.content, r.priority, r.is_read, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.messages, COALESCE(bundle->'messages', '[]')) r;
+
+  INSERT INTO public.narrative_events (
+    id, campaign_id, author_id, title, content, event_date, event_type, image_url, visibility, created_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.author_id, r.title, r.content, r.event_date, r.event_type, r.image_url,
+    r.visibility, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.narrative_events, COALESCE(bundle->'narrativeEvents', '[]')) r;
+
+  INSERT INTO public.player_narrative_entries (id, campaign_id, player_id, title, content, created_at, updated_at)
+  SELECT r.id, new_campaign_id, r.player_id, r.title, r.content, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.player_narrative_entries, COALESCE(bundle->'playerNarratives', '[]')) r;
+
+  -- Anything authored or owned must belong to someone in the new campaign
+  IF EXISTS (
+    SELECT person FROM (
+      SELECT owner_id AS person FROM public.warbands WHERE campaign_id = new_campaign_id
+      UNION SELECT author_id FROM public.messages WHERE campaign_id = new_campaign_id
+      UNION SELECT recipient_id FROM public.messages WHERE campaign_id = new_campaign_id AND recipient_id IS NOT NULL
+      UNION SELECT author_id FROM public.narrative_events WHERE campaign_id = new_campaign_id
+      UNION SELECT player_id FROM public.player_narrative_entries WHERE campaign_id = new_campaign_id
+    ) people
+    WHERE person <> caller
+      AND person NOT IN (SELECT user_id FROM public.campaign_players WHERE campaign_id = new_campaign_id)
+  ) THEN
+    RAISE EXCEPTION 'Imported content references people outside the campaign';
+  END IF;
+
+  INSERT INTO public.schedule_entries (
+    id, campaign_id, title, round_number, scenario, scheduled_date, start_date, end_date,
+    entry_type, status, color, created_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.title, r.round_number, r.scenario, r.scheduled_date, r.start_date, r.end_date,
+    r.entry_type, r.status, r.color, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.schedule_entries, COALESCE(bundle->'schedule', '[]')) r;
+
+  INSERT INTO public.campaign_maps (id, campaign_id, title, image_url, created_at, updated_at)
+  SELECT r.id, new_campaign_id, r.title, r.image_url, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.campaign_maps, COALESCE(bundle->'maps', '[]')) r;
+
+  -- Map children may only hang off the maps created above
+  INSERT INTO public.map_legend_items (id, map_id, name, shape, color, order_index, created_at)
+  SELECT r.id, m.id, r.name, r.shape, r.color, r.order_index, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.map_legend_items, COALESCE(bundle->'mapLegend', '[]')) r
+  JOIN public.campaign_maps m ON m.id = r.map_id AND m.campaign_id = new_campaign_id;
+
+  INSERT INTO public.map_markers (id, map_id, legend_item_id, label, position_x, position_y, visibility, created_at)
+  SELECT
+    r.id, m.id,
+    (SELECT li.id FROM public.map_legend_items li WHERE li.id = r.legend_item_id AND li.map_id = m.id),
+    r.label, r.position_x, r.position_y, r.visibility, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.map_markers, COALESCE(bundle->'mapMarkers', '[]')) r
+  JOIN public.campaign_maps m ON m.id = r.map_id AND m.campaign_id = new_campaign_id;
+
+  INSERT INTO public.battle_rounds (
+    id, campaign_id, round_index, name, status, pairing_system, starts_at, ends_at,
+    constraints_config, scoring_config, report_fields_config, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.round_index, r.name, r.status, r.pairing_system, r.starts_at, r.ends_at,
+    COALESCE(r.constraints_config, '{}'::jsonb), r.scoring_config, r.report_fields_config, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.battle_rounds, COALESCE(bundle->'battleRounds', '[]')) r;
+
+  INSERT INTO public.battle_matches (
+    id, campaign_id, round_id, participants, status, is_bye, provisional_results, final_results,
+    match_index, notes, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, br.id, r.participants, r.status, r.is_bye,
+    COALESCE(r.provisional_results, '{}'::jsonb), COALESCE(r.final_results, '{}'::jsonb),
+    r.match_index, r.notes, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.battle_matches, COALESCE(bundle->'battleMatches', '[]')) r
+  JOIN public.battle_rounds br ON br.id = r.round_id AND br.campaign_id = new_campaign_id;
+
+  RETURN new_campaign_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_campaign(jsonb) TO authenticated;
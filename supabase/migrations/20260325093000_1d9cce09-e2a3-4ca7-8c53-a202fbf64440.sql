@@ -0,0 +1,66 @@
+-- Rule revisions: every change to a rule's title or content is kept, so a bad
+-- widget edit or repo sync can be reverted. Writers say where a change came
+-- from in wargame_rules.last_change_source; the trigger copies it across.
+ALTER TABLE public.wargame_rules
+  ADD COLUMN last_change_source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (last_change_source IN ('manual', 'widget_sync', 'repo_sync', 'smart_paste', 'revert')),
+  ADD COLUMN last_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.wargame_rule_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES public.wargame_rules(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  category TEXT NOT NULL,
+  content JSONB NOT NULL,
+  source TEXT NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wargame_rule_revisions_rule ON public.wargame_rule_revisions(rule_id, created_at DESC);
+
+ALTER TABLE public.wargame_rule_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for GMs; rows are only ever written by the trigger below
+CREATE POLICY "GMs can view rule revisions"
+ON public.wargame_rule_revisions FOR SELECT
+USING (public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.record_wargame_rule_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.wargame_rule_revisions (rule_id, campaign_id, title, category, content, source, author_id)
+  VALUES (
+    NEW.id,
+    NEW.campaign_id,
+    NEW.title,
+    NEW.category,
+    NEW.content,
+    NEW.last_change_source,
+    -- Edge functions write with the service role, so they pass the user along
+    COALESCE(auth.uid(), NEW.last_changed_by)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_wargame_rule_revision
+AFTER INSERT OR UPDATE ON public.wargame_rules
+FOR EACH ROW EXECUTE FUNCTION public.record_wargame_rule_revision();
+
+-- Existing rules start their history from what they hold now
+INSERT INTO public.wargame_rule_revisions (rule_id, campaign_id, title, category, content, source, created_at)
+SELECT id, campaign_id, title, category, content, 'manual', updated_at
+FROM public.wargame_rules;
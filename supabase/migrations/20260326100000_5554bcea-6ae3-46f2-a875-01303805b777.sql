@@ -0,0 +1,77 @@
+-- Territories: named polygon regions on a campaign map, each owned by a
+-- player and worth some income/VP. Points are percentages of the map image,
+-- like marker positions: [{"x": 12.5, "y": 40}, ...]
+CREATE TABLE public.map_territories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  map_id UUID NOT NULL REFERENCES public.campaign_maps(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  owner_player_id UUID REFERENCES public.campaign_players(id) ON DELETE SET NULL,
+  value INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Adjacency between territories, stored once per pair (lower id first)
+CREATE TABLE public.map_territory_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  map_id UUID NOT NULL REFERENCES public.campaign_maps(id) ON DELETE CASCADE,
+  territory_a UUID NOT NULL REFERENCES public.map_territories(id) ON DELETE CASCADE,
+  territory_b UUID NOT NULL REFERENCES public.map_territories(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (territory_a < territory_b),
+  UNIQUE (territory_a, territory_b)
+);
+
+CREATE INDEX idx_map_territories_map ON public.map_territories(map_id);
+CREATE INDEX idx_map_territory_links_map ON public.map_territory_links(map_id);
+
+ALTER TABLE public.map_territories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.map_territory_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campaign members can view territories"
+ON public.map_territories FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_territories.map_id
+    AND (public.is_campaign_member(cm.campaign_id, auth.uid()) OR public.is_campaign_gm(cm.campaign_id, auth.uid()))
+  )
+);
+
+CREATE POLICY "Full GMs can manage territories"
+ON public.map_territories FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_territories.map_id
+    AND public.has_full_gm_access(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Campaign members can view territory links"
+ON public.map_territory_links FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_territory_links.map_id
+    AND (public.is_campaign_member(cm.campaign_id, auth.uid()) OR public.is_campaign_gm(cm.campaign_id, auth.uid()))
+  )
+);
+
+CREATE POLICY "Full GMs can manage territory links"
+ON public.map_territory_links FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_territory_links.map_id
+    AND public.has_full_gm_access(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE TRIGGER update_map_territories_updated_at
+BEFORE UPDATE ON public.map_territories
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.map_territories;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.map_territory_links;
@@ -0,0 +1,20 @@
+-- Battles can be fought over a territory, or over a map location that sits
+-- inside one. Approving the result moves ownership per the round's rules.
+ALTER TABLE public.battle_matches
+  ADD COLUMN territory_id UUID REFERENCES public.map_territories(id) ON DELETE SET NULL,
+  ADD COLUMN contested_marker_id UUID REFERENCES public.map_markers(id) ON DELETE SET NULL,
+  ADD COLUMN attacker_side TEXT CHECK (attacker_side IN ('a', 'b', 'c', 'd'));
+
+CREATE INDEX idx_battle_matches_territory ON public.battle_matches(territory_id);
+
+-- Territory transfers are campaign news, not GM bookkeeping: let every
+-- member read them so they can show in the activity feed
+CREATE POLICY "Campaign members can view territory transfers"
+ON public.battle_audit_trail FOR SELECT
+USING (
+  entity_type = 'territory'
+  AND (
+    public.is_campaign_member(campaign_id, auth.uid())
+    OR public.is_campaign_gm(campaign_id, auth.uid())
+  )
+);
@@ -0,0 +1,253 @@
+-- Fog of war shapes and per-player reveals.
+--
+-- Regions can now be rectangles, polygons or freehand brush strokes. Points
+-- are percentages of the map image like territory points; position/width/
+-- height stay as the bounding box (including the brush radius) so the old
+-- rectangle renderer and quick bbox checks keep working.
+ALTER TABLE public.map_fog_regions
+  ADD COLUMN shape TEXT NOT NULL DEFAULT 'rect' CHECK (shape IN ('rect', 'polygon', 'brush')),
+  ADD COLUMN points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN brush_size FLOAT NOT NULL DEFAULT 0;
+
+-- A region with revealed = true is open to everyone; otherwise it's open only
+-- to the players listed here
+CREATE TABLE public.map_fog_reveals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  region_id UUID NOT NULL REFERENCES public.map_fog_regions(id) ON DELETE CASCADE,
+  map_id UUID NOT NULL REFERENCES public.campaign_maps(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.campaign_players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (region_id, player_id)
+);
+
+CREATE INDEX idx_map_fog_reveals_map ON public.map_fog_reveals(map_id);
+CREATE INDEX idx_map_fog_regions_map ON public.map_fog_regions(map_id);
+
+ALTER TABLE public.map_fog_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Whether a fog region is lifted for a user, either for everyone or for
+-- their own player entry
+CREATE OR REPLACE FUNCTION public.fog_revealed_to(_region_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.map_fog_regions
+    WHERE id = _region_id AND revealed
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.map_fog_reveals r
+    JOIN public.campaign_players cp ON cp.id = r.player_id
+    WHERE r.region_id = _region_id AND cp.user_id = _user_id
+  )
+$$;
+
+-- Mirrors fogRegionContains in src/lib/fog.ts
+CREATE OR REPLACE FUNCTION public.fog_region_contains(_region public.map_fog_regions, _x float, _y float)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  n int := jsonb_array_length(_region.points);
+  i int;
+  j int;
+  xi float; yi float; xj float; yj float;
+  inside boolean := false;
+  radius float := _region.brush_size / 2;
+  dx float; dy float; t float;
+BEGIN
+  IF _x < _region.position_x OR _x > _region.position_x + _region.width
+    OR _y < _region.position_y OR _y > _region.position_y + _region.height THEN
+    RETURN false;
+  END IF;
+
+  IF _region.shape = 'rect' OR n = 0 THEN
+    RETURN _region.shape = 'rect';
+  END IF;
+
+  IF _region.shape = 'polygon' THEN
+    j := n - 1;
+    FOR i IN 0..n - 1 LOOP
+      xi := (_region.points->i->>'x')::float; yi := (_region.points->i->>'y')::float;
+      xj := (_region.points->j->>'x')::float; yj := (_region.points->j->>'y')::float;
+      IF (yi > _y) <> (yj > _y) AND _x < (xj - xi) * (_y - yi) / (yj - yi) + xi THEN
+        inside := NOT inside;
+      END IF;
+      j := i;
+    END LOOP;
+    RETURN inside;
+  END IF;
+
+  -- Brush: within the radius of any stroke segment
+  FOR i IN 0..n - 1 LOOP
+    xi := (_region.points->i->>'x')::float; yi := (_region.points->i->>'y')::float;
+    j := LEAST(i + 1, n - 1);
+    xj := (_region.points->j->>'x')::float; yj := (_region.points->j->>'y')::float;
+    dx := xj - xi; dy := yj - yi;
+    t := 0;
+    IF dx * dx + dy * dy > 0 THEN
+      t := GREATEST(0, LEAST(1, ((_x - xi) * dx + (_y - yi) * dy) / (dx * dx + dy * dy)));
+    END IF;
+    IF (_x - xi - t * dx) ^ 2 + (_y - yi - t * dy) ^ 2 <= radius * radius THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+  RETURN false;
+END;
+$$;
+
+-- Whether any region still hidden from the user covers a point
+CREATE OR REPLACE FUNCTION public.fog_hides_point(_map_id uuid, _x float, _y float, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.map_fog_regions f
+    WHERE f.map_id = _map_id
+      AND public.fog_region_contains(f, _x, _y)
+      AND NOT public.fog_revealed_to(f.id, _user_id)
+  )
+$$;
+
+-- A territory counts as hidden once every vertex sits under fog
+CREATE OR REPLACE FUNCTION public.fog_hides_polygon(_map_id uuid, _points jsonb, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_array_length(_points) > 0 AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_points) p
+    WHERE NOT public.fog_hides_point(_map_id, (p->>'x')::float, (p->>'y')::float, _user_id)
+  )
+$$;
+
+-- Fog regions: GMs see every region; players only receive the ones still
+-- covering part of their map, and never learn who else has been let in
+DROP POLICY IF EXISTS "Campaign members can view fog regions" ON public.map_fog_regions;
+
+CREATE POLICY "GMs can view fog regions"
+ON public.map_fog_regions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_fog_regions.map_id
+    AND public.is_campaign_gm(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Players can view fog hidden from them"
+ON public.map_fog_regions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_fog_regions.map_id
+    AND public.is_campaign_member(cm.campaign_id, auth.uid())
+  )
+  AND NOT public.fog_revealed_to(id, auth.uid())
+);
+
+CREATE POLICY "GMs can view fog reveals"
+ON public.map_fog_reveals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_fog_reveals.map_id
+    AND public.is_campaign_gm(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Players can view their own fog reveals"
+ON public.map_fog_reveals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = map_fog_reveals.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Full GMs can manage fog reveals"
+ON public.map_fog_reveals FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_fog_reveals.map_id
+    AND public.has_full_gm_access(cm.campaign_id, auth.uid())
+  )
+);
+
+-- Markers: GM-only markers and anything under the player's fog stay on the
+-- server. The map image itself is a single public file and can't be cut up
+-- per player, so fog only hides what's drawn on top of it.
+DROP POLICY IF EXISTS "Campaign members can view markers" ON public.map_markers;
+CREATE POLICY "Campaign members can view markers"
+ON public.map_markers FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_markers.map_id
+    AND (
+      public.is_campaign_gm(cm.campaign_id, auth.uid())
+      OR (
+        map_markers.visibility = 'all'
+        AND public.is_campaign_member(cm.campaign_id, auth.uid())
+        AND NOT public.fog_hides_point(map_markers.map_id, map_markers.position_x, map_markers.position_y, auth.uid())
+      )
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Campaign members can view territories" ON public.map_territories;
+CREATE POLICY "Campaign members can view territories"
+ON public.map_territories FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_territories.map_id
+    AND (
+      public.is_campaign_gm(cm.campaign_id, auth.uid())
+      OR (
+        public.is_campaign_member(cm.campaign_id, auth.uid())
+        AND NOT public.fog_hides_polygon(map_territories.map_id, map_territories.points, auth.uid())
+      )
+    )
+  )
+);
+
+-- Realtime only delivers rows the subscriber can still read, so a player
+-- never hears about fog lifting off them (or the markers it uncovers).
+-- Touching the map row on every fog change gives all members a change they
+-- can see and a reason to refetch.
+CREATE OR REPLACE FUNCTION public.touch_campaign_map_from_fog()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.campaign_maps
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.map_id, OLD.map_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER touch_map_on_fog_region_change
+AFTER INSERT OR UPDATE OR DELETE ON public.map_fog_regions
+FOR EACH ROW EXECUTE FUNCTION public.touch_campaign_map_from_fog();
+
+CREATE TRIGGER touch_map_on_fog_reveal_change
+AFTER INSERT OR UPDATE OR DELETE ON public.map_fog_reveals
+FOR EACH ROW EXECUTE FUNCTION public.touch_campaign_map_from_fog();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.map_fog_reveals;
@@ -0,0 +1,307 @@
+-- Map grids, measurement and movement.
+--
+-- A map can carry a square or hex grid calibrated to its image. Grid size
+-- and offsets are in map units: 100 is the image width, and the vertical axis
+-- uses the same scale so cells stay square whatever the image's shape. One
+-- cell measures cell_distance in distance_unit, which the ruler and movement
+-- allowances use.
+ALTER TABLE public.campaign_maps
+  ADD COLUMN grid_type TEXT NOT NULL DEFAULT 'none' CHECK (grid_type IN ('none', 'square', 'hex_pointy', 'hex_flat')),
+  ADD COLUMN grid_size FLOAT NOT NULL DEFAULT 5 CHECK (grid_size > 0),
+  ADD COLUMN grid_offset_x FLOAT NOT NULL DEFAULT 0,
+  ADD COLUMN grid_offset_y FLOAT NOT NULL DEFAULT 0,
+  ADD COLUMN grid_color TEXT NOT NULL DEFAULT '#ffffff',
+  ADD COLUMN grid_opacity FLOAT NOT NULL DEFAULT 0.35 CHECK (grid_opacity BETWEEN 0 AND 1),
+  ADD COLUMN snap_to_grid BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN cell_distance FLOAT NOT NULL DEFAULT 1 CHECK (cell_distance > 0),
+  ADD COLUMN distance_unit TEXT NOT NULL DEFAULT 'mi';
+
+-- A marker can belong to a player (their warband, army or scout) who may
+-- then submit moves for it, up to its allowance in distance_unit
+ALTER TABLE public.map_markers
+  ADD COLUMN owner_player_id UUID REFERENCES public.campaign_players(id) ON DELETE SET NULL,
+  ADD COLUMN movement_allowance FLOAT CHECK (movement_allowance IS NULL OR movement_allowance >= 0);
+
+-- A move is the marker's route: its starting position followed by each
+-- waypoint, as percentages of the map image. Distance is measured on the
+-- grid by the client that drew it. Players submit moves as pending; the
+-- marker only moves once a GM approves.
+CREATE TABLE public.map_movement_paths (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  map_id UUID NOT NULL REFERENCES public.campaign_maps(id) ON DELETE CASCADE,
+  marker_id UUID NOT NULL REFERENCES public.map_markers(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES public.campaign_players(id) ON DELETE SET NULL,
+  points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  distance FLOAT NOT NULL DEFAULT 0 CHECK (distance >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  gm_note TEXT,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_map_movement_paths_map ON public.map_movement_paths(map_id);
+-- One move waiting for review per marker
+CREATE UNIQUE INDEX idx_map_movement_paths_pending
+  ON public.map_movement_paths(marker_id) WHERE status = 'pending';
+
+ALTER TABLE public.map_movement_paths ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "GMs can view movement paths"
+ON public.map_movement_paths FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_movement_paths.map_id
+    AND public.is_campaign_gm(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Players can view their own movement paths"
+ON public.map_movement_paths FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = map_movement_paths.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+-- Only for markers they hold, within the marker's allowance, and only as a
+-- request: status and review fields stay with the GM
+CREATE POLICY "Players can submit moves for their markers"
+ON public.map_movement_paths FOR INSERT
+WITH CHECK (
+  status = 'pending'
+  AND reviewed_by IS NULL
+  AND reviewed_at IS NULL
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.map_markers m
+    JOIN public.campaign_players cp ON cp.id = m.owner_player_id
+    WHERE m.id = map_movement_paths.marker_id
+    AND m.map_id = map_movement_paths.map_id
+    AND cp.id = map_movement_paths.player_id
+    AND cp.user_id = auth.uid()
+    AND (m.movement_allowance IS NULL OR map_movement_paths.distance <= m.movement_allowance)
+  )
+);
+
+CREATE POLICY "Players can withdraw pending moves"
+ON public.map_movement_paths FOR DELETE
+USING (
+  status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = map_movement_paths.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Full GMs can manage movement paths"
+ON public.map_movement_paths FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_maps cm
+    WHERE cm.id = map_movement_paths.map_id
+    AND public.has_full_gm_access(cm.campaign_id, auth.uid())
+  )
+);
+
+CREATE TRIGGER update_map_movement_paths_updated_at
+BEFORE UPDATE ON public.map_movement_paths
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.map_movement_paths;
+
+-- Carry grid calibration, marker owners and allowances through templates,
+-- clones and imports
+CREATE OR REPLACE FUNCTION public.import_campaign(bundle jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  new_campaign_id uuid := (bundle->'campaign'->>'id')::uuid;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF new_campaign_id IS NULL THEN
+    RAISE EXCEPTION 'Import bundle has no campaign';
+  END IF;
+  IF NOT public.can_create_campaign(caller) THEN
+    RAISE EXCEPTION 'Campaign limit reached';
+  END IF;
+
+  INSERT INTO public.campaigns (
+    id, owner_id, name, description, points_limit, max_players, total_rounds, round_length,
+    game_system, game_system_id, start_date, end_date, status, current_round, title_color,
+    border_color, display_settings, banner_url, theme_id, rules_repo_url, rules_repo_ref
+  )
+  SELECT
+    new_campaign_id, caller, r.name, r.description, r.points_limit, r.max_players, r.total_rounds, r.round_length,
+    r.game_system, (SELECT gs.id FROM public.game_systems gs WHERE gs.id = r.game_system_id), r.start_date, r.end_date,
+    r.status, r.current_round, r.title_color, r.border_color, r.display_settings, r.banner_url,
+    COALESCE(r.theme_id, 'dark'), r.rules_repo_url, r.rules_repo_ref
+  FROM jsonb_populate_record(NULL::public.campaigns, bundle->'campaign') r;
+
+  -- Players: only the caller may be a real account; everyone else is a ghost
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_populate_recordset(NULL::public.campaign_players, COALESCE(bundle->'players', '[]')) r
+    WHERE r.user_id <> caller
+      AND (r.is_ghost IS NOT TRUE OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = r.user_id))
+  ) THEN
+    RAISE EXCEPTION 'Imported players must be ghost players';
+  END IF;
+
+  INSERT INTO public.campaign_players (
+    id, campaign_id, user_id, role, player_name, faction, sub_faction, current_points,
+    warband_link, additional_info, is_ghost, joined_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.user_id, r.role, r.player_name, r.faction, r.sub_faction, r.current_points,
+    r.warband_link, r.additional_info, r.user_id <> caller, r.joined_at
+  FROM jsonb_populate_recordset(NULL::public.campaign_players, COALESCE(bundle->'players', '[]')) r;
+
+  INSERT INTO public.wargame_rules (
+    id, campaign_id, category, rule_key, title, content, metadata, source_section,
+    validation_status, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.category, r.rule_key, r.title, r.content, r.metadata, r.source_section,
+    r.validation_status, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.wargame_rules, COALESCE(bundle->'rules', '[]')) r;
+
+  INSERT INTO public.campaign_units (
+    id, campaign_id, name, faction, sub_faction, base_cost, stats, abilities, keywords,
+    equipment_options, source, source_ref, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.name, r.faction, r.sub_faction, r.base_cost, r.stats, r.abilities, r.keywords,
+    r.equipment_options, r.source, r.source_ref, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.campaign_units, COALESCE(bundle->'units', '[]')) r;
+
+  INSERT INTO public.dashboard_components (
+    id, campaign_id, name, component_type, data_source, config, position_x, position_y,
+    width, height, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.name, r.component_type, r.data_source, r.config, r.position_x, r.position_y,
+    r.width, r.height, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.dashboard_components, COALESCE(bundle->'components', '[]')) r;
+
+  INSERT INTO public.warbands (
+    id, campaign_id, owner_id, name, faction, sub_faction, narrative, points_total, roster,
+    created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.owner_id, r.name, r.faction, r.sub_faction, r.narrative, r.points_total, r.roster,
+    r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.warbands, COALESCE(bundle->'warbands', '[]')) r;
+
+  INSERT INTO public.messages (id, campaign_id, author_id, recipient_id, content, priority, is_read, created_at)
+  SELECT r.id, new_campaign_id, r.author_id, r.recipient_id, r.content, r.priority, r.is_read, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.messages, COALESCE(bundle->'messages', '[]')) r;
+
+  INSERT INTO public.narrative_events (
+    id, campaign_id, author_id, title, content, event_date, event_type, image_url, visibility, created_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.author_id, r.title, r.content, r.event_date, r.event_type, r.image_url,
+    r.visibility, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.narrative_events, COALESCE(bundle->'narrativeEvents', '[]')) r;
+
+  INSERT INTO public.player_narrative_entries (id, campaign_id, player_id, title, content, created_at, updated_at)
+  SELECT r.id, new_campaign_id, r.player_id, r.title, r.content, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.player_narrative_entries, COALESCE(bundle->'playerNarratives', '[]')) r;
+
+  -- Anything authored or owned must belong to someone in the new campaign
+  IF EXISTS (
+    SELECT person FROM (
+      SELECT owner_id AS person FROM public.warbands WHERE campaign_id = new_campaign_id
+      UNION SELECT author_id FROM public.messages WHERE campaign_id = new_campaign_id
+      UNION SELECT recipient_id FROM public.messages WHERE campaign_id = new_campaign_id AND recipient_id IS NOT NULL
+      UNION SELECT author_id FROM public.narrative_events WHERE campaign_id = new_campaign_id
+      UNION SELECT player_id FROM public.player_narrative_entries WHERE campaign_id = new_campaign_id
+    ) people
+    WHERE person <> caller
+      AND person NOT IN (SELECT user_id FROM public.campaign_players WHERE campaign_id = new_campaign_id)
+  ) THEN
+    RAISE EXCEPTION 'Imported content references people outside the campaign';
+  END IF;
+
+  INSERT INTO public.schedule_entries (
+    id, campaign_id, title, round_number, scenario, scheduled_date, start_date, end_date,
+    entry_type, status, color, created_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.title, r.round_number, r.scenario, r.scheduled_date, r.start_date, r.end_date,
+    r.entry_type, r.status, r.color, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.schedule_entries, COALESCE(bundle->'schedule', '[]')) r;
+
+  INSERT INTO public.campaign_maps (
+    id, campaign_id, title, image_url, grid_type, grid_size, grid_offset_x, grid_offset_y, grid_color,
+    grid_opacity, snap_to_grid, cell_distance, distance_unit, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.title, r.image_url, r.grid_type, r.grid_size, r.grid_offset_x, r.grid_offset_y,
+    r.grid_color, r.grid_opacity, r.snap_to_grid, r.cell_distance, r.distance_unit, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.campaign_maps, COALESCE(bundle->'maps', '[]')) r;
+
+  -- Parents are set once every map exists, and only to maps in this campaign
+  UPDATE public.campaign_maps m
+  SET parent_map_id = r.parent_map_id
+  FROM jsonb_populate_recordset(NULL::public.campaign_maps, COALESCE(bundle->'maps', '[]')) r
+  WHERE m.id = r.id
+    AND m.campaign_id = new_campaign_id
+    AND r.parent_map_id IN (SELECT id FROM public.campaign_maps WHERE campaign_id = new_campaign_id);
+
+  -- Map children may only hang off the maps created above
+  INSERT INTO public.map_legend_items (id, map_id, name, shape, color, order_index, created_at)
+  SELECT r.id, m.id, r.name, r.shape, r.color, r.order_index, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.map_legend_items, COALESCE(bundle->'mapLegend', '[]')) r
+  JOIN public.campaign_maps m ON m.id = r.map_id AND m.campaign_id = new_campaign_id;
+
+  INSERT INTO public.map_markers (
+    id, map_id, legend_item_id, label, position_x, position_y, visibility, linked_map_id,
+    owner_player_id, movement_allowance, created_at
+  )
+  SELECT
+    r.id, m.id,
+    (SELECT li.id FROM public.map_legend_items li WHERE li.id = r.legend_item_id AND li.map_id = m.id),
+    r.label, r.position_x, r.position_y, r.visibility,
+    (SELECT lm.id FROM public.campaign_maps lm WHERE lm.id = r.linked_map_id AND lm.campaign_id = new_campaign_id),
+    (SELECT cp.id FROM public.campaign_players cp WHERE cp.id = r.owner_player_id AND cp.campaign_id = new_campaign_id),
+    r.movement_allowance, r.created_at
+  FROM jsonb_populate_recordset(NULL::public.map_markers, COALESCE(bundle->'mapMarkers', '[]')) r
+  JOIN public.campaign_maps m ON m.id = r.map_id AND m.campaign_id = new_campaign_id;
+
+  INSERT INTO public.battle_rounds (
+    id, campaign_id, round_index, name, status, pairing_system, starts_at, ends_at,
+    constraints_config, scoring_config, report_fields_config, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, r.round_index, r.name, r.status, r.pairing_system, r.starts_at, r.ends_at,
+    COALESCE(r.constraints_config, '{}'::jsonb), r.scoring_config, r.report_fields_config, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.battle_rounds, COALESCE(bundle->'battleRounds', '[]')) r;
+
+  INSERT INTO public.battle_matches (
+    id, campaign_id, round_id, participants, status, is_bye, provisional_results, final_results,
+    match_index, notes, created_at, updated_at
+  )
+  SELECT
+    r.id, new_campaign_id, br.id, r.participants, r.status, r.is_bye,
+    COALESCE(r.provisional_results, '{}'::jsonb), COALESCE(r.final_results, '{}'::jsonb),
+    r.match_index, r.notes, r.created_at, r.updated_at
+  FROM jsonb_populate_recordset(NULL::public.battle_matches, COALESCE(bundle->'battleMatches', '[]')) r
+  JOIN public.battle_rounds br ON br.id = r.round_id AND br.campaign_id = new_campaign_id;
+
+  RETURN new_campaign_id;
+END;
+$$;
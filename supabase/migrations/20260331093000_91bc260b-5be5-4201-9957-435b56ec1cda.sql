@@ -0,0 +1,307 @@
+-- Turn and phase engine.
+--
+-- Each campaign round (campaigns.current_round) runs through the campaign's
+-- phases in order, e.g. Orders -> Movement -> Battles -> Upkeep. The GM
+-- advances the turn one phase at a time; moving on from the last phase starts
+-- the next round and runs the upkeep steps the GM has switched on.
+CREATE TABLE public.campaign_phases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  phase_type TEXT NOT NULL DEFAULT 'other' CHECK (phase_type IN ('orders', 'movement', 'battles', 'upkeep', 'other')),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_campaign_phases_campaign ON public.campaign_phases(campaign_id, order_index);
+
+-- Where each campaign is in its turn. A missing row or a null phase means the
+-- round hasn't started its first phase yet.
+CREATE TABLE public.campaign_turn_state (
+  campaign_id UUID PRIMARY KEY REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  current_phase_id UUID REFERENCES public.campaign_phases(id) ON DELETE SET NULL,
+  phase_started_at TIMESTAMPTZ,
+  upkeep_steps TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (upkeep_steps <@ ARRAY['territory_income', 'battle_round']::TEXT[]),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A schedule entry tied to a phase sets that phase's deadline for its round
+ALTER TABLE public.schedule_entries
+  ADD COLUMN phase_id UUID REFERENCES public.campaign_phases(id) ON DELETE SET NULL;
+
+-- Orders players write during an Orders phase. Only their author (and the
+-- GM, who adjudicates them) can read them until the phase is advanced.
+CREATE TABLE public.campaign_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  phase_id UUID NOT NULL REFERENCES public.campaign_phases(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  player_id UUID NOT NULL REFERENCES public.campaign_players(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  revealed_at TIMESTAMPTZ,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (phase_id, round_number, player_id)
+);
+
+CREATE INDEX idx_campaign_orders_campaign ON public.campaign_orders(campaign_id, round_number);
+
+-- Orders can be written while their phase is the campaign's current Orders
+-- phase and its deadline, if it has one, hasn't passed
+CREATE OR REPLACE FUNCTION public.can_submit_orders(_campaign_id uuid, _phase_id uuid, _round_number integer)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.campaign_turn_state ts
+    JOIN public.campaign_phases p ON p.id = ts.current_phase_id
+    JOIN public.campaigns c ON c.id = ts.campaign_id
+    WHERE ts.campaign_id = _campaign_id
+      AND ts.current_phase_id = _phase_id
+      AND p.phase_type = 'orders'
+      AND COALESCE(c.current_round, 1) = _round_number
+      AND NOT EXISTS (
+        SELECT 1 FROM public.schedule_entries se
+        WHERE se.campaign_id = _campaign_id
+          AND se.phase_id = _phase_id
+          AND se.round_number = _round_number
+          AND COALESCE(se.end_date, se.start_date) < CURRENT_DATE
+      )
+  )
+$$;
+
+ALTER TABLE public.campaign_phases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_turn_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.campaign_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campaign members can view phases"
+ON public.campaign_phases FOR SELECT
+USING (public.is_campaign_member(campaign_id, auth.uid()) OR public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Full GMs can manage phases"
+ON public.campaign_phases FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+CREATE POLICY "Campaign members can view turn state"
+ON public.campaign_turn_state FOR SELECT
+USING (public.is_campaign_member(campaign_id, auth.uid()) OR public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Full GMs can manage turn state"
+ON public.campaign_turn_state FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+CREATE POLICY "GMs can view orders"
+ON public.campaign_orders FOR SELECT
+USING (public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Players can view their own orders"
+ON public.campaign_orders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = campaign_orders.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Campaign members can view revealed orders"
+ON public.campaign_orders FOR SELECT
+USING (revealed_at IS NOT NULL AND public.is_campaign_member(campaign_id, auth.uid()));
+
+CREATE POLICY "Players can submit their orders"
+ON public.campaign_orders FOR INSERT
+WITH CHECK (
+  revealed_at IS NULL
+  AND created_by = auth.uid()
+  AND public.can_submit_orders(campaign_id, phase_id, round_number)
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = campaign_orders.player_id
+    AND cp.campaign_id = campaign_orders.campaign_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Players can revise their orders"
+ON public.campaign_orders FOR UPDATE
+USING (
+  revealed_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = campaign_orders.player_id
+    AND cp.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  revealed_at IS NULL
+  AND public.can_submit_orders(campaign_id, phase_id, round_number)
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = campaign_orders.player_id
+    AND cp.campaign_id = campaign_orders.campaign_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Players can withdraw their orders"
+ON public.campaign_orders FOR DELETE
+USING (
+  revealed_at IS NULL
+  AND public.can_submit_orders(campaign_id, phase_id, round_number)
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = campaign_orders.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Full GMs can manage orders"
+ON public.campaign_orders FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+CREATE TRIGGER update_campaign_phases_updated_at
+BEFORE UPDATE ON public.campaign_phases
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_campaign_turn_state_updated_at
+BEFORE UPDATE ON public.campaign_turn_state
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_campaign_orders_updated_at
+BEFORE UPDATE ON public.campaign_orders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.campaign_phases;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.campaign_turn_state;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.campaign_orders;
+
+-- Move the campaign to its next phase in one transaction: reveal the orders
+-- of the phase that is ending, close its schedule entries and open the next
+-- phase's. Past the last phase the round number goes up and upkeep runs:
+--   territory_income  each player's current_points grows by the value of
+--                     the territories they hold
+--   battle_round      a draft battle round is created for the new round
+CREATE OR REPLACE FUNCTION public.advance_campaign_phase(_campaign_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  turn_round integer;
+  state public.campaign_turn_state;
+  ending public.campaign_phases;
+  next_phase_id uuid;
+  new_round boolean := false;
+  revealed integer := 0;
+  income_total integer := 0;
+  new_battle_round_id uuid;
+BEGIN
+  IF NOT public.has_full_gm_access(_campaign_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the GM can advance the turn';
+  END IF;
+
+  SELECT COALESCE(current_round, 1) INTO turn_round
+  FROM public.campaigns WHERE id = _campaign_id
+  FOR UPDATE;
+
+  INSERT INTO public.campaign_turn_state (campaign_id) VALUES (_campaign_id)
+  ON CONFLICT (campaign_id) DO NOTHING;
+  SELECT * INTO state FROM public.campaign_turn_state WHERE campaign_id = _campaign_id;
+
+  IF state.current_phase_id IS NOT NULL THEN
+    SELECT * INTO ending FROM public.campaign_phases WHERE id = state.current_phase_id;
+
+    UPDATE public.campaign_orders
+    SET revealed_at = now()
+    WHERE campaign_id = _campaign_id
+      AND phase_id = ending.id
+      AND round_number = turn_round
+      AND revealed_at IS NULL;
+    GET DIAGNOSTICS revealed = ROW_COUNT;
+
+    UPDATE public.schedule_entries
+    SET status = 'completed'
+    WHERE campaign_id = _campaign_id AND phase_id = ending.id AND round_number = turn_round;
+
+    SELECT p.id INTO next_phase_id
+    FROM public.campaign_phases p
+    WHERE p.campaign_id = _campaign_id
+      AND (p.order_index, p.id) > (ending.order_index, ending.id)
+    ORDER BY p.order_index, p.id
+    LIMIT 1;
+
+    new_round := next_phase_id IS NULL;
+  ELSE
+    -- Not started: begin the first phase, or with no phases just end the round
+    new_round := NOT EXISTS (SELECT 1 FROM public.campaign_phases WHERE campaign_id = _campaign_id);
+  END IF;
+
+  IF new_round THEN
+    turn_round := turn_round + 1;
+    UPDATE public.campaigns SET current_round = turn_round WHERE id = _campaign_id;
+
+    IF 'territory_income' = ANY(state.upkeep_steps) THEN
+      WITH income AS (
+        SELECT t.owner_player_id AS player_id, SUM(t.value)::integer AS amount
+        FROM public.map_territories t
+        JOIN public.campaign_maps m ON m.id = t.map_id
+        WHERE m.campaign_id = _campaign_id AND t.owner_player_id IS NOT NULL
+        GROUP BY t.owner_player_id
+      ), paid AS (
+        UPDATE public.campaign_players cp
+        SET current_points = COALESCE(cp.current_points, 0) + income.amount
+        FROM income
+        WHERE cp.id = income.player_id AND cp.campaign_id = _campaign_id
+        RETURNING income.amount
+      )
+      SELECT COALESCE(SUM(amount), 0) INTO income_total FROM paid;
+    END IF;
+
+    IF 'battle_round' = ANY(state.upkeep_steps)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.battle_rounds
+        WHERE campaign_id = _campaign_id AND round_index = turn_round
+      )
+    THEN
+      INSERT INTO public.battle_rounds (campaign_id, round_index, name, status)
+      VALUES (_campaign_id, turn_round, 'Round ' || turn_round, 'draft')
+      RETURNING id INTO new_battle_round_id;
+    END IF;
+  END IF;
+
+  IF next_phase_id IS NULL THEN
+    SELECT id INTO next_phase_id
+    FROM public.campaign_phases
+    WHERE campaign_id = _campaign_id
+    ORDER BY order_index, id
+    LIMIT 1;
+  END IF;
+
+  UPDATE public.campaign_turn_state
+  SET current_phase_id = next_phase_id, phase_started_at = now()
+  WHERE campaign_id = _campaign_id;
+
+  IF next_phase_id IS NOT NULL THEN
+    UPDATE public.schedule_entries
+    SET status = 'active'
+    WHERE campaign_id = _campaign_id AND phase_id = next_phase_id AND round_number = turn_round;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'round', turn_round,
+    'phase_id', next_phase_id,
+    'new_round', new_round,
+    'revealed_orders', revealed,
+    'income', income_total,
+    'battle_round_id', new_battle_round_id
+  );
+END;
+$$;
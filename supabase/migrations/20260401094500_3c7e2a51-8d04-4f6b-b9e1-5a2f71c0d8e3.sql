@@ -0,0 +1,251 @@
+-- Campaign economy: each campaign defines its own currencies (gold, glory,
+-- supplies...) and every change to a player's holdings is a ledger entry
+-- with a reason and a link to whatever caused it. Balances are the sum of
+-- the entries that haven't been undone.
+CREATE TABLE public.campaign_currencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  -- Territory income is paid in this currency
+  receives_income BOOLEAN NOT NULL DEFAULT false,
+  -- New units bought in the warband builder are paid for in this currency
+  pays_for_units BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, name)
+);
+
+CREATE UNIQUE INDEX idx_campaign_currencies_income
+  ON public.campaign_currencies(campaign_id) WHERE receives_income;
+CREATE UNIQUE INDEX idx_campaign_currencies_purchases
+  ON public.campaign_currencies(campaign_id) WHERE pays_for_units;
+
+CREATE TABLE public.resource_ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.campaign_players(id) ON DELETE CASCADE,
+  currency_id UUID NOT NULL REFERENCES public.campaign_currencies(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  source_type TEXT NOT NULL
+    CHECK (source_type IN ('battle_report', 'territory_income', 'gm_adjustment', 'warband_purchase')),
+  -- The battle report, territory or warband behind the entry
+  source_id UUID,
+  round_number INTEGER,
+  reason TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Undone entries stay in the history but no longer count
+  undone_at TIMESTAMP WITH TIME ZONE,
+  undone_by UUID
+);
+
+CREATE INDEX idx_resource_ledger_player ON public.resource_ledger_entries(campaign_id, player_id, created_at);
+CREATE INDEX idx_resource_ledger_source ON public.resource_ledger_entries(source_type, source_id);
+
+ALTER TABLE public.campaign_currencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.resource_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campaign members can view currencies"
+ON public.campaign_currencies FOR SELECT
+USING (public.is_campaign_member(campaign_id, auth.uid()) OR public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Full GMs can manage currencies"
+ON public.campaign_currencies FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+CREATE POLICY "GMs can view the ledger"
+ON public.resource_ledger_entries FOR SELECT
+USING (public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Players can view their own ledger"
+ON public.resource_ledger_entries FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = resource_ledger_entries.player_id
+    AND cp.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Full GMs can manage the ledger"
+ON public.resource_ledger_entries FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+-- Players pay for the units they add to their own warbands, and nothing else
+CREATE POLICY "Players can record warband purchases"
+ON public.resource_ledger_entries FOR INSERT
+WITH CHECK (
+  source_type = 'warband_purchase'
+  AND amount < 0
+  AND undone_at IS NULL
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_players cp
+    WHERE cp.id = resource_ledger_entries.player_id
+    AND cp.campaign_id = resource_ledger_entries.campaign_id
+    AND cp.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_currencies c
+    WHERE c.id = resource_ledger_entries.currency_id
+    AND c.campaign_id = resource_ledger_entries.campaign_id
+    AND c.pays_for_units
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.warbands w
+    WHERE w.id = resource_ledger_entries.source_id
+    AND w.campaign_id = resource_ledger_entries.campaign_id
+    AND w.owner_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_campaign_currencies_updated_at
+BEFORE UPDATE ON public.campaign_currencies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.campaign_currencies;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.resource_ledger_entries;
+
+-- Territory income now goes through the ledger: one entry per territory in
+-- the campaign's income currency. Campaigns without one keep adding to
+-- current_points as before.
+CREATE OR REPLACE FUNCTION public.advance_campaign_phase(_campaign_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  turn_round integer;
+  state public.campaign_turn_state;
+  ending public.campaign_phases;
+  next_phase_id uuid;
+  new_round boolean := false;
+  revealed integer := 0;
+  income_total integer := 0;
+  income_currency_id uuid;
+  new_battle_round_id uuid;
+BEGIN
+  IF NOT public.has_full_gm_access(_campaign_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the GM can advance the turn';
+  END IF;
+
+  SELECT COALESCE(current_round, 1) INTO turn_round
+  FROM public.campaigns WHERE id = _campaign_id
+  FOR UPDATE;
+
+  INSERT INTO public.campaign_turn_state (campaign_id) VALUES (_campaign_id)
+  ON CONFLICT (campaign_id) DO NOTHING;
+  SELECT * INTO state FROM public.campaign_turn_state WHERE campaign_id = _campaign_id;
+
+  IF state.current_phase_id IS NOT NULL THEN
+    SELECT * INTO ending FROM public.campaign_phases WHERE id = state.current_phase_id;
+
+    UPDATE public.campaign_orders
+    SET revealed_at = now()
+    WHERE campaign_id = _campaign_id
+      AND phase_id = ending.id
+      AND round_number = turn_round
+      AND revealed_at IS NULL;
+    GET DIAGNOSTICS revealed = ROW_COUNT;
+
+    UPDATE public.schedule_entries
+    SET status = 'completed'
+    WHERE campaign_id = _campaign_id AND phase_id = ending.id AND round_number = turn_round;
+
+    SELECT p.id INTO next_phase_id
+    FROM public.campaign_phases p
+    WHERE p.campaign_id = _campaign_id
+      AND (p.order_index, p.id) > (ending.order_index, ending.id)
+    ORDER BY p.order_index, p.id
+    LIMIT 1;
+
+    new_round := next_phase_id IS NULL;
+  ELSE
+    -- Not started: begin the first phase, or with no phases just end the round
+    new_round := NOT EXISTS (SELECT 1 FROM public.campaign_phases WHERE campaign_id = _campaign_id);
+  END IF;
+
+  IF new_round THEN
+    turn_round := turn_round + 1;
+    UPDATE public.campaigns SET current_round = turn_round WHERE id = _campaign_id;
+
+    IF 'territory_income' = ANY(state.upkeep_steps) THEN
+      SELECT id INTO income_currency_id
+      FROM public.campaign_currencies
+      WHERE campaign_id = _campaign_id AND receives_income;
+
+      IF income_currency_id IS NOT NULL THEN
+        WITH paid AS (
+          INSERT INTO public.resource_ledger_entries (
+            campaign_id, player_id, currency_id, amount, source_type, source_id, round_number, reason
+          )
+          SELECT _campaign_id, t.owner_player_id, income_currency_id, t.value, 'territory_income', t.id,
+            turn_round, 'Income from ' || t.name
+          FROM public.map_territories t
+          JOIN public.campaign_maps m ON m.id = t.map_id
+          JOIN public.campaign_players cp ON cp.id = t.owner_player_id AND cp.campaign_id = _campaign_id
+          WHERE m.campaign_id = _campaign_id AND t.value <> 0
+          RETURNING amount
+        )
+        SELECT COALESCE(SUM(amount), 0) INTO income_total FROM paid;
+      ELSE
+        WITH income AS (
+          SELECT t.owner_player_id AS player_id, SUM(t.value)::integer AS amount
+          FROM public.map_territories t
+          JOIN public.campaign_maps m ON m.id = t.map_id
+          WHERE m.campaign_id = _campaign_id AND t.owner_player_id IS NOT NULL
+          GROUP BY t.owner_player_id
+        ), paid AS (
+          UPDATE public.campaign_players cp
+          SET current_points = COALESCE(cp.current_points, 0) + income.amount
+          FROM income
+          WHERE cp.id = income.player_id AND cp.campaign_id = _campaign_id
+          RETURNING income.amount
+        )
+        SELECT COALESCE(SUM(amount), 0) INTO income_total FROM paid;
+      END IF;
+    END IF;
+
+    IF 'battle_round' = ANY(state.upkeep_steps)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.battle_rounds
+        WHERE campaign_id = _campaign_id AND round_index = turn_round
+      )
+    THEN
+      INSERT INTO public.battle_rounds (campaign_id, round_index, name, status)
+      VALUES (_campaign_id, turn_round, 'Round ' || turn_round, 'draft')
+      RETURNING id INTO new_battle_round_id;
+    END IF;
+  END IF;
+
+  IF next_phase_id IS NULL THEN
+    SELECT id INTO next_phase_id
+    FROM public.campaign_phases
+    WHERE campaign_id = _campaign_id
+    ORDER BY order_index, id
+    LIMIT 1;
+  END IF;
+
+  UPDATE public.campaign_turn_state
+  SET current_phase_id = next_phase_id, phase_started_at = now()
+  WHERE campaign_id = _campaign_id;
+
+  IF next_phase_id IS NOT NULL THEN
+    UPDATE public.schedule_entries
+    SET status = 'active'
+    WHERE campaign_id = _campaign_id AND phase_id = next_phase_id AND round_number = turn_round;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'round', turn_round,
+    'phase_id', next_phase_id,
+    'new_round', new_round,
+    'revealed_orders', revealed,
+    'income', income_total,
+    'battle_round_id', new_battle_round_id
+  );
+END;
+$$;
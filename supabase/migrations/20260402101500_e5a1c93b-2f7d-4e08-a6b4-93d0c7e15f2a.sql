@@ -0,0 +1,58 @@
+-- Warband progression: experience, injuries, advancements and equipment
+-- that persist between battles. Each change is an event against a unit in
+-- the warband's roster (or the warband's stash when no unit is given), so a
+-- unit's career is its event history and the GM can undo any of it.
+ALTER TABLE public.battle_reports
+  ADD COLUMN experience JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE public.warband_progression_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  warband_id UUID NOT NULL REFERENCES public.warbands(id) ON DELETE CASCADE,
+  -- RosterUnit.id inside warbands.roster; NULL for the warband's stash
+  roster_unit_id TEXT,
+  event_type TEXT NOT NULL CHECK (event_type IN ('experience', 'injury', 'advancement', 'item')),
+  -- Experience gained (or lost), or how many of an item
+  amount INTEGER,
+  label TEXT,
+  roll INTEGER,
+  notes TEXT,
+  source_type TEXT NOT NULL DEFAULT 'manual' CHECK (source_type IN ('battle_report', 'manual')),
+  source_id UUID,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  undone_at TIMESTAMP WITH TIME ZONE,
+  undone_by UUID
+);
+
+CREATE INDEX idx_progression_events_warband ON public.warband_progression_events(warband_id, created_at);
+CREATE INDEX idx_progression_events_source ON public.warband_progression_events(source_type, source_id);
+
+ALTER TABLE public.warband_progression_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campaign members can view progression"
+ON public.warband_progression_events FOR SELECT
+USING (public.is_campaign_member(campaign_id, auth.uid()) OR public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Full GMs can manage progression"
+ON public.warband_progression_events FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+-- Owners record their own advancement rolls and equipment; experience and
+-- injuries come from approved reports or the GM
+CREATE POLICY "Warband owners can record advancements and items"
+ON public.warband_progression_events FOR INSERT
+WITH CHECK (
+  source_type = 'manual'
+  AND event_type IN ('advancement', 'item')
+  AND undone_at IS NULL
+  AND created_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.warbands w
+    WHERE w.id = warband_progression_events.warband_id
+    AND w.campaign_id = warband_progression_events.campaign_id
+    AND w.owner_id = auth.uid()
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.warband_progression_events;
@@ -0,0 +1,25 @@
+-- Warband composition rules: one row per campaign holding its declarative
+-- rules (unit counts, points caps, faction lists, incompatible equipment).
+-- Rosters are validated against them in the builder; with require_legal on,
+-- warbands that break a rule are kept out of battle round pairings.
+CREATE TABLE public.campaign_warband_rules (
+  campaign_id UUID NOT NULL PRIMARY KEY REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  rules JSONB NOT NULL DEFAULT '[]',
+  require_legal BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.campaign_warband_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Campaign members can view warband rules"
+ON public.campaign_warband_rules FOR SELECT
+USING (public.is_campaign_member(campaign_id, auth.uid()) OR public.is_campaign_gm(campaign_id, auth.uid()));
+
+CREATE POLICY "Full GMs can manage warband rules"
+ON public.campaign_warband_rules FOR ALL
+USING (public.has_full_gm_access(campaign_id, auth.uid()));
+
+CREATE TRIGGER update_campaign_warband_rules_updated_at
+BEFORE UPDATE ON public.campaign_warband_rules
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,45 @@
+-- Rulebook ingestion: GMs upload PDFs into a private campaign-documents bucket
+-- (one folder per campaign), each upload gets an extraction job, and rules
+-- promoted from a job are recorded with the 'pdf_import' change source.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('campaign-documents', 'campaign-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Campaign members can view documents"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'campaign-documents' AND
+  auth.uid() IS NOT NULL AND
+  (
+    public.is_campaign_member(((storage.foldername(name))[1])::uuid, auth.uid())
+    OR public.is_campaign_gm(((storage.foldername(name))[1])::uuid, auth.uid())
+  )
+);
+
+CREATE POLICY "Full GMs can upload documents"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'campaign-documents' AND
+  auth.uid() IS NOT NULL AND
+  public.has_full_gm_access(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Full GMs can delete documents"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'campaign-documents' AND
+  auth.uid() IS NOT NULL AND
+  public.has_full_gm_access(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+ALTER TABLE public.extraction_jobs
+  ADD COLUMN document_id UUID REFERENCES public.campaign_documents(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_extraction_jobs_document ON public.extraction_jobs(document_id);
+
+ALTER TABLE public.wargame_rules
+  DROP CONSTRAINT IF EXISTS wargame_rules_last_change_source_check;
+
+ALTER TABLE public.wargame_rules
+  ADD CONSTRAINT wargame_rules_last_change_source_check
+  CHECK (last_change_source IN ('manual', 'widget_sync', 'repo_sync', 'smart_paste', 'revert', 'pdf_import'));
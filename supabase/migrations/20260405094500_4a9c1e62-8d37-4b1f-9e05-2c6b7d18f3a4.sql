@@ -0,0 +1,15 @@
+-- Game-system library: campaign units copied from master_units keep a hash of
+-- the master content they were made from, so later master changes can be
+-- offered as updates. Library rules keep theirs in metadata.library, and
+-- applying an update is recorded with the 'library_sync' change source.
+ALTER TABLE public.campaign_units
+  ADD COLUMN source_hash TEXT;
+
+CREATE INDEX idx_campaign_units_source_ref ON public.campaign_units(campaign_id, source_ref);
+
+ALTER TABLE public.wargame_rules
+  DROP CONSTRAINT IF EXISTS wargame_rules_last_change_source_check;
+
+ALTER TABLE public.wargame_rules
+  ADD CONSTRAINT wargame_rules_last_change_source_check
+  CHECK (last_change_source IN ('manual', 'widget_sync', 'repo_sync', 'smart_paste', 'revert', 'pdf_import', 'library_sync'));
@@ -0,0 +1,144 @@
+-- Claiming ghost players.
+--
+-- A ghost is a campaign_players row for someone without an account, with a
+-- made-up user_id. When that person signs up and joins, a full GM merges the
+-- ghost into their new player row: everything the ghost accumulated moves
+-- across and the ghost row is removed, all in one transaction.
+--
+-- Match participants and results, battle reports, warbands, narrative
+-- entries, messages and roll history refer to players by user id; map
+-- territories and markers, moves, fog reveals, orders, resources and widget
+-- audiences refer to the campaign_players row.
+CREATE OR REPLACE FUNCTION public.merge_ghost_player(_ghost_player_id uuid, _player_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ghost public.campaign_players;
+  target public.campaign_players;
+  target_name text;
+BEGIN
+  SELECT * INTO ghost FROM public.campaign_players WHERE id = _ghost_player_id FOR UPDATE;
+  SELECT * INTO target FROM public.campaign_players WHERE id = _player_id FOR UPDATE;
+
+  IF ghost.id IS NULL OR target.id IS NULL OR ghost.campaign_id <> target.campaign_id THEN
+    RAISE EXCEPTION 'Both players must belong to the same campaign';
+  END IF;
+  IF NOT public.has_full_gm_access(ghost.campaign_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the GM can merge players';
+  END IF;
+  IF NOT ghost.is_ghost THEN
+    RAISE EXCEPTION 'Only ghost players can be merged';
+  END IF;
+  IF target.is_ghost OR ghost.id = target.id THEN
+    RAISE EXCEPTION 'Ghosts can only be merged into a player with an account';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.warbands WHERE campaign_id = ghost.campaign_id AND owner_id = ghost.user_id
+  ) AND EXISTS (
+    SELECT 1 FROM public.warbands WHERE campaign_id = ghost.campaign_id AND owner_id = target.user_id
+  ) THEN
+    RAISE EXCEPTION 'Both players have a warband in this campaign. Remove one before merging.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.battle_matches
+    WHERE campaign_id = ghost.campaign_id
+      AND participants @> jsonb_build_array(jsonb_build_object('playerId', ghost.user_id::text))
+      AND participants @> jsonb_build_array(jsonb_build_object('playerId', target.user_id::text))
+  ) THEN
+    RAISE EXCEPTION 'The ghost and the player are in the same match';
+  END IF;
+
+  target_name := COALESCE(target.player_name, (SELECT display_name FROM public.profiles WHERE id = target.user_id));
+
+  -- ── References by user id ──
+
+  UPDATE public.battle_matches m
+  SET
+    participants = (
+      SELECT COALESCE(jsonb_agg(
+        CASE WHEN e.p->>'playerId' = ghost.user_id::text
+          THEN e.p || jsonb_build_object('playerId', target.user_id::text, 'playerName', COALESCE(target_name, e.p->>'playerName'))
+          ELSE e.p
+        END
+        ORDER BY e.ord
+      ), '[]'::jsonb)
+      FROM jsonb_array_elements(m.participants) WITH ORDINALITY AS e(p, ord)
+    ),
+    provisional_results = (
+      SELECT COALESCE(jsonb_object_agg(CASE WHEN r.key = ghost.user_id::text THEN target.user_id::text ELSE r.key END, r.value), '{}'::jsonb)
+      FROM jsonb_each(COALESCE(m.provisional_results, '{}'::jsonb)) r
+    ),
+    final_results = (
+      SELECT COALESCE(jsonb_object_agg(CASE WHEN r.key = ghost.user_id::text THEN target.user_id::text ELSE r.key END, r.value), '{}'::jsonb)
+      FROM jsonb_each(COALESCE(m.final_results, '{}'::jsonb)) r
+    )
+  WHERE m.campaign_id = ghost.campaign_id
+    AND (
+      m.participants @> jsonb_build_array(jsonb_build_object('playerId', ghost.user_id::text))
+      OR m.provisional_results ? ghost.user_id::text
+      OR m.final_results ? ghost.user_id::text
+    );
+
+  UPDATE public.battle_reports r
+  SET submitted_by = target.user_id
+  FROM public.battle_matches m
+  WHERE r.match_id = m.id AND m.campaign_id = ghost.campaign_id AND r.submitted_by = ghost.user_id;
+
+  UPDATE public.warbands SET owner_id = target.user_id
+  WHERE campaign_id = ghost.campaign_id AND owner_id = ghost.user_id;
+
+  UPDATE public.player_narrative_entries SET player_id = target.user_id
+  WHERE campaign_id = ghost.campaign_id AND player_id = ghost.user_id;
+
+  UPDATE public.dice_roll_history SET player_id = target.user_id
+  WHERE campaign_id = ghost.campaign_id AND player_id = ghost.user_id;
+
+  UPDATE public.messages SET author_id = target.user_id
+  WHERE campaign_id = ghost.campaign_id AND author_id = ghost.user_id;
+
+  UPDATE public.messages SET recipient_id = target.user_id
+  WHERE campaign_id = ghost.campaign_id AND recipient_id = ghost.user_id;
+
+  -- ── References by player row ──
+
+  UPDATE public.map_territories SET owner_player_id = target.id WHERE owner_player_id = ghost.id;
+  UPDATE public.map_markers SET owner_player_id = target.id WHERE owner_player_id = ghost.id;
+  UPDATE public.map_movement_paths SET player_id = target.id WHERE player_id = ghost.id;
+  UPDATE public.resource_ledger_entries SET player_id = target.id WHERE player_id = ghost.id;
+
+  INSERT INTO public.map_fog_reveals (region_id, map_id, player_id, created_at)
+  SELECT region_id, map_id, target.id, created_at FROM public.map_fog_reveals WHERE player_id = ghost.id
+  ON CONFLICT (region_id, player_id) DO NOTHING;
+
+  -- Where both wrote orders for the same phase, the player's own stand
+  UPDATE public.campaign_orders o SET player_id = target.id
+  WHERE o.player_id = ghost.id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.campaign_orders t
+      WHERE t.player_id = target.id AND t.phase_id = o.phase_id AND t.round_number = o.round_number
+    );
+
+  UPDATE public.dashboard_components
+  SET visible_player_ids = ARRAY(SELECT DISTINCT unnest(array_replace(visible_player_ids, ghost.id, target.id)))
+  WHERE campaign_id = ghost.campaign_id AND ghost.id = ANY(visible_player_ids);
+
+  -- The player keeps their own settings and inherits the ghost's where they have none
+  UPDATE public.campaign_players
+  SET
+    faction = COALESCE(faction, ghost.faction),
+    sub_faction = COALESCE(sub_faction, ghost.sub_faction),
+    current_points = COALESCE(current_points, ghost.current_points),
+    warband_link = COALESCE(warband_link, ghost.warband_link),
+    additional_info = COALESCE(additional_info, ghost.additional_info)
+  WHERE id = target.id;
+
+  DELETE FROM public.campaign_players WHERE id = ghost.id;
+
+  RETURN target.id;
+END;
+$$;
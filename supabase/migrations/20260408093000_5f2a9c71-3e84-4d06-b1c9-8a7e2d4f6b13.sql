@@ -0,0 +1,54 @@
+-- Linked rules follow their widget's audience.
+--
+-- rules_table and rules_card widgets keep their content in wargame_rules and
+-- point at it through config.rule_id, so hiding the dashboard_components row
+-- alone still left a GM-only table readable through the rules API. A rule
+-- that widgets link to can now only be read by someone who can see at least
+-- one of those widgets; rules no widget links to stay open to every member.
+-- Revisions follow the same check on top of the GM-only rule they had.
+CREATE INDEX IF NOT EXISTS idx_dashboard_components_rule
+ON public.dashboard_components ((config->>'rule_id'))
+WHERE config ? 'rule_id';
+
+CREATE OR REPLACE FUNCTION public.can_view_wargame_rule(_rule_id uuid, _campaign_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      public.is_campaign_member(_campaign_id, _user_id)
+      OR EXISTS (SELECT 1 FROM public.campaigns WHERE id = _campaign_id AND owner_id = _user_id)
+    )
+    AND (
+      NOT EXISTS (
+        SELECT 1 FROM public.dashboard_components dc
+        WHERE dc.campaign_id = _campaign_id AND dc.config->>'rule_id' = _rule_id::text
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.dashboard_components dc
+        WHERE dc.campaign_id = _campaign_id
+          AND dc.config->>'rule_id' = _rule_id::text
+          AND public.can_view_dashboard_component(dc.campaign_id, dc.visibility, dc.visible_roles, dc.visible_player_ids, _user_id)
+      )
+    )
+$$;
+
+DROP POLICY IF EXISTS "Campaign members can view rules" ON public.wargame_rules;
+
+CREATE POLICY "Members can view rules in their widgets' audience"
+ON public.wargame_rules
+FOR SELECT
+USING (public.can_view_wargame_rule(id, campaign_id, auth.uid()));
+
+DROP POLICY IF EXISTS "GMs can view rule revisions" ON public.wargame_rule_revisions;
+
+CREATE POLICY "GMs can view revisions of rules they can see"
+ON public.wargame_rule_revisions
+FOR SELECT
+USING (
+  public.is_campaign_gm(campaign_id, auth.uid())
+  AND public.can_view_wargame_rule(rule_id, campaign_id, auth.uid())
+);
@@ -0,0 +1,138 @@
+-- Movement distances are measured by the database.
+--
+-- The distance on a move used to come from the client that drew it, and both
+-- the allowance check and the GM's review trusted it, so a player could send
+-- a route across the whole map with a distance of 0. A trigger now measures
+-- every route from its points and the map's grid, the same way the map's
+-- ruler does, before the insert policy checks it against the allowance.
+--
+-- Positions are percentages of the image, and the grid keeps cells square by
+-- scaling heights by the image's height / width. The GM's client records that
+-- ratio when it loads the image.
+ALTER TABLE public.campaign_maps
+  ADD COLUMN image_aspect FLOAT CHECK (image_aspect IS NULL OR image_aspect > 0);
+
+-- Axial coordinates {q, r} of the hex under a point in map units
+CREATE OR REPLACE FUNCTION public.map_hex_at(
+  _grid_type text,
+  _grid_size double precision,
+  _offset_x double precision,
+  _offset_y double precision,
+  _x double precision,
+  _y double precision
+)
+RETURNS integer[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  sqrt3 double precision := sqrt(3);
+  flat boolean := _grid_type = 'hex_flat';
+  -- Flat-topped hexes are pointy-topped hexes with x and y swapped
+  px double precision := CASE WHEN flat THEN _y ELSE _x END;
+  py double precision := CASE WHEN flat THEN _x ELSE _y END;
+  ox double precision := CASE WHEN flat THEN _offset_y ELSE _offset_x END;
+  oy double precision := CASE WHEN flat THEN _offset_x ELSE _offset_y END;
+  radius double precision := _grid_size / sqrt(3);
+  dx double precision;
+  dy double precision;
+  q double precision;
+  r double precision;
+  s double precision;
+  rq double precision;
+  rr double precision;
+  rs double precision;
+BEGIN
+  dx := px - (ox + _grid_size / 2);
+  dy := py - (oy + _grid_size / sqrt3);
+  q := ((sqrt3 / 3) * dx - dy / 3) / radius;
+  r := ((2.0 / 3) * dy) / radius;
+  s := -q - r;
+  -- floor(x + 0.5) rounds halves the way the client's Math.round does
+  rq := floor(q + 0.5);
+  rr := floor(r + 0.5);
+  rs := floor(s + 0.5);
+  IF abs(rq - q) > abs(rr - r) AND abs(rq - q) > abs(rs - s) THEN
+    rq := -rr - rs;
+  ELSIF abs(rr - r) > abs(rs - s) THEN
+    rr := -rq - rs;
+  END IF;
+  RETURN ARRAY[rq::integer, rr::integer];
+END;
+$$;
+
+-- Length of a route in the map's distance unit; mirrors measurePath in src/lib/mapGrid.ts
+CREATE OR REPLACE FUNCTION public.measure_map_path(_map_id uuid, _points jsonb)
+RETURNS double precision
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m public.campaign_maps;
+  aspect double precision;
+  cells double precision := 0;
+  x1 double precision;
+  y1 double precision;
+  x2 double precision;
+  y2 double precision;
+  from_hex integer[];
+  to_hex integer[];
+  dq integer;
+  dr integer;
+BEGIN
+  SELECT * INTO m FROM public.campaign_maps WHERE id = _map_id;
+  IF m.id IS NULL OR m.grid_size <= 0 THEN
+    RETURN 0;
+  END IF;
+  IF jsonb_typeof(_points) <> 'array' THEN
+    RAISE EXCEPTION 'A route must be a list of points';
+  END IF;
+
+  aspect := COALESCE(m.image_aspect, 1);
+
+  FOR i IN 1 .. jsonb_array_length(_points) - 1 LOOP
+    x1 := (_points->(i - 1)->>'x')::double precision;
+    y1 := (_points->(i - 1)->>'y')::double precision * aspect;
+    x2 := (_points->i->>'x')::double precision;
+    y2 := (_points->i->>'y')::double precision * aspect;
+    IF x1 IS NULL OR y1 IS NULL OR x2 IS NULL OR y2 IS NULL THEN
+      RAISE EXCEPTION 'Every point on a route needs an x and a y';
+    END IF;
+
+    IF m.grid_type IN ('hex_pointy', 'hex_flat') THEN
+      from_hex := public.map_hex_at(m.grid_type, m.grid_size, m.grid_offset_x, m.grid_offset_y, x1, y1);
+      to_hex := public.map_hex_at(m.grid_type, m.grid_size, m.grid_offset_x, m.grid_offset_y, x2, y2);
+      dq := to_hex[1] - from_hex[1];
+      dr := to_hex[2] - from_hex[2];
+      cells := cells + (abs(dq) + abs(dr) + abs(dq + dr)) / 2.0;
+    ELSE
+      cells := cells + sqrt(power(x2 - x1, 2) + power(y2 - y1, 2)) / m.grid_size;
+    END IF;
+  END LOOP;
+
+  RETURN cells * m.cell_distance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.measure_movement_path()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.distance := public.measure_map_path(NEW.map_id, NEW.points);
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers run ahead of the insert policy, so the allowance check sees this distance
+CREATE TRIGGER measure_movement_path
+BEFORE INSERT OR UPDATE OF points, map_id ON public.map_movement_paths
+FOR EACH ROW EXECUTE FUNCTION public.measure_movement_path();
+
+-- Existing routes are re-measured
+UPDATE public.map_movement_paths
+SET distance = public.measure_map_path(map_id, points);
@@ -0,0 +1,145 @@
+-- Saving a warband and paying for its new units happen together.
+--
+-- The builder used to save the roster and then write the purchase to the
+-- ledger as a second request, charging whoever was editing. A GM editing a
+-- player's warband was refused the ledger insert after the roster had already
+-- saved, so the new units were never paid for, and the balance check only
+-- ran in the browser. save_warband now checks the balance, charges the
+-- warband's owner and saves the roster in one transaction.
+--
+-- Units added since the last save are bought, as rosterPurchases in
+-- src/lib/resourceLedger.ts describes: new lines and extra models on existing
+-- lines, priced at the campaign's unit cost where the line names a campaign
+-- unit. Removing units is not a refund.
+CREATE OR REPLACE FUNCTION public.save_warband(
+  _campaign_id uuid,
+  _name text,
+  _roster jsonb,
+  -- A new warband when null
+  _warband_id uuid DEFAULT NULL,
+  _faction text DEFAULT NULL,
+  _sub_faction text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  existing public.warbands;
+  warband_owner uuid;
+  saved_id uuid := _warband_id;
+  previous_roster jsonb := '[]'::jsonb;
+  purchases jsonb;
+  purchase_total integer;
+  points integer;
+  currency public.campaign_currencies;
+  buyer_id uuid;
+  balance integer;
+  turn_round integer;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(_roster) <> 'array' THEN
+    RAISE EXCEPTION 'A roster must be a list of units';
+  END IF;
+
+  IF _warband_id IS NULL THEN
+    IF NOT (public.is_campaign_member(_campaign_id, caller) OR public.is_campaign_owner(_campaign_id, caller)) THEN
+      RAISE EXCEPTION 'Only campaign members can create warbands';
+    END IF;
+    warband_owner := caller;
+  ELSE
+    SELECT * INTO existing FROM public.warbands
+    WHERE id = _warband_id AND campaign_id = _campaign_id
+    FOR UPDATE;
+
+    IF existing.id IS NULL THEN
+      RAISE EXCEPTION 'Warband not found';
+    END IF;
+    IF existing.owner_id <> caller AND NOT public.has_full_gm_access(_campaign_id, caller) THEN
+      RAISE EXCEPTION 'Only the owner or the GM can edit this warband';
+    END IF;
+    warband_owner := existing.owner_id;
+    previous_roster := COALESCE(existing.roster, '[]'::jsonb);
+  END IF;
+
+  WITH lines AS (
+    SELECT
+      l->>'id' AS line_id,
+      COALESCE(NULLIF(l->>'name', ''), 'Unit') AS name,
+      GREATEST(COALESCE((l->>'quantity')::integer, 1), 0) AS quantity,
+      round(COALESCE(u.base_cost::numeric, (l->>'cost')::numeric, 0))::integer AS cost
+    FROM jsonb_array_elements(_roster) l
+    LEFT JOIN public.campaign_units u ON u.campaign_id = _campaign_id AND u.id::text = l->>'unitId'
+  ),
+  previous AS (
+    SELECT p->>'id' AS line_id, COALESCE((p->>'quantity')::integer, 1) AS quantity
+    FROM jsonb_array_elements(previous_roster) p
+  ),
+  bought AS (
+    SELECT l.name, l.quantity - COALESCE(pr.quantity, 0) AS added, l.cost
+    FROM lines l
+    LEFT JOIN previous pr ON pr.line_id = l.line_id
+    WHERE l.quantity - COALESCE(pr.quantity, 0) > 0 AND l.cost > 0
+  )
+  SELECT
+    (SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'quantity', added, 'cost', cost * added)), '[]'::jsonb) FROM bought),
+    (SELECT COALESCE(sum(cost * added), 0) FROM bought),
+    (SELECT COALESCE(sum(cost * quantity), 0) FROM lines)
+  INTO purchases, purchase_total, points;
+
+  SELECT * INTO currency FROM public.campaign_currencies
+  WHERE campaign_id = _campaign_id AND pays_for_units;
+
+  IF currency.id IS NOT NULL AND purchase_total > 0 THEN
+    -- Locking the buyer's row keeps two saves from spending the same balance
+    SELECT id INTO buyer_id FROM public.campaign_players
+    WHERE campaign_id = _campaign_id AND user_id = warband_owner
+    FOR UPDATE;
+  END IF;
+
+  IF buyer_id IS NOT NULL THEN
+    SELECT COALESCE(sum(amount), 0) INTO balance
+    FROM public.resource_ledger_entries
+    WHERE player_id = buyer_id AND currency_id = currency.id AND undone_at IS NULL;
+
+    IF purchase_total > balance THEN
+      RAISE EXCEPTION 'Not enough %: these units cost %, % %', currency.name, purchase_total,
+        CASE WHEN warband_owner = caller THEN 'you have' ELSE 'the owner has' END, balance;
+    END IF;
+  END IF;
+
+  IF _warband_id IS NULL THEN
+    INSERT INTO public.warbands (campaign_id, owner_id, name, faction, sub_faction, points_total, roster)
+    VALUES (_campaign_id, warband_owner, _name, _faction, _sub_faction, points, _roster)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.warbands
+    SET name = _name, faction = _faction, sub_faction = _sub_faction, points_total = points, roster = _roster
+    WHERE id = _warband_id;
+  END IF;
+
+  IF buyer_id IS NULL THEN
+    RETURN jsonb_build_object('id', saved_id, 'paid', 0, 'currency', NULL);
+  END IF;
+
+  SELECT current_round INTO turn_round FROM public.campaigns WHERE id = _campaign_id;
+
+  INSERT INTO public.resource_ledger_entries (
+    campaign_id, player_id, currency_id, amount, reason, source_type, source_id, round_number, created_by
+  )
+  SELECT
+    _campaign_id, buyer_id, currency.id, -(p->>'cost')::integer,
+    format('Bought %s× %s', p->>'quantity', p->>'name'),
+    'warband_purchase', saved_id, turn_round, caller
+  FROM jsonb_array_elements(purchases) p;
+
+  RETURN jsonb_build_object('id', saved_id, 'paid', purchase_total, 'currency', currency.name);
+END;
+$$;
+
+-- Purchases are only recorded by save_warband now
+DROP POLICY IF EXISTS "Players can record warband purchases" ON public.resource_ledger_entries;
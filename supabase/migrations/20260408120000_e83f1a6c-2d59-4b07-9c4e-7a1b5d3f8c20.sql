@@ -0,0 +1,190 @@
+-- Approving a battle report applies everything it causes in one transaction.
+--
+-- The approval used to be followed by separate requests for the territory
+-- transfer, its audit entry, the ledger payout and the progression events.
+-- When a later one failed the match stayed approved with the campaign half
+-- updated, approving again moved the territory a second time, and the
+-- count-then-insert checks on the payout and progression could race.
+--
+-- approve_battle_report marks the report and match approved and applies what
+-- the GM's client worked out from them, all or nothing. Each consequence is
+-- claimed once in battle_approval_effects, keyed by the match (territory) or
+-- report (resources, progression) it came from, so approving again or twice
+-- at once applies it only once.
+CREATE TABLE public.battle_approval_effects (
+  source_id UUID NOT NULL,
+  effect TEXT NOT NULL CHECK (effect IN ('territory', 'resources', 'progression')),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  applied_by UUID,
+  applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (source_id, effect)
+);
+
+ALTER TABLE public.battle_approval_effects ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for GMs; rows are only ever written by approve_battle_report
+CREATE POLICY "GMs can view approval effects"
+ON public.battle_approval_effects FOR SELECT
+USING (public.is_campaign_gm(campaign_id, auth.uid()));
+
+-- What earlier approvals already applied
+INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_at)
+SELECT DISTINCT ON ((changes->>'match_id')::uuid) (changes->>'match_id')::uuid, 'territory', campaign_id, created_at
+FROM public.battle_audit_trail
+WHERE entity_type = 'territory' AND action = 'transfer' AND changes ? 'match_id'
+ORDER BY (changes->>'match_id')::uuid, created_at
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_at)
+SELECT source_id, 'resources', campaign_id, min(created_at)
+FROM public.resource_ledger_entries
+WHERE source_type = 'battle_report' AND source_id IS NOT NULL
+GROUP BY source_id, campaign_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_at)
+SELECT source_id, 'progression', campaign_id, min(created_at)
+FROM public.warband_progression_events
+WHERE source_type = 'battle_report' AND source_id IS NOT NULL
+GROUP BY source_id, campaign_id
+ON CONFLICT DO NOTHING;
+
+-- _territory: { territory_id, territory_name, from_player_id, from_name, to_player_id, to_name, reason }
+-- _ledger:    [{ player_id, currency_id, amount, reason }]
+-- _progression: [{ warband_id, roster_unit_id, event_type, amount, label, notes }]
+CREATE OR REPLACE FUNCTION public.approve_battle_report(
+  _report_id uuid,
+  _final_results jsonb,
+  _territory jsonb DEFAULT NULL,
+  _ledger jsonb DEFAULT '[]'::jsonb,
+  _progression jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  report public.battle_reports;
+  battle public.battle_matches;
+  territory public.map_territories;
+  turn_round integer;
+  transferred boolean := false;
+  ledger_entries integer := 0;
+  progression_events integer := 0;
+BEGIN
+  SELECT * INTO report FROM public.battle_reports WHERE id = _report_id;
+  IF report.id IS NULL THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  SELECT * INTO battle FROM public.battle_matches WHERE id = report.match_id FOR UPDATE;
+  IF NOT public.has_full_gm_access(battle.campaign_id, caller) THEN
+    RAISE EXCEPTION 'Only the GM can approve reports';
+  END IF;
+
+  UPDATE public.battle_reports
+  SET approved_by = caller, approved_at = now()
+  WHERE id = report.id;
+
+  UPDATE public.battle_matches
+  SET status = 'approved', final_results = COALESCE(_final_results, '{}'::jsonb)
+  WHERE id = battle.id;
+
+  -- ── Territory ──
+  IF _territory IS NOT NULL THEN
+    SELECT t.* INTO territory
+    FROM public.map_territories t
+    JOIN public.campaign_maps cm ON cm.id = t.map_id
+    WHERE t.id = (_territory->>'territory_id')::uuid AND cm.campaign_id = battle.campaign_id
+    FOR UPDATE OF t;
+
+    IF territory.id IS NULL THEN
+      RAISE EXCEPTION 'The contested territory is not on this campaign''s maps';
+    END IF;
+
+    INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_by)
+    VALUES (battle.id, 'territory', battle.campaign_id, caller)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      IF territory.owner_player_id IS DISTINCT FROM (_territory->>'from_player_id')::uuid THEN
+        RAISE EXCEPTION '% changed hands while this report was open. Reload and approve again.', territory.name;
+      END IF;
+      IF (_territory->>'to_player_id') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.campaign_players
+        WHERE id = (_territory->>'to_player_id')::uuid AND campaign_id = battle.campaign_id
+      ) THEN
+        RAISE EXCEPTION 'The new holder is not in this campaign';
+      END IF;
+
+      UPDATE public.map_territories
+      SET owner_player_id = (_territory->>'to_player_id')::uuid
+      WHERE id = territory.id;
+
+      INSERT INTO public.battle_audit_trail (campaign_id, entity_type, entity_id, action, changed_by, changes, reason)
+      VALUES (
+        battle.campaign_id, 'territory', territory.id, 'transfer', caller,
+        jsonb_build_object(
+          'territory_name', territory.name,
+          'match_id', battle.id,
+          'from_player_id', territory.owner_player_id,
+          'from_name', _territory->'from_name',
+          'to_player_id', _territory->'to_player_id',
+          'to_name', _territory->'to_name'
+        ),
+        CASE WHEN _territory->>'reason' = 'draw' THEN 'Contested battle ended in a draw' ELSE 'Captured in battle' END
+      );
+      transferred := true;
+    END IF;
+  END IF;
+
+  -- ── Resources ──
+  IF jsonb_array_length(COALESCE(_ledger, '[]'::jsonb)) > 0 THEN
+    INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_by)
+    VALUES (report.id, 'resources', battle.campaign_id, caller)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      SELECT round_index INTO turn_round FROM public.battle_rounds WHERE id = battle.round_id;
+
+      INSERT INTO public.resource_ledger_entries (
+        campaign_id, player_id, currency_id, amount, reason, source_type, source_id, round_number, created_by
+      )
+      SELECT battle.campaign_id, cp.id, c.id, (l->>'amount')::integer, l->>'reason', 'battle_report', report.id, turn_round, caller
+      FROM jsonb_array_elements(_ledger) l
+      JOIN public.campaign_players cp ON cp.id = (l->>'player_id')::uuid AND cp.campaign_id = battle.campaign_id
+      JOIN public.campaign_currencies c ON c.id = (l->>'currency_id')::uuid AND c.campaign_id = battle.campaign_id;
+
+      GET DIAGNOSTICS ledger_entries = ROW_COUNT;
+    END IF;
+  END IF;
+
+  -- ── Progression ──
+  IF jsonb_array_length(COALESCE(_progression, '[]'::jsonb)) > 0 THEN
+    INSERT INTO public.battle_approval_effects (source_id, effect, campaign_id, applied_by)
+    VALUES (report.id, 'progression', battle.campaign_id, caller)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO public.warband_progression_events (
+        campaign_id, warband_id, roster_unit_id, event_type, amount, label, notes, source_type, source_id, created_by
+      )
+      SELECT
+        battle.campaign_id, w.id, e->>'roster_unit_id', e->>'event_type', (e->>'amount')::integer,
+        e->>'label', e->>'notes', 'battle_report', report.id, caller
+      FROM jsonb_array_elements(_progression) e
+      JOIN public.warbands w ON w.id = (e->>'warband_id')::uuid AND w.campaign_id = battle.campaign_id;
+
+      GET DIAGNOSTICS progression_events = ROW_COUNT;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'transferred', transferred,
+    'ledger_entries', ledger_entries,
+    'progression_events', progression_events
+  );
+END;
+$$;
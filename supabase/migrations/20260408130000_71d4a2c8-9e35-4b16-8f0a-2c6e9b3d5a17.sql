@@ -0,0 +1,193 @@
+-- Rosters are only written by save_warband, and save_warband prices them.
+--
+-- Owners could still insert and update their warbands straight through the
+-- API, so a roster written that way was read back as already paid for on the
+-- next save. Lines that didn't name a campaign unit were also priced at the
+-- cost the client sent. Now:
+--   - the direct INSERT and UPDATE policies are gone; deleting stays direct
+--   - every line is priced from its campaign unit, and the stored cost is
+--     overwritten with that price
+--   - a line that names no campaign unit is only accepted if it was already
+--     on the saved roster and isn't growing; it keeps its saved cost
+--   - a line is the same line as before only if both its id and its unit
+--     match, so swapping the unit on an existing line buys the new unit
+DROP POLICY IF EXISTS "Users can create own warband" ON public.warbands;
+DROP POLICY IF EXISTS "Users can update own warband" ON public.warbands;
+
+CREATE OR REPLACE FUNCTION public.save_warband(
+  _campaign_id uuid,
+  _name text,
+  _roster jsonb,
+  -- A new warband when null
+  _warband_id uuid DEFAULT NULL,
+  _faction text DEFAULT NULL,
+  _sub_faction text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  existing public.warbands;
+  warband_owner uuid;
+  saved_id uuid := _warband_id;
+  previous_roster jsonb := '[]'::jsonb;
+  priced jsonb;
+  unpriced text;
+  saved_roster jsonb;
+  purchases jsonb;
+  purchase_total integer;
+  points integer;
+  currency public.campaign_currencies;
+  buyer_id uuid;
+  balance integer;
+  turn_round integer;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF jsonb_typeof(_roster) <> 'array' THEN
+    RAISE EXCEPTION 'A roster must be a list of units';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_roster) l
+    GROUP BY l->>'id'
+    HAVING l->>'id' IS NULL OR count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Every unit in a roster needs its own id';
+  END IF;
+
+  IF _warband_id IS NULL THEN
+    IF NOT (public.is_campaign_member(_campaign_id, caller) OR public.is_campaign_owner(_campaign_id, caller)) THEN
+      RAISE EXCEPTION 'Only campaign members can create warbands';
+    END IF;
+    warband_owner := caller;
+  ELSE
+    SELECT * INTO existing FROM public.warbands
+    WHERE id = _warband_id AND campaign_id = _campaign_id
+    FOR UPDATE;
+
+    IF existing.id IS NULL THEN
+      RAISE EXCEPTION 'Warband not found';
+    END IF;
+    IF existing.owner_id <> caller AND NOT public.has_full_gm_access(_campaign_id, caller) THEN
+      RAISE EXCEPTION 'Only the owner or the GM can edit this warband';
+    END IF;
+    warband_owner := existing.owner_id;
+    previous_roster := COALESCE(existing.roster, '[]'::jsonb);
+  END IF;
+
+  WITH lines AS (
+    SELECT
+      e.ord,
+      e.line,
+      e.line->>'id' AS line_id,
+      e.line->>'unitId' AS unit_id,
+      COALESCE(NULLIF(e.line->>'name', ''), 'Unit') AS name,
+      GREATEST(COALESCE((e.line->>'quantity')::integer, 1), 0) AS quantity,
+      round(u.base_cost::numeric)::integer AS unit_cost
+    FROM jsonb_array_elements(_roster) WITH ORDINALITY AS e(line, ord)
+    LEFT JOIN public.campaign_units u ON u.campaign_id = _campaign_id AND u.id::text = e.line->>'unitId'
+  ),
+  previous AS (
+    SELECT
+      p->>'id' AS line_id,
+      p->>'unitId' AS unit_id,
+      COALESCE((p->>'quantity')::integer, 1) AS quantity,
+      round(COALESCE((p->>'cost')::numeric, 0))::integer AS cost
+    FROM jsonb_array_elements(previous_roster) p
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'name', l.name,
+    'quantity', l.quantity,
+    'owned', COALESCE(pr.quantity, 0),
+    'cost', COALESCE(l.unit_cost, CASE WHEN l.quantity <= pr.quantity THEN pr.cost END),
+    'line', l.line || jsonb_build_object(
+      'quantity', l.quantity,
+      'cost', COALESCE(l.unit_cost, CASE WHEN l.quantity <= pr.quantity THEN pr.cost END)
+    )
+  ) ORDER BY l.ord), '[]'::jsonb)
+  INTO priced
+  FROM lines l
+  LEFT JOIN previous pr ON pr.line_id = l.line_id AND pr.unit_id IS NOT DISTINCT FROM l.unit_id;
+
+  SELECT p->>'name' INTO unpriced
+  FROM jsonb_array_elements(priced) p
+  WHERE p->>'cost' IS NULL
+  LIMIT 1;
+
+  IF unpriced IS NOT NULL THEN
+    RAISE EXCEPTION '"%" isn''t one of this campaign''s units, so it can''t be added', unpriced;
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(p->'line'), '[]'::jsonb),
+    COALESCE(sum((p->>'cost')::integer * (p->>'quantity')::integer), 0)
+  INTO saved_roster, points
+  FROM jsonb_array_elements(priced) p;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'name', b.name,
+      'quantity', b.added,
+      'cost', b.cost * b.added
+    )), '[]'::jsonb),
+    COALESCE(sum(b.cost * b.added), 0)
+  INTO purchases, purchase_total
+  FROM (
+    SELECT p->>'name' AS name, (p->>'quantity')::integer - (p->>'owned')::integer AS added, (p->>'cost')::integer AS cost
+    FROM jsonb_array_elements(priced) p
+  ) b
+  WHERE b.added > 0 AND b.cost > 0;
+
+  SELECT * INTO currency FROM public.campaign_currencies
+  WHERE campaign_id = _campaign_id AND pays_for_units;
+
+  IF currency.id IS NOT NULL AND purchase_total > 0 THEN
+    -- Locking the buyer's row keeps two saves from spending the same balance
+    SELECT id INTO buyer_id FROM public.campaign_players
+    WHERE campaign_id = _campaign_id AND user_id = warband_owner
+    FOR UPDATE;
+  END IF;
+
+  IF buyer_id IS NOT NULL THEN
+    SELECT COALESCE(sum(amount), 0) INTO balance
+    FROM public.resource_ledger_entries
+    WHERE player_id = buyer_id AND currency_id = currency.id AND undone_at IS NULL;
+
+    IF purchase_total > balance THEN
+      RAISE EXCEPTION 'Not enough %: these units cost %, % %', currency.name, purchase_total,
+        CASE WHEN warband_owner = caller THEN 'you have' ELSE 'the owner has' END, balance;
+    END IF;
+  END IF;
+
+  IF _warband_id IS NULL THEN
+    INSERT INTO public.warbands (campaign_id, owner_id, name, faction, sub_faction, points_total, roster)
+    VALUES (_campaign_id, warband_owner, _name, _faction, _sub_faction, points, saved_roster)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.warbands
+    SET name = _name, faction = _faction, sub_faction = _sub_faction, points_total = points, roster = saved_roster
+    WHERE id = _warband_id;
+  END IF;
+
+  IF buyer_id IS NULL THEN
+    RETURN jsonb_build_object('id', saved_id, 'paid', 0, 'currency', NULL);
+  END IF;
+
+  SELECT current_round INTO turn_round FROM public.campaigns WHERE id = _campaign_id;
+
+  INSERT INTO public.resource_ledger_entries (
+    campaign_id, player_id, currency_id, amount, reason, source_type, source_id, round_number, created_by
+  )
+  SELECT
+    _campaign_id, buyer_id, currency.id, -(p->>'cost')::integer,
+    format('Bought %s× %s', p->>'quantity', p->>'name'),
+    'warband_purchase', saved_id, turn_round, caller
+  FROM jsonb_array_elements(purchases) p;
+
+  RETURN jsonb_build_object('id', saved_id, 'paid', purchase_total, 'currency', currency.name);
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Routes start at the marker, and approving one moves the marker in the same
+-- transaction.
+--
+-- A route was measured from its own first point, which nothing tied to the
+-- marker, so a two-point route ending far away measured next to nothing and
+-- teleported the marker once approved. The route now has to start where the
+-- marker stands, both when it is drawn and when it is approved.
+--
+-- Approving also used to be two requests from the GM's client: mark the move
+-- approved, then move the marker. If the second failed the move stayed
+-- approved with the marker left behind. review_movement_path and
+-- move_map_marker now do both at once.
+
+CREATE OR REPLACE FUNCTION public.measure_movement_path()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marker public.map_markers;
+BEGIN
+  SELECT * INTO marker FROM public.map_markers WHERE id = NEW.marker_id AND map_id = NEW.map_id;
+  IF marker.id IS NULL THEN
+    RAISE EXCEPTION 'That marker is not on this map';
+  END IF;
+  IF jsonb_typeof(NEW.points) <> 'array' OR jsonb_array_length(NEW.points) < 2 THEN
+    RAISE EXCEPTION 'A route needs at least two points';
+  END IF;
+  -- Reviewed moves keep their route after the marker moves on. Positions are
+  -- floats, so allow for rounding on the way through JSON.
+  IF (TG_OP = 'INSERT' OR NEW.status = 'pending') AND (
+    abs((NEW.points->0->>'x')::double precision - marker.position_x) > 0.001
+    OR abs((NEW.points->0->>'y')::double precision - marker.position_y) > 0.001
+  ) THEN
+    RAISE EXCEPTION 'A route has to start where the marker is';
+  END IF;
+
+  NEW.distance := public.measure_map_path(NEW.map_id, NEW.points);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS measure_movement_path ON public.map_movement_paths;
+CREATE TRIGGER measure_movement_path
+BEFORE INSERT OR UPDATE OF points, map_id, marker_id ON public.map_movement_paths
+FOR EACH ROW EXECUTE FUNCTION public.measure_movement_path();
+
+-- Approve (moving the marker to the end of the route) or reject a pending move
+CREATE OR REPLACE FUNCTION public.review_movement_path(_path_id uuid, _status text, _gm_note text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  route public.map_movement_paths;
+  marker public.map_markers;
+  campaign uuid;
+BEGIN
+  IF _status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A move can only be approved or rejected';
+  END IF;
+
+  SELECT * INTO route FROM public.map_movement_paths WHERE id = _path_id FOR UPDATE;
+  IF route.id IS NULL THEN
+    RAISE EXCEPTION 'Move not found';
+  END IF;
+
+  SELECT campaign_id INTO campaign FROM public.campaign_maps WHERE id = route.map_id;
+  IF NOT public.has_full_gm_access(campaign, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the GM can review moves';
+  END IF;
+  IF route.status <> 'pending' THEN
+    RAISE EXCEPTION 'This move has already been reviewed';
+  END IF;
+
+  IF _status = 'approved' THEN
+    SELECT * INTO marker FROM public.map_markers WHERE id = route.marker_id FOR UPDATE;
+    IF marker.id IS NULL THEN
+      RAISE EXCEPTION 'The marker for this move no longer exists';
+    END IF;
+    IF abs((route.points->0->>'x')::double precision - marker.position_x) > 0.001
+      OR abs((route.points->0->>'y')::double precision - marker.position_y) > 0.001 THEN
+      RAISE EXCEPTION 'The marker has moved since this route was drawn';
+    END IF;
+
+    UPDATE public.map_markers
+    SET
+      position_x = (route.points -> -1 ->> 'x')::double precision,
+      position_y = (route.points -> -1 ->> 'y')::double precision
+    WHERE id = marker.id;
+  END IF;
+
+  UPDATE public.map_movement_paths
+  SET status = _status, gm_note = _gm_note, reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = route.id;
+
+  RETURN route.id;
+END;
+$$;
+
+-- A GM moving a marker directly: the move is recorded as approved and the
+-- marker moved together. The move is recorded against the marker's holder.
+CREATE OR REPLACE FUNCTION public.move_map_marker(_marker_id uuid, _points jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marker public.map_markers;
+  campaign uuid;
+  route public.map_movement_paths;
+BEGIN
+  SELECT * INTO marker FROM public.map_markers WHERE id = _marker_id FOR UPDATE;
+  IF marker.id IS NULL THEN
+    RAISE EXCEPTION 'Marker not found';
+  END IF;
+
+  SELECT campaign_id INTO campaign FROM public.campaign_maps WHERE id = marker.map_id;
+  IF NOT public.has_full_gm_access(campaign, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the GM can move markers directly';
+  END IF;
+
+  -- The trigger checks the route starts at the marker and measures it
+  INSERT INTO public.map_movement_paths (map_id, marker_id, player_id, points, status, created_by, reviewed_by, reviewed_at)
+  VALUES (marker.map_id, marker.id, marker.owner_player_id, _points, 'approved', auth.uid(), auth.uid(), now())
+  RETURNING * INTO route;
+
+  UPDATE public.map_markers
+  SET
+    position_x = (_points -> -1 ->> 'x')::double precision,
+    position_y = (_points -> -1 ->> 'y')::double precision
+  WHERE id = marker.id;
+
+  RETURN route.id;
+END;
+$$;
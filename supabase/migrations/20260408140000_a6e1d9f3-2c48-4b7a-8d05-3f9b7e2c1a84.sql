@@ -0,0 +1,18 @@
+-- Rolls on a rule's table follow the rule's audience.
+--
+-- The roll-dice function now refuses to roll on a table the caller can't
+-- read, but a roll made by someone who can still stored the rolled row in
+-- context, and every campaign member could read the roll history. Rolls that
+-- link a rule are now only visible to those who can see that rule.
+DROP POLICY IF EXISTS "Campaign members can view roll history" ON public.dice_roll_history;
+
+CREATE POLICY "Campaign members can view roll history"
+ON public.dice_roll_history
+FOR SELECT
+USING (
+  (
+    is_campaign_member(campaign_id, auth.uid())
+    OR is_campaign_owner(campaign_id, auth.uid())
+  )
+  AND (rule_id IS NULL OR public.can_view_wargame_rule(rule_id, campaign_id, auth.uid()))
+);
@@ -1,15 +1,46 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Tesseract's worker, LSTM cores and English model, served under /tesseract/
+// so OCR never reaches out to a CDN
+const TESSERACT_ASSETS: Record<string, string> = {
+  "worker.min.js": "tesseract.js/dist/worker.min.js",
+  "tesseract-core-lstm.wasm.js": "tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "tesseract-core-simd-lstm.wasm.js": "tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "eng.traineddata.gz": "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+};
+
+function tesseractAssets(): Plugin {
+  const source = (name: string) => path.resolve(__dirname, "node_modules", TESSERACT_ASSETS[name]);
+
+  return {
+    name: "tesseract-assets",
+    configureServer(server) {
+      server.middlewares.use("/tesseract", (req, res, next) => {
+        const name = (req.url ?? "").split("?")[0].replace(/^\//, "");
+        if (!TESSERACT_ASSETS[name]) return next();
+        res.setHeader("Content-Type", name.endsWith(".js") ? "application/javascript" : "application/octet-stream");
+        fs.createReadStream(source(name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of Object.keys(TESSERACT_ASSETS)) {
+        this.emitFile({ type: "asset", fileName: `tesseract/${name}`, source: fs.readFileSync(source(name)) });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), tesseractAssets(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),